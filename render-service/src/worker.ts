@@ -0,0 +1,270 @@
+/**
+ * render-service — turn saved stories into downloadable MP4/WebM files.
+ *
+ * The app queues a row in `video_renders` (story id + format + resolution).
+ * This worker claims queued rows one at a time via the `claim_video_render`
+ * RPC, renders the "SavedStory" composition from src/remotion/Root.tsx with
+ * the story's `content` + `settings` as input props, and uploads the result
+ * to the public `story-renders` bucket, together with WebVTT/SRT subtitles
+ * for narrated stories. Progress is written back to the row so the app can
+ * show a progress bar and, once done, download links.
+ *
+ * Runs anywhere Node 20 and a headless Chromium are available:
+ *   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... npm start
+ * See README.md for the full list of environment variables.
+ */
+
+import { readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { bundle } from "@remotion/bundler";
+import { renderMedia, selectComposition } from "@remotion/renderer";
+import { createClient } from "@supabase/supabase-js";
+import webpack from "webpack";
+import { SAVED_STORY_COMPOSITION_ID, SAVED_STORY_FPS, buildSavedStoryVideoProps } from "../../src/remotion/lib/savedStoryProps";
+import { cuesToSRT, cuesToWebVTT, getCaptionCues } from "../../src/remotion/lib/captions";
+import type { StoryContent, StorySettings } from "../../src/hooks/useSaveStory";
+
+// ─── Config ─────────────────────────────────────────────────────────────────
+
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+// Baked into the bundle for the few app modules the compositions import
+// (they read import.meta.env at load time); the anon key is public anyway.
+const SUPABASE_PUBLISHABLE_KEY = process.env.SUPABASE_PUBLISHABLE_KEY ?? "";
+const BROWSER_EXECUTABLE = process.env.REMOTION_BROWSER_EXECUTABLE || null;
+const POLL_INTERVAL_MS = Number(process.env.POLL_INTERVAL_MS ?? 5000);
+const CONCURRENCY = process.env.RENDER_CONCURRENCY ? Number(process.env.RENDER_CONCURRENCY) : null;
+
+const BUCKET = "story-renders";
+const PROGRESS_WRITE_INTERVAL_MS = 2000;
+
+const APP_ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "../..");
+const ENTRY_POINT = path.join(APP_ROOT, "src/remotion/Root.tsx");
+
+if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+  console.error("[render-service] SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required");
+  process.exit(1);
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+  auth: { persistSession: false },
+});
+
+// ─── Formats ────────────────────────────────────────────────────────────────
+
+type RenderFormat = "mp4" | "webm";
+type RenderResolution = "540p" | "720p" | "1080p";
+
+const CODECS: Record<RenderFormat, { codec: "h264" | "vp8"; contentType: string }> = {
+  mp4: { codec: "h264", contentType: "video/mp4" },
+  webm: { codec: "vp8", contentType: "video/webm" },
+};
+
+// Compositions are full HD (1920x1080, or 1080x1920 for the vertical short); smaller outputs are rendered scaled down.
+const SCALES: Record<RenderResolution, number> = {
+  "540p": 0.5,
+  "720p": 2 / 3,
+  "1080p": 1,
+};
+
+interface VideoRender {
+  id: string;
+  story_id: string;
+  format: RenderFormat;
+  resolution: RenderResolution;
+}
+
+// ─── Bundle ─────────────────────────────────────────────────────────────────
+
+let serveUrlPromise: Promise<string> | null = null;
+
+/** Bundle the compositions once per process; every render reuses the result. */
+function getServeUrl(): Promise<string> {
+  if (!serveUrlPromise) {
+    console.log("[render-service] Bundling", ENTRY_POINT);
+    serveUrlPromise = bundle({
+      entryPoint: ENTRY_POINT,
+      webpackOverride: (config) => ({
+        ...config,
+        resolve: {
+          ...config.resolve,
+          alias: {
+            ...(config.resolve?.alias ?? {}),
+            "@": path.join(APP_ROOT, "src"),
+          },
+        },
+        plugins: [
+          ...(config.plugins ?? []),
+          new webpack.DefinePlugin({
+            "import.meta.env": JSON.stringify({
+              VITE_SUPABASE_URL: SUPABASE_URL,
+              VITE_SUPABASE_PUBLISHABLE_KEY: SUPABASE_PUBLISHABLE_KEY,
+              MODE: "production",
+              DEV: false,
+              PROD: true,
+            }),
+          }),
+        ],
+      }),
+    });
+  }
+  return serveUrlPromise;
+}
+
+// ─── Render ─────────────────────────────────────────────────────────────────
+
+async function updateRender(id: string, patch: Record<string, unknown>) {
+  const { error } = await supabase
+    .from("video_renders")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) console.error(`[render-service] Failed to update render ${id}:`, error.message);
+}
+
+/**
+ * Upload WebVTT + SRT captions next to the video. Narrated stories only —
+ * music videos have nothing to caption. Failures here never fail the render.
+ */
+async function uploadSubtitles(job: VideoRender, content: StoryContent, settings: StorySettings) {
+  const cues = getCaptionCues(settings.variant, buildSavedStoryVideoProps(content, settings));
+  if (cues.length === 0) return {};
+
+  const files = [
+    { ext: "vtt", contentType: "text/vtt", body: cuesToWebVTT(cues, SAVED_STORY_FPS), column: "subtitles_vtt_url" },
+    { ext: "srt", contentType: "application/x-subrip", body: cuesToSRT(cues, SAVED_STORY_FPS), column: "subtitles_srt_url" },
+  ];
+
+  const urls: Record<string, string> = {};
+  for (const file of files) {
+    const storagePath = `${job.story_id}/${job.id}.${file.ext}`;
+    const { error } = await supabase.storage
+      .from(BUCKET)
+      .upload(storagePath, file.body, { contentType: file.contentType, upsert: true });
+    if (error) {
+      console.error(`[render-service] Subtitle upload failed (${file.ext}):`, error.message);
+      continue;
+    }
+    urls[file.column] = supabase.storage.from(BUCKET).getPublicUrl(storagePath, { download: true }).data.publicUrl;
+  }
+  return urls;
+}
+
+async function processRender(job: VideoRender) {
+  const { data: story, error: storyError } = await supabase
+    .from("saved_stories")
+    .select("content, settings, is_public")
+    .eq("id", job.story_id)
+    .single();
+
+  if (storyError || !story) {
+    throw new Error(`Story ${job.story_id} not found`);
+  }
+  // The bucket is public: a private story's video would be readable by anyone with the link
+  if (!story.is_public) {
+    throw new Error("Only public stories can be rendered");
+  }
+
+  const { codec, contentType } = CODECS[job.format];
+  const inputProps = { content: story.content, settings: story.settings };
+  const serveUrl = await getServeUrl();
+
+  const composition = await selectComposition({
+    serveUrl,
+    id: SAVED_STORY_COMPOSITION_ID,
+    inputProps,
+    browserExecutable: BROWSER_EXECUTABLE,
+  });
+
+  const outputLocation = path.join(tmpdir(), `${job.id}.${job.format}`);
+  let lastProgressWrite = 0;
+
+  try {
+    await renderMedia({
+      composition,
+      serveUrl,
+      codec,
+      inputProps,
+      outputLocation,
+      scale: SCALES[job.resolution],
+      concurrency: CONCURRENCY,
+      browserExecutable: BROWSER_EXECUTABLE,
+      onProgress: ({ progress }) => {
+        const now = Date.now();
+        if (now - lastProgressWrite < PROGRESS_WRITE_INTERVAL_MS) return;
+        lastProgressWrite = now;
+        // Keep the last sliver for the upload so the bar never sits at 100% while still busy
+        void updateRender(job.id, { progress: Math.min(progress, 0.99) });
+      },
+    });
+
+    const storagePath = `${job.story_id}/${job.id}.${job.format}`;
+    const file = await readFile(outputLocation);
+    const { error: uploadError } = await supabase.storage
+      .from(BUCKET)
+      .upload(storagePath, file, { contentType, upsert: true });
+
+    if (uploadError) throw new Error(`Upload failed: ${uploadError.message}`);
+
+    // download: serve with Content-Disposition: attachment so the link saves instead of playing inline
+    const { data: publicUrl } = supabase.storage.from(BUCKET).getPublicUrl(storagePath, { download: true });
+    const subtitles = await uploadSubtitles(job, story.content as StoryContent, story.settings as StorySettings);
+
+    await updateRender(job.id, {
+      status: "done",
+      progress: 1,
+      output_path: storagePath,
+      output_url: publicUrl.publicUrl,
+      ...subtitles,
+    });
+  } finally {
+    await rm(outputLocation, { force: true });
+  }
+}
+
+// ─── Queue loop ─────────────────────────────────────────────────────────────
+
+async function claimNext(): Promise<VideoRender | null> {
+  const { data, error } = await supabase.rpc("claim_video_render");
+  if (error) {
+    console.error("[render-service] Claim failed:", error.message);
+    return null;
+  }
+  return (data as VideoRender[] | null)?.[0] ?? null;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+  const once = process.argv.includes("--once");
+
+  while (true) {
+    const job = await claimNext();
+
+    if (!job) {
+      if (once) return;
+      await sleep(POLL_INTERVAL_MS);
+      continue;
+    }
+
+    console.log(`[render-service] Rendering ${job.id} (story ${job.story_id}, ${job.format} ${job.resolution})`);
+    const startedAt = Date.now();
+
+    try {
+      await processRender(job);
+      console.log(`[render-service] Done ${job.id} in ${Math.round((Date.now() - startedAt) / 1000)}s`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`[render-service] Render ${job.id} failed:`, message);
+      await updateRender(job.id, { status: "error", error: message });
+    }
+
+    if (once) return;
+  }
+}
+
+main().catch((err) => {
+  console.error("[render-service] Fatal:", err);
+  process.exit(1);
+});
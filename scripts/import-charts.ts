@@ -0,0 +1,72 @@
+/**
+ * Rebuilds src/data/charts/dataset/<country>.json from the chart dumps listed
+ * in src/data/charts/sources.json.
+ *
+ *   npm run import:charts            # report issues, write datasets
+ *   npm run import:charts -- --strict  # write nothing and exit 1 when any row was flagged
+ *
+ * To add a chart: drop the CSV/JSON dump in src/data/charts/sources/, add an
+ * entry to sources.json and run the importer. See src/lib/chartImport.ts for
+ * the accepted columns.
+ *
+ * What's bundled so far is the international year list (1960 onwards) and
+ * the weekly Billboard number ones of 1985. The charts the importer was
+ * built for are still missing: the Dutch Top 40, the German Media Control /
+ * GfK charts, SNEP for France, and anything before 1960. None of them
+ * publishes its archive as open data, so each needs an export from the
+ * chart's archive under its terms before it can go into sources/, and that
+ * hasn't been obtained yet. Until then NL, DE and FR fall back to the
+ * international list, and years before 1960 have no chart hits at all.
+ */
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, extname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import {
+  ChartCountry,
+  ChartIssue,
+  ChartRow,
+  ChartSource,
+  CountryChartDataset,
+  buildCountryDataset,
+  parseChartSource,
+} from '../src/lib/chartImport';
+
+const chartsDir = resolve(dirname(fileURLToPath(import.meta.url)), '../src/data/charts');
+const strict = process.argv.includes('--strict');
+
+// One chart entry per line keeps dataset diffs readable
+const formatDataset = (dataset: CountryChartDataset) =>
+  JSON.stringify(dataset, null, 2).replace(/\{\n\s+("position"[\s\S]*?)\n\s+\}/g, (_, body: string) =>
+    `{ ${body.split(/\n\s+/).join(' ')} }`,
+  ) + '\n';
+
+const sources: ChartSource[] = JSON.parse(readFileSync(join(chartsDir, 'sources.json'), 'utf8'));
+const byCountry = new Map<ChartCountry, { source: ChartSource; rows: ChartRow[] }[]>();
+const issues: ChartIssue[] = [];
+
+for (const source of sources) {
+  const format = extname(source.file).toLowerCase() === '.json' ? 'json' : 'csv';
+  const result = parseChartSource(source, readFileSync(join(chartsDir, source.file), 'utf8'), format);
+  issues.push(...result.issues);
+  if (!byCountry.has(source.country)) byCountry.set(source.country, []);
+  byCountry.get(source.country)!.push({ source, rows: result.rows });
+  console.log(`${source.id}: ${result.rows.length} rows, ${result.issues.length} flagged`);
+}
+
+for (const issue of issues) {
+  console.warn(`  [${issue.kind}] ${issue.source}:${issue.line} ${issue.message}`);
+}
+
+if (strict && issues.length > 0) {
+  console.error(`${issues.length} rows flagged, nothing written`);
+  process.exit(1);
+}
+
+for (const [country, parsed] of byCountry) {
+  const file = join(chartsDir, 'dataset', `${country}.json`);
+  const previous: CountryChartDataset | null = existsSync(file) ? JSON.parse(readFileSync(file, 'utf8')) : null;
+  const dataset = buildCountryDataset(country, parsed, previous);
+  writeFileSync(file, formatDataset(dataset));
+  console.log(`${country}: version ${dataset.version}${dataset.version === previous?.version ? ' (unchanged)' : ''}`);
+}
+
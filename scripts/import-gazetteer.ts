@@ -0,0 +1,52 @@
+/**
+ * Loads the GeoNames cities dump into the gazetteer_places / gazetteer_names
+ * tables that the city autocomplete searches.
+ *
+ *   npm run import:gazetteer -- <dir>            # upsert into the database
+ *   npm run import:gazetteer -- <dir> --dry-run  # parse and report only
+ *
+ * <dir> (default ./geonames) must contain cities15000.txt and
+ * admin1CodesASCII.txt from https://download.geonames.org/export/dump/.
+ * Needs SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY;
+ * the tables are read-only for everyone else.
+ */
+import { readFileSync } from 'node:fs';
+import { join, resolve } from 'node:path';
+import { createClient } from '@supabase/supabase-js';
+import { parseAdmin1Codes, parseGeoNamesCities } from '../src/lib/gazetteerImport';
+
+const BATCH_SIZE = 1000;
+
+const args = process.argv.slice(2);
+const dryRun = args.includes('--dry-run');
+const dir = resolve(args.find((arg) => !arg.startsWith('--')) ?? 'geonames');
+
+const regions = parseAdmin1Codes(readFileSync(join(dir, 'admin1CodesASCII.txt'), 'utf8'));
+const { places, names, issues } = parseGeoNamesCities(readFileSync(join(dir, 'cities15000.txt'), 'utf8'), regions);
+
+for (const issue of issues) {
+  console.warn(`  cities15000.txt:${issue.line} ${issue.message}`);
+}
+console.log(`${places.length} places, ${names.length} search names, ${issues.length} rows skipped`);
+
+if (dryRun) process.exit(0);
+
+const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+if (!url || !serviceRoleKey) {
+  console.error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required');
+  process.exit(1);
+}
+
+const supabase = createClient(url, serviceRoleKey, { auth: { persistSession: false } });
+
+const upsertAll = async <T extends object>(table: 'gazetteer_places' | 'gazetteer_names', rows: T[], onConflict: string) => {
+  for (let i = 0; i < rows.length; i += BATCH_SIZE) {
+    const { error } = await supabase.from(table).upsert(rows.slice(i, i + BATCH_SIZE), { onConflict });
+    if (error) throw new Error(`${table} batch ${i / BATCH_SIZE + 1}: ${error.message}`);
+  }
+  console.log(`${table}: ${rows.length} rows`);
+};
+
+await upsertAll('gazetteer_places', places, 'geoname_id');
+await upsertAll('gazetteer_names', names, 'name_key,geoname_id');
@@ -10,6 +10,7 @@ import { AuthProvider } from "@/contexts/AuthContext";
 import HomeV3 from "./pages/HomeV3";
 import ScrollToTop from "./components/ScrollToTop";
 import MusicVideoReadyNotifier from "./components/MusicVideoReadyNotifier";
+import AdminRoute from "./components/AdminRoute";
 
 // Code-split everything except the homepage. HomeV3 stays eager so the root
 // route paints fast (it's the dominant entry point). The other routes pull
@@ -24,6 +25,10 @@ const ResetPasswordPage = lazy(() => import("./pages/ResetPasswordPage"));
 const MusicOverviewPage = lazy(() => import("./pages/MusicOverviewPage"));
 const MusicVideoPage = lazy(() => import("./pages/MusicVideoPage"));
 const TvFilmOverviewPage = lazy(() => import("./pages/TvFilmOverviewPage"));
+const ComparePage = lazy(() => import("./pages/ComparePage"));
+const SpotifyCallbackPage = lazy(() => import("./pages/SpotifyCallbackPage"));
+const SubcultureEditorPage = lazy(() => import("./pages/SubcultureEditorPage"));
+const ImageSearchQualityPage = lazy(() => import("./pages/ImageSearchQualityPage"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 const queryClient = new QueryClient();
@@ -58,10 +63,14 @@ const App = () => (
                 <Route path="/muziek" element={<MusicOverviewPage />} />
                 <Route path="/muziek-video" element={<MusicVideoPage />} />
                 <Route path="/tv-film" element={<TvFilmOverviewPage />} />
+                <Route path="/vergelijk" element={<ComparePage />} />
+                <Route path="/spotify-callback" element={<SpotifyCallbackPage />} />
                 <Route path="/s/:id" element={<SharedStoryPage />} />
                 <Route path="/auth" element={<AuthPage />} />
                 <Route path="/account" element={<AccountPage />} />
                 <Route path="/reset-password" element={<ResetPasswordPage />} />
+                <Route path="/admin/subcultures" element={<AdminRoute><SubcultureEditorPage /></AdminRoute>} />
+                <Route path="/admin/image-search" element={<AdminRoute><ImageSearchQualityPage /></AdminRoute>} />
                 {/* Redirect old routes to home */}
                 <Route path="/keuze" element={<Navigate to="/" replace />} />
                 <Route path="/invoer" element={<Navigate to="/" replace />} />
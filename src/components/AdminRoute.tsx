@@ -0,0 +1,28 @@
+import { ReactNode } from 'react';
+import { Navigate } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import NotFound from '@/pages/NotFound';
+
+/**
+ * Route guard for the /admin pages: signed-out visitors go to /auth,
+ * signed-in non-admins get the 404 page, so the routes aren't advertised.
+ * This only hides the UI: data these pages load must be admin-only
+ * server-side too.
+ */
+const AdminRoute = ({ children }: { children: ReactNode }) => {
+  const { user, isAdmin, adminLoading } = useAuth();
+
+  if (adminLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+  if (!user) return <Navigate to="/auth" replace />;
+  if (!isAdmin) return <NotFound />;
+  return <>{children}</>;
+};
+
+export default AdminRoute;
@@ -0,0 +1,134 @@
+import { forwardRef, useEffect, useRef, useState } from 'react';
+import { MapPin } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { searchPlaces } from '@/lib/gazetteer';
+import { toGazetteerKey } from '@/lib/gazetteerImport';
+import { getCountryName } from '@/lib/placeNames';
+import type { CityPlace } from '@/types/form';
+
+interface CityAutocompleteProps {
+  value: string;
+  place?: CityPlace;
+  /** `place` is set when a suggestion was picked and cleared on free typing */
+  onChange: (city: string, place?: CityPlace) => void;
+  /** Enter without an open suggestion */
+  onSubmit?: () => void;
+  placeholder?: string;
+  className?: string;
+}
+
+/**
+ * City input with suggestions from the gazetteer. Free text still works
+ * (the gazetteer can miss a village); picking a suggestion stores the
+ * canonical place with region and country.
+ */
+export const CityAutocomplete = forwardRef<HTMLInputElement, CityAutocompleteProps>(
+  ({ value, place, onChange, onSubmit, placeholder, className }, ref) => {
+    const { language } = useLanguage();
+    const [suggestions, setSuggestions] = useState<CityPlace[]>([]);
+    const [open, setOpen] = useState(false);
+    const [highlighted, setHighlighted] = useState(-1);
+    // Only the latest search may update the list
+    const requestRef = useRef(0);
+
+    useEffect(() => {
+      if (place || toGazetteerKey(value).length < 2) {
+        setSuggestions([]);
+        return;
+      }
+      const request = ++requestRef.current;
+      const timer = setTimeout(() => {
+        searchPlaces(value)
+          .then((places) => {
+            if (request !== requestRef.current) return;
+            setSuggestions(places);
+            setHighlighted(-1);
+          })
+          .catch((err) => console.warn('[CityAutocomplete] Gazetteer search failed:', err));
+      }, 200);
+      return () => clearTimeout(timer);
+    }, [value, place]);
+
+    const pick = (picked: CityPlace) => {
+      onChange(picked.name, picked);
+      setOpen(false);
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+      const showing = open && suggestions.length > 0;
+      if (showing && e.key === 'ArrowDown') {
+        e.preventDefault();
+        setHighlighted((i) => Math.min(i + 1, suggestions.length - 1));
+      } else if (showing && e.key === 'ArrowUp') {
+        e.preventDefault();
+        setHighlighted((i) => Math.max(i - 1, -1));
+      } else if (e.key === 'Escape') {
+        setOpen(false);
+      } else if (e.key === 'Enter') {
+        e.preventDefault();
+        if (showing && highlighted >= 0) {
+          pick(suggestions[highlighted]);
+          return;
+        }
+        // Typed the full name: take the best match instead of free text
+        const exact = !place && suggestions.find((s) => toGazetteerKey(s.name) === toGazetteerKey(value));
+        if (exact) pick(exact);
+        onSubmit?.();
+      }
+    };
+
+    return (
+      <div className="relative">
+        <Input
+          ref={ref}
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value, undefined);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+          className={className}
+          role="combobox"
+          aria-expanded={open && suggestions.length > 0}
+          aria-autocomplete="list"
+          autoComplete="off"
+        />
+        {open && suggestions.length > 0 && (
+          <ul
+            role="listbox"
+            className="absolute z-50 mt-1 w-full rounded-md border border-border bg-popover shadow-md py-1 max-h-64 overflow-y-auto"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion.geonameId}
+                role="option"
+                aria-selected={index === highlighted}
+                // mousedown, so the pick lands before the input's blur closes the list
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  pick(suggestion);
+                }}
+                onMouseEnter={() => setHighlighted(index)}
+                className={`flex items-center gap-2 px-3 py-2 text-sm cursor-pointer ${
+                  index === highlighted ? 'bg-accent/10' : ''
+                }`}
+              >
+                <MapPin className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+                <span className="font-medium text-foreground">{suggestion.name}</span>
+                <span className="text-xs text-muted-foreground truncate">
+                  {[suggestion.region, getCountryName(suggestion.countryCode, language)].filter(Boolean).join(', ')}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    );
+  },
+);
+
+CityAutocomplete.displayName = 'CityAutocomplete';
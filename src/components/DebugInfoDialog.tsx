@@ -11,6 +11,7 @@ import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { TimelineEvent, SearchTraceEntry } from '@/types/timeline';
 import { addToBlacklist } from '@/hooks/useImageBlacklist';
+import { describeImageRoute } from '@/lib/imageSearch';
 import { toast } from 'sonner';
 import { useLanguage } from '@/contexts/LanguageContext';
 
@@ -90,62 +91,9 @@ export function DebugInfoDialog({ events, onRefreshImages, isRefreshing, onBlack
     return 'Onbekend';
   }
 
-  // Determine which sources were searched based on visualSubjectType and search mode
-  const getSearchedSources = (event: TimelineEvent): string[] => {
-    const type = event.visualSubjectType;
-    const sources: string[] = [];
-    const isMusic = event.category === 'music' || !!event.spotifySearchQuery;
-    
-    // Check which search mode was used (stored in sessionStorage)
-    const imageSearchMode = typeof window !== 'undefined' 
-      ? sessionStorage.getItem('imageSearchMode') || 'tol' 
-      : 'tol';
-    
-    // Tol mode: different routing
-    if (imageSearchMode === 'tol') {
-      if (isMusic && event.spotifySearchQuery) {
-        sources.push('1. 🎵 Spotify Album Art');
-        sources.push('→ Fallback: 🔍 DDG/Tol');
-        return sources;
-      }
-      if (event.isTV || type === 'tv') {
-        sources.push('1. 🎬 TMDB TV');
-        sources.push('→ Fallback: 🔍 DDG/Tol');
-        return sources;
-      }
-      if (event.isMovie || type === 'movie') {
-        sources.push('1. 🎬 TMDB Movie');
-        sources.push('→ Fallback: 🔍 DDG/Tol');
-        return sources;
-      }
-      // Default: DDG only (with decade suffix)
-      sources.push('🔍 DDG/Tol (+decade)');
-      return sources;
-    }
-
-    // Legacy mode: original routing
-    if (isMusic && event.spotifySearchQuery) {
-      sources.push('1. 🎵 Spotify Album Art');
-      sources.push('→ Fallback: Wiki/Commons');
-      return sources;
-    }
-
-    if (event.isMovie || type === 'movie') {
-      sources.push('1. TMDB (Films)', '→ Wiki NL/EN/DE, Commons');
-    } else if (event.isCelebrityBirthday || type === 'person') {
-      sources.push('1. TMDB', '2. Commons', '3. Wiki EN/NL');
-    } else if (type === 'product' || type === 'logo' || type === 'artwork' || type === 'lifestyle') {
-      sources.push('1. Commons', '2. Wiki EN/NL');
-    } else {
-      // Events, locations, etc.
-      if (event.category === 'local' || event.category === 'politics') {
-        sources.push('1. Nat. Archief');
-      }
-      sources.push('1. Commons (+jaar)', '2. Wiki EN/NL (+jaar)', '3. Commons/Wiki (zonder jaar)');
-    }
-
-    return sources;
-  };
+  // Providers the routing table asks for this event, tier by tier
+  const getSearchedSources = (event: TimelineEvent): string[] =>
+    describeImageRoute(event).map((tier, i) => `${i + 1}. ${tier.join(' · ')}`);
 
   // Get importance color
   const getImportanceColor = (importance?: string) => {
@@ -481,6 +429,11 @@ export function DebugInfoDialog({ events, onRefreshImages, isRefreshing, onBlack
                                       +jaar
                                     </span>
                                   )}
+                                  {trace.score !== undefined && (
+                                    <span className="px-1 py-0.5 rounded bg-amber-500/20 text-amber-700 dark:text-amber-300 text-[9px]">
+                                      score {trace.score.toFixed(2)}
+                                    </span>
+                                  )}
                                   <span className="text-muted-foreground/70 text-[9px]">
                                     {trace.timestamp}ms
                                   </span>
@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { Check, Images } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious } from '@/components/ui/carousel';
+import { Button } from '@/components/ui/button';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { ImageCandidate, TimelineEvent } from '@/types/timeline';
+
+interface ImageCandidatePickerProps {
+  event: TimelineEvent;
+  onChoose: (eventId: string, candidate: ImageCandidate) => void;
+  /** Position and size of the trigger button, which only shows when there is something to choose */
+  className?: string;
+  iconClassName?: string;
+}
+
+// "https://commons.wikimedia.org/wiki/File:..." -> "commons.wikimedia.org"; labels like "DDG/Tol" stay as they are
+const sourceName = (source: string): string => {
+  try {
+    return new URL(source).hostname.replace(/^www\./, '');
+  } catch {
+    return source;
+  }
+};
+
+/**
+ * Lets the user swap an event's image for one of the other images the search
+ * found, in a carousel that opens at the current image.
+ */
+export const ImageCandidatePicker = ({
+  event,
+  onChoose,
+  className = 'w-7 h-7',
+  iconClassName = 'h-3.5 w-3.5',
+}: ImageCandidatePickerProps) => {
+  const { t } = useLanguage();
+  const [open, setOpen] = useState(false);
+
+  const candidates = event.imageCandidates ?? [];
+  if (candidates.length < 2) return null;
+  const startIndex = Math.max(0, candidates.findIndex((candidate) => candidate.imageUrl === event.imageUrl));
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <button
+          onClick={(e) => e.stopPropagation()}
+          className={`absolute z-20 rounded-full bg-black/60 hover:bg-black/80 text-white/70 hover:text-white flex items-center justify-center transition-all duration-200 opacity-0 group-hover/img:opacity-100 group-hover/image:opacity-100 focus:opacity-100 backdrop-blur-sm ${className}`}
+          title={t('chooseImageTooltip') as string}
+          aria-label={t('chooseImageTooltip') as string}
+        >
+          <Images className={iconClassName} />
+        </button>
+      </DialogTrigger>
+      {/* Portalled, but React still bubbles clicks to the card (which flips on click) */}
+      <DialogContent className="max-w-2xl" onClick={(e) => e.stopPropagation()}>
+        <DialogHeader>
+          <DialogTitle>{t('chooseImageTitle') as string}</DialogTitle>
+          <DialogDescription>{event.title}</DialogDescription>
+        </DialogHeader>
+        <Carousel opts={{ startIndex }} className="mx-10">
+          <CarouselContent>
+            {candidates.map((candidate) => (
+              <CarouselItem key={candidate.imageUrl}>
+                <figure className="space-y-3">
+                  <img
+                    src={candidate.imageUrl}
+                    alt={event.title}
+                    referrerPolicy="no-referrer"
+                    className="w-full aspect-[4/3] object-contain bg-muted rounded-md"
+                  />
+                  <figcaption className="flex items-center justify-between gap-3 text-xs text-muted-foreground">
+                    <span className="min-w-0 truncate">
+                      {sourceName(candidate.source)} · {candidate.credit?.license || (t('imageLicenseUnknown') as string)}
+                      {candidate.width && candidate.height ? ` · ${candidate.width}×${candidate.height}` : ''}
+                    </span>
+                    {candidate.imageUrl === event.imageUrl ? (
+                      <span className="inline-flex shrink-0 items-center gap-1 text-foreground">
+                        <Check className="h-3.5 w-3.5" />
+                        {t('currentImage') as string}
+                      </span>
+                    ) : (
+                      <Button
+                        size="sm"
+                        className="shrink-0"
+                        onClick={() => {
+                          onChoose(event.id, candidate);
+                          setOpen(false);
+                        }}
+                      >
+                        {t('useThisImage') as string}
+                      </Button>
+                    )}
+                  </figcaption>
+                </figure>
+              </CarouselItem>
+            ))}
+          </CarouselContent>
+          <CarouselPrevious />
+          <CarouselNext />
+        </Carousel>
+      </DialogContent>
+    </Dialog>
+  );
+};
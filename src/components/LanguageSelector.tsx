@@ -9,10 +9,14 @@ import {
 } from '@/components/ui/select';
 import { Globe } from 'lucide-react';
 
-// Only Dutch and English are currently active
+// German and French are not active yet
 const languages: { code: Language; label: string; flag: string }[] = [
   { code: 'nl', label: 'Nederlands', flag: '🇳🇱' },
   { code: 'en', label: 'English', flag: '🇬🇧' },
+  { code: 'es', label: 'Español', flag: '🇪🇸' },
+  { code: 'it', label: 'Italiano', flag: '🇮🇹' },
+  { code: 'pt', label: 'Português', flag: '🇵🇹' },
+  { code: 'pl', label: 'Polski', flag: '🇵🇱' },
   // Temporarily disabled:
   // { code: 'de', label: 'Deutsch', flag: '🇩🇪' },
   // { code: 'fr', label: 'Français', flag: '🇫🇷' },
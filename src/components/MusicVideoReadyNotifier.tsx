@@ -277,7 +277,7 @@ export const MusicVideoReadyNotifier = () => {
           <button
             type="button"
             onClick={handleResumeStory}
-            aria-label={tr('notifProgressAria').replace('{pct}', String(progressPct))}
+            aria-label={t('notifProgressAria', { pct: progressPct })}
             title={
               onStoryPage
                 ? tr('notifTapToScroll')
@@ -362,7 +362,7 @@ export const MusicVideoReadyNotifier = () => {
           exit={{ opacity: 0, scale: 0.6 }}
           transition={{ duration: 0.2 }}
           onClick={() => setChipDismissed(false)}
-          aria-label={tr('notifProgressAriaCollapsed').replace('{pct}', String(progressPct))}
+          aria-label={t('notifProgressAriaCollapsed', { pct: progressPct })}
           title={tr('notifProgressTitle')}
           style={{
             bottom: 'max(1rem, env(safe-area-inset-bottom))',
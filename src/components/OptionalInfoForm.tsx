@@ -2,8 +2,13 @@ import { useLanguage } from '@/contexts/LanguageContext';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
-import { OptionalData, GeographicFocus } from '@/types/form';
-import { Compass, Sparkles, User, Users, GraduationCap, PartyPopper } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Button } from '@/components/ui/button';
+import { DateInput } from '@/components/DateInput';
+import { OptionalData, GeographicFocus, ChildData } from '@/types/form';
+import { Compass, Sparkles, User, Users, GraduationCap, PartyPopper, HeartHandshake, Plus, X } from 'lucide-react';
+
+const EMPTY_BIRTH_DATE = { day: 0, month: 0, year: 0 };
 
 interface OptionalInfoFormProps {
   value: OptionalData;
@@ -12,6 +17,11 @@ interface OptionalInfoFormProps {
 
 export const OptionalInfoForm = ({ value, onChange }: OptionalInfoFormProps) => {
   const { t } = useLanguage();
+  const siblings = value.siblings ?? [];
+
+  const updateSibling = (index: number, patch: Partial<ChildData>) => {
+    onChange({ ...value, siblings: siblings.map((s, i) => (i === index ? { ...s, ...patch } : s)) });
+  };
 
   return (
     <div className="space-y-4">
@@ -96,6 +106,87 @@ export const OptionalInfoForm = ({ value, onChange }: OptionalInfoFormProps) =>
         </div>
       </div>
 
+      {/* Shared years: one timeline for the user + partner/siblings */}
+      <div className="space-y-3 rounded-md border border-border p-3">
+        <div className="flex items-center justify-between gap-3">
+          <Label htmlFor="shared-timeline" className="flex items-center gap-2 text-sm font-medium text-foreground">
+            <HeartHandshake className="h-4 w-4 text-accent" />
+            {t('sharedTimelineLabel') as string}
+          </Label>
+          <Switch
+            id="shared-timeline"
+            checked={!!value.sharedTimeline}
+            onCheckedChange={(checked) => onChange({ ...value, sharedTimeline: checked })}
+          />
+        </div>
+        <p className="text-xs text-muted-foreground">{t('sharedTimelineHint') as string}</p>
+
+        {value.sharedTimeline && (
+          <div className="space-y-3">
+            <div className="space-y-2">
+              <Label className="text-sm">{t('partnerNameLabel') as string}</Label>
+              <Input
+                value={value.partnerName || ''}
+                onChange={(e) => onChange({ ...value, partnerName: e.target.value })}
+                className="bg-card h-9"
+              />
+            </div>
+            <DateInput
+              label={t('partnerBirthLabel') as string}
+              value={value.partnerBirthDate || EMPTY_BIRTH_DATE}
+              onChange={(partnerBirthDate) => onChange({ ...value, partnerBirthDate })}
+            />
+            <div className="space-y-2">
+              <Label className="text-sm">{t('metYearLabel') as string}</Label>
+              <Input
+                type="number"
+                value={value.metYear || ''}
+                onChange={(e) => onChange({ ...value, metYear: parseInt(e.target.value) || undefined })}
+                min={1900}
+                className="bg-card h-9"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label className="text-sm">{t('siblingsLabel') as string}</Label>
+              {siblings.map((sibling, index) => (
+                <div key={index} className="space-y-2 rounded-md bg-muted/40 p-2">
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder={t('siblingNamePlaceholder') as string}
+                      value={sibling.name}
+                      onChange={(e) => updateSibling(index, { name: e.target.value })}
+                      className="bg-card h-9"
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => onChange({ ...value, siblings: siblings.filter((_, i) => i !== index) })}
+                      aria-label={t('removeSibling') as string}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <DateInput
+                    label={t('siblingBirthLabel') as string}
+                    value={sibling.birthDate || EMPTY_BIRTH_DATE}
+                    onChange={(birthDate) => updateSibling(index, { birthDate })}
+                  />
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onChange({ ...value, siblings: [...siblings, { name: '' }] })}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                {t('addSibling') as string}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Geographic Focus */}
       <div className="space-y-2">
         <Label className="flex items-center gap-2 text-sm font-medium text-foreground">
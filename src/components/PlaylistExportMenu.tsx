@@ -0,0 +1,81 @@
+import { Download, FileDown } from 'lucide-react';
+import { Button, ButtonProps } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { TranslationKey } from '@/lib/i18n';
+import {
+  ExportTrack,
+  PLAYLIST_EXPORT_FORMATS,
+  PlaylistExportFormat,
+  downloadPlaylist,
+} from '@/lib/playlistExport';
+
+const FORMAT_LABEL_KEYS: Record<PlaylistExportFormat, TranslationKey> = {
+  m3u8: 'playlistExportM3u8',
+  xspf: 'playlistExportXspf',
+  csv: 'playlistExportCsv',
+  html: 'playlistExportHtml',
+};
+
+interface PlaylistExportMenuProps {
+  tracks: ExportTrack[];
+  title: string;
+  subtitle?: string;
+  size?: ButtonProps['size'];
+  variant?: ButtonProps['variant'];
+  className?: string;
+}
+
+/**
+ * Dropdown with the open playlist formats (M3U8, XSPF, CSV, HTML). Tracks
+ * marked as favorite get their own "favorites only" group.
+ */
+export const PlaylistExportMenu = ({ tracks, title, subtitle, size = 'default', variant = 'outline', className }: PlaylistExportMenuProps) => {
+  const { t, language } = useLanguage();
+  const favorites = tracks.filter((track) => track.isFavorite);
+
+  const renderFormats = (selection: ExportTrack[], selectionTitle: string) =>
+    PLAYLIST_EXPORT_FORMATS.map((format) => (
+      <DropdownMenuItem
+        key={format}
+        onClick={() => downloadPlaylist(format, selection, { title: selectionTitle, subtitle, language })}
+        className="gap-2"
+      >
+        <FileDown className="h-4 w-4" />
+        {t(FORMAT_LABEL_KEYS[format]) as string}
+      </DropdownMenuItem>
+    ));
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant={variant} size={size} className={className} disabled={tracks.length === 0}>
+          <Download className="h-4 w-4" />
+          {t('playlistExportButton') as string}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="center">
+        <DropdownMenuLabel>
+          {t('playlistExportAll', { count: tracks.length })}
+        </DropdownMenuLabel>
+        {renderFormats(tracks, title)}
+        {favorites.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>
+              {t('playlistExportFavorites', { count: favorites.length })}
+            </DropdownMenuLabel>
+            {renderFormats(favorites, `${title} – ${t('myFavoritesPlaylistLabel') as string}`)}
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
@@ -1,11 +1,14 @@
 import { useState } from 'react';
-import { TimelineEvent } from '@/types/timeline';
-import { Loader2, RotateCcw, Play, X, Ban } from 'lucide-react';
+import { ImageCandidate, TimelineEvent } from '@/types/timeline';
+import { Loader2, RotateCcw, Play, X, Ban, Camera } from 'lucide-react';
 import { searchYouTube } from '@/lib/api/youtube';
 import { SpotifyPlayer } from './SpotifyPlayer';
 import { addToBlacklist } from '@/hooks/useImageBlacklist';
 import { SaveEventButton } from '@/components/story/SaveEventButton';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { getMonthNames } from '@/lib/i18n';
+import { isUserPhoto } from '@/lib/photoUpload';
+import { ImageCandidatePicker } from './ImageCandidatePicker';
 
 // Import category placeholder images
 import placeholderBirthday from '@/assets/placeholders/birthday.jpg';
@@ -35,10 +38,10 @@ interface PolaroidCardProps {
   onToggleSelection?: () => void;
   /** Callback when image is blacklisted - triggers re-search */
   onBlacklistImage?: (eventId: string) => void;
+  /** Callback when the user picks another image the search found */
+  onChooseImage?: (eventId: string, candidate: ImageCandidate) => void;
 }
 
-const monthNames = ['Jan', 'Feb', 'Mrt', 'Apr', 'Mei', 'Jun', 'Jul', 'Aug', 'Sep', 'Okt', 'Nov', 'Dec'];
-
 // Map categories to placeholder images
 const categoryPlaceholders: Record<string, string> = {
   politics: placeholderPolitics,
@@ -119,8 +122,9 @@ export const PolaroidCard = ({
   isSelected = false,
   onToggleSelection,
   onBlacklistImage,
+  onChooseImage,
 }: PolaroidCardProps) => {
-  const { t } = useLanguage();
+  const { language, t } = useLanguage();
   const [isFlipped, setIsFlipped] = useState(false);
   const rotation = getRotation(event.id);
   const accentColor = getAccentColor(index);
@@ -161,8 +165,10 @@ export const PolaroidCard = ({
     setIsPlayingTrailer(false);
   };
   
-  // Check if this is the welcome/birth event - these ALWAYS use the birthday placeholder
-  const isWelcome = isWelcomeEvent(event);
+  // Check if this is the welcome/birth event - these ALWAYS use the birthday placeholder,
+  // unless the user put their own photo on it
+  const isOwnPhoto = isUserPhoto(event);
+  const isWelcome = isWelcomeEvent(event) && !isOwnPhoto;
   
   // Determine which image to show
   // For welcome events, ALWAYS use birthday placeholder - ignore any searched images
@@ -185,7 +191,9 @@ export const PolaroidCard = ({
   };
   
   const month = getMonthFromEvent();
-  const monthLabel = monthNames[month - 1];
+  // "Mrt", "Mar", "Mär" - without the dot some languages add
+  const shortMonth = getMonthNames(language, 'short')[month - 1].replace('.', '');
+  const monthLabel = shortMonth.charAt(0).toUpperCase() + shortMonth.slice(1);
   const dateDisplay = `${monthLabel} '${String(event.year).slice(-2)}`;
 
   const hasImage = event.imageStatus === 'found' && !!event.imageUrl;
@@ -283,7 +291,17 @@ export const PolaroidCard = ({
                   )}
                   
                   {/* Blacklist button - only for real images, not placeholders */}
-                  {!isPlaceholder && event.imageUrl && onBlacklistImage && !isSelectingMode && (
+                  {/* Own photo marker */}
+                  {isOwnPhoto && (
+                    <div
+                      className="absolute top-1 right-1 z-10 w-6 h-6 rounded-full bg-black/60 text-white flex items-center justify-center backdrop-blur-sm"
+                      title={t('ownPhotoBadge') as string}
+                    >
+                      <Camera className="h-3 w-3" />
+                    </div>
+                  )}
+
+                  {!isPlaceholder && event.imageUrl && !isOwnPhoto && onBlacklistImage && !isSelectingMode && (
                     <button
                       onClick={async (e) => {
                         e.stopPropagation();
@@ -299,6 +317,14 @@ export const PolaroidCard = ({
                       <Ban className="h-3 w-3" />
                     </button>
                   )}
+                  {!isPlaceholder && !isOwnPhoto && onChooseImage && !isSelectingMode && (
+                    <ImageCandidatePicker
+                      event={event}
+                      onChoose={onChooseImage}
+                      className="top-1 left-8 w-6 h-6"
+                      iconClassName="h-3 w-3"
+                    />
+                  )}
                   
                   {/* Play buttons container - bottom left - no width constraint, let content flow naturally */}
                   <div className="absolute bottom-1 left-1 z-10 flex flex-col gap-1" onClick={(e) => e.stopPropagation()}>
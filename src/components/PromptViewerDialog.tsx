@@ -25,6 +25,7 @@ import {
   BIRTHYEAR_IN_RANGE_ADDITION,
   PERSONAL_NAME_ADDITION,
   GEOGRAPHIC_FOCUS,
+  HISTORICAL_POLITY_ADDITION,
   INTERESTS_ADDITION,
   CITY_ADDITION,
   CHILDREN_ADDITION,
@@ -32,7 +33,12 @@ import {
   SUBCULTURE_ADDITION,
   GET_MUSIC_INSTRUCTIONS,
   EMOTIONAL_VIBE_ADDITION,
+  SHARED_TIMELINE_ADDITION,
+  RESUME_ADDITION,
+  REPLACE_EVENT_ADDITION,
 } from '@/lib/promptConstants';
+import { getTimelinePeople, isSharedTimeline } from '@/lib/sharedTimeline';
+import { placeForCity } from '@/lib/gazetteer';
 
 interface PromptViewerDialogProps {
   formData: FormData | null;
@@ -183,11 +189,15 @@ function buildPromptSections(formData: FormData, language: string, maxEvents?: n
 
   const { optionalData } = formData;
 
+  const place = placeForCity(optionalData.city, optionalData.place);
+  const placeYears =
+    formData.yearRange ?? (formData.birthDate ? { startYear: formData.birthDate.year, endYear: formData.birthDate.year } : undefined);
+
   // City (B1 in backend order)
   if (optionalData.city) {
     sections.push({
       label: '🏙️ User: Woonplaats Context',
-      content: CITY_ADDITION(optionalData.city),
+      content: CITY_ADDITION(optionalData.city, place, placeYears),
       colorClass: PROMPT_COLORS.city,
       source: 'CITY_ADDITION',
     });
@@ -219,7 +229,7 @@ function buildPromptSections(formData: FormData, language: string, maxEvents?: n
     const geoFocus = optionalData.focus || 'netherlands';
     sections.push({
       label: '🎸 User: Subcultuur (IDENTITEIT)',
-      content: SUBCULTURE_ADDITION(optionalData.subculture.myGroup, otherGroups, geoFocus),
+      content: SUBCULTURE_ADDITION(optionalData.subculture.myGroup, otherGroups, geoFocus, optionalData.subculture.profile),
       colorClass: PROMPT_COLORS.subculture,
       source: 'SUBCULTURE_ADDITION',
     });
@@ -246,6 +256,17 @@ function buildPromptSections(formData: FormData, language: string, maxEvents?: n
     }
   }
 
+  // Historical country (B4, after the focus)
+  const historical = place && placeYears ? HISTORICAL_POLITY_ADDITION(place, placeYears) : '';
+  if (historical) {
+    sections.push({
+      label: '🗺️ User: Historisch Land',
+      content: historical,
+      colorClass: PROMPT_COLORS.geographic,
+      source: 'HISTORICAL_POLITY_ADDITION',
+    });
+  }
+
   // Personal name (C1 in backend order)
   if (optionalData.firstName || optionalData.lastName) {
     const fullName = [optionalData.firstName, optionalData.lastName].filter(Boolean).join(' ');
@@ -293,6 +314,17 @@ function buildPromptSections(formData: FormData, language: string, maxEvents?: n
     });
   }
 
+  // Shared timeline (C4 in backend order)
+  if (isSharedTimeline(formData)) {
+    const people = getTimelinePeople(formData).map(p => ({ ...p, name: p.name || 'de hoofdpersoon' }));
+    sections.push({
+      label: '👥 User: Gedeelde tijdlijn',
+      content: SHARED_TIMELINE_ADDITION(people, optionalData.metYear),
+      colorClass: PROMPT_COLORS.personalName,
+      source: 'SHARED_TIMELINE_ADDITION',
+    });
+  }
+
   // Music Instructions (based on gender)
   const gender = optionalData.gender || 'none';
   sections.push({
@@ -326,6 +358,33 @@ function buildPromptSections(formData: FormData, language: string, maxEvents?: n
     });
   }
 
+  // Resume (E block in backend): only sent when the stream broke off halfway
+  sections.push({
+    label: '🔁 User: Hervatten — alleen na een verbroken stream',
+    content: RESUME_ADDITION(['<al ontvangen event 1>', '<al ontvangen event 2>']),
+    colorClass: PROMPT_COLORS.format,
+    source: 'RESUME_ADDITION',
+    isCollapsible: true,
+    defaultCollapsed: true,
+    includeInFullPrompt: false,
+  });
+
+  // Replace one event (F block in backend): only sent for "give me something else"
+  sections.push({
+    label: '🔄 User: Event vervangen — alleen bij "iets anders"',
+    content: REPLACE_EVENT_ADDITION(
+      formData.birthDate?.year ?? formData.yearRange?.startYear ?? new Date().getFullYear(),
+      '<categorie>',
+      '<te vervangen event>',
+      ['<ander event op de tijdlijn>'],
+    ),
+    colorClass: PROMPT_COLORS.format,
+    source: 'REPLACE_EVENT_ADDITION',
+    isCollapsible: true,
+    defaultCollapsed: true,
+    includeInFullPrompt: false,
+  });
+
   return sections;
 }
 
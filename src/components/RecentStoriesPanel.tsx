@@ -0,0 +1,120 @@
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { History, Search, Trash2 } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Language } from '@/lib/i18n';
+import { LibraryTimeline, listTimelines, deleteTimeline } from '@/lib/timelineLibrary';
+import { clearSoundtrackState } from '@/hooks/useSoundtrackGeneration';
+
+const describePeriod = (entry: LibraryTimeline): string => {
+  const { formData } = entry;
+  if (formData.type === 'birthdate' && formData.birthDate) return String(formData.birthDate.year);
+  if (formData.yearRange) return `${formData.yearRange.startYear}–${formData.yearRange.endYear}`;
+  return '';
+};
+
+/**
+ * Previously generated stories from the timeline library, searchable and
+ * reopenable without regenerating. Renders nothing while the library is empty.
+ */
+export function RecentStoriesPanel() {
+  const navigate = useNavigate();
+  const { t, setLanguage } = useLanguage();
+  const [entries, setEntries] = useState<LibraryTimeline[]>([]);
+  const [hasAny, setHasAny] = useState(false);
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    let cancelled = false;
+    listTimelines(query).then((result) => {
+      if (cancelled) return;
+      setEntries(result);
+      if (result.length > 0) setHasAny(true);
+    });
+    return () => { cancelled = true; };
+  }, [query]);
+
+  if (!hasAny) return null;
+
+  const handleOpen = (entry: LibraryTimeline) => {
+    sessionStorage.setItem('timelineFormData', JSON.stringify(entry.formData));
+    sessionStorage.setItem('timelineLength', 'short');
+    setLanguage(entry.language as Language);
+    // The stored soundtrack (if any) is restored by /story from the library
+    clearSoundtrackState();
+    navigate('/story');
+  };
+
+  const handleDelete = async (entry: LibraryTimeline) => {
+    await deleteTimeline(entry.key);
+    setEntries((prev) => prev.filter((e) => e.key !== entry.key));
+  };
+
+  return (
+    <div className="mt-6 rounded-xl border border-border bg-card/80 p-4 backdrop-blur-sm">
+      <div className="mb-3 flex items-center gap-2 text-sm font-semibold text-foreground">
+        <History className="h-4 w-4 text-accent" />
+        {t('recentStoriesTitle') as string}
+      </div>
+
+      <div className="relative mb-3">
+        <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t('recentStoriesSearchPlaceholder') as string}
+          className="pl-9"
+        />
+      </div>
+
+      {entries.length === 0 ? (
+        <p className="py-2 text-center text-sm text-muted-foreground">{t('recentStoriesNoResults') as string}</p>
+      ) : (
+        <ul className="max-h-72 space-y-2 overflow-y-auto">
+          {entries.map((entry) => {
+            const cover = entry.events.find((e) => e.imageUrl)?.imageUrl;
+            const name = entry.formData.optionalData?.firstName;
+            const city = entry.formData.optionalData?.city;
+            const subtitle = [name, city, describePeriod(entry)].filter(Boolean).join(' · ');
+
+            return (
+              <li key={entry.key} className="flex items-center gap-3 rounded-lg p-2 hover:bg-muted/60">
+                <button
+                  type="button"
+                  onClick={() => handleOpen(entry)}
+                  className="flex min-w-0 flex-1 items-center gap-3 text-left"
+                >
+                  {cover ? (
+                    <img src={cover} alt="" className="h-12 w-12 shrink-0 rounded object-cover" loading="lazy" />
+                  ) : (
+                    <div className="h-12 w-12 shrink-0 rounded bg-muted" />
+                  )}
+                  <div className="min-w-0">
+                    <div className="truncate text-sm font-medium text-foreground">
+                      {entry.storyTitle || subtitle}
+                    </div>
+                    <div className="truncate text-xs text-muted-foreground">
+                      {entry.storyTitle ? `${subtitle} · ` : ''}
+                      {t('recentStoriesEventCount', { count: entry.events.length })}
+                    </div>
+                  </div>
+                </button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleDelete(entry)}
+                  aria-label={t('recentStoriesDelete') as string}
+                  title={t('recentStoriesDelete') as string}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
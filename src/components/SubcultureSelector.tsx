@@ -1,7 +1,7 @@
 import { useMemo } from 'react';
 import { Label } from '@/components/ui/label';
 import { Music } from 'lucide-react';
-import { SubcultureData } from '@/types/form';
+import { CityPlace, SubcultureData, SubcultureProfile } from '@/types/form';
 import { getSubculturesForPeriod } from '@/lib/subcultureData';
 import { useLanguage } from '@/contexts/LanguageContext';
 
@@ -11,6 +11,8 @@ interface SubcultureSelectorProps {
   periodType: string;
   focus: string;
   city?: string;
+  /** The gazetteer place, when the user picked one */
+  place?: CityPlace;
   value: SubcultureData | undefined;
   onChange: (value: SubcultureData) => void;
 }
@@ -21,35 +23,42 @@ export const SubcultureSelector = ({
   periodType,
   focus,
   city,
+  place,
   value,
   onChange
 }: SubcultureSelectorProps) => {
   const { t } = useLanguage();
   
-  // Get subcultures for this era, using city for country detection
+  // Get subcultures for this era, using the place's country at the time (or the city) for country detection
   const subcultureResult = useMemo(() => {
     if (!startYear || !endYear || !periodType) return null;
-    return getSubculturesForPeriod(startYear, endYear, periodType, focus, city);
-  }, [startYear, endYear, periodType, focus, city]);
+    return getSubculturesForPeriod(startYear, endYear, periodType, focus, city, place);
+  }, [startYear, endYear, periodType, focus, city, place]);
 
-  // Build the options: 5 subcultures + 1 neutral. If the user has a previously
-  // saved selection that is no longer in the current era's top-5 (because they
-  // went back and changed city/year/period), include it as an extra option
-  // so the selection stays visible and the user can confirm or re-pick instead
-  // of silently losing their choice.
+  // Build the options: every subculture of the era + 1 neutral. If the user
+  // has a previously saved selection that is no longer in the current era
+  // (because they went back and changed city/year/period), include it as an
+  // extra option so the selection stays visible and the user can confirm or
+  // re-pick instead of silently losing their choice.
+  const myGroup = value?.myGroup;
+  const orphanDescription = value?.profile?.description;
   const options = useMemo(() => {
     if (!subcultureResult) return [];
 
-    const currentTop = subcultureResult.subcultures.slice(0, 5);
-    const orphan = value?.myGroup && !currentTop.includes(value.myGroup) ? value.myGroup : null;
+    const current = subcultureResult.subcultures;
+    const orphan = myGroup && !current.includes(myGroup) ? myGroup : null;
 
-    const list = orphan ? [orphan, ...currentTop] : currentTop;
+    const subcultureOptions: { value: string; label: string; description?: string; isNeutral: boolean }[] =
+      subcultureResult.options.map(option => ({
+        value: option.name,
+        label: option.name,
+        description: option.description,
+        isNeutral: false,
+      }));
 
-    const subcultureOptions = list.map(name => ({
-      value: name,
-      label: name,
-      isNeutral: false,
-    }));
+    if (orphan) {
+      subcultureOptions.unshift({ value: orphan, label: orphan, description: orphanDescription, isNeutral: false });
+    }
 
     subcultureOptions.push({
       value: 'neutral',
@@ -58,14 +67,21 @@ export const SubcultureSelector = ({
     });
 
     return subcultureOptions;
-  }, [subcultureResult, value?.myGroup, t]);
+  }, [subcultureResult, myGroup, orphanDescription, t]);
 
   // Handle selection
   const handleSelect = (selectedValue: string) => {
     if (!subcultureResult) return;
     
     const isNeutral = selectedValue === 'neutral';
-    const availableSubcultures = subcultureResult.subcultures.slice(0, 5);
+    const availableSubcultures = subcultureResult.subcultures;
+    const selected = subcultureResult.options.find(option => option.name === selectedValue);
+    const profile: SubcultureProfile | undefined = selected && {
+      description: selected.description,
+      brands: selected.brands,
+      music: selected.music,
+      clothing: selected.clothing,
+    };
     
     // Build otherGroupsFromEra: all options except the selected one
     const otherGroups = isNeutral 
@@ -75,12 +91,22 @@ export const SubcultureSelector = ({
     onChange({
       myGroup: isNeutral ? null : selectedValue,
       otherGroupsFromEra: otherGroups.join(', '),
-      availableOptions: availableSubcultures
+      availableOptions: availableSubcultures,
+      // An orphaned selection keeps the profile it was saved with
+      profile: profile ?? (selectedValue === value?.myGroup ? value?.profile : undefined)
     });
   };
 
   // Determine current selection
   const currentSelection = value?.myGroup || (value ? 'neutral' : null);
+  const selectedProfile = value?.myGroup ? value.profile : undefined;
+  const profileDetails = selectedProfile
+    ? ([
+        ['subcultureBrands', selectedProfile.brands],
+        ['subcultureMusic', selectedProfile.music],
+        ['subcultureClothing', selectedProfile.clothing],
+      ] as const).filter(([, items]) => items.length > 0)
+    : [];
 
   if (!subcultureResult || options.length === 0) {
     return null;
@@ -96,13 +122,14 @@ export const SubcultureSelector = ({
         </span>
       </Label>
       
-      {/* 2x3 Grid */}
+      {/* 3-column grid, as many rows as the era has subcultures */}
       <div className="grid grid-cols-3 gap-2">
         {options.map((option) => (
           <button
             key={option.value}
             type="button"
             onClick={() => handleSelect(option.value)}
+            title={option.description}
             className={`
               flex items-center justify-center py-2 px-2 rounded-md cursor-pointer
               border-2 transition-all duration-200 min-h-[44px]
@@ -119,6 +146,17 @@ export const SubcultureSelector = ({
           </button>
         ))}
       </div>
+
+      {selectedProfile && (
+        <div className="rounded-md border border-border bg-muted/40 p-3 space-y-1.5 text-xs">
+          <p className="text-foreground leading-snug">{selectedProfile.description}</p>
+          {profileDetails.map(([key, items]) => (
+            <p key={key} className="text-muted-foreground leading-snug">
+              <span className="font-medium text-foreground">{t(key) as string}:</span> {items.join(', ')}
+            </p>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
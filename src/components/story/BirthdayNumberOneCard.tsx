@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { Cake, ExternalLink, Music } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { BirthDateData } from '@/types/form';
+import { BirthdayNumberOne, getBirthdayNumberOnes } from '@/lib/birthdayHits';
+import { FALLBACK_CHART_COUNTRY } from '@/lib/chartData';
+
+interface BirthdayNumberOneCardProps {
+  birthDate: BirthDateData;
+  city?: string;
+  /** Country of the gazetteer place, when the user picked one */
+  countryCode?: string;
+}
+
+const spotifySearchUrl = (hit: BirthdayNumberOne) =>
+  `https://open.spotify.com/search/${encodeURIComponent(`${hit.artist} ${hit.title}`)}`;
+
+/**
+ * The #1 single on the day the user was born, with the #1 on each birthday
+ * after that in a scrollable strip. Where there's no weekly chart the card
+ * shows the number one of each year instead, and says so.
+ */
+export const BirthdayNumberOneCard = ({ birthDate, city, countryCode }: BirthdayNumberOneCardProps) => {
+  const { t, language, formatDate } = useLanguage();
+  const [hits, setHits] = useState<BirthdayNumberOne[]>([]);
+
+  const { day, month, year } = birthDate;
+
+  useEffect(() => {
+    let cancelled = false;
+    getBirthdayNumberOnes({ day, month, year }, { city, countryCode })
+      .then((result) => { if (!cancelled) setHits(result); })
+      .catch((err) => console.error('[BirthdayNumberOne] Lookup failed:', err));
+    return () => { cancelled = true; };
+  }, [day, month, year, city, countryCode]);
+
+  const [birthHit, ...birthdays] = hits;
+  if (!birthHit || birthHit.age !== 0) return null;
+
+  const countryName = birthHit.country === FALLBACK_CHART_COUNTRY
+    ? (t('birthdayNumberOneIntl') as string)
+    : new Intl.DisplayNames([language], { type: 'region' }).of(birthHit.country === 'UK' ? 'GB' : birthHit.country);
+  // Without a weekly chart the hit is only the year's, so the date stops at the year
+  const isWeekly = birthHit.precision === 'week';
+  const birthDateLabel = isWeekly
+    ? formatDate(Date.UTC(year, month - 1, day), { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' })
+    : String(year);
+
+  return (
+    <section className="my-8 lg:my-12 rounded-2xl border border-border bg-card p-5 sm:p-6">
+      <div className="flex items-start gap-4">
+        <div className="flex-shrink-0 rounded-full bg-primary/10 p-3">
+          <Music className="h-6 w-6 text-primary" />
+        </div>
+        <div className="min-w-0 flex-1">
+          <p className="text-xs font-mono uppercase tracking-widest text-muted-foreground">
+            {(isWeekly ? t('birthdayNumberOneTitle') : t('birthdayNumberOneYearTitle')) as string}
+            {' · '}{birthDateLabel}{' · '}{countryName}
+          </p>
+          <h3 className="mt-1 font-serif text-2xl sm:text-3xl font-bold leading-tight">{birthHit.title}</h3>
+          <p className="text-muted-foreground">{birthHit.artist}</p>
+          <a
+            href={spotifySearchUrl(birthHit)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="mt-2 inline-flex items-center gap-1 text-xs text-[#1DB954] hover:underline"
+          >
+            <ExternalLink className="h-3 w-3" />
+            {t('birthdayNumberOneListen') as string}
+          </a>
+        </div>
+      </div>
+
+      {birthdays.length > 0 && (
+        <div className="mt-5">
+          <p className="mb-2 flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+            <Cake className="h-3.5 w-3.5" />
+            {(birthdays.every((hit) => hit.precision === 'week') ? t('birthdayNumberOneBirthdays') : t('birthdayNumberOneYears')) as string}
+          </p>
+          <div className="flex gap-2 overflow-x-auto pb-2" style={{ scrollbarWidth: 'thin' }}>
+            {birthdays.map((hit) => (
+              <a
+                key={hit.year}
+                href={spotifySearchUrl(hit)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex-shrink-0 w-36 rounded-lg border border-border/60 px-3 py-2 hover:bg-muted/50 transition-colors"
+              >
+                <p className="font-mono text-[10px] text-muted-foreground">
+                  {hit.year} · {t('birthdayNumberOneAge', { age: hit.age })}
+                </p>
+                <p className="truncate text-xs font-medium">{hit.title}</p>
+                <p className="truncate text-[10px] text-muted-foreground">{hit.artist}</p>
+              </a>
+            ))}
+          </div>
+        </div>
+      )}
+    </section>
+  );
+};
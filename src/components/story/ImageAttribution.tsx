@@ -0,0 +1,38 @@
+import { useLanguage } from '@/contexts/LanguageContext';
+import { formatImageCredit, getImageCredit } from '@/lib/imageCredits';
+import { TimelineEvent } from '@/types/timeline';
+
+interface ImageAttributionProps {
+  event: TimelineEvent;
+}
+
+/**
+ * Author and license of a found image, shown on hover over the image and
+ * linking to the file's description page.
+ */
+export const ImageAttribution = ({ event }: ImageAttributionProps) => {
+  const { t } = useLanguage();
+  const credit = getImageCredit(event);
+  if (!credit || !(credit.author || credit.license)) return null;
+
+  const text = formatImageCredit(credit, { withSource: false });
+  const className =
+    'absolute bottom-2 right-2 z-20 max-w-[80%] truncate rounded bg-black/60 px-2 py-0.5 text-[10px] text-white/80 backdrop-blur-sm transition-opacity duration-200 opacity-0 group-hover/img:opacity-100 focus:opacity-100';
+
+  return credit.sourceUrl ? (
+    <a
+      href={credit.sourceUrl}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(e) => e.stopPropagation()}
+      className={`${className} hover:text-white hover:underline`}
+      title={`${t('imageCredits') as string}: ${text}`}
+    >
+      {text}
+    </a>
+  ) : (
+    <span className={className} title={`${t('imageCredits') as string}: ${text}`}>
+      {text}
+    </span>
+  );
+};
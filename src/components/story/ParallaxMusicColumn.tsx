@@ -8,7 +8,9 @@ import { motion, useScroll, useTransform, MotionValue } from 'framer-motion';
 import { Play, Pause, Loader2, Music, X } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { invokeWithRetry } from '@/lib/api/invokeWithRetry';
-import { numberOneHits } from '@/data/numberOneHits';
+import { getHitsFor, resolveChartCountry, ChartCountry } from '@/lib/chartData';
+import { PlaylistExportMenu } from '@/components/PlaylistExportMenu';
+import { useLanguage } from '@/contexts/LanguageContext';
 
 interface HitTrack {
   year: number;
@@ -23,15 +25,21 @@ interface HitTrack {
 interface ParallaxMusicColumnProps {
   startYear: number;
   endYear: number;
+  /** Picks the national chart when we have one for the user's city */
+  city?: string;
+  /** Country of the gazetteer place, when the user picked one */
+  countryCode?: string;
 }
 
-const getHitQueries = (year: number): { year: number; query: string }[] => {
-  const hits = numberOneHits[year];
-  if (!hits) return [];
-  return hits.map(hit => ({ year, query: `${hit.artist} - ${hit.title}` }));
+const HITS_PER_YEAR = 5;
+
+const getHitQueries = async (country: ChartCountry, year: number): Promise<{ year: number; query: string }[]> => {
+  const hits = await getHitsFor(country, year);
+  return hits.slice(0, HITS_PER_YEAR).map(hit => ({ year, query: `${hit.artist} - ${hit.title}` }));
 };
 
-export const ParallaxMusicColumn = ({ startYear, endYear }: ParallaxMusicColumnProps) => {
+export const ParallaxMusicColumn = ({ startYear, endYear, city, countryCode }: ParallaxMusicColumnProps) => {
+  const { t } = useLanguage();
   const [tracks, setTracks] = useState<HitTrack[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [activeTrackId, setActiveTrackId] = useState<string | null>(null);
@@ -50,10 +58,10 @@ export const ParallaxMusicColumn = ({ startYear, endYear }: ParallaxMusicColumnP
       const currentYear = new Date().getFullYear();
       const end = Math.min(endYear, currentYear);
 
-      const allQueries: { year: number; query: string }[] = [];
-      for (let yr = startYear; yr <= end; yr++) {
-        allQueries.push(...getHitQueries(yr));
-      }
+      const country = resolveChartCountry(city, countryCode);
+      const years = Array.from({ length: Math.max(0, end - startYear + 1) }, (_, i) => startYear + i);
+      const allQueries = (await Promise.all(years.map(yr => getHitQueries(country, yr)))).flat();
+      if (cancelled) return;
 
       // Cap at ~60
       const selected = allQueries.length > 60
@@ -105,7 +113,7 @@ export const ParallaxMusicColumn = ({ startYear, endYear }: ParallaxMusicColumnP
 
     fetchAllHits();
     return () => { cancelled = true; };
-  }, [startYear, endYear]);
+  }, [startYear, endYear, city, countryCode]);
 
   const handleToggleEmbed = (trackId: string) => {
     setActiveTrackId(prev => prev === trackId ? null : trackId);
@@ -124,6 +132,22 @@ export const ParallaxMusicColumn = ({ startYear, endYear }: ParallaxMusicColumnP
         </div>
       )}
 
+      {!isLoading && tracks.length > 0 && (
+        <PlaylistExportMenu
+          tracks={tracks.map(track => ({
+            year: track.year,
+            artist: track.artistName,
+            title: track.trackName,
+            spotifyUrl: track.spotifyUrl,
+          }))}
+          title={t('myLifeInMusic') as string}
+          subtitle={`${startYear}–${Math.min(endYear, new Date().getFullYear())}`}
+          size="sm"
+          variant="ghost"
+          className="gap-1.5 text-xs text-muted-foreground"
+        />
+      )}
+
       {tracks.map((track, index) => (
         <AlbumCard
           key={`${track.trackId}-${track.year}`}
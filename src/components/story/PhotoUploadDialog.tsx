@@ -0,0 +1,240 @@
+/**
+ * PhotoUploadDialog - add the family's own photos to the story
+ *
+ * Reads each photo's EXIF capture date, proposes a year (and lets the user
+ * pick an event to attach to instead of a new card), then uploads the
+ * originals, without their location, to story-assets under the owner's prefix.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ImagePlus, Loader2, X } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { TimelineEvent } from '@/types/timeline';
+import { ExifCaptureDate, readExifCaptureDate } from '@/lib/exif';
+import {
+  PhotoPlacement,
+  eventsNearPlacement,
+  getPhotoOwnerId,
+  placeUserPhoto,
+  proposePhotoPlacement,
+  uploadPhotoOriginal,
+} from '@/lib/photoUpload';
+
+const NEW_CARD = '__new__';
+const ACCEPTED_TYPES = 'image/jpeg,image/png,image/webp';
+
+interface PendingPhoto {
+  id: string;
+  file: File;
+  previewUrl: string;
+  capture: ExifCaptureDate | null;
+  placement: PhotoPlacement;
+  caption: string;
+}
+
+interface PhotoUploadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  events: TimelineEvent[];
+  onApply: (events: TimelineEvent[]) => void;
+}
+
+export const PhotoUploadDialog = ({ open, onOpenChange, events, onApply }: PhotoUploadDialogProps) => {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<PendingPhoto[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+
+  // Release preview object URLs when the dialog closes
+  useEffect(() => {
+    if (open) return;
+    setPending((prev) => {
+      prev.forEach((p) => URL.revokeObjectURL(p.previewUrl));
+      return [];
+    });
+  }, [open]);
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files) return;
+    const added = await Promise.all(
+      Array.from(files).map(async (file): Promise<PendingPhoto> => {
+        const capture = await readExifCaptureDate(file);
+        return {
+          id: `${file.name}_${file.size}_${file.lastModified}`,
+          file,
+          previewUrl: URL.createObjectURL(file),
+          capture,
+          placement: proposePhotoPlacement(capture, events),
+          caption: file.name.replace(/\.[^.]+$/, ''),
+        };
+      })
+    );
+    setPending((prev) => [...prev, ...added.filter((a) => !prev.some((p) => p.id === a.id))]);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const updatePending = (id: string, patch: Partial<PendingPhoto>) => {
+    setPending((prev) => prev.map((p) => (p.id === id ? { ...p, ...patch } : p)));
+  };
+
+  const removePending = (id: string) => {
+    setPending((prev) => {
+      const removed = prev.find((p) => p.id === id);
+      if (removed) URL.revokeObjectURL(removed.previewUrl);
+      return prev.filter((p) => p.id !== id);
+    });
+  };
+
+  const handleConfirm = async () => {
+    setIsUploading(true);
+    let next = events;
+    let failed = 0;
+
+    for (const photo of pending) {
+      try {
+        const { url, path } = await uploadPhotoOriginal(photo.file, getPhotoOwnerId(user?.id));
+        const { capture } = photo;
+        next = placeUserPhoto(
+          next,
+          {
+            originalUrl: url,
+            storagePath: path,
+            fileName: photo.file.name,
+            capturedAt: capture
+              ? `${capture.year}-${String(capture.month).padStart(2, '0')}-${String(capture.day).padStart(2, '0')}`
+              : undefined,
+          },
+          photo.placement,
+          photo.caption
+        );
+      } catch (err) {
+        console.error('[PhotoUploadDialog] Upload failed:', err);
+        failed++;
+      }
+    }
+
+    setIsUploading(false);
+    if (next !== events) onApply(next);
+    if (failed > 0) {
+      toast({
+        variant: 'destructive',
+        title: t('uploadPhotosFailed') as string,
+        description: t('uploadPhotosFailedCount', { count: failed }),
+      });
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(o) => !isUploading && onOpenChange(o)}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ImagePlus className="h-5 w-5 text-primary" />
+            {t('uploadPhotosTitle') as string}
+          </DialogTitle>
+          <DialogDescription>{t('uploadPhotosDescription') as string}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()} disabled={isUploading}>
+            <ImagePlus className="mr-2 h-4 w-4" />
+            {t('uploadPhotosChoose') as string}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_TYPES}
+            multiple
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+
+          {pending.map((photo) => {
+            const candidates = eventsNearPlacement(photo.placement, events);
+            return (
+              <div key={photo.id} className="flex gap-3 rounded-lg border border-border p-3">
+                <img src={photo.previewUrl} alt="" className="h-20 w-20 shrink-0 rounded object-cover" />
+                <div className="min-w-0 flex-1 space-y-2">
+                  <p className="text-xs text-muted-foreground">
+                    {photo.capture
+                      ? t('photoTakenOn', { date: `${photo.capture.day}-${photo.capture.month}-${photo.capture.year}` })
+                      : (t('photoNoCaptureDate') as string)}
+                  </p>
+                  <div className="grid gap-2 sm:grid-cols-[6rem_1fr]">
+                    <div className="space-y-1">
+                      <Label className="text-xs">{t('photoYearLabel') as string}</Label>
+                      <Input
+                        type="number"
+                        value={photo.placement.year}
+                        onChange={(e) => {
+                          const year = parseInt(e.target.value, 10);
+                          if (!isNaN(year)) {
+                            // A different year drops the EXIF month/day and any attach target
+                            updatePending(photo.id, { placement: { year } });
+                          }
+                        }}
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">{t('photoPlacementLabel') as string}</Label>
+                      <Select
+                        value={photo.placement.attachToEventId ?? NEW_CARD}
+                        onValueChange={(v) =>
+                          updatePending(photo.id, {
+                            placement: { ...photo.placement, attachToEventId: v === NEW_CARD ? undefined : v },
+                          })
+                        }
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NEW_CARD}>{t('photoPlacementNewCard') as string}</SelectItem>
+                          {candidates.map((e) => (
+                            <SelectItem key={e.id} value={e.id}>
+                              {t('photoPlacementReplace', { title: e.title })}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  {!photo.placement.attachToEventId && (
+                    <div className="space-y-1">
+                      <Label className="text-xs">{t('photoCaptionLabel') as string}</Label>
+                      <Input value={photo.caption} onChange={(e) => updatePending(photo.id, { caption: e.target.value })} />
+                    </div>
+                  )}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removePending(photo.id)}
+                  disabled={isUploading}
+                  aria-label={t('photoRemove') as string}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+
+        <DialogFooter>
+          <Button onClick={handleConfirm} disabled={pending.length === 0 || isUploading} className="btn-vintage">
+            {isUploading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {(isUploading ? t('uploadPhotosUploading') : t('uploadPhotosConfirm')) as string}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
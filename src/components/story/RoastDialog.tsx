@@ -199,12 +199,10 @@ export const RoastDialog = ({ open, onOpenChange, events, formData }: RoastDialo
   const periodLabel = formData?.yearRange
     ? `${formData.yearRange.startYear} – ${formData.yearRange.endYear}`
     : formData?.birthDate
-      ? String(t('roastBornInLabel')).replace('{year}', String(formData.birthDate.year))
+      ? t('roastBornInLabel', { year: formData.birthDate.year, gender: formData.optionalData?.gender })
       : '';
 
-  const shareText = String(t('roastShareTextTpl'))
-    .replace('{level}', intensityLabel)
-    .replace('{url}', SITE_URL);
+  const shareText = t('roastShareTextTpl', { level: intensityLabel, url: SITE_URL });
 
   const generateRoast = useCallback(async (level: number) => {
     setIsLoading(true);
@@ -399,7 +397,7 @@ export const RoastDialog = ({ open, onOpenChange, events, formData }: RoastDialo
               <div className="flex flex-col items-center justify-center h-32 gap-3">
                 <Loader2 className="h-8 w-8 text-orange-500 animate-spin" />
                 <p className="text-sm text-muted-foreground">
-                  {String(t('roastWriting')).replace('{level}', intensityLabel)}
+                  {t('roastWriting', { level: intensityLabel })}
                 </p>
               </div>
             ) : roastText ? (
@@ -533,7 +531,7 @@ export const RoastDialog = ({ open, onOpenChange, events, formData }: RoastDialo
 
                   {/* Email */}
                   <a 
-                    href={`mailto:?subject=${encodeURIComponent(String(t('roastEmailSubject')))}&body=${encodeURIComponent(String(t('roastEmailBody')).replace('{text}', roastText).replace('{url}', SITE_URL))}`}
+                    href={`mailto:?subject=${encodeURIComponent(String(t('roastEmailSubject')))}&body=${encodeURIComponent(t('roastEmailBody', { text: roastText, url: SITE_URL }))}`}
                     className="flex flex-col items-center gap-1 p-3 rounded-lg bg-primary/10 hover:bg-primary/20 transition-colors"
                   >
                     <Mail className="h-6 w-6 text-primary" />
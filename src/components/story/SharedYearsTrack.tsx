@@ -0,0 +1,71 @@
+import { HeartHandshake } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { TimelineEvent } from '@/types/timeline';
+import { TimelinePerson, ageInYear, getEventPeople } from '@/lib/sharedTimeline';
+
+// One colour per person; the same column in every event row forms that person's track
+const TRACK_COLORS = ['bg-primary', 'bg-accent', 'bg-emerald-500', 'bg-sky-500', 'bg-amber-500', 'bg-rose-500'];
+
+const gridStyle = (people: TimelinePerson[]) => ({
+  gridTemplateColumns: `repeat(${people.length}, minmax(0, 1fr))`,
+});
+
+interface SharedYearsTrackProps {
+  event: TimelineEvent;
+  people: TimelinePerson[];
+}
+
+/**
+ * Parallel tracks above an event in a shared timeline: one lane per person,
+ * lit for the people the event belongs to, with everyone's age that year.
+ */
+export const SharedYearsTrack = ({ event, people }: SharedYearsTrackProps) => {
+  const { t } = useLanguage();
+  const involved = new Set(getEventPeople(event, people).map((p) => p.id));
+
+  return (
+    <div className="grid gap-2 mb-3 lg:mb-4" style={gridStyle(people)}>
+      {people.map((person, index) => {
+        const name = person.name || (t('sharedYou') as string);
+        const age = ageInYear(person, event.year);
+        const label = age !== undefined
+          ? t('sharedPersonAge', { name, age })
+          : person.birthYear
+            ? t('sharedPersonNotBorn', { name })
+            : name;
+
+        return (
+          <div key={person.id} className={`transition-opacity ${involved.has(person.id) ? '' : 'opacity-30'}`}>
+            <div className={`h-1 rounded-full ${TRACK_COLORS[index % TRACK_COLORS.length]}`} />
+            <p className="mt-1 truncate text-xs font-mono text-muted-foreground">{label}</p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+interface MetYearAnchorProps {
+  year: number;
+  people: TimelinePerson[];
+}
+
+/** Shared "the year we met" marker where all tracks come together. */
+export const MetYearAnchor = ({ year, people }: MetYearAnchorProps) => {
+  const { t } = useLanguage();
+
+  return (
+    <div className="my-10 lg:my-16">
+      <div className="grid gap-2" style={gridStyle(people)}>
+        {people.map((person, index) => (
+          <div key={person.id} className={`h-1 rounded-full ${TRACK_COLORS[index % TRACK_COLORS.length]}`} />
+        ))}
+      </div>
+      <div className="flex flex-col items-center gap-2 pt-6 text-center">
+        <HeartHandshake className="h-8 w-8 text-primary" />
+        <span className="font-serif text-5xl sm:text-6xl font-black tracking-tight text-foreground">{year}</span>
+        <span className="text-xs uppercase tracking-[0.3em] text-muted-foreground">{t('sharedYearWeMet') as string}</span>
+      </div>
+    </div>
+  );
+};
@@ -34,7 +34,7 @@ import { motion, useInView } from 'framer-motion';
 import {
   Music, Mic, Image, FileText, Sparkles, ChevronLeft, ChevronRight,
   Crown, Gift, Lock, Flame, ListMusic, Tv, Film, Play, Loader2,
-  BookOpen,
+  BookOpen, ArrowLeftRight,
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -57,6 +57,7 @@ export type DiscoverTileId =
   | 'roast'
   | 'spoken-story'
   | 'presentation'
+  | 'compare'
   | 'story';  // "back to my timeline" — only shown on non-story pages
 
 interface TileDef {
@@ -178,6 +179,14 @@ export const StoryEndDiscover = ({
       isPremium: false,
       accentColor: 'text-sky-400',
     },
+    {
+      id: 'compare',
+      title: t('compareYearsTile') as string,
+      subtitle: t('compareYearsTileSubtitle') as string,
+      icon: <ArrowLeftRight className="h-5 w-5" />,
+      isPremium: false,
+      accentColor: 'text-indigo-400',
+    },
     {
       id: 'personalized',
       title: t('fullyPersonalized') as string,
@@ -248,6 +257,7 @@ export const StoryEndDiscover = ({
     'spoken-story': () => navigate(`/story${params}`),
     'polaroids': () => navigate(`/polaroid${params}`),
     'presentation': () => navigate(`/story${params}`),
+    'compare': () => navigate('/vergelijk'),
   };
 
   const getTileAction = (id: DiscoverTileId) => tileActions?.[id] || defaultActions[id];
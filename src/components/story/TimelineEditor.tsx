@@ -0,0 +1,222 @@
+import { useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, ImagePlus, Loader2, Plus, Trash2 } from 'lucide-react';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TimelineEvent } from '@/types/timeline';
+import { TranslationKey } from '@/lib/i18n';
+import { readPhotoAsDataUrl } from '@/lib/photoUpload';
+import {
+  EVENT_CATEGORIES,
+  EVENT_IMPORTANCE,
+  EventEdit,
+  applyEventEdit,
+  applyUserPhoto,
+  createPersonalEvent,
+  moveEvent,
+  parseEventDate,
+} from '@/lib/timelineEditing';
+
+const categoryLabelKey = (category: TimelineEvent['category']) =>
+  `pdfCat${category.charAt(0).toUpperCase()}${category.slice(1)}` as TranslationKey;
+
+const importanceLabelKey = (importance: TimelineEvent['importance']) =>
+  `importance${importance.charAt(0).toUpperCase()}${importance.slice(1)}` as TranslationKey;
+
+interface EventEditorCardProps {
+  event: TimelineEvent;
+  index: number;
+  total: number;
+  onEdit: (edit: EventEdit) => void;
+  onPhoto: (file: File) => Promise<void>;
+  onMove: (direction: -1 | 1) => void;
+  onDelete: () => void;
+}
+
+const EventEditorCard = ({ event, index, total, onEdit, onPhoto, onMove, onDelete }: EventEditorCardProps) => {
+  const { t } = useLanguage();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isReadingPhoto, setIsReadingPhoto] = useState(false);
+  const dateInvalid = !parseEventDate(event.date);
+
+  const handleFile = async (file?: File) => {
+    if (!file) return;
+    setIsReadingPhoto(true);
+    try {
+      await onPhoto(file);
+    } finally {
+      setIsReadingPhoto(false);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="rounded-xl border border-border bg-card p-4 shadow-sm">
+      <div className="flex gap-4">
+        {/* Photo */}
+        <div className="shrink-0">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="relative h-24 w-24 overflow-hidden rounded-lg border border-dashed border-border bg-muted flex items-center justify-center text-muted-foreground hover:text-foreground"
+            title={t('editorUploadPhoto') as string}
+            aria-label={t('editorUploadPhoto') as string}
+          >
+            {event.imageUrl ? (
+              <img src={event.imageUrl} alt="" className="h-full w-full object-cover" />
+            ) : (
+              <ImagePlus className="h-6 w-6" />
+            )}
+            {isReadingPhoto && (
+              <span className="absolute inset-0 flex items-center justify-center bg-background/70">
+                <Loader2 className="h-5 w-5 animate-spin" />
+              </span>
+            )}
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+          />
+        </div>
+
+        {/* Fields */}
+        <div className="min-w-0 flex-1 space-y-3">
+          <div className="grid gap-3 sm:grid-cols-[1fr_8rem]">
+            <div className="space-y-1">
+              <Label className="text-xs">{t('editorTitleLabel') as string}</Label>
+              <Input value={event.title} onChange={(e) => onEdit({ title: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{t('editorDateLabel') as string}</Label>
+              <Input
+                value={event.date}
+                onChange={(e) => onEdit({ date: e.target.value })}
+                placeholder="1985-07-13"
+                aria-invalid={dateInvalid}
+                className={dateInvalid ? 'border-destructive' : ''}
+                title={t('editorDateHint') as string}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs">{t('editorDescriptionLabel') as string}</Label>
+            <Textarea
+              value={event.description}
+              onChange={(e) => onEdit({ description: e.target.value })}
+              rows={3}
+            />
+          </div>
+
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div className="space-y-1">
+              <Label className="text-xs">{t('editorCategoryLabel') as string}</Label>
+              <Select value={event.category} onValueChange={(v) => onEdit({ category: v as TimelineEvent['category'] })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {EVENT_CATEGORIES.map((category) => (
+                    <SelectItem key={category} value={category}>{t(categoryLabelKey(category)) as string}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">{t('editorImportanceLabel') as string}</Label>
+              <Select value={event.importance} onValueChange={(v) => onEdit({ importance: v as TimelineEvent['importance'] })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {EVENT_IMPORTANCE.map((importance) => (
+                    <SelectItem key={importance} value={importance}>{t(importanceLabelKey(importance)) as string}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        {/* Order + delete */}
+        <div className="flex shrink-0 flex-col gap-1">
+          <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => onMove(-1)} aria-label={t('editorMoveUp') as string} title={t('editorMoveUp') as string}>
+            <ArrowUp className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" disabled={index === total - 1} onClick={() => onMove(1)} aria-label={t('editorMoveDown') as string} title={t('editorMoveDown') as string}>
+            <ArrowDown className="h-4 w-4" />
+          </Button>
+          <Button variant="ghost" size="icon" onClick={onDelete} className="text-destructive hover:text-destructive" aria-label={t('editorDeleteEvent') as string} title={t('editorDeleteEvent') as string}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface TimelineEditorProps {
+  events: TimelineEvent[];
+  /** Year used for a newly inserted personal event. */
+  defaultYear: number;
+  onChange: (events: TimelineEvent[]) => void;
+}
+
+/**
+ * Edit mode for /story: edit, reorder, delete and insert events. Every change
+ * is reported as the full new event list so the page can persist it.
+ */
+export const TimelineEditor = ({ events, defaultYear, onChange }: TimelineEditorProps) => {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+
+  const updateAt = (index: number, updater: (event: TimelineEvent) => TimelineEvent) => {
+    onChange(events.map((e, i) => (i === index ? updater(e) : e)));
+  };
+
+  const handlePhoto = async (index: number, file: File) => {
+    try {
+      const dataUrl = await readPhotoAsDataUrl(file);
+      updateAt(index, (e) => applyUserPhoto(e, dataUrl));
+    } catch (err) {
+      console.error('[TimelineEditor] Failed to read photo:', err);
+      toast({
+        variant: 'destructive',
+        title: t('editorPhotoFailed') as string,
+        description: err instanceof Error ? err.message : undefined,
+      });
+    }
+  };
+
+  return (
+    <div className="mx-auto max-w-3xl space-y-4 py-6">
+      <Button variant="outline" className="w-full" onClick={() => onChange([createPersonalEvent(defaultYear), ...events])}>
+        <Plus className="mr-2 h-4 w-4" />
+        {t('editorAddPersonalEvent') as string}
+      </Button>
+
+      {events.map((event, index) => (
+        <EventEditorCard
+          key={event.id}
+          event={event}
+          index={index}
+          total={events.length}
+          onEdit={(edit) => updateAt(index, (e) => applyEventEdit(e, edit))}
+          onPhoto={(file) => handlePhoto(index, file)}
+          onMove={(direction) => onChange(moveEvent(events, index, direction))}
+          onDelete={() => onChange(events.filter((_, i) => i !== index))}
+        />
+      ))}
+
+      {events.length > 0 && (
+        <Button variant="outline" className="w-full" onClick={() => onChange([...events, createPersonalEvent(events[events.length - 1].year)])}>
+          <Plus className="mr-2 h-4 w-4" />
+          {t('editorAddPersonalEvent') as string}
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertCircle, Download, Film, Loader2 } from 'lucide-react';
+import { useVideoRender, RenderFormat, RenderResolution } from '@/hooks/useVideoRender';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+const FORMATS: RenderFormat[] = ['mp4', 'webm'];
+const RESOLUTIONS: RenderResolution[] = ['540p', '720p', '1080p'];
+
+interface RenderDownloadPanelProps {
+  /** Id of the saved story to render, when it has been saved already */
+  storyId?: string | null;
+  /** Saves the story on demand when there is no storyId yet */
+  ensureStoryId?: () => Promise<string | null>;
+}
+
+/**
+ * Lets the user render the saved story to a video file on the render service
+ * and download it once it's done.
+ */
+export const RenderDownloadPanel: React.FC<RenderDownloadPanelProps> = ({ storyId, ensureStoryId }) => {
+  const { t } = useLanguage();
+  const tr = (k: Parameters<typeof t>[0]) => t(k) as string;
+  const { startRender, status, progress, outputUrl, subtitleUrls, error } = useVideoRender();
+  const [format, setFormat] = useState<RenderFormat>('mp4');
+  const [resolution, setResolution] = useState<RenderResolution>('720p');
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveFailed, setSaveFailed] = useState(false);
+
+  const isBusy = isSaving || status === 'queued' || status === 'rendering';
+
+  const handleRender = async () => {
+    setSaveFailed(false);
+    let id = storyId ?? null;
+    if (!id && ensureStoryId) {
+      setIsSaving(true);
+      id = await ensureStoryId();
+      setIsSaving(false);
+    }
+    if (!id) {
+      setSaveFailed(true);
+      return;
+    }
+    await startRender(id, format, resolution);
+  };
+
+  return (
+    <div className="space-y-3 rounded-md border border-border p-3">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <Film className="h-4 w-4 text-primary" />
+        {tr('renderDownloadTitle')}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Select value={format} onValueChange={(v) => setFormat(v as RenderFormat)} disabled={isBusy}>
+          <SelectTrigger className="sm:w-28" aria-label={tr('renderFormatLabel')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {FORMATS.map((f) => (
+              <SelectItem key={f} value={f}>{f.toUpperCase()}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Select value={resolution} onValueChange={(v) => setResolution(v as RenderResolution)} disabled={isBusy}>
+          <SelectTrigger className="sm:w-28" aria-label={tr('renderResolutionLabel')}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RESOLUTIONS.map((r) => (
+              <SelectItem key={r} value={r}>{r}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        <Button onClick={handleRender} disabled={isBusy} size="sm" className="sm:flex-1 gap-2">
+          {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Film className="h-4 w-4" />}
+          {tr('renderStart')}
+        </Button>
+      </div>
+
+      {isSaving && (
+        <p className="text-xs text-muted-foreground">{tr('renderSavingStory')}</p>
+      )}
+
+      {status === 'queued' && (
+        <p className="text-xs text-muted-foreground">{tr('renderQueued')}</p>
+      )}
+
+      {status === 'rendering' && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">
+            {t('renderProgress', { pct: Math.round(progress * 100) })}
+          </p>
+          <Progress value={progress * 100} className="h-1.5" />
+        </div>
+      )}
+
+      {status === 'done' && outputUrl && (
+        <Button asChild variant="secondary" size="sm" className="w-full gap-2">
+          <a href={outputUrl} download target="_blank" rel="noopener noreferrer">
+            <Download className="h-4 w-4" />
+            {t('renderDownload', { format: format.toUpperCase() })}
+          </a>
+        </Button>
+      )}
+
+      {status === 'done' && (subtitleUrls.vtt || subtitleUrls.srt) && (
+        <div className="flex items-center justify-center gap-3 text-xs text-muted-foreground">
+          <span>{tr('captionsDownload')}</span>
+          {subtitleUrls.vtt && <a href={subtitleUrls.vtt} className="underline hover:text-foreground">.vtt</a>}
+          {subtitleUrls.srt && <a href={subtitleUrls.srt} className="underline hover:text-foreground">.srt</a>}
+        </div>
+      )}
+
+      {(status === 'error' || saveFailed) && (
+        <div className="flex items-center gap-2 px-3 py-2 bg-destructive/10 text-destructive rounded-md text-xs">
+          <AlertCircle className="h-4 w-4 flex-shrink-0" />
+          <span>{tr('renderFailed')}{error ? `: ${error}` : ''}</span>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -18,13 +18,14 @@ import {
 } from 'lucide-react';
 import { useSaveStory, StoryContent, StorySettings } from '@/hooks/useSaveStory';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { RenderDownloadPanel } from '@/components/video/RenderDownloadPanel';
 
 interface ShareDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   content: StoryContent;
   settings: StorySettings;
-  onShareComplete?: (shareUrl: string) => void;
+  onShareComplete?: (shareUrl: string, storyId: string) => void;
 }
 
 export const ShareDialog: React.FC<ShareDialogProps> = ({
@@ -38,6 +39,7 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
   const { t } = useLanguage();
   const tr = (k: Parameters<typeof t>[0]) => t(k) as string;
   const [shareUrl, setShareUrl] = useState<string | null>(null);
+  const [storyId, setStoryId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [copied, setCopied] = useState(false);
 
@@ -52,9 +54,10 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
     setError(null);
     const result = await saveStory(content, settings);
     
-    if (result.success && result.shareUrl) {
+    if (result.success && result.shareUrl && result.storyId) {
       setShareUrl(result.shareUrl);
-      onShareComplete?.(result.shareUrl);
+      setStoryId(result.storyId);
+      onShareComplete?.(result.shareUrl, result.storyId);
     } else {
       setError(result.error || tr('shareGenericError'));
     }
@@ -88,11 +91,11 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
   };
 
   const shareLinks = shareUrl ? {
-    whatsapp: `https://wa.me/?text=${encodeURIComponent(tr('shareWhatsapp').replace('{url}', shareUrl))}`,
+    whatsapp: `https://wa.me/?text=${encodeURIComponent(t('shareWhatsapp', { url: shareUrl }))}`,
     telegram: `https://t.me/share/url?url=${encodeURIComponent(shareUrl)}&text=${encodeURIComponent(tr('shareTelegram'))}`,
     facebook: `https://www.facebook.com/sharer/sharer.php?u=${encodeURIComponent(shareUrl)}`,
     twitter: `https://twitter.com/intent/tweet?url=${encodeURIComponent(shareUrl)}&text=${encodeURIComponent(tr('shareTwitter'))}`,
-    email: `mailto:?subject=${encodeURIComponent(tr('shareEmailSubject'))}&body=${encodeURIComponent(tr('shareEmailBody').replace('{url}', shareUrl))}`,
+    email: `mailto:?subject=${encodeURIComponent(tr('shareEmailSubject'))}&body=${encodeURIComponent(t('shareEmailBody', { url: shareUrl }))}`,
   } : null;
 
   const handleClose = () => {
@@ -245,6 +248,9 @@ export const ShareDialog: React.FC<ShareDialogProps> = ({
                 </div>
               </div>
 
+              {/* Downloadable video file */}
+              <RenderDownloadPanel storyId={storyId} />
+
               {/* Direct link */}
               <div className="pt-2 border-t border-border">
                 <a 
@@ -7,6 +7,10 @@ type AuthContextType = {
   user: User | null;
   session: Session | null;
   loading: boolean;
+  /** profiles.is_admin of the signed-in user (see ADMIN_ROLE_PLAN.md) */
+  isAdmin: boolean;
+  /** True until isAdmin is known for the current user */
+  adminLoading: boolean;
   signOut: () => Promise<void>;
 };
 
@@ -16,6 +20,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [adminStatus, setAdminStatus] = useState<{ userId: string; isAdmin: boolean } | null>(null);
 
   useEffect(() => {
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -35,6 +40,28 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Re-read on every sign-in; a failed lookup counts as "not an admin"
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    supabase
+      .from('profiles')
+      .select('is_admin')
+      .eq('id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.warn('Failed to load admin status:', error);
+        if (!cancelled) setAdminStatus({ userId, isAdmin: data?.is_admin ?? false });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  const isAdmin = !!userId && adminStatus?.userId === userId && adminStatus.isAdmin;
+  const adminLoading = loading || (!!userId && adminStatus?.userId !== userId);
+
   const signOut = async () => {
     // Wipe per-user sessionStorage before the auth call so the next user
     // signing in on this browser cannot read the previous user's form data,
@@ -46,7 +73,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, loading, signOut }}>
+    <AuthContext.Provider value={{ user, session, loading, isAdmin, adminLoading, signOut }}>
       {children}
     </AuthContext.Provider>
   );
@@ -1,45 +1,46 @@
-import React, { createContext, useContext, useState, ReactNode, useEffect } from 'react';
-import { Language, translations, TranslationKey, TranslationValue } from '@/lib/i18n';
+import React, { createContext, useContext, useState, ReactNode, useEffect, useRef } from 'react';
+import {
+  DateInput,
+  formatDate as formatDateIn,
+  formatNumber as formatNumberIn,
+  getInitialLanguage,
+  getTranslation,
+  getTranslationString,
+  isLocaleLoaded,
+  LANG_STORAGE_KEY,
+  Language,
+  loadLocale,
+  MessageKey,
+  MessageValues,
+  Translate,
+  TranslationKey,
+} from '@/lib/i18n';
 
 type LanguageContextType = {
   language: Language;
   setLanguage: (lang: Language) => void;
-  t: (key: TranslationKey) => TranslationValue;
+  /** t('key') returns the raw value; t('key', { count }) formats the ICU message. */
+  t: Translate;
+  formatDate: (date: DateInput, options?: Intl.DateTimeFormatOptions) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
 };
 
 const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
 
-const LANG_STORAGE_KEY = 'app_language';
-const supportedLanguages: Language[] = ['nl', 'en', 'de', 'fr'];
-
-// Priority: URL ?lang= > localStorage > domain default > 'nl'
-const getInitialLanguage = (): Language => {
-  if (typeof window === 'undefined') return 'nl';
-  const hostname = window.location.hostname;
-  const urlParams = new URLSearchParams(window.location.search);
-  const langParam = urlParams.get('lang') as Language;
-
-  if (langParam && supportedLanguages.includes(langParam)) {
-    return langParam;
-  }
-
-  try {
-    const stored = localStorage.getItem(LANG_STORAGE_KEY) as Language | null;
-    if (stored && supportedLanguages.includes(stored)) return stored;
-  } catch { /* ignore */ }
-
-  if (hostname.includes('seemyyear.com') || hostname.includes('rewindmyera.com')) {
-    return 'en';
-  }
-  return 'nl';
-};
-
 export const LanguageProvider = ({ children }: { children: ReactNode }) => {
   const [language, setLanguageState] = useState<Language>(getInitialLanguage);
+  const [, setLoadedLanguage] = useState<Language | null>(null);
+  const requestedLanguage = useRef(language);
 
+  // Keep showing the current language until the new bundle has arrived
   const setLanguage = (lang: Language) => {
-    setLanguageState(lang);
+    requestedLanguage.current = lang;
     try { localStorage.setItem(LANG_STORAGE_KEY, lang); } catch { /* ignore */ }
+    loadLocale(lang)
+      .then(() => {
+        if (requestedLanguage.current === lang) setLanguageState(lang);
+      })
+      .catch((error) => console.error(`Failed to load the ${lang} translations:`, error));
   };
 
   // If URL ?lang= changes, sync it to storage too
@@ -47,12 +48,22 @@ export const LanguageProvider = ({ children }: { children: ReactNode }) => {
     try { localStorage.setItem(LANG_STORAGE_KEY, language); } catch { /* ignore */ }
   }, [language]);
 
-  const t = (key: TranslationKey): TranslationValue => {
-    return translations[language][key] || translations.nl[key] || key;
-  };
+  // main.tsx preloads the initial bundle; if it isn't there yet, render Dutch and re-render once it is
+  useEffect(() => {
+    if (isLocaleLoaded(language)) return;
+    loadLocale(language)
+      .then(() => setLoadedLanguage(language))
+      .catch((error) => console.error(`Failed to load the ${language} translations:`, error));
+  }, [language]);
+
+  const t = ((key: TranslationKey, values?: MessageValues) =>
+    values ? getTranslationString(key as MessageKey, language, values) : getTranslation(key, language)) as Translate;
+
+  const formatDate = (date: DateInput, options?: Intl.DateTimeFormatOptions) => formatDateIn(date, language, options);
+  const formatNumber = (value: number, options?: Intl.NumberFormatOptions) => formatNumberIn(value, language, options);
 
   return (
-    <LanguageContext.Provider value={{ language, setLanguage, t }}>
+    <LanguageContext.Provider value={{ language, setLanguage, t, formatDate, formatNumber }}>
       {children}
     </LanguageContext.Provider>
   );
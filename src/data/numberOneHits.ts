@@ -1,473 +0,0 @@
-/**
- * 5 iconic hit singles per year (US/UK/Global charts).
- * More entries per year = more album covers in the sidebar.
- */
-export interface NumberOneHit {
-  artist: string;
-  title: string;
-}
-
-export const numberOneHits: Record<number, NumberOneHit[]> = {
-  1960: [
-    { artist: "Percy Faith", title: "Theme from A Summer Place" },
-    { artist: "Elvis Presley", title: "It's Now or Never" },
-    { artist: "The Drifters", title: "Save the Last Dance for Me" },
-    { artist: "Chubby Checker", title: "The Twist" },
-    { artist: "Brenda Lee", title: "I'm Sorry" },
-  ],
-  1961: [
-    { artist: "Bobby Lewis", title: "Tossin' and Turnin'" },
-    { artist: "Del Shannon", title: "Runaway" },
-    { artist: "Dion", title: "Runaround Sue" },
-    { artist: "The Tokens", title: "The Lion Sleeps Tonight" },
-    { artist: "Ray Charles", title: "Hit the Road Jack" },
-  ],
-  1962: [
-    { artist: "Bobby Vinton", title: "Roses Are Red" },
-    { artist: "Ray Charles", title: "I Can't Stop Loving You" },
-    { artist: "The Four Seasons", title: "Sherry" },
-    { artist: "The Tornados", title: "Telstar" },
-    { artist: "Neil Sedaka", title: "Breaking Up Is Hard to Do" },
-  ],
-  1963: [
-    { artist: "Jimmy Gilmer and the Fireballs", title: "Sugar Shack" },
-    { artist: "The Chiffons", title: "He's So Fine" },
-    { artist: "Stevie Wonder", title: "Fingertips" },
-    { artist: "The Kingsmen", title: "Louie Louie" },
-    { artist: "The Ronettes", title: "Be My Baby" },
-  ],
-  1964: [
-    { artist: "The Beatles", title: "I Want to Hold Your Hand" },
-    { artist: "The Beatles", title: "A Hard Day's Night" },
-    { artist: "Roy Orbison", title: "Oh, Pretty Woman" },
-    { artist: "The Supremes", title: "Baby Love" },
-    { artist: "The Animals", title: "The House of the Rising Sun" },
-  ],
-  1965: [
-    { artist: "The Rolling Stones", title: "Satisfaction" },
-    { artist: "The Righteous Brothers", title: "You've Lost That Lovin' Feelin'" },
-    { artist: "The Byrds", title: "Turn! Turn! Turn!" },
-    { artist: "The Beatles", title: "Yesterday" },
-    { artist: "The Temptations", title: "My Girl" },
-  ],
-  1966: [
-    { artist: "The Monkees", title: "I'm a Believer" },
-    { artist: "The Beach Boys", title: "Good Vibrations" },
-    { artist: "Frank Sinatra", title: "Strangers in the Night" },
-    { artist: "The Troggs", title: "Wild Thing" },
-    { artist: "Percy Sledge", title: "When a Man Loves a Woman" },
-  ],
-  1967: [
-    { artist: "Lulu", title: "To Sir with Love" },
-    { artist: "The Beatles", title: "All You Need Is Love" },
-    { artist: "Aretha Franklin", title: "Respect" },
-    { artist: "The Doors", title: "Light My Fire" },
-    { artist: "Procol Harum", title: "A Whiter Shade of Pale" },
-  ],
-  1968: [
-    { artist: "The Beatles", title: "Hey Jude" },
-    { artist: "Otis Redding", title: "Sittin' On The Dock of the Bay" },
-    { artist: "Marvin Gaye", title: "I Heard It Through the Grapevine" },
-    { artist: "Simon & Garfunkel", title: "Mrs. Robinson" },
-    { artist: "Steppenwolf", title: "Born to Be Wild" },
-  ],
-  1969: [
-    { artist: "The Archies", title: "Sugar, Sugar" },
-    { artist: "The Rolling Stones", title: "Honky Tonk Women" },
-    { artist: "The 5th Dimension", title: "Aquarius/Let the Sunshine In" },
-    { artist: "Tommy James & the Shondells", title: "Crimson and Clover" },
-    { artist: "CCR", title: "Proud Mary" },
-  ],
-  1970: [
-    { artist: "Simon & Garfunkel", title: "Bridge over Troubled Water" },
-    { artist: "The Jackson 5", title: "ABC" },
-    { artist: "Edwin Starr", title: "War" },
-    { artist: "The Jackson 5", title: "I Want You Back" },
-    { artist: "Mungo Jerry", title: "In the Summertime" },
-  ],
-  1971: [
-    { artist: "Three Dog Night", title: "Joy to the World" },
-    { artist: "Rod Stewart", title: "Maggie May" },
-    { artist: "Carole King", title: "It's Too Late" },
-    { artist: "John Lennon", title: "Imagine" },
-    { artist: "The Rolling Stones", title: "Brown Sugar" },
-  ],
-  1972: [
-    { artist: "Don McLean", title: "American Pie" },
-    { artist: "Gilbert O'Sullivan", title: "Alone Again (Naturally)" },
-    { artist: "Al Green", title: "Let's Stay Together" },
-    { artist: "Neil Young", title: "Heart of Gold" },
-    { artist: "Bill Withers", title: "Lean on Me" },
-  ],
-  1973: [
-    { artist: "Roberta Flack", title: "Killing Me Softly with His Song" },
-    { artist: "Stevie Wonder", title: "Superstition" },
-    { artist: "Marvin Gaye", title: "Let's Get It On" },
-    { artist: "Elton John", title: "Crocodile Rock" },
-    { artist: "Jim Croce", title: "Bad, Bad Leroy Brown" },
-  ],
-  1974: [
-    { artist: "Barbra Streisand", title: "The Way We Were" },
-    { artist: "John Denver", title: "Sunshine on My Shoulders" },
-    { artist: "Carl Douglas", title: "Kung Fu Fighting" },
-    { artist: "Stevie Wonder", title: "You Haven't Done Nothin'" },
-    { artist: "ABBA", title: "Waterloo" },
-  ],
-  1975: [
-    { artist: "Captain & Tennille", title: "Love Will Keep Us Together" },
-    { artist: "Queen", title: "Bohemian Rhapsody" },
-    { artist: "Elton John", title: "Philadelphia Freedom" },
-    { artist: "KC and the Sunshine Band", title: "That's the Way (I Like It)" },
-    { artist: "Eagles", title: "One of These Nights" },
-  ],
-  1976: [
-    { artist: "Johnnie Taylor", title: "Disco Lady" },
-    { artist: "ABBA", title: "Dancing Queen" },
-    { artist: "Elton John & Kiki Dee", title: "Don't Go Breaking My Heart" },
-    { artist: "Chicago", title: "If You Leave Me Now" },
-    { artist: "Wild Cherry", title: "Play That Funky Music" },
-  ],
-  1977: [
-    { artist: "Bee Gees", title: "Stayin' Alive" },
-    { artist: "Fleetwood Mac", title: "Dreams" },
-    { artist: "Eagles", title: "Hotel California" },
-    { artist: "Stevie Wonder", title: "Sir Duke" },
-    { artist: "David Soul", title: "Don't Give Up on Us" },
-  ],
-  1978: [
-    { artist: "Bee Gees", title: "Night Fever" },
-    { artist: "John Travolta & Olivia Newton-John", title: "You're the One That I Want" },
-    { artist: "Andy Gibb", title: "Shadow Dancing" },
-    { artist: "Exile", title: "Kiss You All Over" },
-    { artist: "Commodores", title: "Three Times a Lady" },
-  ],
-  1979: [
-    { artist: "Knack", title: "My Sharona" },
-    { artist: "Donna Summer", title: "Hot Stuff" },
-    { artist: "Gloria Gaynor", title: "I Will Survive" },
-    { artist: "Village People", title: "Y.M.C.A." },
-    { artist: "Blondie", title: "Heart of Glass" },
-  ],
-  1980: [
-    { artist: "Blondie", title: "Call Me" },
-    { artist: "Pink Floyd", title: "Another Brick in the Wall" },
-    { artist: "Queen", title: "Crazy Little Thing Called Love" },
-    { artist: "John Lennon", title: "(Just Like) Starting Over" },
-    { artist: "Lipps Inc.", title: "Funkytown" },
-  ],
-  1981: [
-    { artist: "Kim Carnes", title: "Bette Davis Eyes" },
-    { artist: "Soft Cell", title: "Tainted Love" },
-    { artist: "Phil Collins", title: "In the Air Tonight" },
-    { artist: "Blondie", title: "The Tide Is High" },
-    { artist: "Diana Ross", title: "Upside Down" },
-  ],
-  1982: [
-    { artist: "Survivor", title: "Eye of the Tiger" },
-    { artist: "Dexys Midnight Runners", title: "Come On Eileen" },
-    { artist: "Culture Club", title: "Do You Really Want to Hurt Me" },
-    { artist: "Toto", title: "Africa" },
-    { artist: "Joan Jett & the Blackhearts", title: "I Love Rock 'n' Roll" },
-  ],
-  1983: [
-    { artist: "The Police", title: "Every Breath You Take" },
-    { artist: "Michael Jackson", title: "Billie Jean" },
-    { artist: "Eurythmics", title: "Sweet Dreams" },
-    { artist: "Michael Jackson", title: "Beat It" },
-    { artist: "David Bowie", title: "Let's Dance" },
-  ],
-  1984: [
-    { artist: "Prince", title: "When Doves Cry" },
-    { artist: "Cyndi Lauper", title: "Girls Just Want to Have Fun" },
-    { artist: "Frankie Goes to Hollywood", title: "Relax" },
-    { artist: "Van Halen", title: "Jump" },
-    { artist: "Stevie Wonder", title: "I Just Called to Say I Love You" },
-  ],
-  1985: [
-    { artist: "Wham!", title: "Careless Whisper" },
-    { artist: "a-ha", title: "Take On Me" },
-    { artist: "Dire Straits", title: "Money for Nothing" },
-    { artist: "Tears for Fears", title: "Everybody Wants to Rule the World" },
-    { artist: "Simple Minds", title: "Don't You (Forget About Me)" },
-  ],
-  1986: [
-    { artist: "Berlin", title: "Take My Breath Away" },
-    { artist: "Peter Gabriel", title: "Sledgehammer" },
-    { artist: "Madonna", title: "Papa Don't Preach" },
-    { artist: "Pet Shop Boys", title: "West End Girls" },
-    { artist: "Bangles", title: "Walk Like an Egyptian" },
-  ],
-  1987: [
-    { artist: "George Michael", title: "Faith" },
-    { artist: "Michael Jackson", title: "Bad" },
-    { artist: "U2", title: "With or Without You" },
-    { artist: "Bon Jovi", title: "Livin' on a Prayer" },
-    { artist: "Rick Astley", title: "Never Gonna Give You Up" },
-  ],
-  1988: [
-    { artist: "George Michael", title: "One More Try" },
-    { artist: "INXS", title: "Need You Tonight" },
-    { artist: "Bobby McFerrin", title: "Don't Worry, Be Happy" },
-    { artist: "Guns N' Roses", title: "Sweet Child O' Mine" },
-    { artist: "UB40", title: "Red Red Wine" },
-  ],
-  1989: [
-    { artist: "Bobby Brown", title: "My Prerogative" },
-    { artist: "The Bangles", title: "Eternal Flame" },
-    { artist: "New Kids on the Block", title: "Hangin' Tough" },
-    { artist: "Madonna", title: "Like a Prayer" },
-    { artist: "Phil Collins", title: "Another Day in Paradise" },
-  ],
-  1990: [
-    { artist: "Sinéad O'Connor", title: "Nothing Compares 2 U" },
-    { artist: "MC Hammer", title: "U Can't Touch This" },
-    { artist: "Roxette", title: "It Must Have Been Love" },
-    { artist: "Deee-Lite", title: "Groove Is in the Heart" },
-    { artist: "Wilson Phillips", title: "Hold On" },
-  ],
-  1991: [
-    { artist: "Bryan Adams", title: "(Everything I Do) I Do It for You" },
-    { artist: "Nirvana", title: "Smells Like Teen Spirit" },
-    { artist: "R.E.M.", title: "Losing My Religion" },
-    { artist: "Metallica", title: "Enter Sandman" },
-    { artist: "PM Dawn", title: "Set Adrift on Memory Bliss" },
-  ],
-  1992: [
-    { artist: "Whitney Houston", title: "I Will Always Love You" },
-    { artist: "Sir Mix-a-Lot", title: "Baby Got Back" },
-    { artist: "Kris Kross", title: "Jump" },
-    { artist: "Right Said Fred", title: "I'm Too Sexy" },
-    { artist: "Snap!", title: "Rhythm Is a Dancer" },
-  ],
-  1993: [
-    { artist: "Tag Team", title: "Whoomp! (There It Is)" },
-    { artist: "UB40", title: "Can't Help Falling in Love" },
-    { artist: "Meat Loaf", title: "I'd Do Anything for Love" },
-    { artist: "Haddaway", title: "What Is Love" },
-    { artist: "Snow", title: "Informer" },
-  ],
-  1994: [
-    { artist: "Boyz II Men", title: "I'll Make Love to You" },
-    { artist: "Wet Wet Wet", title: "Love Is All Around" },
-    { artist: "Lisa Loeb", title: "Stay (I Missed You)" },
-    { artist: "Ace of Base", title: "The Sign" },
-    { artist: "All-4-One", title: "I Swear" },
-  ],
-  1995: [
-    { artist: "Coolio", title: "Gangsta's Paradise" },
-    { artist: "TLC", title: "Waterfalls" },
-    { artist: "Seal", title: "Kiss from a Rose" },
-    { artist: "Alanis Morissette", title: "You Oughta Know" },
-    { artist: "Oasis", title: "Wonderwall" },
-  ],
-  1996: [
-    { artist: "Los Del Rio", title: "Macarena" },
-    { artist: "Spice Girls", title: "Wannabe" },
-    { artist: "Fugees", title: "Killing Me Softly" },
-    { artist: "No Doubt", title: "Don't Speak" },
-    { artist: "Backstreet Boys", title: "Quit Playing Games (With My Heart)" },
-  ],
-  1997: [
-    { artist: "Elton John", title: "Candle in the Wind 1997" },
-    { artist: "Hanson", title: "MMMBop" },
-    { artist: "Aqua", title: "Barbie Girl" },
-    { artist: "Notorious B.I.G.", title: "Hypnotize" },
-    { artist: "The Verve", title: "Bitter Sweet Symphony" },
-  ],
-  1998: [
-    { artist: "Brandy & Monica", title: "The Boy Is Mine" },
-    { artist: "Cher", title: "Believe" },
-    { artist: "Natalie Imbruglia", title: "Torn" },
-    { artist: "Aerosmith", title: "I Don't Want to Miss a Thing" },
-    { artist: "Fatboy Slim", title: "The Rockafeller Skank" },
-  ],
-  1999: [
-    { artist: "TLC", title: "No Scrubs" },
-    { artist: "Ricky Martin", title: "Livin' La Vida Loca" },
-    { artist: "Britney Spears", title: "...Baby One More Time" },
-    { artist: "Backstreet Boys", title: "I Want It That Way" },
-    { artist: "Eiffel 65", title: "Blue (Da Ba Dee)" },
-  ],
-  2000: [
-    { artist: "Faith Hill", title: "Breathe" },
-    { artist: "Santana", title: "Smooth" },
-    { artist: "Destiny's Child", title: "Say My Name" },
-    { artist: "Sisqó", title: "Thong Song" },
-    { artist: "Baha Men", title: "Who Let the Dogs Out" },
-  ],
-  2001: [
-    { artist: "Lifehouse", title: "Hanging by a Moment" },
-    { artist: "Crazy Town", title: "Butterfly" },
-    { artist: "Alicia Keys", title: "Fallin'" },
-    { artist: "Destiny's Child", title: "Bootylicious" },
-    { artist: "Gorillaz", title: "Clint Eastwood" },
-  ],
-  2002: [
-    { artist: "Eminem", title: "Lose Yourself" },
-    { artist: "Nelly", title: "Hot in Herre" },
-    { artist: "Avril Lavigne", title: "Complicated" },
-    { artist: "Justin Timberlake", title: "Cry Me a River" },
-    { artist: "The White Stripes", title: "Fell in Love with a Girl" },
-  ],
-  2003: [
-    { artist: "Beyoncé", title: "Crazy in Love" },
-    { artist: "OutKast", title: "Hey Ya!" },
-    { artist: "50 Cent", title: "In da Club" },
-    { artist: "Evanescence", title: "Bring Me to Life" },
-    { artist: "The Black Eyed Peas", title: "Where Is the Love" },
-  ],
-  2004: [
-    { artist: "Usher", title: "Yeah!" },
-    { artist: "OutKast", title: "Hey Ya!" },
-    { artist: "Hoobastank", title: "The Reason" },
-    { artist: "Franz Ferdinand", title: "Take Me Out" },
-    { artist: "Keane", title: "Somewhere Only We Know" },
-  ],
-  2005: [
-    { artist: "Mariah Carey", title: "We Belong Together" },
-    { artist: "Gwen Stefani", title: "Hollaback Girl" },
-    { artist: "Green Day", title: "Boulevard of Broken Dreams" },
-    { artist: "Gorillaz", title: "Feel Good Inc." },
-    { artist: "James Blunt", title: "You're Beautiful" },
-  ],
-  2006: [
-    { artist: "Daniel Powter", title: "Bad Day" },
-    { artist: "Gnarls Barkley", title: "Crazy" },
-    { artist: "Shakira", title: "Hips Don't Lie" },
-    { artist: "Justin Timberlake", title: "SexyBack" },
-    { artist: "Snow Patrol", title: "Chasing Cars" },
-  ],
-  2007: [
-    { artist: "Rihanna", title: "Umbrella" },
-    { artist: "Beyoncé", title: "Irreplaceable" },
-    { artist: "Plain White T's", title: "Hey There Delilah" },
-    { artist: "Amy Winehouse", title: "Rehab" },
-    { artist: "Mika", title: "Grace Kelly" },
-  ],
-  2008: [
-    { artist: "Flo Rida", title: "Low" },
-    { artist: "Leona Lewis", title: "Bleeding Love" },
-    { artist: "Katy Perry", title: "I Kissed a Girl" },
-    { artist: "Kings of Leon", title: "Sex on Fire" },
-    { artist: "MGMT", title: "Kids" },
-  ],
-  2009: [
-    { artist: "Black Eyed Peas", title: "Boom Boom Pow" },
-    { artist: "Lady Gaga", title: "Poker Face" },
-    { artist: "Kings of Leon", title: "Use Somebody" },
-    { artist: "Black Eyed Peas", title: "I Gotta Feeling" },
-    { artist: "Jay-Z", title: "Empire State of Mind" },
-  ],
-  2010: [
-    { artist: "Ke$ha", title: "TiK ToK" },
-    { artist: "Eminem", title: "Love the Way You Lie" },
-    { artist: "Cee Lo Green", title: "Forget You" },
-    { artist: "Bruno Mars", title: "Just the Way You Are" },
-    { artist: "Rihanna", title: "Only Girl (In the World)" },
-  ],
-  2011: [
-    { artist: "Adele", title: "Rolling in the Deep" },
-    { artist: "Adele", title: "Someone Like You" },
-    { artist: "LMFAO", title: "Party Rock Anthem" },
-    { artist: "Foster the People", title: "Pumped Up Kicks" },
-    { artist: "Gotye", title: "Somebody That I Used to Know" },
-  ],
-  2012: [
-    { artist: "Gotye", title: "Somebody That I Used to Know" },
-    { artist: "Carly Rae Jepsen", title: "Call Me Maybe" },
-    { artist: "PSY", title: "Gangnam Style" },
-    { artist: "fun.", title: "We Are Young" },
-    { artist: "Ellie Goulding", title: "Lights" },
-  ],
-  2013: [
-    { artist: "Robin Thicke", title: "Blurred Lines" },
-    { artist: "Daft Punk", title: "Get Lucky" },
-    { artist: "Lorde", title: "Royals" },
-    { artist: "Avicii", title: "Wake Me Up" },
-    { artist: "Imagine Dragons", title: "Radioactive" },
-  ],
-  2014: [
-    { artist: "Pharrell Williams", title: "Happy" },
-    { artist: "John Legend", title: "All of Me" },
-    { artist: "Meghan Trainor", title: "All About That Bass" },
-    { artist: "Sam Smith", title: "Stay with Me" },
-    { artist: "Clean Bandit", title: "Rather Be" },
-  ],
-  2015: [
-    { artist: "Mark Ronson", title: "Uptown Funk" },
-    { artist: "Adele", title: "Hello" },
-    { artist: "Wiz Khalifa", title: "See You Again" },
-    { artist: "The Weeknd", title: "Can't Feel My Face" },
-    { artist: "Hozier", title: "Take Me to Church" },
-  ],
-  2016: [
-    { artist: "Justin Bieber", title: "Love Yourself" },
-    { artist: "Drake", title: "One Dance" },
-    { artist: "The Chainsmokers", title: "Closer" },
-    { artist: "Sia", title: "Cheap Thrills" },
-    { artist: "Lukas Graham", title: "7 Years" },
-  ],
-  2017: [
-    { artist: "Luis Fonsi", title: "Despacito" },
-    { artist: "Ed Sheeran", title: "Shape of You" },
-    { artist: "Bruno Mars", title: "That's What I Like" },
-    { artist: "Kendrick Lamar", title: "HUMBLE." },
-    { artist: "Portugal. The Man", title: "Feel It Still" },
-  ],
-  2018: [
-    { artist: "Drake", title: "God's Plan" },
-    { artist: "Childish Gambino", title: "This Is America" },
-    { artist: "Juice WRLD", title: "Lucid Dreams" },
-    { artist: "Post Malone", title: "Better Now" },
-    { artist: "Ariana Grande", title: "No Tears Left to Cry" },
-  ],
-  2019: [
-    { artist: "Lil Nas X", title: "Old Town Road" },
-    { artist: "Billie Eilish", title: "Bad Guy" },
-    { artist: "Lewis Capaldi", title: "Someone You Loved" },
-    { artist: "Lizzo", title: "Truth Hurts" },
-    { artist: "Shawn Mendes", title: "Señorita" },
-  ],
-  2020: [
-    { artist: "The Weeknd", title: "Blinding Lights" },
-    { artist: "Dua Lipa", title: "Don't Start Now" },
-    { artist: "Roddy Ricch", title: "The Box" },
-    { artist: "Tones and I", title: "Dance Monkey" },
-    { artist: "SAINt JHN", title: "Roses" },
-  ],
-  2021: [
-    { artist: "Olivia Rodrigo", title: "drivers license" },
-    { artist: "Olivia Rodrigo", title: "good 4 u" },
-    { artist: "Lil Nas X", title: "Montero (Call Me By Your Name)" },
-    { artist: "Dua Lipa", title: "Levitating" },
-    { artist: "The Kid LAROI", title: "Stay" },
-  ],
-  2022: [
-    { artist: "Harry Styles", title: "As It Was" },
-    { artist: "Kate Bush", title: "Running Up That Hill" },
-    { artist: "Lizzo", title: "About Damn Time" },
-    { artist: "Glass Animals", title: "Heat Waves" },
-    { artist: "Steve Lacy", title: "Bad Habit" },
-  ],
-  2023: [
-    { artist: "Miley Cyrus", title: "Flowers" },
-    { artist: "SZA", title: "Kill Bill" },
-    { artist: "Doja Cat", title: "Paint The Town Red" },
-    { artist: "Rema", title: "Calm Down" },
-    { artist: "Taylor Swift", title: "Anti-Hero" },
-  ],
-  2024: [
-    { artist: "Sabrina Carpenter", title: "Espresso" },
-    { artist: "Benson Boone", title: "Beautiful Things" },
-    { artist: "Chappell Roan", title: "Good Luck, Babe!" },
-    { artist: "Tommy Richman", title: "Million Dollar Baby" },
-    { artist: "Hozier", title: "Too Sweet" },
-  ],
-  2025: [
-    { artist: "Lady Gaga", title: "Die With a Smile" },
-    { artist: "Kendrick Lamar", title: "Not Like Us" },
-    { artist: "Rosé & Bruno Mars", title: "APT." },
-    { artist: "Sabrina Carpenter", title: "Please Please Please" },
-    { artist: "Teddy Swims", title: "Lose Control" },
-  ],
-};
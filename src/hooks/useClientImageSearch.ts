@@ -1,26 +1,27 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
-import { searchSingleImage, ImageResult, SearchTraceEntry } from '@/lib/api/wikiImageSearch';
-import { searchSingleImageTol } from '@/lib/api/tolImageSearch';
+import {
+  createTimelineImageDedup,
+  imageSearchRequestFor,
+  recordSearchTrace,
+  searchDistinctImage,
+  searchImage,
+  toSearchTraceRecord,
+  DistinctImageResult,
+  ImageCandidate,
+  SearchTraceEntry,
+} from '@/lib/imageSearch';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { TimelineEvent } from '@/types/timeline';
 
-// Type for the search function signature
-type SearchFunction = (
-  eventId: string,
-  query: string,
-  year: number,
-  queryEn?: string,
-  isCelebrityOrMusic?: boolean,
-  isMovie?: boolean,
-  category?: string,
-  visualSubjectType?: string,
-  isMusic?: boolean,
-  spotifySearchQuery?: string,
-  isTV?: boolean
-) => Promise<ImageResult>;
-
 interface UseClientImageSearchOptions {
   maxConcurrent?: number;
-  onImageFound?: (eventId: string, imageUrl: string, source: string | null, searchTrace?: SearchTraceEntry[]) => void;
+  onImageFound?: (
+    eventId: string,
+    imageUrl: string,
+    source: string | null,
+    searchTrace?: SearchTraceEntry[],
+    candidates?: ImageCandidate[],
+  ) => void;
 }
 
 // Check if this is the "Welcome to the world" / birth announcement event
@@ -39,10 +40,15 @@ const isWelcomeEvent = (event: TimelineEvent): boolean => {
 
 /**
  * Hook for client-side image searching with concurrency control.
- * Uses a queue system with configurable parallel workers.
+ * Uses a queue system with configurable parallel workers. Events never get
+ * the same picture as another event in the timeline: a near-duplicate falls
+ * back to the search's next candidate, and when every candidate is taken the
+ * search runs again without them. Every search leaves an anonymized
+ * trace for the search quality dashboard.
  */
 export function useClientImageSearch(options: UseClientImageSearchOptions = {}) {
   const { maxConcurrent = 3, onImageFound } = options;
+  const { language } = useLanguage();
   
   const [isSearching, setIsSearching] = useState(false);
   const [searchedCount, setSearchedCount] = useState(0);
@@ -52,24 +58,23 @@ export function useClientImageSearch(options: UseClientImageSearchOptions = {})
   const activeWorkersRef = useRef(0);
   const processedIdsRef = useRef<Set<string>>(new Set());
   const isProcessingRef = useRef(false);
+  const dedupRef = useRef(createTimelineImageDedup());
   
   // Use ref to always have the latest callback without recreating processQueue
   const onImageFoundRef = useRef(onImageFound);
   useEffect(() => {
     onImageFoundRef.current = onImageFound;
   }, [onImageFound]);
+  const languageRef = useRef(language);
+  useEffect(() => {
+    languageRef.current = language;
+  }, [language]);
   
   const processQueue = useCallback(async () => {
     if (isProcessingRef.current) return;
     isProcessingRef.current = true;
     setIsSearching(true);
     
-    // Determine which search function to use based on sessionStorage setting
-    const imageSearchMode = sessionStorage.getItem('imageSearchMode') || 'tol';
-    const searchFn: SearchFunction = imageSearchMode === 'tol' ? searchSingleImageTol : searchSingleImage;
-    
-    console.log(`[Image Search] Using ${imageSearchMode === 'tol' ? 'Tol/DDG' : 'Legacy'} search mode`);
-    
     while (queueRef.current.length > 0 || activeWorkersRef.current > 0) {
       // Start new workers if we have capacity and items in queue
       while (activeWorkersRef.current < maxConcurrent && queueRef.current.length > 0) {
@@ -82,44 +87,28 @@ export function useClientImageSearch(options: UseClientImageSearchOptions = {})
         
         activeWorkersRef.current++;
         
-        // Start search without awaiting (runs in parallel)
-        // Use English query for better international results
-        // Pass isCelebrityBirthday, isMovie, and music flags for specialized search
-        const isMusic = event.category === 'music' || !!event.spotifySearchQuery;
-        
-        // For movies: use the movieSearchQuery as image search query for consistency
-        // This ensures we search for the same movie we're looking up on YouTube
-        const effectiveSearchQuery = event.movieSearchQuery || event.imageSearchQuery;
-        const effectiveSearchQueryEn = event.movieSearchQuery || event.imageSearchQueryEn;
-        
-        searchFn(
-          event.id, 
-          effectiveSearchQuery, 
-          event.year, 
-          effectiveSearchQueryEn, 
-          (event.isCelebrityBirthday || event.category === 'music' || event.category === 'celebrity'), 
-          event.isMovie, 
-          event.category, 
-          event.visualSubjectType,
-          isMusic,
-          event.spotifySearchQuery,
-          event.isTV
-        )
-          .then((result: ImageResult) => {
+        // Start search without awaiting (runs in parallel); the routing table picks the sources
+        const startedAt = Date.now();
+        // The search skips blacklisted URLs; the dedup skips images another
+        // event already shows and blacklisted ones under another URL
+        searchDistinctImage(searchImage, dedupRef.current, imageSearchRequestFor(event))
+          .then(({ result, candidate, candidates }: DistinctImageResult) => {
             setSearchedCount(c => c + 1);
+            recordSearchTrace(
+              toSearchTraceRecord(event, result, candidate, { language: languageRef.current, durationMs: Date.now() - startedAt }),
+            );
             
-            // The search function now internally skips blacklisted images,
-            // so we can directly pass the result
             if (onImageFoundRef.current) {
               onImageFoundRef.current(
                 result.eventId, 
-                result.imageUrl || '', 
-                result.source, 
-                result.searchTrace
+                candidate?.imageUrl || '', 
+                candidate?.source ?? null, 
+                result.searchTrace,
+                candidates
               );
             }
             
-            if (result.imageUrl) {
+            if (candidate) {
               setFoundCount(c => c + 1);
             }
           })
@@ -161,6 +150,7 @@ export function useClientImageSearch(options: UseClientImageSearchOptions = {})
   const reset = useCallback(() => {
     queueRef.current = [];
     processedIdsRef.current.clear();
+    dedupRef.current.reset();
     setSearchedCount(0);
     setFoundCount(0);
   }, []);
@@ -169,6 +159,7 @@ export function useClientImageSearch(options: UseClientImageSearchOptions = {})
   const forceResearch = useCallback((event: TimelineEvent) => {
     // Remove from processed so it can be searched again
     processedIdsRef.current.delete(event.id);
+    dedupRef.current.release(event.id);
     // Add back to queue
     if (event.imageSearchQuery) {
       queueRef.current.push(event);
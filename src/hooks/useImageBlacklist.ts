@@ -1,30 +1,36 @@
 import { useCallback, useEffect, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { computeImageHash } from '@/lib/imageHash';
 
 const LOCAL_BLACKLIST_KEY = 'image_blacklist';
 
 // In-memory cache of blacklisted URLs (populated from DB on first load)
 let globalBlacklistCache: string[] = [];
+// Perceptual hashes of the same images, to block them under any other URL or size
+let globalBlacklistHashes: string[] = [];
 let cacheLoaded = false;
 
 /**
- * Fetch all blacklisted image URLs from the database
+ * Fetch all blacklisted image URLs, and the hashes of those that have one, from the database
  */
-export async function fetchBlacklistFromDB(): Promise<string[]> {
+export async function fetchBlacklistFromDB(): Promise<{ urls: string[]; hashes: string[] }> {
   try {
     const { data, error } = await supabase
       .from('image_blacklist')
-      .select('image_url');
+      .select('image_url, image_hash');
     
     if (error) {
       console.warn('Failed to fetch blacklist from DB:', error);
-      return [];
+      return { urls: [], hashes: [] };
     }
     
-    return data?.map(row => row.image_url) || [];
+    return {
+      urls: data?.map(row => row.image_url) || [],
+      hashes: data?.flatMap(row => row.image_hash ?? []) || [],
+    };
   } catch (e) {
     console.warn('Failed to fetch blacklist:', e);
-    return [];
+    return { urls: [], hashes: [] };
   }
 }
 
@@ -45,6 +51,13 @@ export function getBlacklistedImages(): string[] {
   }
 }
 
+/**
+ * Get the perceptual hashes of all blacklisted images (empty until the cache is loaded)
+ */
+export function getBlacklistedImageHashes(): string[] {
+  return globalBlacklistHashes;
+}
+
 /**
  * Call the DDG Image Search API's blacklist endpoint to permanently blacklist
  * the URL on their server and flush their cache.
@@ -86,7 +99,8 @@ async function syncToDDGBlacklist(imageUrl: string): Promise<boolean> {
 }
 
 /**
- * Add an image URL to the blacklist (both DB and local cache)
+ * Add an image URL to the blacklist (both DB and local cache), with its
+ * perceptual hash when the image can be loaded.
  * Also syncs to DDG API and purges matching entries from image_search_cache
  */
 export async function addToBlacklist(
@@ -102,10 +116,12 @@ export async function addToBlacklist(
     }
 
     // 2. Add to our database blacklist
+    const imageHash = await computeImageHash(imageUrl);
     const { error } = await supabase
       .from('image_blacklist')
       .insert({ 
         image_url: imageUrl,
+        image_hash: imageHash,
         event_title: eventTitle,
         search_query: searchQuery
       });
@@ -133,6 +149,9 @@ export async function addToBlacklist(
     if (!globalBlacklistCache.includes(imageUrl)) {
       globalBlacklistCache.push(imageUrl);
     }
+    if (imageHash && !globalBlacklistHashes.includes(imageHash)) {
+      globalBlacklistHashes.push(imageHash);
+    }
     
     // 5. Also add to localStorage as backup
     try {
@@ -165,7 +184,8 @@ export function isBlacklisted(imageUrl: string): boolean {
 export async function initializeBlacklistCache(): Promise<void> {
   if (cacheLoaded) return;
   
-  const dbBlacklist = await fetchBlacklistFromDB();
+  const { urls: dbBlacklist, hashes } = await fetchBlacklistFromDB();
+  globalBlacklistHashes = [...new Set([...hashes, ...globalBlacklistHashes])];
   
   // Merge with any local entries (in case DB was down when items were added)
   try {
@@ -0,0 +1,5 @@
+import { useAuth } from '@/contexts/AuthContext';
+
+export function useIsAdmin(): boolean {
+  return useAuth().isAdmin;
+}
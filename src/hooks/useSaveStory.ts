@@ -2,6 +2,7 @@ import { useState, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { VideoEvent } from '@/remotion/types';
 import { useLanguage } from '@/contexts/LanguageContext';
+import { prepareEventsForPublicShare } from '@/lib/imageCredits';
 
 export interface StoryContent {
   events: VideoEvent[];
@@ -11,15 +12,19 @@ export interface StoryContent {
 }
 
 export interface StorySettings {
-  variant: 'slideshow' | 'scrapbook';
+  variant: 'slideshow' | 'scrapbook' | 'vertical';
   fps: number;
   enableVhsEffect: boolean;
+  /** Burned-in narration captions */
+  showCaptions?: boolean;
   retroIntensity: number;
   voiceProvider: 'google' | 'elevenlabs';
   // For music video mode
   isMusicVideo: boolean;
   backgroundMusicUrl?: string;
   backgroundMusicDuration?: number;
+  /** Measured tempo of the song; the vertical short cuts on its beats */
+  backgroundMusicBpm?: number;
   // Intro
   introAudioUrl?: string;
   introDurationFrames?: number;
@@ -96,8 +101,9 @@ export const useSaveStory = (): UseSaveStoryReturn => {
     try {
       const { events, storyTitle, storyIntroduction, summary } = content;
       
-      // Clone events so we can modify URLs
-      const processedEvents: VideoEvent[] = JSON.parse(JSON.stringify(events));
+      // Clone events so we can modify URLs; saved stories are public, so
+      // only own photos and images licensed for republishing go along
+      const processedEvents: VideoEvent[] = prepareEventsForPublicShare(JSON.parse(JSON.stringify(events)));
       
       // Count how many audio files we need to upload
       let audioFilesToUpload = 0;
@@ -120,6 +126,10 @@ export const useSaveStory = (): UseSaveStoryReturn => {
         if (event.soundEffectAudioUrl && (event.soundEffectAudioUrl.startsWith('data:') || event.soundEffectAudioUrl.startsWith('blob:'))) {
           audioFilesToUpload++;
         }
+        // Photos the user uploaded in the timeline editor
+        if (event.imageUrl && (event.imageUrl.startsWith('data:') || event.imageUrl.startsWith('blob:'))) {
+          audioFilesToUpload++;
+        }
       }
 
       let uploadedCount = 0;
@@ -131,11 +141,11 @@ export const useSaveStory = (): UseSaveStoryReturn => {
       };
 
       // Upload helper function
-      const uploadAudio = async (url: string, prefix: string): Promise<string | null> => {
+      const uploadAudio = async (url: string, prefix: string, extension?: string): Promise<string | null> => {
         const blob = await urlToBlob(url);
         if (!blob) return url; // Already a permanent URL
         
-        const filename = generateFilename(prefix);
+        const filename = generateFilename(prefix, extension);
         const { data, error } = await supabase.storage
           .from('story-assets')
           .upload(filename, blob, {
@@ -193,6 +203,16 @@ export const useSaveStory = (): UseSaveStoryReturn => {
             processedEvents[i] = { ...processedEvents[i], soundEffectAudioUrl: permanentUrl };
           }
         }
+
+        // Upload user photo
+        const imageUrl = processedEvents[i].imageUrl;
+        if (imageUrl && (imageUrl.startsWith('data:') || imageUrl.startsWith('blob:'))) {
+          setProgressMessage(`Foto uploaden (${i + 1}/${processedEvents.length})...`);
+          const permanentUrl = await uploadAudio(imageUrl, `photo_${event.id}`, 'jpg');
+          if (permanentUrl) {
+            processedEvents[i] = { ...processedEvents[i], imageUrl: permanentUrl };
+          }
+        }
       }
 
       setProgress(85);
@@ -0,0 +1,149 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export type RenderFormat = 'mp4' | 'webm';
+export type RenderResolution = '540p' | '720p' | '1080p';
+export type RenderStatus = 'idle' | 'queued' | 'rendering' | 'done' | 'error';
+
+interface UseVideoRenderReturn {
+  startRender: (storyId: string, format: RenderFormat, resolution: RenderResolution) => Promise<void>;
+  reset: () => void;
+  status: RenderStatus;
+  /** 0-1, as reported by the render service */
+  progress: number;
+  outputUrl: string | null;
+  /** WebVTT/SRT sidecars - only for narrated stories */
+  subtitleUrls: { vtt: string | null; srt: string | null };
+  error: string | null;
+}
+
+const POLL_INTERVAL_MS = 2000;
+// Give up when the row hasn't changed for this long: no worker is picking the
+// job up, or the worker died and the job wasn't requeued (see claim_video_render)
+const STALL_TIMEOUT_MS = 20 * 60 * 1000;
+
+const NO_SUBTITLES = { vtt: null, srt: null };
+
+// Unique violation: another tab queued the same render in between
+const DUPLICATE_RENDER = '23505';
+
+const findRender = (storyId: string, format: RenderFormat, resolution: RenderResolution) =>
+  supabase
+    .from('video_renders')
+    .select('id')
+    .eq('story_id', storyId)
+    .eq('format', format)
+    .eq('resolution', resolution)
+    .neq('status', 'error')
+    .maybeSingle();
+
+/**
+ * The story's render in this format and resolution: the queued, running or
+ * finished one when there is one (the database allows only one), else a new job.
+ */
+const queueRender = async (storyId: string, format: RenderFormat, resolution: RenderResolution) => {
+  const existing = await findRender(storyId, format, resolution);
+  if (existing.error || existing.data) return existing;
+
+  const queued = await supabase
+    .from('video_renders')
+    .insert({ story_id: storyId, format, resolution })
+    .select('id')
+    .single();
+  return queued.error?.code === DUPLICATE_RENDER ? findRender(storyId, format, resolution) : queued;
+};
+
+/**
+ * Queues a server-side render of a saved story (see render-service/) and
+ * polls its video_renders row until the file is ready. A story is rendered
+ * once per format and resolution; asking again picks up that render.
+ */
+export const useVideoRender = (): UseVideoRenderReturn => {
+  const [status, setStatus] = useState<RenderStatus>('idle');
+  const [progress, setProgress] = useState(0);
+  const [outputUrl, setOutputUrl] = useState<string | null>(null);
+  const [subtitleUrls, setSubtitleUrls] = useState<UseVideoRenderReturn['subtitleUrls']>(NO_SUBTITLES);
+  const [error, setError] = useState<string | null>(null);
+  const pollRef = useRef<ReturnType<typeof setInterval> | null>(null);
+
+  const stopPolling = useCallback(() => {
+    if (pollRef.current) {
+      clearInterval(pollRef.current);
+      pollRef.current = null;
+    }
+  }, []);
+
+  useEffect(() => stopPolling, [stopPolling]);
+
+  const reset = useCallback(() => {
+    stopPolling();
+    setStatus('idle');
+    setProgress(0);
+    setOutputUrl(null);
+    setSubtitleUrls(NO_SUBTITLES);
+    setError(null);
+  }, [stopPolling]);
+
+  const startRender = useCallback(async (
+    storyId: string,
+    format: RenderFormat,
+    resolution: RenderResolution
+  ) => {
+    stopPolling();
+    setStatus('queued');
+    setProgress(0);
+    setOutputUrl(null);
+    setSubtitleUrls(NO_SUBTITLES);
+    setError(null);
+
+    const { data, error: insertError } = await queueRender(storyId, format, resolution);
+
+    if (insertError || !data) {
+      console.error('Failed to queue render:', insertError);
+      setStatus('error');
+      setError(insertError?.message || 'Failed to queue render');
+      return;
+    }
+
+    let lastSeen = '';
+    let lastChangeAt = Date.now();
+
+    pollRef.current = setInterval(async () => {
+      const { data: row, error: pollError } = await supabase
+        .from('video_renders')
+        .select('status, progress, output_url, subtitles_vtt_url, subtitles_srt_url, error')
+        .eq('id', data.id)
+        .single();
+
+      const seen = row ? `${row.status}:${row.progress}` : lastSeen;
+      if (seen !== lastSeen) {
+        lastSeen = seen;
+        lastChangeAt = Date.now();
+      } else if (Date.now() - lastChangeAt > STALL_TIMEOUT_MS) {
+        stopPolling();
+        setStatus('error');
+        setError('The render service is not responding, please try again later');
+        return;
+      }
+
+      if (pollError || !row) {
+        console.error('Failed to poll render:', pollError);
+        return;
+      }
+
+      setStatus(row.status as RenderStatus);
+      setProgress(row.progress);
+
+      if (row.status === 'done') {
+        setOutputUrl(row.output_url);
+        setSubtitleUrls({ vtt: row.subtitles_vtt_url, srt: row.subtitles_srt_url });
+        stopPolling();
+      } else if (row.status === 'error') {
+        setError(row.error);
+        stopPolling();
+      }
+    }, POLL_INTERVAL_MS);
+  }, [stopPolling]);
+
+  return { startRender, reset, status, progress, outputUrl, subtitleUrls, error };
+};
@@ -14,11 +14,68 @@ export type Database = {
   }
   public: {
     Tables: {
+      gazetteer_names: {
+        Row: {
+          geoname_id: number
+          name_key: string
+        }
+        Insert: {
+          geoname_id: number
+          name_key: string
+        }
+        Update: {
+          geoname_id?: number
+          name_key?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gazetteer_names_geoname_id_fkey"
+            columns: ["geoname_id"]
+            isOneToOne: false
+            referencedRelation: "gazetteer_places"
+            referencedColumns: ["geoname_id"]
+          },
+        ]
+      }
+      gazetteer_places: {
+        Row: {
+          admin1_code: string | null
+          admin1_name: string | null
+          country_code: string
+          geoname_id: number
+          latitude: number
+          longitude: number
+          name: string
+          population: number
+        }
+        Insert: {
+          admin1_code?: string | null
+          admin1_name?: string | null
+          country_code: string
+          geoname_id: number
+          latitude: number
+          longitude: number
+          name: string
+          population?: number
+        }
+        Update: {
+          admin1_code?: string | null
+          admin1_name?: string | null
+          country_code?: string
+          geoname_id?: number
+          latitude?: number
+          longitude?: number
+          name?: string
+          population?: number
+        }
+        Relationships: []
+      }
       image_blacklist: {
         Row: {
           created_at: string
           event_title: string | null
           id: string
+          image_hash: string | null
           image_url: string
           search_query: string | null
         }
@@ -26,6 +83,7 @@ export type Database = {
           created_at?: string
           event_title?: string | null
           id?: string
+          image_hash?: string | null
           image_url: string
           search_query?: string | null
         }
@@ -33,11 +91,33 @@ export type Database = {
           created_at?: string
           event_title?: string | null
           id?: string
+          image_hash?: string | null
           image_url?: string
           search_query?: string | null
         }
         Relationships: []
       }
+      image_choices: {
+        Row: {
+          created_at: string
+          image_url: string
+          query: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          image_url: string
+          query: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          image_url?: string
+          query?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       image_search_cache: {
         Row: {
           created_at: string
@@ -65,12 +145,52 @@ export type Database = {
         }
         Relationships: []
       }
+      image_search_traces: {
+        Row: {
+          category: string | null
+          created_at: string
+          duration_ms: number | null
+          entries: Json
+          id: string
+          image_url: string | null
+          language: string | null
+          query: string | null
+          visual_subject_type: string | null
+          winner: string | null
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          duration_ms?: number | null
+          entries?: Json
+          id?: string
+          image_url?: string | null
+          language?: string | null
+          query?: string | null
+          visual_subject_type?: string | null
+          winner?: string | null
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          duration_ms?: number | null
+          entries?: Json
+          id?: string
+          image_url?: string | null
+          language?: string | null
+          query?: string | null
+          visual_subject_type?: string | null
+          winner?: string | null
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
           created_at: string
           display_name: string | null
           id: string
+          is_admin: boolean
           updated_at: string
         }
         Insert: {
@@ -78,6 +198,7 @@ export type Database = {
           created_at?: string
           display_name?: string | null
           id: string
+          is_admin?: boolean
           updated_at?: string
         }
         Update: {
@@ -85,6 +206,7 @@ export type Database = {
           created_at?: string
           display_name?: string | null
           id?: string
+          is_admin?: boolean
           updated_at?: string
         }
         Relationships: []
@@ -215,6 +337,62 @@ export type Database = {
         }
         Relationships: []
       }
+      video_renders: {
+        Row: {
+          created_at: string
+          error: string | null
+          format: string
+          id: string
+          output_path: string | null
+          output_url: string | null
+          progress: number
+          resolution: string
+          status: string
+          story_id: string
+          subtitles_srt_url: string | null
+          subtitles_vtt_url: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          format: string
+          id?: string
+          output_path?: string | null
+          output_url?: string | null
+          progress?: number
+          resolution: string
+          status?: string
+          story_id: string
+          subtitles_srt_url?: string | null
+          subtitles_vtt_url?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          format?: string
+          id?: string
+          output_path?: string | null
+          output_url?: string | null
+          progress?: number
+          resolution?: string
+          status?: string
+          story_id?: string
+          subtitles_srt_url?: string | null
+          subtitles_vtt_url?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "video_renders_story_id_fkey"
+            columns: ["story_id"]
+            isOneToOne: false
+            referencedRelation: "saved_stories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       youtube_search_cache: {
         Row: {
           cached_at: string
@@ -247,10 +425,74 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      claim_video_render: {
+        Args: never
+        Returns: {
+          created_at: string
+          error: string | null
+          format: string
+          id: string
+          output_path: string | null
+          output_url: string | null
+          progress: number
+          resolution: string
+          status: string
+          story_id: string
+          subtitles_srt_url: string | null
+          subtitles_vtt_url: string | null
+          updated_at: string
+        }[]
+      }
+      get_image_choices: {
+        Args: { p_query: string }
+        Returns: {
+          image_url: string
+          pickers: number
+        }[]
+      }
+      get_image_search_quality: {
+        Args: { p_days?: number }
+        Returns: Json
+      }
+      image_search_quality: {
+        Args: { p_days?: number }
+        Returns: Json
+      }
       increment_story_view_count: {
         Args: { p_story_id: string }
         Returns: undefined
       }
+      is_admin: { Args: never; Returns: boolean }
+      record_image_choice: {
+        Args: { p_image_url: string; p_query: string }
+        Returns: undefined
+      }
+      record_image_search_trace: {
+        Args: {
+          p_category?: string
+          p_duration_ms: number
+          p_entries: Json
+          p_image_url?: string
+          p_language: string
+          p_query?: string
+          p_visual_subject_type?: string
+          p_winner?: string
+        }
+        Returns: undefined
+      }
+      search_gazetteer: {
+        Args: { p_key: string; p_limit?: number }
+        Returns: {
+          admin1_code: string | null
+          admin1_name: string | null
+          country_code: string
+          geoname_id: number
+          latitude: number
+          longitude: number
+          name: string
+          population: number
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
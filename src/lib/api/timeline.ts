@@ -17,36 +17,310 @@ export interface StreamCallbacks {
   onError: (error: string) => void;
 }
 
+/** Where a dropped stream left off: last sequence number and what was already shown. */
+export interface StreamCheckpoint {
+  lastSeq: number;
+  deliveredTitles: string[];
+}
+
+const STREAM_STALL_TIMEOUT_MS = 120_000;
+const MAX_RESUME_ATTEMPTS = 3;
+const RESUME_BASE_DELAY_MS = 1000;
+
+type AttemptOutcome =
+  | { kind: 'complete' }
+  | { kind: 'dropped'; reason: 'ended' | 'stalled' | 'network'; error?: unknown }
+  | { kind: 'failed'; message: string };
+
 /**
  * Streams timeline events using NDJSON format for fast first-event display.
  * Each event is sent as a complete JSON line, parsed immediately on arrival.
+ *
+ * Every event line carries a sequence number. When the connection drops (stall
+ * timeout, network error, or the stream ending without a `complete` message)
+ * the client reconnects with a checkpoint so the edge function continues the
+ * same story instead of leaving the user with a half-timeline.
  */
 export const generateTimelineStreaming = async (
   formData: FormData,
   language: string,
   callbacks: StreamCallbacks,
-  options?: { maxEvents?: number }
+  options?: { maxEvents?: number; maxResumeAttempts?: number; resumeBaseDelayMs?: number; stallTimeoutMs?: number }
 ): Promise<void> => {
-  const controller = new AbortController();
-  const STREAM_STALL_TIMEOUT_MS = 120_000;
-  let stallTimer: number | undefined;
-  
-  const resetStallTimer = () => {
-    if (stallTimer) window.clearTimeout(stallTimer);
-    stallTimer = window.setTimeout(() => controller.abort(), STREAM_STALL_TIMEOUT_MS);
-  };
-  resetStallTimer();
+  const stallTimeout = options?.stallTimeoutMs ?? STREAM_STALL_TIMEOUT_MS;
+  const maxResumeAttempts = options?.maxResumeAttempts ?? MAX_RESUME_ATTEMPTS;
+  const resumeBaseDelay = options?.resumeBaseDelayMs ?? RESUME_BASE_DELAY_MS;
 
   const collectedEvents: TimelineEvent[] = [];
+  const seenTitles = new Set<string>();
+  const seenIds = new Set<string>();
+  let lastSeq = 0;
   let collectedSummary = '';
   let collectedBirthdays: FamousBirthday[] = [];
   let collectedStoryTitle = '';
   let collectedStoryIntroduction = '';
-  let receivedComplete = false;
+
+  const titleKey = (title?: string) => (title || '').toLowerCase().replace(/\s+/g, ' ').trim();
+
+  // Returns false when the event was already delivered on an earlier connection.
+  const acceptEvent = (event: TimelineEvent, seq?: number): boolean => {
+    if (typeof seq === 'number') {
+      if (seq <= lastSeq) return false;
+      lastSeq = seq;
+    } else {
+      lastSeq++;
+    }
+
+    const key = titleKey(event.title);
+    if (key && seenTitles.has(key)) return false;
+    if (key) seenTitles.add(key);
+
+    // The model restarts its evt_N numbering on resume; keep ids unique.
+    if (seenIds.has(event.id)) {
+      event = { ...event, id: `${event.id}_s${lastSeq}` };
+    }
+    seenIds.add(event.id);
+
+    collectedEvents.push(event);
+    callbacks.onEvent(event);
+    console.log(`Received event ${collectedEvents.length} (seq ${lastSeq}): ${event.title?.substring(0, 30)}`);
+    return true;
+  };
+
+  const runAttempt = async (checkpoint?: StreamCheckpoint): Promise<AttemptOutcome> => {
+    const controller = new AbortController();
+    let stallTimer: number | undefined;
+    let stalled = false;
+
+    const resetStallTimer = () => {
+      if (stallTimer) window.clearTimeout(stallTimer);
+      stallTimer = window.setTimeout(() => {
+        stalled = true;
+        controller.abort();
+      }, stallTimeout);
+    };
+    const clearStallTimer = () => {
+      if (stallTimer) window.clearTimeout(stallTimer);
+    };
+    resetStallTimer();
+
+    try {
+      console.log(checkpoint
+        ? `Resuming NDJSON stream after event ${checkpoint.lastSeq}...`
+        : 'Starting NDJSON streaming timeline request...');
+
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/generate-timeline`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+          'apikey': SUPABASE_ANON_KEY,
+        },
+        signal: controller.signal,
+        body: JSON.stringify({
+          type: formData.type,
+          birthDate: formData.birthDate,
+          yearRange: formData.yearRange,
+          optionalData: formData.optionalData,
+          language,
+          stream: true,
+          maxEvents: options?.maxEvents,
+          resumeFrom: checkpoint
+            ? { afterSeq: checkpoint.lastSeq, deliveredTitles: checkpoint.deliveredTitles }
+            : undefined,
+        })
+      });
+
+      resetStallTimer();
+
+      if (!response.ok) {
+        clearStallTimer();
+        const errorText = await response.text();
+        console.error('Edge function error:', response.status, errorText);
+
+        if (response.status === 429) {
+          return { kind: 'failed', message: getTranslationString('tooManyRequests', language as Language) };
+        }
+        if (response.status === 402) {
+          return { kind: 'failed', message: getTranslationString('creditsExhausted', language as Language) };
+        }
+
+        return { kind: 'failed', message: `${getTranslationString('serverError', language as Language)}: ${response.status}` };
+      }
+
+      const reader = response.body?.getReader();
+      if (!reader) {
+        clearStallTimer();
+        return { kind: 'failed', message: 'No response stream' };
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      // Simple SSE line parser - each "data: {...}" line is processed immediately
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        resetStallTimer();
+        buffer += decoder.decode(value, { stream: true });
+
+        // Split on newlines and process complete lines
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          if (!line.startsWith('data: ')) continue;
+          const data = line.slice(6).trim();
+          if (data === '[DONE]') continue;
+
+          try {
+            const parsed = JSON.parse(data);
+
+            switch (parsed.type) {
+              case 'event':
+                if (parsed.event) {
+                  acceptEvent(parsed.event, parsed.seq);
+                }
+                break;
+
+              case 'summary':
+                if (parsed.summary) {
+                  collectedSummary = parsed.summary;
+                  callbacks.onSummary(parsed.summary);
+                }
+                break;
+
+              case 'famousBirthdays':
+                if (Array.isArray(parsed.famousBirthdays)) {
+                  collectedBirthdays = parsed.famousBirthdays;
+                  callbacks.onFamousBirthdays(parsed.famousBirthdays);
+                }
+                break;
+
+              case 'storyTitle':
+                // Edge function sends: { type: "storyTitle", storyTitle: "..." }
+                if (parsed.storyTitle && !collectedStoryTitle) {
+                  collectedStoryTitle = parsed.storyTitle;
+                  callbacks.onStoryTitle?.(parsed.storyTitle);
+                  console.log('Received storyTitle:', parsed.storyTitle.substring(0, 50));
+                }
+                break;
+
+              case 'storyIntroduction':
+                // Edge function sends: { type: "storyIntroduction", storyIntroduction: "..." }
+                if (parsed.storyIntroduction && !collectedStoryIntroduction) {
+                  collectedStoryIntroduction = parsed.storyIntroduction;
+                  callbacks.onStoryIntroduction?.(parsed.storyIntroduction);
+                  console.log('Received storyIntroduction:', parsed.storyIntroduction.substring(0, 50));
+                }
+                break;
+
+              case 'complete':
+                clearStallTimer();
+                // Pick up anything the stream lines missed (the final message
+                // repeats this connection's events).
+                for (const event of parsed.data?.events ?? []) {
+                  if (!seenTitles.has(titleKey(event.title))) acceptEvent(event);
+                }
+                // A resumed connection only reports its own events; the full
+                // story is everything collected across connections.
+                callbacks.onComplete({
+                  events: [...collectedEvents],
+                  summary: parsed.data?.summary || collectedSummary,
+                  famousBirthdays: parsed.data?.famousBirthdays?.length ? parsed.data.famousBirthdays : collectedBirthdays,
+                  storyTitle: collectedStoryTitle || parsed.data?.storyTitle,
+                  storyIntroduction: collectedStoryIntroduction || parsed.data?.storyIntroduction,
+                });
+                return { kind: 'complete' };
+            }
+          } catch {
+            // Ignore malformed JSON lines
+          }
+        }
+      }
+
+      clearStallTimer();
+      return { kind: 'dropped', reason: 'ended' };
+    } catch (err) {
+      clearStallTimer();
+      console.error('Streaming error:', err);
+      return { kind: 'dropped', reason: stalled ? 'stalled' : 'network', error: err };
+    }
+  };
+
+  let checkpoint: StreamCheckpoint | undefined;
+  let resumeAttempts = 0;
+
+  while (true) {
+    const seqBefore = lastSeq;
+    const outcome = await runAttempt(checkpoint);
+
+    if (outcome.kind === 'complete') return;
+    if (outcome.kind === 'failed') {
+      callbacks.onError(outcome.message);
+      return;
+    }
+
+    // A reconnect that made progress earns a fresh set of attempts.
+    if (lastSeq > seqBefore) resumeAttempts = 0;
+
+    // Nothing delivered yet means there's no story to continue.
+    if (collectedEvents.length > 0 && resumeAttempts < maxResumeAttempts) {
+      resumeAttempts++;
+      checkpoint = {
+        lastSeq,
+        deliveredTitles: collectedEvents.map((e) => e.title),
+      };
+      console.log(`Stream dropped (${outcome.reason}), resume attempt ${resumeAttempts}/${maxResumeAttempts} after seq ${lastSeq}`);
+      const delay = resumeBaseDelay * Math.pow(2, resumeAttempts - 1);
+      await new Promise((r) => setTimeout(r, delay));
+      continue;
+    }
+
+    if (collectedEvents.length === 0) {
+      if (outcome.reason === 'ended') {
+        callbacks.onError(getTranslationString('connectionLost', language as Language));
+      } else {
+        const err = outcome.error;
+        callbacks.onError(
+          outcome.reason === 'stalled'
+            ? getTranslationString('loadingTooLong', language as Language)
+            : (err instanceof Error ? err.message : getTranslationString('unknownError', language as Language))
+        );
+      }
+      return;
+    }
+
+    // Fallback: resume attempts exhausted, use collected data
+    console.log(`Stream ended without complete message. Using ${collectedEvents.length} collected events.`);
+    callbacks.onComplete({
+      events: [...collectedEvents],
+      summary: collectedSummary || getTranslationString('defaultSummary', language as Language),
+      famousBirthdays: collectedBirthdays,
+      storyTitle: collectedStoryTitle,
+      storyIntroduction: collectedStoryIntroduction,
+    });
+    return;
+  }
+};
+
+/**
+ * Asks the model for one replacement event for the same year/category as
+ * `target`, skipping every title already on the timeline. Uses the same NDJSON
+ * stream as the full timeline and returns as soon as the event line arrives.
+ */
+export const regenerateTimelineEvent = async (
+  formData: FormData,
+  language: string,
+  target: TimelineEvent,
+  existingTitles: string[],
+  options?: { stallTimeoutMs?: number }
+): Promise<{ success: boolean; event?: TimelineEvent; error?: string }> => {
+  const controller = new AbortController();
+  const stallTimer = window.setTimeout(() => controller.abort(), options?.stallTimeoutMs ?? STREAM_STALL_TIMEOUT_MS);
 
   try {
-    console.log('Starting NDJSON streaming timeline request...');
-    
     const response = await fetch(`${SUPABASE_URL}/functions/v1/generate-timeline`, {
       method: 'POST',
       headers: {
@@ -62,144 +336,119 @@ export const generateTimelineStreaming = async (
         optionalData: formData.optionalData,
         language,
         stream: true,
-        maxEvents: options?.maxEvents
+        maxEvents: 1,
+        replaceEvent: {
+          title: target.title,
+          year: target.year,
+          month: target.month,
+          category: target.category,
+          excludeTitles: existingTitles,
+        },
       })
     });
 
-    resetStallTimer();
-
     if (!response.ok) {
-      if (stallTimer) window.clearTimeout(stallTimer);
       const errorText = await response.text();
       console.error('Edge function error:', response.status, errorText);
-      
+
       if (response.status === 429) {
-        callbacks.onError(getTranslationString('tooManyRequests', language as Language));
-        return;
+        return { success: false, error: getTranslationString('tooManyRequests', language as Language) };
       }
       if (response.status === 402) {
-        callbacks.onError(getTranslationString('creditsExhausted', language as Language));
-        return;
+        return { success: false, error: getTranslationString('creditsExhausted', language as Language) };
       }
-      
-      callbacks.onError(`${getTranslationString('serverError', language as Language)}: ${response.status}`);
-      return;
+      return { success: false, error: `${getTranslationString('serverError', language as Language)}: ${response.status}` };
     }
 
     const reader = response.body?.getReader();
-    if (!reader) {
-      if (stallTimer) window.clearTimeout(stallTimer);
-      callbacks.onError('No response stream');
-      return;
-    }
+    if (!reader) return { success: false, error: 'No response stream' };
 
     const decoder = new TextDecoder();
     let buffer = '';
 
-    // Simple SSE line parser - each "data: {...}" line is processed immediately
     while (true) {
       const { done, value } = await reader.read();
       if (done) break;
 
-      resetStallTimer();
       buffer += decoder.decode(value, { stream: true });
-      
-      // Split on newlines and process complete lines
       const lines = buffer.split('\n');
       buffer = lines.pop() || '';
-      
+
       for (const line of lines) {
         if (!line.startsWith('data: ')) continue;
         const data = line.slice(6).trim();
         if (data === '[DONE]') continue;
-        
+
+        let parsed;
         try {
-          const parsed = JSON.parse(data);
-          
-          switch (parsed.type) {
-            case 'event':
-              if (parsed.event) {
-                collectedEvents.push(parsed.event);
-                callbacks.onEvent(parsed.event);
-                console.log(`Received event ${collectedEvents.length}: ${parsed.event.title?.substring(0, 30)}`);
-              }
-              break;
-              
-            case 'summary':
-              if (parsed.summary) {
-                collectedSummary = parsed.summary;
-                callbacks.onSummary(parsed.summary);
-              }
-              break;
-              
-            case 'famousBirthdays':
-              if (Array.isArray(parsed.famousBirthdays)) {
-                collectedBirthdays = parsed.famousBirthdays;
-                callbacks.onFamousBirthdays(parsed.famousBirthdays);
-              }
-              break;
-
-            case 'storyTitle':
-              // Edge function sends: { type: "storyTitle", storyTitle: "..." }
-              if (parsed.storyTitle) {
-                collectedStoryTitle = parsed.storyTitle;
-                callbacks.onStoryTitle?.(parsed.storyTitle);
-                console.log('Received storyTitle:', parsed.storyTitle.substring(0, 50));
-              }
-              break;
-
-            case 'storyIntroduction':
-              // Edge function sends: { type: "storyIntroduction", storyIntroduction: "..." }
-              if (parsed.storyIntroduction) {
-                collectedStoryIntroduction = parsed.storyIntroduction;
-                callbacks.onStoryIntroduction?.(parsed.storyIntroduction);
-                console.log('Received storyIntroduction:', parsed.storyIntroduction.substring(0, 50));
-              }
-              break;
-              
-            case 'complete':
-              receivedComplete = true;
-              callbacks.onComplete({
-                ...parsed.data,
-                storyTitle: parsed.data?.storyTitle || collectedStoryTitle,
-                storyIntroduction: parsed.data?.storyIntroduction || collectedStoryIntroduction,
-              });
-              break;
-          }
+          parsed = JSON.parse(data);
         } catch {
-          // Ignore malformed JSON lines
+          continue;
+        }
+
+        const event: TimelineEvent | undefined =
+          parsed.type === 'event' ? parsed.event : parsed.type === 'complete' ? parsed.data?.events?.[0] : undefined;
+        if (event) {
+          // Only one event is needed; don't wait for the closing messages
+          reader.cancel().catch(() => {});
+          console.log(`Replacement event for "${target.title.substring(0, 30)}": ${event.title?.substring(0, 30)}`);
+          return { success: true, event };
         }
       }
     }
 
-    if (stallTimer) window.clearTimeout(stallTimer);
+    return { success: false, error: getTranslationString('regenerateEventNoResult', language as Language) };
+  } catch (err) {
+    console.error('Error regenerating event:', err);
+    return {
+      success: false,
+      error: controller.signal.aborted
+        ? getTranslationString('loadingTooLong', language as Language)
+        : (err instanceof Error ? err.message : getTranslationString('unknownError', language as Language))
+    };
+  } finally {
+    window.clearTimeout(stallTimer);
+  }
+};
 
-    // Fallback: if stream ends without complete message, use collected data
-    if (!receivedComplete) {
-      if (collectedEvents.length === 0) {
-        callbacks.onError(getTranslationString('connectionLost', language as Language));
-        return;
-      }
+/**
+ * "What changed in between": a short text contrasting two generated years,
+ * written from both TimelineData.summary texts (plus a few titles per side).
+ */
+export const generateYearComparison = async (
+  left: { name?: string; year: number; summary: string; titles: string[] },
+  right: { name?: string; year: number; summary: string; titles: string[] },
+  language: string
+): Promise<{ success: boolean; comparison?: string; error?: string }> => {
+  try {
+    const response = await fetchWithRetry(`${SUPABASE_URL}/functions/v1/compare-years`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
+        'apikey': SUPABASE_ANON_KEY,
+      },
+      body: JSON.stringify({ left, right, language })
+    });
 
-      console.log(`Stream ended without complete message. Using ${collectedEvents.length} collected events.`);
-      callbacks.onComplete({
-        events: collectedEvents,
-        summary: collectedSummary || getTranslationString('defaultSummary', language as Language),
-        famousBirthdays: collectedBirthdays,
-        storyTitle: collectedStoryTitle,
-        storyIntroduction: collectedStoryIntroduction,
-      });
+    if (!response.ok) {
+      console.error('Compare years error:', response.status);
+      if (response.status === 429) {
+        return { success: false, error: getTranslationString('tooManyRequests', language as Language) };
+      }
+      if (response.status === 402) {
+        return { success: false, error: getTranslationString('creditsExhausted', language as Language) };
+      }
+      return { success: false, error: `${getTranslationString('serverError', language as Language)}: ${response.status}` };
     }
-    
+
+    return await response.json();
   } catch (err) {
-    if (stallTimer) window.clearTimeout(stallTimer);
-    const isAbort = err instanceof DOMException && err.name === 'AbortError';
-    console.error('Streaming error:', err);
-    callbacks.onError(
-      isAbort 
-        ? getTranslationString('loadingTooLong', language as Language)
-        : (err instanceof Error ? err.message : getTranslationString('unknownError', language as Language))
-    );
+    console.error('Error calling compare-years:', err);
+    return {
+      success: false,
+      error: err instanceof Error ? err.message : getTranslationString('unknownError', language as Language)
+    };
   }
 };
 
@@ -0,0 +1,55 @@
+/**
+ * "Number one on your birthday" for birthdate timelines: the #1 single in the
+ * user's country on the day they were born and on every birthday after that.
+ *
+ * That takes a weekly chart for the country and year. The bundled data only
+ * has one (Billboard, 1985; see scripts/import-charts.ts for what's missing),
+ * so for most users, Dutch ones included, a hit is the #1 of the year on the
+ * international list, with `precision: 'year'`. The card, PDF cover and
+ * song prompt then speak of the birth year rather than the birthday.
+ */
+import { BirthDateData, FormData } from '@/types/form';
+import { DatedNumberOne, getNumberOneOn, resolveChartCountry } from '@/lib/chartData';
+import { placeForCity } from '@/lib/gazetteer';
+
+export interface BirthdayNumberOne extends DatedNumberOne {
+  year: number;
+  /** 0 = the day they were born */
+  age: number;
+}
+
+// Born on 29 February: celebrate on 1 March in other years (Date.UTC rolls over)
+const birthdayIn = ({ day, month }: BirthDateData, year: number) => new Date(Date.UTC(year, month - 1, day));
+
+export async function getBirthdayNumberOnes(
+  birthDate: BirthDateData,
+  location: { city?: string; countryCode?: string } = {},
+  untilYear = new Date().getFullYear(),
+): Promise<BirthdayNumberOne[]> {
+  const country = resolveChartCountry(location.city, location.countryCode);
+  const years = Array.from({ length: Math.max(0, untilYear - birthDate.year + 1) }, (_, i) => birthDate.year + i);
+  const hits = await Promise.all(years.map((year) => getNumberOneOn(country, birthdayIn(birthDate, year))));
+
+  return hits.flatMap((hit, i) => (hit ? [{ ...hit, year: years[i], age: i }] : []));
+}
+
+/** The birth-day #1, for birthdate timelines only. */
+export async function getBirthDayNumberOne(formData: FormData): Promise<BirthdayNumberOne | null> {
+  if (formData.type !== 'birthdate' || !formData.birthDate) return null;
+  const { city, place } = formData.optionalData;
+  const location = { city, countryCode: placeForCity(city, place)?.countryCode };
+  const [hit] = await getBirthdayNumberOnes(formData.birthDate, location, formData.birthDate.year);
+  return hit ?? null;
+}
+
+/**
+ * Suggested style seed for generate-song-lyrics: the song that was #1 when
+ * the user was born. `precision` says whether that's the #1 of their birth
+ * week or only of their birth year (no weekly chart for that country/year).
+ */
+export async function getBirthdayStyleSeed(
+  formData: FormData,
+): Promise<Pick<BirthdayNumberOne, 'artist' | 'title' | 'year' | 'precision'> | undefined> {
+  const hit = await getBirthDayNumberOne(formData).catch(() => null);
+  return hit ? { artist: hit.artist, title: hit.title, year: hit.year, precision: hit.precision } : undefined;
+}
@@ -0,0 +1,117 @@
+/**
+ * Chart hits per country, year and week, from the datasets the chart importer
+ * writes to src/data/charts/dataset (see scripts/import-charts.ts).
+ *
+ * Each country's dataset is its own lazily loaded chunk. Countries without
+ * data for a year fall back to the international list, which covers every
+ * year since 1960; earlier years have no hits. Which charts are bundled, and
+ * which are still missing, is listed in scripts/import-charts.ts.
+ */
+import { getIsoWeek } from '@/lib/chartImport';
+import type { ChartCountry, CountryChartDataset } from '@/lib/chartImport';
+import { detectCountryCodeFromCity } from '@/lib/subcultureData';
+
+export type { ChartCountry } from '@/lib/chartImport';
+
+export interface NumberOneHit {
+  artist: string;
+  title: string;
+}
+
+export interface ChartHit extends NumberOneHit {
+  /** Dataset the hit came from - INTL when the country had no data */
+  country: ChartCountry;
+  bestPosition: number;
+  /** Weeks in the chart within the queried range (0 for year-end lists) */
+  weeks: number;
+}
+
+export const FALLBACK_CHART_COUNTRY: ChartCountry = 'INTL';
+
+const datasetLoaders = import.meta.glob<CountryChartDataset>('../data/charts/dataset/*.json', { import: 'default' });
+const datasets = new Map<ChartCountry, Promise<CountryChartDataset | null>>();
+
+const loadDataset = (country: ChartCountry): Promise<CountryChartDataset | null> => {
+  if (!datasets.has(country)) {
+    const loader = datasetLoaders[`../data/charts/dataset/${country}.json`];
+    datasets.set(country, loader ? loader() : Promise.resolve(null));
+  }
+  return datasets.get(country)!;
+};
+
+const CHART_COUNTRIES: readonly string[] = ['NL', 'DE', 'FR', 'US', 'UK'] satisfies ChartCountry[];
+
+/**
+ * The chart country for a user's city, or the international list.
+ * `countryCode` (ISO, from the gazetteer) takes precedence over the city.
+ */
+export function resolveChartCountry(city?: string | null, countryCode?: string | null): ChartCountry {
+  const code = countryCode ? (countryCode === 'GB' ? 'UK' : countryCode) : city ? detectCountryCodeFromCity(city) : null;
+  return code && CHART_COUNTRIES.includes(code) ? (code as ChartCountry) : FALLBACK_CHART_COUNTRY;
+}
+
+/**
+ * The hits of a year in a country's charts, best first: highest position
+ * reached, then most weeks in the chart. `weekRange` (ISO weeks, inclusive)
+ * narrows weekly charts down to part of the year; year-end lists have no weeks
+ * and are returned as a whole.
+ */
+export async function getHitsFor(
+  country: ChartCountry,
+  year: number,
+  weekRange?: [number, number],
+): Promise<ChartHit[]> {
+  const dataset = await loadDataset(country);
+  const weeks = dataset?.years[year];
+  if (!weeks) {
+    return country === FALLBACK_CHART_COUNTRY ? [] : getHitsFor(FALLBACK_CHART_COUNTRY, year, weekRange);
+  }
+
+  let charts = Object.entries(weeks)
+    .filter(([week]) => week !== '0')
+    .filter(([week]) => !weekRange || (Number(week) >= weekRange[0] && Number(week) <= weekRange[1]))
+    .sort(([a], [b]) => Number(a) - Number(b))
+    .map(([, entries]) => entries);
+  const isYearEnd = charts.length === 0;
+  if (isYearEnd) charts = weeks['0'] ? [weeks['0']] : [];
+
+  const hits = new Map<string, ChartHit>();
+  for (const entries of charts) {
+    for (const { artist, title, position } of entries) {
+      const key = `${artist}|${title}`.toLowerCase();
+      const hit = hits.get(key);
+      if (hit) {
+        hit.bestPosition = Math.min(hit.bestPosition, position);
+        hit.weeks += isYearEnd ? 0 : 1;
+      } else {
+        hits.set(key, { artist, title, country, bestPosition: position, weeks: isYearEnd ? 0 : 1 });
+      }
+    }
+  }
+
+  // Map keeps first-seen order, so ties stay chronological
+  return Array.from(hits.values()).sort((a, b) => a.bestPosition - b.bestPosition || b.weeks - a.weeks);
+}
+
+export interface DatedNumberOne extends NumberOneHit {
+  country: ChartCountry;
+  /** "week": the #1 of that exact chart week; "year": only a year-end list was available */
+  precision: 'week' | 'year';
+}
+
+/**
+ * The #1 single on a given date: the weekly chart of that ISO week in the
+ * country, then internationally, and failing both the year's biggest hit.
+ */
+export async function getNumberOneOn(country: ChartCountry, date: Date): Promise<DatedNumberOne | null> {
+  const { year, week } = getIsoWeek(date);
+  const countries = country === FALLBACK_CHART_COUNTRY ? [country] : [country, FALLBACK_CHART_COUNTRY];
+
+  for (const candidate of countries) {
+    const top = (await loadDataset(candidate))?.years[year]?.[week]?.find((entry) => entry.position === 1);
+    if (top) return { artist: top.artist, title: top.title, country: candidate, precision: 'week' };
+  }
+
+  const [yearHit] = await getHitsFor(country, date.getUTCFullYear());
+  return yearHit ? { artist: yearHit.artist, title: yearHit.title, country: yearHit.country, precision: 'year' } : null;
+}
@@ -0,0 +1,271 @@
+/**
+ * Chart-data importer: turns CSV/JSON chart dumps (Dutch Top 40, Media
+ * Control, SNEP, Billboard, ...) into the per-country datasets under
+ * src/data/charts/dataset that chartData.ts queries.
+ *
+ * Dumps differ in column names and in how they date a chart, so columns are
+ * matched by alias and the week is taken from `year` + `week` or derived from
+ * a `date` (ISO week). Sources without weekly data (year-end lists) are
+ * imported with `period: "year"` and stored under week 0.
+ *
+ * Run via scripts/import-charts.ts; everything here is pure so it can be
+ * reused and tested without the filesystem.
+ */
+
+export type ChartCountry = 'INTL' | 'NL' | 'DE' | 'FR' | 'US' | 'UK';
+
+export interface ChartSource {
+  id: string;
+  country: ChartCountry;
+  /** Display name, e.g. "Nederlandse Top 40" */
+  chart: string;
+  /** Path relative to src/data/charts */
+  file: string;
+  /** "week" (default) for weekly charts, "year" for year-end lists */
+  period?: 'week' | 'year';
+  /** Positions above this are dropped to keep the dataset small (default 10) */
+  maxPosition?: number;
+}
+
+export interface ChartRow {
+  year: number;
+  /** ISO week 1-53, or 0 for year-end lists */
+  week: number;
+  position: number;
+  artist: string;
+  title: string;
+}
+
+export interface ChartIssue {
+  source: string;
+  /** 1-based line (CSV) or array index + 1 (JSON) */
+  line: number;
+  kind: 'malformed' | 'duplicate';
+  message: string;
+}
+
+export interface ChartEntry {
+  position: number;
+  artist: string;
+  title: string;
+  /** Source id - lets a country combine several charts */
+  chart: string;
+}
+
+export interface CountryChartDataset {
+  country: ChartCountry;
+  /** Bumped by the importer whenever the entries change */
+  version: number;
+  generatedAt: string;
+  sources: { id: string; chart: string; period: 'week' | 'year'; rows: number }[];
+  /** year → week → entries, ordered by position */
+  years: Record<string, Record<string, ChartEntry[]>>;
+}
+
+const DEFAULT_MAX_POSITION = 10;
+
+const COLUMN_ALIASES: Record<keyof ChartRow | 'date', string[]> = {
+  year: ['year', 'jaar', 'jahr', 'annee', 'année'],
+  week: ['week', 'wk', 'woche', 'kw', 'semaine'],
+  date: ['date', 'chart_date', 'chartdate', 'week_of', 'datum'],
+  position: ['position', 'pos', 'rank', 'positie', 'platz', 'place', 'rang'],
+  artist: ['artist', 'artiest', 'performer', 'interpret', 'artiste', 'artists'],
+  title: ['title', 'song', 'titel', 'titre', 'track', 'song_title'],
+};
+
+const normalizeKey = (key: string) => key.trim().toLowerCase().replace(/\s+/g, '_');
+
+/** Maps source columns to ChartRow fields by alias. */
+const resolveColumns = (keys: string[]) => {
+  const normalized = keys.map(normalizeKey);
+  const columns: Partial<Record<keyof typeof COLUMN_ALIASES, string>> = {};
+  for (const [field, aliases] of Object.entries(COLUMN_ALIASES)) {
+    const index = normalized.findIndex((key) => aliases.includes(key));
+    if (index >= 0) columns[field as keyof typeof COLUMN_ALIASES] = keys[index];
+  }
+  return columns;
+};
+
+/** RFC 4180 CSV - quoted fields may contain commas, quotes and newlines. */
+export function parseCsv(text: string): { line: number; values: string[] }[] {
+  const records: { line: number; values: string[] }[] = [];
+  let values: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const delimiter = text.split('\n', 1)[0].includes(';') && !text.split('\n', 1)[0].includes(',') ? ';' : ',';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      values.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      values.push(field);
+      if (values.some((v) => v.trim() !== '')) records.push({ line: recordLine, values });
+      values = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  values.push(field);
+  if (values.some((v) => v.trim() !== '')) records.push({ line: recordLine, values });
+  return records;
+}
+
+/** ISO 8601 week-numbering year and week for a date. */
+export function getIsoWeek(date: Date): { year: number; week: number } {
+  const d = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const day = d.getUTCDay() || 7;
+  d.setUTCDate(d.getUTCDate() + 4 - day);
+  const yearStart = Date.UTC(d.getUTCFullYear(), 0, 1);
+  return { year: d.getUTCFullYear(), week: Math.ceil(((d.getTime() - yearStart) / 86400000 + 1) / 7) };
+}
+
+const toInt = (value: unknown): number | null => {
+  const n = typeof value === 'number' ? value : parseInt(String(value ?? '').trim(), 10);
+  return Number.isInteger(n) ? n : null;
+};
+
+/**
+ * Parses one source file into rows, validating as it goes. Malformed rows are
+ * reported and skipped; duplicates (same week+position, or the same song twice
+ * in one week) are reported and only the first occurrence is kept.
+ */
+export function parseChartSource(
+  source: ChartSource,
+  text: string,
+  format: 'csv' | 'json',
+): { rows: ChartRow[]; issues: ChartIssue[] } {
+  const issues: ChartIssue[] = [];
+  const issue = (line: number, kind: ChartIssue['kind'], message: string) =>
+    issues.push({ source: source.id, line, kind, message });
+
+  let records: { line: number; get: (field: keyof typeof COLUMN_ALIASES) => unknown }[];
+  if (format === 'csv') {
+    const [header, ...body] = parseCsv(text.replace(/^\uFEFF/, ''));
+    if (!header) return { rows: [], issues };
+    const columns = resolveColumns(header.values);
+    const indexOf = (field: keyof typeof COLUMN_ALIASES) =>
+      columns[field] === undefined ? -1 : header.values.indexOf(columns[field]!);
+    records = body.map(({ line, values }) => ({
+      line,
+      get: (field) => (indexOf(field) >= 0 ? values[indexOf(field)] : undefined),
+    }));
+  } else {
+    const parsed = JSON.parse(text);
+    const items: Record<string, unknown>[] = Array.isArray(parsed) ? parsed : parsed.entries ?? [];
+    records = items.map((item, index) => {
+      const columns = resolveColumns(Object.keys(item ?? {}));
+      return { line: index + 1, get: (field) => (columns[field] ? item[columns[field]!] : undefined) };
+    });
+  }
+
+  const period = source.period ?? 'week';
+  const maxPosition = source.maxPosition ?? DEFAULT_MAX_POSITION;
+  const maxYear = new Date().getFullYear() + 1;
+  const rows: ChartRow[] = [];
+  const seenSlots = new Set<string>();
+  const seenSongs = new Set<string>();
+
+  for (const { line, get } of records) {
+    const artist = String(get('artist') ?? '').trim();
+    const title = String(get('title') ?? '').trim();
+    const position = toInt(get('position'));
+    let year = toInt(get('year'));
+    let week = period === 'year' ? 0 : toInt(get('week'));
+
+    const rawDate = get('date');
+    if (period === 'week' && (year === null || week === null) && rawDate) {
+      const date = new Date(String(rawDate));
+      if (!isNaN(date.getTime())) ({ year, week } = getIsoWeek(date));
+    }
+
+    if (!artist || !title) {
+      issue(line, 'malformed', 'missing artist or title');
+      continue;
+    }
+    if (year === null || year < 1900 || year > maxYear) {
+      issue(line, 'malformed', `invalid year "${get('year') ?? rawDate ?? ''}"`);
+      continue;
+    }
+    if (week === null || (period === 'week' && (week < 1 || week > 53))) {
+      issue(line, 'malformed', `invalid week "${get('week') ?? rawDate ?? ''}"`);
+      continue;
+    }
+    if (position === null || position < 1) {
+      issue(line, 'malformed', `invalid position "${get('position') ?? ''}"`);
+      continue;
+    }
+    if (position > maxPosition) continue;
+
+    const slot = `${year}-${week}-${position}`;
+    const song = `${year}-${week}-${artist.toLowerCase()}-${title.toLowerCase()}`;
+    if (seenSlots.has(slot)) {
+      issue(line, 'duplicate', `position ${position} of ${year} week ${week} appears more than once`);
+      continue;
+    }
+    if (seenSongs.has(song)) {
+      issue(line, 'duplicate', `"${artist} - ${title}" appears twice in ${year} week ${week}`);
+      continue;
+    }
+    seenSlots.add(slot);
+    seenSongs.add(song);
+    rows.push({ year, week, position, artist, title });
+  }
+
+  return { rows, issues };
+}
+
+/**
+ * Combines the parsed sources of one country into its dataset. `previous` is
+ * the dataset currently on disk; its version is kept when nothing changed.
+ */
+export function buildCountryDataset(
+  country: ChartCountry,
+  parsed: { source: ChartSource; rows: ChartRow[] }[],
+  previous?: CountryChartDataset | null,
+): CountryChartDataset {
+  const years: CountryChartDataset['years'] = {};
+  for (const { source, rows } of parsed) {
+    for (const row of rows) {
+      const weeks = (years[row.year] ??= {});
+      (weeks[row.week] ??= []).push({ position: row.position, artist: row.artist, title: row.title, chart: source.id });
+    }
+  }
+  for (const weeks of Object.values(years)) {
+    for (const entries of Object.values(weeks)) entries.sort((a, b) => a.position - b.position);
+  }
+
+  const unchanged = previous && JSON.stringify(previous.years) === JSON.stringify(years);
+  return {
+    country,
+    version: unchanged ? previous.version : (previous?.version ?? 0) + 1,
+    generatedAt: unchanged ? previous.generatedAt : new Date().toISOString(),
+    sources: parsed.map(({ source, rows }) => ({
+      id: source.id,
+      chart: source.chart,
+      period: source.period ?? 'week',
+      rows: rows.length,
+    })),
+    years,
+  };
+}
@@ -0,0 +1,201 @@
+/**
+ * Minimal EXIF reader: only extracts the capture date from JPEG files.
+ *
+ * Looks for DateTimeOriginal / DateTimeDigitized in the Exif sub-IFD and falls
+ * back to the IFD0 DateTime tag. Returns the calendar date as written by the
+ * camera (EXIF dates carry no timezone, so no Date object is involved).
+ *
+ * stripJpegLocation removes the GPS block (and XMP, which can repeat it)
+ * before a photo is uploaded; the rest of the EXIF, orientation included, stays.
+ */
+
+export interface ExifCaptureDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD_POINTER = 0x8769;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_DATETIME_DIGITIZED = 0x9004;
+const TAG_GPS_IFD_POINTER = 0x8825;
+const TYPE_ASCII = 2;
+const TYPE_LONG = 4;
+
+// Bytes per value of each TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 };
+
+const XMP_NAMESPACE = 'http://ns.adobe.com/xap/1.0/';
+
+// Only the start of the file matters; APP1 sits right after SOI.
+const HEADER_BYTES = 256 * 1024;
+
+const parseExifDateString = (value: string): ExifCaptureDate | null => {
+  // "YYYY:MM:DD HH:MM:SS" — some cameras write "0000:00:00 00:00:00" when unset
+  const match = /^(\d{4})[:-](\d{2})[:-](\d{2})/.exec(value.trim());
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = Number(match[2]);
+  const day = Number(match[3]);
+  if (year < 1800 || month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return { year, month, day };
+};
+
+/**
+ * Reads IFD entries at `offset` (relative to the TIFF header at `tiffStart`)
+ * into a tag -> { type, count, valueOffset } map.
+ */
+const readIfd = (view: DataView, tiffStart: number, offset: number, little: boolean) => {
+  const entries = new Map<number, { type: number; count: number; valueOffset: number }>();
+  const start = tiffStart + offset;
+  if (start + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    entries.set(view.getUint16(entry, little), {
+      type: view.getUint16(entry + 2, little),
+      count: view.getUint32(entry + 4, little),
+      valueOffset: entry + 8,
+    });
+  }
+  return entries;
+};
+
+const readAscii = (
+  view: DataView,
+  tiffStart: number,
+  entry: { type: number; count: number; valueOffset: number } | undefined,
+  little: boolean
+): string | null => {
+  if (!entry || entry.type !== TYPE_ASCII) return null;
+  // Strings longer than 4 bytes are stored elsewhere; the field holds an offset
+  const start = entry.count > 4 ? tiffStart + view.getUint32(entry.valueOffset, little) : entry.valueOffset;
+  if (start + entry.count > view.byteLength) return null;
+
+  let out = '';
+  for (let i = 0; i < entry.count; i++) {
+    const code = view.getUint8(start + i);
+    if (code === 0) break;
+    out += String.fromCharCode(code);
+  }
+  return out;
+};
+
+/**
+ * Extracts the capture date from a JPEG's EXIF block.
+ * Returns null for non-JPEG data or when no usable date tag is present.
+ */
+export function parseExifCaptureDate(buffer: ArrayBuffer): ExifCaptureDate | null {
+  const view = new DataView(buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) return null;
+    const segmentLength = view.getUint16(offset + 2);
+
+    // APP1 with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      if (tiffStart + 8 > view.byteLength) return null;
+      const little = view.getUint16(tiffStart) === 0x4949;
+
+      const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+      const exifPointer = ifd0.get(TAG_EXIF_IFD_POINTER);
+      if (exifPointer && exifPointer.type === TYPE_LONG) {
+        const exifIfd = readIfd(view, tiffStart, view.getUint32(exifPointer.valueOffset, little), little);
+        for (const tag of [TAG_DATETIME_ORIGINAL, TAG_DATETIME_DIGITIZED]) {
+          const value = readAscii(view, tiffStart, exifIfd.get(tag), little);
+          const parsed = value ? parseExifDateString(value) : null;
+          if (parsed) return parsed;
+        }
+      }
+
+      const fallback = readAscii(view, tiffStart, ifd0.get(TAG_DATETIME), little);
+      return fallback ? parseExifDateString(fallback) : null;
+    }
+
+    // Start of scan: no more metadata segments
+    if (marker === 0xffda) return null;
+    offset += 2 + segmentLength;
+  }
+
+  return null;
+}
+
+const isXmpSegment = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(...bytes.subarray(offset + 4, offset + 4 + XMP_NAMESPACE.length)) === XMP_NAMESPACE;
+
+/**
+ * Blanks the GPS IFD of an Exif segment: every entry and the values stored
+ * out of line, then the entry count. The IFD0 pointer is left pointing at
+ * an empty IFD, which readers accept.
+ */
+const blankGpsIfd = (view: DataView, tiffStart: number, little: boolean) => {
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+  const gpsPointer = ifd0.get(TAG_GPS_IFD_POINTER);
+  if (!gpsPointer || gpsPointer.type !== TYPE_LONG) return;
+
+  const gpsStart = tiffStart + view.getUint32(gpsPointer.valueOffset, little);
+  const entries = readIfd(view, tiffStart, gpsStart - tiffStart, little);
+  for (const entry of entries.values()) {
+    const size = (TYPE_SIZES[entry.type] ?? 1) * entry.count;
+    const start = size > 4 ? tiffStart + view.getUint32(entry.valueOffset, little) : entry.valueOffset;
+    for (let i = 0; i < size && start + i < view.byteLength; i++) view.setUint8(start + i, 0);
+  }
+  for (let i = 0; i < entries.size * 12 && gpsStart + 2 + i < view.byteLength; i++) view.setUint8(gpsStart + 2 + i, 0);
+  view.setUint16(gpsStart, 0, little);
+};
+
+/**
+ * A copy of a JPEG without its location: the Exif GPS block blanked and XMP
+ * segments dropped. Anything that isn't a JPEG comes back unchanged.
+ */
+export function stripJpegLocation(buffer: ArrayBuffer): ArrayBuffer {
+  const bytes = new Uint8Array(buffer.slice(0));
+  const view = new DataView(bytes.buffer);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return buffer;
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) break;
+    // Start of scan: the rest is image data
+    if (marker === 0xffda) break;
+    const end = Math.min(offset + 2 + view.getUint16(offset + 2), view.byteLength);
+
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      if (tiffStart + 8 <= view.byteLength) blankGpsIfd(view, tiffStart, view.getUint16(tiffStart) === 0x4949);
+      kept.push(bytes.subarray(offset, end));
+    } else if (!(marker === 0xffe1 && isXmpSegment(bytes, offset))) {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  kept.push(bytes.subarray(offset));
+
+  const out = new Uint8Array(kept.reduce((sum, part) => sum + part.length, 0));
+  let at = 0;
+  for (const part of kept) {
+    out.set(part, at);
+    at += part.length;
+  }
+  return out.buffer;
+}
+
+/** Reads the capture date of an uploaded photo, or null when it has none. */
+export async function readExifCaptureDate(file: File): Promise<ExifCaptureDate | null> {
+  try {
+    const buffer = await file.slice(0, HEADER_BYTES).arrayBuffer();
+    return parseExifCaptureDate(buffer);
+  } catch (e) {
+    console.warn('[EXIF] Failed to read capture date:', e);
+    return null;
+  }
+}
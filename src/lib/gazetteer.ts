@@ -0,0 +1,39 @@
+/**
+ * City autocomplete against the offline GeoNames gazetteer (the
+ * gazetteer_places table, filled by scripts/import-gazetteer.ts).
+ *
+ * A picked suggestion is stored as OptionalData.place, next to the free-text
+ * city, so subcultures, charts, local hits, TV/film and the timeline prompt
+ * get the canonical country instead of guessing it from the city string.
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { toGazetteerKey } from '@/lib/gazetteerImport';
+import type { CityPlace } from '@/types/form';
+
+export type { CityPlace } from '@/types/form';
+
+/** Places whose name starts with `query`, exact matches first, then by population. */
+export async function searchPlaces(query: string, limit = 8): Promise<CityPlace[]> {
+  const key = toGazetteerKey(query);
+  if (key.length < 2) return [];
+
+  const { data, error } = await supabase.rpc('search_gazetteer', { p_key: key, p_limit: limit });
+  if (error) throw error;
+
+  return (data ?? []).map((row) => ({
+    geonameId: row.geoname_id,
+    name: row.name,
+    region: row.admin1_name ?? undefined,
+    regionCode: row.admin1_code ?? undefined,
+    countryCode: row.country_code,
+    lat: row.latitude,
+    lng: row.longitude,
+  }));
+}
+
+/**
+ * The stored place, as long as the city field still holds its name. Places
+ * go stale when the city is edited in a dialog without autocomplete.
+ */
+export const placeForCity = (city?: string, place?: CityPlace): CityPlace | undefined =>
+  place && city?.trim() === place.name ? place : undefined;
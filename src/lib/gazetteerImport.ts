@@ -0,0 +1,107 @@
+/**
+ * Gazetteer importer: turns the GeoNames dumps (cities15000.txt and
+ * admin1CodesASCII.txt from https://download.geonames.org/export/dump/) into
+ * rows for the gazetteer_places and gazetteer_names tables.
+ *
+ * Every place is searchable by its name, its ASCII name and its Latin-script
+ * alternate names, so "Keulen", "Cologne" and "Koln" all find Köln. Other
+ * scripts are left out to keep the names table small.
+ *
+ * Run via scripts/import-gazetteer.ts; everything here is pure so it can be
+ * reused and tested without the filesystem or the database.
+ */
+
+export interface GazetteerPlaceRow {
+  geoname_id: number;
+  name: string;
+  admin1_code: string | null;
+  admin1_name: string | null;
+  country_code: string;
+  latitude: number;
+  longitude: number;
+  population: number;
+}
+
+export interface GazetteerNameRow {
+  name_key: string;
+  geoname_id: number;
+}
+
+export interface GazetteerIssue {
+  /** 1-based line in the cities dump */
+  line: number;
+  message: string;
+}
+
+/**
+ * Search key for a place name: lowercase, accents stripped, punctuation
+ * collapsed to single spaces ("Den Haag", "den-haag" -> "den haag").
+ * The autocomplete (src/lib/gazetteer.ts) searches with the same key; as
+ * punctuation, the LIKE wildcards % and _ never reach search_gazetteer.
+ */
+export const toGazetteerKey = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+
+const LATIN_NAME = /^[\p{Script=Latin}\p{M}\s'’.()-]+$/u;
+// Airport and other codes GeoNames lists among the alternate names ("AMS")
+const CODE_NAME = /^[A-Z]{2,4}$/;
+
+/** admin1CodesASCII.txt: "NL.07<TAB>North Holland<TAB>North Holland<TAB>2749879" */
+export function parseAdmin1Codes(text: string): Map<string, string> {
+  const regions = new Map<string, string>();
+  for (const line of text.split('\n')) {
+    const [code, name] = line.split('\t');
+    if (code && name) regions.set(code.trim(), name.trim());
+  }
+  return regions;
+}
+
+/**
+ * Parses a GeoNames cities dump (tab-separated, no header; see the
+ * "geoname" table in the GeoNames readme for the 19 columns).
+ */
+export function parseGeoNamesCities(
+  text: string,
+  regions: Map<string, string>,
+): { places: GazetteerPlaceRow[]; names: GazetteerNameRow[]; issues: GazetteerIssue[] } {
+  const places: GazetteerPlaceRow[] = [];
+  const names: GazetteerNameRow[] = [];
+  const issues: GazetteerIssue[] = [];
+
+  text.split('\n').forEach((line, index) => {
+    if (!line.trim()) return;
+    const cols = line.split('\t');
+    const geonameId = Number(cols[0]);
+    const latitude = Number(cols[4]);
+    const longitude = Number(cols[5]);
+    const countryCode = cols[8]?.trim();
+
+    if (cols.length < 15 || !Number.isInteger(geonameId) || !cols[1] || !countryCode || Number.isNaN(latitude) || Number.isNaN(longitude)) {
+      issues.push({ line: index + 1, message: `unreadable row (${cols.length} columns)` });
+      return;
+    }
+
+    const admin1Code = cols[10]?.trim() || null;
+    places.push({
+      geoname_id: geonameId,
+      name: cols[1].trim(),
+      admin1_code: admin1Code,
+      admin1_name: admin1Code ? regions.get(`${countryCode}.${admin1Code}`) ?? null : null,
+      country_code: countryCode,
+      latitude,
+      longitude,
+      population: Number(cols[14]) || 0,
+    });
+
+    const alternates = (cols[3] ?? '').split(',').filter((name) => LATIN_NAME.test(name) && !CODE_NAME.test(name));
+    const keys = new Set([cols[1], cols[2], ...alternates].map((name) => toGazetteerKey(name ?? '')).filter(Boolean));
+    keys.forEach((key) => names.push({ name_key: key, geoname_id: geonameId }));
+  });
+
+  return { places, names, issues };
+}
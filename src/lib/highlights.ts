@@ -0,0 +1,23 @@
+import type { TimelineEvent } from '@/types/timeline';
+
+/** How many events make the cut for short-form formats (TikTok slides, vertical video). */
+export const MAX_HIGHLIGHT_EVENTS = 6;
+
+/**
+ * The most important events of a timeline: high importance first, then
+ * medium, in year order within each group. Low-importance events never make
+ * the cut.
+ */
+export function selectHighlightEvents<T extends TimelineEvent>(
+  events: T[],
+  max: number = MAX_HIGHLIGHT_EVENTS,
+): T[] {
+  return [...events]
+    .filter(e => e.importance === 'high' || e.importance === 'medium')
+    .sort((a, b) => {
+      if (a.importance === 'high' && b.importance !== 'high') return -1;
+      if (b.importance === 'high' && a.importance !== 'high') return 1;
+      return a.year - b.year;
+    })
+    .slice(0, max);
+}
@@ -1,2529 +0,0 @@
-export type Language = "nl" | "en" | "de" | "fr";
-
-const nlTranslations = {
-  // Landing page
-  siteTitle: "Het jaar van",
-  heroTitle: "Jouw verhaal door de tijd",
-  heroSubtitle:
-    "Ontdek wat er gebeurde op de dag dat jij geboren werd, of reis door de jaren heen met een persoonlijk historisch overzicht.",
-  startButton: "Begin je reis",
-
-  // Choice page
-  choiceTitle: "Wat wil je ontdekken?",
-  choiceSubtitle: "Kies hoe je door de tijd wilt reizen",
-
-  option1Title: "Het Jaar, Maand en Dag Van...",
-  option1Description:
-    "Ontdek alles over een specifieke geboortedatum: wat gebeurde er in dat jaar, die maand en precies op die dag?",
-
-  option2Title: "Een Tijdreis van Jaar tot Jaar",
-  option2Description:
-    "Maak een historisch overzicht van een hele periode, perfect voor jubilea of om een tijdperk te herbeleven.",
-
-  // Form labels
-  birthDateLabel: "Geboortedatum",
-  birthDateQuestion: "Wat is je geboortedatum?",
-  dayLabel: "Dag",
-  monthLabel: "Maand",
-  yearLabel: "Jaar",
-  startYearLabel: "Startjaar",
-  endYearLabel: "Eindjaar",
-
-  // Period selection
-  periodQuestion: "Welke periode wil je herbeleven?",
-  periodBirthyear: "Geboortejaar",
-  periodBirthyearDesc: "Het jaar waarin je geboren bent",
-  periodChildhood: "Jeugd",
-  periodChildhoodDesc: "6-12 jaar",
-  periodPuberty: "Pubertijd",
-  periodPubertyDesc: "12-17 jaar",
-  periodYoungAdult: "Jong volwassen",
-  periodYoungAdultDesc: "18-25 jaar",
-  periodCustom: "Anders",
-  periodCustomDesc: "Kies zelf een periode",
-
-  // Timeline length
-  timelineLengthQuestion: "Hoeveel momenten wil je zien?",
-  timelineShort: "Kort",
-  timelineShortDesc: "20 momenten",
-  timelineLong: "Uitgebreid",
-  timelineLongDesc: "50 momenten",
-
-  // Action buttons
-  createTimelineButton: "Maak tijdreis overzicht",
-  createPolaroidButton: "Maak tijdreis polaroid",
-
-  // Optional info
-  optionalInfoTitle: "Maak het persoonlijker",
-  optionalInfoSubtitle: "Deze informatie is optioneel, maar helpt ons een rijker verhaal te creëren",
-  nameLabel: "Naam",
-  firstNameLabel: "Voornaam",
-  firstNamePlaceholder: "Bijv. Jan",
-  lastNameLabel: "Achternaam",
-  lastNamePlaceholder: "Bijv. de Vries",
-  cityLabel: "Woonplaats",
-  cityPlaceholder: "Bijv. Amsterdam",
-
-  partnerLabel: "Partner",
-  childrenLabel: "Kinderen",
-  child1NameLabel: "Naam kind 1",
-  child1BirthLabel: "Geboortedatum kind 1",
-  child2NameLabel: "Naam kind 2",
-  child2BirthLabel: "Geboortedatum kind 2",
-  child3NameLabel: "Naam kind 3",
-  child3BirthLabel: "Geboortedatum kind 3",
-  partnerNameLabel: "Naam partner",
-  partnerBirthLabel: "Geboortedatum partner",
-
-  interestsLabel: "Interesses",
-  interestsPlaceholder: "Bijv. sport, muziek, computers, politiek",
-
-  focusLabel: "Geografische focus",
-  focusNetherlands: "Nederland",
-  focusEurope: "Europa",
-  focusWorld: "Wereld",
-
-  // Buttons
-  nextButton: "Volgende",
-  backButton: "Terug",
-  skipButton: "Overslaan",
-  generateButton: "Maak Mijn Tijdreis",
-  confirmButton: "Bevestigen",
-  cancelButton: "Annuleren",
-  refreshButton: "Opnieuw",
-
-  // Custom dialog
-  customDialogTitle: "Personaliseer je tijdreis",
-  customDialogDescription: "Pas de jaren aan of voeg extra informatie toe",
-  adjustButton: "Aanpassen",
-  subcultureLabel: "Subcultuur",
-  subcultureNoPreference: "Geen voorkeur",
-  discoverMore: "Ontdek meer",
-  discoverMusicTitle: "Mijn Leven in Muziek",
-  discoverMusicDesc: "Ontdek de #1 hits uit jouw jaren",
-  discoverTvFilmTitle: "Mijn Leven in TV & Film",
-  discoverTvFilmDesc: "Iconische films en series uit jouw tijd",
-  discoverPolaroidTitle: "Mijn Leven in Polaroids",
-  discoverPolaroidDesc: "Jouw verhaal als polaroid collage",
-  discoverStoryTitle: "Mijn Tijdlijn Verhaal",
-  discoverStoryDesc: "Het volledige verhaal van jouw leven",
-  badgeFree: "Gratis",
-  badgePremium: "Premium",
-  customFromYear: "Van jaar",
-  customToYear: "Tot jaar",
-  customFromPlaceholder: "bijv. 1985",
-  customToPlaceholder: "bijv. 1995",
-
-  // Result page
-  backToInput: "Terug naar invoer",
-  yourTimeJourney: "Jouw Tijdreis",
-  magazinePdf: "Magazine PDF",
-  polaroidPdf: "Polaroid PDF",
-  alsoborn: "Ook jarig:",
-  moreCount: "meer",
-  loadingImages: "Afbeeldingen laden...",
-  photosCount: "foto's",
-
-  // Loading states
-  loadingTitle: "We reizen terug in de tijd...",
-  loadingSubtitle: "Dit kan even duren",
-  eventsLoaded: "gebeurtenissen geladen...",
-  timelineLoaded: "Tijdlijn geladen!",
-  eventsFound: "gebeurtenissen gevonden",
-
-  // Error states
-  errorTitle: "Er ging iets mis",
-  tryAgain: "Probeer opnieuw",
-  noDataFound: "Geen gegevens gevonden",
-  backToStart: "Terug naar start",
-
-  // PDF
-  pdfDownloaded: "PDF gedownload!",
-  pdfMagazineReady: "Je tijdreis magazine is klaar",
-  polaroidPdfDownloaded: "Polaroid PDF gedownload!",
-  polaroidReady: "Je jaren 80 polaroid editie is klaar",
-  albumDownloaded: "Album gedownload!",
-  albumReady: "Je TimeStory Album is klaar",
-  downloadAlbum: "Download Album (PDF)",
-  pdfError: "Fout bij PDF genereren",
-  pdfTryAgain: "Probeer het opnieuw",
-
-  // TikTok sharing
-  shareToTikTok: "Deel op TikTok",
-  generatingSlides: "Beelden genereren...",
-  shareSuccess: "Gedeeld!",
-  tikTokReady: "Je TikTok slides zijn klaar",
-  shareError: "Delen mislukt",
-  slidesReady: "Slides klaar!",
-  tapToShare: "Tik op de groene knop om te delen",
-  prepareSlides: "Slides voorbereiden",
-  shareNow: "Deel nu",
-
-  // Polaroid collage
-  createCollage: "Maak Collage (6 foto's)",
-  selectPhotos: "Selecteer 6 foto's",
-  selectedCount: "Geselecteerd",
-  maxPhotosReached: "Maximaal 6 foto's",
-  generateCollage: "Download Collage",
-  collageDownloaded: "Collage gedownload!",
-  collageReady: "Je polaroid collage is klaar",
-  collageError: "Fout bij collage genereren",
-  cancelSelection: "Annuleren",
-
-  // Toast messages
-  loadError: "Fout bij laden",
-
-  // Validation
-  required: "Dit veld is verplicht",
-  invalidDate: "Deze datum bestaat niet — controleer dag en maand.",
-  yearRange: "Jaar moet tussen 1900 en huidig jaar liggen",
-  endYearAfterStart: "Eindjaar moet na startjaar liggen",
-  fillBirthDate: "Vul je geboortedatum in",
-  validYearRange: "Voer een geldig geboortejaar in",
-  choosePeriod: "Kies een periode",
-  fillBothYears: "Vul beide jaren in",
-  validYears: "Voer geldige jaren in",
-
-  // Months
-  months: [
-    "Januari", "Februari", "Maart", "April", "Mei", "Juni",
-    "Juli", "Augustus", "September", "Oktober", "November", "December",
-  ] as readonly string[],
-
-  // HomeV3 step labels
-  birthDateStepLabel: "Geboortedatum",
-  periodStepLabel: "Welke periode?",
-  styleStepLabel: "Stijl & Subcultuur",
-  cityQuestion: "Welke plaats was in die tijd het belangrijkste?",
-  pressEnterToContinue: "Druk op Enter om verder te gaan",
-  startTimeJourney: "Start mijn Tijdreis",
-  genderLabel: "Geslacht",
-  genderMale: "Man",
-  genderFemale: "Vrouw",
-  genderNone: "Geen voorkeur",
-  genderNeutral: "Neutraal",
-
-  // Period descriptions
-  periodBirthyearLong: "Het jaar waarin jij ter wereld kwam",
-  periodChildhoodLong: "Buitenspelen, eerste vriendjes, basisschool",
-  periodPubertyLong: "Eerste verliefdheid, muziek ontdekken",
-  periodYoungAdultLong: "Uitgaan, studeren, de wereld ontdekken",
-
-  // Soundtrack section
-  yourMusicVideo: "Jouw Muziekvideo",
-  previewVersion: "Preview versie",
-  personalizedVersion: "Gepersonaliseerde versie",
-  shareButton: "Delen",
-  writingLyrics: "Songtekst wordt geschreven...",
-  startingMusic: "Muziek wordt gestart...",
-  composingSoundtrack: "Jouw persoonlijke soundtrack wordt gecomponeerd...",
-  soundtrackStreaming: "Jouw persoonlijke soundtrack speelt af (nog aan het afmaken)...",
-  musicVideoReady: "Je muziekvideo is klaar!",
-  somethingWentWrong: "Er ging iets mis",
-  loading: "Laden...",
-  generationTime: "Dit kan 2-4 minuten duren. Je kunt ondertussen verder scrollen.",
-  retryButton: "Opnieuw",
-  previewPlaying: "Preview: Je nummer speelt af terwijl we de volledige versie afmaken",
-  aiMusicVideo: "AI Muziekvideo",
-  makeMorePersonal: "Maak het nog persoonlijker",
-  upgradeDescription: "Voeg vrienden, school en uitgaansplekken toe voor een unieke songtekst met jouw herinneringen én de nieuwsfeiten uit je tijdlijn.",
-  upgradeToV2: "Upgrade naar V2",
-  viewLyrics: "Bekijk songtekst",
-  hideLyrics: "Verberg songtekst",
-  yourYears: "Jouw jaren",
-  yourStory: "Jouw Verhaal",
-
-  // PersonalizeSoundtrackDialog
-  customizeTitle: "Aanpassen",
-  customizeDescription: "Pas je gegevens aan voor een persoonlijker resultaat met jouw herinneringen én nieuwsfeiten.",
-  currentVersionV1: "Huidige versie (V1):",
-  cityLabelShort: "Woonplaats",
-  genderForVoice: "Geslacht (voor stem)",
-  personalMemories: "✨ Persoonlijke herinneringen voor een unieker lied:",
-  top3Friends: "Top 3 vrienden van toen",
-  friendsPlaceholder: "Namen gescheiden door komma's",
-  highSchool: "Middelbare School",
-  schoolPlaceholder: "Bijv. Christelijk Lyceum",
-  favoriteVenues: "Favoriete uitgaansplekken",
-  venuesPlaceholder: "Bijv. De Melkweg, Paradiso",
-  musicEngine: "Muziek Engine",
-  sunoDescription: "Suno (V4.5) — Hoogste kwaliteit",
-  acestepDescription: "Ace-Step — Sneller, self-hosted",
-  diffrhythmDescription: "DiffRhythm — LRC timestamps, razendsnel",
-  diffrhythmNote: "⏱️ DiffRhythm genereert LRC-timestamps zodat muziek synchroon loopt met je tijdlijn-events.",
-  upgradeInfo: "Je nieuwe soundtrack zal niet alleen de sfeer van je tijd vangen, maar ook specifieke nieuwsfeiten uit je tijdlijn en je persoonlijke herinneringen verweven tot een echt uniek lied.",
-  upgradeInfoTitle: "Upgrade naar V2:",
-  generating: "Bezig...",
-  generateV2: "Genereer V2",
-
-  // MusicVideoGenerator
-  personalVideoClip: "Persoonlijke Video Clip",
-  adjustForPersonal: "Pas je gegevens aan voor een persoonlijker resultaat.",
-  generateVideoClip: "Genereer een unieke video clip met muziek.",
-  geographicFocusLabel: "Geografische focus",
-  netherlandsLabel: "Nederland",
-  europeLabel: "Europa",
-  worldLabel: "Wereld",
-  musicStyleInfo: "Subcultuur bepaalt de stijl.",
-  musicStyleLabel: "Muziekstijl:",
-  continueButton: "Doorgaan",
-  tipPersonalDetails: "Vul je details in voor een persoonlijker lied!",
-  tipLabel: "Tip:",
-  writingLyricsStep: "Songtekst schrijven",
-  aiWritingLyrics: "AI schrijft een nostalgisch lied",
-  composingMusic: "Muziek componeren",
-  aiComposingTrack: "Suno AI maakt een unieke track",
-  readyLabel: "Klaar!",
-  listenToHit: "Beluister je persoonlijke hit",
-  browserNoAudio: "Je browser ondersteunt geen audio.",
-  durationLabel: "Duur:",
-  minutesLabel: "minuten",
-  showSunoUrl: "Toon Suno URL",
-  watchVideo: "Bekijk Video",
-  startGeneration: "Start Generatie",
-  personalMemoriesForSong: "Persoonlijke herinneringen voor een unieker lied:",
-  personalVideoClipButton: "🎬 Persoonlijke video clip",
-
-  // OccasionSelector
-  occasionBirthday: "Verjaardag",
-  occasionAnniversary: "Jubileum",
-  occasionFun: "Gewoon voor de lol",
-
-  // Error messages
-  tooManyRequests: "Te veel verzoeken. Probeer het later opnieuw.",
-  creditsExhausted: "Credits op. Voeg credits toe aan je workspace.",
-  generationInterrupted: "Generatie onderbroken",
-  musicGenerationTimeout: "Muziek generatie duurde te lang",
-  connectionLost: "De verbinding is beëindigd voordat er resultaten binnenkwamen. Probeer opnieuw.",
-  defaultSummary: "Een overzicht van belangrijke gebeurtenissen.",
-  loadingTooLong: "Het laden duurde te lang en is gestopt. Probeer opnieuw.",
-  unknownError: "Onbekende fout",
-  fetchingEvents: "Gebeurtenissen ophalen...",
-  scrollToBegin: "Scroll om te beginnen",
-  blacklistTooltip: "Foto blacklisten (globaal) en nieuwe zoeken",
-  blacklistAriaLabel: "Blacklist afbeelding",
-  timelineOf: "Tijdlijn van",
-  to: "tot",
-  serverError: "Server fout",
-  pollingFailed: "Statuscontrole mislukt",
-
-  // Auth
-  authWelcome: "Welkom bij Het jaar van",
-  authSubtitle: "Maak een account aan om je content te bewaren",
-  authLogin: "Inloggen",
-  voiceElevenLabsLoginRequired: "Log in om ElevenLabs te gebruiken",
-  voiceElevenLabsLoginRequiredDesc: "ElevenLabs-stemmen zijn beschikbaar voor ingelogde gebruikers.",
-  authSignUp: "Registreren",
-  authLogout: "Uitloggen",
-  authEmail: "E-mailadres",
-  authPassword: "Wachtwoord",
-  authDisplayName: "Naam",
-  authGoogleSignIn: "Doorgaan met Google",
-  authOrEmail: "of met e-mail",
-  authForgotPassword: "Wachtwoord vergeten?",
-  authCheckEmail: "Controleer je e-mail",
-  authVerifyEmailSent: "We hebben je een verificatielink gestuurd.",
-  authResetEmailSent: "We hebben je een link gestuurd om je wachtwoord te resetten.",
-  authEnterEmail: "Vul eerst je e-mailadres in",
-  authError: "Er ging iets mis",
-  authNewPassword: "Nieuw wachtwoord instellen",
-  authUpdatePassword: "Wachtwoord bijwerken",
-  authPasswordUpdated: "Wachtwoord succesvol bijgewerkt",
-  authInvalidResetLink: "Ongeldige of verlopen resetlink",
-  authMyAccount: "Mijn account",
-  accountNoContent: "Nog geen opgeslagen content",
-  accountNoContentDesc: "Je gegenereerde tijdlijnen verschijnen hier",
-  accountSavedStories: "Opgeslagen tijdlijnen",
-  accountViewStory: "Bekijken",
-  accountShareStory: "Delen",
-  accountDeleteStory: "Verwijderen",
-  accountDeleteConfirm: "Weet je zeker dat je deze tijdlijn wilt verwijderen?",
-  accountStoryDeleted: "Tijdlijn verwijderd",
-  accountCreatedAt: "Aangemaakt op",
-  accountBilling: "Betalingen",
-  accountBillingDesc: "Beheer je abonnement en betalingsgegevens",
-  accountManageSubscription: "Abonnement beheren",
-  accountEvents: "momenten",
-  saveEvent: "Gebeurtenis opslaan",
-  eventSaved: "Gebeurtenis opgeslagen",
-  eventAlreadySaved: "Al opgeslagen",
-  accountSavedEvents: "Opgeslagen gebeurtenissen",
-  accountNoSavedEvents: "Nog geen opgeslagen gebeurtenissen",
-  accountNoSavedEventsDesc: "Sla individuele gebeurtenissen op vanuit je tijdlijn",
-  eventDeleted: "Gebeurtenis verwijderd",
-  eventShared: "Gebeurtenis gekopieerd naar klembord",
-
-  // OptionalInfoForm labels
-  friendsLabel: "Top 3 vrienden van toen",
-  friendsInputPlaceholder: "Namen gescheiden door komma's (bijv. Jan, Piet, Klaas)",
-  schoolLabel: "Middelbare School",
-  schoolInputPlaceholder: "Bijv. Christelijk Lyceum Veenendaal",
-  nightlifeLabel: "Favoriete uitgaansplekken",
-  nightlifeInputPlaceholder: "Discotheken/kroegen gescheiden door komma's",
-
-  // PhaseSelector (HomeV2)
-  chooseDestination: "Kies je bestemming",
-  whichVersionToVisit: "Welke versie van jezelf wil je bezoeken?",
-  phaseBirthyearDesc: "Ontdek de wereld waarin je geboren werd",
-  phaseChildhoodTitle: "Kindertijd",
-  phaseChildhoodDesc: "Herbeleef je zorgeloze buitenspeeltijd",
-  phasePubertyDesc: "Terug naar je eerste verliefdheid",
-  phaseYoungAdultTitle: "Jong Volwassen",
-  phaseYoungAdultDesc: "De tijd van vrijheid en avontuur",
-
-  // HomeV2 specific
-  backToBirthDate: "Terug naar geboortedatum",
-  chooseOtherDestination: "Kies andere bestemming",
-  startMyTimeJourney: "Start mijn Tijdreis",
-  goingBackTo: "Je gaat terug naar",
-
-  // Timeline Story button
-  timelineStoryButton: "Timeline Story",
-
-  // ChapterIndicator
-  chapterBirthDate: "Geboortedatum",
-  chapterDestination: "Bestemming",
-  chapterIdentity: "Identiteit",
-
-  // IdentityForm
-  whoIsMainCharacter: "Wie is de hoofdrolspeler?",
-  lastDetailsForJourney: "De laatste details voor jouw persoonlijke tijdreis",
-  friendsCalledYou: "Hoe noemden je vrienden je in die tijd?",
-  namePlaceholder: "Bijv. Johnny, Marieke, DJ Piet...",
-  forStoryStyle: "Voor de juiste verhaalstijl:",
-  genderHe: "Hij",
-  genderShe: "Zij",
-
-  // RetroDateInput
-  whenDidYourStoryBegin: "Wanneer begon jouw verhaal?",
-  fillBirthDateToStart: "Vul je geboortedatum in om de tijdmachine te starten",
-  legendaryDayToStart: "Een legendarische dag om mee te beginnen.",
-  daysOfWeek: ["Zondag", "Maandag", "Dinsdag", "Woensdag", "Donderdag", "Vrijdag", "Zaterdag"] as readonly string[],
-
-  // NostalgicLoading
-  loadingArchives: "Bladeren door de archieven...",
-  loadingDustNewspapers: "Stof van oude kranten blazen...",
-  loadingMemories: "Herinneringen aan het ophalen...",
-  loadingCassette: "De cassetteband terugspoelen...",
-  loadingVHS: "VHS banden doorzoeken...",
-  loadingHitsOf: "De hits van {year} opzoeken...",
-  loadingDialUp: "Inbellen via de modem... beep boop...",
-  loadingWindows: "Windows 95 opstarten...",
-  loadingBackTo: "Terug naar {year}...",
-  loadingSearchArchives: "De archieven van {year} doorzoeken...",
-  loadingCollectMemories: "Herinneringen verzamelen...",
-  loadingPrepareJourney: "Je tijdreis voorbereiden...",
-
-  // TimeTravelCounter
-  timeTravelComplete: "Tijdreis voltooid",
-  timeTravelInProgress: "Tijdreis in uitvoering...",
-
-  // TimelineCarousel scope labels
-  scopeBirthday: "Jarige",
-  scopeOnBirthday: "Op je geboortedag",
-  scopeInBirthMonth: "In je geboortemaand",
-  scopeInBirthYear: "In je geboortejaar",
-
-  // StoryEndCarousel / SharedExperienceCarousel
-  endOfJourney: "Einde van je tijdreis",
-  takeYourStory: "Neem je verhaal mee",
-  swipeToDiscover: "Swipe om alle manieren te ontdekken waarop je jouw verhaal kunt herbeleven en delen",
-  myLifeInMusic: "Mijn Leven in Muziek",
-  allNumberOneHits: "Alle #1 hits",
-  discoverIconicHits: "Ontdek alle iconische #1 hits uit jouw tijdlijn, sla je favorieten op en deel je playlist.",
-  discoverHits: "Ontdek hits",
-  myLifeInTvFilm: "Mijn Leven in TV & Film",
-  seriesAndFilms: "Series & films",
-  reliveIconicTv: "Herleef de iconische TV-series en blockbusters uit jouw leven met trailers op YouTube.",
-  discoverTitles: "Ontdek titels",
-  fullyPersonalized: "Volledig Gepersonaliseerd",
-  fortyEvents: "40 gebeurtenissen • Jouw details",
-  makeStoryUnique: "Maak je verhaal uniek met persoonlijke details, 40 gebeurtenissen en een langere muziekvideo.",
-  personalize: "Personaliseer",
-  roastMyLife: "Roast Mijn Leven",
-  aiHumorShareable: "AI-humor • Deelbaar",
-  letAiRoast: "Laat AI je leven genadeloos (of mild) roasten op basis van jouw tijdlijn. Van liefdevol tot brutaal.",
-  roastMe: "Roast mij!",
-  spokenStory: "Gesproken Verhaal",
-  spokenStoryReady: "Jouw persoonlijke verhaal is klaar",
-  spokenStoryGenerateAudioFor: "Audio genereren voor {count} gebeurtenissen{intro}",
-  spokenStoryWithIntro: " + intro",
-  spokenStoryGenerating: "Audio genereren... {pct}%",
-  spokenStoryGenerateButton: "Genereer Audio",
-  spokenStoryGeneratingShort: "Genereren...",
-  spokenStoryError: "Audio generatie mislukt",
-  aiVoiceNarration: "AI-stem • Vertelling",
-  listenToStory: "Luister naar je levensverhaal als gesproken vertelling met beelden en sfeervolle muziek.",
-  
-  myLifeInPolaroids: "Mijn Leven in Polaroids",
-  retroStyle: "Retro stijl",
-  relivePolaroids: "Herleef je mooiste momenten als een verzameling nostalgische polaroid foto's.",
-  viewPolaroids: "Bekijk polaroids",
-  myLifeAsPresentation: "Mijn Leven als Presentatie",
-  pdfAlbum: "PDF • A4 Album",
-  downloadAlbumDesc: "Download een prachtig A4 album van je levensverhaal als PDF, klaar om te printen of te delen.",
-  downloadPdf: "Download PDF",
-
-  // ShareDialog
-  shareTitle: "Mijn TimeStory",
-  shareVideoText: "Bekijk mijn persoonlijke tijdlijn video!",
-  shareWhatsapp: "Bekijk mijn TimeStory: {url}",
-  shareTelegram: "Bekijk mijn TimeStory!",
-  shareTwitter: "Bekijk mijn persoonlijke tijdlijn video!",
-  shareEmailSubject: "Bekijk mijn TimeStory",
-  shareEmailBody: "Ik heb een persoonlijke tijdlijn video gemaakt! Bekijk hem hier: {url}",
-  viewSharedVideo: "Bekijk je gedeelde video",
-
-  // RoastDialog
-  bornIn: "Geboren in",
-  discoverYourJourneyFree: "Ontdek jouw tijdreis • Gratis",
-  roastShareText: "🔥 Roast mijn leven ({intensity}) - Ontdek jouw tijdreis op {url}",
-  savedToast: "Opgeslagen!",
-  roastSavedDesc: "De roast is opgeslagen in je account.",
-  errorToast: "Fout",
-  roastSaveError: "Kon de roast niet opslaan.",
-  creatingImage: "Afbeelding maken...",
-  share: "Delen",
-  save: "Opslaan",
-  roastEmailSubject: "🔥 Roast mijn leven",
-  roastEmailBody: "Bekijk mijn roast:\n\n{text}\n\nMaak je eigen tijdreis op {url}",
-
-  // MusicOverviewPage
-  removeFromFavorites: "Verwijder uit favorieten",
-  addToFavorites: "Voeg toe aan favorieten",
-  savedToAccount: "Opgeslagen op je account",
-  saveToAccount: "Opslaan op je account",
-  loadingLocalHits: "Lokale hits laden voor {city}...",
-  tracksLoaded: "{loaded} / {total} nummers geladen...",
-  loadingTvFilms: "TV-series en films laden{city}...",
-  trailersSearched: "{loaded} / {total} trailers gezocht...",
-  yourMusicOverviewTitle: "Jouw Muziek Overzicht",
-  yourTvFilmOverviewTitle: "Jouw TV & Film Overzicht",
-  tracksFoundFavorites: "{count} nummers gevonden • {fav} favorieten",
-  titlesFoundFavorites: "{count} titels gevonden • {fav} favorieten",
-  inclLocalHitsSuffix: " • incl. {country} hits",
-  playlistAllTracks: "Playlist alle {count} nummers",
-  playlistFavoritesCount: "Playlist {count} favorieten",
-  spotifyOpenHint: "Opent de nummers in Spotify. Als dat niet lukt, worden de links naar je klembord gekopieerd.",
-  trailersAllPlay: "Alle {count} trailers afspelen",
-  trailersFavoritesPlay: "{count} favorieten afspelen",
-  myFavoritesPlaylistLabel: "Mijn Favorieten",
-  localHitBadge: "Lokaal",
-  noTracksAvailable: "Er zijn geen nummers beschikbaar.",
-  noTrailersAvailable: "Er zijn geen trailers beschikbaar.",
-  linksCopiedTitle: "Links gekopieerd!",
-  spotifyLinksCopiedDesc: "{count} Spotify-links gekopieerd naar je klembord. Plak ze in een Spotify-playlist.",
-  youtubeLinksCopiedDesc: "{count} YouTube-links gekopieerd naar je klembord.",
-  myMusicVideo: "Mijn muziekvideo",
-  justReady: "Net klaar",
-  yourPersonalMusicVideo: "Jouw persoonlijke muziekvideo",
-  alsoForYou: "Ook voor jou",
-  unlock: "Ontgrendel",
-  open: "Open",
-  myTimeline: "Mijn tijdlijn",
-  backToTimeline: "Terug naar je verhaal",
-  scrollDownHint: "scroll naar beneden",
-  savedDescriptionTrack: "{name} staat nu op je accountpagina.",
-  savedDescriptionItem: "{title} staat nu op je accountpagina.",
-  errorLabel: "Fout",
-  spotifyFailedSummary: "{count} van {total} tracks konden niet geladen worden — Spotify is mogelijk tijdelijk niet bereikbaar.",
-  localHitsFetchError: "Kon lokale hits niet laden — probeer het later opnieuw.",
-  youtubeFailedSummary: "{count} van {total} films/series konden niet geladen worden — YouTube is mogelijk tijdelijk niet bereikbaar.",
-  numberOneHitDesc: "#1 hit uit {year}. Album: {album}",
-  myMusicVideoTitle: "Mijn Muziekvideo",
-  eventsAiMusic: "{count} gebeurtenissen • AI-muziek",
-  preparingMusicVideo: "Je muziekvideo wordt voorbereid...",
-  errorBoundaryTitle: "Er ging iets mis",
-  errorBoundaryBody: "We konden dit deel van de app niet laden.",
-  errorBoundaryRetry: "Probeer opnieuw",
-  errorBoundaryHome: "Naar home",
-
-  // MusicVideoReadyNotifier
-  notifTitlePulse: "🎵 Wordt gemaakt...",
-  notifPersonalMusicVideo: "Persoonlijke muziekvideo",
-  notifProgressAria: "Persoonlijke muziekvideo wordt gemaakt — {pct}%",
-  notifProgressAriaCollapsed: "Persoonlijke muziekvideo wordt gemaakt — {pct}%, klik om te tonen",
-  notifTapToScroll: "Tik om naar je muziekvideo te scrollen",
-  notifTapToGo: "Tik om naar je muziekvideo te gaan",
-  notifCollapse: "Inklappen",
-  notifCollapseAria: "Melding inklappen",
-  notifProgressTitle: "Voortgang muziekvideo",
-  notifMusicVideoFailed: "Muziekvideo mislukt",
-  notifMusicVideoFailedAria: "Muziekvideo mislukt — tik om opnieuw te proberen",
-  notifTapToRetry: "Tik voor opnieuw proberen",
-  notifRetry: "Opnieuw proberen",
-  notifReadyToPlay: "Klaar om af te spelen",
-  notifYourMusicVideoFallback: "Je muziekvideo",
-  notifYourPersonalVideoReady: "Je persoonlijke muziekvideo is klaar.",
-  notifWatchNow: "Bekijk nu",
-  notifLater: "Later",
-  notifClose: "Sluiten",
-  notifOpenMusicVideo: "Open muziekvideo melding",
-
-  // ShareDialog
-  shareYourVideoTitle: "Deel je video",
-  shareGeneratingLink: "Even geduld, we maken je deelbare link...",
-  shareReadyDesc: "Je video is klaar om te delen!",
-  shareSomethingWrong: "Er ging iets mis",
-  shareUploadFailed: "Uploaden mislukt",
-  shareTryAgain: "Probeer opnieuw",
-  shareCopyLinkLabel: "Link kopiëren",
-  shareDeleteEllipsis: "Delen...",
-  shareViaLabel: "Deel via",
-  shareGenericError: "Er ging iets mis",
-
-  // Output formats — TikTok slides
-  tiktokIntroTitle: "Jouw Tijdreis",
-  tiktokOutroTitle: "Maak je eigen tijdreis!",
-  tiktokWatermark: "TimeStory",
-  tiktokUnknownError: "Onbekende fout",
-  tiktokWebShareUnavailable: "Web Share API niet beschikbaar",
-  tiktokCannotShareFiles: "Kan deze bestanden niet delen",
-
-  // Output formats — Remotion intro card
-  introReadyTitle: "🎬 Je persoonlijke muziekvideo is klaar",
-  introReadyHint: "Druk op ▶ om af te spelen",
-  introReadyTitleNarrative: "📖 Je persoonlijk verhaal is klaar om te bekijken",
-  introReadyHintNarrative: "Druk op ▶ om af te spelen",
-
-  // Output formats — PDF
-  pdfDefaultFirstName: "Jou",
-  pdfDefaultStoryName: "TimeStory",
-  pdfTitleFallback: "Het Jaar Van {name}",
-  pdfAlbumFooter: "TimeStory Album",
-  pdfAlbumFileSuffix: "Album",
-
-  // PDF categories
-  pdfCatPolitics: "Politiek",
-  pdfCatSports: "Sport",
-  pdfCatEntertainment: "Entertainment",
-  pdfCatScience: "Wetenschap",
-  pdfCatCulture: "Cultuur",
-  pdfCatWorld: "Wereld",
-  pdfCatLocal: "Lokaal",
-  pdfCatPersonal: "Persoonlijk",
-  pdfCatMusic: "Muziek",
-  pdfCatTechnology: "Technologie",
-  pdfCatCelebrity: "Beroemd",
-  pdfCatUnknown: "Onbekend",
-
-  // PDF type labels
-  pdfTypeBirthdate: "Op deze dag",
-  pdfTypeBirthmonth: "Deze maand",
-  pdfTypeBirthyear: "Dit jaar",
-  pdfTypePeriod: "Periode",
-
-  // PDF magazine labels
-  pdfPersonalJourneyFor: "De persoonlijke reis door de tijd voor",
-  pdfYourStory: "Jouw Verhaal",
-  pdfInThisIssue: "In deze uitgave",
-  pdfAlsoBornToday: "Ook Jarig op Deze Dag",
-  pdfThanksFor: "Bedankt voor",
-  pdfThanksShort: "Bedankt!",
-
-  // Toast messages — phase 3
-  imageCreationFailed: "Er ging iets mis bij het maken van de afbeelding",
-  copiedTitle: "Gekopieerd!",
-  textCopiedDesc: "Tekst gekopieerd naar klembord.",
-  oopsTitle: "Oeps",
-  roastGenerationFailed: "Kon de roast niet genereren",
-  roastImageFailed: "Kon de afbeelding niet genereren.",
-  downloadedTitle: "Gedownload!",
-  shareImageOnSocial: "Deel de afbeelding op social media!",
-  loginRequiredTitle: "Log in",
-  loginRequiredRoastDesc: "Maak een account aan om je roast op te slaan.",
-  savedTitle: "Opgeslagen!",
-  errorShortLabel: "Fout",
-  roastSaveFailed: "Kon de roast niet opslaan.",
-  trailerNotFoundTitle: "Trailer niet gevonden",
-  trailerNotFoundDesc: "Kon geen trailer vinden voor deze film.",
-  connectionErrorTitle: "Verbindingsfout",
-  connectionErrorDesc: "Kon geen verbinding maken met de server. Probeer het later opnieuw.",
-  pdfGenerationFailed: "PDF generatie mislukt",
-  imageBlacklistedTitle: "Afbeelding geblacklist",
-  imageBlacklistedDesc: "Nieuwe zoekopdracht gestart...",
-  eventsFoundDesc: "{count} gebeurtenissen gevonden",
-
-  // Phase 4 — aria labels & misc UI
-  ariaPrev: "Vorige",
-  ariaNext: "Volgende",
-  ariaStopTrailer: "Stop trailer",
-  ariaCloseTrailer: "Trailer sluiten",
-  ariaPlayTrailer: "Trailer afspelen",
-  ariaBlacklistImage: "Blokkeer afbeelding",
-  blacklistImageTitle: "Foto blokkeren (globaal) en nieuwe zoeken",
-  playSongCompact: "Lied",
-  playSongLabel: "Speel lied",
-  searchingPhotoLabel: "Foto zoeken...",
-  scrollToLoadPhoto: "Scroll om foto te laden",
-
-  // Debug dialog
-  debugInfoTitle: "Debug info",
-  debugInfoFilterPlaceholder: "Filter op titel, categorie, type...",
-  debugInfoBlacklistThumb: "Blokkeer deze afbeelding",
-  debugInfoReloadAll: "Herlaad alle afbeeldingen",
-  debugInfoSearchingShort: "Zoeken...",
-  debugInfoLabelImages: "beeld",
-  debugInfoLabelSounds: "geluid",
-  debugInfoNone: "Geen",
-
-  // Prompt viewer copy button
-  promptCopyToClipboard: "Kopieer naar klembord",
-  promptCopiedShort: "Gekopieerd",
-
-  // Story page refresh buttons
-  quickRefreshTitle: "Snel vernieuwen (20 events)",
-  fullRefreshTitle: "Volledig vernieuwen (50 events)",
-
-  // RoastDialog
-  roastTitle: "Roast mijn leven",
-  roastIntensityLabel: "Intensiteit",
-  roastIntensityMild: "Mild",
-  roastIntensitySpicy: "Pittig",
-  roastIntensityMedium: "Gemiddeld",
-  roastIntensitySharp: "Scherp",
-  roastIntensityExtreme: "Extreem",
-  roastWriting: "{level} roast wordt geschreven...",
-  roastShareLabel: "Delen",
-  roastImageMaking: "Afbeelding maken...",
-  roastSaveLabel: "Opslaan",
-  roastImageAlt: "Roast afbeelding",
-  roastShareViaLabel: "Deel via",
-  roastNativeShareLabel: "Delen...",
-  roastCopyText: "Kopieer tekst",
-  roastCopiedShort: "Gekopieerd!",
-  roastDownloadImage: "Download afbeelding",
-  roastShareTextTpl: "🔥 Roast mijn leven ({level}) - Ontdek jouw tijdreis op {url}",
-  roastImageHeading: "ROAST MIJN LEVEN",
-  roastBornInLabel: "Geboren in {year}",
-  roastFooterTagline: "Ontdek jouw tijdreis • Gratis",
-  roastNoneReceived: "Geen roast ontvangen",
-} as const;
-
-export type TranslationKey = keyof typeof nlTranslations;
-export type TranslationValue = string | readonly string[];
-
-// Force every language to implement EXACTLY the keys present in nlTranslations
-export const translations: Record<Language, Record<TranslationKey, TranslationValue>> = {
-  nl: nlTranslations,
-  en: {
-    siteTitle: "See My Year",
-    heroTitle: "Your Story in Time",
-    heroSubtitle: "Discover what happened on the day you were born, or journey through the years with a personal historical overview.",
-    startButton: "Start Your Journey",
-    choiceTitle: "What do you want to discover?",
-    choiceSubtitle: "Choose how you want to travel through time",
-    option1Title: "The Year, Month and Day Of...",
-    option1Description: "Discover everything about a specific birth date: what happened that year, that month, and on that exact day?",
-    option2Title: "A Time Journey from Year to Year",
-    option2Description: "Create a historical overview of an entire period, perfect for anniversaries or reliving an era.",
-    birthDateLabel: "Birth date",
-    birthDateQuestion: "What is your birth date?",
-    dayLabel: "Day",
-    monthLabel: "Month",
-    yearLabel: "Year",
-    startYearLabel: "Start year",
-    endYearLabel: "End year",
-    periodQuestion: "Which period do you want to relive?",
-    periodBirthyear: "Birth year",
-    periodBirthyearDesc: "The year you were born",
-    periodChildhood: "Childhood",
-    periodChildhoodDesc: "6-12 years",
-    periodPuberty: "Puberty",
-    periodPubertyDesc: "12-17 years",
-    periodYoungAdult: "Young adult",
-    periodYoungAdultDesc: "18-25 years",
-    periodCustom: "Custom",
-    periodCustomDesc: "Choose your own period",
-    timelineLengthQuestion: "How many moments do you want to see?",
-    timelineShort: "Short",
-    timelineShortDesc: "20 moments",
-    timelineLong: "Extended",
-    timelineLongDesc: "50 moments",
-    createTimelineButton: "Create timeline overview",
-    createPolaroidButton: "Create timeline polaroid",
-    optionalInfoTitle: "Make it more personal",
-    optionalInfoSubtitle: "This information is optional, but helps us create a richer story",
-    nameLabel: "Name",
-    firstNameLabel: "First name",
-    firstNamePlaceholder: "E.g. John",
-    lastNameLabel: "Last name",
-    lastNamePlaceholder: "E.g. Smith",
-    cityLabel: "City",
-    cityPlaceholder: "E.g. Amsterdam",
-    partnerLabel: "Partner",
-    childrenLabel: "Children",
-    child1NameLabel: "Name child 1",
-    child1BirthLabel: "Birth date child 1",
-    child2NameLabel: "Name child 2",
-    child2BirthLabel: "Birth date child 2",
-    child3NameLabel: "Name child 3",
-    child3BirthLabel: "Birth date child 3",
-    partnerNameLabel: "Partner name",
-    partnerBirthLabel: "Partner birth date",
-    interestsLabel: "Interests",
-    interestsPlaceholder: "E.g. sports, music, computers, politics",
-    focusLabel: "Geographic focus",
-    focusNetherlands: "Netherlands",
-    focusEurope: "Europe",
-    focusWorld: "World",
-    nextButton: "Next",
-    backButton: "Back",
-    skipButton: "Skip",
-    generateButton: "Create My Time Journey",
-    confirmButton: "Confirm",
-    cancelButton: "Cancel",
-    refreshButton: "Refresh",
-    customDialogTitle: "Personalize your time journey",
-    customDialogDescription: "Adjust the years or add extra information",
-    adjustButton: "Adjust",
-    subcultureLabel: "Subculture",
-    subcultureNoPreference: "No preference",
-    discoverMore: "Discover more",
-    discoverMusicTitle: "My Life in Music",
-    discoverMusicDesc: "Discover the #1 hits from your years",
-    discoverTvFilmTitle: "My Life in TV & Film",
-    discoverTvFilmDesc: "Iconic movies and series from your era",
-    discoverPolaroidTitle: "My Life in Polaroids",
-    discoverPolaroidDesc: "Your story as a polaroid collage",
-    discoverStoryTitle: "My Timeline Story",
-    discoverStoryDesc: "The complete story of your life",
-    badgeFree: "Free",
-    badgePremium: "Premium",
-    customFromYear: "From year",
-    customToYear: "To year",
-    customFromPlaceholder: "e.g. 1985",
-    customToPlaceholder: "e.g. 1995",
-    backToInput: "Back to input",
-    yourTimeJourney: "Your Time Journey",
-    magazinePdf: "Magazine PDF",
-    polaroidPdf: "Polaroid PDF",
-    alsoborn: "Also born:",
-    moreCount: "more",
-    loadingImages: "Loading images...",
-    photosCount: "photos",
-    loadingTitle: "Traveling back in time...",
-    loadingSubtitle: "This may take a moment",
-    eventsLoaded: "events loaded...",
-    timelineLoaded: "Timeline loaded!",
-    eventsFound: "events found",
-    errorTitle: "Something went wrong",
-    tryAgain: "Try again",
-    noDataFound: "No data found",
-    backToStart: "Back to start",
-    pdfDownloaded: "PDF downloaded!",
-    pdfMagazineReady: "Your time journey magazine is ready",
-    polaroidPdfDownloaded: "Polaroid PDF downloaded!",
-    polaroidReady: "Your 80s polaroid edition is ready",
-    albumDownloaded: "Album downloaded!",
-    albumReady: "Your TimeStory Album is ready",
-    downloadAlbum: "Download Album (PDF)",
-    pdfError: "Error generating PDF",
-    pdfTryAgain: "Please try again",
-    shareToTikTok: "Share to TikTok",
-    generatingSlides: "Generating slides...",
-    shareSuccess: "Shared!",
-    tikTokReady: "Your TikTok slides are ready",
-    shareError: "Share failed",
-    slidesReady: "Slides ready!",
-    tapToShare: "Tap the green button to share",
-    prepareSlides: "Prepare slides",
-    shareNow: "Share now",
-    createCollage: "Create Collage (6 photos)",
-    selectPhotos: "Select 6 photos",
-    selectedCount: "Selected",
-    maxPhotosReached: "Maximum 6 photos",
-    generateCollage: "Download Collage",
-    collageDownloaded: "Collage downloaded!",
-    collageReady: "Your polaroid collage is ready",
-    collageError: "Error generating collage",
-    cancelSelection: "Cancel",
-    loadError: "Loading error",
-    required: "This field is required",
-    invalidDate: "This date doesn't exist — please check the day and month.",
-    yearRange: "Year must be between 1900 and current year",
-    endYearAfterStart: "End year must be after start year",
-    fillBirthDate: "Please fill in your birth date",
-    validYearRange: "Please enter a valid birth year",
-    choosePeriod: "Please choose a period",
-    fillBothYears: "Please fill in both years",
-    validYears: "Please enter valid years",
-    months: [
-      "January", "February", "March", "April", "May", "June",
-      "July", "August", "September", "October", "November", "December",
-    ] as readonly string[],
-    birthDateStepLabel: "Birth date",
-    periodStepLabel: "Which period?",
-    styleStepLabel: "Style & Subculture",
-    cityQuestion: "Which place was most important at that time?",
-    pressEnterToContinue: "Press Enter to continue",
-    startTimeJourney: "Start my Time Journey",
-    genderLabel: "Gender",
-    genderMale: "Male",
-    genderFemale: "Female",
-    genderNone: "No preference",
-    genderNeutral: "Neutral",
-    periodBirthyearLong: "The year you came into this world",
-    periodChildhoodLong: "Playing outside, first friends, primary school",
-    periodPubertyLong: "First crush, discovering music",
-    periodYoungAdultLong: "Going out, studying, discovering the world",
-    yourMusicVideo: "Your Music Video",
-    previewVersion: "Preview version",
-    personalizedVersion: "Personalized version",
-    shareButton: "Share",
-    writingLyrics: "Writing lyrics...",
-    startingMusic: "Starting music...",
-    composingSoundtrack: "Your personal soundtrack is being composed...",
-    soundtrackStreaming: "Your personal soundtrack is playing (still finishing)...",
-    musicVideoReady: "Your music video is ready!",
-    somethingWentWrong: "Something went wrong",
-    loading: "Loading...",
-    generationTime: "This may take 2-4 minutes. You can keep scrolling in the meantime.",
-    retryButton: "Retry",
-    previewPlaying: "Preview: Your track is playing while we finish the full version",
-    aiMusicVideo: "AI Music Video",
-    makeMorePersonal: "Make it even more personal",
-    upgradeDescription: "Add friends, school and venues for unique lyrics with your memories and the news from your timeline.",
-    upgradeToV2: "Upgrade to V2",
-    viewLyrics: "View lyrics",
-    hideLyrics: "Hide lyrics",
-    yourYears: "Your years",
-    yourStory: "Your Story",
-    customizeTitle: "Customize",
-    customizeDescription: "Adjust your details for a more personalized result with your memories and news facts.",
-    currentVersionV1: "Current version (V1):",
-    cityLabelShort: "City",
-    genderForVoice: "Gender (for voice)",
-    personalMemories: "✨ Personal memories for a more unique song:",
-    top3Friends: "Top 3 friends from back then",
-    friendsPlaceholder: "Names separated by commas",
-    highSchool: "High School",
-    schoolPlaceholder: "E.g. Springfield High",
-    favoriteVenues: "Favorite venues",
-    venuesPlaceholder: "E.g. The Cavern, Studio 54",
-    musicEngine: "Music Engine",
-    sunoDescription: "Suno (V4.5) — Highest quality",
-    acestepDescription: "Ace-Step — Faster, self-hosted",
-    diffrhythmDescription: "DiffRhythm — LRC timestamps, ultra fast",
-    diffrhythmNote: "⏱️ DiffRhythm generates LRC timestamps so music runs in sync with your timeline events.",
-    upgradeInfo: "Your new soundtrack will not only capture the vibe of your era, but also weave specific news facts from your timeline and your personal memories into a truly unique song.",
-    upgradeInfoTitle: "Upgrade to V2:",
-    generating: "Working...",
-    generateV2: "Generate V2",
-    personalVideoClip: "Personal Video Clip",
-    adjustForPersonal: "Adjust your details for a more personal result.",
-    generateVideoClip: "Generate a unique video clip with music.",
-    geographicFocusLabel: "Geographic focus",
-    netherlandsLabel: "Netherlands",
-    europeLabel: "Europe",
-    worldLabel: "World",
-    musicStyleInfo: "Subculture determines the style.",
-    musicStyleLabel: "Music style:",
-    continueButton: "Continue",
-    tipPersonalDetails: "Fill in your details for a more personal song!",
-    tipLabel: "Tip:",
-    writingLyricsStep: "Writing lyrics",
-    aiWritingLyrics: "AI writes a nostalgic song",
-    composingMusic: "Composing music",
-    aiComposingTrack: "Suno AI creates a unique track",
-    readyLabel: "Done!",
-    listenToHit: "Listen to your personal hit",
-    browserNoAudio: "Your browser does not support audio.",
-    durationLabel: "Duration:",
-    minutesLabel: "minutes",
-    showSunoUrl: "Show Suno URL",
-    watchVideo: "Watch Video",
-    startGeneration: "Start Generation",
-    personalMemoriesForSong: "Personal memories for a more unique song:",
-    personalVideoClipButton: "🎬 Personal video clip",
-    occasionBirthday: "Birthday",
-    occasionAnniversary: "Anniversary",
-    occasionFun: "Just for fun",
-    tooManyRequests: "Too many requests. Please try again later.",
-    creditsExhausted: "Credits exhausted. Please add credits to your workspace.",
-    generationInterrupted: "Generation interrupted",
-    musicGenerationTimeout: "Music generation took too long",
-    connectionLost: "Connection lost before results arrived. Please try again.",
-    defaultSummary: "An overview of important events.",
-    loadingTooLong: "Loading took too long and was stopped. Please try again.",
-    unknownError: "Unknown error",
-    fetchingEvents: "Fetching events...",
-    scrollToBegin: "Scroll to begin",
-    blacklistTooltip: "Blacklist photo (global) and search new",
-    blacklistAriaLabel: "Blacklist image",
-    timelineOf: "Timeline of",
-    to: "to",
-    serverError: "Server error",
-    pollingFailed: "Status check failed",
-    authWelcome: "Welcome to Your Year",
-    authSubtitle: "Create an account to save your content",
-    authLogin: "Log in",
-    voiceElevenLabsLoginRequired: "Sign in to use ElevenLabs",
-    voiceElevenLabsLoginRequiredDesc: "ElevenLabs voices are available to signed-in users.",
-    authSignUp: "Sign up",
-    authLogout: "Log out",
-    authEmail: "Email address",
-    authPassword: "Password",
-    authDisplayName: "Name",
-    authGoogleSignIn: "Continue with Google",
-    authOrEmail: "or with email",
-    authForgotPassword: "Forgot password?",
-    authCheckEmail: "Check your email",
-    authVerifyEmailSent: "We've sent you a verification link.",
-    authResetEmailSent: "We've sent you a password reset link.",
-    authEnterEmail: "Please enter your email address first",
-    authError: "Something went wrong",
-    authNewPassword: "Set new password",
-    authUpdatePassword: "Update password",
-    authPasswordUpdated: "Password successfully updated",
-    authInvalidResetLink: "Invalid or expired reset link",
-    authMyAccount: "My account",
-    accountNoContent: "No saved content yet",
-    accountNoContentDesc: "Your generated timelines will appear here",
-    accountSavedStories: "Saved timelines",
-    accountViewStory: "View",
-    accountShareStory: "Share",
-    accountDeleteStory: "Delete",
-    accountDeleteConfirm: "Are you sure you want to delete this timeline?",
-    accountStoryDeleted: "Timeline deleted",
-    accountCreatedAt: "Created on",
-    accountBilling: "Billing",
-    accountBillingDesc: "Manage your subscription and payment details",
-    accountManageSubscription: "Manage subscription",
-    accountEvents: "events",
-    saveEvent: "Save event",
-    eventSaved: "Event saved",
-    eventAlreadySaved: "Already saved",
-    accountSavedEvents: "Saved events",
-    accountNoSavedEvents: "No saved events yet",
-    accountNoSavedEventsDesc: "Save individual events from your timeline",
-    eventDeleted: "Event deleted",
-    eventShared: "Event copied to clipboard",
-
-    // OptionalInfoForm labels
-    friendsLabel: "Top 3 friends from back then",
-    friendsInputPlaceholder: "Names separated by commas (e.g. John, Paul, George)",
-    schoolLabel: "High School",
-    schoolInputPlaceholder: "E.g. Springfield High School",
-    nightlifeLabel: "Favorite venues",
-    nightlifeInputPlaceholder: "Clubs/bars separated by commas",
-
-    // PhaseSelector (HomeV2)
-    chooseDestination: "Choose your destination",
-    whichVersionToVisit: "Which version of yourself do you want to visit?",
-    phaseBirthyearDesc: "Discover the world you were born into",
-    phaseChildhoodTitle: "Childhood",
-    phaseChildhoodDesc: "Relive your carefree days of play",
-    phasePubertyDesc: "Back to your first crush",
-    phaseYoungAdultTitle: "Young Adult",
-    phaseYoungAdultDesc: "The time of freedom and adventure",
-
-    // HomeV2 specific
-    backToBirthDate: "Back to birth date",
-    chooseOtherDestination: "Choose other destination",
-    startMyTimeJourney: "Start my Time Journey",
-    goingBackTo: "You're going back to",
-
-    // Timeline Story button
-    timelineStoryButton: "Timeline Story",
-
-    // ChapterIndicator
-    chapterBirthDate: "Birth Date",
-    chapterDestination: "Destination",
-    chapterIdentity: "Identity",
-
-    // IdentityForm
-    whoIsMainCharacter: "Who is the main character?",
-    lastDetailsForJourney: "The final details for your personal time journey",
-    friendsCalledYou: "What did your friends call you back then?",
-    namePlaceholder: "E.g. Johnny, Mary, DJ Pete...",
-    forStoryStyle: "For the right story style:",
-    genderHe: "He",
-    genderShe: "She",
-
-    // RetroDateInput
-    whenDidYourStoryBegin: "When did your story begin?",
-    fillBirthDateToStart: "Fill in your birth date to start the time machine",
-    legendaryDayToStart: "A legendary day to start with.",
-    daysOfWeek: ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"],
-
-    // NostalgicLoading
-    loadingArchives: "Browsing through the archives...",
-    loadingDustNewspapers: "Dusting off old newspapers...",
-    loadingMemories: "Retrieving memories...",
-    loadingCassette: "Rewinding the cassette tape...",
-    loadingVHS: "Searching through VHS tapes...",
-    loadingHitsOf: "Looking up the hits of {year}...",
-    loadingDialUp: "Dialing up via modem... beep boop...",
-    loadingWindows: "Starting Windows 95...",
-    loadingBackTo: "Back to {year}...",
-    loadingSearchArchives: "Searching the archives of {year}...",
-    loadingCollectMemories: "Collecting memories...",
-    loadingPrepareJourney: "Preparing your time journey...",
-
-    // TimeTravelCounter
-    timeTravelComplete: "Time travel complete",
-    timeTravelInProgress: "Time travel in progress...",
-
-    // TimelineCarousel scope labels
-    scopeBirthday: "Birthday",
-    scopeOnBirthday: "On your birthday",
-    scopeInBirthMonth: "In your birth month",
-    scopeInBirthYear: "In your birth year",
-
-    // StoryEndCarousel / SharedExperienceCarousel
-    endOfJourney: "End of your time journey",
-    takeYourStory: "Take your story with you",
-    swipeToDiscover: "Swipe to discover all the ways you can relive and share your story",
-    myLifeInMusic: "My Life in Music",
-    allNumberOneHits: "All #1 hits",
-    discoverIconicHits: "Discover all iconic #1 hits from your timeline, save your favorites and share your playlist.",
-    discoverHits: "Discover hits",
-    myLifeInTvFilm: "My Life in TV & Film",
-    seriesAndFilms: "Series & films",
-    reliveIconicTv: "Relive the iconic TV series and blockbusters from your life with trailers on YouTube.",
-    discoverTitles: "Discover titles",
-    fullyPersonalized: "Fully Personalized",
-    fortyEvents: "40 events • Your details",
-    makeStoryUnique: "Make your story unique with personal details, 40 events and a longer music video.",
-    personalize: "Personalize",
-    roastMyLife: "Roast My Life",
-    aiHumorShareable: "AI humor • Shareable",
-    letAiRoast: "Let AI roast your life mercilessly (or mildly) based on your timeline. From loving to brutal.",
-    roastMe: "Roast me!",
-    spokenStory: "Spoken Story",
-    spokenStoryReady: "Your personal story is ready",
-    spokenStoryGenerateAudioFor: "Generate audio for {count} events{intro}",
-    spokenStoryWithIntro: " + intro",
-    spokenStoryGenerating: "Generating audio... {pct}%",
-    spokenStoryGenerateButton: "Generate Audio",
-    spokenStoryGeneratingShort: "Generating...",
-    spokenStoryError: "Audio generation failed",
-    aiVoiceNarration: "AI voice • Narration",
-    listenToStory: "Listen to your life story as a spoken narration with visuals and atmospheric music.",
-    myLifeInPolaroids: "My Life in Polaroids",
-    retroStyle: "Retro style",
-    relivePolaroids: "Relive your finest moments as a collection of nostalgic polaroid photos.",
-    viewPolaroids: "View polaroids",
-    myLifeAsPresentation: "My Life as Presentation",
-    pdfAlbum: "PDF • A4 Album",
-    downloadAlbumDesc: "Download a beautiful A4 album of your life story as PDF, ready to print or share.",
-    downloadPdf: "Download PDF",
-
-    // ShareDialog
-    shareTitle: "My TimeStory",
-    shareVideoText: "Check out my personal timeline video!",
-    shareWhatsapp: "Check out my TimeStory: {url}",
-    shareTelegram: "Check out my TimeStory!",
-    shareTwitter: "Check out my personal timeline video!",
-    shareEmailSubject: "Check out my TimeStory",
-    shareEmailBody: "I made a personal timeline video! Check it out here: {url}",
-    viewSharedVideo: "View your shared video",
-
-    // RoastDialog
-    bornIn: "Born in",
-    discoverYourJourneyFree: "Discover your time journey • Free",
-    roastShareText: "🔥 Roast my life ({intensity}) - Discover your time journey at {url}",
-    savedToast: "Saved!",
-    roastSavedDesc: "The roast has been saved to your account.",
-    errorToast: "Error",
-    roastSaveError: "Could not save the roast.",
-    creatingImage: "Creating image...",
-    share: "Share",
-    save: "Save",
-    roastEmailSubject: "🔥 Roast my life",
-    roastEmailBody: "Check out my roast:\n\n{text}\n\nCreate your own time journey at {url}",
-
-    // MusicOverviewPage
-    removeFromFavorites: "Remove from favorites",
-    addToFavorites: "Add to favorites",
-    savedToAccount: "Saved to your account",
-    saveToAccount: "Save to your account",
-    loadingLocalHits: "Loading local hits for {city}...",
-    tracksLoaded: "{loaded} / {total} tracks loaded...",
-    loadingTvFilms: "Loading TV shows and films{city}...",
-    trailersSearched: "{loaded} / {total} trailers searched...",
-    yourMusicOverviewTitle: "Your Music Overview",
-    yourTvFilmOverviewTitle: "Your TV & Film Overview",
-    tracksFoundFavorites: "{count} tracks found • {fav} favorites",
-    titlesFoundFavorites: "{count} titles found • {fav} favorites",
-    inclLocalHitsSuffix: " • incl. {country} hits",
-    playlistAllTracks: "Playlist all {count} tracks",
-    playlistFavoritesCount: "Playlist {count} favorites",
-    spotifyOpenHint: "Opens the tracks in Spotify. If that fails, the links are copied to your clipboard.",
-    trailersAllPlay: "Play all {count} trailers",
-    trailersFavoritesPlay: "Play {count} favorites",
-    myFavoritesPlaylistLabel: "My Favorites",
-    localHitBadge: "Local",
-    noTracksAvailable: "No tracks available.",
-    noTrailersAvailable: "No trailers available.",
-    linksCopiedTitle: "Links copied!",
-    spotifyLinksCopiedDesc: "{count} Spotify links copied to your clipboard. Paste them into a Spotify playlist.",
-    youtubeLinksCopiedDesc: "{count} YouTube links copied to your clipboard.",
-    myMusicVideo: "My music video",
-    justReady: "Just ready",
-    yourPersonalMusicVideo: "Your personal music video",
-    alsoForYou: "Also for you",
-    unlock: "Unlock",
-    open: "Open",
-    myTimeline: "My timeline",
-    backToTimeline: "Back to your story",
-    scrollDownHint: "scroll down",
-    savedDescriptionTrack: "{name} is now on your account page.",
-    savedDescriptionItem: "{title} is now on your account page.",
-    errorLabel: "Error",
-    spotifyFailedSummary: "{count} of {total} tracks couldn't be loaded — Spotify may be temporarily unavailable.",
-    localHitsFetchError: "Couldn't load local hits — please try again later.",
-    youtubeFailedSummary: "{count} of {total} films/shows couldn't be loaded — YouTube may be temporarily unavailable.",
-    numberOneHitDesc: "#1 hit from {year}. Album: {album}",
-    myMusicVideoTitle: "My Music Video",
-    eventsAiMusic: "{count} events • AI music",
-    preparingMusicVideo: "Your music video is being prepared...",
-    errorBoundaryTitle: "Something went wrong",
-    errorBoundaryBody: "We couldn't load this part of the app.",
-    errorBoundaryRetry: "Try again",
-    errorBoundaryHome: "Go home",
-    notifTitlePulse: "🎵 Being created...",
-    notifPersonalMusicVideo: "Personal music video",
-    notifProgressAria: "Personal music video being created — {pct}%",
-    notifProgressAriaCollapsed: "Personal music video being created — {pct}%, click to show",
-    notifTapToScroll: "Tap to scroll to your music video",
-    notifTapToGo: "Tap to go to your music video",
-    notifCollapse: "Collapse",
-    notifCollapseAria: "Collapse notification",
-    notifProgressTitle: "Music video progress",
-    notifMusicVideoFailed: "Music video failed",
-    notifMusicVideoFailedAria: "Music video failed — tap to retry",
-    notifTapToRetry: "Tap to retry",
-    notifRetry: "Try again",
-    notifReadyToPlay: "Ready to play",
-    notifYourMusicVideoFallback: "Your music video",
-    notifYourPersonalVideoReady: "Your personal music video is ready.",
-    notifWatchNow: "Watch now",
-    notifLater: "Later",
-    notifClose: "Close",
-    notifOpenMusicVideo: "Open music video notification",
-    shareYourVideoTitle: "Share your video",
-    shareGeneratingLink: "One moment, we're creating your shareable link...",
-    shareReadyDesc: "Your video is ready to share!",
-    shareSomethingWrong: "Something went wrong",
-    shareUploadFailed: "Upload failed",
-    shareTryAgain: "Try again",
-    shareCopyLinkLabel: "Copy link",
-    shareDeleteEllipsis: "Share...",
-    shareViaLabel: "Share via",
-    shareGenericError: "Something went wrong",
-    tiktokIntroTitle: "Your Time Journey",
-    tiktokOutroTitle: "Make your own time journey!",
-    tiktokWatermark: "TimeStory",
-    tiktokUnknownError: "Unknown error",
-    tiktokWebShareUnavailable: "Web Share API unavailable",
-    tiktokCannotShareFiles: "Cannot share these files",
-    introReadyTitle: "🎬 Your personal music video is ready",
-    introReadyHint: "Press ▶ to play",
-    introReadyTitleNarrative: "📖 Your personal narrative book is ready",
-    introReadyHintNarrative: "Press ▶ to play",
-    pdfDefaultFirstName: "You",
-    pdfDefaultStoryName: "TimeStory",
-    pdfTitleFallback: "The Year of {name}",
-    pdfAlbumFooter: "TimeStory Album",
-    pdfAlbumFileSuffix: "Album",
-    pdfCatPolitics: "Politics",
-    pdfCatSports: "Sports",
-    pdfCatEntertainment: "Entertainment",
-    pdfCatScience: "Science",
-    pdfCatCulture: "Culture",
-    pdfCatWorld: "World",
-    pdfCatLocal: "Local",
-    pdfCatPersonal: "Personal",
-    pdfCatMusic: "Music",
-    pdfCatTechnology: "Technology",
-    pdfCatCelebrity: "Celebrity",
-    pdfCatUnknown: "Unknown",
-    pdfTypeBirthdate: "On this day",
-    pdfTypeBirthmonth: "This month",
-    pdfTypeBirthyear: "This year",
-    pdfTypePeriod: "Period",
-    pdfPersonalJourneyFor: "The personal journey through time for",
-    pdfYourStory: "Your Story",
-    pdfInThisIssue: "In this issue",
-    pdfAlsoBornToday: "Also Born on This Day",
-    pdfThanksFor: "Thank you for",
-    pdfThanksShort: "Thank you!",
-    imageCreationFailed: "Something went wrong creating the image",
-    copiedTitle: "Copied!",
-    textCopiedDesc: "Text copied to clipboard.",
-    oopsTitle: "Oops",
-    roastGenerationFailed: "Could not generate the roast",
-    roastImageFailed: "Could not generate the image.",
-    downloadedTitle: "Downloaded!",
-    shareImageOnSocial: "Share the image on social media!",
-    loginRequiredTitle: "Log in",
-    loginRequiredRoastDesc: "Create an account to save your roast.",
-    savedTitle: "Saved!",
-    errorShortLabel: "Error",
-    roastSaveFailed: "Could not save the roast.",
-    trailerNotFoundTitle: "Trailer not found",
-    trailerNotFoundDesc: "Could not find a trailer for this movie.",
-    connectionErrorTitle: "Connection error",
-    connectionErrorDesc: "Could not connect to the server. Please try again later.",
-    pdfGenerationFailed: "PDF generation failed",
-    imageBlacklistedTitle: "Image blacklisted",
-    imageBlacklistedDesc: "Started a new search...",
-    eventsFoundDesc: "{count} events found",
-    ariaPrev: "Previous",
-    ariaNext: "Next",
-    ariaStopTrailer: "Stop trailer",
-    ariaCloseTrailer: "Close trailer",
-    ariaPlayTrailer: "Play trailer",
-    ariaBlacklistImage: "Block image",
-    blacklistImageTitle: "Block photo (globally) and search again",
-    playSongCompact: "Song",
-    playSongLabel: "Play song",
-    searchingPhotoLabel: "Searching photo...",
-    scrollToLoadPhoto: "Scroll to load photo",
-    debugInfoTitle: "Debug info",
-    debugInfoFilterPlaceholder: "Filter by title, category, type...",
-    debugInfoBlacklistThumb: "Block this image",
-    debugInfoReloadAll: "Reload all images",
-    debugInfoSearchingShort: "Searching...",
-    debugInfoLabelImages: "image",
-    debugInfoLabelSounds: "sound",
-    debugInfoNone: "None",
-    promptCopyToClipboard: "Copy to clipboard",
-    promptCopiedShort: "Copied",
-    quickRefreshTitle: "Quick refresh (20 events)",
-    fullRefreshTitle: "Full refresh (50 events)",
-    roastTitle: "Roast my life",
-    roastIntensityLabel: "Intensity",
-    roastIntensityMild: "Mild",
-    roastIntensitySpicy: "Spicy",
-    roastIntensityMedium: "Medium",
-    roastIntensitySharp: "Sharp",
-    roastIntensityExtreme: "Extreme",
-    roastWriting: "Writing {level} roast...",
-    roastShareLabel: "Share",
-    roastImageMaking: "Creating image...",
-    roastSaveLabel: "Save",
-    roastImageAlt: "Roast image",
-    roastShareViaLabel: "Share via",
-    roastNativeShareLabel: "Share...",
-    roastCopyText: "Copy text",
-    roastCopiedShort: "Copied!",
-    roastDownloadImage: "Download image",
-    roastShareTextTpl: "🔥 Roast my life ({level}) - Discover your time travel at {url}",
-    roastImageHeading: "ROAST MY LIFE",
-    roastBornInLabel: "Born in {year}",
-    roastFooterTagline: "Discover your time travel • Free",
-    roastNoneReceived: "No roast received",
-  },
-  de: {
-    siteTitle: "Das Jahr von",
-    heroTitle: "Deine Geschichte in der Zeit",
-    heroSubtitle: "Entdecke, was am Tag deiner Geburt geschah, oder reise durch die Jahre mit einem persönlichen historischen Überblick.",
-    startButton: "Starte Deine Reise",
-    choiceTitle: "Was möchtest du entdecken?",
-    choiceSubtitle: "Wähle, wie du durch die Zeit reisen möchtest",
-    option1Title: "Das Jahr, der Monat und der Tag von...",
-    option1Description: "Entdecke alles über ein bestimmtes Geburtsdatum: was geschah in diesem Jahr, diesem Monat und an diesem Tag?",
-    option2Title: "Eine Zeitreise von Jahr zu Jahr",
-    option2Description: "Erstelle einen historischen Überblick über eine ganze Periode, perfekt für Jubiläen oder um eine Ära wiederzuerleben.",
-    birthDateLabel: "Geburtsdatum",
-    birthDateQuestion: "Was ist dein Geburtsdatum?",
-    dayLabel: "Tag",
-    monthLabel: "Monat",
-    yearLabel: "Jahr",
-    startYearLabel: "Startjahr",
-    endYearLabel: "Endjahr",
-    periodQuestion: "Welche Periode möchtest du wiedererleben?",
-    periodBirthyear: "Geburtsjahr",
-    periodBirthyearDesc: "Das Jahr, in dem du geboren wurdest",
-    periodChildhood: "Kindheit",
-    periodChildhoodDesc: "6-12 Jahre",
-    periodPuberty: "Pubertät",
-    periodPubertyDesc: "12-17 Jahre",
-    periodYoungAdult: "Junger Erwachsener",
-    periodYoungAdultDesc: "18-25 Jahre",
-    periodCustom: "Anders",
-    periodCustomDesc: "Wähle selbst eine Periode",
-    timelineLengthQuestion: "Wie viele Momente möchtest du sehen?",
-    timelineShort: "Kurz",
-    timelineShortDesc: "20 Momente",
-    timelineLong: "Ausführlich",
-    timelineLongDesc: "50 Momente",
-    createTimelineButton: "Zeitreise-Übersicht erstellen",
-    createPolaroidButton: "Zeitreise-Polaroid erstellen",
-    optionalInfoTitle: "Mach es persönlicher",
-    optionalInfoSubtitle: "Diese Informationen sind optional, helfen uns aber, eine reichere Geschichte zu erstellen",
-    nameLabel: "Name",
-    firstNameLabel: "Vorname",
-    firstNamePlaceholder: "Z.B. Hans",
-    lastNameLabel: "Nachname",
-    lastNamePlaceholder: "Z.B. Müller",
-    cityLabel: "Stadt",
-    cityPlaceholder: "Z.B. Amsterdam",
-    partnerLabel: "Partner",
-    childrenLabel: "Kinder",
-    child1NameLabel: "Name Kind 1",
-    child1BirthLabel: "Geburtsdatum Kind 1",
-    child2NameLabel: "Name Kind 2",
-    child2BirthLabel: "Geburtsdatum Kind 2",
-    child3NameLabel: "Name Kind 3",
-    child3BirthLabel: "Geburtsdatum Kind 3",
-    partnerNameLabel: "Name Partner",
-    partnerBirthLabel: "Geburtsdatum Partner",
-    interestsLabel: "Interessen",
-    interestsPlaceholder: "Z.B. Sport, Musik, Computer, Politik",
-    focusLabel: "Geografischer Fokus",
-    focusNetherlands: "Niederlande",
-    focusEurope: "Europa",
-    focusWorld: "Welt",
-    nextButton: "Weiter",
-    backButton: "Zurück",
-    skipButton: "Überspringen",
-    generateButton: "Erstelle Meine Zeitreise",
-    confirmButton: "Bestätigen",
-    cancelButton: "Abbrechen",
-    refreshButton: "Neu laden",
-    customDialogTitle: "Personalisiere deine Zeitreise",
-    customDialogDescription: "Passe die Jahre an oder füge zusätzliche Informationen hinzu",
-    adjustButton: "Anpassen",
-    subcultureLabel: "Subkultur",
-    subcultureNoPreference: "Keine Präferenz",
-    discoverMore: "Mehr entdecken",
-    discoverMusicTitle: "Mein Leben in Musik",
-    discoverMusicDesc: "Entdecke die #1 Hits aus deinen Jahren",
-    discoverTvFilmTitle: "Mein Leben in TV & Film",
-    discoverTvFilmDesc: "Ikonische Filme und Serien aus deiner Zeit",
-    discoverPolaroidTitle: "Mein Leben in Polaroids",
-    discoverPolaroidDesc: "Deine Geschichte als Polaroid-Collage",
-    discoverStoryTitle: "Meine Zeitlinie",
-    discoverStoryDesc: "Die komplette Geschichte deines Lebens",
-    badgeFree: "Kostenlos",
-    badgePremium: "Premium",
-    customFromYear: "Von Jahr",
-    customToYear: "Bis Jahr",
-    customFromPlaceholder: "z.B. 1985",
-    customToPlaceholder: "z.B. 1995",
-    backToInput: "Zurück zur Eingabe",
-    yourTimeJourney: "Deine Zeitreise",
-    magazinePdf: "Magazin PDF",
-    polaroidPdf: "Polaroid PDF",
-    alsoborn: "Auch geboren:",
-    moreCount: "mehr",
-    loadingImages: "Bilder laden...",
-    photosCount: "Fotos",
-    loadingTitle: "Wir reisen zurück in der Zeit...",
-    loadingSubtitle: "Das kann einen Moment dauern",
-    eventsLoaded: "Ereignisse geladen...",
-    timelineLoaded: "Zeitlinie geladen!",
-    eventsFound: "Ereignisse gefunden",
-    errorTitle: "Etwas ist schiefgelaufen",
-    tryAgain: "Erneut versuchen",
-    noDataFound: "Keine Daten gefunden",
-    backToStart: "Zurück zum Start",
-    pdfDownloaded: "PDF heruntergeladen!",
-    pdfMagazineReady: "Dein Zeitreise-Magazin ist fertig",
-    polaroidPdfDownloaded: "Polaroid PDF heruntergeladen!",
-    polaroidReady: "Deine 80er Polaroid-Edition ist fertig",
-    albumDownloaded: "Album heruntergeladen!",
-    albumReady: "Dein TimeStory Album ist fertig",
-    downloadAlbum: "Album herunterladen (PDF)",
-    pdfError: "Fehler beim PDF-Generieren",
-    pdfTryAgain: "Bitte versuche es erneut",
-    shareToTikTok: "Auf TikTok teilen",
-    generatingSlides: "Bilder werden generiert...",
-    shareSuccess: "Geteilt!",
-    tikTokReady: "Deine TikTok-Slides sind fertig",
-    shareError: "Teilen fehlgeschlagen",
-    slidesReady: "Slides fertig!",
-    tapToShare: "Tippe auf den grünen Button zum Teilen",
-    prepareSlides: "Slides vorbereiten",
-    shareNow: "Jetzt teilen",
-    createCollage: "Collage erstellen (6 Fotos)",
-    selectPhotos: "Wähle 6 Fotos",
-    selectedCount: "Ausgewählt",
-    maxPhotosReached: "Maximal 6 Fotos",
-    generateCollage: "Collage herunterladen",
-    collageDownloaded: "Collage heruntergeladen!",
-    collageReady: "Deine Polaroid-Collage ist fertig",
-    collageError: "Fehler beim Erstellen der Collage",
-    cancelSelection: "Abbrechen",
-    loadError: "Ladefehler",
-    required: "Dieses Feld ist erforderlich",
-    invalidDate: "Dieses Datum existiert nicht — bitte Tag und Monat prüfen.",
-    yearRange: "Jahr muss zwischen 1900 und aktuellem Jahr liegen",
-    endYearAfterStart: "Endjahr muss nach Startjahr liegen",
-    fillBirthDate: "Bitte gib dein Geburtsdatum ein",
-    validYearRange: "Bitte gib ein gültiges Geburtsjahr ein",
-    choosePeriod: "Bitte wähle eine Periode",
-    fillBothYears: "Bitte fülle beide Jahre aus",
-    validYears: "Bitte gib gültige Jahre ein",
-    months: [
-      "Januar", "Februar", "März", "April", "Mai", "Juni",
-      "Juli", "August", "September", "Oktober", "November", "Dezember",
-    ] as readonly string[],
-    birthDateStepLabel: "Geburtsdatum",
-    periodStepLabel: "Welche Periode?",
-    styleStepLabel: "Stil & Subkultur",
-    cityQuestion: "Welcher Ort war damals am wichtigsten?",
-    pressEnterToContinue: "Drücke Enter um fortzufahren",
-    startTimeJourney: "Starte meine Zeitreise",
-    genderLabel: "Geschlecht",
-    genderMale: "Männlich",
-    genderFemale: "Weiblich",
-    genderNone: "Keine Präferenz",
-    genderNeutral: "Neutral",
-    periodBirthyearLong: "Das Jahr, in dem du zur Welt kamst",
-    periodChildhoodLong: "Draußen spielen, erste Freunde, Grundschule",
-    periodPubertyLong: "Erste Verliebtheit, Musik entdecken",
-    periodYoungAdultLong: "Ausgehen, studieren, die Welt entdecken",
-    yourMusicVideo: "Dein Musikvideo",
-    previewVersion: "Vorschau-Version",
-    personalizedVersion: "Personalisierte Version",
-    shareButton: "Teilen",
-    writingLyrics: "Songtext wird geschrieben...",
-    startingMusic: "Musik wird gestartet...",
-    composingSoundtrack: "Dein persönlicher Soundtrack wird komponiert...",
-    soundtrackStreaming: "Dein persönlicher Soundtrack spielt ab (wird noch fertiggestellt)...",
-    musicVideoReady: "Dein Musikvideo ist fertig!",
-    somethingWentWrong: "Etwas ist schiefgelaufen",
-    loading: "Laden...",
-    generationTime: "Dies kann 2-4 Minuten dauern. Du kannst in der Zwischenzeit weiterscrollen.",
-    retryButton: "Erneut",
-    previewPlaying: "Vorschau: Dein Track spielt, während wir die vollständige Version fertigstellen",
-    aiMusicVideo: "AI Musikvideo",
-    makeMorePersonal: "Mach es noch persönlicher",
-    upgradeDescription: "Füge Freunde, Schule und Ausgehorte hinzu für einzigartige Songtexte mit deinen Erinnerungen und den Nachrichten aus deiner Zeitlinie.",
-    upgradeToV2: "Upgrade auf V2",
-    viewLyrics: "Songtext anzeigen",
-    hideLyrics: "Songtext verbergen",
-    yourYears: "Deine Jahre",
-    yourStory: "Deine Geschichte",
-    customizeTitle: "Anpassen",
-    customizeDescription: "Passe deine Daten an für ein persönlicheres Ergebnis mit deinen Erinnerungen und Nachrichtenfakten.",
-    currentVersionV1: "Aktuelle Version (V1):",
-    cityLabelShort: "Stadt",
-    genderForVoice: "Geschlecht (für Stimme)",
-    personalMemories: "✨ Persönliche Erinnerungen für ein einzigartigeres Lied:",
-    top3Friends: "Top 3 Freunde von damals",
-    friendsPlaceholder: "Namen durch Kommas getrennt",
-    highSchool: "Gymnasium",
-    schoolPlaceholder: "Z.B. Friedrich-Gymnasium",
-    favoriteVenues: "Lieblingslokale",
-    venuesPlaceholder: "Z.B. Berghain, Tresor",
-    musicEngine: "Musik Engine",
-    sunoDescription: "Suno (V4.5) — Höchste Qualität",
-    acestepDescription: "Ace-Step — Schneller, self-hosted",
-    diffrhythmDescription: "DiffRhythm — LRC Timestamps, ultraschnell",
-    diffrhythmNote: "⏱️ DiffRhythm generiert LRC-Timestamps, damit Musik synchron mit deinen Zeitlinie-Events läuft.",
-    upgradeInfo: "Dein neuer Soundtrack wird nicht nur die Stimmung deiner Zeit einfangen, sondern auch spezifische Nachrichtenfakten aus deiner Zeitlinie und deine persönlichen Erinnerungen zu einem wirklich einzigartigen Lied verweben.",
-    upgradeInfoTitle: "Upgrade auf V2:",
-    generating: "Läuft...",
-    generateV2: "V2 generieren",
-    personalVideoClip: "Persönlicher Video Clip",
-    adjustForPersonal: "Passe deine Daten für ein persönlicheres Ergebnis an.",
-    generateVideoClip: "Generiere einen einzigartigen Videoclip mit Musik.",
-    geographicFocusLabel: "Geografischer Fokus",
-    netherlandsLabel: "Niederlande",
-    europeLabel: "Europa",
-    worldLabel: "Welt",
-    musicStyleInfo: "Subkultur bestimmt den Stil.",
-    musicStyleLabel: "Musikstil:",
-    continueButton: "Weiter",
-    tipPersonalDetails: "Fülle deine Details aus für ein persönlicheres Lied!",
-    tipLabel: "Tipp:",
-    writingLyricsStep: "Songtext schreiben",
-    aiWritingLyrics: "AI schreibt ein nostalgisches Lied",
-    composingMusic: "Musik komponieren",
-    aiComposingTrack: "Suno AI erstellt einen einzigartigen Track",
-    readyLabel: "Fertig!",
-    listenToHit: "Höre deinen persönlichen Hit",
-    browserNoAudio: "Dein Browser unterstützt kein Audio.",
-    durationLabel: "Dauer:",
-    minutesLabel: "Minuten",
-    showSunoUrl: "Suno URL anzeigen",
-    watchVideo: "Video ansehen",
-    startGeneration: "Generierung starten",
-    personalMemoriesForSong: "Persönliche Erinnerungen für ein einzigartigeres Lied:",
-    personalVideoClipButton: "🎬 Persönlicher Videoclip",
-    occasionBirthday: "Geburtstag",
-    occasionAnniversary: "Jubiläum",
-    occasionFun: "Einfach zum Spaß",
-    tooManyRequests: "Zu viele Anfragen. Bitte versuche es später erneut.",
-    creditsExhausted: "Credits aufgebraucht. Bitte füge Credits hinzu.",
-    generationInterrupted: "Generierung unterbrochen",
-    musicGenerationTimeout: "Musikgenerierung hat zu lange gedauert",
-    connectionLost: "Verbindung unterbrochen bevor Ergebnisse ankamen. Bitte erneut versuchen.",
-    defaultSummary: "Ein Überblick über wichtige Ereignisse.",
-    loadingTooLong: "Das Laden hat zu lange gedauert und wurde gestoppt. Bitte erneut versuchen.",
-    unknownError: "Unbekannter Fehler",
-    fetchingEvents: "Ereignisse werden geladen...",
-    scrollToBegin: "Scrolle um zu beginnen",
-    blacklistTooltip: "Foto blacklisten (global) und neue suchen",
-    blacklistAriaLabel: "Bild blacklisten",
-    timelineOf: "Zeitleiste von",
-    to: "bis",
-    serverError: "Serverfehler",
-    pollingFailed: "Statusprüfung fehlgeschlagen",
-    authWelcome: "Willkommen bei Dein Jahr",
-    authSubtitle: "Erstelle ein Konto, um deine Inhalte zu speichern",
-    authLogin: "Anmelden",
-    voiceElevenLabsLoginRequired: "Melde dich an, um ElevenLabs zu nutzen",
-    voiceElevenLabsLoginRequiredDesc: "ElevenLabs-Stimmen sind für angemeldete Nutzer verfügbar.",
-    authSignUp: "Registrieren",
-    authLogout: "Abmelden",
-    authEmail: "E-Mail-Adresse",
-    authPassword: "Passwort",
-    authDisplayName: "Name",
-    authGoogleSignIn: "Weiter mit Google",
-    authOrEmail: "oder mit E-Mail",
-    authForgotPassword: "Passwort vergessen?",
-    authCheckEmail: "Prüfe deine E-Mail",
-    authVerifyEmailSent: "Wir haben dir einen Bestätigungslink geschickt.",
-    authResetEmailSent: "Wir haben dir einen Link zum Zurücksetzen geschickt.",
-    authEnterEmail: "Bitte gib zuerst deine E-Mail-Adresse ein",
-    authError: "Etwas ist schiefgelaufen",
-    authNewPassword: "Neues Passwort festlegen",
-    authUpdatePassword: "Passwort aktualisieren",
-    authPasswordUpdated: "Passwort erfolgreich aktualisiert",
-    authInvalidResetLink: "Ungültiger oder abgelaufener Reset-Link",
-    authMyAccount: "Mein Konto",
-    accountNoContent: "Noch keine gespeicherten Inhalte",
-    accountNoContentDesc: "Deine generierten Zeitleisten erscheinen hier",
-    accountSavedStories: "Gespeicherte Zeitleisten",
-    accountViewStory: "Ansehen",
-    accountShareStory: "Teilen",
-    accountDeleteStory: "Löschen",
-    accountDeleteConfirm: "Bist du sicher, dass du diese Zeitleiste löschen möchtest?",
-    accountStoryDeleted: "Zeitleiste gelöscht",
-    accountCreatedAt: "Erstellt am",
-    accountBilling: "Zahlungen",
-    accountBillingDesc: "Verwalte dein Abonnement und Zahlungsdaten",
-    accountManageSubscription: "Abonnement verwalten",
-    accountEvents: "Momente",
-    saveEvent: "Ereignis speichern",
-    eventSaved: "Ereignis gespeichert",
-    eventAlreadySaved: "Bereits gespeichert",
-    accountSavedEvents: "Gespeicherte Ereignisse",
-    accountNoSavedEvents: "Noch keine gespeicherten Ereignisse",
-    accountNoSavedEventsDesc: "Speichere einzelne Ereignisse aus deiner Zeitleiste",
-    eventDeleted: "Ereignis gelöscht",
-    eventShared: "Ereignis in die Zwischenablage kopiert",
-
-    // OptionalInfoForm labels
-    friendsLabel: "Top 3 Freunde von damals",
-    friendsInputPlaceholder: "Namen durch Kommas getrennt (z.B. Hans, Peter, Karl)",
-    schoolLabel: "Gymnasium / Realschule",
-    schoolInputPlaceholder: "Z.B. Friedrich-Gymnasium Berlin",
-    nightlifeLabel: "Lieblingslokale",
-    nightlifeInputPlaceholder: "Clubs/Kneipen durch Kommas getrennt",
-
-    // PhaseSelector (HomeV2)
-    chooseDestination: "Wähle dein Ziel",
-    whichVersionToVisit: "Welche Version von dir möchtest du besuchen?",
-    phaseBirthyearDesc: "Entdecke die Welt, in die du geboren wurdest",
-    phaseChildhoodTitle: "Kindheit",
-    phaseChildhoodDesc: "Erlebe deine sorglosen Spieltage wieder",
-    phasePubertyDesc: "Zurück zu deiner ersten Verliebtheit",
-    phaseYoungAdultTitle: "Junger Erwachsener",
-    phaseYoungAdultDesc: "Die Zeit der Freiheit und des Abenteuers",
-
-    // HomeV2 specific
-    backToBirthDate: "Zurück zum Geburtsdatum",
-    chooseOtherDestination: "Anderes Ziel wählen",
-    startMyTimeJourney: "Starte meine Zeitreise",
-    goingBackTo: "Du gehst zurück nach",
-
-    // Timeline Story button
-    timelineStoryButton: "Timeline Story",
-
-    chapterBirthDate: "Geburtsdatum",
-    chapterDestination: "Ziel",
-    chapterIdentity: "Identität",
-    whoIsMainCharacter: "Wer ist die Hauptfigur?",
-    lastDetailsForJourney: "Die letzten Details für deine persönliche Zeitreise",
-    friendsCalledYou: "Wie haben dich deine Freunde damals genannt?",
-    namePlaceholder: "Z.B. Johnny, Marie, DJ Piet...",
-    forStoryStyle: "Für den richtigen Erzählstil:",
-    genderHe: "Er",
-    genderShe: "Sie",
-    whenDidYourStoryBegin: "Wann begann deine Geschichte?",
-    fillBirthDateToStart: "Gib dein Geburtsdatum ein, um die Zeitmaschine zu starten",
-    legendaryDayToStart: "Ein legendärer Tag für den Anfang.",
-    daysOfWeek: ["Sonntag", "Montag", "Dienstag", "Mittwoch", "Donnerstag", "Freitag", "Samstag"],
-    loadingArchives: "Durchsuche die Archive...",
-    loadingDustNewspapers: "Staub von alten Zeitungen pusten...",
-    loadingMemories: "Erinnerungen abrufen...",
-    loadingCassette: "Kassette zurückspulen...",
-    loadingVHS: "VHS-Bänder durchsuchen...",
-    loadingHitsOf: "Die Hits von {year} nachschlagen...",
-    loadingDialUp: "Einwählen per Modem... beep boop...",
-    loadingWindows: "Windows 95 starten...",
-    loadingBackTo: "Zurück nach {year}...",
-    loadingSearchArchives: "Die Archive von {year} durchsuchen...",
-    loadingCollectMemories: "Erinnerungen sammeln...",
-    loadingPrepareJourney: "Deine Zeitreise vorbereiten...",
-    timeTravelComplete: "Zeitreise abgeschlossen",
-    timeTravelInProgress: "Zeitreise läuft...",
-    scopeBirthday: "Geburtstagskind",
-    scopeOnBirthday: "An deinem Geburtstag",
-    scopeInBirthMonth: "In deinem Geburtsmonat",
-    scopeInBirthYear: "In deinem Geburtsjahr",
-    endOfJourney: "Ende deiner Zeitreise",
-    takeYourStory: "Nimm deine Geschichte mit",
-    swipeToDiscover: "Wische, um alle Möglichkeiten zu entdecken, wie du deine Geschichte nacherleben und teilen kannst",
-    myLifeInMusic: "Mein Leben in Musik",
-    allNumberOneHits: "Alle #1 Hits",
-    discoverIconicHits: "Entdecke alle ikonischen #1 Hits aus deiner Timeline, speichere deine Favoriten und teile deine Playlist.",
-    discoverHits: "Hits entdecken",
-    myLifeInTvFilm: "Mein Leben in TV & Film",
-    seriesAndFilms: "Serien & Filme",
-    reliveIconicTv: "Erlebe die ikonischen TV-Serien und Blockbuster aus deinem Leben mit Trailern auf YouTube.",
-    discoverTitles: "Titel entdecken",
-    fullyPersonalized: "Vollständig Personalisiert",
-    fortyEvents: "40 Ereignisse • Deine Details",
-    makeStoryUnique: "Mach deine Geschichte einzigartig mit persönlichen Details, 40 Ereignissen und einem längeren Musikvideo.",
-    personalize: "Personalisieren",
-    roastMyLife: "Roast Mein Leben",
-    aiHumorShareable: "KI-Humor • Teilbar",
-    letAiRoast: "Lass die KI dein Leben gnadenlos (oder mild) roasten basierend auf deiner Timeline.",
-    roastMe: "Roast mich!",
-    spokenStory: "Gesprochene Geschichte",
-    spokenStoryReady: "Deine persönliche Geschichte ist bereit",
-    spokenStoryGenerateAudioFor: "Audio generieren für {count} Ereignisse{intro}",
-    spokenStoryWithIntro: " + Intro",
-    spokenStoryGenerating: "Audio wird generiert... {pct}%",
-    spokenStoryGenerateButton: "Audio generieren",
-    spokenStoryGeneratingShort: "Generieren...",
-    spokenStoryError: "Audiogenerierung fehlgeschlagen",
-    aiVoiceNarration: "KI-Stimme • Erzählung",
-    listenToStory: "Höre dir deine Lebensgeschichte als gesprochene Erzählung mit Bildern und stimmungsvoller Musik an.",
-    myLifeInPolaroids: "Mein Leben in Polaroids",
-    retroStyle: "Retro-Stil",
-    relivePolaroids: "Erlebe deine schönsten Momente als Sammlung nostalgischer Polaroid-Fotos.",
-    viewPolaroids: "Polaroids ansehen",
-    myLifeAsPresentation: "Mein Leben als Präsentation",
-    pdfAlbum: "PDF • A4 Album",
-    downloadAlbumDesc: "Lade ein wunderschönes A4-Album deiner Lebensgeschichte als PDF herunter.",
-    downloadPdf: "PDF herunterladen",
-    shareTitle: "Meine TimeStory",
-    shareVideoText: "Schau dir mein persönliches Timeline-Video an!",
-    shareWhatsapp: "Schau dir meine TimeStory an: {url}",
-    shareTelegram: "Schau dir meine TimeStory an!",
-    shareTwitter: "Schau dir mein persönliches Timeline-Video an!",
-    shareEmailSubject: "Schau dir meine TimeStory an",
-    shareEmailBody: "Ich habe ein persönliches Timeline-Video erstellt! Schau es dir hier an: {url}",
-    viewSharedVideo: "Dein geteiltes Video ansehen",
-    bornIn: "Geboren in",
-    discoverYourJourneyFree: "Entdecke deine Zeitreise • Kostenlos",
-    roastShareText: "🔥 Roast mein Leben ({intensity}) - Entdecke deine Zeitreise auf {url}",
-    savedToast: "Gespeichert!",
-    roastSavedDesc: "Der Roast wurde in deinem Account gespeichert.",
-    errorToast: "Fehler",
-    roastSaveError: "Der Roast konnte nicht gespeichert werden.",
-    creatingImage: "Bild erstellen...",
-    share: "Teilen",
-    save: "Speichern",
-    roastEmailSubject: "🔥 Roast mein Leben",
-    roastEmailBody: "Schau dir meinen Roast an:\n\n{text}\n\nErstelle deine eigene Zeitreise auf {url}",
-    removeFromFavorites: "Aus Favoriten entfernen",
-    addToFavorites: "Zu Favoriten hinzufügen",
-    savedToAccount: "In deinem Account gespeichert",
-    saveToAccount: "In Account speichern",
-    loadingLocalHits: "Lokale Hits laden für {city}...",
-    tracksLoaded: "{loaded} / {total} Songs geladen...",
-    loadingTvFilms: "TV-Serien und Filme laden{city}...",
-    trailersSearched: "{loaded} / {total} Trailer gesucht...",
-    yourMusicOverviewTitle: "Deine Musik-Übersicht",
-    yourTvFilmOverviewTitle: "Deine TV & Film-Übersicht",
-    tracksFoundFavorites: "{count} Songs gefunden • {fav} Favoriten",
-    titlesFoundFavorites: "{count} Titel gefunden • {fav} Favoriten",
-    inclLocalHitsSuffix: " • inkl. {country} Hits",
-    playlistAllTracks: "Playlist alle {count} Songs",
-    playlistFavoritesCount: "Playlist {count} Favoriten",
-    spotifyOpenHint: "Öffnet die Songs in Spotify. Falls das nicht klappt, werden die Links in deine Zwischenablage kopiert.",
-    trailersAllPlay: "Alle {count} Trailer abspielen",
-    trailersFavoritesPlay: "{count} Favoriten abspielen",
-    myFavoritesPlaylistLabel: "Meine Favoriten",
-    localHitBadge: "Lokal",
-    noTracksAvailable: "Keine Songs verfügbar.",
-    noTrailersAvailable: "Keine Trailer verfügbar.",
-    linksCopiedTitle: "Links kopiert!",
-    spotifyLinksCopiedDesc: "{count} Spotify-Links in die Zwischenablage kopiert. Füge sie in eine Spotify-Playlist ein.",
-    youtubeLinksCopiedDesc: "{count} YouTube-Links in die Zwischenablage kopiert.",
-    myMusicVideo: "Mein Musikvideo",
-    justReady: "Gerade fertig",
-    yourPersonalMusicVideo: "Dein persönliches Musikvideo",
-    alsoForYou: "Auch für dich",
-    unlock: "Freischalten",
-    open: "Öffnen",
-    myTimeline: "Meine Zeitleiste",
-    backToTimeline: "Zurück zu deiner Geschichte",
-    scrollDownHint: "nach unten scrollen",
-    savedDescriptionTrack: "{name} ist jetzt auf deiner Account-Seite.",
-    savedDescriptionItem: "{title} ist jetzt auf deiner Account-Seite.",
-    errorLabel: "Fehler",
-    spotifyFailedSummary: "{count} von {total} Tracks konnten nicht geladen werden — Spotify ist möglicherweise vorübergehend nicht erreichbar.",
-    localHitsFetchError: "Lokale Hits konnten nicht geladen werden — bitte später erneut versuchen.",
-    youtubeFailedSummary: "{count} von {total} Filmen/Serien konnten nicht geladen werden — YouTube ist möglicherweise vorübergehend nicht erreichbar.",
-    numberOneHitDesc: "#1 Hit aus {year}. Album: {album}",
-    myMusicVideoTitle: "Mein Musikvideo",
-    eventsAiMusic: "{count} Ereignisse • KI-Musik",
-    preparingMusicVideo: "Dein Musikvideo wird vorbereitet...",
-    errorBoundaryTitle: "Etwas ist schiefgelaufen",
-    errorBoundaryBody: "Wir konnten diesen Teil der App nicht laden.",
-    errorBoundaryRetry: "Erneut versuchen",
-    errorBoundaryHome: "Zur Startseite",
-    notifTitlePulse: "🎵 Wird erstellt...",
-    notifPersonalMusicVideo: "Persönliches Musikvideo",
-    notifProgressAria: "Persönliches Musikvideo wird erstellt — {pct}%",
-    notifProgressAriaCollapsed: "Persönliches Musikvideo wird erstellt — {pct}%, klicke zum Anzeigen",
-    notifTapToScroll: "Tippe, um zu deinem Musikvideo zu scrollen",
-    notifTapToGo: "Tippe, um zu deinem Musikvideo zu gehen",
-    notifCollapse: "Einklappen",
-    notifCollapseAria: "Benachrichtigung einklappen",
-    notifProgressTitle: "Fortschritt Musikvideo",
-    notifMusicVideoFailed: "Musikvideo fehlgeschlagen",
-    notifMusicVideoFailedAria: "Musikvideo fehlgeschlagen — tippe zum Wiederholen",
-    notifTapToRetry: "Tippe zum Wiederholen",
-    notifRetry: "Erneut versuchen",
-    notifReadyToPlay: "Bereit zum Abspielen",
-    notifYourMusicVideoFallback: "Dein Musikvideo",
-    notifYourPersonalVideoReady: "Dein persönliches Musikvideo ist fertig.",
-    notifWatchNow: "Jetzt ansehen",
-    notifLater: "Später",
-    notifClose: "Schließen",
-    notifOpenMusicVideo: "Musikvideo-Benachrichtigung öffnen",
-    shareYourVideoTitle: "Teile dein Video",
-    shareGeneratingLink: "Einen Moment, wir erstellen deinen teilbaren Link...",
-    shareReadyDesc: "Dein Video ist bereit zum Teilen!",
-    shareSomethingWrong: "Etwas ist schiefgelaufen",
-    shareUploadFailed: "Upload fehlgeschlagen",
-    shareTryAgain: "Erneut versuchen",
-    shareCopyLinkLabel: "Link kopieren",
-    shareDeleteEllipsis: "Teilen...",
-    shareViaLabel: "Teilen über",
-    shareGenericError: "Etwas ist schiefgelaufen",
-    tiktokIntroTitle: "Deine Zeitreise",
-    tiktokOutroTitle: "Erstelle deine eigene Zeitreise!",
-    tiktokWatermark: "TimeStory",
-    tiktokUnknownError: "Unbekannter Fehler",
-    tiktokWebShareUnavailable: "Web Share API nicht verfügbar",
-    tiktokCannotShareFiles: "Diese Dateien können nicht geteilt werden",
-    introReadyTitle: "🎬 Dein persönliches Musikvideo ist bereit",
-    introReadyHint: "Drücke ▶ zum Abspielen",
-    introReadyTitleNarrative: "📖 Deine persönliche Erzählung ist bereit",
-    introReadyHintNarrative: "Drücke ▶ zum Abspielen",
-    pdfDefaultFirstName: "Dich",
-    pdfDefaultStoryName: "TimeStory",
-    pdfTitleFallback: "Das Jahr von {name}",
-    pdfAlbumFooter: "TimeStory Album",
-    pdfAlbumFileSuffix: "Album",
-    pdfCatPolitics: "Politik",
-    pdfCatSports: "Sport",
-    pdfCatEntertainment: "Unterhaltung",
-    pdfCatScience: "Wissenschaft",
-    pdfCatCulture: "Kultur",
-    pdfCatWorld: "Welt",
-    pdfCatLocal: "Lokal",
-    pdfCatPersonal: "Persönlich",
-    pdfCatMusic: "Musik",
-    pdfCatTechnology: "Technologie",
-    pdfCatCelebrity: "Berühmt",
-    pdfCatUnknown: "Unbekannt",
-    pdfTypeBirthdate: "An diesem Tag",
-    pdfTypeBirthmonth: "Diesen Monat",
-    pdfTypeBirthyear: "Dieses Jahr",
-    pdfTypePeriod: "Zeitraum",
-    pdfPersonalJourneyFor: "Die persönliche Reise durch die Zeit für",
-    pdfYourStory: "Deine Geschichte",
-    pdfInThisIssue: "In dieser Ausgabe",
-    pdfAlsoBornToday: "Auch heute geboren",
-    pdfThanksFor: "Danke für",
-    pdfThanksShort: "Danke!",
-    imageCreationFailed: "Beim Erstellen des Bildes ist etwas schiefgelaufen",
-    copiedTitle: "Kopiert!",
-    textCopiedDesc: "Text in die Zwischenablage kopiert.",
-    oopsTitle: "Ups",
-    roastGenerationFailed: "Roast konnte nicht generiert werden",
-    roastImageFailed: "Bild konnte nicht generiert werden.",
-    downloadedTitle: "Heruntergeladen!",
-    shareImageOnSocial: "Teile das Bild in den sozialen Medien!",
-    loginRequiredTitle: "Anmelden",
-    loginRequiredRoastDesc: "Erstelle ein Konto, um deinen Roast zu speichern.",
-    savedTitle: "Gespeichert!",
-    errorShortLabel: "Fehler",
-    roastSaveFailed: "Roast konnte nicht gespeichert werden.",
-    trailerNotFoundTitle: "Trailer nicht gefunden",
-    trailerNotFoundDesc: "Für diesen Film wurde kein Trailer gefunden.",
-    connectionErrorTitle: "Verbindungsfehler",
-    connectionErrorDesc: "Verbindung zum Server fehlgeschlagen. Bitte versuche es später erneut.",
-    pdfGenerationFailed: "PDF-Generierung fehlgeschlagen",
-    imageBlacklistedTitle: "Bild gesperrt",
-    imageBlacklistedDesc: "Neue Suche gestartet...",
-    eventsFoundDesc: "{count} Ereignisse gefunden",
-    ariaPrev: "Zurück",
-    ariaNext: "Weiter",
-    ariaStopTrailer: "Trailer stoppen",
-    ariaCloseTrailer: "Trailer schließen",
-    ariaPlayTrailer: "Trailer abspielen",
-    ariaBlacklistImage: "Bild blockieren",
-    blacklistImageTitle: "Foto sperren (global) und neu suchen",
-    playSongCompact: "Lied",
-    playSongLabel: "Lied abspielen",
-    searchingPhotoLabel: "Foto wird gesucht...",
-    scrollToLoadPhoto: "Scrolle, um Foto zu laden",
-    debugInfoTitle: "Debug-Info",
-    debugInfoFilterPlaceholder: "Nach Titel, Kategorie, Typ filtern...",
-    debugInfoBlacklistThumb: "Dieses Bild blockieren",
-    debugInfoReloadAll: "Alle Bilder neu laden",
-    debugInfoSearchingShort: "Suchen...",
-    debugInfoLabelImages: "Bild",
-    debugInfoLabelSounds: "Ton",
-    debugInfoNone: "Keine",
-    promptCopyToClipboard: "In Zwischenablage kopieren",
-    promptCopiedShort: "Kopiert",
-    quickRefreshTitle: "Schnelles Aktualisieren (20 Events)",
-    fullRefreshTitle: "Vollständig aktualisieren (50 Events)",
-    roastTitle: "Roast mein Leben",
-    roastIntensityLabel: "Intensität",
-    roastIntensityMild: "Mild",
-    roastIntensitySpicy: "Pikant",
-    roastIntensityMedium: "Mittel",
-    roastIntensitySharp: "Scharf",
-    roastIntensityExtreme: "Extrem",
-    roastWriting: "{level} Roast wird geschrieben...",
-    roastShareLabel: "Teilen",
-    roastImageMaking: "Bild wird erstellt...",
-    roastSaveLabel: "Speichern",
-    roastImageAlt: "Roast-Bild",
-    roastShareViaLabel: "Teilen über",
-    roastNativeShareLabel: "Teilen...",
-    roastCopyText: "Text kopieren",
-    roastCopiedShort: "Kopiert!",
-    roastDownloadImage: "Bild herunterladen",
-    roastShareTextTpl: "🔥 Roast mein Leben ({level}) - Entdecke deine Zeitreise auf {url}",
-    roastImageHeading: "ROAST MEIN LEBEN",
-    roastBornInLabel: "Geboren {year}",
-    roastFooterTagline: "Entdecke deine Zeitreise • Gratis",
-    roastNoneReceived: "Kein Roast erhalten",
-  },
-  fr: {
-    siteTitle: "L'année de",
-    heroTitle: "Votre Histoire dans le Temps",
-    heroSubtitle: "Découvrez ce qui s'est passé le jour de votre naissance, ou voyagez à travers les années avec un aperçu historique personnel.",
-    startButton: "Commencez Votre Voyage",
-    choiceTitle: "Que voulez-vous découvrir?",
-    choiceSubtitle: "Choisissez comment vous voulez voyager dans le temps",
-    option1Title: "L'Année, le Mois et le Jour De...",
-    option1Description: "Découvrez tout sur une date de naissance spécifique: que s'est-il passé cette année-là, ce mois-là et ce jour précis?",
-    option2Title: "Un Voyage dans le Temps d'Année en Année",
-    option2Description: "Créez un aperçu historique d'une période entière, parfait pour les anniversaires ou pour revivre une époque.",
-    birthDateLabel: "Date de naissance",
-    birthDateQuestion: "Quelle est votre date de naissance?",
-    dayLabel: "Jour",
-    monthLabel: "Mois",
-    yearLabel: "Année",
-    startYearLabel: "Année de début",
-    endYearLabel: "Année de fin",
-    periodQuestion: "Quelle période voulez-vous revivre?",
-    periodBirthyear: "Année de naissance",
-    periodBirthyearDesc: "L'année de votre naissance",
-    periodChildhood: "Enfance",
-    periodChildhoodDesc: "6-12 ans",
-    periodPuberty: "Puberté",
-    periodPubertyDesc: "12-17 ans",
-    periodYoungAdult: "Jeune adulte",
-    periodYoungAdultDesc: "18-25 ans",
-    periodCustom: "Autre",
-    periodCustomDesc: "Choisissez votre propre période",
-    timelineLengthQuestion: "Combien de moments voulez-vous voir?",
-    timelineShort: "Court",
-    timelineShortDesc: "20 moments",
-    timelineLong: "Étendu",
-    timelineLongDesc: "50 moments",
-    createTimelineButton: "Créer un aperçu chronologique",
-    createPolaroidButton: "Créer un polaroid chronologique",
-    optionalInfoTitle: "Rendez-le plus personnel",
-    optionalInfoSubtitle: "Ces informations sont optionnelles, mais nous aident à créer une histoire plus riche",
-    nameLabel: "Nom",
-    firstNameLabel: "Prénom",
-    firstNamePlaceholder: "Ex. Jean",
-    lastNameLabel: "Nom de famille",
-    lastNamePlaceholder: "Ex. Dupont",
-    cityLabel: "Ville",
-    cityPlaceholder: "Ex. Amsterdam",
-    partnerLabel: "Partenaire",
-    childrenLabel: "Enfants",
-    child1NameLabel: "Nom enfant 1",
-    child1BirthLabel: "Date de naissance enfant 1",
-    child2NameLabel: "Nom enfant 2",
-    child2BirthLabel: "Date de naissance enfant 2",
-    child3NameLabel: "Nom enfant 3",
-    child3BirthLabel: "Date de naissance enfant 3",
-    partnerNameLabel: "Nom du partenaire",
-    partnerBirthLabel: "Date de naissance du partenaire",
-    interestsLabel: "Intérêts",
-    interestsPlaceholder: "Ex. sport, musique, informatique, politique",
-    focusLabel: "Focus géographique",
-    focusNetherlands: "Pays-Bas",
-    focusEurope: "Europe",
-    focusWorld: "Monde",
-    nextButton: "Suivant",
-    backButton: "Retour",
-    skipButton: "Passer",
-    generateButton: "Créer Mon Voyage dans le Temps",
-    confirmButton: "Confirmer",
-    cancelButton: "Annuler",
-    refreshButton: "Actualiser",
-    customDialogTitle: "Personnalisez votre voyage dans le temps",
-    customDialogDescription: "Ajustez les années ou ajoutez des informations supplémentaires",
-    adjustButton: "Ajuster",
-    subcultureLabel: "Sous-culture",
-    subcultureNoPreference: "Pas de préférence",
-    discoverMore: "Découvrir plus",
-    discoverMusicTitle: "Ma Vie en Musique",
-    discoverMusicDesc: "Découvrez les #1 hits de vos années",
-    discoverTvFilmTitle: "Ma Vie en TV & Cinéma",
-    discoverTvFilmDesc: "Films et séries iconiques de votre époque",
-    discoverPolaroidTitle: "Ma Vie en Polaroids",
-    discoverPolaroidDesc: "Votre histoire en collage polaroid",
-    discoverStoryTitle: "Ma Chronologie",
-    discoverStoryDesc: "L'histoire complète de votre vie",
-    badgeFree: "Gratuit",
-    badgePremium: "Premium",
-    customFromYear: "De l'année",
-    customToYear: "À l'année",
-    customFromPlaceholder: "ex. 1985",
-    customToPlaceholder: "ex. 1995",
-    backToInput: "Retour à la saisie",
-    yourTimeJourney: "Votre Voyage dans le Temps",
-    magazinePdf: "Magazine PDF",
-    polaroidPdf: "Polaroid PDF",
-    alsoborn: "Aussi né:",
-    moreCount: "de plus",
-    loadingImages: "Chargement des images...",
-    photosCount: "photos",
-    loadingTitle: "Nous voyageons dans le temps...",
-    loadingSubtitle: "Cela peut prendre un moment",
-    eventsLoaded: "événements chargés...",
-    timelineLoaded: "Chronologie chargée!",
-    eventsFound: "événements trouvés",
-    errorTitle: "Quelque chose s'est mal passé",
-    tryAgain: "Réessayer",
-    noDataFound: "Aucune donnée trouvée",
-    backToStart: "Retour au début",
-    pdfDownloaded: "PDF téléchargé!",
-    pdfMagazineReady: "Votre magazine de voyage dans le temps est prêt",
-    polaroidPdfDownloaded: "Polaroid PDF téléchargé!",
-    polaroidReady: "Votre édition polaroid des années 80 est prête",
-    albumDownloaded: "Album téléchargé!",
-    albumReady: "Votre Album TimeStory est prêt",
-    downloadAlbum: "Télécharger l'album (PDF)",
-    pdfError: "Erreur lors de la génération du PDF",
-    pdfTryAgain: "Veuillez réessayer",
-    shareToTikTok: "Partager sur TikTok",
-    generatingSlides: "Génération des images...",
-    shareSuccess: "Partagé!",
-    tikTokReady: "Vos slides TikTok sont prêts",
-    shareError: "Échec du partage",
-    slidesReady: "Slides prêts!",
-    tapToShare: "Appuyez sur le bouton vert pour partager",
-    prepareSlides: "Préparer les slides",
-    shareNow: "Partager maintenant",
-    createCollage: "Créer Collage (6 photos)",
-    selectPhotos: "Sélectionnez 6 photos",
-    selectedCount: "Sélectionné",
-    maxPhotosReached: "Maximum 6 photos",
-    generateCollage: "Télécharger Collage",
-    collageDownloaded: "Collage téléchargé!",
-    collageReady: "Votre collage polaroid est prêt",
-    collageError: "Erreur lors de la création du collage",
-    cancelSelection: "Annuler",
-    loadError: "Erreur de chargement",
-    required: "Ce champ est obligatoire",
-    invalidDate: "Cette date n'existe pas — vérifiez le jour et le mois.",
-    yearRange: "L'année doit être entre 1900 et l'année actuelle",
-    endYearAfterStart: "L'année de fin doit être après l'année de début",
-    fillBirthDate: "Veuillez remplir votre date de naissance",
-    validYearRange: "Veuillez entrer une année de naissance valide",
-    choosePeriod: "Veuillez choisir une période",
-    fillBothYears: "Veuillez remplir les deux années",
-    validYears: "Veuillez entrer des années valides",
-    months: [
-      "Janvier", "Février", "Mars", "Avril", "Mai", "Juin",
-      "Juillet", "Août", "Septembre", "Octobre", "Novembre", "Décembre",
-    ] as readonly string[],
-    birthDateStepLabel: "Date de naissance",
-    periodStepLabel: "Quelle période?",
-    styleStepLabel: "Style & Sous-culture",
-    cityQuestion: "Quel lieu était le plus important à cette époque?",
-    pressEnterToContinue: "Appuyez sur Entrée pour continuer",
-    startTimeJourney: "Commencer mon Voyage dans le Temps",
-    genderLabel: "Genre",
-    genderMale: "Homme",
-    genderFemale: "Femme",
-    genderNone: "Pas de préférence",
-    genderNeutral: "Neutre",
-    periodBirthyearLong: "L'année où vous êtes venu au monde",
-    periodChildhoodLong: "Jouer dehors, premiers amis, école primaire",
-    periodPubertyLong: "Premier amour, découverte de la musique",
-    periodYoungAdultLong: "Sorties, études, découverte du monde",
-    yourMusicVideo: "Votre Clip Musical",
-    previewVersion: "Version aperçu",
-    personalizedVersion: "Version personnalisée",
-    shareButton: "Partager",
-    writingLyrics: "Écriture des paroles...",
-    startingMusic: "Démarrage de la musique...",
-    composingSoundtrack: "Votre bande-son personnelle est en cours de composition...",
-    soundtrackStreaming: "Votre bande-son personnelle est en lecture (encore en cours)...",
-    musicVideoReady: "Votre clip musical est prêt!",
-    somethingWentWrong: "Quelque chose s'est mal passé",
-    loading: "Chargement...",
-    generationTime: "Cela peut prendre 2 à 4 minutes. Vous pouvez continuer à défiler en attendant.",
-    retryButton: "Réessayer",
-    previewPlaying: "Aperçu: Votre piste joue pendant que nous terminons la version complète",
-    aiMusicVideo: "Clip Musical AI",
-    makeMorePersonal: "Rendez-le encore plus personnel",
-    upgradeDescription: "Ajoutez amis, école et lieux de sortie pour des paroles uniques avec vos souvenirs et les nouvelles de votre chronologie.",
-    upgradeToV2: "Passer à V2",
-    viewLyrics: "Voir les paroles",
-    hideLyrics: "Masquer les paroles",
-    yourYears: "Vos années",
-    yourStory: "Votre Histoire",
-    customizeTitle: "Personnaliser",
-    customizeDescription: "Ajustez vos données pour un résultat plus personnalisé avec vos souvenirs et les faits d'actualité.",
-    currentVersionV1: "Version actuelle (V1):",
-    cityLabelShort: "Ville",
-    genderForVoice: "Genre (pour la voix)",
-    personalMemories: "✨ Souvenirs personnels pour une chanson plus unique:",
-    top3Friends: "Top 3 amis de l'époque",
-    friendsPlaceholder: "Noms séparés par des virgules",
-    highSchool: "Lycée",
-    schoolPlaceholder: "Ex. Lycée Victor Hugo",
-    favoriteVenues: "Lieux de sortie favoris",
-    venuesPlaceholder: "Ex. Le Bataclan, Rex Club",
-    musicEngine: "Moteur Musical",
-    sunoDescription: "Suno (V4.5) — Qualité maximale",
-    acestepDescription: "Ace-Step — Plus rapide, self-hosted",
-    diffrhythmDescription: "DiffRhythm — Timestamps LRC, ultra rapide",
-    diffrhythmNote: "⏱️ DiffRhythm génère des timestamps LRC pour que la musique soit synchronisée avec vos événements.",
-    upgradeInfo: "Votre nouvelle bande-son capturera non seulement l'ambiance de votre époque, mais tissera aussi des faits d'actualité spécifiques de votre chronologie et vos souvenirs personnels dans une chanson vraiment unique.",
-    upgradeInfoTitle: "Passer à V2:",
-    generating: "En cours...",
-    generateV2: "Générer V2",
-    personalVideoClip: "Clip Vidéo Personnel",
-    adjustForPersonal: "Ajustez vos données pour un résultat plus personnel.",
-    generateVideoClip: "Générez un clip vidéo unique avec de la musique.",
-    geographicFocusLabel: "Focus géographique",
-    netherlandsLabel: "Pays-Bas",
-    europeLabel: "Europe",
-    worldLabel: "Monde",
-    musicStyleInfo: "La sous-culture détermine le style.",
-    musicStyleLabel: "Style musical:",
-    continueButton: "Continuer",
-    tipPersonalDetails: "Remplissez vos détails pour une chanson plus personnelle!",
-    tipLabel: "Conseil:",
-    writingLyricsStep: "Écriture des paroles",
-    aiWritingLyrics: "L'AI écrit une chanson nostalgique",
-    composingMusic: "Composition musicale",
-    aiComposingTrack: "Suno AI crée une piste unique",
-    readyLabel: "Prêt!",
-    listenToHit: "Écoutez votre hit personnel",
-    browserNoAudio: "Votre navigateur ne supporte pas l'audio.",
-    durationLabel: "Durée:",
-    minutesLabel: "minutes",
-    showSunoUrl: "Afficher l'URL Suno",
-    watchVideo: "Regarder la Vidéo",
-    startGeneration: "Lancer la Génération",
-    personalMemoriesForSong: "Souvenirs personnels pour une chanson plus unique:",
-    personalVideoClipButton: "🎬 Clip vidéo personnel",
-    occasionBirthday: "Anniversaire",
-    occasionAnniversary: "Jubilé",
-    occasionFun: "Juste pour le plaisir",
-    tooManyRequests: "Trop de requêtes. Veuillez réessayer plus tard.",
-    creditsExhausted: "Crédits épuisés. Veuillez ajouter des crédits.",
-    generationInterrupted: "Génération interrompue",
-    musicGenerationTimeout: "La génération de musique a pris trop de temps",
-    connectionLost: "Connexion perdue avant l'arrivée des résultats. Veuillez réessayer.",
-    defaultSummary: "Un aperçu des événements importants.",
-    loadingTooLong: "Le chargement a pris trop de temps et a été arrêté. Veuillez réessayer.",
-    unknownError: "Erreur inconnue",
-    fetchingEvents: "Chargement des événements...",
-    scrollToBegin: "Faites défiler pour commencer",
-    blacklistTooltip: "Blacklister la photo (global) et chercher une nouvelle",
-    blacklistAriaLabel: "Blacklister l'image",
-    timelineOf: "Chronologie de",
-    to: "à",
-    serverError: "Erreur serveur",
-    pollingFailed: "Vérification du statut échouée",
-    authWelcome: "Bienvenue chez Ton Année",
-    authSubtitle: "Créez un compte pour sauvegarder votre contenu",
-    authLogin: "Se connecter",
-    voiceElevenLabsLoginRequired: "Connectez-vous pour utiliser ElevenLabs",
-    voiceElevenLabsLoginRequiredDesc: "Les voix ElevenLabs sont réservées aux utilisateurs connectés.",
-    authSignUp: "S'inscrire",
-    authLogout: "Se déconnecter",
-    authEmail: "Adresse e-mail",
-    authPassword: "Mot de passe",
-    authDisplayName: "Nom",
-    authGoogleSignIn: "Continuer avec Google",
-    authOrEmail: "ou par e-mail",
-    authForgotPassword: "Mot de passe oublié ?",
-    authCheckEmail: "Vérifiez votre e-mail",
-    authVerifyEmailSent: "Nous vous avons envoyé un lien de vérification.",
-    authResetEmailSent: "Nous vous avons envoyé un lien de réinitialisation.",
-    authEnterEmail: "Veuillez d'abord entrer votre adresse e-mail",
-    authError: "Quelque chose s'est mal passé",
-    authNewPassword: "Définir un nouveau mot de passe",
-    authUpdatePassword: "Mettre à jour le mot de passe",
-    authPasswordUpdated: "Mot de passe mis à jour avec succès",
-    authInvalidResetLink: "Lien de réinitialisation invalide ou expiré",
-    authMyAccount: "Mon compte",
-    accountNoContent: "Pas encore de contenu sauvegardé",
-    accountNoContentDesc: "Vos chronologies générées apparaîtront ici",
-    accountSavedStories: "Chronologies sauvegardées",
-    accountViewStory: "Voir",
-    accountShareStory: "Partager",
-    accountDeleteStory: "Supprimer",
-    accountDeleteConfirm: "Êtes-vous sûr de vouloir supprimer cette chronologie ?",
-    accountStoryDeleted: "Chronologie supprimée",
-    accountCreatedAt: "Créée le",
-    accountBilling: "Paiements",
-    accountBillingDesc: "Gérez votre abonnement et vos coordonnées de paiement",
-    accountManageSubscription: "Gérer l'abonnement",
-    accountEvents: "événements",
-    saveEvent: "Sauvegarder l'événement",
-    eventSaved: "Événement sauvegardé",
-    eventAlreadySaved: "Déjà sauvegardé",
-    accountSavedEvents: "Événements sauvegardés",
-    accountNoSavedEvents: "Pas encore d'événements sauvegardés",
-    accountNoSavedEventsDesc: "Sauvegardez des événements individuels depuis votre chronologie",
-    eventDeleted: "Événement supprimé",
-    eventShared: "Événement copié dans le presse-papiers",
-
-    // OptionalInfoForm labels
-    friendsLabel: "Top 3 amis de l'époque",
-    friendsInputPlaceholder: "Noms séparés par des virgules (ex. Jean, Pierre, Paul)",
-    schoolLabel: "Lycée",
-    schoolInputPlaceholder: "Ex. Lycée Victor Hugo Paris",
-    nightlifeLabel: "Lieux de sortie favoris",
-    nightlifeInputPlaceholder: "Clubs/bars séparés par des virgules",
-
-    // PhaseSelector (HomeV2)
-    chooseDestination: "Choisissez votre destination",
-    whichVersionToVisit: "Quelle version de vous-même voulez-vous visiter?",
-    phaseBirthyearDesc: "Découvrez le monde dans lequel vous êtes né",
-    phaseChildhoodTitle: "Enfance",
-    phaseChildhoodDesc: "Revivez vos jours insouciants",
-    phasePubertyDesc: "Retour à votre premier amour",
-    phaseYoungAdultTitle: "Jeune Adulte",
-    phaseYoungAdultDesc: "Le temps de la liberté et de l'aventure",
-
-    // HomeV2 specific
-    backToBirthDate: "Retour à la date de naissance",
-    chooseOtherDestination: "Choisir une autre destination",
-    startMyTimeJourney: "Commencer mon Voyage dans le Temps",
-    goingBackTo: "Vous retournez en",
-
-    // Timeline Story button
-    timelineStoryButton: "Timeline Story",
-
-    chapterBirthDate: "Date de naissance",
-    chapterDestination: "Destination",
-    chapterIdentity: "Identité",
-    whoIsMainCharacter: "Qui est le personnage principal ?",
-    lastDetailsForJourney: "Les derniers détails pour votre voyage dans le temps personnel",
-    friendsCalledYou: "Comment vos amis vous appelaient-ils à l'époque ?",
-    namePlaceholder: "Ex. Johnny, Marie, DJ Pierre...",
-    forStoryStyle: "Pour le bon style de narration :",
-    genderHe: "Il",
-    genderShe: "Elle",
-    whenDidYourStoryBegin: "Quand votre histoire a-t-elle commencé ?",
-    fillBirthDateToStart: "Entrez votre date de naissance pour démarrer la machine à remonter le temps",
-    legendaryDayToStart: "Un jour légendaire pour commencer.",
-    daysOfWeek: ["Dimanche", "Lundi", "Mardi", "Mercredi", "Jeudi", "Vendredi", "Samedi"],
-    loadingArchives: "Parcourir les archives...",
-    loadingDustNewspapers: "Dépoussiérer les vieux journaux...",
-    loadingMemories: "Récupérer les souvenirs...",
-    loadingCassette: "Rembobiner la cassette...",
-    loadingVHS: "Rechercher dans les cassettes VHS...",
-    loadingHitsOf: "Rechercher les tubes de {year}...",
-    loadingDialUp: "Connexion par modem... bip boup...",
-    loadingWindows: "Démarrage de Windows 95...",
-    loadingBackTo: "Retour en {year}...",
-    loadingSearchArchives: "Rechercher dans les archives de {year}...",
-    loadingCollectMemories: "Rassembler les souvenirs...",
-    loadingPrepareJourney: "Préparer votre voyage dans le temps...",
-    timeTravelComplete: "Voyage dans le temps terminé",
-    timeTravelInProgress: "Voyage dans le temps en cours...",
-    scopeBirthday: "Anniversaire",
-    scopeOnBirthday: "Le jour de votre naissance",
-    scopeInBirthMonth: "Dans votre mois de naissance",
-    scopeInBirthYear: "Dans votre année de naissance",
-    endOfJourney: "Fin de votre voyage dans le temps",
-    takeYourStory: "Emportez votre histoire",
-    swipeToDiscover: "Glissez pour découvrir toutes les façons de revivre et partager votre histoire",
-    myLifeInMusic: "Ma Vie en Musique",
-    allNumberOneHits: "Tous les #1 hits",
-    discoverIconicHits: "Découvrez tous les hits #1 iconiques de votre timeline, sauvegardez vos favoris et partagez votre playlist.",
-    discoverHits: "Découvrir les hits",
-    myLifeInTvFilm: "Ma Vie en TV & Film",
-    seriesAndFilms: "Séries & films",
-    reliveIconicTv: "Revivez les séries TV iconiques et les blockbusters de votre vie avec des bandes-annonces sur YouTube.",
-    discoverTitles: "Découvrir les titres",
-    fullyPersonalized: "Entièrement Personnalisé",
-    fortyEvents: "40 événements • Vos détails",
-    makeStoryUnique: "Rendez votre histoire unique avec des détails personnels, 40 événements et une vidéo musicale plus longue.",
-    personalize: "Personnaliser",
-    roastMyLife: "Roast Ma Vie",
-    aiHumorShareable: "Humour IA • Partageable",
-    letAiRoast: "Laissez l'IA se moquer de votre vie (gentiment ou brutalement) basé sur votre timeline.",
-    roastMe: "Roast moi !",
-    spokenStory: "Histoire Parlée",
-    spokenStoryReady: "Votre histoire personnelle est prête",
-    spokenStoryGenerateAudioFor: "Générer l'audio pour {count} événements{intro}",
-    spokenStoryWithIntro: " + intro",
-    spokenStoryGenerating: "Génération audio... {pct}%",
-    spokenStoryGenerateButton: "Générer l'audio",
-    spokenStoryGeneratingShort: "Génération...",
-    spokenStoryError: "Échec de la génération audio",
-    aiVoiceNarration: "Voix IA • Narration",
-    listenToStory: "Écoutez votre histoire de vie en narration parlée avec des visuels et de la musique atmosphérique.",
-    myLifeInPolaroids: "Ma Vie en Polaroids",
-    retroStyle: "Style rétro",
-    relivePolaroids: "Revivez vos plus beaux moments en collection de photos polaroid nostalgiques.",
-    viewPolaroids: "Voir les polaroids",
-    myLifeAsPresentation: "Ma Vie en Présentation",
-    pdfAlbum: "PDF • Album A4",
-    downloadAlbumDesc: "Téléchargez un magnifique album A4 de votre histoire de vie en PDF.",
-    downloadPdf: "Télécharger PDF",
-    shareTitle: "Mon TimeStory",
-    shareVideoText: "Regardez ma vidéo timeline personnelle !",
-    shareWhatsapp: "Regardez mon TimeStory : {url}",
-    shareTelegram: "Regardez mon TimeStory !",
-    shareTwitter: "Regardez ma vidéo timeline personnelle !",
-    shareEmailSubject: "Regardez mon TimeStory",
-    shareEmailBody: "J'ai créé une vidéo timeline personnelle ! Regardez-la ici : {url}",
-    viewSharedVideo: "Voir votre vidéo partagée",
-    bornIn: "Né(e) en",
-    discoverYourJourneyFree: "Découvrez votre voyage dans le temps • Gratuit",
-    roastShareText: "🔥 Roast ma vie ({intensity}) - Découvrez votre voyage dans le temps sur {url}",
-    savedToast: "Sauvegardé !",
-    roastSavedDesc: "Le roast a été sauvegardé dans votre compte.",
-    errorToast: "Erreur",
-    roastSaveError: "Impossible de sauvegarder le roast.",
-    creatingImage: "Création de l'image...",
-    share: "Partager",
-    save: "Sauvegarder",
-    roastEmailSubject: "🔥 Roast ma vie",
-    roastEmailBody: "Regardez mon roast :\n\n{text}\n\nCréez votre propre voyage dans le temps sur {url}",
-    removeFromFavorites: "Retirer des favoris",
-    addToFavorites: "Ajouter aux favoris",
-    savedToAccount: "Sauvegardé dans votre compte",
-    saveToAccount: "Sauvegarder dans le compte",
-    loadingLocalHits: "Chargement des hits locaux pour {city}...",
-    tracksLoaded: "{loaded} / {total} titres chargés...",
-    loadingTvFilms: "Chargement des séries TV et films{city}...",
-    trailersSearched: "{loaded} / {total} bandes-annonces recherchées...",
-    yourMusicOverviewTitle: "Votre Aperçu Musical",
-    yourTvFilmOverviewTitle: "Votre Aperçu TV & Film",
-    tracksFoundFavorites: "{count} titres trouvés • {fav} favoris",
-    titlesFoundFavorites: "{count} titres trouvés • {fav} favoris",
-    inclLocalHitsSuffix: " • incl. hits {country}",
-    playlistAllTracks: "Playlist tous les {count} titres",
-    playlistFavoritesCount: "Playlist {count} favoris",
-    spotifyOpenHint: "Ouvre les titres dans Spotify. En cas d'échec, les liens sont copiés dans le presse-papiers.",
-    trailersAllPlay: "Lire les {count} bandes-annonces",
-    trailersFavoritesPlay: "Lire {count} favoris",
-    myFavoritesPlaylistLabel: "Mes Favoris",
-    localHitBadge: "Local",
-    noTracksAvailable: "Aucun titre disponible.",
-    noTrailersAvailable: "Aucune bande-annonce disponible.",
-    linksCopiedTitle: "Liens copiés !",
-    spotifyLinksCopiedDesc: "{count} liens Spotify copiés dans le presse-papiers. Collez-les dans une playlist Spotify.",
-    youtubeLinksCopiedDesc: "{count} liens YouTube copiés dans le presse-papiers.",
-    myMusicVideo: "Mon clip musical",
-    justReady: "Tout juste prêt",
-    yourPersonalMusicVideo: "Votre clip musical personnel",
-    alsoForYou: "Aussi pour vous",
-    unlock: "Débloquer",
-    open: "Ouvrir",
-    myTimeline: "Ma chronologie",
-    backToTimeline: "Retour à votre histoire",
-    scrollDownHint: "défiler vers le bas",
-    savedDescriptionTrack: "{name} est maintenant sur votre page de compte.",
-    savedDescriptionItem: "{title} est maintenant sur votre page de compte.",
-    errorLabel: "Erreur",
-    spotifyFailedSummary: "{count} sur {total} morceaux n'ont pas pu être chargés — Spotify est peut-être temporairement indisponible.",
-    localHitsFetchError: "Impossible de charger les hits locaux — réessayez plus tard.",
-    youtubeFailedSummary: "{count} sur {total} films/séries n'ont pas pu être chargés — YouTube est peut-être temporairement indisponible.",
-    numberOneHitDesc: "Hit n°1 de {year}. Album : {album}",
-    myMusicVideoTitle: "Mon Clip Musical",
-    eventsAiMusic: "{count} événements • Musique IA",
-    preparingMusicVideo: "Votre clip musical est en préparation...",
-    errorBoundaryTitle: "Une erreur s'est produite",
-    errorBoundaryBody: "Nous n'avons pas pu charger cette partie de l'application.",
-    errorBoundaryRetry: "Réessayer",
-    errorBoundaryHome: "Accueil",
-    notifTitlePulse: "🎵 En cours de création...",
-    notifPersonalMusicVideo: "Vidéo musicale personnelle",
-    notifProgressAria: "Vidéo musicale personnelle en cours de création — {pct}%",
-    notifProgressAriaCollapsed: "Vidéo musicale personnelle en cours de création — {pct}%, cliquez pour afficher",
-    notifTapToScroll: "Touchez pour faire défiler jusqu'à votre vidéo musicale",
-    notifTapToGo: "Touchez pour aller à votre vidéo musicale",
-    notifCollapse: "Réduire",
-    notifCollapseAria: "Réduire la notification",
-    notifProgressTitle: "Progression de la vidéo musicale",
-    notifMusicVideoFailed: "Vidéo musicale échouée",
-    notifMusicVideoFailedAria: "Vidéo musicale échouée — touchez pour réessayer",
-    notifTapToRetry: "Touchez pour réessayer",
-    notifRetry: "Réessayer",
-    notifReadyToPlay: "Prêt à lire",
-    notifYourMusicVideoFallback: "Votre vidéo musicale",
-    notifYourPersonalVideoReady: "Votre vidéo musicale personnelle est prête.",
-    notifWatchNow: "Regarder maintenant",
-    notifLater: "Plus tard",
-    notifClose: "Fermer",
-    notifOpenMusicVideo: "Ouvrir la notification vidéo musicale",
-    shareYourVideoTitle: "Partagez votre vidéo",
-    shareGeneratingLink: "Un instant, nous créons votre lien partageable...",
-    shareReadyDesc: "Votre vidéo est prête à être partagée !",
-    shareSomethingWrong: "Une erreur s'est produite",
-    shareUploadFailed: "Échec du téléchargement",
-    shareTryAgain: "Réessayer",
-    shareCopyLinkLabel: "Copier le lien",
-    shareDeleteEllipsis: "Partager...",
-    shareViaLabel: "Partager via",
-    shareGenericError: "Une erreur s'est produite",
-    tiktokIntroTitle: "Votre voyage dans le temps",
-    tiktokOutroTitle: "Créez votre propre voyage dans le temps !",
-    tiktokWatermark: "TimeStory",
-    tiktokUnknownError: "Erreur inconnue",
-    tiktokWebShareUnavailable: "API Web Share non disponible",
-    tiktokCannotShareFiles: "Impossible de partager ces fichiers",
-    introReadyTitle: "🎬 Votre vidéo musicale personnelle est prête",
-    introReadyHint: "Appuyez sur ▶ pour lire",
-    introReadyTitleNarrative: "📖 Votre récit personnel est prêt",
-    introReadyHintNarrative: "Appuyez sur ▶ pour lire",
-    pdfDefaultFirstName: "Toi",
-    pdfDefaultStoryName: "TimeStory",
-    pdfTitleFallback: "L'année de {name}",
-    pdfAlbumFooter: "Album TimeStory",
-    pdfAlbumFileSuffix: "Album",
-    pdfCatPolitics: "Politique",
-    pdfCatSports: "Sport",
-    pdfCatEntertainment: "Divertissement",
-    pdfCatScience: "Science",
-    pdfCatCulture: "Culture",
-    pdfCatWorld: "Monde",
-    pdfCatLocal: "Local",
-    pdfCatPersonal: "Personnel",
-    pdfCatMusic: "Musique",
-    pdfCatTechnology: "Technologie",
-    pdfCatCelebrity: "Célébrité",
-    pdfCatUnknown: "Inconnu",
-    pdfTypeBirthdate: "Ce jour-là",
-    pdfTypeBirthmonth: "Ce mois-ci",
-    pdfTypeBirthyear: "Cette année",
-    pdfTypePeriod: "Période",
-    pdfPersonalJourneyFor: "Le voyage personnel à travers le temps pour",
-    pdfYourStory: "Votre histoire",
-    pdfInThisIssue: "Dans ce numéro",
-    pdfAlsoBornToday: "Également nés ce jour-là",
-    pdfThanksFor: "Merci pour",
-    pdfThanksShort: "Merci !",
-    imageCreationFailed: "Une erreur s'est produite lors de la création de l'image",
-    copiedTitle: "Copié !",
-    textCopiedDesc: "Texte copié dans le presse-papiers.",
-    oopsTitle: "Oups",
-    roastGenerationFailed: "Impossible de générer le roast",
-    roastImageFailed: "Impossible de générer l'image.",
-    downloadedTitle: "Téléchargé !",
-    shareImageOnSocial: "Partagez l'image sur les réseaux sociaux !",
-    loginRequiredTitle: "Connectez-vous",
-    loginRequiredRoastDesc: "Créez un compte pour sauvegarder votre roast.",
-    savedTitle: "Sauvegardé !",
-    errorShortLabel: "Erreur",
-    roastSaveFailed: "Impossible de sauvegarder le roast.",
-    trailerNotFoundTitle: "Bande-annonce introuvable",
-    trailerNotFoundDesc: "Aucune bande-annonce trouvée pour ce film.",
-    connectionErrorTitle: "Erreur de connexion",
-    connectionErrorDesc: "Impossible de se connecter au serveur. Veuillez réessayer plus tard.",
-    pdfGenerationFailed: "Échec de la génération PDF",
-    imageBlacklistedTitle: "Image bloquée",
-    imageBlacklistedDesc: "Nouvelle recherche lancée...",
-    eventsFoundDesc: "{count} événements trouvés",
-    ariaPrev: "Précédent",
-    ariaNext: "Suivant",
-    ariaStopTrailer: "Arrêter la bande-annonce",
-    ariaCloseTrailer: "Fermer la bande-annonce",
-    ariaPlayTrailer: "Lire la bande-annonce",
-    ariaBlacklistImage: "Bloquer l'image",
-    blacklistImageTitle: "Bloquer la photo (global) et rechercher à nouveau",
-    playSongCompact: "Chanson",
-    playSongLabel: "Lire la chanson",
-    searchingPhotoLabel: "Recherche de photo...",
-    scrollToLoadPhoto: "Faites défiler pour charger la photo",
-    debugInfoTitle: "Infos de débogage",
-    debugInfoFilterPlaceholder: "Filtrer par titre, catégorie, type...",
-    debugInfoBlacklistThumb: "Bloquer cette image",
-    debugInfoReloadAll: "Recharger toutes les images",
-    debugInfoSearchingShort: "Recherche...",
-    debugInfoLabelImages: "image",
-    debugInfoLabelSounds: "son",
-    debugInfoNone: "Aucun",
-    promptCopyToClipboard: "Copier dans le presse-papiers",
-    promptCopiedShort: "Copié",
-    quickRefreshTitle: "Actualisation rapide (20 événements)",
-    fullRefreshTitle: "Actualisation complète (50 événements)",
-    roastTitle: "Roast ma vie",
-    roastIntensityLabel: "Intensité",
-    roastIntensityMild: "Doux",
-    roastIntensitySpicy: "Épicé",
-    roastIntensityMedium: "Moyen",
-    roastIntensitySharp: "Piquant",
-    roastIntensityExtreme: "Extrême",
-    roastWriting: "Écriture du roast {level}...",
-    roastShareLabel: "Partager",
-    roastImageMaking: "Création de l'image...",
-    roastSaveLabel: "Sauvegarder",
-    roastImageAlt: "Image roast",
-    roastShareViaLabel: "Partager via",
-    roastNativeShareLabel: "Partager...",
-    roastCopyText: "Copier le texte",
-    roastCopiedShort: "Copié !",
-    roastDownloadImage: "Télécharger l'image",
-    roastShareTextTpl: "🔥 Roast ma vie ({level}) - Découvrez votre voyage dans le temps sur {url}",
-    roastImageHeading: "ROAST MA VIE",
-    roastBornInLabel: "Né(e) en {year}",
-    roastFooterTagline: "Découvrez votre voyage dans le temps • Gratuit",
-    roastNoneReceived: "Aucun roast reçu",
-  },
-};
-
-
-
-/**
- * Lightweight translation helper for non-React files (API utils, hooks).
- * Returns TranslationValue (string or string[]). Use getTranslationString() when you need a string.
- */
-export function getTranslation(key: TranslationKey, language: Language): TranslationValue {
-  const value = (translations[language] as Record<string, unknown>)?.[key] ?? (translations.nl as Record<string, unknown>)?.[key] ?? key;
-  return (typeof value === 'string' || Array.isArray(value)) ? (value as TranslationValue) : key;
-}
-
-/** Same as getTranslation but always returns a string (for keys known to be strings). */
-export function getTranslationString(key: TranslationKey, language: Language): string {
-  const value = getTranslation(key, language);
-  return typeof value === 'string' ? value : key;
-}
-
-export const useTranslation = (lang: Language = "nl") => {
-  const t = (key: TranslationKey): TranslationValue => {
-    return translations[lang][key] || translations.nl[key] || key;
-  };
-
-  return { t, lang };
-};
@@ -0,0 +1,26 @@
+/**
+ * Locale-aware date and number formatting in the app's languages. Use these
+ * instead of toLocaleDateString() with a hand-picked locale.
+ */
+import { LOCALE_TAGS } from "./languages";
+import type { Language } from "./languages";
+
+export type DateInput = Date | string | number;
+
+const LONG_DATE: Intl.DateTimeFormatOptions = { day: "numeric", month: "long", year: "numeric" };
+
+/** "15 januari 1969", "January 15, 1969", "15 stycznia 1969" - pass options for other shapes. */
+export function formatDate(date: DateInput, language: Language, options: Intl.DateTimeFormatOptions = LONG_DATE): string {
+  return new Intl.DateTimeFormat(LOCALE_TAGS[language], options).format(date instanceof Date ? date : new Date(date));
+}
+
+/** "1.234,5" in Dutch, "1,234.5" in English; pass { style: "currency", currency: "EUR" } for prices. */
+export function formatNumber(value: number, language: Language, options?: Intl.NumberFormatOptions): string {
+  return new Intl.NumberFormat(LOCALE_TAGS[language], options).format(value);
+}
+
+/** Month names, January first, as they appear on their own ("januari", "styczeń"). */
+export function getMonthNames(language: Language, month: "long" | "short" = "long"): string[] {
+  const format = new Intl.DateTimeFormat(LOCALE_TAGS[language], { month });
+  return Array.from({ length: 12 }, (_, i) => format.format(new Date(2000, i, 1)));
+}
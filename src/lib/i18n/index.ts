@@ -0,0 +1,72 @@
+import nl from "./locales/nl";
+import { formatMessage } from "./messageFormat";
+import type { Language } from "./languages";
+import type { MessageKey, Messages, MessageValues, TranslationKey, TranslationValue } from "./types";
+
+export { SUPPORTED_LANGUAGES, LOCALE_TAGS, LANG_STORAGE_KEY, getInitialLanguage } from "./languages";
+export type { Language } from "./languages";
+export type {
+  MessageKey,
+  Messages,
+  MessageValues,
+  Translate,
+  TranslationKey,
+  TranslationValue,
+  TranslationValueOf,
+} from "./types";
+export { formatMessage } from "./messageFormat";
+export { formatDate, formatNumber, getMonthNames } from "./format";
+export type { DateInput } from "./format";
+
+// Dutch ships with the app; every other locale is its own chunk, fetched on first use
+const bundles: Partial<Record<Language, Messages>> = { nl };
+
+const loaders: Record<Exclude<Language, "nl">, () => Promise<{ default: Messages }>> = {
+  en: () => import("./locales/en"),
+  de: () => import("./locales/de"),
+  fr: () => import("./locales/fr"),
+  es: () => import("./locales/es"),
+  it: () => import("./locales/it"),
+  pt: () => import("./locales/pt"),
+  pl: () => import("./locales/pl"),
+};
+
+const pending = new Map<Language, Promise<Messages>>();
+
+export function isLocaleLoaded(language: Language): boolean {
+  return bundles[language] !== undefined;
+}
+
+/** Fetches a locale bundle once; concurrent calls share the request and a failed one can be retried. */
+export function loadLocale(language: Language): Promise<Messages> {
+  const loaded = bundles[language];
+  if (loaded) return Promise.resolve(loaded);
+
+  let request = pending.get(language);
+  if (!request) {
+    request = loaders[language as Exclude<Language, "nl">]()
+      .then((module) => {
+        bundles[language] = module.default;
+        return module.default;
+      })
+      .finally(() => pending.delete(language));
+    pending.set(language, request);
+  }
+  return request;
+}
+
+/**
+ * Lightweight translation helper for non-React files (API utils, hooks).
+ * Falls back to Dutch while the language's bundle has not loaded yet.
+ * Returns TranslationValue (string or string[]). Use getTranslationString() when you need a string.
+ */
+export function getTranslation(key: TranslationKey, language: Language): TranslationValue {
+  return bundles[language]?.[key] || nl[key] || key;
+}
+
+/** Same as getTranslation but always returns a string, with ICU values filled in when given. */
+export function getTranslationString(key: MessageKey, language: Language, values?: MessageValues): string {
+  const value = getTranslation(key, language);
+  if (typeof value !== "string") return key;
+  return values ? formatMessage(value, values, language) : value;
+}
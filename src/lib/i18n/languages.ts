@@ -0,0 +1,44 @@
+export type Language = "nl" | "en" | "de" | "fr" | "es" | "it" | "pt" | "pl";
+
+export const SUPPORTED_LANGUAGES: readonly Language[] = ["nl", "en", "de", "fr", "es", "it", "pt", "pl"];
+
+/** BCP 47 tags for date/number formatting and Google TTS voices. Mirrored in supabase/functions/_shared/languages.ts. */
+export const LOCALE_TAGS: Record<Language, string> = {
+  nl: "nl-NL",
+  en: "en-US",
+  de: "de-DE",
+  fr: "fr-FR",
+  es: "es-ES",
+  it: "it-IT",
+  pt: "pt-PT",
+  pl: "pl-PL",
+};
+
+
+/** localStorage key for the visitor's chosen language. */
+export const LANG_STORAGE_KEY = "app_language";
+
+/**
+ * The language to start in. Priority: URL ?lang= > localStorage > domain default > 'nl'.
+ * Used by main.tsx to preload the bundle before the first render, and by LanguageProvider.
+ */
+export const getInitialLanguage = (): Language => {
+  if (typeof window === "undefined") return "nl";
+  const hostname = window.location.hostname;
+  const urlParams = new URLSearchParams(window.location.search);
+  const langParam = urlParams.get("lang") as Language;
+
+  if (langParam && SUPPORTED_LANGUAGES.includes(langParam)) {
+    return langParam;
+  }
+
+  try {
+    const stored = localStorage.getItem(LANG_STORAGE_KEY) as Language | null;
+    if (stored && SUPPORTED_LANGUAGES.includes(stored)) return stored;
+  } catch { /* ignore */ }
+
+  if (hostname.includes("seemyyear.com") || hostname.includes("rewindmyera.com")) {
+    return "en";
+  }
+  return "nl";
+};
@@ -0,0 +1,784 @@
+import type { Messages } from "../types";
+
+const de: Messages = {
+  siteTitle: "Das Jahr von",
+  heroTitle: "Deine Geschichte in der Zeit",
+  heroSubtitle: "Entdecke, was am Tag deiner Geburt geschah, oder reise durch die Jahre mit einem persönlichen historischen Überblick.",
+  startButton: "Starte Deine Reise",
+  choiceTitle: "Was möchtest du entdecken?",
+  choiceSubtitle: "Wähle, wie du durch die Zeit reisen möchtest",
+  option1Title: "Das Jahr, der Monat und der Tag von...",
+  option1Description: "Entdecke alles über ein bestimmtes Geburtsdatum: was geschah in diesem Jahr, diesem Monat und an diesem Tag?",
+  option2Title: "Eine Zeitreise von Jahr zu Jahr",
+  option2Description: "Erstelle einen historischen Überblick über eine ganze Periode, perfekt für Jubiläen oder um eine Ära wiederzuerleben.",
+  birthDateLabel: "Geburtsdatum",
+  birthDateQuestion: "Was ist dein Geburtsdatum?",
+  dayLabel: "Tag",
+  monthLabel: "Monat",
+  yearLabel: "Jahr",
+  startYearLabel: "Startjahr",
+  endYearLabel: "Endjahr",
+  periodQuestion: "Welche Periode möchtest du wiedererleben?",
+  periodBirthyear: "Geburtsjahr",
+  periodBirthyearDesc: "Das Jahr, in dem du geboren wurdest",
+  periodChildhood: "Kindheit",
+  periodChildhoodDesc: "6-12 Jahre",
+  periodPuberty: "Pubertät",
+  periodPubertyDesc: "12-17 Jahre",
+  periodYoungAdult: "Junger Erwachsener",
+  periodYoungAdultDesc: "18-25 Jahre",
+  periodCustom: "Anders",
+  periodCustomDesc: "Wähle selbst eine Periode",
+  timelineLengthQuestion: "Wie viele Momente möchtest du sehen?",
+  timelineShort: "Kurz",
+  timelineShortDesc: "20 Momente",
+  timelineLong: "Ausführlich",
+  timelineLongDesc: "50 Momente",
+  createTimelineButton: "Zeitreise-Übersicht erstellen",
+  createPolaroidButton: "Zeitreise-Polaroid erstellen",
+  optionalInfoTitle: "Mach es persönlicher",
+  optionalInfoSubtitle: "Diese Informationen sind optional, helfen uns aber, eine reichere Geschichte zu erstellen",
+  nameLabel: "Name",
+  firstNameLabel: "Vorname",
+  firstNamePlaceholder: "Z.B. Hans",
+  lastNameLabel: "Nachname",
+  lastNamePlaceholder: "Z.B. Müller",
+  cityLabel: "Stadt",
+  cityPlaceholder: "Z.B. Amsterdam",
+  partnerLabel: "Partner",
+  childrenLabel: "Kinder",
+  child1NameLabel: "Name Kind 1",
+  child1BirthLabel: "Geburtsdatum Kind 1",
+  child2NameLabel: "Name Kind 2",
+  child2BirthLabel: "Geburtsdatum Kind 2",
+  child3NameLabel: "Name Kind 3",
+  child3BirthLabel: "Geburtsdatum Kind 3",
+  partnerNameLabel: "Name Partner",
+  partnerBirthLabel: "Geburtsdatum Partner",
+  siblingsLabel: "Geschwister",
+  siblingNamePlaceholder: "Name",
+  siblingBirthLabel: "Geburtsdatum",
+  addSibling: "Bruder oder Schwester hinzufügen",
+  removeSibling: "Entfernen",
+  sharedTimelineLabel: "Gemeinsame Jahre",
+  sharedTimelineHint: "Eine Zeitleiste für dich und deinen Partner oder deine Geschwister, mit dem Alter aller bei jedem Moment.",
+  metYearLabel: "Jahr, in dem ihr euch kennengelernt habt (optional)",
+  sharedYou: "Du",
+  sharedPersonAge: "{name} · {age} Jahre",
+  sharedPersonNotBorn: "{name} · noch nicht geboren",
+  sharedYearWeMet: "Das Jahr, in dem wir uns trafen",
+  compareTitle: "Dein Jahr vs. mein Jahr",
+  compareDescription: "Vergleiche zwei Jahre nebeneinander: Musik, TV, Technik und Politik, und was sich dazwischen verändert hat.",
+  compareNameLabel: "Name",
+  compareYearLabel: "Jahr",
+  compareSideYou: "Du",
+  compareSideFriend: "Freund(in)",
+  compareStart: "Vergleichen",
+  compareLoading: "Beide Jahre werden erstellt...",
+  compareWhatChanged: "Was sich dazwischen verändert hat",
+  compareNothingInCategory: "Nichts in dieser Kategorie",
+  compareFailed: "Vergleich konnte nicht erstellt werden",
+  compareCatMusic: "Musik",
+  compareCatTv: "TV & Film",
+  compareCatTechnology: "Technik",
+  compareCatPolitics: "Politik & Welt",
+  compareYearsTile: "Dein Jahr vs. das eines Freundes",
+  compareYearsTileSubtitle: "Zwei Jahre nebeneinander",
+  renderDownloadButton: "Herunterladen",
+  renderDownloadTitle: "Als Videodatei herunterladen",
+  renderFormatLabel: "Format",
+  renderResolutionLabel: "Auflösung",
+  renderStart: "Video erstellen",
+  renderSavingStory: "Geschichte wird gespeichert...",
+  renderQueued: "In der Warteschlange...",
+  renderProgress: "Video wird erstellt... {pct}%",
+  renderDownload: "{format} herunterladen",
+  renderFailed: "Video konnte nicht erstellt werden",
+  captionsToggle: "Untertitel",
+  captionsDownload: "Untertitel:",
+  interestsLabel: "Interessen",
+  interestsPlaceholder: "Z.B. Sport, Musik, Computer, Politik",
+  focusLabel: "Geografischer Fokus",
+  focusNetherlands: "Niederlande",
+  focusEurope: "Europa",
+  focusWorld: "Welt",
+  nextButton: "Weiter",
+  backButton: "Zurück",
+  skipButton: "Überspringen",
+  generateButton: "Erstelle Meine Zeitreise",
+  confirmButton: "Bestätigen",
+  cancelButton: "Abbrechen",
+  refreshButton: "Neu laden",
+  customDialogTitle: "Personalisiere deine Zeitreise",
+  customDialogDescription: "Passe die Jahre an oder füge zusätzliche Informationen hinzu",
+  adjustButton: "Anpassen",
+  subcultureLabel: "Subkultur",
+  subcultureNoPreference: "Keine Präferenz",
+  subcultureBrands: "Marken",
+  subcultureMusic: "Musik",
+  subcultureClothing: "Kleidung",
+  discoverMore: "Mehr entdecken",
+  discoverMusicTitle: "Mein Leben in Musik",
+  discoverMusicDesc: "Entdecke die #1 Hits aus deinen Jahren",
+  discoverTvFilmTitle: "Mein Leben in TV & Film",
+  discoverTvFilmDesc: "Ikonische Filme und Serien aus deiner Zeit",
+  discoverPolaroidTitle: "Mein Leben in Polaroids",
+  discoverPolaroidDesc: "Deine Geschichte als Polaroid-Collage",
+  discoverStoryTitle: "Meine Zeitlinie",
+  discoverStoryDesc: "Die komplette Geschichte deines Lebens",
+  badgeFree: "Kostenlos",
+  badgePremium: "Premium",
+  customFromYear: "Von Jahr",
+  customToYear: "Bis Jahr",
+  customFromPlaceholder: "z.B. 1985",
+  customToPlaceholder: "z.B. 1995",
+  backToInput: "Zurück zur Eingabe",
+  yourTimeJourney: "Deine Zeitreise",
+  magazinePdf: "Magazin PDF",
+  polaroidPdf: "Polaroid PDF",
+  alsoborn: "Auch geboren:",
+  moreCount: "mehr",
+  loadingImages: "Bilder laden...",
+  photosCount: "Fotos",
+  loadingTitle: "Wir reisen zurück in der Zeit...",
+  loadingSubtitle: "Das kann einen Moment dauern",
+  eventsLoaded: "Ereignisse geladen...",
+  timelineLoaded: "Zeitlinie geladen!",
+  eventsFound: "Ereignisse gefunden",
+  errorTitle: "Etwas ist schiefgelaufen",
+  tryAgain: "Erneut versuchen",
+  noDataFound: "Keine Daten gefunden",
+  backToStart: "Zurück zum Start",
+  pdfDownloaded: "PDF heruntergeladen!",
+  pdfMagazineReady: "Dein Zeitreise-Magazin ist fertig",
+  polaroidPdfDownloaded: "Polaroid PDF heruntergeladen!",
+  polaroidReady: "Deine 80er Polaroid-Edition ist fertig",
+  albumDownloaded: "Album heruntergeladen!",
+  albumReady: "Dein TimeStory Album ist fertig",
+  downloadAlbum: "Album herunterladen (PDF)",
+  pdfError: "Fehler beim PDF-Generieren",
+  pdfTryAgain: "Bitte versuche es erneut",
+  shareToTikTok: "Auf TikTok teilen",
+  generatingSlides: "Bilder werden generiert...",
+  shareSuccess: "Geteilt!",
+  tikTokReady: "Deine TikTok-Slides sind fertig",
+  shareError: "Teilen fehlgeschlagen",
+  slidesReady: "Slides fertig!",
+  tapToShare: "Tippe auf den grünen Button zum Teilen",
+  prepareSlides: "Slides vorbereiten",
+  shareNow: "Jetzt teilen",
+  createCollage: "Collage erstellen (6 Fotos)",
+  selectPhotos: "Wähle 6 Fotos",
+  selectedCount: "Ausgewählt",
+  maxPhotosReached: "Maximal 6 Fotos",
+  generateCollage: "Collage herunterladen",
+  collageDownloaded: "Collage heruntergeladen!",
+  collageReady: "Deine Polaroid-Collage ist fertig",
+  collageError: "Fehler beim Erstellen der Collage",
+  cancelSelection: "Abbrechen",
+  loadError: "Ladefehler",
+  required: "Dieses Feld ist erforderlich",
+  invalidDate: "Dieses Datum existiert nicht — bitte Tag und Monat prüfen.",
+  yearRange: "Jahr muss zwischen 1900 und aktuellem Jahr liegen",
+  endYearAfterStart: "Endjahr muss nach Startjahr liegen",
+  fillBirthDate: "Bitte gib dein Geburtsdatum ein",
+  validYearRange: "Bitte gib ein gültiges Geburtsjahr ein",
+  choosePeriod: "Bitte wähle eine Periode",
+  fillBothYears: "Bitte fülle beide Jahre aus",
+  validYears: "Bitte gib gültige Jahre ein",
+  months: [
+    "Januar", "Februar", "März", "April", "Mai", "Juni",
+    "Juli", "August", "September", "Oktober", "November", "Dezember",
+  ] as readonly string[],
+  birthDateStepLabel: "Geburtsdatum",
+  periodStepLabel: "Welche Periode?",
+  styleStepLabel: "Stil & Subkultur",
+  cityQuestion: "Welcher Ort war damals am wichtigsten?",
+  pressEnterToContinue: "Drücke Enter um fortzufahren",
+  startTimeJourney: "Starte meine Zeitreise",
+  recentStoriesTitle: "Frühere Geschichten",
+  recentStoriesSearchPlaceholder: "Nach Name, Ort, Jahr oder Ereignis suchen…",
+  recentStoriesNoResults: "Keine Geschichten gefunden",
+  recentStoriesDelete: "Geschichte löschen",
+  recentStoriesEventCount: "{count, plural, one {# Ereignis} other {# Ereignisse}}",
+  genderLabel: "Geschlecht",
+  genderMale: "Männlich",
+  genderFemale: "Weiblich",
+  genderNone: "Keine Präferenz",
+  genderNeutral: "Neutral",
+  periodBirthyearLong: "Das Jahr, in dem du zur Welt kamst",
+  periodChildhoodLong: "Draußen spielen, erste Freunde, Grundschule",
+  periodPubertyLong: "Erste Verliebtheit, Musik entdecken",
+  periodYoungAdultLong: "Ausgehen, studieren, die Welt entdecken",
+  yourMusicVideo: "Dein Musikvideo",
+  previewVersion: "Vorschau-Version",
+  personalizedVersion: "Personalisierte Version",
+  shareButton: "Teilen",
+  writingLyrics: "Songtext wird geschrieben...",
+  startingMusic: "Musik wird gestartet...",
+  composingSoundtrack: "Dein persönlicher Soundtrack wird komponiert...",
+  soundtrackStreaming: "Dein persönlicher Soundtrack spielt ab (wird noch fertiggestellt)...",
+  musicVideoReady: "Dein Musikvideo ist fertig!",
+  somethingWentWrong: "Etwas ist schiefgelaufen",
+  loading: "Laden...",
+  generationTime: "Dies kann 2-4 Minuten dauern. Du kannst in der Zwischenzeit weiterscrollen.",
+  retryButton: "Erneut",
+  previewPlaying: "Vorschau: Dein Track spielt, während wir die vollständige Version fertigstellen",
+  aiMusicVideo: "AI Musikvideo",
+  makeMorePersonal: "Mach es noch persönlicher",
+  upgradeDescription: "Füge Freunde, Schule und Ausgehorte hinzu für einzigartige Songtexte mit deinen Erinnerungen und den Nachrichten aus deiner Zeitlinie.",
+  upgradeToV2: "Upgrade auf V2",
+  viewLyrics: "Songtext anzeigen",
+  hideLyrics: "Songtext verbergen",
+  yourYears: "Deine Jahre",
+  yourStory: "Deine Geschichte",
+  customizeTitle: "Anpassen",
+  customizeDescription: "Passe deine Daten an für ein persönlicheres Ergebnis mit deinen Erinnerungen und Nachrichtenfakten.",
+  currentVersionV1: "Aktuelle Version (V1):",
+  cityLabelShort: "Stadt",
+  genderForVoice: "Geschlecht (für Stimme)",
+  personalMemories: "✨ Persönliche Erinnerungen für ein einzigartigeres Lied:",
+  top3Friends: "Top 3 Freunde von damals",
+  friendsPlaceholder: "Namen durch Kommas getrennt",
+  highSchool: "Gymnasium",
+  schoolPlaceholder: "Z.B. Friedrich-Gymnasium",
+  favoriteVenues: "Lieblingslokale",
+  venuesPlaceholder: "Z.B. Berghain, Tresor",
+  musicEngine: "Musik Engine",
+  sunoDescription: "Suno (V4.5) — Höchste Qualität",
+  acestepDescription: "Ace-Step — Schneller, self-hosted",
+  diffrhythmDescription: "DiffRhythm — LRC Timestamps, ultraschnell",
+  diffrhythmNote: "⏱️ DiffRhythm generiert LRC-Timestamps, damit Musik synchron mit deinen Zeitlinie-Events läuft.",
+  upgradeInfo: "Dein neuer Soundtrack wird nicht nur die Stimmung deiner Zeit einfangen, sondern auch spezifische Nachrichtenfakten aus deiner Zeitlinie und deine persönlichen Erinnerungen zu einem wirklich einzigartigen Lied verweben.",
+  upgradeInfoTitle: "Upgrade auf V2:",
+  generating: "Läuft...",
+  generateV2: "V2 generieren",
+  personalVideoClip: "Persönlicher Video Clip",
+  adjustForPersonal: "Passe deine Daten für ein persönlicheres Ergebnis an.",
+  generateVideoClip: "Generiere einen einzigartigen Videoclip mit Musik.",
+  geographicFocusLabel: "Geografischer Fokus",
+  netherlandsLabel: "Niederlande",
+  europeLabel: "Europa",
+  worldLabel: "Welt",
+  musicStyleInfo: "Subkultur bestimmt den Stil.",
+  musicStyleLabel: "Musikstil:",
+  continueButton: "Weiter",
+  tipPersonalDetails: "Fülle deine Details aus für ein persönlicheres Lied!",
+  tipLabel: "Tipp:",
+  writingLyricsStep: "Songtext schreiben",
+  aiWritingLyrics: "AI schreibt ein nostalgisches Lied",
+  composingMusic: "Musik komponieren",
+  aiComposingTrack: "Suno AI erstellt einen einzigartigen Track",
+  readyLabel: "Fertig!",
+  listenToHit: "Höre deinen persönlichen Hit",
+  browserNoAudio: "Dein Browser unterstützt kein Audio.",
+  durationLabel: "Dauer:",
+  minutesLabel: "Minuten",
+  showSunoUrl: "Suno URL anzeigen",
+  watchVideo: "Video ansehen",
+  startGeneration: "Generierung starten",
+  personalMemoriesForSong: "Persönliche Erinnerungen für ein einzigartigeres Lied:",
+  personalVideoClipButton: "🎬 Persönlicher Videoclip",
+  occasionBirthday: "Geburtstag",
+  occasionAnniversary: "Jubiläum",
+  occasionFun: "Einfach zum Spaß",
+  tooManyRequests: "Zu viele Anfragen. Bitte versuche es später erneut.",
+  creditsExhausted: "Credits aufgebraucht. Bitte füge Credits hinzu.",
+  generationInterrupted: "Generierung unterbrochen",
+  musicGenerationTimeout: "Musikgenerierung hat zu lange gedauert",
+  connectionLost: "Verbindung unterbrochen bevor Ergebnisse ankamen. Bitte erneut versuchen.",
+  defaultSummary: "Ein Überblick über wichtige Ereignisse.",
+  loadingTooLong: "Das Laden hat zu lange gedauert und wurde gestoppt. Bitte erneut versuchen.",
+  unknownError: "Unbekannter Fehler",
+  fetchingEvents: "Ereignisse werden geladen...",
+  scrollToBegin: "Scrolle um zu beginnen",
+  blacklistTooltip: "Foto blacklisten (global) und neue suchen",
+  blacklistAriaLabel: "Bild blacklisten",
+  regenerateEventTooltip: "Gib mir etwas anderes",
+  regenerateEventAriaLabel: "Dieses Ereignis durch ein anderes ersetzen",
+  regenerateEventNoResult: "Kein Ersatzereignis gefunden. Bitte erneut versuchen.",
+  regenerateEventFailed: "Ersetzen fehlgeschlagen",
+  chooseImageTooltip: "Anderes Foto wählen",
+  chooseImageTitle: "Foto wählen",
+  useThisImage: "Dieses Foto verwenden",
+  currentImage: "Aktuelles Foto",
+  imageLicenseUnknown: "Lizenz unbekannt",
+  imageCredits: "Bildnachweis",
+  editTimeline: "Zeitleiste bearbeiten",
+  doneEditing: "Bearbeitung beenden",
+  editorTitleLabel: "Titel",
+  editorDescriptionLabel: "Beschreibung",
+  editorDateLabel: "Datum",
+  editorDateHint: "JJJJ, JJJJ-MM oder JJJJ-MM-TT",
+  editorCategoryLabel: "Kategorie",
+  editorImportanceLabel: "Wichtigkeit",
+  importanceHigh: "Hoch",
+  importanceMedium: "Mittel",
+  importanceLow: "Niedrig",
+  editorUploadPhoto: "Eigenes Foto hochladen",
+  editorMoveUp: "Nach oben",
+  editorMoveDown: "Nach unten",
+  editorDeleteEvent: "Ereignis löschen",
+  editorAddPersonalEvent: "Persönlichen Moment hinzufügen",
+  editorPhotoFailed: "Foto konnte nicht geladen werden",
+  uploadPhotos: "Eigene Fotos hinzufügen",
+  uploadPhotosTitle: "Eigene Fotos hinzufügen",
+  uploadPhotosDescription: "Wir lesen das Aufnahmedatum deiner Fotos aus und schlagen ein Jahr vor. Füge ein Foto als eigene Karte hinzu oder ersetze das Bild eines Ereignisses.",
+  uploadPhotosChoose: "Fotos auswählen",
+  photoTakenOn: "Aufgenommen am {date}",
+  photoNoCaptureDate: "Kein Aufnahmedatum gefunden",
+  photoYearLabel: "Jahr",
+  photoPlacementLabel: "Platzierung",
+  photoPlacementNewCard: "Als eigene Karte",
+  photoPlacementReplace: "Bild ersetzen von: {title}",
+  photoCaptionLabel: "Bildunterschrift",
+  photoRemove: "Foto entfernen",
+  uploadPhotosConfirm: "Zur Geschichte hinzufügen",
+  uploadPhotosUploading: "Wird hochgeladen...",
+  uploadPhotosFailed: "Hochladen fehlgeschlagen",
+  uploadPhotosFailedCount: "{count, plural, one {# Foto konnte nicht hochgeladen werden} other {# Fotos konnten nicht hochgeladen werden}}",
+  ownPhotoBadge: "Eigenes Foto",
+  timelineOf: "Zeitleiste von",
+  to: "bis",
+  serverError: "Serverfehler",
+  pollingFailed: "Statusprüfung fehlgeschlagen",
+  authWelcome: "Willkommen bei Dein Jahr",
+  authSubtitle: "Erstelle ein Konto, um deine Inhalte zu speichern",
+  authLogin: "Anmelden",
+  voiceElevenLabsLoginRequired: "Melde dich an, um ElevenLabs zu nutzen",
+  voiceElevenLabsLoginRequiredDesc: "ElevenLabs-Stimmen sind für angemeldete Nutzer verfügbar.",
+  authSignUp: "Registrieren",
+  authLogout: "Abmelden",
+  authEmail: "E-Mail-Adresse",
+  authPassword: "Passwort",
+  authDisplayName: "Name",
+  authGoogleSignIn: "Weiter mit Google",
+  authOrEmail: "oder mit E-Mail",
+  authForgotPassword: "Passwort vergessen?",
+  authCheckEmail: "Prüfe deine E-Mail",
+  authVerifyEmailSent: "Wir haben dir einen Bestätigungslink geschickt.",
+  authResetEmailSent: "Wir haben dir einen Link zum Zurücksetzen geschickt.",
+  authEnterEmail: "Bitte gib zuerst deine E-Mail-Adresse ein",
+  authError: "Etwas ist schiefgelaufen",
+  authNewPassword: "Neues Passwort festlegen",
+  authUpdatePassword: "Passwort aktualisieren",
+  authPasswordUpdated: "Passwort erfolgreich aktualisiert",
+  authInvalidResetLink: "Ungültiger oder abgelaufener Reset-Link",
+  authMyAccount: "Mein Konto",
+  accountNoContent: "Noch keine gespeicherten Inhalte",
+  accountNoContentDesc: "Deine generierten Zeitleisten erscheinen hier",
+  accountSavedStories: "Gespeicherte Zeitleisten",
+  accountViewStory: "Ansehen",
+  accountShareStory: "Teilen",
+  accountDeleteStory: "Löschen",
+  accountDeleteConfirm: "Bist du sicher, dass du diese Zeitleiste löschen möchtest?",
+  accountStoryDeleted: "Zeitleiste gelöscht",
+  accountCreatedAt: "Erstellt am",
+  accountBilling: "Zahlungen",
+  accountBillingDesc: "Verwalte dein Abonnement und Zahlungsdaten",
+  accountManageSubscription: "Abonnement verwalten",
+  accountPerMonth: "Monat",
+  accountEvents: "Momente",
+  saveEvent: "Ereignis speichern",
+  eventSaved: "Ereignis gespeichert",
+  eventAlreadySaved: "Bereits gespeichert",
+  accountSavedEvents: "Gespeicherte Ereignisse",
+  accountNoSavedEvents: "Noch keine gespeicherten Ereignisse",
+  accountNoSavedEventsDesc: "Speichere einzelne Ereignisse aus deiner Zeitleiste",
+  eventDeleted: "Ereignis gelöscht",
+  eventShared: "Ereignis in die Zwischenablage kopiert",
+
+  // OptionalInfoForm labels
+  friendsLabel: "Top 3 Freunde von damals",
+  friendsInputPlaceholder: "Namen durch Kommas getrennt (z.B. Hans, Peter, Karl)",
+  schoolLabel: "Gymnasium / Realschule",
+  schoolInputPlaceholder: "Z.B. Friedrich-Gymnasium Berlin",
+  nightlifeLabel: "Lieblingslokale",
+  nightlifeInputPlaceholder: "Clubs/Kneipen durch Kommas getrennt",
+
+  // PhaseSelector (HomeV2)
+  chooseDestination: "Wähle dein Ziel",
+  whichVersionToVisit: "Welche Version von dir möchtest du besuchen?",
+  phaseBirthyearDesc: "Entdecke die Welt, in die du geboren wurdest",
+  phaseChildhoodTitle: "Kindheit",
+  phaseChildhoodDesc: "Erlebe deine sorglosen Spieltage wieder",
+  phasePubertyDesc: "Zurück zu deiner ersten Verliebtheit",
+  phaseYoungAdultTitle: "Junger Erwachsener",
+  phaseYoungAdultDesc: "Die Zeit der Freiheit und des Abenteuers",
+
+  // HomeV2 specific
+  backToBirthDate: "Zurück zum Geburtsdatum",
+  chooseOtherDestination: "Anderes Ziel wählen",
+  startMyTimeJourney: "Starte meine Zeitreise",
+  goingBackTo: "Du gehst zurück nach",
+
+  // Timeline Story button
+  timelineStoryButton: "Timeline Story",
+
+  chapterBirthDate: "Geburtsdatum",
+  chapterDestination: "Ziel",
+  chapterIdentity: "Identität",
+  whoIsMainCharacter: "Wer ist die Hauptfigur?",
+  lastDetailsForJourney: "Die letzten Details für deine persönliche Zeitreise",
+  friendsCalledYou: "Wie haben dich deine Freunde damals genannt?",
+  namePlaceholder: "Z.B. Johnny, Marie, DJ Piet...",
+  forStoryStyle: "Für den richtigen Erzählstil:",
+  genderHe: "Er",
+  genderShe: "Sie",
+  whenDidYourStoryBegin: "Wann begann deine Geschichte?",
+  fillBirthDateToStart: "Gib dein Geburtsdatum ein, um die Zeitmaschine zu starten",
+  legendaryDayToStart: "Ein legendärer Tag für den Anfang.",
+  daysOfWeek: ["Sonntag", "Montag", "Dienstag", "Mittwoch", "Donnerstag", "Freitag", "Samstag"],
+  loadingArchives: "Durchsuche die Archive...",
+  loadingDustNewspapers: "Staub von alten Zeitungen pusten...",
+  loadingMemories: "Erinnerungen abrufen...",
+  loadingCassette: "Kassette zurückspulen...",
+  loadingVHS: "VHS-Bänder durchsuchen...",
+  loadingHitsOf: "Die Hits von {year} nachschlagen...",
+  loadingDialUp: "Einwählen per Modem... beep boop...",
+  loadingWindows: "Windows 95 starten...",
+  loadingBackTo: "Zurück nach {year}...",
+  loadingSearchArchives: "Die Archive von {year} durchsuchen...",
+  loadingCollectMemories: "Erinnerungen sammeln...",
+  loadingPrepareJourney: "Deine Zeitreise vorbereiten...",
+  timeTravelComplete: "Zeitreise abgeschlossen",
+  timeTravelInProgress: "Zeitreise läuft...",
+  scopeBirthday: "Geburtstagskind",
+  scopeOnBirthday: "An deinem Geburtstag",
+  scopeInBirthMonth: "In deinem Geburtsmonat",
+  scopeInBirthYear: "In deinem Geburtsjahr",
+  endOfJourney: "Ende deiner Zeitreise",
+  takeYourStory: "Nimm deine Geschichte mit",
+  swipeToDiscover: "Wische, um alle Möglichkeiten zu entdecken, wie du deine Geschichte nacherleben und teilen kannst",
+  myLifeInMusic: "Mein Leben in Musik",
+  allNumberOneHits: "Alle #1 Hits",
+  discoverIconicHits: "Entdecke alle ikonischen #1 Hits aus deiner Timeline, speichere deine Favoriten und teile deine Playlist.",
+  discoverHits: "Hits entdecken",
+  myLifeInTvFilm: "Mein Leben in TV & Film",
+  seriesAndFilms: "Serien & Filme",
+  reliveIconicTv: "Erlebe die ikonischen TV-Serien und Blockbuster aus deinem Leben mit Trailern auf YouTube.",
+  discoverTitles: "Titel entdecken",
+  fullyPersonalized: "Vollständig Personalisiert",
+  fortyEvents: "40 Ereignisse • Deine Details",
+  makeStoryUnique: "Mach deine Geschichte einzigartig mit persönlichen Details, 40 Ereignissen und einem längeren Musikvideo.",
+  personalize: "Personalisieren",
+  roastMyLife: "Roast Mein Leben",
+  aiHumorShareable: "KI-Humor • Teilbar",
+  letAiRoast: "Lass die KI dein Leben gnadenlos (oder mild) roasten basierend auf deiner Timeline.",
+  roastMe: "Roast mich!",
+  spokenStory: "Gesprochene Geschichte",
+  spokenStoryReady: "Deine persönliche Geschichte ist bereit",
+  spokenStoryGenerateAudioFor: "Audio generieren für {count, plural, one {# Ereignis} other {# Ereignisse}}{intro}",
+  spokenStoryWithIntro: " + Intro",
+  spokenStoryGenerating: "Audio wird generiert... {pct}%",
+  spokenStoryGenerateButton: "Audio generieren",
+  spokenStoryGeneratingShort: "Generieren...",
+  spokenStoryError: "Audiogenerierung fehlgeschlagen",
+  aiVoiceNarration: "KI-Stimme • Erzählung",
+  listenToStory: "Höre dir deine Lebensgeschichte als gesprochene Erzählung mit Bildern und stimmungsvoller Musik an.",
+  myLifeInPolaroids: "Mein Leben in Polaroids",
+  retroStyle: "Retro-Stil",
+  relivePolaroids: "Erlebe deine schönsten Momente als Sammlung nostalgischer Polaroid-Fotos.",
+  viewPolaroids: "Polaroids ansehen",
+  myLifeAsPresentation: "Mein Leben als Präsentation",
+  pdfAlbum: "PDF • A4 Album",
+  downloadAlbumDesc: "Lade ein wunderschönes A4-Album deiner Lebensgeschichte als PDF herunter.",
+  downloadPdf: "PDF herunterladen",
+  shareTitle: "Meine TimeStory",
+  shareVideoText: "Schau dir mein persönliches Timeline-Video an!",
+  shareWhatsapp: "Schau dir meine TimeStory an: {url}",
+  shareTelegram: "Schau dir meine TimeStory an!",
+  shareTwitter: "Schau dir mein persönliches Timeline-Video an!",
+  shareEmailSubject: "Schau dir meine TimeStory an",
+  shareEmailBody: "Ich habe ein persönliches Timeline-Video erstellt! Schau es dir hier an: {url}",
+  viewSharedVideo: "Dein geteiltes Video ansehen",
+  bornIn: "Geboren in",
+  discoverYourJourneyFree: "Entdecke deine Zeitreise • Kostenlos",
+  roastShareText: "🔥 Roast mein Leben ({intensity}) - Entdecke deine Zeitreise auf {url}",
+  savedToast: "Gespeichert!",
+  roastSavedDesc: "Der Roast wurde in deinem Account gespeichert.",
+  errorToast: "Fehler",
+  roastSaveError: "Der Roast konnte nicht gespeichert werden.",
+  creatingImage: "Bild erstellen...",
+  share: "Teilen",
+  save: "Speichern",
+  roastEmailSubject: "🔥 Roast mein Leben",
+  roastEmailBody: "Schau dir meinen Roast an:\n\n{text}\n\nErstelle deine eigene Zeitreise auf {url}",
+  removeFromFavorites: "Aus Favoriten entfernen",
+  addToFavorites: "Zu Favoriten hinzufügen",
+  savedToAccount: "In deinem Account gespeichert",
+  saveToAccount: "In Account speichern",
+  loadingLocalHits: "Lokale Hits laden für {city}...",
+  tracksLoaded: "{loaded} / {total} Songs geladen...",
+  loadingTvFilms: "TV-Serien und Filme laden{city}...",
+  trailersSearched: "{loaded} / {total} Trailer gesucht...",
+  yourMusicOverviewTitle: "Deine Musik-Übersicht",
+  yourTvFilmOverviewTitle: "Deine TV & Film-Übersicht",
+  tracksFoundFavorites: "{count, plural, one {# Song gefunden} other {# Songs gefunden}} • {fav, plural, one {# Favorit} other {# Favoriten}}",
+  titlesFoundFavorites: "{count} Titel gefunden • {fav, plural, one {# Favorit} other {# Favoriten}}",
+  inclLocalHitsSuffix: " • inkl. {country} Hits",
+  playlistAllTracks: "Playlist alle {count} Songs",
+  playlistFavoritesCount: "Playlist {count} Favoriten",
+  spotifyOpenHint: "Erstellt eine Playlist in deinem eigenen Spotify-Konto. Falls das nicht klappt, werden die Links in deine Zwischenablage kopiert.",
+  spotifyPlaylistDescription: "Die Nummer-1-Hits von {start} bis {end}.",
+  spotifyPlaylistTitle: "Spotify-Playlist",
+  spotifyPlaylistCreating: "Playlist wird in deinem Spotify-Konto erstellt...",
+  spotifyPlaylistCreated: "Deine Playlist mit {count, plural, one {# Song} other {# Songs}} ist in Spotify bereit.",
+  spotifyPlaylistOpen: "In Spotify öffnen",
+  spotifyPlaylistFailed: "Die Playlist konnte nicht erstellt werden. Bitte versuche es erneut.",
+  spotifyPlaylistBack: "Zurück",
+  playlistExportButton: "Exportieren",
+  playlistExportAll: "Alle {count} Songs",
+  playlistExportFavorites: "{count} Favoriten",
+  playlistExportM3u8: "M3U8 (Mediaplayer)",
+  playlistExportXspf: "XSPF (VLC)",
+  playlistExportCsv: "CSV (Tabelle)",
+  playlistExportHtml: "Webseite mit Suchlinks",
+  birthdayNumberOneTitle: "Nummer 1 an deinem Geburtstag",
+  birthdayNumberOneYearTitle: "Nummer 1 in deinem Geburtsjahr",
+  birthdayNumberOneIntl: "International",
+  birthdayNumberOneListen: "Auf Spotify anhören",
+  birthdayNumberOneBirthdays: "Die Nummer 1 an deinen Geburtstagen",
+  birthdayNumberOneYears: "Die Nummer 1 jedes Jahres seitdem",
+  birthdayNumberOneAge: "{age} Jahre",
+  trailersAllPlay: "{count, plural, one {# Trailer abspielen} other {Alle # Trailer abspielen}}",
+  trailersFavoritesPlay: "{count} Favoriten abspielen",
+  myFavoritesPlaylistLabel: "Meine Favoriten",
+  localHitBadge: "Lokal",
+  noTracksAvailable: "Keine Songs verfügbar.",
+  noTrailersAvailable: "Keine Trailer verfügbar.",
+  linksCopiedTitle: "Links kopiert!",
+  spotifyLinksCopiedDesc: "{count, plural, one {# Spotify-Link in die Zwischenablage kopiert. Füge ihn in eine Spotify-Playlist ein.} other {# Spotify-Links in die Zwischenablage kopiert. Füge sie in eine Spotify-Playlist ein.}}",
+  youtubeLinksCopiedDesc: "{count, plural, one {# YouTube-Link in die Zwischenablage kopiert.} other {# YouTube-Links in die Zwischenablage kopiert.}}",
+  myMusicVideo: "Mein Musikvideo",
+  justReady: "Gerade fertig",
+  yourPersonalMusicVideo: "Dein persönliches Musikvideo",
+  alsoForYou: "Auch für dich",
+  unlock: "Freischalten",
+  open: "Öffnen",
+  myTimeline: "Meine Zeitleiste",
+  backToTimeline: "Zurück zu deiner Geschichte",
+  scrollDownHint: "nach unten scrollen",
+  savedDescriptionTrack: "{name} ist jetzt auf deiner Account-Seite.",
+  savedDescriptionItem: "{title} ist jetzt auf deiner Account-Seite.",
+  errorLabel: "Fehler",
+  spotifyFailedSummary: "{count} von {total} Tracks konnten nicht geladen werden — Spotify ist möglicherweise vorübergehend nicht erreichbar.",
+  localHitsFetchError: "Lokale Hits konnten nicht geladen werden — bitte später erneut versuchen.",
+  youtubeFailedSummary: "{count} von {total} Filmen/Serien konnten nicht geladen werden — YouTube ist möglicherweise vorübergehend nicht erreichbar.",
+  numberOneHitDesc: "#1 Hit aus {year}. Album: {album}",
+  myMusicVideoTitle: "Mein Musikvideo",
+  eventsAiMusic: "{count, plural, one {# Ereignis} other {# Ereignisse}} • KI-Musik",
+  preparingMusicVideo: "Dein Musikvideo wird vorbereitet...",
+  errorBoundaryTitle: "Etwas ist schiefgelaufen",
+  errorBoundaryBody: "Wir konnten diesen Teil der App nicht laden.",
+  errorBoundaryRetry: "Erneut versuchen",
+  errorBoundaryHome: "Zur Startseite",
+  notifTitlePulse: "🎵 Wird erstellt...",
+  notifPersonalMusicVideo: "Persönliches Musikvideo",
+  notifProgressAria: "Persönliches Musikvideo wird erstellt — {pct}%",
+  notifProgressAriaCollapsed: "Persönliches Musikvideo wird erstellt — {pct}%, klicke zum Anzeigen",
+  notifTapToScroll: "Tippe, um zu deinem Musikvideo zu scrollen",
+  notifTapToGo: "Tippe, um zu deinem Musikvideo zu gehen",
+  notifCollapse: "Einklappen",
+  notifCollapseAria: "Benachrichtigung einklappen",
+  notifProgressTitle: "Fortschritt Musikvideo",
+  notifMusicVideoFailed: "Musikvideo fehlgeschlagen",
+  notifMusicVideoFailedAria: "Musikvideo fehlgeschlagen — tippe zum Wiederholen",
+  notifTapToRetry: "Tippe zum Wiederholen",
+  notifRetry: "Erneut versuchen",
+  notifReadyToPlay: "Bereit zum Abspielen",
+  notifYourMusicVideoFallback: "Dein Musikvideo",
+  notifYourPersonalVideoReady: "Dein persönliches Musikvideo ist fertig.",
+  notifWatchNow: "Jetzt ansehen",
+  notifLater: "Später",
+  notifClose: "Schließen",
+  notifOpenMusicVideo: "Musikvideo-Benachrichtigung öffnen",
+  shareYourVideoTitle: "Teile dein Video",
+  shareGeneratingLink: "Einen Moment, wir erstellen deinen teilbaren Link...",
+  shareReadyDesc: "Dein Video ist bereit zum Teilen!",
+  shareSomethingWrong: "Etwas ist schiefgelaufen",
+  shareUploadFailed: "Upload fehlgeschlagen",
+  shareTryAgain: "Erneut versuchen",
+  shareCopyLinkLabel: "Link kopieren",
+  shareDeleteEllipsis: "Teilen...",
+  shareViaLabel: "Teilen über",
+  shareGenericError: "Etwas ist schiefgelaufen",
+  tiktokIntroTitle: "Deine Zeitreise",
+  tiktokOutroTitle: "Erstelle deine eigene Zeitreise!",
+  tiktokWatermark: "TimeStory",
+  tiktokUnknownError: "Unbekannter Fehler",
+  tiktokWebShareUnavailable: "Web Share API nicht verfügbar",
+  tiktokCannotShareFiles: "Diese Dateien können nicht geteilt werden",
+  introReadyTitle: "🎬 Dein persönliches Musikvideo ist bereit",
+  introReadyHint: "Drücke ▶ zum Abspielen",
+  introReadyTitleNarrative: "📖 Deine persönliche Erzählung ist bereit",
+  introReadyHintNarrative: "Drücke ▶ zum Abspielen",
+  pdfDefaultFirstName: "Dich",
+  pdfDefaultStoryName: "TimeStory",
+  pdfTitleFallback: "Das Jahr von {name}",
+  pdfAlbumFooter: "TimeStory Album",
+  pdfAlbumFileSuffix: "Album",
+  pdfCatPolitics: "Politik",
+  pdfCatSports: "Sport",
+  pdfCatEntertainment: "Unterhaltung",
+  pdfCatScience: "Wissenschaft",
+  pdfCatCulture: "Kultur",
+  pdfCatWorld: "Welt",
+  pdfCatLocal: "Lokal",
+  pdfCatPersonal: "Persönlich",
+  pdfCatMusic: "Musik",
+  pdfCatTechnology: "Technologie",
+  pdfCatCelebrity: "Berühmt",
+  pdfCatUnknown: "Unbekannt",
+  pdfTypeBirthdate: "An diesem Tag",
+  pdfTypeBirthmonth: "Diesen Monat",
+  pdfTypeBirthyear: "Dieses Jahr",
+  pdfTypePeriod: "Zeitraum",
+  pdfPersonalJourneyFor: "Die persönliche Reise durch die Zeit für",
+  pdfYourStory: "Deine Geschichte",
+  pdfInThisIssue: "In dieser Ausgabe",
+  pdfAlsoBornToday: "Auch heute geboren",
+  pdfThanksFor: "Danke für",
+  pdfThanksShort: "Danke!",
+  pdfUnknownName: "Unbekannt",
+  pdfMagazineTitle: "ZEITREISE MAGAZIN",
+  pdfRunningHeader: "ZEITREISE • {name}",
+  pdfNumberOneBirthday: "Nr. 1 an deinem Geburtstag",
+  pdfNumberOneBirthYear: "Nr. 1 in deinem Geburtsjahr",
+  pdfEventCount: "{count, plural, one {# Ereignis} other {# Ereignisse}}",
+  pdfSpecialEdition: "{count, plural, one {# Ereignis} other {# Ereignisse}} • Sonderausgabe",
+  pdfMoreYears: "{count, plural, one {+ # weiteres Jahr...} other {+ # weitere Jahre...}}",
+  pdfAlsoBornBadge: "Am selben Tag geboren",
+  pdfForReading: "das Lesen!",
+  pdfJourneyMadeFor: "Eine Zeitreise speziell für {name}",
+  pdfClosingStats: "{count, plural, one {# Ereignis} other {# Ereignisse}} • {years, plural, one {# Jahr} other {# Jahre}} • {people, plural, one {# Berühmtheit} other {# Berühmtheiten}}",
+  pdfPolaroidClosingStats: "{count, plural, one {# Ereignis} other {# Ereignisse}} • {people, plural, one {# Berühmtheit} other {# Berühmtheiten}}",
+  pdfGeneratedOn: "Erstellt am {date}",
+  pdfFileName: "zeitreise",
+  pdfPolaroidEdition: "ZEITREISE POLAROID-AUSGABE",
+  pdfPolaroidHeader: "ZEITREISE POLAROID",
+  pdfPolaroidEditionShort: "POLAROID-AUSGABE",
+  pdfImageCredits: "BILDNACHWEIS",
+  imageCreationFailed: "Beim Erstellen des Bildes ist etwas schiefgelaufen",
+  copiedTitle: "Kopiert!",
+  textCopiedDesc: "Text in die Zwischenablage kopiert.",
+  oopsTitle: "Ups",
+  roastGenerationFailed: "Roast konnte nicht generiert werden",
+  roastImageFailed: "Bild konnte nicht generiert werden.",
+  downloadedTitle: "Heruntergeladen!",
+  shareImageOnSocial: "Teile das Bild in den sozialen Medien!",
+  loginRequiredTitle: "Anmelden",
+  loginRequiredRoastDesc: "Erstelle ein Konto, um deinen Roast zu speichern.",
+  savedTitle: "Gespeichert!",
+  errorShortLabel: "Fehler",
+  roastSaveFailed: "Roast konnte nicht gespeichert werden.",
+  trailerNotFoundTitle: "Trailer nicht gefunden",
+  trailerNotFoundDesc: "Für diesen Film wurde kein Trailer gefunden.",
+  connectionErrorTitle: "Verbindungsfehler",
+  connectionErrorDesc: "Verbindung zum Server fehlgeschlagen. Bitte versuche es später erneut.",
+  pdfGenerationFailed: "PDF-Generierung fehlgeschlagen",
+  imageBlacklistedTitle: "Bild gesperrt",
+  imageBlacklistedDesc: "Neue Suche gestartet...",
+  eventsFoundDesc: "{count, plural, one {# Ereignis gefunden} other {# Ereignisse gefunden}}",
+  ariaPrev: "Zurück",
+  ariaNext: "Weiter",
+  ariaStopTrailer: "Trailer stoppen",
+  ariaCloseTrailer: "Trailer schließen",
+  ariaPlayTrailer: "Trailer abspielen",
+  ariaBlacklistImage: "Bild blockieren",
+  blacklistImageTitle: "Foto sperren (global) und neu suchen",
+  playSongCompact: "Lied",
+  playSongLabel: "Lied abspielen",
+  searchingPhotoLabel: "Foto wird gesucht...",
+  scrollToLoadPhoto: "Scrolle, um Foto zu laden",
+  debugInfoTitle: "Debug-Info",
+  debugInfoFilterPlaceholder: "Nach Titel, Kategorie, Typ filtern...",
+  debugInfoBlacklistThumb: "Dieses Bild blockieren",
+  debugInfoReloadAll: "Alle Bilder neu laden",
+  debugInfoSearchingShort: "Suchen...",
+  debugInfoLabelImages: "Bild",
+  debugInfoLabelSounds: "Ton",
+  debugInfoNone: "Keine",
+  promptCopyToClipboard: "In Zwischenablage kopieren",
+  promptCopiedShort: "Kopiert",
+  quickRefreshTitle: "Schnelles Aktualisieren (20 Events)",
+  fullRefreshTitle: "Vollständig aktualisieren (50 Events)",
+  roastTitle: "Roast mein Leben",
+  roastIntensityLabel: "Intensität",
+  roastIntensityMild: "Mild",
+  roastIntensitySpicy: "Pikant",
+  roastIntensityMedium: "Mittel",
+  roastIntensitySharp: "Scharf",
+  roastIntensityExtreme: "Extrem",
+  roastWriting: "{level} Roast wird geschrieben...",
+  roastShareLabel: "Teilen",
+  roastImageMaking: "Bild wird erstellt...",
+  roastSaveLabel: "Speichern",
+  roastImageAlt: "Roast-Bild",
+  roastShareViaLabel: "Teilen über",
+  roastNativeShareLabel: "Teilen...",
+  roastCopyText: "Text kopieren",
+  roastCopiedShort: "Kopiert!",
+  roastDownloadImage: "Bild herunterladen",
+  roastShareTextTpl: "🔥 Roast mein Leben ({level}) - Entdecke deine Zeitreise auf {url}",
+  roastImageHeading: "ROAST MEIN LEBEN",
+  roastBornInLabel: "Geboren {year}",
+  roastFooterTagline: "Entdecke deine Zeitreise • Gratis",
+  roastNoneReceived: "Kein Roast erhalten",
+
+  // Subculture editor (admin)
+  subcultureEditorTitle: "Subkultur-Datensatz",
+  subcultureEditorSummary: "Version {version} · {eras, plural, one {# Zeitraum} other {# Zeiträume}} · {countries, plural, one {# Land} other {# Länder}}",
+  subcultureEditorImport: "Importieren",
+  subcultureEditorReset: "Zurücksetzen",
+  subcultureEditorResetConfirm: "Entwurf verwerfen und zum aktuellen Datensatz zurückkehren?",
+  subcultureEditorImportFailed: "Import fehlgeschlagen: {error}",
+  subcultureEditorImportIssues: "{count, plural, one {# Fehler} other {# Fehler}}, z. B. {path}: {message}",
+  subcultureEditorChecks: "Prüfung",
+  subcultureEditorErrors: "{count, plural, one {# Fehler} other {# Fehler}}",
+  subcultureEditorWarnings: "{count, plural, one {# Warnung} other {# Warnungen}}",
+  subcultureEditorEras: "Zeiträume",
+  subcultureAgeGroupTeen: "Jugendliche",
+  subcultureAgeGroupYoungAdult: "Junge Erwachsene",
+  subcultureEditorNoEra: "Keine Subkulturen für {period}, {ageGroup}, {country}.",
+  subcultureEditorAddEra: "Zeitraum hinzufügen",
+  subcultureEditorName: "Name",
+  subcultureEditorDescription: "Beschreibung",
+  subcultureEditorOnePerLine: "{label} (eine pro Zeile)",
+  subcultureEditorAddSubculture: "Subkultur hinzufügen",
+  subcultureEditorRemoveEra: "Zeitraum entfernen",
+  subcultureEditorCountries: "Länder und Städte",
+  subcultureEditorCode: "Code",
+  subcultureEditorCities: "Städte, eine pro Zeile (Kleinbuchstaben)",
+  subcultureEditorAddCountry: "Land hinzufügen",
+
+  // Image search dashboard (admin)
+  imageQualityTitle: "Qualität der Bildsuche",
+  imageQualitySubtitle: "Anonymisierte Suchspuren der letzten {days, plural, one {# Tag} other {# Tage}}",
+  imageQualityPeriod: "{days, plural, one {# Tag} other {# Tage}}",
+  imageQualityRefresh: "Aktualisieren",
+  imageQualityLoadFailed: "Laden fehlgeschlagen: {error}",
+  imageQualitySearches: "Suchanfragen",
+  imageQualityWithImage: "Mit Bild",
+  imageQualityAvgTimeToImage: "Durchschnittliche Zeit bis zum Bild",
+  imageQualityFound: "Gefunden",
+  imageQualityTimeToImage: "Zeit bis zum Bild",
+  imageQualityBySource: "Nach Quelle",
+  imageQualitySource: "Quelle",
+  imageQualityAsked: "Angefragt",
+  imageQualityErrors: "Fehler",
+  imageQualityWon: "Gewählt",
+  imageQualityBySubject: "Nach Motivtyp",
+  imageQualityType: "Typ",
+  imageQualityByLanguage: "Nach Sprache",
+  imageQualityLanguage: "Sprache",
+  imageQualityMostBlacklisted: "Am häufigsten gesperrte Quellen",
+  imageQualityNoneBlacklisted: "In diesem Zeitraum wurden keine Bilder gesperrt.",
+  imageQualityNeverFound: "Suchanfragen ohne Bild",
+  imageQualityAllFound: "Jede Suchanfrage hat mindestens einmal ein Bild gefunden.",
+  imageQualityQuery: "Suchanfrage",
+  imageQualityTimesSearched: "Mal gesucht",
+  imageQualityLastSearched: "Zuletzt",
+};
+
+export default de;
@@ -0,0 +1,803 @@
+import type { Messages } from "../types";
+
+const en: Messages = {
+  siteTitle: "See My Year",
+  heroTitle: "Your Story in Time",
+  heroSubtitle: "Discover what happened on the day you were born, or journey through the years with a personal historical overview.",
+  startButton: "Start Your Journey",
+  choiceTitle: "What do you want to discover?",
+  choiceSubtitle: "Choose how you want to travel through time",
+  option1Title: "The Year, Month and Day Of...",
+  option1Description: "Discover everything about a specific birth date: what happened that year, that month, and on that exact day?",
+  option2Title: "A Time Journey from Year to Year",
+  option2Description: "Create a historical overview of an entire period, perfect for anniversaries or reliving an era.",
+  birthDateLabel: "Birth date",
+  birthDateQuestion: "What is your birth date?",
+  dayLabel: "Day",
+  monthLabel: "Month",
+  yearLabel: "Year",
+  startYearLabel: "Start year",
+  endYearLabel: "End year",
+  periodQuestion: "Which period do you want to relive?",
+  periodBirthyear: "Birth year",
+  periodBirthyearDesc: "The year you were born",
+  periodChildhood: "Childhood",
+  periodChildhoodDesc: "6-12 years",
+  periodPuberty: "Puberty",
+  periodPubertyDesc: "12-17 years",
+  periodYoungAdult: "Young adult",
+  periodYoungAdultDesc: "18-25 years",
+  periodCustom: "Custom",
+  periodCustomDesc: "Choose your own period",
+  timelineLengthQuestion: "How many moments do you want to see?",
+  timelineShort: "Short",
+  timelineShortDesc: "20 moments",
+  timelineLong: "Extended",
+  timelineLongDesc: "50 moments",
+  createTimelineButton: "Create timeline overview",
+  createPolaroidButton: "Create timeline polaroid",
+  optionalInfoTitle: "Make it more personal",
+  optionalInfoSubtitle: "This information is optional, but helps us create a richer story",
+  nameLabel: "Name",
+  firstNameLabel: "First name",
+  firstNamePlaceholder: "E.g. John",
+  lastNameLabel: "Last name",
+  lastNamePlaceholder: "E.g. Smith",
+  cityLabel: "City",
+  cityPlaceholder: "E.g. Amsterdam",
+  partnerLabel: "Partner",
+  childrenLabel: "Children",
+  child1NameLabel: "Name child 1",
+  child1BirthLabel: "Birth date child 1",
+  child2NameLabel: "Name child 2",
+  child2BirthLabel: "Birth date child 2",
+  child3NameLabel: "Name child 3",
+  child3BirthLabel: "Birth date child 3",
+  partnerNameLabel: "Partner name",
+  partnerBirthLabel: "Partner birth date",
+  siblingsLabel: "Brothers and sisters",
+  siblingNamePlaceholder: "Name",
+  siblingBirthLabel: "Date of birth",
+  addSibling: "Add a brother or sister",
+  removeSibling: "Remove",
+  sharedTimelineLabel: "Shared years",
+  sharedTimelineHint: "One timeline for you and your partner or siblings, with everyone's age at each moment.",
+  metYearLabel: "Year you met (optional)",
+  sharedYou: "You",
+  sharedPersonAge: "{name} · age {age}",
+  sharedPersonNotBorn: "{name} · not born yet",
+  sharedYearWeMet: "The year we met",
+  compareTitle: "Your year vs. my year",
+  compareDescription: "Compare two years side by side: music, TV, technology and politics, and what changed in between.",
+  compareNameLabel: "Name",
+  compareYearLabel: "Year",
+  compareSideYou: "You",
+  compareSideFriend: "Friend",
+  compareStart: "Compare",
+  compareLoading: "Creating both years...",
+  compareWhatChanged: "What changed in between",
+  compareNothingInCategory: "Nothing in this category",
+  compareFailed: "Could not create the comparison",
+  compareCatMusic: "Music",
+  compareCatTv: "TV & film",
+  compareCatTechnology: "Technology",
+  compareCatPolitics: "Politics & world",
+  compareYearsTile: "Your year vs. a friend's",
+  compareYearsTileSubtitle: "Two years side by side",
+  renderDownloadButton: "Download",
+  renderDownloadTitle: "Download as a video file",
+  renderFormatLabel: "Format",
+  renderResolutionLabel: "Resolution",
+  renderStart: "Create video",
+  renderSavingStory: "Saving story...",
+  renderQueued: "Waiting in the queue...",
+  renderProgress: "Rendering video... {pct}%",
+  renderDownload: "Download {format}",
+  renderFailed: "Creating the video failed",
+  captionsToggle: "Captions",
+  captionsDownload: "Subtitles:",
+  interestsLabel: "Interests",
+  interestsPlaceholder: "E.g. sports, music, computers, politics",
+  focusLabel: "Geographic focus",
+  focusNetherlands: "Netherlands",
+  focusEurope: "Europe",
+  focusWorld: "World",
+  nextButton: "Next",
+  backButton: "Back",
+  skipButton: "Skip",
+  generateButton: "Create My Time Journey",
+  confirmButton: "Confirm",
+  cancelButton: "Cancel",
+  refreshButton: "Refresh",
+  customDialogTitle: "Personalize your time journey",
+  customDialogDescription: "Adjust the years or add extra information",
+  adjustButton: "Adjust",
+  subcultureLabel: "Subculture",
+  subcultureNoPreference: "No preference",
+  subcultureBrands: "Brands",
+  subcultureMusic: "Music",
+  subcultureClothing: "Clothing",
+  discoverMore: "Discover more",
+  discoverMusicTitle: "My Life in Music",
+  discoverMusicDesc: "Discover the #1 hits from your years",
+  discoverTvFilmTitle: "My Life in TV & Film",
+  discoverTvFilmDesc: "Iconic movies and series from your era",
+  discoverPolaroidTitle: "My Life in Polaroids",
+  discoverPolaroidDesc: "Your story as a polaroid collage",
+  discoverStoryTitle: "My Timeline Story",
+  discoverStoryDesc: "The complete story of your life",
+  badgeFree: "Free",
+  badgePremium: "Premium",
+  customFromYear: "From year",
+  customToYear: "To year",
+  customFromPlaceholder: "e.g. 1985",
+  customToPlaceholder: "e.g. 1995",
+  backToInput: "Back to input",
+  yourTimeJourney: "Your Time Journey",
+  magazinePdf: "Magazine PDF",
+  polaroidPdf: "Polaroid PDF",
+  alsoborn: "Also born:",
+  moreCount: "more",
+  loadingImages: "Loading images...",
+  photosCount: "photos",
+  loadingTitle: "Traveling back in time...",
+  loadingSubtitle: "This may take a moment",
+  eventsLoaded: "events loaded...",
+  timelineLoaded: "Timeline loaded!",
+  eventsFound: "events found",
+  errorTitle: "Something went wrong",
+  tryAgain: "Try again",
+  noDataFound: "No data found",
+  backToStart: "Back to start",
+  pdfDownloaded: "PDF downloaded!",
+  pdfMagazineReady: "Your time journey magazine is ready",
+  polaroidPdfDownloaded: "Polaroid PDF downloaded!",
+  polaroidReady: "Your 80s polaroid edition is ready",
+  albumDownloaded: "Album downloaded!",
+  albumReady: "Your TimeStory Album is ready",
+  downloadAlbum: "Download Album (PDF)",
+  pdfError: "Error generating PDF",
+  pdfTryAgain: "Please try again",
+  shareToTikTok: "Share to TikTok",
+  generatingSlides: "Generating slides...",
+  shareSuccess: "Shared!",
+  tikTokReady: "Your TikTok slides are ready",
+  shareError: "Share failed",
+  slidesReady: "Slides ready!",
+  tapToShare: "Tap the green button to share",
+  prepareSlides: "Prepare slides",
+  shareNow: "Share now",
+  createCollage: "Create Collage (6 photos)",
+  selectPhotos: "Select 6 photos",
+  selectedCount: "Selected",
+  maxPhotosReached: "Maximum 6 photos",
+  generateCollage: "Download Collage",
+  collageDownloaded: "Collage downloaded!",
+  collageReady: "Your polaroid collage is ready",
+  collageError: "Error generating collage",
+  cancelSelection: "Cancel",
+  loadError: "Loading error",
+  required: "This field is required",
+  invalidDate: "This date doesn't exist — please check the day and month.",
+  yearRange: "Year must be between 1900 and current year",
+  endYearAfterStart: "End year must be after start year",
+  fillBirthDate: "Please fill in your birth date",
+  validYearRange: "Please enter a valid birth year",
+  choosePeriod: "Please choose a period",
+  fillBothYears: "Please fill in both years",
+  validYears: "Please enter valid years",
+  months: [
+    "January", "February", "March", "April", "May", "June",
+    "July", "August", "September", "October", "November", "December",
+  ] as readonly string[],
+  birthDateStepLabel: "Birth date",
+  periodStepLabel: "Which period?",
+  styleStepLabel: "Style & Subculture",
+  cityQuestion: "Which place was most important at that time?",
+  pressEnterToContinue: "Press Enter to continue",
+  startTimeJourney: "Start my Time Journey",
+  recentStoriesTitle: "Previous stories",
+  recentStoriesSearchPlaceholder: "Search by name, place, year or event…",
+  recentStoriesNoResults: "No stories found",
+  recentStoriesDelete: "Delete story",
+  recentStoriesEventCount: "{count, plural, one {# event} other {# events}}",
+  genderLabel: "Gender",
+  genderMale: "Male",
+  genderFemale: "Female",
+  genderNone: "No preference",
+  genderNeutral: "Neutral",
+  periodBirthyearLong: "The year you came into this world",
+  periodChildhoodLong: "Playing outside, first friends, primary school",
+  periodPubertyLong: "First crush, discovering music",
+  periodYoungAdultLong: "Going out, studying, discovering the world",
+  yourMusicVideo: "Your Music Video",
+  previewVersion: "Preview version",
+  personalizedVersion: "Personalized version",
+  shareButton: "Share",
+  writingLyrics: "Writing lyrics...",
+  startingMusic: "Starting music...",
+  composingSoundtrack: "Your personal soundtrack is being composed...",
+  soundtrackStreaming: "Your personal soundtrack is playing (still finishing)...",
+  musicVideoReady: "Your music video is ready!",
+  somethingWentWrong: "Something went wrong",
+  loading: "Loading...",
+  generationTime: "This may take 2-4 minutes. You can keep scrolling in the meantime.",
+  retryButton: "Retry",
+  previewPlaying: "Preview: Your track is playing while we finish the full version",
+  aiMusicVideo: "AI Music Video",
+  makeMorePersonal: "Make it even more personal",
+  upgradeDescription: "Add friends, school and venues for unique lyrics with your memories and the news from your timeline.",
+  upgradeToV2: "Upgrade to V2",
+  viewLyrics: "View lyrics",
+  hideLyrics: "Hide lyrics",
+  yourYears: "Your years",
+  yourStory: "Your Story",
+  customizeTitle: "Customize",
+  customizeDescription: "Adjust your details for a more personalized result with your memories and news facts.",
+  currentVersionV1: "Current version (V1):",
+  cityLabelShort: "City",
+  genderForVoice: "Gender (for voice)",
+  personalMemories: "✨ Personal memories for a more unique song:",
+  top3Friends: "Top 3 friends from back then",
+  friendsPlaceholder: "Names separated by commas",
+  highSchool: "High School",
+  schoolPlaceholder: "E.g. Springfield High",
+  favoriteVenues: "Favorite venues",
+  venuesPlaceholder: "E.g. The Cavern, Studio 54",
+  musicEngine: "Music Engine",
+  sunoDescription: "Suno (V4.5) — Highest quality",
+  acestepDescription: "Ace-Step — Faster, self-hosted",
+  diffrhythmDescription: "DiffRhythm — LRC timestamps, ultra fast",
+  diffrhythmNote: "⏱️ DiffRhythm generates LRC timestamps so music runs in sync with your timeline events.",
+  upgradeInfo: "Your new soundtrack will not only capture the vibe of your era, but also weave specific news facts from your timeline and your personal memories into a truly unique song.",
+  upgradeInfoTitle: "Upgrade to V2:",
+  generating: "Working...",
+  generateV2: "Generate V2",
+  personalVideoClip: "Personal Video Clip",
+  adjustForPersonal: "Adjust your details for a more personal result.",
+  generateVideoClip: "Generate a unique video clip with music.",
+  geographicFocusLabel: "Geographic focus",
+  netherlandsLabel: "Netherlands",
+  europeLabel: "Europe",
+  worldLabel: "World",
+  musicStyleInfo: "Subculture determines the style.",
+  musicStyleLabel: "Music style:",
+  continueButton: "Continue",
+  tipPersonalDetails: "Fill in your details for a more personal song!",
+  tipLabel: "Tip:",
+  writingLyricsStep: "Writing lyrics",
+  aiWritingLyrics: "AI writes a nostalgic song",
+  composingMusic: "Composing music",
+  aiComposingTrack: "Suno AI creates a unique track",
+  readyLabel: "Done!",
+  listenToHit: "Listen to your personal hit",
+  browserNoAudio: "Your browser does not support audio.",
+  durationLabel: "Duration:",
+  minutesLabel: "minutes",
+  showSunoUrl: "Show Suno URL",
+  watchVideo: "Watch Video",
+  startGeneration: "Start Generation",
+  personalMemoriesForSong: "Personal memories for a more unique song:",
+  personalVideoClipButton: "🎬 Personal video clip",
+  occasionBirthday: "Birthday",
+  occasionAnniversary: "Anniversary",
+  occasionFun: "Just for fun",
+  tooManyRequests: "Too many requests. Please try again later.",
+  creditsExhausted: "Credits exhausted. Please add credits to your workspace.",
+  generationInterrupted: "Generation interrupted",
+  musicGenerationTimeout: "Music generation took too long",
+  connectionLost: "Connection lost before results arrived. Please try again.",
+  defaultSummary: "An overview of important events.",
+  loadingTooLong: "Loading took too long and was stopped. Please try again.",
+  unknownError: "Unknown error",
+  fetchingEvents: "Fetching events...",
+  scrollToBegin: "Scroll to begin",
+  blacklistTooltip: "Blacklist photo (global) and search new",
+  blacklistAriaLabel: "Blacklist image",
+  regenerateEventTooltip: "Give me something else",
+  regenerateEventAriaLabel: "Replace this event with a different one",
+  regenerateEventNoResult: "No replacement event found. Please try again.",
+  regenerateEventFailed: "Replacing failed",
+  chooseImageTooltip: "Choose another photo",
+  chooseImageTitle: "Choose a photo",
+  useThisImage: "Use this photo",
+  currentImage: "Current photo",
+  imageLicenseUnknown: "License unknown",
+  imageCredits: "Image credits",
+  editTimeline: "Edit timeline",
+  doneEditing: "Done editing",
+  editorTitleLabel: "Title",
+  editorDescriptionLabel: "Description",
+  editorDateLabel: "Date",
+  editorDateHint: "YYYY, YYYY-MM or YYYY-MM-DD",
+  editorCategoryLabel: "Category",
+  editorImportanceLabel: "Importance",
+  importanceHigh: "High",
+  importanceMedium: "Medium",
+  importanceLow: "Low",
+  editorUploadPhoto: "Upload your own photo",
+  editorMoveUp: "Move up",
+  editorMoveDown: "Move down",
+  editorDeleteEvent: "Delete event",
+  editorAddPersonalEvent: "Add a personal moment",
+  editorPhotoFailed: "Photo could not be loaded",
+  uploadPhotos: "Add your own photos",
+  uploadPhotosTitle: "Add your own photos",
+  uploadPhotosDescription: "We read the capture date from your photos and suggest a year. Add a photo as its own card or replace an event's image.",
+  uploadPhotosChoose: "Choose photos",
+  photoTakenOn: "Taken on {date}",
+  photoNoCaptureDate: "No capture date found",
+  photoYearLabel: "Year",
+  photoPlacementLabel: "Placement",
+  photoPlacementNewCard: "As its own card",
+  photoPlacementReplace: "Replace image of: {title}",
+  photoCaptionLabel: "Caption",
+  photoRemove: "Remove photo",
+  uploadPhotosConfirm: "Add to story",
+  uploadPhotosUploading: "Uploading...",
+  uploadPhotosFailed: "Upload failed",
+  uploadPhotosFailedCount: "{count, plural, one {# photo could not be uploaded} other {# photos could not be uploaded}}",
+  ownPhotoBadge: "Your own photo",
+  timelineOf: "Timeline of",
+  to: "to",
+  serverError: "Server error",
+  pollingFailed: "Status check failed",
+  authWelcome: "Welcome to Your Year",
+  authSubtitle: "Create an account to save your content",
+  authLogin: "Log in",
+  voiceElevenLabsLoginRequired: "Sign in to use ElevenLabs",
+  voiceElevenLabsLoginRequiredDesc: "ElevenLabs voices are available to signed-in users.",
+  authSignUp: "Sign up",
+  authLogout: "Log out",
+  authEmail: "Email address",
+  authPassword: "Password",
+  authDisplayName: "Name",
+  authGoogleSignIn: "Continue with Google",
+  authOrEmail: "or with email",
+  authForgotPassword: "Forgot password?",
+  authCheckEmail: "Check your email",
+  authVerifyEmailSent: "We've sent you a verification link.",
+  authResetEmailSent: "We've sent you a password reset link.",
+  authEnterEmail: "Please enter your email address first",
+  authError: "Something went wrong",
+  authNewPassword: "Set new password",
+  authUpdatePassword: "Update password",
+  authPasswordUpdated: "Password successfully updated",
+  authInvalidResetLink: "Invalid or expired reset link",
+  authMyAccount: "My account",
+  accountNoContent: "No saved content yet",
+  accountNoContentDesc: "Your generated timelines will appear here",
+  accountSavedStories: "Saved timelines",
+  accountViewStory: "View",
+  accountShareStory: "Share",
+  accountDeleteStory: "Delete",
+  accountDeleteConfirm: "Are you sure you want to delete this timeline?",
+  accountStoryDeleted: "Timeline deleted",
+  accountCreatedAt: "Created on",
+  accountBilling: "Billing",
+  accountBillingDesc: "Manage your subscription and payment details",
+  accountManageSubscription: "Manage subscription",
+  accountPerMonth: "month",
+  accountEvents: "events",
+  saveEvent: "Save event",
+  eventSaved: "Event saved",
+  eventAlreadySaved: "Already saved",
+  accountSavedEvents: "Saved events",
+  accountNoSavedEvents: "No saved events yet",
+  accountNoSavedEventsDesc: "Save individual events from your timeline",
+  eventDeleted: "Event deleted",
+  eventShared: "Event copied to clipboard",
+
+  // OptionalInfoForm labels
+  friendsLabel: "Top 3 friends from back then",
+  friendsInputPlaceholder: "Names separated by commas (e.g. John, Paul, George)",
+  schoolLabel: "High School",
+  schoolInputPlaceholder: "E.g. Springfield High School",
+  nightlifeLabel: "Favorite venues",
+  nightlifeInputPlaceholder: "Clubs/bars separated by commas",
+
+  // PhaseSelector (HomeV2)
+  chooseDestination: "Choose your destination",
+  whichVersionToVisit: "Which version of yourself do you want to visit?",
+  phaseBirthyearDesc: "Discover the world you were born into",
+  phaseChildhoodTitle: "Childhood",
+  phaseChildhoodDesc: "Relive your carefree days of play",
+  phasePubertyDesc: "Back to your first crush",
+  phaseYoungAdultTitle: "Young Adult",
+  phaseYoungAdultDesc: "The time of freedom and adventure",
+
+  // HomeV2 specific
+  backToBirthDate: "Back to birth date",
+  chooseOtherDestination: "Choose other destination",
+  startMyTimeJourney: "Start my Time Journey",
+  goingBackTo: "You're going back to",
+
+  // Timeline Story button
+  timelineStoryButton: "Timeline Story",
+
+  // ChapterIndicator
+  chapterBirthDate: "Birth Date",
+  chapterDestination: "Destination",
+  chapterIdentity: "Identity",
+
+  // IdentityForm
+  whoIsMainCharacter: "Who is the main character?",
+  lastDetailsForJourney: "The final details for your personal time journey",
+  friendsCalledYou: "What did your friends call you back then?",
+  namePlaceholder: "E.g. Johnny, Mary, DJ Pete...",
+  forStoryStyle: "For the right story style:",
+  genderHe: "He",
+  genderShe: "She",
+
+  // RetroDateInput
+  whenDidYourStoryBegin: "When did your story begin?",
+  fillBirthDateToStart: "Fill in your birth date to start the time machine",
+  legendaryDayToStart: "A legendary day to start with.",
+  daysOfWeek: ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"],
+
+  // NostalgicLoading
+  loadingArchives: "Browsing through the archives...",
+  loadingDustNewspapers: "Dusting off old newspapers...",
+  loadingMemories: "Retrieving memories...",
+  loadingCassette: "Rewinding the cassette tape...",
+  loadingVHS: "Searching through VHS tapes...",
+  loadingHitsOf: "Looking up the hits of {year}...",
+  loadingDialUp: "Dialing up via modem... beep boop...",
+  loadingWindows: "Starting Windows 95...",
+  loadingBackTo: "Back to {year}...",
+  loadingSearchArchives: "Searching the archives of {year}...",
+  loadingCollectMemories: "Collecting memories...",
+  loadingPrepareJourney: "Preparing your time journey...",
+
+  // TimeTravelCounter
+  timeTravelComplete: "Time travel complete",
+  timeTravelInProgress: "Time travel in progress...",
+
+  // TimelineCarousel scope labels
+  scopeBirthday: "Birthday",
+  scopeOnBirthday: "On your birthday",
+  scopeInBirthMonth: "In your birth month",
+  scopeInBirthYear: "In your birth year",
+
+  // StoryEndCarousel / SharedExperienceCarousel
+  endOfJourney: "End of your time journey",
+  takeYourStory: "Take your story with you",
+  swipeToDiscover: "Swipe to discover all the ways you can relive and share your story",
+  myLifeInMusic: "My Life in Music",
+  allNumberOneHits: "All #1 hits",
+  discoverIconicHits: "Discover all iconic #1 hits from your timeline, save your favorites and share your playlist.",
+  discoverHits: "Discover hits",
+  myLifeInTvFilm: "My Life in TV & Film",
+  seriesAndFilms: "Series & films",
+  reliveIconicTv: "Relive the iconic TV series and blockbusters from your life with trailers on YouTube.",
+  discoverTitles: "Discover titles",
+  fullyPersonalized: "Fully Personalized",
+  fortyEvents: "40 events • Your details",
+  makeStoryUnique: "Make your story unique with personal details, 40 events and a longer music video.",
+  personalize: "Personalize",
+  roastMyLife: "Roast My Life",
+  aiHumorShareable: "AI humor • Shareable",
+  letAiRoast: "Let AI roast your life mercilessly (or mildly) based on your timeline. From loving to brutal.",
+  roastMe: "Roast me!",
+  spokenStory: "Spoken Story",
+  spokenStoryReady: "Your personal story is ready",
+  spokenStoryGenerateAudioFor: "Generate audio for {count, plural, one {# event} other {# events}}{intro}",
+  spokenStoryWithIntro: " + intro",
+  spokenStoryGenerating: "Generating audio... {pct}%",
+  spokenStoryGenerateButton: "Generate Audio",
+  spokenStoryGeneratingShort: "Generating...",
+  spokenStoryError: "Audio generation failed",
+  aiVoiceNarration: "AI voice • Narration",
+  listenToStory: "Listen to your life story as a spoken narration with visuals and atmospheric music.",
+  myLifeInPolaroids: "My Life in Polaroids",
+  retroStyle: "Retro style",
+  relivePolaroids: "Relive your finest moments as a collection of nostalgic polaroid photos.",
+  viewPolaroids: "View polaroids",
+  myLifeAsPresentation: "My Life as Presentation",
+  pdfAlbum: "PDF • A4 Album",
+  downloadAlbumDesc: "Download a beautiful A4 album of your life story as PDF, ready to print or share.",
+  downloadPdf: "Download PDF",
+
+  // ShareDialog
+  shareTitle: "My TimeStory",
+  shareVideoText: "Check out my personal timeline video!",
+  shareWhatsapp: "Check out my TimeStory: {url}",
+  shareTelegram: "Check out my TimeStory!",
+  shareTwitter: "Check out my personal timeline video!",
+  shareEmailSubject: "Check out my TimeStory",
+  shareEmailBody: "I made a personal timeline video! Check it out here: {url}",
+  viewSharedVideo: "View your shared video",
+
+  // RoastDialog
+  bornIn: "Born in",
+  discoverYourJourneyFree: "Discover your time journey • Free",
+  roastShareText: "🔥 Roast my life ({intensity}) - Discover your time journey at {url}",
+  savedToast: "Saved!",
+  roastSavedDesc: "The roast has been saved to your account.",
+  errorToast: "Error",
+  roastSaveError: "Could not save the roast.",
+  creatingImage: "Creating image...",
+  share: "Share",
+  save: "Save",
+  roastEmailSubject: "🔥 Roast my life",
+  roastEmailBody: "Check out my roast:\n\n{text}\n\nCreate your own time journey at {url}",
+
+  // MusicOverviewPage
+  removeFromFavorites: "Remove from favorites",
+  addToFavorites: "Add to favorites",
+  savedToAccount: "Saved to your account",
+  saveToAccount: "Save to your account",
+  loadingLocalHits: "Loading local hits for {city}...",
+  tracksLoaded: "{loaded} / {total} tracks loaded...",
+  loadingTvFilms: "Loading TV shows and films{city}...",
+  trailersSearched: "{loaded} / {total} trailers searched...",
+  yourMusicOverviewTitle: "Your Music Overview",
+  yourTvFilmOverviewTitle: "Your TV & Film Overview",
+  tracksFoundFavorites: "{count, plural, one {# track found} other {# tracks found}} • {fav, plural, one {# favorite} other {# favorites}}",
+  titlesFoundFavorites: "{count, plural, one {# title found} other {# titles found}} • {fav, plural, one {# favorite} other {# favorites}}",
+  inclLocalHitsSuffix: " • incl. {country} hits",
+  playlistAllTracks: "Playlist all {count} tracks",
+  playlistFavoritesCount: "Playlist {count} favorites",
+  spotifyOpenHint: "Creates a playlist in your own Spotify account. If that fails, the links are copied to your clipboard.",
+  spotifyPlaylistDescription: "The number one hits from {start} to {end}.",
+  spotifyPlaylistTitle: "Spotify playlist",
+  spotifyPlaylistCreating: "Creating the playlist in your Spotify account...",
+  spotifyPlaylistCreated: "Your playlist with {count, plural, one {# track} other {# tracks}} is ready in Spotify.",
+  spotifyPlaylistOpen: "Open in Spotify",
+  spotifyPlaylistFailed: "The playlist could not be created. Please try again.",
+  spotifyPlaylistBack: "Back",
+  playlistExportButton: "Export",
+  playlistExportAll: "All {count} tracks",
+  playlistExportFavorites: "{count} favorites",
+  playlistExportM3u8: "M3U8 (media players)",
+  playlistExportXspf: "XSPF (VLC)",
+  playlistExportCsv: "CSV (spreadsheet)",
+  playlistExportHtml: "Web page with search links",
+  birthdayNumberOneTitle: "Number one on your birthday",
+  birthdayNumberOneYearTitle: "Number one in your birth year",
+  birthdayNumberOneIntl: "International",
+  birthdayNumberOneListen: "Listen on Spotify",
+  birthdayNumberOneBirthdays: "The number one on your birthdays",
+  birthdayNumberOneYears: "The number one of every year since",
+  birthdayNumberOneAge: "age {age}",
+  trailersAllPlay: "{count, plural, one {Play # trailer} other {Play all # trailers}}",
+  trailersFavoritesPlay: "{count, plural, one {Play # favorite} other {Play # favorites}}",
+  myFavoritesPlaylistLabel: "My Favorites",
+  localHitBadge: "Local",
+  noTracksAvailable: "No tracks available.",
+  noTrailersAvailable: "No trailers available.",
+  linksCopiedTitle: "Links copied!",
+  spotifyLinksCopiedDesc: "{count, plural, one {# Spotify link copied to your clipboard. Paste it into a Spotify playlist.} other {# Spotify links copied to your clipboard. Paste them into a Spotify playlist.}}",
+  youtubeLinksCopiedDesc: "{count, plural, one {# YouTube link copied to your clipboard.} other {# YouTube links copied to your clipboard.}}",
+  myMusicVideo: "My music video",
+  justReady: "Just ready",
+  yourPersonalMusicVideo: "Your personal music video",
+  alsoForYou: "Also for you",
+  unlock: "Unlock",
+  open: "Open",
+  myTimeline: "My timeline",
+  backToTimeline: "Back to your story",
+  scrollDownHint: "scroll down",
+  savedDescriptionTrack: "{name} is now on your account page.",
+  savedDescriptionItem: "{title} is now on your account page.",
+  errorLabel: "Error",
+  spotifyFailedSummary: "{count} of {total} tracks couldn't be loaded — Spotify may be temporarily unavailable.",
+  localHitsFetchError: "Couldn't load local hits — please try again later.",
+  youtubeFailedSummary: "{count} of {total} films/shows couldn't be loaded — YouTube may be temporarily unavailable.",
+  numberOneHitDesc: "#1 hit from {year}. Album: {album}",
+  myMusicVideoTitle: "My Music Video",
+  eventsAiMusic: "{count, plural, one {# event} other {# events}} • AI music",
+  preparingMusicVideo: "Your music video is being prepared...",
+  errorBoundaryTitle: "Something went wrong",
+  errorBoundaryBody: "We couldn't load this part of the app.",
+  errorBoundaryRetry: "Try again",
+  errorBoundaryHome: "Go home",
+  notifTitlePulse: "🎵 Being created...",
+  notifPersonalMusicVideo: "Personal music video",
+  notifProgressAria: "Personal music video being created — {pct}%",
+  notifProgressAriaCollapsed: "Personal music video being created — {pct}%, click to show",
+  notifTapToScroll: "Tap to scroll to your music video",
+  notifTapToGo: "Tap to go to your music video",
+  notifCollapse: "Collapse",
+  notifCollapseAria: "Collapse notification",
+  notifProgressTitle: "Music video progress",
+  notifMusicVideoFailed: "Music video failed",
+  notifMusicVideoFailedAria: "Music video failed — tap to retry",
+  notifTapToRetry: "Tap to retry",
+  notifRetry: "Try again",
+  notifReadyToPlay: "Ready to play",
+  notifYourMusicVideoFallback: "Your music video",
+  notifYourPersonalVideoReady: "Your personal music video is ready.",
+  notifWatchNow: "Watch now",
+  notifLater: "Later",
+  notifClose: "Close",
+  notifOpenMusicVideo: "Open music video notification",
+  shareYourVideoTitle: "Share your video",
+  shareGeneratingLink: "One moment, we're creating your shareable link...",
+  shareReadyDesc: "Your video is ready to share!",
+  shareSomethingWrong: "Something went wrong",
+  shareUploadFailed: "Upload failed",
+  shareTryAgain: "Try again",
+  shareCopyLinkLabel: "Copy link",
+  shareDeleteEllipsis: "Share...",
+  shareViaLabel: "Share via",
+  shareGenericError: "Something went wrong",
+  tiktokIntroTitle: "Your Time Journey",
+  tiktokOutroTitle: "Make your own time journey!",
+  tiktokWatermark: "TimeStory",
+  tiktokUnknownError: "Unknown error",
+  tiktokWebShareUnavailable: "Web Share API unavailable",
+  tiktokCannotShareFiles: "Cannot share these files",
+  introReadyTitle: "🎬 Your personal music video is ready",
+  introReadyHint: "Press ▶ to play",
+  introReadyTitleNarrative: "📖 Your personal narrative book is ready",
+  introReadyHintNarrative: "Press ▶ to play",
+  pdfDefaultFirstName: "You",
+  pdfDefaultStoryName: "TimeStory",
+  pdfTitleFallback: "The Year of {name}",
+  pdfAlbumFooter: "TimeStory Album",
+  pdfAlbumFileSuffix: "Album",
+  pdfCatPolitics: "Politics",
+  pdfCatSports: "Sports",
+  pdfCatEntertainment: "Entertainment",
+  pdfCatScience: "Science",
+  pdfCatCulture: "Culture",
+  pdfCatWorld: "World",
+  pdfCatLocal: "Local",
+  pdfCatPersonal: "Personal",
+  pdfCatMusic: "Music",
+  pdfCatTechnology: "Technology",
+  pdfCatCelebrity: "Celebrity",
+  pdfCatUnknown: "Unknown",
+  pdfTypeBirthdate: "On this day",
+  pdfTypeBirthmonth: "This month",
+  pdfTypeBirthyear: "This year",
+  pdfTypePeriod: "Period",
+  pdfPersonalJourneyFor: "The personal journey through time for",
+  pdfYourStory: "Your Story",
+  pdfInThisIssue: "In this issue",
+  pdfAlsoBornToday: "Also Born on This Day",
+  pdfThanksFor: "Thank you for",
+  pdfThanksShort: "Thank you!",
+  pdfUnknownName: "Unknown",
+  pdfMagazineTitle: "TIME TRAVEL MAGAZINE",
+  pdfRunningHeader: "TIME TRAVEL • {name}",
+  pdfNumberOneBirthday: "No. 1 on your birthday",
+  pdfNumberOneBirthYear: "No. 1 in your birth year",
+  pdfEventCount: "{count, plural, one {# event} other {# events}}",
+  pdfSpecialEdition: "{count, plural, one {# event} other {# events}} • Special edition",
+  pdfMoreYears: "{count, plural, one {+ # more year...} other {+ # more years...}}",
+  pdfAlsoBornBadge: "Also Born Today",
+  pdfForReading: "reading!",
+  pdfJourneyMadeFor: "A journey through time made for {name}",
+  pdfClosingStats: "{count, plural, one {# event} other {# events}} • {years, plural, one {# year} other {# years}} • {people, plural, one {# celebrity} other {# celebrities}}",
+  pdfPolaroidClosingStats: "{count, plural, one {# event} other {# events}} • {people, plural, one {# celebrity} other {# celebrities}}",
+  pdfGeneratedOn: "Generated on {date}",
+  pdfFileName: "time-travel",
+  pdfPolaroidEdition: "TIME TRAVEL POLAROID EDITION",
+  pdfPolaroidHeader: "TIME TRAVEL POLAROID",
+  pdfPolaroidEditionShort: "POLAROID EDITION",
+  pdfImageCredits: "IMAGE CREDITS",
+  imageCreationFailed: "Something went wrong creating the image",
+  copiedTitle: "Copied!",
+  textCopiedDesc: "Text copied to clipboard.",
+  oopsTitle: "Oops",
+  roastGenerationFailed: "Could not generate the roast",
+  roastImageFailed: "Could not generate the image.",
+  downloadedTitle: "Downloaded!",
+  shareImageOnSocial: "Share the image on social media!",
+  loginRequiredTitle: "Log in",
+  loginRequiredRoastDesc: "Create an account to save your roast.",
+  savedTitle: "Saved!",
+  errorShortLabel: "Error",
+  roastSaveFailed: "Could not save the roast.",
+  trailerNotFoundTitle: "Trailer not found",
+  trailerNotFoundDesc: "Could not find a trailer for this movie.",
+  connectionErrorTitle: "Connection error",
+  connectionErrorDesc: "Could not connect to the server. Please try again later.",
+  pdfGenerationFailed: "PDF generation failed",
+  imageBlacklistedTitle: "Image blacklisted",
+  imageBlacklistedDesc: "Started a new search...",
+  eventsFoundDesc: "{count, plural, one {# event found} other {# events found}}",
+  ariaPrev: "Previous",
+  ariaNext: "Next",
+  ariaStopTrailer: "Stop trailer",
+  ariaCloseTrailer: "Close trailer",
+  ariaPlayTrailer: "Play trailer",
+  ariaBlacklistImage: "Block image",
+  blacklistImageTitle: "Block photo (globally) and search again",
+  playSongCompact: "Song",
+  playSongLabel: "Play song",
+  searchingPhotoLabel: "Searching photo...",
+  scrollToLoadPhoto: "Scroll to load photo",
+  debugInfoTitle: "Debug info",
+  debugInfoFilterPlaceholder: "Filter by title, category, type...",
+  debugInfoBlacklistThumb: "Block this image",
+  debugInfoReloadAll: "Reload all images",
+  debugInfoSearchingShort: "Searching...",
+  debugInfoLabelImages: "image",
+  debugInfoLabelSounds: "sound",
+  debugInfoNone: "None",
+  promptCopyToClipboard: "Copy to clipboard",
+  promptCopiedShort: "Copied",
+  quickRefreshTitle: "Quick refresh (20 events)",
+  fullRefreshTitle: "Full refresh (50 events)",
+  roastTitle: "Roast my life",
+  roastIntensityLabel: "Intensity",
+  roastIntensityMild: "Mild",
+  roastIntensitySpicy: "Spicy",
+  roastIntensityMedium: "Medium",
+  roastIntensitySharp: "Sharp",
+  roastIntensityExtreme: "Extreme",
+  roastWriting: "Writing {level} roast...",
+  roastShareLabel: "Share",
+  roastImageMaking: "Creating image...",
+  roastSaveLabel: "Save",
+  roastImageAlt: "Roast image",
+  roastShareViaLabel: "Share via",
+  roastNativeShareLabel: "Share...",
+  roastCopyText: "Copy text",
+  roastCopiedShort: "Copied!",
+  roastDownloadImage: "Download image",
+  roastShareTextTpl: "🔥 Roast my life ({level}) - Discover your time travel at {url}",
+  roastImageHeading: "ROAST MY LIFE",
+  roastBornInLabel: "Born in {year}",
+  roastFooterTagline: "Discover your time travel • Free",
+  roastNoneReceived: "No roast received",
+
+  // Subculture editor (admin)
+  subcultureEditorTitle: "Subculture dataset",
+  subcultureEditorSummary: "Version {version} · {eras, plural, one {# era} other {# eras}} · {countries, plural, one {# country} other {# countries}}",
+  subcultureEditorImport: "Import",
+  subcultureEditorReset: "Reset",
+  subcultureEditorResetConfirm: "Discard the draft and go back to the current dataset?",
+  subcultureEditorImportFailed: "Import failed: {error}",
+  subcultureEditorImportIssues: "{count, plural, one {# error} other {# errors}}, e.g. {path}: {message}",
+  subcultureEditorChecks: "Checks",
+  subcultureEditorErrors: "{count, plural, one {# error} other {# errors}}",
+  subcultureEditorWarnings: "{count, plural, one {# warning} other {# warnings}}",
+  subcultureEditorEras: "Eras",
+  subcultureAgeGroupTeen: "Teenagers",
+  subcultureAgeGroupYoungAdult: "Young adults",
+  subcultureEditorNoEra: "No subcultures for {period}, {ageGroup}, {country}.",
+  subcultureEditorAddEra: "Add era",
+  subcultureEditorName: "Name",
+  subcultureEditorDescription: "Description",
+  subcultureEditorOnePerLine: "{label} (one per line)",
+  subcultureEditorAddSubculture: "Add subculture",
+  subcultureEditorRemoveEra: "Remove era",
+  subcultureEditorCountries: "Countries and cities",
+  subcultureEditorCode: "Code",
+  subcultureEditorCities: "Cities, one per line (lowercase)",
+  subcultureEditorAddCountry: "Add country",
+
+  // Image search dashboard (admin)
+  imageQualityTitle: "Image search quality",
+  imageQualitySubtitle: "Anonymized search traces from the last {days, plural, one {# day} other {# days}}",
+  imageQualityPeriod: "{days, plural, one {# day} other {# days}}",
+  imageQualityRefresh: "Refresh",
+  imageQualityLoadFailed: "Loading failed: {error}",
+  imageQualitySearches: "Searches",
+  imageQualityWithImage: "With image",
+  imageQualityAvgTimeToImage: "Average time to image",
+  imageQualityFound: "Found",
+  imageQualityTimeToImage: "Time to image",
+  imageQualityBySource: "By source",
+  imageQualitySource: "Source",
+  imageQualityAsked: "Asked",
+  imageQualityErrors: "Errors",
+  imageQualityWon: "Chosen",
+  imageQualityBySubject: "By subject type",
+  imageQualityType: "Type",
+  imageQualityByLanguage: "By language",
+  imageQualityLanguage: "Language",
+  imageQualityMostBlacklisted: "Most blocked sources",
+  imageQualityNoneBlacklisted: "No images were blocked in this period.",
+  imageQualityNeverFound: "Searches without an image",
+  imageQualityAllFound: "Every search found an image at least once.",
+  imageQualityQuery: "Search",
+  imageQualityTimesSearched: "Times searched",
+  imageQualityLastSearched: "Last",
+};
+
+export default en;
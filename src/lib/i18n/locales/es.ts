@@ -0,0 +1,803 @@
+import type { Messages } from "../types";
+
+const es: Messages = {
+  siteTitle: "El año de",
+  heroTitle: "Tu historia a través del tiempo",
+  heroSubtitle: "Descubre qué pasó el día en que naciste o viaja a través de los años con un repaso histórico personal.",
+  startButton: "Empieza tu viaje",
+  choiceTitle: "¿Qué quieres descubrir?",
+  choiceSubtitle: "Elige cómo quieres viajar en el tiempo",
+  option1Title: "El año, el mes y el día de...",
+  option1Description: "Descubre todo sobre una fecha de nacimiento concreta: ¿qué pasó ese año, ese mes y justo ese día?",
+  option2Title: "Un viaje en el tiempo de año en año",
+  option2Description: "Crea un repaso histórico de todo un periodo, perfecto para aniversarios o para revivir una época.",
+  birthDateLabel: "Fecha de nacimiento",
+  birthDateQuestion: "¿Cuál es tu fecha de nacimiento?",
+  dayLabel: "Día",
+  monthLabel: "Mes",
+  yearLabel: "Año",
+  startYearLabel: "Año de inicio",
+  endYearLabel: "Año final",
+  periodQuestion: "¿Qué época quieres revivir?",
+  periodBirthyear: "Año de nacimiento",
+  periodBirthyearDesc: "El año en que naciste",
+  periodChildhood: "Infancia",
+  periodChildhoodDesc: "6-12 años",
+  periodPuberty: "Adolescencia",
+  periodPubertyDesc: "12-17 años",
+  periodYoungAdult: "Joven adulto",
+  periodYoungAdultDesc: "18-25 años",
+  periodCustom: "Personalizado",
+  periodCustomDesc: "Elige tu propio periodo",
+  timelineLengthQuestion: "¿Cuántos momentos quieres ver?",
+  timelineShort: "Corta",
+  timelineShortDesc: "20 momentos",
+  timelineLong: "Ampliada",
+  timelineLongDesc: "50 momentos",
+  createTimelineButton: "Crear cronología",
+  createPolaroidButton: "Crear cronología en polaroids",
+  optionalInfoTitle: "Hazlo más personal",
+  optionalInfoSubtitle: "Estos datos son opcionales, pero nos ayudan a crear una historia más rica",
+  nameLabel: "Nombre",
+  firstNameLabel: "Nombre",
+  firstNamePlaceholder: "P. ej. Juan",
+  lastNameLabel: "Apellido",
+  lastNamePlaceholder: "P. ej. García",
+  cityLabel: "Ciudad",
+  cityPlaceholder: "P. ej. Madrid",
+  partnerLabel: "Pareja",
+  childrenLabel: "Hijos",
+  child1NameLabel: "Nombre hijo/a 1",
+  child1BirthLabel: "Fecha de nacimiento hijo/a 1",
+  child2NameLabel: "Nombre hijo/a 2",
+  child2BirthLabel: "Fecha de nacimiento hijo/a 2",
+  child3NameLabel: "Nombre hijo/a 3",
+  child3BirthLabel: "Fecha de nacimiento hijo/a 3",
+  partnerNameLabel: "Nombre de la pareja",
+  partnerBirthLabel: "Fecha de nacimiento de la pareja",
+  siblingsLabel: "Hermanos y hermanas",
+  siblingNamePlaceholder: "Nombre",
+  siblingBirthLabel: "Fecha de nacimiento",
+  addSibling: "Añadir un hermano o hermana",
+  removeSibling: "Quitar",
+  sharedTimelineLabel: "Años compartidos",
+  sharedTimelineHint: "Una cronología para ti y tu pareja o tus hermanos, con la edad de cada uno en cada momento.",
+  metYearLabel: "Año en que os conocisteis (opcional)",
+  sharedYou: "Tú",
+  sharedPersonAge: "{name} · {age} años",
+  sharedPersonNotBorn: "{name} · aún no había nacido",
+  sharedYearWeMet: "El año en que nos conocimos",
+  compareTitle: "Tu año frente a mi año",
+  compareDescription: "Compara dos años lado a lado: música, TV, tecnología y política, y lo que cambió entre ellos.",
+  compareNameLabel: "Nombre",
+  compareYearLabel: "Año",
+  compareSideYou: "Tú",
+  compareSideFriend: "Amigo/a",
+  compareStart: "Comparar",
+  compareLoading: "Creando ambos años...",
+  compareWhatChanged: "Lo que cambió entre medias",
+  compareNothingInCategory: "Nada en esta categoría",
+  compareFailed: "No se pudo crear la comparación",
+  compareCatMusic: "Música",
+  compareCatTv: "TV y cine",
+  compareCatTechnology: "Tecnología",
+  compareCatPolitics: "Política y mundo",
+  compareYearsTile: "Tu año frente al de un amigo",
+  compareYearsTileSubtitle: "Dos años lado a lado",
+  renderDownloadButton: "Descargar",
+  renderDownloadTitle: "Descargar como archivo de vídeo",
+  renderFormatLabel: "Formato",
+  renderResolutionLabel: "Resolución",
+  renderStart: "Crear vídeo",
+  renderSavingStory: "Guardando la historia...",
+  renderQueued: "Esperando en la cola...",
+  renderProgress: "Renderizando vídeo... {pct}%",
+  renderDownload: "Descargar {format}",
+  renderFailed: "No se pudo crear el vídeo",
+  captionsToggle: "Subtítulos",
+  captionsDownload: "Subtítulos:",
+  interestsLabel: "Intereses",
+  interestsPlaceholder: "P. ej. deporte, música, ordenadores, política",
+  focusLabel: "Enfoque geográfico",
+  focusNetherlands: "Países Bajos",
+  focusEurope: "Europa",
+  focusWorld: "Mundo",
+  nextButton: "Siguiente",
+  backButton: "Atrás",
+  skipButton: "Saltar",
+  generateButton: "Crear mi viaje en el tiempo",
+  confirmButton: "Confirmar",
+  cancelButton: "Cancelar",
+  refreshButton: "Actualizar",
+  customDialogTitle: "Personaliza tu viaje en el tiempo",
+  customDialogDescription: "Ajusta los años o añade información extra",
+  adjustButton: "Ajustar",
+  subcultureLabel: "Subcultura",
+  subcultureNoPreference: "Sin preferencia",
+  subcultureBrands: "Marcas",
+  subcultureMusic: "Música",
+  subcultureClothing: "Ropa",
+  discoverMore: "Descubre más",
+  discoverMusicTitle: "Mi vida en música",
+  discoverMusicDesc: "Descubre los números 1 de tus años",
+  discoverTvFilmTitle: "Mi vida en TV y cine",
+  discoverTvFilmDesc: "Películas y series icónicas de tu época",
+  discoverPolaroidTitle: "Mi vida en polaroids",
+  discoverPolaroidDesc: "Tu historia como collage de polaroids",
+  discoverStoryTitle: "Mi historia en el tiempo",
+  discoverStoryDesc: "La historia completa de tu vida",
+  badgeFree: "Gratis",
+  badgePremium: "Premium",
+  customFromYear: "Desde el año",
+  customToYear: "Hasta el año",
+  customFromPlaceholder: "p. ej. 1985",
+  customToPlaceholder: "p. ej. 1995",
+  backToInput: "Volver a los datos",
+  yourTimeJourney: "Tu viaje en el tiempo",
+  magazinePdf: "Revista PDF",
+  polaroidPdf: "Polaroid PDF",
+  alsoborn: "También nacieron:",
+  moreCount: "más",
+  loadingImages: "Cargando imágenes...",
+  photosCount: "fotos",
+  loadingTitle: "Viajando atrás en el tiempo...",
+  loadingSubtitle: "Esto puede tardar un momento",
+  eventsLoaded: "acontecimientos cargados...",
+  timelineLoaded: "¡Cronología cargada!",
+  eventsFound: "acontecimientos encontrados",
+  errorTitle: "Algo salió mal",
+  tryAgain: "Intentar de nuevo",
+  noDataFound: "No se encontraron datos",
+  backToStart: "Volver al inicio",
+  pdfDownloaded: "¡PDF descargado!",
+  pdfMagazineReady: "Tu revista del viaje en el tiempo está lista",
+  polaroidPdfDownloaded: "¡PDF de polaroids descargado!",
+  polaroidReady: "Tu edición polaroid de los 80 está lista",
+  albumDownloaded: "¡Álbum descargado!",
+  albumReady: "Tu álbum TimeStory está listo",
+  downloadAlbum: "Descargar álbum (PDF)",
+  pdfError: "Error al generar el PDF",
+  pdfTryAgain: "Inténtalo de nuevo",
+  shareToTikTok: "Compartir en TikTok",
+  generatingSlides: "Generando diapositivas...",
+  shareSuccess: "¡Compartido!",
+  tikTokReady: "Tus diapositivas para TikTok están listas",
+  shareError: "No se pudo compartir",
+  slidesReady: "¡Diapositivas listas!",
+  tapToShare: "Pulsa el botón verde para compartir",
+  prepareSlides: "Preparar diapositivas",
+  shareNow: "Compartir ahora",
+  createCollage: "Crear collage (6 fotos)",
+  selectPhotos: "Selecciona 6 fotos",
+  selectedCount: "Seleccionadas",
+  maxPhotosReached: "Máximo 6 fotos",
+  generateCollage: "Descargar collage",
+  collageDownloaded: "¡Collage descargado!",
+  collageReady: "Tu collage de polaroids está listo",
+  collageError: "Error al generar el collage",
+  cancelSelection: "Cancelar",
+  loadError: "Error al cargar",
+  required: "Este campo es obligatorio",
+  invalidDate: "Esta fecha no existe: revisa el día y el mes.",
+  yearRange: "El año debe estar entre 1900 y el año actual",
+  endYearAfterStart: "El año final debe ser posterior al año de inicio",
+  fillBirthDate: "Introduce tu fecha de nacimiento",
+  validYearRange: "Introduce un año de nacimiento válido",
+  choosePeriod: "Elige un periodo",
+  fillBothYears: "Rellena ambos años",
+  validYears: "Introduce años válidos",
+  months: [
+    "Enero", "Febrero", "Marzo", "Abril", "Mayo", "Junio",
+    "Julio", "Agosto", "Septiembre", "Octubre", "Noviembre", "Diciembre",
+  ] as readonly string[],
+  birthDateStepLabel: "Fecha de nacimiento",
+  periodStepLabel: "¿Qué periodo?",
+  styleStepLabel: "Estilo y subcultura",
+  cityQuestion: "¿Qué lugar fue el más importante en esa época?",
+  pressEnterToContinue: "Pulsa Intro para continuar",
+  startTimeJourney: "Empezar mi viaje en el tiempo",
+  recentStoriesTitle: "Historias anteriores",
+  recentStoriesSearchPlaceholder: "Busca por nombre, lugar, año o acontecimiento…",
+  recentStoriesNoResults: "No se encontraron historias",
+  recentStoriesDelete: "Eliminar historia",
+  recentStoriesEventCount: "{count, plural, one {# acontecimiento} other {# acontecimientos}}",
+  genderLabel: "Género",
+  genderMale: "Hombre",
+  genderFemale: "Mujer",
+  genderNone: "Sin preferencia",
+  genderNeutral: "Neutro",
+  periodBirthyearLong: "El año en que llegaste al mundo",
+  periodChildhoodLong: "Jugar en la calle, los primeros amigos, la escuela primaria",
+  periodPubertyLong: "El primer amor, descubrir la música",
+  periodYoungAdultLong: "Salir, estudiar, descubrir el mundo",
+  yourMusicVideo: "Tu videoclip",
+  previewVersion: "Versión de prueba",
+  personalizedVersion: "Versión personalizada",
+  shareButton: "Compartir",
+  writingLyrics: "Escribiendo la letra...",
+  startingMusic: "Iniciando la música...",
+  composingSoundtrack: "Se está componiendo tu banda sonora personal...",
+  soundtrackStreaming: "Tu banda sonora personal está sonando (aún se está terminando)...",
+  musicVideoReady: "¡Tu videoclip está listo!",
+  somethingWentWrong: "Algo salió mal",
+  loading: "Cargando...",
+  generationTime: "Esto puede tardar 2-4 minutos. Mientras tanto puedes seguir desplazándote.",
+  retryButton: "Reintentar",
+  previewPlaying: "Avance: tu canción suena mientras terminamos la versión completa",
+  aiMusicVideo: "Videoclip con IA",
+  makeMorePersonal: "Hazlo aún más personal",
+  upgradeDescription: "Añade amigos, escuela y locales para una letra única con tus recuerdos y las noticias de tu cronología.",
+  upgradeToV2: "Mejorar a V2",
+  viewLyrics: "Ver letra",
+  hideLyrics: "Ocultar letra",
+  yourYears: "Tus años",
+  yourStory: "Tu historia",
+  customizeTitle: "Personalizar",
+  customizeDescription: "Ajusta tus datos para un resultado más personal con tus recuerdos y noticias.",
+  currentVersionV1: "Versión actual (V1):",
+  cityLabelShort: "Ciudad",
+  genderForVoice: "Género (para la voz)",
+  personalMemories: "✨ Recuerdos personales para una canción más única:",
+  top3Friends: "Tus 3 mejores amigos de entonces",
+  friendsPlaceholder: "Nombres separados por comas",
+  highSchool: "Instituto",
+  schoolPlaceholder: "P. ej. IES Cervantes",
+  favoriteVenues: "Locales favoritos",
+  venuesPlaceholder: "P. ej. Rock-Ola, Pachá",
+  musicEngine: "Motor musical",
+  sunoDescription: "Suno (V4.5): máxima calidad",
+  acestepDescription: "Ace-Step: más rápido, alojamiento propio",
+  diffrhythmDescription: "DiffRhythm: marcas de tiempo LRC, ultrarrápido",
+  diffrhythmNote: "⏱️ DiffRhythm genera marcas de tiempo LRC para que la música vaya sincronizada con los acontecimientos de tu cronología.",
+  upgradeInfo: "Tu nueva banda sonora no solo captará el ambiente de tu época, sino que también entretejerá noticias concretas de tu cronología y tus recuerdos personales en una canción verdaderamente única.",
+  upgradeInfoTitle: "Mejorar a V2:",
+  generating: "Trabajando...",
+  generateV2: "Generar V2",
+  personalVideoClip: "Videoclip personal",
+  adjustForPersonal: "Ajusta tus datos para un resultado más personal.",
+  generateVideoClip: "Genera un videoclip único con música.",
+  geographicFocusLabel: "Enfoque geográfico",
+  netherlandsLabel: "Países Bajos",
+  europeLabel: "Europa",
+  worldLabel: "Mundo",
+  musicStyleInfo: "La subcultura determina el estilo.",
+  musicStyleLabel: "Estilo musical:",
+  continueButton: "Continuar",
+  tipPersonalDetails: "¡Rellena tus datos para una canción más personal!",
+  tipLabel: "Consejo:",
+  writingLyricsStep: "Escribiendo la letra",
+  aiWritingLyrics: "La IA escribe una canción nostálgica",
+  composingMusic: "Componiendo la música",
+  aiComposingTrack: "Suno AI crea una pista única",
+  readyLabel: "¡Listo!",
+  listenToHit: "Escucha tu éxito personal",
+  browserNoAudio: "Tu navegador no admite audio.",
+  durationLabel: "Duración:",
+  minutesLabel: "minutos",
+  showSunoUrl: "Mostrar URL de Suno",
+  watchVideo: "Ver vídeo",
+  startGeneration: "Iniciar generación",
+  personalMemoriesForSong: "Recuerdos personales para una canción más única:",
+  personalVideoClipButton: "🎬 Videoclip personal",
+  occasionBirthday: "Cumpleaños",
+  occasionAnniversary: "Aniversario",
+  occasionFun: "Solo por diversión",
+  tooManyRequests: "Demasiadas solicitudes. Inténtalo más tarde.",
+  creditsExhausted: "Créditos agotados. Añade créditos a tu espacio de trabajo.",
+  generationInterrupted: "Generación interrumpida",
+  musicGenerationTimeout: "La generación de la música tardó demasiado",
+  connectionLost: "Se perdió la conexión antes de recibir los resultados. Inténtalo de nuevo.",
+  defaultSummary: "Un repaso de acontecimientos importantes.",
+  loadingTooLong: "La carga tardó demasiado y se detuvo. Inténtalo de nuevo.",
+  unknownError: "Error desconocido",
+  fetchingEvents: "Buscando acontecimientos...",
+  scrollToBegin: "Desplázate para empezar",
+  blacklistTooltip: "Bloquear foto (global) y buscar otra",
+  blacklistAriaLabel: "Bloquear imagen",
+  regenerateEventTooltip: "Dame otra cosa",
+  regenerateEventAriaLabel: "Sustituir este acontecimiento por otro",
+  regenerateEventNoResult: "No se encontró ningún acontecimiento alternativo. Inténtalo de nuevo.",
+  regenerateEventFailed: "No se pudo sustituir",
+  chooseImageTooltip: "Elegir otra foto",
+  chooseImageTitle: "Elegir una foto",
+  useThisImage: "Usar esta foto",
+  currentImage: "Foto actual",
+  imageLicenseUnknown: "Licencia desconocida",
+  imageCredits: "Créditos de imagen",
+  editTimeline: "Editar cronología",
+  doneEditing: "Terminar de editar",
+  editorTitleLabel: "Título",
+  editorDescriptionLabel: "Descripción",
+  editorDateLabel: "Fecha",
+  editorDateHint: "AAAA, AAAA-MM o AAAA-MM-DD",
+  editorCategoryLabel: "Categoría",
+  editorImportanceLabel: "Importancia",
+  importanceHigh: "Alta",
+  importanceMedium: "Media",
+  importanceLow: "Baja",
+  editorUploadPhoto: "Subir tu propia foto",
+  editorMoveUp: "Subir",
+  editorMoveDown: "Bajar",
+  editorDeleteEvent: "Eliminar acontecimiento",
+  editorAddPersonalEvent: "Añadir un momento personal",
+  editorPhotoFailed: "No se pudo cargar la foto",
+  uploadPhotos: "Añade tus propias fotos",
+  uploadPhotosTitle: "Añade tus propias fotos",
+  uploadPhotosDescription: "Leemos la fecha de captura de tus fotos y proponemos un año. Añade una foto como tarjeta propia o sustituye la imagen de un acontecimiento.",
+  uploadPhotosChoose: "Elegir fotos",
+  photoTakenOn: "Tomada el {date}",
+  photoNoCaptureDate: "No se encontró fecha de captura",
+  photoYearLabel: "Año",
+  photoPlacementLabel: "Ubicación",
+  photoPlacementNewCard: "Como tarjeta propia",
+  photoPlacementReplace: "Sustituir la imagen de: {title}",
+  photoCaptionLabel: "Pie de foto",
+  photoRemove: "Quitar foto",
+  uploadPhotosConfirm: "Añadir a la historia",
+  uploadPhotosUploading: "Subiendo...",
+  uploadPhotosFailed: "Error al subir",
+  uploadPhotosFailedCount: "{count, plural, one {No se pudo subir # foto} other {No se pudieron subir # fotos}}",
+  ownPhotoBadge: "Tu propia foto",
+  timelineOf: "Cronología de",
+  to: "a",
+  serverError: "Error del servidor",
+  pollingFailed: "Error al comprobar el estado",
+  authWelcome: "Bienvenido a Tu Año",
+  authSubtitle: "Crea una cuenta para guardar tu contenido",
+  authLogin: "Iniciar sesión",
+  voiceElevenLabsLoginRequired: "Inicia sesión para usar ElevenLabs",
+  voiceElevenLabsLoginRequiredDesc: "Las voces de ElevenLabs están disponibles para usuarios registrados.",
+  authSignUp: "Registrarse",
+  authLogout: "Cerrar sesión",
+  authEmail: "Correo electrónico",
+  authPassword: "Contraseña",
+  authDisplayName: "Nombre",
+  authGoogleSignIn: "Continuar con Google",
+  authOrEmail: "o con correo electrónico",
+  authForgotPassword: "¿Has olvidado tu contraseña?",
+  authCheckEmail: "Revisa tu correo",
+  authVerifyEmailSent: "Te hemos enviado un enlace de verificación.",
+  authResetEmailSent: "Te hemos enviado un enlace para restablecer la contraseña.",
+  authEnterEmail: "Introduce primero tu correo electrónico",
+  authError: "Algo salió mal",
+  authNewPassword: "Establecer nueva contraseña",
+  authUpdatePassword: "Actualizar contraseña",
+  authPasswordUpdated: "Contraseña actualizada correctamente",
+  authInvalidResetLink: "Enlace de restablecimiento no válido o caducado",
+  authMyAccount: "Mi cuenta",
+  accountNoContent: "Aún no hay contenido guardado",
+  accountNoContentDesc: "Aquí aparecerán las cronologías que generes",
+  accountSavedStories: "Cronologías guardadas",
+  accountViewStory: "Ver",
+  accountShareStory: "Compartir",
+  accountDeleteStory: "Eliminar",
+  accountDeleteConfirm: "¿Seguro que quieres eliminar esta cronología?",
+  accountStoryDeleted: "Cronología eliminada",
+  accountCreatedAt: "Creada el",
+  accountBilling: "Facturación",
+  accountBillingDesc: "Gestiona tu suscripción y tus datos de pago",
+  accountManageSubscription: "Gestionar suscripción",
+  accountPerMonth: "mes",
+  accountEvents: "acontecimientos",
+  saveEvent: "Guardar acontecimiento",
+  eventSaved: "Acontecimiento guardado",
+  eventAlreadySaved: "Ya guardado",
+  accountSavedEvents: "Acontecimientos guardados",
+  accountNoSavedEvents: "Aún no hay acontecimientos guardados",
+  accountNoSavedEventsDesc: "Guarda acontecimientos sueltos de tu cronología",
+  eventDeleted: "Acontecimiento eliminado",
+  eventShared: "Acontecimiento copiado al portapapeles",
+
+  // OptionalInfoForm labels
+  friendsLabel: "Tus 3 mejores amigos de entonces",
+  friendsInputPlaceholder: "Nombres separados por comas (p. ej. Juan, Pablo, Jorge)",
+  schoolLabel: "Instituto",
+  schoolInputPlaceholder: "P. ej. IES Miguel de Cervantes",
+  nightlifeLabel: "Locales favoritos",
+  nightlifeInputPlaceholder: "Discotecas/bares separados por comas",
+
+  // PhaseSelector (HomeV2)
+  chooseDestination: "Elige tu destino",
+  whichVersionToVisit: "¿Qué versión de ti quieres visitar?",
+  phaseBirthyearDesc: "Descubre el mundo en el que naciste",
+  phaseChildhoodTitle: "Infancia",
+  phaseChildhoodDesc: "Revive tus días despreocupados de juego",
+  phasePubertyDesc: "De vuelta a tu primer amor",
+  phaseYoungAdultTitle: "Joven adulto",
+  phaseYoungAdultDesc: "La época de la libertad y la aventura",
+
+  // HomeV2 specific
+  backToBirthDate: "Volver a la fecha de nacimiento",
+  chooseOtherDestination: "Elegir otro destino",
+  startMyTimeJourney: "Empezar mi viaje en el tiempo",
+  goingBackTo: "Vuelves a",
+
+  // Timeline Story button
+  timelineStoryButton: "Historia en el tiempo",
+
+  // ChapterIndicator
+  chapterBirthDate: "Fecha de nacimiento",
+  chapterDestination: "Destino",
+  chapterIdentity: "Identidad",
+
+  // IdentityForm
+  whoIsMainCharacter: "¿Quién es el protagonista?",
+  lastDetailsForJourney: "Los últimos detalles para tu viaje personal en el tiempo",
+  friendsCalledYou: "¿Cómo te llamaban tus amigos entonces?",
+  namePlaceholder: "P. ej. Juanito, Mari, DJ Pepe...",
+  forStoryStyle: "Para el estilo adecuado de la historia:",
+  genderHe: "Él",
+  genderShe: "Ella",
+
+  // RetroDateInput
+  whenDidYourStoryBegin: "¿Cuándo empezó tu historia?",
+  fillBirthDateToStart: "Introduce tu fecha de nacimiento para arrancar la máquina del tiempo",
+  legendaryDayToStart: "Un día legendario para empezar.",
+  daysOfWeek: ["Domingo", "Lunes", "Martes", "Miércoles", "Jueves", "Viernes", "Sábado"],
+
+  // NostalgicLoading
+  loadingArchives: "Hojeando los archivos...",
+  loadingDustNewspapers: "Desempolvando periódicos viejos...",
+  loadingMemories: "Recuperando recuerdos...",
+  loadingCassette: "Rebobinando la cinta de casete...",
+  loadingVHS: "Buscando entre cintas VHS...",
+  loadingHitsOf: "Buscando los éxitos de {year}...",
+  loadingDialUp: "Conectando por módem... pi-pi-piii...",
+  loadingWindows: "Arrancando Windows 95...",
+  loadingBackTo: "De vuelta a {year}...",
+  loadingSearchArchives: "Buscando en los archivos de {year}...",
+  loadingCollectMemories: "Reuniendo recuerdos...",
+  loadingPrepareJourney: "Preparando tu viaje en el tiempo...",
+
+  // TimeTravelCounter
+  timeTravelComplete: "Viaje en el tiempo completado",
+  timeTravelInProgress: "Viaje en el tiempo en curso...",
+
+  // TimelineCarousel scope labels
+  scopeBirthday: "Cumpleaños",
+  scopeOnBirthday: "El día de tu cumpleaños",
+  scopeInBirthMonth: "En tu mes de nacimiento",
+  scopeInBirthYear: "En tu año de nacimiento",
+
+  // StoryEndCarousel / SharedExperienceCarousel
+  endOfJourney: "Fin de tu viaje en el tiempo",
+  takeYourStory: "Llévate tu historia",
+  swipeToDiscover: "Desliza para descubrir todas las formas de revivir y compartir tu historia",
+  myLifeInMusic: "Mi vida en música",
+  allNumberOneHits: "Todos los números 1",
+  discoverIconicHits: "Descubre todos los números 1 icónicos de tu cronología, guarda tus favoritos y comparte tu lista.",
+  discoverHits: "Descubrir éxitos",
+  myLifeInTvFilm: "Mi vida en TV y cine",
+  seriesAndFilms: "Series y películas",
+  reliveIconicTv: "Revive las series icónicas y los taquillazos de tu vida con tráilers en YouTube.",
+  discoverTitles: "Descubrir títulos",
+  fullyPersonalized: "Totalmente personalizado",
+  fortyEvents: "40 acontecimientos • Tus datos",
+  makeStoryUnique: "Haz tu historia única con datos personales, 40 acontecimientos y un videoclip más largo.",
+  personalize: "Personalizar",
+  roastMyLife: "Critica mi vida",
+  aiHumorShareable: "Humor con IA • Para compartir",
+  letAiRoast: "Deja que la IA critique tu vida sin piedad (o con cariño) a partir de tu cronología. De tierno a brutal.",
+  roastMe: "¡Critícame!",
+  spokenStory: "Historia narrada",
+  spokenStoryReady: "Tu historia personal está lista",
+  spokenStoryGenerateAudioFor: "Generar audio para {count, plural, one {# acontecimiento} other {# acontecimientos}}{intro}",
+  spokenStoryWithIntro: " + introducción",
+  spokenStoryGenerating: "Generando audio... {pct}%",
+  spokenStoryGenerateButton: "Generar audio",
+  spokenStoryGeneratingShort: "Generando...",
+  spokenStoryError: "Error al generar el audio",
+  aiVoiceNarration: "Voz de IA • Narración",
+  listenToStory: "Escucha la historia de tu vida narrada, con imágenes y música ambiental.",
+  myLifeInPolaroids: "Mi vida en polaroids",
+  retroStyle: "Estilo retro",
+  relivePolaroids: "Revive tus mejores momentos como una colección de fotos polaroid nostálgicas.",
+  viewPolaroids: "Ver polaroids",
+  myLifeAsPresentation: "Mi vida como presentación",
+  pdfAlbum: "PDF • Álbum A4",
+  downloadAlbumDesc: "Descarga un bonito álbum A4 de la historia de tu vida en PDF, listo para imprimir o compartir.",
+  downloadPdf: "Descargar PDF",
+
+  // ShareDialog
+  shareTitle: "Mi TimeStory",
+  shareVideoText: "¡Mira mi vídeo personal en el tiempo!",
+  shareWhatsapp: "Mira mi TimeStory: {url}",
+  shareTelegram: "¡Mira mi TimeStory!",
+  shareTwitter: "¡Mira mi vídeo personal en el tiempo!",
+  shareEmailSubject: "Mira mi TimeStory",
+  shareEmailBody: "¡He hecho un vídeo personal de mi vida en el tiempo! Míralo aquí: {url}",
+  viewSharedVideo: "Ver tu vídeo compartido",
+
+  // RoastDialog
+  bornIn: "Nacido/a en",
+  discoverYourJourneyFree: "Descubre tu viaje en el tiempo • Gratis",
+  roastShareText: "🔥 Critica mi vida ({intensity}) - Descubre tu viaje en el tiempo en {url}",
+  savedToast: "¡Guardado!",
+  roastSavedDesc: "La crítica se ha guardado en tu cuenta.",
+  errorToast: "Error",
+  roastSaveError: "No se pudo guardar la crítica.",
+  creatingImage: "Creando imagen...",
+  share: "Compartir",
+  save: "Guardar",
+  roastEmailSubject: "🔥 Critica mi vida",
+  roastEmailBody: "Mira mi crítica:\n\n{text}\n\nCrea tu propio viaje en el tiempo en {url}",
+
+  // MusicOverviewPage
+  removeFromFavorites: "Quitar de favoritos",
+  addToFavorites: "Añadir a favoritos",
+  savedToAccount: "Guardado en tu cuenta",
+  saveToAccount: "Guardar en tu cuenta",
+  loadingLocalHits: "Cargando éxitos locales de {city}...",
+  tracksLoaded: "{loaded} / {total} canciones cargadas...",
+  loadingTvFilms: "Cargando series y películas{city}...",
+  trailersSearched: "{loaded} / {total} tráilers buscados...",
+  yourMusicOverviewTitle: "Tu repaso musical",
+  yourTvFilmOverviewTitle: "Tu repaso de TV y cine",
+  tracksFoundFavorites: "{count, plural, one {# canción encontrada} other {# canciones encontradas}} • {fav, plural, one {# favorita} other {# favoritas}}",
+  titlesFoundFavorites: "{count, plural, one {# título encontrado} other {# títulos encontrados}} • {fav, plural, one {# favorito} other {# favoritos}}",
+  inclLocalHitsSuffix: " • incl. éxitos de {country}",
+  playlistAllTracks: "Lista con las {count} canciones",
+  playlistFavoritesCount: "Lista con {count} favoritas",
+  spotifyOpenHint: "Crea una lista en tu propia cuenta de Spotify. Si falla, los enlaces se copian al portapapeles.",
+  spotifyPlaylistDescription: "Los números 1 de {start} a {end}.",
+  spotifyPlaylistTitle: "Lista de Spotify",
+  spotifyPlaylistCreating: "Creando la lista en tu cuenta de Spotify...",
+  spotifyPlaylistCreated: "Tu lista con {count, plural, one {# canción} other {# canciones}} está lista en Spotify.",
+  spotifyPlaylistOpen: "Abrir en Spotify",
+  spotifyPlaylistFailed: "No se pudo crear la lista. Inténtalo de nuevo.",
+  spotifyPlaylistBack: "Atrás",
+  playlistExportButton: "Exportar",
+  playlistExportAll: "Las {count} canciones",
+  playlistExportFavorites: "{count} favoritas",
+  playlistExportM3u8: "M3U8 (reproductores)",
+  playlistExportXspf: "XSPF (VLC)",
+  playlistExportCsv: "CSV (hoja de cálculo)",
+  playlistExportHtml: "Página web con enlaces de búsqueda",
+  birthdayNumberOneTitle: "Número 1 el día de tu cumpleaños",
+  birthdayNumberOneYearTitle: "Número 1 en tu año de nacimiento",
+  birthdayNumberOneIntl: "Internacional",
+  birthdayNumberOneListen: "Escuchar en Spotify",
+  birthdayNumberOneBirthdays: "El número 1 en tus cumpleaños",
+  birthdayNumberOneYears: "El número 1 de cada año desde entonces",
+  birthdayNumberOneAge: "{age} años",
+  trailersAllPlay: "{count, plural, one {Reproducir # tráiler} other {Reproducir los # tráilers}}",
+  trailersFavoritesPlay: "{count, plural, one {Reproducir # favorito} other {Reproducir # favoritos}}",
+  myFavoritesPlaylistLabel: "Mis favoritos",
+  localHitBadge: "Local",
+  noTracksAvailable: "No hay canciones disponibles.",
+  noTrailersAvailable: "No hay tráilers disponibles.",
+  linksCopiedTitle: "¡Enlaces copiados!",
+  spotifyLinksCopiedDesc: "{count, plural, one {# enlace de Spotify copiado al portapapeles. Pégalo en una lista de Spotify.} other {# enlaces de Spotify copiados al portapapeles. Pégalos en una lista de Spotify.}}",
+  youtubeLinksCopiedDesc: "{count, plural, one {# enlace de YouTube copiado al portapapeles.} other {# enlaces de YouTube copiados al portapapeles.}}",
+  myMusicVideo: "Mi videoclip",
+  justReady: "Recién terminado",
+  yourPersonalMusicVideo: "Tu videoclip personal",
+  alsoForYou: "También para ti",
+  unlock: "Desbloquear",
+  open: "Abrir",
+  myTimeline: "Mi cronología",
+  backToTimeline: "Volver a tu historia",
+  scrollDownHint: "desplázate hacia abajo",
+  savedDescriptionTrack: "{name} ya está en la página de tu cuenta.",
+  savedDescriptionItem: "{title} ya está en la página de tu cuenta.",
+  errorLabel: "Error",
+  spotifyFailedSummary: "No se pudieron cargar {count} de {total} canciones: puede que Spotify no esté disponible temporalmente.",
+  localHitsFetchError: "No se pudieron cargar los éxitos locales. Inténtalo más tarde.",
+  youtubeFailedSummary: "No se pudieron cargar {count} de {total} películas/series: puede que YouTube no esté disponible temporalmente.",
+  numberOneHitDesc: "Número 1 de {year}. Álbum: {album}",
+  myMusicVideoTitle: "Mi videoclip",
+  eventsAiMusic: "{count, plural, one {# acontecimiento} other {# acontecimientos}} • Música con IA",
+  preparingMusicVideo: "Se está preparando tu videoclip...",
+  errorBoundaryTitle: "Algo salió mal",
+  errorBoundaryBody: "No pudimos cargar esta parte de la aplicación.",
+  errorBoundaryRetry: "Intentar de nuevo",
+  errorBoundaryHome: "Ir al inicio",
+  notifTitlePulse: "🎵 Creándose...",
+  notifPersonalMusicVideo: "Videoclip personal",
+  notifProgressAria: "Creando videoclip personal: {pct}%",
+  notifProgressAriaCollapsed: "Creando videoclip personal: {pct}%, haz clic para mostrar",
+  notifTapToScroll: "Pulsa para ir a tu videoclip",
+  notifTapToGo: "Pulsa para ir a tu videoclip",
+  notifCollapse: "Contraer",
+  notifCollapseAria: "Contraer notificación",
+  notifProgressTitle: "Progreso del videoclip",
+  notifMusicVideoFailed: "Error en el videoclip",
+  notifMusicVideoFailedAria: "Error en el videoclip: pulsa para reintentar",
+  notifTapToRetry: "Pulsa para reintentar",
+  notifRetry: "Intentar de nuevo",
+  notifReadyToPlay: "Listo para reproducir",
+  notifYourMusicVideoFallback: "Tu videoclip",
+  notifYourPersonalVideoReady: "Tu videoclip personal está listo.",
+  notifWatchNow: "Ver ahora",
+  notifLater: "Más tarde",
+  notifClose: "Cerrar",
+  notifOpenMusicVideo: "Abrir notificación del videoclip",
+  shareYourVideoTitle: "Comparte tu vídeo",
+  shareGeneratingLink: "Un momento, estamos creando tu enlace para compartir...",
+  shareReadyDesc: "¡Tu vídeo está listo para compartir!",
+  shareSomethingWrong: "Algo salió mal",
+  shareUploadFailed: "Error al subir",
+  shareTryAgain: "Intentar de nuevo",
+  shareCopyLinkLabel: "Copiar enlace",
+  shareDeleteEllipsis: "Compartir...",
+  shareViaLabel: "Compartir por",
+  shareGenericError: "Algo salió mal",
+  tiktokIntroTitle: "Tu viaje en el tiempo",
+  tiktokOutroTitle: "¡Crea tu propio viaje en el tiempo!",
+  tiktokWatermark: "TimeStory",
+  tiktokUnknownError: "Error desconocido",
+  tiktokWebShareUnavailable: "Web Share API no disponible",
+  tiktokCannotShareFiles: "No se pueden compartir estos archivos",
+  introReadyTitle: "🎬 Tu videoclip personal está listo",
+  introReadyHint: "Pulsa ▶ para reproducir",
+  introReadyTitleNarrative: "📖 Tu libro narrado personal está listo",
+  introReadyHintNarrative: "Pulsa ▶ para reproducir",
+  pdfDefaultFirstName: "Tú",
+  pdfDefaultStoryName: "TimeStory",
+  pdfTitleFallback: "El año de {name}",
+  pdfAlbumFooter: "Álbum TimeStory",
+  pdfAlbumFileSuffix: "Album",
+  pdfCatPolitics: "Política",
+  pdfCatSports: "Deportes",
+  pdfCatEntertainment: "Entretenimiento",
+  pdfCatScience: "Ciencia",
+  pdfCatCulture: "Cultura",
+  pdfCatWorld: "Mundo",
+  pdfCatLocal: "Local",
+  pdfCatPersonal: "Personal",
+  pdfCatMusic: "Música",
+  pdfCatTechnology: "Tecnología",
+  pdfCatCelebrity: "Famosos",
+  pdfCatUnknown: "Desconocido",
+  pdfTypeBirthdate: "En este día",
+  pdfTypeBirthmonth: "Este mes",
+  pdfTypeBirthyear: "Este año",
+  pdfTypePeriod: "Periodo",
+  pdfPersonalJourneyFor: "El viaje personal en el tiempo de",
+  pdfYourStory: "Tu historia",
+  pdfInThisIssue: "En este número",
+  pdfAlsoBornToday: "También nacieron este día",
+  pdfThanksFor: "Gracias,",
+  pdfThanksShort: "¡Gracias!",
+  pdfUnknownName: "Desconocido",
+  pdfMagazineTitle: "REVISTA VIAJE EN EL TIEMPO",
+  pdfRunningHeader: "VIAJE EN EL TIEMPO • {name}",
+  pdfNumberOneBirthday: "N.º 1 el día que naciste",
+  pdfNumberOneBirthYear: "N.º 1 en tu año de nacimiento",
+  pdfEventCount: "{count, plural, one {# acontecimiento} other {# acontecimientos}}",
+  pdfSpecialEdition: "{count, plural, one {# acontecimiento} other {# acontecimientos}} • Edición especial",
+  pdfMoreYears: "{count, plural, one {+ # año más...} other {+ # años más...}}",
+  pdfAlsoBornBadge: "Nacidos el mismo día",
+  pdfForReading: "por tu lectura",
+  pdfJourneyMadeFor: "Un viaje en el tiempo especialmente para {name}",
+  pdfClosingStats: "{count, plural, one {# acontecimiento} other {# acontecimientos}} • {years, plural, one {# año} other {# años}} • {people, plural, one {# famoso} other {# famosos}}",
+  pdfPolaroidClosingStats: "{count, plural, one {# acontecimiento} other {# acontecimientos}} • {people, plural, one {# famoso} other {# famosos}}",
+  pdfGeneratedOn: "Generado el {date}",
+  pdfFileName: "viaje-en-el-tiempo",
+  pdfPolaroidEdition: "VIAJE EN EL TIEMPO EDICIÓN POLAROID",
+  pdfPolaroidHeader: "POLAROID VIAJE EN EL TIEMPO",
+  pdfPolaroidEditionShort: "EDICIÓN POLAROID",
+  pdfImageCredits: "CRÉDITOS DE IMAGEN",
+  imageCreationFailed: "Algo salió mal al crear la imagen",
+  copiedTitle: "¡Copiado!",
+  textCopiedDesc: "Texto copiado al portapapeles.",
+  oopsTitle: "Vaya",
+  roastGenerationFailed: "No se pudo generar la crítica",
+  roastImageFailed: "No se pudo generar la imagen.",
+  downloadedTitle: "¡Descargado!",
+  shareImageOnSocial: "¡Comparte la imagen en redes sociales!",
+  loginRequiredTitle: "Iniciar sesión",
+  loginRequiredRoastDesc: "Crea una cuenta para guardar tu crítica.",
+  savedTitle: "¡Guardado!",
+  errorShortLabel: "Error",
+  roastSaveFailed: "No se pudo guardar la crítica.",
+  trailerNotFoundTitle: "Tráiler no encontrado",
+  trailerNotFoundDesc: "No se encontró ningún tráiler de esta película.",
+  connectionErrorTitle: "Error de conexión",
+  connectionErrorDesc: "No se pudo conectar con el servidor. Inténtalo más tarde.",
+  pdfGenerationFailed: "Error al generar el PDF",
+  imageBlacklistedTitle: "Imagen bloqueada",
+  imageBlacklistedDesc: "Se ha iniciado una nueva búsqueda...",
+  eventsFoundDesc: "{count, plural, one {# acontecimiento encontrado} other {# acontecimientos encontrados}}",
+  ariaPrev: "Anterior",
+  ariaNext: "Siguiente",
+  ariaStopTrailer: "Detener tráiler",
+  ariaCloseTrailer: "Cerrar tráiler",
+  ariaPlayTrailer: "Reproducir tráiler",
+  ariaBlacklistImage: "Bloquear imagen",
+  blacklistImageTitle: "Bloquear foto (global) y buscar de nuevo",
+  playSongCompact: "Canción",
+  playSongLabel: "Reproducir canción",
+  searchingPhotoLabel: "Buscando foto...",
+  scrollToLoadPhoto: "Desplázate para cargar la foto",
+  debugInfoTitle: "Información de depuración",
+  debugInfoFilterPlaceholder: "Filtrar por título, categoría, tipo...",
+  debugInfoBlacklistThumb: "Bloquear esta imagen",
+  debugInfoReloadAll: "Recargar todas las imágenes",
+  debugInfoSearchingShort: "Buscando...",
+  debugInfoLabelImages: "imagen",
+  debugInfoLabelSounds: "sonido",
+  debugInfoNone: "Ninguno",
+  promptCopyToClipboard: "Copiar al portapapeles",
+  promptCopiedShort: "Copiado",
+  quickRefreshTitle: "Actualización rápida (20 acontecimientos)",
+  fullRefreshTitle: "Actualización completa (50 acontecimientos)",
+  roastTitle: "Critica mi vida",
+  roastIntensityLabel: "Intensidad",
+  roastIntensityMild: "Suave",
+  roastIntensitySpicy: "Picante",
+  roastIntensityMedium: "Media",
+  roastIntensitySharp: "Mordaz",
+  roastIntensityExtreme: "Extrema",
+  roastWriting: "Escribiendo una crítica {level}...",
+  roastShareLabel: "Compartir",
+  roastImageMaking: "Creando imagen...",
+  roastSaveLabel: "Guardar",
+  roastImageAlt: "Imagen de la crítica",
+  roastShareViaLabel: "Compartir por",
+  roastNativeShareLabel: "Compartir...",
+  roastCopyText: "Copiar texto",
+  roastCopiedShort: "¡Copiado!",
+  roastDownloadImage: "Descargar imagen",
+  roastShareTextTpl: "🔥 Critica mi vida ({level}) - Descubre tu viaje en el tiempo en {url}",
+  roastImageHeading: "CRITICA MI VIDA",
+  roastBornInLabel: "{gender, select, female {Nacida en {year}} male {Nacido en {year}} other {Nacido/a en {year}}}",
+  roastFooterTagline: "Descubre tu viaje en el tiempo • Gratis",
+  roastNoneReceived: "No se recibió ninguna crítica",
+
+  // Subculture editor (admin)
+  subcultureEditorTitle: "Conjunto de datos de subculturas",
+  subcultureEditorSummary: "Versión {version} · {eras, plural, one {# época} other {# épocas}} · {countries, plural, one {# país} other {# países}}",
+  subcultureEditorImport: "Importar",
+  subcultureEditorReset: "Restablecer",
+  subcultureEditorResetConfirm: "¿Descartar el borrador y volver al conjunto de datos actual?",
+  subcultureEditorImportFailed: "Error al importar: {error}",
+  subcultureEditorImportIssues: "{count, plural, one {# error} other {# errores}}, p. ej. {path}: {message}",
+  subcultureEditorChecks: "Comprobación",
+  subcultureEditorErrors: "{count, plural, one {# error} other {# errores}}",
+  subcultureEditorWarnings: "{count, plural, one {# aviso} other {# avisos}}",
+  subcultureEditorEras: "Épocas",
+  subcultureAgeGroupTeen: "Adolescentes",
+  subcultureAgeGroupYoungAdult: "Jóvenes adultos",
+  subcultureEditorNoEra: "No hay subculturas para {period}, {ageGroup}, {country}.",
+  subcultureEditorAddEra: "Añadir época",
+  subcultureEditorName: "Nombre",
+  subcultureEditorDescription: "Descripción",
+  subcultureEditorOnePerLine: "{label} (uno por línea)",
+  subcultureEditorAddSubculture: "Añadir subcultura",
+  subcultureEditorRemoveEra: "Eliminar época",
+  subcultureEditorCountries: "Países y ciudades",
+  subcultureEditorCode: "Código",
+  subcultureEditorCities: "Ciudades, una por línea (minúsculas)",
+  subcultureEditorAddCountry: "Añadir país",
+
+  // Image search dashboard (admin)
+  imageQualityTitle: "Calidad de la búsqueda de imágenes",
+  imageQualitySubtitle: "Rastros de búsqueda anonimizados de {days, plural, one {el último día} other {los últimos # días}}",
+  imageQualityPeriod: "{days, plural, one {# día} other {# días}}",
+  imageQualityRefresh: "Actualizar",
+  imageQualityLoadFailed: "Error al cargar: {error}",
+  imageQualitySearches: "Búsquedas",
+  imageQualityWithImage: "Con imagen",
+  imageQualityAvgTimeToImage: "Tiempo medio hasta la imagen",
+  imageQualityFound: "Encontrado",
+  imageQualityTimeToImage: "Tiempo hasta la imagen",
+  imageQualityBySource: "Por fuente",
+  imageQualitySource: "Fuente",
+  imageQualityAsked: "Consultado",
+  imageQualityErrors: "Errores",
+  imageQualityWon: "Elegido",
+  imageQualityBySubject: "Por tipo de tema",
+  imageQualityType: "Tipo",
+  imageQualityByLanguage: "Por idioma",
+  imageQualityLanguage: "Idioma",
+  imageQualityMostBlacklisted: "Fuentes más bloqueadas",
+  imageQualityNoneBlacklisted: "No se bloqueó ninguna imagen en este periodo.",
+  imageQualityNeverFound: "Búsquedas sin imagen",
+  imageQualityAllFound: "Cada búsqueda encontró una imagen al menos una vez.",
+  imageQualityQuery: "Búsqueda",
+  imageQualityTimesSearched: "Veces buscado",
+  imageQualityLastSearched: "Última",
+};
+
+export default es;
@@ -0,0 +1,784 @@
+import type { Messages } from "../types";
+
+const fr: Messages = {
+  siteTitle: "L'année de",
+  heroTitle: "Votre Histoire dans le Temps",
+  heroSubtitle: "Découvrez ce qui s'est passé le jour de votre naissance, ou voyagez à travers les années avec un aperçu historique personnel.",
+  startButton: "Commencez Votre Voyage",
+  choiceTitle: "Que voulez-vous découvrir?",
+  choiceSubtitle: "Choisissez comment vous voulez voyager dans le temps",
+  option1Title: "L'Année, le Mois et le Jour De...",
+  option1Description: "Découvrez tout sur une date de naissance spécifique: que s'est-il passé cette année-là, ce mois-là et ce jour précis?",
+  option2Title: "Un Voyage dans le Temps d'Année en Année",
+  option2Description: "Créez un aperçu historique d'une période entière, parfait pour les anniversaires ou pour revivre une époque.",
+  birthDateLabel: "Date de naissance",
+  birthDateQuestion: "Quelle est votre date de naissance?",
+  dayLabel: "Jour",
+  monthLabel: "Mois",
+  yearLabel: "Année",
+  startYearLabel: "Année de début",
+  endYearLabel: "Année de fin",
+  periodQuestion: "Quelle période voulez-vous revivre?",
+  periodBirthyear: "Année de naissance",
+  periodBirthyearDesc: "L'année de votre naissance",
+  periodChildhood: "Enfance",
+  periodChildhoodDesc: "6-12 ans",
+  periodPuberty: "Puberté",
+  periodPubertyDesc: "12-17 ans",
+  periodYoungAdult: "Jeune adulte",
+  periodYoungAdultDesc: "18-25 ans",
+  periodCustom: "Autre",
+  periodCustomDesc: "Choisissez votre propre période",
+  timelineLengthQuestion: "Combien de moments voulez-vous voir?",
+  timelineShort: "Court",
+  timelineShortDesc: "20 moments",
+  timelineLong: "Étendu",
+  timelineLongDesc: "50 moments",
+  createTimelineButton: "Créer un aperçu chronologique",
+  createPolaroidButton: "Créer un polaroid chronologique",
+  optionalInfoTitle: "Rendez-le plus personnel",
+  optionalInfoSubtitle: "Ces informations sont optionnelles, mais nous aident à créer une histoire plus riche",
+  nameLabel: "Nom",
+  firstNameLabel: "Prénom",
+  firstNamePlaceholder: "Ex. Jean",
+  lastNameLabel: "Nom de famille",
+  lastNamePlaceholder: "Ex. Dupont",
+  cityLabel: "Ville",
+  cityPlaceholder: "Ex. Amsterdam",
+  partnerLabel: "Partenaire",
+  childrenLabel: "Enfants",
+  child1NameLabel: "Nom enfant 1",
+  child1BirthLabel: "Date de naissance enfant 1",
+  child2NameLabel: "Nom enfant 2",
+  child2BirthLabel: "Date de naissance enfant 2",
+  child3NameLabel: "Nom enfant 3",
+  child3BirthLabel: "Date de naissance enfant 3",
+  partnerNameLabel: "Nom du partenaire",
+  partnerBirthLabel: "Date de naissance du partenaire",
+  siblingsLabel: "Frères et sœurs",
+  siblingNamePlaceholder: "Nom",
+  siblingBirthLabel: "Date de naissance",
+  addSibling: "Ajouter un frère ou une sœur",
+  removeSibling: "Supprimer",
+  sharedTimelineLabel: "Années partagées",
+  sharedTimelineHint: "Une seule chronologie pour vous et votre partenaire ou vos frères et sœurs, avec l'âge de chacun à chaque moment.",
+  metYearLabel: "Année de votre rencontre (facultatif)",
+  sharedYou: "Vous",
+  sharedPersonAge: "{name} · {age} ans",
+  sharedPersonNotBorn: "{name} · pas encore né(e)",
+  sharedYearWeMet: "L'année de notre rencontre",
+  compareTitle: "Ton année vs. mon année",
+  compareDescription: "Comparez deux années côte à côte : musique, télé, technologie et politique, et ce qui a changé entre les deux.",
+  compareNameLabel: "Nom",
+  compareYearLabel: "Année",
+  compareSideYou: "Vous",
+  compareSideFriend: "Ami(e)",
+  compareStart: "Comparer",
+  compareLoading: "Création des deux années...",
+  compareWhatChanged: "Ce qui a changé entre les deux",
+  compareNothingInCategory: "Rien dans cette catégorie",
+  compareFailed: "Impossible de créer la comparaison",
+  compareCatMusic: "Musique",
+  compareCatTv: "Télé & cinéma",
+  compareCatTechnology: "Technologie",
+  compareCatPolitics: "Politique & monde",
+  compareYearsTile: "Ton année vs. celle d'un ami",
+  compareYearsTileSubtitle: "Deux années côte à côte",
+  renderDownloadButton: "Télécharger",
+  renderDownloadTitle: "Télécharger en fichier vidéo",
+  renderFormatLabel: "Format",
+  renderResolutionLabel: "Résolution",
+  renderStart: "Créer la vidéo",
+  renderSavingStory: "Enregistrement de l'histoire...",
+  renderQueued: "En file d'attente...",
+  renderProgress: "Création de la vidéo... {pct}%",
+  renderDownload: "Télécharger en {format}",
+  renderFailed: "La création de la vidéo a échoué",
+  captionsToggle: "Sous-titres",
+  captionsDownload: "Sous-titres :",
+  interestsLabel: "Intérêts",
+  interestsPlaceholder: "Ex. sport, musique, informatique, politique",
+  focusLabel: "Focus géographique",
+  focusNetherlands: "Pays-Bas",
+  focusEurope: "Europe",
+  focusWorld: "Monde",
+  nextButton: "Suivant",
+  backButton: "Retour",
+  skipButton: "Passer",
+  generateButton: "Créer Mon Voyage dans le Temps",
+  confirmButton: "Confirmer",
+  cancelButton: "Annuler",
+  refreshButton: "Actualiser",
+  customDialogTitle: "Personnalisez votre voyage dans le temps",
+  customDialogDescription: "Ajustez les années ou ajoutez des informations supplémentaires",
+  adjustButton: "Ajuster",
+  subcultureLabel: "Sous-culture",
+  subcultureNoPreference: "Pas de préférence",
+  subcultureBrands: "Marques",
+  subcultureMusic: "Musique",
+  subcultureClothing: "Vêtements",
+  discoverMore: "Découvrir plus",
+  discoverMusicTitle: "Ma Vie en Musique",
+  discoverMusicDesc: "Découvrez les #1 hits de vos années",
+  discoverTvFilmTitle: "Ma Vie en TV & Cinéma",
+  discoverTvFilmDesc: "Films et séries iconiques de votre époque",
+  discoverPolaroidTitle: "Ma Vie en Polaroids",
+  discoverPolaroidDesc: "Votre histoire en collage polaroid",
+  discoverStoryTitle: "Ma Chronologie",
+  discoverStoryDesc: "L'histoire complète de votre vie",
+  badgeFree: "Gratuit",
+  badgePremium: "Premium",
+  customFromYear: "De l'année",
+  customToYear: "À l'année",
+  customFromPlaceholder: "ex. 1985",
+  customToPlaceholder: "ex. 1995",
+  backToInput: "Retour à la saisie",
+  yourTimeJourney: "Votre Voyage dans le Temps",
+  magazinePdf: "Magazine PDF",
+  polaroidPdf: "Polaroid PDF",
+  alsoborn: "Aussi né:",
+  moreCount: "de plus",
+  loadingImages: "Chargement des images...",
+  photosCount: "photos",
+  loadingTitle: "Nous voyageons dans le temps...",
+  loadingSubtitle: "Cela peut prendre un moment",
+  eventsLoaded: "événements chargés...",
+  timelineLoaded: "Chronologie chargée!",
+  eventsFound: "événements trouvés",
+  errorTitle: "Quelque chose s'est mal passé",
+  tryAgain: "Réessayer",
+  noDataFound: "Aucune donnée trouvée",
+  backToStart: "Retour au début",
+  pdfDownloaded: "PDF téléchargé!",
+  pdfMagazineReady: "Votre magazine de voyage dans le temps est prêt",
+  polaroidPdfDownloaded: "Polaroid PDF téléchargé!",
+  polaroidReady: "Votre édition polaroid des années 80 est prête",
+  albumDownloaded: "Album téléchargé!",
+  albumReady: "Votre Album TimeStory est prêt",
+  downloadAlbum: "Télécharger l'album (PDF)",
+  pdfError: "Erreur lors de la génération du PDF",
+  pdfTryAgain: "Veuillez réessayer",
+  shareToTikTok: "Partager sur TikTok",
+  generatingSlides: "Génération des images...",
+  shareSuccess: "Partagé!",
+  tikTokReady: "Vos slides TikTok sont prêts",
+  shareError: "Échec du partage",
+  slidesReady: "Slides prêts!",
+  tapToShare: "Appuyez sur le bouton vert pour partager",
+  prepareSlides: "Préparer les slides",
+  shareNow: "Partager maintenant",
+  createCollage: "Créer Collage (6 photos)",
+  selectPhotos: "Sélectionnez 6 photos",
+  selectedCount: "Sélectionné",
+  maxPhotosReached: "Maximum 6 photos",
+  generateCollage: "Télécharger Collage",
+  collageDownloaded: "Collage téléchargé!",
+  collageReady: "Votre collage polaroid est prêt",
+  collageError: "Erreur lors de la création du collage",
+  cancelSelection: "Annuler",
+  loadError: "Erreur de chargement",
+  required: "Ce champ est obligatoire",
+  invalidDate: "Cette date n'existe pas — vérifiez le jour et le mois.",
+  yearRange: "L'année doit être entre 1900 et l'année actuelle",
+  endYearAfterStart: "L'année de fin doit être après l'année de début",
+  fillBirthDate: "Veuillez remplir votre date de naissance",
+  validYearRange: "Veuillez entrer une année de naissance valide",
+  choosePeriod: "Veuillez choisir une période",
+  fillBothYears: "Veuillez remplir les deux années",
+  validYears: "Veuillez entrer des années valides",
+  months: [
+    "Janvier", "Février", "Mars", "Avril", "Mai", "Juin",
+    "Juillet", "Août", "Septembre", "Octobre", "Novembre", "Décembre",
+  ] as readonly string[],
+  birthDateStepLabel: "Date de naissance",
+  periodStepLabel: "Quelle période?",
+  styleStepLabel: "Style & Sous-culture",
+  cityQuestion: "Quel lieu était le plus important à cette époque?",
+  pressEnterToContinue: "Appuyez sur Entrée pour continuer",
+  startTimeJourney: "Commencer mon Voyage dans le Temps",
+  recentStoriesTitle: "Histoires précédentes",
+  recentStoriesSearchPlaceholder: "Rechercher par nom, lieu, année ou événement…",
+  recentStoriesNoResults: "Aucune histoire trouvée",
+  recentStoriesDelete: "Supprimer l'histoire",
+  recentStoriesEventCount: "{count, plural, one {# événement} other {# événements}}",
+  genderLabel: "Genre",
+  genderMale: "Homme",
+  genderFemale: "Femme",
+  genderNone: "Pas de préférence",
+  genderNeutral: "Neutre",
+  periodBirthyearLong: "L'année où vous êtes venu au monde",
+  periodChildhoodLong: "Jouer dehors, premiers amis, école primaire",
+  periodPubertyLong: "Premier amour, découverte de la musique",
+  periodYoungAdultLong: "Sorties, études, découverte du monde",
+  yourMusicVideo: "Votre Clip Musical",
+  previewVersion: "Version aperçu",
+  personalizedVersion: "Version personnalisée",
+  shareButton: "Partager",
+  writingLyrics: "Écriture des paroles...",
+  startingMusic: "Démarrage de la musique...",
+  composingSoundtrack: "Votre bande-son personnelle est en cours de composition...",
+  soundtrackStreaming: "Votre bande-son personnelle est en lecture (encore en cours)...",
+  musicVideoReady: "Votre clip musical est prêt!",
+  somethingWentWrong: "Quelque chose s'est mal passé",
+  loading: "Chargement...",
+  generationTime: "Cela peut prendre 2 à 4 minutes. Vous pouvez continuer à défiler en attendant.",
+  retryButton: "Réessayer",
+  previewPlaying: "Aperçu: Votre piste joue pendant que nous terminons la version complète",
+  aiMusicVideo: "Clip Musical AI",
+  makeMorePersonal: "Rendez-le encore plus personnel",
+  upgradeDescription: "Ajoutez amis, école et lieux de sortie pour des paroles uniques avec vos souvenirs et les nouvelles de votre chronologie.",
+  upgradeToV2: "Passer à V2",
+  viewLyrics: "Voir les paroles",
+  hideLyrics: "Masquer les paroles",
+  yourYears: "Vos années",
+  yourStory: "Votre Histoire",
+  customizeTitle: "Personnaliser",
+  customizeDescription: "Ajustez vos données pour un résultat plus personnalisé avec vos souvenirs et les faits d'actualité.",
+  currentVersionV1: "Version actuelle (V1):",
+  cityLabelShort: "Ville",
+  genderForVoice: "Genre (pour la voix)",
+  personalMemories: "✨ Souvenirs personnels pour une chanson plus unique:",
+  top3Friends: "Top 3 amis de l'époque",
+  friendsPlaceholder: "Noms séparés par des virgules",
+  highSchool: "Lycée",
+  schoolPlaceholder: "Ex. Lycée Victor Hugo",
+  favoriteVenues: "Lieux de sortie favoris",
+  venuesPlaceholder: "Ex. Le Bataclan, Rex Club",
+  musicEngine: "Moteur Musical",
+  sunoDescription: "Suno (V4.5) — Qualité maximale",
+  acestepDescription: "Ace-Step — Plus rapide, self-hosted",
+  diffrhythmDescription: "DiffRhythm — Timestamps LRC, ultra rapide",
+  diffrhythmNote: "⏱️ DiffRhythm génère des timestamps LRC pour que la musique soit synchronisée avec vos événements.",
+  upgradeInfo: "Votre nouvelle bande-son capturera non seulement l'ambiance de votre époque, mais tissera aussi des faits d'actualité spécifiques de votre chronologie et vos souvenirs personnels dans une chanson vraiment unique.",
+  upgradeInfoTitle: "Passer à V2:",
+  generating: "En cours...",
+  generateV2: "Générer V2",
+  personalVideoClip: "Clip Vidéo Personnel",
+  adjustForPersonal: "Ajustez vos données pour un résultat plus personnel.",
+  generateVideoClip: "Générez un clip vidéo unique avec de la musique.",
+  geographicFocusLabel: "Focus géographique",
+  netherlandsLabel: "Pays-Bas",
+  europeLabel: "Europe",
+  worldLabel: "Monde",
+  musicStyleInfo: "La sous-culture détermine le style.",
+  musicStyleLabel: "Style musical:",
+  continueButton: "Continuer",
+  tipPersonalDetails: "Remplissez vos détails pour une chanson plus personnelle!",
+  tipLabel: "Conseil:",
+  writingLyricsStep: "Écriture des paroles",
+  aiWritingLyrics: "L'AI écrit une chanson nostalgique",
+  composingMusic: "Composition musicale",
+  aiComposingTrack: "Suno AI crée une piste unique",
+  readyLabel: "Prêt!",
+  listenToHit: "Écoutez votre hit personnel",
+  browserNoAudio: "Votre navigateur ne supporte pas l'audio.",
+  durationLabel: "Durée:",
+  minutesLabel: "minutes",
+  showSunoUrl: "Afficher l'URL Suno",
+  watchVideo: "Regarder la Vidéo",
+  startGeneration: "Lancer la Génération",
+  personalMemoriesForSong: "Souvenirs personnels pour une chanson plus unique:",
+  personalVideoClipButton: "🎬 Clip vidéo personnel",
+  occasionBirthday: "Anniversaire",
+  occasionAnniversary: "Jubilé",
+  occasionFun: "Juste pour le plaisir",
+  tooManyRequests: "Trop de requêtes. Veuillez réessayer plus tard.",
+  creditsExhausted: "Crédits épuisés. Veuillez ajouter des crédits.",
+  generationInterrupted: "Génération interrompue",
+  musicGenerationTimeout: "La génération de musique a pris trop de temps",
+  connectionLost: "Connexion perdue avant l'arrivée des résultats. Veuillez réessayer.",
+  defaultSummary: "Un aperçu des événements importants.",
+  loadingTooLong: "Le chargement a pris trop de temps et a été arrêté. Veuillez réessayer.",
+  unknownError: "Erreur inconnue",
+  fetchingEvents: "Chargement des événements...",
+  scrollToBegin: "Faites défiler pour commencer",
+  blacklistTooltip: "Blacklister la photo (global) et chercher une nouvelle",
+  blacklistAriaLabel: "Blacklister l'image",
+  regenerateEventTooltip: "Donne-moi autre chose",
+  regenerateEventAriaLabel: "Remplacer cet événement par un autre",
+  regenerateEventNoResult: "Aucun événement de remplacement trouvé. Veuillez réessayer.",
+  regenerateEventFailed: "Remplacement échoué",
+  chooseImageTooltip: "Choisir une autre photo",
+  chooseImageTitle: "Choisir une photo",
+  useThisImage: "Utiliser cette photo",
+  currentImage: "Photo actuelle",
+  imageLicenseUnknown: "Licence inconnue",
+  imageCredits: "Crédits photo",
+  editTimeline: "Modifier la chronologie",
+  doneEditing: "Terminer la modification",
+  editorTitleLabel: "Titre",
+  editorDescriptionLabel: "Description",
+  editorDateLabel: "Date",
+  editorDateHint: "AAAA, AAAA-MM ou AAAA-MM-JJ",
+  editorCategoryLabel: "Catégorie",
+  editorImportanceLabel: "Importance",
+  importanceHigh: "Haute",
+  importanceMedium: "Moyenne",
+  importanceLow: "Basse",
+  editorUploadPhoto: "Téléverser votre propre photo",
+  editorMoveUp: "Monter",
+  editorMoveDown: "Descendre",
+  editorDeleteEvent: "Supprimer l'événement",
+  editorAddPersonalEvent: "Ajouter un moment personnel",
+  editorPhotoFailed: "La photo n'a pas pu être chargée",
+  uploadPhotos: "Ajouter vos propres photos",
+  uploadPhotosTitle: "Ajouter vos propres photos",
+  uploadPhotosDescription: "Nous lisons la date de prise de vue de vos photos et proposons une année. Ajoutez une photo comme carte à part entière ou remplacez l'image d'un événement.",
+  uploadPhotosChoose: "Choisir des photos",
+  photoTakenOn: "Prise le {date}",
+  photoNoCaptureDate: "Aucune date de prise de vue trouvée",
+  photoYearLabel: "Année",
+  photoPlacementLabel: "Placement",
+  photoPlacementNewCard: "Comme carte à part",
+  photoPlacementReplace: "Remplacer l'image de : {title}",
+  photoCaptionLabel: "Légende",
+  photoRemove: "Retirer la photo",
+  uploadPhotosConfirm: "Ajouter à l'histoire",
+  uploadPhotosUploading: "Téléversement...",
+  uploadPhotosFailed: "Échec du téléversement",
+  uploadPhotosFailedCount: "{count, plural, one {# photo n'a pas pu être téléversée} other {# photos n'ont pas pu être téléversées}}",
+  ownPhotoBadge: "Votre propre photo",
+  timelineOf: "Chronologie de",
+  to: "à",
+  serverError: "Erreur serveur",
+  pollingFailed: "Vérification du statut échouée",
+  authWelcome: "Bienvenue chez Ton Année",
+  authSubtitle: "Créez un compte pour sauvegarder votre contenu",
+  authLogin: "Se connecter",
+  voiceElevenLabsLoginRequired: "Connectez-vous pour utiliser ElevenLabs",
+  voiceElevenLabsLoginRequiredDesc: "Les voix ElevenLabs sont réservées aux utilisateurs connectés.",
+  authSignUp: "S'inscrire",
+  authLogout: "Se déconnecter",
+  authEmail: "Adresse e-mail",
+  authPassword: "Mot de passe",
+  authDisplayName: "Nom",
+  authGoogleSignIn: "Continuer avec Google",
+  authOrEmail: "ou par e-mail",
+  authForgotPassword: "Mot de passe oublié ?",
+  authCheckEmail: "Vérifiez votre e-mail",
+  authVerifyEmailSent: "Nous vous avons envoyé un lien de vérification.",
+  authResetEmailSent: "Nous vous avons envoyé un lien de réinitialisation.",
+  authEnterEmail: "Veuillez d'abord entrer votre adresse e-mail",
+  authError: "Quelque chose s'est mal passé",
+  authNewPassword: "Définir un nouveau mot de passe",
+  authUpdatePassword: "Mettre à jour le mot de passe",
+  authPasswordUpdated: "Mot de passe mis à jour avec succès",
+  authInvalidResetLink: "Lien de réinitialisation invalide ou expiré",
+  authMyAccount: "Mon compte",
+  accountNoContent: "Pas encore de contenu sauvegardé",
+  accountNoContentDesc: "Vos chronologies générées apparaîtront ici",
+  accountSavedStories: "Chronologies sauvegardées",
+  accountViewStory: "Voir",
+  accountShareStory: "Partager",
+  accountDeleteStory: "Supprimer",
+  accountDeleteConfirm: "Êtes-vous sûr de vouloir supprimer cette chronologie ?",
+  accountStoryDeleted: "Chronologie supprimée",
+  accountCreatedAt: "Créée le",
+  accountBilling: "Paiements",
+  accountBillingDesc: "Gérez votre abonnement et vos coordonnées de paiement",
+  accountManageSubscription: "Gérer l'abonnement",
+  accountPerMonth: "mois",
+  accountEvents: "événements",
+  saveEvent: "Sauvegarder l'événement",
+  eventSaved: "Événement sauvegardé",
+  eventAlreadySaved: "Déjà sauvegardé",
+  accountSavedEvents: "Événements sauvegardés",
+  accountNoSavedEvents: "Pas encore d'événements sauvegardés",
+  accountNoSavedEventsDesc: "Sauvegardez des événements individuels depuis votre chronologie",
+  eventDeleted: "Événement supprimé",
+  eventShared: "Événement copié dans le presse-papiers",
+
+  // OptionalInfoForm labels
+  friendsLabel: "Top 3 amis de l'époque",
+  friendsInputPlaceholder: "Noms séparés par des virgules (ex. Jean, Pierre, Paul)",
+  schoolLabel: "Lycée",
+  schoolInputPlaceholder: "Ex. Lycée Victor Hugo Paris",
+  nightlifeLabel: "Lieux de sortie favoris",
+  nightlifeInputPlaceholder: "Clubs/bars séparés par des virgules",
+
+  // PhaseSelector (HomeV2)
+  chooseDestination: "Choisissez votre destination",
+  whichVersionToVisit: "Quelle version de vous-même voulez-vous visiter?",
+  phaseBirthyearDesc: "Découvrez le monde dans lequel vous êtes né",
+  phaseChildhoodTitle: "Enfance",
+  phaseChildhoodDesc: "Revivez vos jours insouciants",
+  phasePubertyDesc: "Retour à votre premier amour",
+  phaseYoungAdultTitle: "Jeune Adulte",
+  phaseYoungAdultDesc: "Le temps de la liberté et de l'aventure",
+
+  // HomeV2 specific
+  backToBirthDate: "Retour à la date de naissance",
+  chooseOtherDestination: "Choisir une autre destination",
+  startMyTimeJourney: "Commencer mon Voyage dans le Temps",
+  goingBackTo: "Vous retournez en",
+
+  // Timeline Story button
+  timelineStoryButton: "Timeline Story",
+
+  chapterBirthDate: "Date de naissance",
+  chapterDestination: "Destination",
+  chapterIdentity: "Identité",
+  whoIsMainCharacter: "Qui est le personnage principal ?",
+  lastDetailsForJourney: "Les derniers détails pour votre voyage dans le temps personnel",
+  friendsCalledYou: "Comment vos amis vous appelaient-ils à l'époque ?",
+  namePlaceholder: "Ex. Johnny, Marie, DJ Pierre...",
+  forStoryStyle: "Pour le bon style de narration :",
+  genderHe: "Il",
+  genderShe: "Elle",
+  whenDidYourStoryBegin: "Quand votre histoire a-t-elle commencé ?",
+  fillBirthDateToStart: "Entrez votre date de naissance pour démarrer la machine à remonter le temps",
+  legendaryDayToStart: "Un jour légendaire pour commencer.",
+  daysOfWeek: ["Dimanche", "Lundi", "Mardi", "Mercredi", "Jeudi", "Vendredi", "Samedi"],
+  loadingArchives: "Parcourir les archives...",
+  loadingDustNewspapers: "Dépoussiérer les vieux journaux...",
+  loadingMemories: "Récupérer les souvenirs...",
+  loadingCassette: "Rembobiner la cassette...",
+  loadingVHS: "Rechercher dans les cassettes VHS...",
+  loadingHitsOf: "Rechercher les tubes de {year}...",
+  loadingDialUp: "Connexion par modem... bip boup...",
+  loadingWindows: "Démarrage de Windows 95...",
+  loadingBackTo: "Retour en {year}...",
+  loadingSearchArchives: "Rechercher dans les archives de {year}...",
+  loadingCollectMemories: "Rassembler les souvenirs...",
+  loadingPrepareJourney: "Préparer votre voyage dans le temps...",
+  timeTravelComplete: "Voyage dans le temps terminé",
+  timeTravelInProgress: "Voyage dans le temps en cours...",
+  scopeBirthday: "Anniversaire",
+  scopeOnBirthday: "Le jour de votre naissance",
+  scopeInBirthMonth: "Dans votre mois de naissance",
+  scopeInBirthYear: "Dans votre année de naissance",
+  endOfJourney: "Fin de votre voyage dans le temps",
+  takeYourStory: "Emportez votre histoire",
+  swipeToDiscover: "Glissez pour découvrir toutes les façons de revivre et partager votre histoire",
+  myLifeInMusic: "Ma Vie en Musique",
+  allNumberOneHits: "Tous les #1 hits",
+  discoverIconicHits: "Découvrez tous les hits #1 iconiques de votre timeline, sauvegardez vos favoris et partagez votre playlist.",
+  discoverHits: "Découvrir les hits",
+  myLifeInTvFilm: "Ma Vie en TV & Film",
+  seriesAndFilms: "Séries & films",
+  reliveIconicTv: "Revivez les séries TV iconiques et les blockbusters de votre vie avec des bandes-annonces sur YouTube.",
+  discoverTitles: "Découvrir les titres",
+  fullyPersonalized: "Entièrement Personnalisé",
+  fortyEvents: "40 événements • Vos détails",
+  makeStoryUnique: "Rendez votre histoire unique avec des détails personnels, 40 événements et une vidéo musicale plus longue.",
+  personalize: "Personnaliser",
+  roastMyLife: "Roast Ma Vie",
+  aiHumorShareable: "Humour IA • Partageable",
+  letAiRoast: "Laissez l'IA se moquer de votre vie (gentiment ou brutalement) basé sur votre timeline.",
+  roastMe: "Roast moi !",
+  spokenStory: "Histoire Parlée",
+  spokenStoryReady: "Votre histoire personnelle est prête",
+  spokenStoryGenerateAudioFor: "Générer l'audio pour {count, plural, one {# événement} other {# événements}}{intro}",
+  spokenStoryWithIntro: " + intro",
+  spokenStoryGenerating: "Génération audio... {pct}%",
+  spokenStoryGenerateButton: "Générer l'audio",
+  spokenStoryGeneratingShort: "Génération...",
+  spokenStoryError: "Échec de la génération audio",
+  aiVoiceNarration: "Voix IA • Narration",
+  listenToStory: "Écoutez votre histoire de vie en narration parlée avec des visuels et de la musique atmosphérique.",
+  myLifeInPolaroids: "Ma Vie en Polaroids",
+  retroStyle: "Style rétro",
+  relivePolaroids: "Revivez vos plus beaux moments en collection de photos polaroid nostalgiques.",
+  viewPolaroids: "Voir les polaroids",
+  myLifeAsPresentation: "Ma Vie en Présentation",
+  pdfAlbum: "PDF • Album A4",
+  downloadAlbumDesc: "Téléchargez un magnifique album A4 de votre histoire de vie en PDF.",
+  downloadPdf: "Télécharger PDF",
+  shareTitle: "Mon TimeStory",
+  shareVideoText: "Regardez ma vidéo timeline personnelle !",
+  shareWhatsapp: "Regardez mon TimeStory : {url}",
+  shareTelegram: "Regardez mon TimeStory !",
+  shareTwitter: "Regardez ma vidéo timeline personnelle !",
+  shareEmailSubject: "Regardez mon TimeStory",
+  shareEmailBody: "J'ai créé une vidéo timeline personnelle ! Regardez-la ici : {url}",
+  viewSharedVideo: "Voir votre vidéo partagée",
+  bornIn: "Né(e) en",
+  discoverYourJourneyFree: "Découvrez votre voyage dans le temps • Gratuit",
+  roastShareText: "🔥 Roast ma vie ({intensity}) - Découvrez votre voyage dans le temps sur {url}",
+  savedToast: "Sauvegardé !",
+  roastSavedDesc: "Le roast a été sauvegardé dans votre compte.",
+  errorToast: "Erreur",
+  roastSaveError: "Impossible de sauvegarder le roast.",
+  creatingImage: "Création de l'image...",
+  share: "Partager",
+  save: "Sauvegarder",
+  roastEmailSubject: "🔥 Roast ma vie",
+  roastEmailBody: "Regardez mon roast :\n\n{text}\n\nCréez votre propre voyage dans le temps sur {url}",
+  removeFromFavorites: "Retirer des favoris",
+  addToFavorites: "Ajouter aux favoris",
+  savedToAccount: "Sauvegardé dans votre compte",
+  saveToAccount: "Sauvegarder dans le compte",
+  loadingLocalHits: "Chargement des hits locaux pour {city}...",
+  tracksLoaded: "{loaded} / {total} titres chargés...",
+  loadingTvFilms: "Chargement des séries TV et films{city}...",
+  trailersSearched: "{loaded} / {total} bandes-annonces recherchées...",
+  yourMusicOverviewTitle: "Votre Aperçu Musical",
+  yourTvFilmOverviewTitle: "Votre Aperçu TV & Film",
+  tracksFoundFavorites: "{count, plural, one {# titre trouvé} other {# titres trouvés}} • {fav, plural, one {# favori} other {# favoris}}",
+  titlesFoundFavorites: "{count, plural, one {# titre trouvé} other {# titres trouvés}} • {fav, plural, one {# favori} other {# favoris}}",
+  inclLocalHitsSuffix: " • incl. hits {country}",
+  playlistAllTracks: "Playlist tous les {count} titres",
+  playlistFavoritesCount: "Playlist {count} favoris",
+  spotifyOpenHint: "Crée une playlist dans votre propre compte Spotify. En cas d'échec, les liens sont copiés dans le presse-papiers.",
+  spotifyPlaylistDescription: "Les numéros 1 de {start} à {end}.",
+  spotifyPlaylistTitle: "Playlist Spotify",
+  spotifyPlaylistCreating: "Création de la playlist dans votre compte Spotify...",
+  spotifyPlaylistCreated: "Votre playlist de {count, plural, one {# titre} other {# titres}} est prête dans Spotify.",
+  spotifyPlaylistOpen: "Ouvrir dans Spotify",
+  spotifyPlaylistFailed: "La playlist n'a pas pu être créée. Veuillez réessayer.",
+  spotifyPlaylistBack: "Retour",
+  playlistExportButton: "Exporter",
+  playlistExportAll: "Les {count} titres",
+  playlistExportFavorites: "{count} favoris",
+  playlistExportM3u8: "M3U8 (lecteurs multimédia)",
+  playlistExportXspf: "XSPF (VLC)",
+  playlistExportCsv: "CSV (tableur)",
+  playlistExportHtml: "Page web avec liens de recherche",
+  birthdayNumberOneTitle: "Numéro 1 le jour de votre naissance",
+  birthdayNumberOneYearTitle: "Numéro 1 de votre année de naissance",
+  birthdayNumberOneIntl: "International",
+  birthdayNumberOneListen: "Écouter sur Spotify",
+  birthdayNumberOneBirthdays: "Le numéro 1 à vos anniversaires",
+  birthdayNumberOneYears: "Le numéro 1 de chaque année depuis",
+  birthdayNumberOneAge: "{age} ans",
+  trailersAllPlay: "{count, plural, one {Lire # bande-annonce} other {Lire les # bandes-annonces}}",
+  trailersFavoritesPlay: "{count, plural, one {Lire # favori} other {Lire # favoris}}",
+  myFavoritesPlaylistLabel: "Mes Favoris",
+  localHitBadge: "Local",
+  noTracksAvailable: "Aucun titre disponible.",
+  noTrailersAvailable: "Aucune bande-annonce disponible.",
+  linksCopiedTitle: "Liens copiés !",
+  spotifyLinksCopiedDesc: "{count, plural, one {# lien Spotify copié dans le presse-papiers. Collez-le dans une playlist Spotify.} other {# liens Spotify copiés dans le presse-papiers. Collez-les dans une playlist Spotify.}}",
+  youtubeLinksCopiedDesc: "{count, plural, one {# lien YouTube copié dans le presse-papiers.} other {# liens YouTube copiés dans le presse-papiers.}}",
+  myMusicVideo: "Mon clip musical",
+  justReady: "Tout juste prêt",
+  yourPersonalMusicVideo: "Votre clip musical personnel",
+  alsoForYou: "Aussi pour vous",
+  unlock: "Débloquer",
+  open: "Ouvrir",
+  myTimeline: "Ma chronologie",
+  backToTimeline: "Retour à votre histoire",
+  scrollDownHint: "défiler vers le bas",
+  savedDescriptionTrack: "{name} est maintenant sur votre page de compte.",
+  savedDescriptionItem: "{title} est maintenant sur votre page de compte.",
+  errorLabel: "Erreur",
+  spotifyFailedSummary: "{count} sur {total} morceaux n'ont pas pu être chargés — Spotify est peut-être temporairement indisponible.",
+  localHitsFetchError: "Impossible de charger les hits locaux — réessayez plus tard.",
+  youtubeFailedSummary: "{count} sur {total} films/séries n'ont pas pu être chargés — YouTube est peut-être temporairement indisponible.",
+  numberOneHitDesc: "Hit n°1 de {year}. Album : {album}",
+  myMusicVideoTitle: "Mon Clip Musical",
+  eventsAiMusic: "{count, plural, one {# événement} other {# événements}} • Musique IA",
+  preparingMusicVideo: "Votre clip musical est en préparation...",
+  errorBoundaryTitle: "Une erreur s'est produite",
+  errorBoundaryBody: "Nous n'avons pas pu charger cette partie de l'application.",
+  errorBoundaryRetry: "Réessayer",
+  errorBoundaryHome: "Accueil",
+  notifTitlePulse: "🎵 En cours de création...",
+  notifPersonalMusicVideo: "Vidéo musicale personnelle",
+  notifProgressAria: "Vidéo musicale personnelle en cours de création — {pct}%",
+  notifProgressAriaCollapsed: "Vidéo musicale personnelle en cours de création — {pct}%, cliquez pour afficher",
+  notifTapToScroll: "Touchez pour faire défiler jusqu'à votre vidéo musicale",
+  notifTapToGo: "Touchez pour aller à votre vidéo musicale",
+  notifCollapse: "Réduire",
+  notifCollapseAria: "Réduire la notification",
+  notifProgressTitle: "Progression de la vidéo musicale",
+  notifMusicVideoFailed: "Vidéo musicale échouée",
+  notifMusicVideoFailedAria: "Vidéo musicale échouée — touchez pour réessayer",
+  notifTapToRetry: "Touchez pour réessayer",
+  notifRetry: "Réessayer",
+  notifReadyToPlay: "Prêt à lire",
+  notifYourMusicVideoFallback: "Votre vidéo musicale",
+  notifYourPersonalVideoReady: "Votre vidéo musicale personnelle est prête.",
+  notifWatchNow: "Regarder maintenant",
+  notifLater: "Plus tard",
+  notifClose: "Fermer",
+  notifOpenMusicVideo: "Ouvrir la notification vidéo musicale",
+  shareYourVideoTitle: "Partagez votre vidéo",
+  shareGeneratingLink: "Un instant, nous créons votre lien partageable...",
+  shareReadyDesc: "Votre vidéo est prête à être partagée !",
+  shareSomethingWrong: "Une erreur s'est produite",
+  shareUploadFailed: "Échec du téléchargement",
+  shareTryAgain: "Réessayer",
+  shareCopyLinkLabel: "Copier le lien",
+  shareDeleteEllipsis: "Partager...",
+  shareViaLabel: "Partager via",
+  shareGenericError: "Une erreur s'est produite",
+  tiktokIntroTitle: "Votre voyage dans le temps",
+  tiktokOutroTitle: "Créez votre propre voyage dans le temps !",
+  tiktokWatermark: "TimeStory",
+  tiktokUnknownError: "Erreur inconnue",
+  tiktokWebShareUnavailable: "API Web Share non disponible",
+  tiktokCannotShareFiles: "Impossible de partager ces fichiers",
+  introReadyTitle: "🎬 Votre vidéo musicale personnelle est prête",
+  introReadyHint: "Appuyez sur ▶ pour lire",
+  introReadyTitleNarrative: "📖 Votre récit personnel est prêt",
+  introReadyHintNarrative: "Appuyez sur ▶ pour lire",
+  pdfDefaultFirstName: "Toi",
+  pdfDefaultStoryName: "TimeStory",
+  pdfTitleFallback: "L'année de {name}",
+  pdfAlbumFooter: "Album TimeStory",
+  pdfAlbumFileSuffix: "Album",
+  pdfCatPolitics: "Politique",
+  pdfCatSports: "Sport",
+  pdfCatEntertainment: "Divertissement",
+  pdfCatScience: "Science",
+  pdfCatCulture: "Culture",
+  pdfCatWorld: "Monde",
+  pdfCatLocal: "Local",
+  pdfCatPersonal: "Personnel",
+  pdfCatMusic: "Musique",
+  pdfCatTechnology: "Technologie",
+  pdfCatCelebrity: "Célébrité",
+  pdfCatUnknown: "Inconnu",
+  pdfTypeBirthdate: "Ce jour-là",
+  pdfTypeBirthmonth: "Ce mois-ci",
+  pdfTypeBirthyear: "Cette année",
+  pdfTypePeriod: "Période",
+  pdfPersonalJourneyFor: "Le voyage personnel à travers le temps pour",
+  pdfYourStory: "Votre histoire",
+  pdfInThisIssue: "Dans ce numéro",
+  pdfAlsoBornToday: "Également nés ce jour-là",
+  pdfThanksFor: "Merci pour",
+  pdfThanksShort: "Merci !",
+  pdfUnknownName: "Inconnu",
+  pdfMagazineTitle: "MAGAZINE VOYAGE DANS LE TEMPS",
+  pdfRunningHeader: "VOYAGE DANS LE TEMPS • {name}",
+  pdfNumberOneBirthday: "N° 1 le jour de votre naissance",
+  pdfNumberOneBirthYear: "N° 1 de votre année de naissance",
+  pdfEventCount: "{count, plural, one {# événement} other {# événements}}",
+  pdfSpecialEdition: "{count, plural, one {# événement} other {# événements}} • Édition spéciale",
+  pdfMoreYears: "{count, plural, one {+ # autre année...} other {+ # autres années...}}",
+  pdfAlsoBornBadge: "Nés le même jour",
+  pdfForReading: "votre lecture !",
+  pdfJourneyMadeFor: "Un voyage dans le temps rien que pour {name}",
+  pdfClosingStats: "{count, plural, one {# événement} other {# événements}} • {years, plural, one {# an} other {# ans}} • {people, plural, one {# célébrité} other {# célébrités}}",
+  pdfPolaroidClosingStats: "{count, plural, one {# événement} other {# événements}} • {people, plural, one {# célébrité} other {# célébrités}}",
+  pdfGeneratedOn: "Généré le {date}",
+  pdfFileName: "voyage-dans-le-temps",
+  pdfPolaroidEdition: "VOYAGE DANS LE TEMPS ÉDITION POLAROID",
+  pdfPolaroidHeader: "POLAROID VOYAGE DANS LE TEMPS",
+  pdfPolaroidEditionShort: "ÉDITION POLAROID",
+  pdfImageCredits: "CRÉDITS PHOTO",
+  imageCreationFailed: "Une erreur s'est produite lors de la création de l'image",
+  copiedTitle: "Copié !",
+  textCopiedDesc: "Texte copié dans le presse-papiers.",
+  oopsTitle: "Oups",
+  roastGenerationFailed: "Impossible de générer le roast",
+  roastImageFailed: "Impossible de générer l'image.",
+  downloadedTitle: "Téléchargé !",
+  shareImageOnSocial: "Partagez l'image sur les réseaux sociaux !",
+  loginRequiredTitle: "Connectez-vous",
+  loginRequiredRoastDesc: "Créez un compte pour sauvegarder votre roast.",
+  savedTitle: "Sauvegardé !",
+  errorShortLabel: "Erreur",
+  roastSaveFailed: "Impossible de sauvegarder le roast.",
+  trailerNotFoundTitle: "Bande-annonce introuvable",
+  trailerNotFoundDesc: "Aucune bande-annonce trouvée pour ce film.",
+  connectionErrorTitle: "Erreur de connexion",
+  connectionErrorDesc: "Impossible de se connecter au serveur. Veuillez réessayer plus tard.",
+  pdfGenerationFailed: "Échec de la génération PDF",
+  imageBlacklistedTitle: "Image bloquée",
+  imageBlacklistedDesc: "Nouvelle recherche lancée...",
+  eventsFoundDesc: "{count, plural, one {# événement trouvé} other {# événements trouvés}}",
+  ariaPrev: "Précédent",
+  ariaNext: "Suivant",
+  ariaStopTrailer: "Arrêter la bande-annonce",
+  ariaCloseTrailer: "Fermer la bande-annonce",
+  ariaPlayTrailer: "Lire la bande-annonce",
+  ariaBlacklistImage: "Bloquer l'image",
+  blacklistImageTitle: "Bloquer la photo (global) et rechercher à nouveau",
+  playSongCompact: "Chanson",
+  playSongLabel: "Lire la chanson",
+  searchingPhotoLabel: "Recherche de photo...",
+  scrollToLoadPhoto: "Faites défiler pour charger la photo",
+  debugInfoTitle: "Infos de débogage",
+  debugInfoFilterPlaceholder: "Filtrer par titre, catégorie, type...",
+  debugInfoBlacklistThumb: "Bloquer cette image",
+  debugInfoReloadAll: "Recharger toutes les images",
+  debugInfoSearchingShort: "Recherche...",
+  debugInfoLabelImages: "image",
+  debugInfoLabelSounds: "son",
+  debugInfoNone: "Aucun",
+  promptCopyToClipboard: "Copier dans le presse-papiers",
+  promptCopiedShort: "Copié",
+  quickRefreshTitle: "Actualisation rapide (20 événements)",
+  fullRefreshTitle: "Actualisation complète (50 événements)",
+  roastTitle: "Roast ma vie",
+  roastIntensityLabel: "Intensité",
+  roastIntensityMild: "Doux",
+  roastIntensitySpicy: "Épicé",
+  roastIntensityMedium: "Moyen",
+  roastIntensitySharp: "Piquant",
+  roastIntensityExtreme: "Extrême",
+  roastWriting: "Écriture du roast {level}...",
+  roastShareLabel: "Partager",
+  roastImageMaking: "Création de l'image...",
+  roastSaveLabel: "Sauvegarder",
+  roastImageAlt: "Image roast",
+  roastShareViaLabel: "Partager via",
+  roastNativeShareLabel: "Partager...",
+  roastCopyText: "Copier le texte",
+  roastCopiedShort: "Copié !",
+  roastDownloadImage: "Télécharger l'image",
+  roastShareTextTpl: "🔥 Roast ma vie ({level}) - Découvrez votre voyage dans le temps sur {url}",
+  roastImageHeading: "ROAST MA VIE",
+  roastBornInLabel: "{gender, select, female {Née en {year}} male {Né en {year}} other {Né(e) en {year}}}",
+  roastFooterTagline: "Découvrez votre voyage dans le temps • Gratuit",
+  roastNoneReceived: "Aucun roast reçu",
+
+  // Subculture editor (admin)
+  subcultureEditorTitle: "Jeu de données des sous-cultures",
+  subcultureEditorSummary: "Version {version} · {eras, plural, one {# époque} other {# époques}} · {countries, plural, one {# pays} other {# pays}}",
+  subcultureEditorImport: "Importer",
+  subcultureEditorReset: "Réinitialiser",
+  subcultureEditorResetConfirm: "Abandonner le brouillon et revenir au jeu de données actuel ?",
+  subcultureEditorImportFailed: "Échec de l'import : {error}",
+  subcultureEditorImportIssues: "{count, plural, one {# erreur} other {# erreurs}}, p. ex. {path} : {message}",
+  subcultureEditorChecks: "Vérification",
+  subcultureEditorErrors: "{count, plural, one {# erreur} other {# erreurs}}",
+  subcultureEditorWarnings: "{count, plural, one {# avertissement} other {# avertissements}}",
+  subcultureEditorEras: "Époques",
+  subcultureAgeGroupTeen: "Adolescents",
+  subcultureAgeGroupYoungAdult: "Jeunes adultes",
+  subcultureEditorNoEra: "Aucune sous-culture pour {period}, {ageGroup}, {country}.",
+  subcultureEditorAddEra: "Ajouter une époque",
+  subcultureEditorName: "Nom",
+  subcultureEditorDescription: "Description",
+  subcultureEditorOnePerLine: "{label} (un par ligne)",
+  subcultureEditorAddSubculture: "Ajouter une sous-culture",
+  subcultureEditorRemoveEra: "Supprimer l'époque",
+  subcultureEditorCountries: "Pays et villes",
+  subcultureEditorCode: "Code",
+  subcultureEditorCities: "Villes, une par ligne (minuscules)",
+  subcultureEditorAddCountry: "Ajouter un pays",
+
+  // Image search dashboard (admin)
+  imageQualityTitle: "Qualité de la recherche d'images",
+  imageQualitySubtitle: "Traces de recherche anonymisées des {days, plural, one {# dernier jour} other {# derniers jours}}",
+  imageQualityPeriod: "{days, plural, one {# jour} other {# jours}}",
+  imageQualityRefresh: "Actualiser",
+  imageQualityLoadFailed: "Échec du chargement : {error}",
+  imageQualitySearches: "Recherches",
+  imageQualityWithImage: "Avec image",
+  imageQualityAvgTimeToImage: "Temps moyen jusqu'à l'image",
+  imageQualityFound: "Trouvé",
+  imageQualityTimeToImage: "Temps jusqu'à l'image",
+  imageQualityBySource: "Par source",
+  imageQualitySource: "Source",
+  imageQualityAsked: "Demandé",
+  imageQualityErrors: "Erreurs",
+  imageQualityWon: "Choisi",
+  imageQualityBySubject: "Par type de sujet",
+  imageQualityType: "Type",
+  imageQualityByLanguage: "Par langue",
+  imageQualityLanguage: "Langue",
+  imageQualityMostBlacklisted: "Sources les plus bloquées",
+  imageQualityNoneBlacklisted: "Aucune image bloquée sur cette période.",
+  imageQualityNeverFound: "Recherches sans image",
+  imageQualityAllFound: "Chaque recherche a trouvé une image au moins une fois.",
+  imageQualityQuery: "Recherche",
+  imageQualityTimesSearched: "Nombre de recherches",
+  imageQualityLastSearched: "Dernière",
+};
+
+export default fr;
@@ -0,0 +1,803 @@
+import type { Messages } from "../types";
+
+const it: Messages = {
+  siteTitle: "L'anno di",
+  heroTitle: "La tua storia nel tempo",
+  heroSubtitle: "Scopri cosa è successo il giorno in cui sei nato o viaggia attraverso gli anni con una panoramica storica personale.",
+  startButton: "Inizia il tuo viaggio",
+  choiceTitle: "Cosa vuoi scoprire?",
+  choiceSubtitle: "Scegli come vuoi viaggiare nel tempo",
+  option1Title: "L'anno, il mese e il giorno di...",
+  option1Description: "Scopri tutto su una data di nascita: cosa è successo quell'anno, quel mese e proprio quel giorno?",
+  option2Title: "Un viaggio nel tempo di anno in anno",
+  option2Description: "Crea una panoramica storica di un intero periodo, perfetta per anniversari o per rivivere un'epoca.",
+  birthDateLabel: "Data di nascita",
+  birthDateQuestion: "Qual è la tua data di nascita?",
+  dayLabel: "Giorno",
+  monthLabel: "Mese",
+  yearLabel: "Anno",
+  startYearLabel: "Anno di inizio",
+  endYearLabel: "Anno di fine",
+  periodQuestion: "Quale periodo vuoi rivivere?",
+  periodBirthyear: "Anno di nascita",
+  periodBirthyearDesc: "L'anno in cui sei nato",
+  periodChildhood: "Infanzia",
+  periodChildhoodDesc: "6-12 anni",
+  periodPuberty: "Adolescenza",
+  periodPubertyDesc: "12-17 anni",
+  periodYoungAdult: "Giovane adulto",
+  periodYoungAdultDesc: "18-25 anni",
+  periodCustom: "Personalizzato",
+  periodCustomDesc: "Scegli il tuo periodo",
+  timelineLengthQuestion: "Quanti momenti vuoi vedere?",
+  timelineShort: "Breve",
+  timelineShortDesc: "20 momenti",
+  timelineLong: "Estesa",
+  timelineLongDesc: "50 momenti",
+  createTimelineButton: "Crea la linea del tempo",
+  createPolaroidButton: "Crea la linea del tempo in polaroid",
+  optionalInfoTitle: "Rendila più personale",
+  optionalInfoSubtitle: "Queste informazioni sono facoltative, ma ci aiutano a creare una storia più ricca",
+  nameLabel: "Nome",
+  firstNameLabel: "Nome",
+  firstNamePlaceholder: "Es. Marco",
+  lastNameLabel: "Cognome",
+  lastNamePlaceholder: "Es. Rossi",
+  cityLabel: "Città",
+  cityPlaceholder: "Es. Milano",
+  partnerLabel: "Partner",
+  childrenLabel: "Figli",
+  child1NameLabel: "Nome figlio/a 1",
+  child1BirthLabel: "Data di nascita figlio/a 1",
+  child2NameLabel: "Nome figlio/a 2",
+  child2BirthLabel: "Data di nascita figlio/a 2",
+  child3NameLabel: "Nome figlio/a 3",
+  child3BirthLabel: "Data di nascita figlio/a 3",
+  partnerNameLabel: "Nome del partner",
+  partnerBirthLabel: "Data di nascita del partner",
+  siblingsLabel: "Fratelli e sorelle",
+  siblingNamePlaceholder: "Nome",
+  siblingBirthLabel: "Data di nascita",
+  addSibling: "Aggiungi un fratello o una sorella",
+  removeSibling: "Rimuovi",
+  sharedTimelineLabel: "Anni condivisi",
+  sharedTimelineHint: "Una linea del tempo per te e il tuo partner o i tuoi fratelli, con l'età di ognuno in ogni momento.",
+  metYearLabel: "Anno in cui vi siete conosciuti (facoltativo)",
+  sharedYou: "Tu",
+  sharedPersonAge: "{name} · {age} anni",
+  sharedPersonNotBorn: "{name} · non ancora nato/a",
+  sharedYearWeMet: "L'anno in cui ci siamo conosciuti",
+  compareTitle: "Il tuo anno contro il mio",
+  compareDescription: "Confronta due anni fianco a fianco: musica, TV, tecnologia e politica, e cosa è cambiato nel frattempo.",
+  compareNameLabel: "Nome",
+  compareYearLabel: "Anno",
+  compareSideYou: "Tu",
+  compareSideFriend: "Amico/a",
+  compareStart: "Confronta",
+  compareLoading: "Creazione di entrambi gli anni...",
+  compareWhatChanged: "Cosa è cambiato nel frattempo",
+  compareNothingInCategory: "Niente in questa categoria",
+  compareFailed: "Impossibile creare il confronto",
+  compareCatMusic: "Musica",
+  compareCatTv: "TV e cinema",
+  compareCatTechnology: "Tecnologia",
+  compareCatPolitics: "Politica e mondo",
+  compareYearsTile: "Il tuo anno contro quello di un amico",
+  compareYearsTileSubtitle: "Due anni fianco a fianco",
+  renderDownloadButton: "Scarica",
+  renderDownloadTitle: "Scarica come file video",
+  renderFormatLabel: "Formato",
+  renderResolutionLabel: "Risoluzione",
+  renderStart: "Crea video",
+  renderSavingStory: "Salvataggio della storia...",
+  renderQueued: "In attesa in coda...",
+  renderProgress: "Rendering del video... {pct}%",
+  renderDownload: "Scarica {format}",
+  renderFailed: "Creazione del video non riuscita",
+  captionsToggle: "Sottotitoli",
+  captionsDownload: "Sottotitoli:",
+  interestsLabel: "Interessi",
+  interestsPlaceholder: "Es. sport, musica, computer, politica",
+  focusLabel: "Focus geografico",
+  focusNetherlands: "Paesi Bassi",
+  focusEurope: "Europa",
+  focusWorld: "Mondo",
+  nextButton: "Avanti",
+  backButton: "Indietro",
+  skipButton: "Salta",
+  generateButton: "Crea il mio viaggio nel tempo",
+  confirmButton: "Conferma",
+  cancelButton: "Annulla",
+  refreshButton: "Aggiorna",
+  customDialogTitle: "Personalizza il tuo viaggio nel tempo",
+  customDialogDescription: "Modifica gli anni o aggiungi altre informazioni",
+  adjustButton: "Modifica",
+  subcultureLabel: "Sottocultura",
+  subcultureNoPreference: "Nessuna preferenza",
+  subcultureBrands: "Marchi",
+  subcultureMusic: "Musica",
+  subcultureClothing: "Abbigliamento",
+  discoverMore: "Scopri di più",
+  discoverMusicTitle: "La mia vita in musica",
+  discoverMusicDesc: "Scopri le hit al numero 1 dei tuoi anni",
+  discoverTvFilmTitle: "La mia vita in TV e cinema",
+  discoverTvFilmDesc: "Film e serie iconici della tua epoca",
+  discoverPolaroidTitle: "La mia vita in polaroid",
+  discoverPolaroidDesc: "La tua storia come collage di polaroid",
+  discoverStoryTitle: "La mia storia nel tempo",
+  discoverStoryDesc: "La storia completa della tua vita",
+  badgeFree: "Gratis",
+  badgePremium: "Premium",
+  customFromYear: "Dall'anno",
+  customToYear: "All'anno",
+  customFromPlaceholder: "es. 1985",
+  customToPlaceholder: "es. 1995",
+  backToInput: "Torna ai dati",
+  yourTimeJourney: "Il tuo viaggio nel tempo",
+  magazinePdf: "Rivista PDF",
+  polaroidPdf: "Polaroid PDF",
+  alsoborn: "Sono nati anche:",
+  moreCount: "altri",
+  loadingImages: "Caricamento immagini...",
+  photosCount: "foto",
+  loadingTitle: "Viaggio indietro nel tempo...",
+  loadingSubtitle: "Potrebbe volerci un momento",
+  eventsLoaded: "eventi caricati...",
+  timelineLoaded: "Linea del tempo caricata!",
+  eventsFound: "eventi trovati",
+  errorTitle: "Qualcosa è andato storto",
+  tryAgain: "Riprova",
+  noDataFound: "Nessun dato trovato",
+  backToStart: "Torna all'inizio",
+  pdfDownloaded: "PDF scaricato!",
+  pdfMagazineReady: "La tua rivista del viaggio nel tempo è pronta",
+  polaroidPdfDownloaded: "PDF polaroid scaricato!",
+  polaroidReady: "La tua edizione polaroid anni '80 è pronta",
+  albumDownloaded: "Album scaricato!",
+  albumReady: "Il tuo album TimeStory è pronto",
+  downloadAlbum: "Scarica album (PDF)",
+  pdfError: "Errore nella creazione del PDF",
+  pdfTryAgain: "Riprova",
+  shareToTikTok: "Condividi su TikTok",
+  generatingSlides: "Creazione delle slide...",
+  shareSuccess: "Condiviso!",
+  tikTokReady: "Le tue slide per TikTok sono pronte",
+  shareError: "Condivisione non riuscita",
+  slidesReady: "Slide pronte!",
+  tapToShare: "Tocca il pulsante verde per condividere",
+  prepareSlides: "Prepara le slide",
+  shareNow: "Condividi ora",
+  createCollage: "Crea collage (6 foto)",
+  selectPhotos: "Seleziona 6 foto",
+  selectedCount: "Selezionate",
+  maxPhotosReached: "Massimo 6 foto",
+  generateCollage: "Scarica collage",
+  collageDownloaded: "Collage scaricato!",
+  collageReady: "Il tuo collage di polaroid è pronto",
+  collageError: "Errore nella creazione del collage",
+  cancelSelection: "Annulla",
+  loadError: "Errore di caricamento",
+  required: "Questo campo è obbligatorio",
+  invalidDate: "Questa data non esiste: controlla il giorno e il mese.",
+  yearRange: "L'anno deve essere compreso tra il 1900 e l'anno corrente",
+  endYearAfterStart: "L'anno di fine deve essere successivo all'anno di inizio",
+  fillBirthDate: "Inserisci la tua data di nascita",
+  validYearRange: "Inserisci un anno di nascita valido",
+  choosePeriod: "Scegli un periodo",
+  fillBothYears: "Compila entrambi gli anni",
+  validYears: "Inserisci anni validi",
+  months: [
+    "Gennaio", "Febbraio", "Marzo", "Aprile", "Maggio", "Giugno",
+    "Luglio", "Agosto", "Settembre", "Ottobre", "Novembre", "Dicembre",
+  ] as readonly string[],
+  birthDateStepLabel: "Data di nascita",
+  periodStepLabel: "Quale periodo?",
+  styleStepLabel: "Stile e sottocultura",
+  cityQuestion: "Quale luogo era più importante in quel periodo?",
+  pressEnterToContinue: "Premi Invio per continuare",
+  startTimeJourney: "Inizia il mio viaggio nel tempo",
+  recentStoriesTitle: "Storie precedenti",
+  recentStoriesSearchPlaceholder: "Cerca per nome, luogo, anno o evento…",
+  recentStoriesNoResults: "Nessuna storia trovata",
+  recentStoriesDelete: "Elimina storia",
+  recentStoriesEventCount: "{count, plural, one {# evento} other {# eventi}}",
+  genderLabel: "Genere",
+  genderMale: "Uomo",
+  genderFemale: "Donna",
+  genderNone: "Nessuna preferenza",
+  genderNeutral: "Neutro",
+  periodBirthyearLong: "L'anno in cui sei venuto al mondo",
+  periodChildhoodLong: "Giocare all'aperto, i primi amici, le elementari",
+  periodPubertyLong: "La prima cotta, scoprire la musica",
+  periodYoungAdultLong: "Uscire, studiare, scoprire il mondo",
+  yourMusicVideo: "Il tuo videoclip",
+  previewVersion: "Versione di anteprima",
+  personalizedVersion: "Versione personalizzata",
+  shareButton: "Condividi",
+  writingLyrics: "Scrittura del testo...",
+  startingMusic: "Avvio della musica...",
+  composingSoundtrack: "La tua colonna sonora personale è in composizione...",
+  soundtrackStreaming: "La tua colonna sonora personale è in riproduzione (ancora in completamento)...",
+  musicVideoReady: "Il tuo videoclip è pronto!",
+  somethingWentWrong: "Qualcosa è andato storto",
+  loading: "Caricamento...",
+  generationTime: "Potrebbero volerci 2-4 minuti. Nel frattempo puoi continuare a scorrere.",
+  retryButton: "Riprova",
+  previewPlaying: "Anteprima: il tuo brano è in riproduzione mentre completiamo la versione intera",
+  aiMusicVideo: "Videoclip con IA",
+  makeMorePersonal: "Rendilo ancora più personale",
+  upgradeDescription: "Aggiungi amici, scuola e locali per un testo unico con i tuoi ricordi e le notizie della tua linea del tempo.",
+  upgradeToV2: "Passa alla V2",
+  viewLyrics: "Mostra testo",
+  hideLyrics: "Nascondi testo",
+  yourYears: "I tuoi anni",
+  yourStory: "La tua storia",
+  customizeTitle: "Personalizza",
+  customizeDescription: "Modifica i tuoi dati per un risultato più personale con i tuoi ricordi e fatti di cronaca.",
+  currentVersionV1: "Versione attuale (V1):",
+  cityLabelShort: "Città",
+  genderForVoice: "Genere (per la voce)",
+  personalMemories: "✨ Ricordi personali per una canzone più unica:",
+  top3Friends: "I 3 migliori amici di allora",
+  friendsPlaceholder: "Nomi separati da virgole",
+  highSchool: "Scuola superiore",
+  schoolPlaceholder: "Es. Liceo Manzoni",
+  favoriteVenues: "Locali preferiti",
+  venuesPlaceholder: "Es. Piper, Plastic",
+  musicEngine: "Motore musicale",
+  sunoDescription: "Suno (V4.5) — Qualità massima",
+  acestepDescription: "Ace-Step — Più veloce, self-hosted",
+  diffrhythmDescription: "DiffRhythm — Timestamp LRC, ultraveloce",
+  diffrhythmNote: "⏱️ DiffRhythm genera timestamp LRC così la musica va a tempo con gli eventi della tua linea del tempo.",
+  upgradeInfo: "La tua nuova colonna sonora non catturerà solo l'atmosfera della tua epoca, ma intreccerà anche notizie specifiche della tua linea del tempo e i tuoi ricordi personali in una canzone davvero unica.",
+  upgradeInfoTitle: "Passa alla V2:",
+  generating: "In corso...",
+  generateV2: "Genera V2",
+  personalVideoClip: "Videoclip personale",
+  adjustForPersonal: "Modifica i tuoi dati per un risultato più personale.",
+  generateVideoClip: "Genera un videoclip unico con musica.",
+  geographicFocusLabel: "Focus geografico",
+  netherlandsLabel: "Paesi Bassi",
+  europeLabel: "Europa",
+  worldLabel: "Mondo",
+  musicStyleInfo: "La sottocultura determina lo stile.",
+  musicStyleLabel: "Stile musicale:",
+  continueButton: "Continua",
+  tipPersonalDetails: "Inserisci i tuoi dati per una canzone più personale!",
+  tipLabel: "Suggerimento:",
+  writingLyricsStep: "Scrittura del testo",
+  aiWritingLyrics: "L'IA scrive una canzone nostalgica",
+  composingMusic: "Composizione della musica",
+  aiComposingTrack: "Suno AI crea un brano unico",
+  readyLabel: "Fatto!",
+  listenToHit: "Ascolta la tua hit personale",
+  browserNoAudio: "Il tuo browser non supporta l'audio.",
+  durationLabel: "Durata:",
+  minutesLabel: "minuti",
+  showSunoUrl: "Mostra URL di Suno",
+  watchVideo: "Guarda il video",
+  startGeneration: "Avvia la generazione",
+  personalMemoriesForSong: "Ricordi personali per una canzone più unica:",
+  personalVideoClipButton: "🎬 Videoclip personale",
+  occasionBirthday: "Compleanno",
+  occasionAnniversary: "Anniversario",
+  occasionFun: "Solo per divertimento",
+  tooManyRequests: "Troppe richieste. Riprova più tardi.",
+  creditsExhausted: "Crediti esauriti. Aggiungi crediti al tuo workspace.",
+  generationInterrupted: "Generazione interrotta",
+  musicGenerationTimeout: "La generazione della musica ha richiesto troppo tempo",
+  connectionLost: "Connessione persa prima dell'arrivo dei risultati. Riprova.",
+  defaultSummary: "Una panoramica di eventi importanti.",
+  loadingTooLong: "Il caricamento ha richiesto troppo tempo ed è stato interrotto. Riprova.",
+  unknownError: "Errore sconosciuto",
+  fetchingEvents: "Recupero degli eventi...",
+  scrollToBegin: "Scorri per iniziare",
+  blacklistTooltip: "Blocca la foto (globale) e cercane un'altra",
+  blacklistAriaLabel: "Blocca immagine",
+  regenerateEventTooltip: "Dammi qualcos'altro",
+  regenerateEventAriaLabel: "Sostituisci questo evento con un altro",
+  regenerateEventNoResult: "Nessun evento sostitutivo trovato. Riprova.",
+  regenerateEventFailed: "Sostituzione non riuscita",
+  chooseImageTooltip: "Scegli un'altra foto",
+  chooseImageTitle: "Scegli una foto",
+  useThisImage: "Usa questa foto",
+  currentImage: "Foto attuale",
+  imageLicenseUnknown: "Licenza sconosciuta",
+  imageCredits: "Crediti fotografici",
+  editTimeline: "Modifica la linea del tempo",
+  doneEditing: "Fine modifica",
+  editorTitleLabel: "Titolo",
+  editorDescriptionLabel: "Descrizione",
+  editorDateLabel: "Data",
+  editorDateHint: "AAAA, AAAA-MM o AAAA-MM-GG",
+  editorCategoryLabel: "Categoria",
+  editorImportanceLabel: "Importanza",
+  importanceHigh: "Alta",
+  importanceMedium: "Media",
+  importanceLow: "Bassa",
+  editorUploadPhoto: "Carica una tua foto",
+  editorMoveUp: "Sposta su",
+  editorMoveDown: "Sposta giù",
+  editorDeleteEvent: "Elimina evento",
+  editorAddPersonalEvent: "Aggiungi un momento personale",
+  editorPhotoFailed: "Impossibile caricare la foto",
+  uploadPhotos: "Aggiungi le tue foto",
+  uploadPhotosTitle: "Aggiungi le tue foto",
+  uploadPhotosDescription: "Leggiamo la data di scatto dalle tue foto e suggeriamo un anno. Aggiungi una foto come scheda a sé o sostituisci l'immagine di un evento.",
+  uploadPhotosChoose: "Scegli le foto",
+  photoTakenOn: "Scattata il {date}",
+  photoNoCaptureDate: "Nessuna data di scatto trovata",
+  photoYearLabel: "Anno",
+  photoPlacementLabel: "Posizione",
+  photoPlacementNewCard: "Come scheda a sé",
+  photoPlacementReplace: "Sostituisci l'immagine di: {title}",
+  photoCaptionLabel: "Didascalia",
+  photoRemove: "Rimuovi foto",
+  uploadPhotosConfirm: "Aggiungi alla storia",
+  uploadPhotosUploading: "Caricamento...",
+  uploadPhotosFailed: "Caricamento non riuscito",
+  uploadPhotosFailedCount: "Impossibile caricare {count} foto",
+  ownPhotoBadge: "La tua foto",
+  timelineOf: "Linea del tempo di",
+  to: "a",
+  serverError: "Errore del server",
+  pollingFailed: "Controllo dello stato non riuscito",
+  authWelcome: "Benvenuto in Il Tuo Anno",
+  authSubtitle: "Crea un account per salvare i tuoi contenuti",
+  authLogin: "Accedi",
+  voiceElevenLabsLoginRequired: "Accedi per usare ElevenLabs",
+  voiceElevenLabsLoginRequiredDesc: "Le voci di ElevenLabs sono disponibili per gli utenti registrati.",
+  authSignUp: "Registrati",
+  authLogout: "Esci",
+  authEmail: "Indirizzo email",
+  authPassword: "Password",
+  authDisplayName: "Nome",
+  authGoogleSignIn: "Continua con Google",
+  authOrEmail: "oppure con email",
+  authForgotPassword: "Password dimenticata?",
+  authCheckEmail: "Controlla la tua email",
+  authVerifyEmailSent: "Ti abbiamo inviato un link di verifica.",
+  authResetEmailSent: "Ti abbiamo inviato un link per reimpostare la password.",
+  authEnterEmail: "Inserisci prima il tuo indirizzo email",
+  authError: "Qualcosa è andato storto",
+  authNewPassword: "Imposta una nuova password",
+  authUpdatePassword: "Aggiorna password",
+  authPasswordUpdated: "Password aggiornata correttamente",
+  authInvalidResetLink: "Link di reimpostazione non valido o scaduto",
+  authMyAccount: "Il mio account",
+  accountNoContent: "Ancora nessun contenuto salvato",
+  accountNoContentDesc: "Qui compariranno le linee del tempo che crei",
+  accountSavedStories: "Linee del tempo salvate",
+  accountViewStory: "Apri",
+  accountShareStory: "Condividi",
+  accountDeleteStory: "Elimina",
+  accountDeleteConfirm: "Vuoi davvero eliminare questa linea del tempo?",
+  accountStoryDeleted: "Linea del tempo eliminata",
+  accountCreatedAt: "Creata il",
+  accountBilling: "Fatturazione",
+  accountBillingDesc: "Gestisci il tuo abbonamento e i dati di pagamento",
+  accountManageSubscription: "Gestisci abbonamento",
+  accountPerMonth: "mese",
+  accountEvents: "eventi",
+  saveEvent: "Salva evento",
+  eventSaved: "Evento salvato",
+  eventAlreadySaved: "Già salvato",
+  accountSavedEvents: "Eventi salvati",
+  accountNoSavedEvents: "Ancora nessun evento salvato",
+  accountNoSavedEventsDesc: "Salva singoli eventi dalla tua linea del tempo",
+  eventDeleted: "Evento eliminato",
+  eventShared: "Evento copiato negli appunti",
+
+  // OptionalInfoForm labels
+  friendsLabel: "I 3 migliori amici di allora",
+  friendsInputPlaceholder: "Nomi separati da virgole (es. Marco, Luca, Giulia)",
+  schoolLabel: "Scuola superiore",
+  schoolInputPlaceholder: "Es. Liceo Scientifico Galilei",
+  nightlifeLabel: "Locali preferiti",
+  nightlifeInputPlaceholder: "Discoteche/bar separati da virgole",
+
+  // PhaseSelector (HomeV2)
+  chooseDestination: "Scegli la tua destinazione",
+  whichVersionToVisit: "Quale versione di te vuoi visitare?",
+  phaseBirthyearDesc: "Scopri il mondo in cui sei nato",
+  phaseChildhoodTitle: "Infanzia",
+  phaseChildhoodDesc: "Rivivi i tuoi giorni spensierati di gioco",
+  phasePubertyDesc: "Ritorno alla tua prima cotta",
+  phaseYoungAdultTitle: "Giovane adulto",
+  phaseYoungAdultDesc: "Il tempo della libertà e dell'avventura",
+
+  // HomeV2 specific
+  backToBirthDate: "Torna alla data di nascita",
+  chooseOtherDestination: "Scegli un'altra destinazione",
+  startMyTimeJourney: "Inizia il mio viaggio nel tempo",
+  goingBackTo: "Stai tornando a",
+
+  // Timeline Story button
+  timelineStoryButton: "Storia nel tempo",
+
+  // ChapterIndicator
+  chapterBirthDate: "Data di nascita",
+  chapterDestination: "Destinazione",
+  chapterIdentity: "Identità",
+
+  // IdentityForm
+  whoIsMainCharacter: "Chi è il protagonista?",
+  lastDetailsForJourney: "Gli ultimi dettagli per il tuo viaggio personale nel tempo",
+  friendsCalledYou: "Come ti chiamavano i tuoi amici allora?",
+  namePlaceholder: "Es. Gianni, Mery, DJ Pippo...",
+  forStoryStyle: "Per lo stile giusto della storia:",
+  genderHe: "Lui",
+  genderShe: "Lei",
+
+  // RetroDateInput
+  whenDidYourStoryBegin: "Quando è iniziata la tua storia?",
+  fillBirthDateToStart: "Inserisci la tua data di nascita per avviare la macchina del tempo",
+  legendaryDayToStart: "Un giorno leggendario per cominciare.",
+  daysOfWeek: ["Domenica", "Lunedì", "Martedì", "Mercoledì", "Giovedì", "Venerdì", "Sabato"],
+
+  // NostalgicLoading
+  loadingArchives: "Sfogliando gli archivi...",
+  loadingDustNewspapers: "Spolverando vecchi giornali...",
+  loadingMemories: "Recuperando i ricordi...",
+  loadingCassette: "Riavvolgendo la musicassetta...",
+  loadingVHS: "Cercando tra le videocassette VHS...",
+  loadingHitsOf: "Cercando le hit del {year}...",
+  loadingDialUp: "Connessione via modem... biip buup...",
+  loadingWindows: "Avvio di Windows 95...",
+  loadingBackTo: "Ritorno al {year}...",
+  loadingSearchArchives: "Ricerca negli archivi del {year}...",
+  loadingCollectMemories: "Raccogliendo ricordi...",
+  loadingPrepareJourney: "Preparando il tuo viaggio nel tempo...",
+
+  // TimeTravelCounter
+  timeTravelComplete: "Viaggio nel tempo completato",
+  timeTravelInProgress: "Viaggio nel tempo in corso...",
+
+  // TimelineCarousel scope labels
+  scopeBirthday: "Compleanno",
+  scopeOnBirthday: "Il giorno del tuo compleanno",
+  scopeInBirthMonth: "Nel tuo mese di nascita",
+  scopeInBirthYear: "Nel tuo anno di nascita",
+
+  // StoryEndCarousel / SharedExperienceCarousel
+  endOfJourney: "Fine del tuo viaggio nel tempo",
+  takeYourStory: "Porta con te la tua storia",
+  swipeToDiscover: "Scorri per scoprire tutti i modi per rivivere e condividere la tua storia",
+  myLifeInMusic: "La mia vita in musica",
+  allNumberOneHits: "Tutte le hit al n. 1",
+  discoverIconicHits: "Scopri tutte le hit iconiche al numero 1 della tua linea del tempo, salva le preferite e condividi la tua playlist.",
+  discoverHits: "Scopri le hit",
+  myLifeInTvFilm: "La mia vita in TV e cinema",
+  seriesAndFilms: "Serie e film",
+  reliveIconicTv: "Rivivi le serie TV iconiche e i blockbuster della tua vita con i trailer su YouTube.",
+  discoverTitles: "Scopri i titoli",
+  fullyPersonalized: "Completamente personalizzato",
+  fortyEvents: "40 eventi • I tuoi dati",
+  makeStoryUnique: "Rendi unica la tua storia con dati personali, 40 eventi e un videoclip più lungo.",
+  personalize: "Personalizza",
+  roastMyLife: "Prendi in giro la mia vita",
+  aiHumorShareable: "Umorismo IA • Da condividere",
+  letAiRoast: "Lascia che l'IA prenda in giro la tua vita senza pietà (o con garbo) in base alla tua linea del tempo. Da affettuoso a brutale.",
+  roastMe: "Prendimi in giro!",
+  spokenStory: "Storia narrata",
+  spokenStoryReady: "La tua storia personale è pronta",
+  spokenStoryGenerateAudioFor: "Genera l'audio per {count, plural, one {# evento} other {# eventi}}{intro}",
+  spokenStoryWithIntro: " + introduzione",
+  spokenStoryGenerating: "Generazione audio... {pct}%",
+  spokenStoryGenerateButton: "Genera audio",
+  spokenStoryGeneratingShort: "Generazione...",
+  spokenStoryError: "Generazione dell'audio non riuscita",
+  aiVoiceNarration: "Voce IA • Narrazione",
+  listenToStory: "Ascolta la storia della tua vita narrata, con immagini e musica d'atmosfera.",
+  myLifeInPolaroids: "La mia vita in polaroid",
+  retroStyle: "Stile retrò",
+  relivePolaroids: "Rivivi i tuoi momenti più belli come una raccolta di nostalgiche foto polaroid.",
+  viewPolaroids: "Guarda le polaroid",
+  myLifeAsPresentation: "La mia vita come presentazione",
+  pdfAlbum: "PDF • Album A4",
+  downloadAlbumDesc: "Scarica un bell'album A4 della storia della tua vita in PDF, pronto da stampare o condividere.",
+  downloadPdf: "Scarica PDF",
+
+  // ShareDialog
+  shareTitle: "La mia TimeStory",
+  shareVideoText: "Guarda il mio video personale nel tempo!",
+  shareWhatsapp: "Guarda la mia TimeStory: {url}",
+  shareTelegram: "Guarda la mia TimeStory!",
+  shareTwitter: "Guarda il mio video personale nel tempo!",
+  shareEmailSubject: "Guarda la mia TimeStory",
+  shareEmailBody: "Ho creato un video personale della mia vita nel tempo! Guardalo qui: {url}",
+  viewSharedVideo: "Guarda il tuo video condiviso",
+
+  // RoastDialog
+  bornIn: "Nato/a nel",
+  discoverYourJourneyFree: "Scopri il tuo viaggio nel tempo • Gratis",
+  roastShareText: "🔥 Prendi in giro la mia vita ({intensity}) - Scopri il tuo viaggio nel tempo su {url}",
+  savedToast: "Salvato!",
+  roastSavedDesc: "La presa in giro è stata salvata nel tuo account.",
+  errorToast: "Errore",
+  roastSaveError: "Impossibile salvare la presa in giro.",
+  creatingImage: "Creazione dell'immagine...",
+  share: "Condividi",
+  save: "Salva",
+  roastEmailSubject: "🔥 Prendi in giro la mia vita",
+  roastEmailBody: "Guarda la mia presa in giro:\n\n{text}\n\nCrea il tuo viaggio nel tempo su {url}",
+
+  // MusicOverviewPage
+  removeFromFavorites: "Rimuovi dai preferiti",
+  addToFavorites: "Aggiungi ai preferiti",
+  savedToAccount: "Salvato nel tuo account",
+  saveToAccount: "Salva nel tuo account",
+  loadingLocalHits: "Caricamento delle hit locali di {city}...",
+  tracksLoaded: "{loaded} / {total} brani caricati...",
+  loadingTvFilms: "Caricamento di serie e film{city}...",
+  trailersSearched: "{loaded} / {total} trailer cercati...",
+  yourMusicOverviewTitle: "La tua panoramica musicale",
+  yourTvFilmOverviewTitle: "La tua panoramica TV e cinema",
+  tracksFoundFavorites: "{count, plural, one {# brano trovato} other {# brani trovati}} • {fav, plural, one {# preferito} other {# preferiti}}",
+  titlesFoundFavorites: "{count, plural, one {# titolo trovato} other {# titoli trovati}} • {fav, plural, one {# preferito} other {# preferiti}}",
+  inclLocalHitsSuffix: " • incl. hit di {country}",
+  playlistAllTracks: "Playlist di tutti i {count} brani",
+  playlistFavoritesCount: "Playlist di {count} preferiti",
+  spotifyOpenHint: "Crea una playlist nel tuo account Spotify. Se non riesce, i link vengono copiati negli appunti.",
+  spotifyPlaylistDescription: "Le hit al numero 1 dal {start} al {end}.",
+  spotifyPlaylistTitle: "Playlist Spotify",
+  spotifyPlaylistCreating: "Creazione della playlist nel tuo account Spotify...",
+  spotifyPlaylistCreated: "La tua playlist con {count, plural, one {# brano} other {# brani}} è pronta su Spotify.",
+  spotifyPlaylistOpen: "Apri in Spotify",
+  spotifyPlaylistFailed: "Impossibile creare la playlist. Riprova.",
+  spotifyPlaylistBack: "Indietro",
+  playlistExportButton: "Esporta",
+  playlistExportAll: "Tutti i {count} brani",
+  playlistExportFavorites: "{count} preferiti",
+  playlistExportM3u8: "M3U8 (lettori multimediali)",
+  playlistExportXspf: "XSPF (VLC)",
+  playlistExportCsv: "CSV (foglio di calcolo)",
+  playlistExportHtml: "Pagina web con link di ricerca",
+  birthdayNumberOneTitle: "Il numero 1 del tuo compleanno",
+  birthdayNumberOneYearTitle: "Il numero 1 del tuo anno di nascita",
+  birthdayNumberOneIntl: "Internazionale",
+  birthdayNumberOneListen: "Ascolta su Spotify",
+  birthdayNumberOneBirthdays: "Il numero 1 dei tuoi compleanni",
+  birthdayNumberOneYears: "Il numero 1 di ogni anno da allora",
+  birthdayNumberOneAge: "{age} anni",
+  trailersAllPlay: "{count, plural, one {Riproduci # trailer} other {Riproduci tutti i # trailer}}",
+  trailersFavoritesPlay: "{count, plural, one {Riproduci # preferito} other {Riproduci # preferiti}}",
+  myFavoritesPlaylistLabel: "I miei preferiti",
+  localHitBadge: "Locale",
+  noTracksAvailable: "Nessun brano disponibile.",
+  noTrailersAvailable: "Nessun trailer disponibile.",
+  linksCopiedTitle: "Link copiati!",
+  spotifyLinksCopiedDesc: "{count, plural, one {# link di Spotify copiato negli appunti. Incollalo in una playlist di Spotify.} other {# link di Spotify copiati negli appunti. Incollali in una playlist di Spotify.}}",
+  youtubeLinksCopiedDesc: "{count, plural, one {# link di YouTube copiato negli appunti.} other {# link di YouTube copiati negli appunti.}}",
+  myMusicVideo: "Il mio videoclip",
+  justReady: "Appena pronto",
+  yourPersonalMusicVideo: "Il tuo videoclip personale",
+  alsoForYou: "Anche per te",
+  unlock: "Sblocca",
+  open: "Apri",
+  myTimeline: "La mia linea del tempo",
+  backToTimeline: "Torna alla tua storia",
+  scrollDownHint: "scorri in basso",
+  savedDescriptionTrack: "{name} è ora nella pagina del tuo account.",
+  savedDescriptionItem: "{title} è ora nella pagina del tuo account.",
+  errorLabel: "Errore",
+  spotifyFailedSummary: "Impossibile caricare {count} brani su {total}: Spotify potrebbe essere temporaneamente non disponibile.",
+  localHitsFetchError: "Impossibile caricare le hit locali. Riprova più tardi.",
+  youtubeFailedSummary: "Impossibile caricare {count} film/serie su {total}: YouTube potrebbe essere temporaneamente non disponibile.",
+  numberOneHitDesc: "Hit al n. 1 del {year}. Album: {album}",
+  myMusicVideoTitle: "Il mio videoclip",
+  eventsAiMusic: "{count, plural, one {# evento} other {# eventi}} • Musica IA",
+  preparingMusicVideo: "Il tuo videoclip è in preparazione...",
+  errorBoundaryTitle: "Qualcosa è andato storto",
+  errorBoundaryBody: "Non siamo riusciti a caricare questa parte dell'app.",
+  errorBoundaryRetry: "Riprova",
+  errorBoundaryHome: "Vai alla home",
+  notifTitlePulse: "🎵 In creazione...",
+  notifPersonalMusicVideo: "Videoclip personale",
+  notifProgressAria: "Videoclip personale in creazione — {pct}%",
+  notifProgressAriaCollapsed: "Videoclip personale in creazione — {pct}%, clicca per mostrare",
+  notifTapToScroll: "Tocca per scorrere al tuo videoclip",
+  notifTapToGo: "Tocca per andare al tuo videoclip",
+  notifCollapse: "Comprimi",
+  notifCollapseAria: "Comprimi notifica",
+  notifProgressTitle: "Avanzamento del videoclip",
+  notifMusicVideoFailed: "Videoclip non riuscito",
+  notifMusicVideoFailedAria: "Videoclip non riuscito — tocca per riprovare",
+  notifTapToRetry: "Tocca per riprovare",
+  notifRetry: "Riprova",
+  notifReadyToPlay: "Pronto da riprodurre",
+  notifYourMusicVideoFallback: "Il tuo videoclip",
+  notifYourPersonalVideoReady: "Il tuo videoclip personale è pronto.",
+  notifWatchNow: "Guarda ora",
+  notifLater: "Più tardi",
+  notifClose: "Chiudi",
+  notifOpenMusicVideo: "Apri la notifica del videoclip",
+  shareYourVideoTitle: "Condividi il tuo video",
+  shareGeneratingLink: "Un momento, stiamo creando il tuo link da condividere...",
+  shareReadyDesc: "Il tuo video è pronto da condividere!",
+  shareSomethingWrong: "Qualcosa è andato storto",
+  shareUploadFailed: "Caricamento non riuscito",
+  shareTryAgain: "Riprova",
+  shareCopyLinkLabel: "Copia link",
+  shareDeleteEllipsis: "Condividi...",
+  shareViaLabel: "Condividi tramite",
+  shareGenericError: "Qualcosa è andato storto",
+  tiktokIntroTitle: "Il tuo viaggio nel tempo",
+  tiktokOutroTitle: "Crea il tuo viaggio nel tempo!",
+  tiktokWatermark: "TimeStory",
+  tiktokUnknownError: "Errore sconosciuto",
+  tiktokWebShareUnavailable: "Web Share API non disponibile",
+  tiktokCannotShareFiles: "Impossibile condividere questi file",
+  introReadyTitle: "🎬 Il tuo videoclip personale è pronto",
+  introReadyHint: "Premi ▶ per riprodurre",
+  introReadyTitleNarrative: "📖 Il tuo libro narrato personale è pronto",
+  introReadyHintNarrative: "Premi ▶ per riprodurre",
+  pdfDefaultFirstName: "Tu",
+  pdfDefaultStoryName: "TimeStory",
+  pdfTitleFallback: "L'anno di {name}",
+  pdfAlbumFooter: "Album TimeStory",
+  pdfAlbumFileSuffix: "Album",
+  pdfCatPolitics: "Politica",
+  pdfCatSports: "Sport",
+  pdfCatEntertainment: "Intrattenimento",
+  pdfCatScience: "Scienza",
+  pdfCatCulture: "Cultura",
+  pdfCatWorld: "Mondo",
+  pdfCatLocal: "Locale",
+  pdfCatPersonal: "Personale",
+  pdfCatMusic: "Musica",
+  pdfCatTechnology: "Tecnologia",
+  pdfCatCelebrity: "Celebrità",
+  pdfCatUnknown: "Sconosciuto",
+  pdfTypeBirthdate: "In questo giorno",
+  pdfTypeBirthmonth: "Questo mese",
+  pdfTypeBirthyear: "Quest'anno",
+  pdfTypePeriod: "Periodo",
+  pdfPersonalJourneyFor: "Il viaggio personale nel tempo di",
+  pdfYourStory: "La tua storia",
+  pdfInThisIssue: "In questo numero",
+  pdfAlsoBornToday: "Nati anche in questo giorno",
+  pdfThanksFor: "Grazie,",
+  pdfThanksShort: "Grazie!",
+  pdfUnknownName: "Sconosciuto",
+  pdfMagazineTitle: "RIVISTA VIAGGIO NEL TEMPO",
+  pdfRunningHeader: "VIAGGIO NEL TEMPO • {name}",
+  pdfNumberOneBirthday: "N. 1 nel giorno della tua nascita",
+  pdfNumberOneBirthYear: "N. 1 nel tuo anno di nascita",
+  pdfEventCount: "{count, plural, one {# evento} other {# eventi}}",
+  pdfSpecialEdition: "{count, plural, one {# evento} other {# eventi}} • Edizione speciale",
+  pdfMoreYears: "{count, plural, one {+ # altro anno...} other {+ altri # anni...}}",
+  pdfAlsoBornBadge: "Nati lo stesso giorno",
+  pdfForReading: "per aver letto!",
+  pdfJourneyMadeFor: "Un viaggio nel tempo pensato per {name}",
+  pdfClosingStats: "{count, plural, one {# evento} other {# eventi}} • {years, plural, one {# anno} other {# anni}} • {people, plural, one {# celebrità} other {# celebrità}}",
+  pdfPolaroidClosingStats: "{count, plural, one {# evento} other {# eventi}} • {people, plural, one {# celebrità} other {# celebrità}}",
+  pdfGeneratedOn: "Generato il {date}",
+  pdfFileName: "viaggio-nel-tempo",
+  pdfPolaroidEdition: "VIAGGIO NEL TEMPO EDIZIONE POLAROID",
+  pdfPolaroidHeader: "POLAROID VIAGGIO NEL TEMPO",
+  pdfPolaroidEditionShort: "EDIZIONE POLAROID",
+  pdfImageCredits: "CREDITI FOTOGRAFICI",
+  imageCreationFailed: "Qualcosa è andato storto nella creazione dell'immagine",
+  copiedTitle: "Copiato!",
+  textCopiedDesc: "Testo copiato negli appunti.",
+  oopsTitle: "Ops",
+  roastGenerationFailed: "Impossibile generare la presa in giro",
+  roastImageFailed: "Impossibile generare l'immagine.",
+  downloadedTitle: "Scaricato!",
+  shareImageOnSocial: "Condividi l'immagine sui social!",
+  loginRequiredTitle: "Accedi",
+  loginRequiredRoastDesc: "Crea un account per salvare la tua presa in giro.",
+  savedTitle: "Salvato!",
+  errorShortLabel: "Errore",
+  roastSaveFailed: "Impossibile salvare la presa in giro.",
+  trailerNotFoundTitle: "Trailer non trovato",
+  trailerNotFoundDesc: "Impossibile trovare un trailer per questo film.",
+  connectionErrorTitle: "Errore di connessione",
+  connectionErrorDesc: "Impossibile connettersi al server. Riprova più tardi.",
+  pdfGenerationFailed: "Creazione del PDF non riuscita",
+  imageBlacklistedTitle: "Immagine bloccata",
+  imageBlacklistedDesc: "Nuova ricerca avviata...",
+  eventsFoundDesc: "{count, plural, one {# evento trovato} other {# eventi trovati}}",
+  ariaPrev: "Precedente",
+  ariaNext: "Successivo",
+  ariaStopTrailer: "Ferma trailer",
+  ariaCloseTrailer: "Chiudi trailer",
+  ariaPlayTrailer: "Riproduci trailer",
+  ariaBlacklistImage: "Blocca immagine",
+  blacklistImageTitle: "Blocca la foto (globale) e cerca di nuovo",
+  playSongCompact: "Brano",
+  playSongLabel: "Riproduci brano",
+  searchingPhotoLabel: "Ricerca foto...",
+  scrollToLoadPhoto: "Scorri per caricare la foto",
+  debugInfoTitle: "Informazioni di debug",
+  debugInfoFilterPlaceholder: "Filtra per titolo, categoria, tipo...",
+  debugInfoBlacklistThumb: "Blocca questa immagine",
+  debugInfoReloadAll: "Ricarica tutte le immagini",
+  debugInfoSearchingShort: "Ricerca...",
+  debugInfoLabelImages: "immagine",
+  debugInfoLabelSounds: "suono",
+  debugInfoNone: "Nessuno",
+  promptCopyToClipboard: "Copia negli appunti",
+  promptCopiedShort: "Copiato",
+  quickRefreshTitle: "Aggiornamento rapido (20 eventi)",
+  fullRefreshTitle: "Aggiornamento completo (50 eventi)",
+  roastTitle: "Prendi in giro la mia vita",
+  roastIntensityLabel: "Intensità",
+  roastIntensityMild: "Leggera",
+  roastIntensitySpicy: "Piccante",
+  roastIntensityMedium: "Media",
+  roastIntensitySharp: "Tagliente",
+  roastIntensityExtreme: "Estrema",
+  roastWriting: "Scrivendo una presa in giro {level}...",
+  roastShareLabel: "Condividi",
+  roastImageMaking: "Creazione dell'immagine...",
+  roastSaveLabel: "Salva",
+  roastImageAlt: "Immagine della presa in giro",
+  roastShareViaLabel: "Condividi tramite",
+  roastNativeShareLabel: "Condividi...",
+  roastCopyText: "Copia testo",
+  roastCopiedShort: "Copiato!",
+  roastDownloadImage: "Scarica immagine",
+  roastShareTextTpl: "🔥 Prendi in giro la mia vita ({level}) - Scopri il tuo viaggio nel tempo su {url}",
+  roastImageHeading: "PRENDI IN GIRO LA MIA VITA",
+  roastBornInLabel: "{gender, select, female {Nata nel {year}} male {Nato nel {year}} other {Nato/a nel {year}}}",
+  roastFooterTagline: "Scopri il tuo viaggio nel tempo • Gratis",
+  roastNoneReceived: "Nessuna presa in giro ricevuta",
+
+  // Subculture editor (admin)
+  subcultureEditorTitle: "Dataset delle sottoculture",
+  subcultureEditorSummary: "Versione {version} · {eras, plural, one {# epoca} other {# epoche}} · {countries, plural, one {# paese} other {# paesi}}",
+  subcultureEditorImport: "Importa",
+  subcultureEditorReset: "Ripristina",
+  subcultureEditorResetConfirm: "Scartare la bozza e tornare al dataset attuale?",
+  subcultureEditorImportFailed: "Importazione non riuscita: {error}",
+  subcultureEditorImportIssues: "{count, plural, one {# errore} other {# errori}}, ad es. {path}: {message}",
+  subcultureEditorChecks: "Controllo",
+  subcultureEditorErrors: "{count, plural, one {# errore} other {# errori}}",
+  subcultureEditorWarnings: "{count, plural, one {# avviso} other {# avvisi}}",
+  subcultureEditorEras: "Epoche",
+  subcultureAgeGroupTeen: "Adolescenti",
+  subcultureAgeGroupYoungAdult: "Giovani adulti",
+  subcultureEditorNoEra: "Nessuna sottocultura per {period}, {ageGroup}, {country}.",
+  subcultureEditorAddEra: "Aggiungi epoca",
+  subcultureEditorName: "Nome",
+  subcultureEditorDescription: "Descrizione",
+  subcultureEditorOnePerLine: "{label} (uno per riga)",
+  subcultureEditorAddSubculture: "Aggiungi sottocultura",
+  subcultureEditorRemoveEra: "Rimuovi epoca",
+  subcultureEditorCountries: "Paesi e città",
+  subcultureEditorCode: "Codice",
+  subcultureEditorCities: "Città, una per riga (minuscole)",
+  subcultureEditorAddCountry: "Aggiungi paese",
+
+  // Image search dashboard (admin)
+  imageQualityTitle: "Qualità della ricerca immagini",
+  imageQualitySubtitle: "Tracce di ricerca anonimizzate {days, plural, one {dell'ultimo giorno} other {degli ultimi # giorni}}",
+  imageQualityPeriod: "{days, plural, one {# giorno} other {# giorni}}",
+  imageQualityRefresh: "Aggiorna",
+  imageQualityLoadFailed: "Caricamento non riuscito: {error}",
+  imageQualitySearches: "Ricerche",
+  imageQualityWithImage: "Con immagine",
+  imageQualityAvgTimeToImage: "Tempo medio fino all'immagine",
+  imageQualityFound: "Trovato",
+  imageQualityTimeToImage: "Tempo fino all'immagine",
+  imageQualityBySource: "Per fonte",
+  imageQualitySource: "Fonte",
+  imageQualityAsked: "Richiesto",
+  imageQualityErrors: "Errori",
+  imageQualityWon: "Scelto",
+  imageQualityBySubject: "Per tipo di soggetto",
+  imageQualityType: "Tipo",
+  imageQualityByLanguage: "Per lingua",
+  imageQualityLanguage: "Lingua",
+  imageQualityMostBlacklisted: "Fonti più bloccate",
+  imageQualityNoneBlacklisted: "Nessuna immagine bloccata in questo periodo.",
+  imageQualityNeverFound: "Ricerche senza immagine",
+  imageQualityAllFound: "Ogni ricerca ha trovato un'immagine almeno una volta.",
+  imageQualityQuery: "Ricerca",
+  imageQualityTimesSearched: "Volte cercato",
+  imageQualityLastSearched: "Ultima",
+};
+
+export default it;
@@ -0,0 +1,895 @@
+// Dutch is the source locale: every other locale implements exactly these keys.
+// It is bundled with the app and doubles as the fallback while another locale loads.
+const nl = {
+  // Landing page
+  siteTitle: "Het jaar van",
+  heroTitle: "Jouw verhaal door de tijd",
+  heroSubtitle:
+    "Ontdek wat er gebeurde op de dag dat jij geboren werd, of reis door de jaren heen met een persoonlijk historisch overzicht.",
+  startButton: "Begin je reis",
+
+  // Choice page
+  choiceTitle: "Wat wil je ontdekken?",
+  choiceSubtitle: "Kies hoe je door de tijd wilt reizen",
+
+  option1Title: "Het Jaar, Maand en Dag Van...",
+  option1Description:
+    "Ontdek alles over een specifieke geboortedatum: wat gebeurde er in dat jaar, die maand en precies op die dag?",
+
+  option2Title: "Een Tijdreis van Jaar tot Jaar",
+  option2Description:
+    "Maak een historisch overzicht van een hele periode, perfect voor jubilea of om een tijdperk te herbeleven.",
+
+  // Form labels
+  birthDateLabel: "Geboortedatum",
+  birthDateQuestion: "Wat is je geboortedatum?",
+  dayLabel: "Dag",
+  monthLabel: "Maand",
+  yearLabel: "Jaar",
+  startYearLabel: "Startjaar",
+  endYearLabel: "Eindjaar",
+
+  // Period selection
+  periodQuestion: "Welke periode wil je herbeleven?",
+  periodBirthyear: "Geboortejaar",
+  periodBirthyearDesc: "Het jaar waarin je geboren bent",
+  periodChildhood: "Jeugd",
+  periodChildhoodDesc: "6-12 jaar",
+  periodPuberty: "Pubertijd",
+  periodPubertyDesc: "12-17 jaar",
+  periodYoungAdult: "Jong volwassen",
+  periodYoungAdultDesc: "18-25 jaar",
+  periodCustom: "Anders",
+  periodCustomDesc: "Kies zelf een periode",
+
+  // Timeline length
+  timelineLengthQuestion: "Hoeveel momenten wil je zien?",
+  timelineShort: "Kort",
+  timelineShortDesc: "20 momenten",
+  timelineLong: "Uitgebreid",
+  timelineLongDesc: "50 momenten",
+
+  // Action buttons
+  createTimelineButton: "Maak tijdreis overzicht",
+  createPolaroidButton: "Maak tijdreis polaroid",
+
+  // Optional info
+  optionalInfoTitle: "Maak het persoonlijker",
+  optionalInfoSubtitle: "Deze informatie is optioneel, maar helpt ons een rijker verhaal te creëren",
+  nameLabel: "Naam",
+  firstNameLabel: "Voornaam",
+  firstNamePlaceholder: "Bijv. Jan",
+  lastNameLabel: "Achternaam",
+  lastNamePlaceholder: "Bijv. de Vries",
+  cityLabel: "Woonplaats",
+  cityPlaceholder: "Bijv. Amsterdam",
+
+  partnerLabel: "Partner",
+  childrenLabel: "Kinderen",
+  child1NameLabel: "Naam kind 1",
+  child1BirthLabel: "Geboortedatum kind 1",
+  child2NameLabel: "Naam kind 2",
+  child2BirthLabel: "Geboortedatum kind 2",
+  child3NameLabel: "Naam kind 3",
+  child3BirthLabel: "Geboortedatum kind 3",
+  partnerNameLabel: "Naam partner",
+  partnerBirthLabel: "Geboortedatum partner",
+  siblingsLabel: "Broers en zussen",
+  siblingNamePlaceholder: "Naam",
+  siblingBirthLabel: "Geboortedatum",
+  addSibling: "Broer of zus toevoegen",
+  removeSibling: "Verwijderen",
+  sharedTimelineLabel: "Gedeelde jaren",
+  sharedTimelineHint: "Eén tijdlijn voor jou en je partner of broers en zussen, met ieders leeftijd bij elk moment.",
+  metYearLabel: "Jaar dat jullie elkaar ontmoetten (optioneel)",
+  sharedYou: "Jij",
+  sharedPersonAge: "{name} · {age} jaar",
+  sharedPersonNotBorn: "{name} · nog niet geboren",
+  sharedYearWeMet: "Het jaar dat we elkaar ontmoetten",
+  compareTitle: "Jouw jaar vs. mijn jaar",
+  compareDescription: "Vergelijk twee jaren naast elkaar: muziek, tv, technologie en politiek, en wat er tussendoor veranderde.",
+  compareNameLabel: "Naam",
+  compareYearLabel: "Jaar",
+  compareSideYou: "Jij",
+  compareSideFriend: "Vriend(in)",
+  compareStart: "Vergelijk",
+  compareLoading: "Beide jaren worden gemaakt...",
+  compareWhatChanged: "Wat er tussendoor veranderde",
+  compareNothingInCategory: "Niets in deze categorie",
+  compareFailed: "Vergelijking maken mislukt",
+  compareCatMusic: "Muziek",
+  compareCatTv: "TV & film",
+  compareCatTechnology: "Technologie",
+  compareCatPolitics: "Politiek & wereld",
+  compareYearsTile: "Jouw jaar vs. dat van een vriend",
+  compareYearsTileSubtitle: "Twee jaren naast elkaar",
+  renderDownloadButton: "Download",
+  renderDownloadTitle: "Download als videobestand",
+  renderFormatLabel: "Formaat",
+  renderResolutionLabel: "Resolutie",
+  renderStart: "Video maken",
+  renderSavingStory: "Verhaal opslaan...",
+  renderQueued: "In de wachtrij...",
+  renderProgress: "Video wordt gemaakt... {pct}%",
+  renderDownload: "Download {format}",
+  renderFailed: "Video maken mislukt",
+  captionsToggle: "Ondertiteling",
+  captionsDownload: "Ondertitels:",
+
+  interestsLabel: "Interesses",
+  interestsPlaceholder: "Bijv. sport, muziek, computers, politiek",
+
+  focusLabel: "Geografische focus",
+  focusNetherlands: "Nederland",
+  focusEurope: "Europa",
+  focusWorld: "Wereld",
+
+  // Buttons
+  nextButton: "Volgende",
+  backButton: "Terug",
+  skipButton: "Overslaan",
+  generateButton: "Maak Mijn Tijdreis",
+  confirmButton: "Bevestigen",
+  cancelButton: "Annuleren",
+  refreshButton: "Opnieuw",
+
+  // Custom dialog
+  customDialogTitle: "Personaliseer je tijdreis",
+  customDialogDescription: "Pas de jaren aan of voeg extra informatie toe",
+  adjustButton: "Aanpassen",
+  subcultureLabel: "Subcultuur",
+  subcultureNoPreference: "Geen voorkeur",
+  subcultureBrands: "Merken",
+  subcultureMusic: "Muziek",
+  subcultureClothing: "Kleding",
+  discoverMore: "Ontdek meer",
+  discoverMusicTitle: "Mijn Leven in Muziek",
+  discoverMusicDesc: "Ontdek de #1 hits uit jouw jaren",
+  discoverTvFilmTitle: "Mijn Leven in TV & Film",
+  discoverTvFilmDesc: "Iconische films en series uit jouw tijd",
+  discoverPolaroidTitle: "Mijn Leven in Polaroids",
+  discoverPolaroidDesc: "Jouw verhaal als polaroid collage",
+  discoverStoryTitle: "Mijn Tijdlijn Verhaal",
+  discoverStoryDesc: "Het volledige verhaal van jouw leven",
+  badgeFree: "Gratis",
+  badgePremium: "Premium",
+  customFromYear: "Van jaar",
+  customToYear: "Tot jaar",
+  customFromPlaceholder: "bijv. 1985",
+  customToPlaceholder: "bijv. 1995",
+
+  // Result page
+  backToInput: "Terug naar invoer",
+  yourTimeJourney: "Jouw Tijdreis",
+  magazinePdf: "Magazine PDF",
+  polaroidPdf: "Polaroid PDF",
+  alsoborn: "Ook jarig:",
+  moreCount: "meer",
+  loadingImages: "Afbeeldingen laden...",
+  photosCount: "foto's",
+
+  // Loading states
+  loadingTitle: "We reizen terug in de tijd...",
+  loadingSubtitle: "Dit kan even duren",
+  eventsLoaded: "gebeurtenissen geladen...",
+  timelineLoaded: "Tijdlijn geladen!",
+  eventsFound: "gebeurtenissen gevonden",
+
+  // Error states
+  errorTitle: "Er ging iets mis",
+  tryAgain: "Probeer opnieuw",
+  noDataFound: "Geen gegevens gevonden",
+  backToStart: "Terug naar start",
+
+  // PDF
+  pdfDownloaded: "PDF gedownload!",
+  pdfMagazineReady: "Je tijdreis magazine is klaar",
+  polaroidPdfDownloaded: "Polaroid PDF gedownload!",
+  polaroidReady: "Je jaren 80 polaroid editie is klaar",
+  albumDownloaded: "Album gedownload!",
+  albumReady: "Je TimeStory Album is klaar",
+  downloadAlbum: "Download Album (PDF)",
+  pdfError: "Fout bij PDF genereren",
+  pdfTryAgain: "Probeer het opnieuw",
+
+  // TikTok sharing
+  shareToTikTok: "Deel op TikTok",
+  generatingSlides: "Beelden genereren...",
+  shareSuccess: "Gedeeld!",
+  tikTokReady: "Je TikTok slides zijn klaar",
+  shareError: "Delen mislukt",
+  slidesReady: "Slides klaar!",
+  tapToShare: "Tik op de groene knop om te delen",
+  prepareSlides: "Slides voorbereiden",
+  shareNow: "Deel nu",
+
+  // Polaroid collage
+  createCollage: "Maak Collage (6 foto's)",
+  selectPhotos: "Selecteer 6 foto's",
+  selectedCount: "Geselecteerd",
+  maxPhotosReached: "Maximaal 6 foto's",
+  generateCollage: "Download Collage",
+  collageDownloaded: "Collage gedownload!",
+  collageReady: "Je polaroid collage is klaar",
+  collageError: "Fout bij collage genereren",
+  cancelSelection: "Annuleren",
+
+  // Toast messages
+  loadError: "Fout bij laden",
+
+  // Validation
+  required: "Dit veld is verplicht",
+  invalidDate: "Deze datum bestaat niet — controleer dag en maand.",
+  yearRange: "Jaar moet tussen 1900 en huidig jaar liggen",
+  endYearAfterStart: "Eindjaar moet na startjaar liggen",
+  fillBirthDate: "Vul je geboortedatum in",
+  validYearRange: "Voer een geldig geboortejaar in",
+  choosePeriod: "Kies een periode",
+  fillBothYears: "Vul beide jaren in",
+  validYears: "Voer geldige jaren in",
+
+  // Months
+  months: [
+    "Januari", "Februari", "Maart", "April", "Mei", "Juni",
+    "Juli", "Augustus", "September", "Oktober", "November", "December",
+  ] as readonly string[],
+
+  // HomeV3 step labels
+  birthDateStepLabel: "Geboortedatum",
+  periodStepLabel: "Welke periode?",
+  styleStepLabel: "Stijl & Subcultuur",
+  cityQuestion: "Welke plaats was in die tijd het belangrijkste?",
+  pressEnterToContinue: "Druk op Enter om verder te gaan",
+  startTimeJourney: "Start mijn Tijdreis",
+  recentStoriesTitle: "Eerdere verhalen",
+  recentStoriesSearchPlaceholder: "Zoek op naam, plaats, jaar of gebeurtenis…",
+  recentStoriesNoResults: "Geen verhalen gevonden",
+  recentStoriesDelete: "Verhaal verwijderen",
+  recentStoriesEventCount: "{count, plural, one {# gebeurtenis} other {# gebeurtenissen}}",
+  genderLabel: "Geslacht",
+  genderMale: "Man",
+  genderFemale: "Vrouw",
+  genderNone: "Geen voorkeur",
+  genderNeutral: "Neutraal",
+
+  // Period descriptions
+  periodBirthyearLong: "Het jaar waarin jij ter wereld kwam",
+  periodChildhoodLong: "Buitenspelen, eerste vriendjes, basisschool",
+  periodPubertyLong: "Eerste verliefdheid, muziek ontdekken",
+  periodYoungAdultLong: "Uitgaan, studeren, de wereld ontdekken",
+
+  // Soundtrack section
+  yourMusicVideo: "Jouw Muziekvideo",
+  previewVersion: "Preview versie",
+  personalizedVersion: "Gepersonaliseerde versie",
+  shareButton: "Delen",
+  writingLyrics: "Songtekst wordt geschreven...",
+  startingMusic: "Muziek wordt gestart...",
+  composingSoundtrack: "Jouw persoonlijke soundtrack wordt gecomponeerd...",
+  soundtrackStreaming: "Jouw persoonlijke soundtrack speelt af (nog aan het afmaken)...",
+  musicVideoReady: "Je muziekvideo is klaar!",
+  somethingWentWrong: "Er ging iets mis",
+  loading: "Laden...",
+  generationTime: "Dit kan 2-4 minuten duren. Je kunt ondertussen verder scrollen.",
+  retryButton: "Opnieuw",
+  previewPlaying: "Preview: Je nummer speelt af terwijl we de volledige versie afmaken",
+  aiMusicVideo: "AI Muziekvideo",
+  makeMorePersonal: "Maak het nog persoonlijker",
+  upgradeDescription: "Voeg vrienden, school en uitgaansplekken toe voor een unieke songtekst met jouw herinneringen én de nieuwsfeiten uit je tijdlijn.",
+  upgradeToV2: "Upgrade naar V2",
+  viewLyrics: "Bekijk songtekst",
+  hideLyrics: "Verberg songtekst",
+  yourYears: "Jouw jaren",
+  yourStory: "Jouw Verhaal",
+
+  // PersonalizeSoundtrackDialog
+  customizeTitle: "Aanpassen",
+  customizeDescription: "Pas je gegevens aan voor een persoonlijker resultaat met jouw herinneringen én nieuwsfeiten.",
+  currentVersionV1: "Huidige versie (V1):",
+  cityLabelShort: "Woonplaats",
+  genderForVoice: "Geslacht (voor stem)",
+  personalMemories: "✨ Persoonlijke herinneringen voor een unieker lied:",
+  top3Friends: "Top 3 vrienden van toen",
+  friendsPlaceholder: "Namen gescheiden door komma's",
+  highSchool: "Middelbare School",
+  schoolPlaceholder: "Bijv. Christelijk Lyceum",
+  favoriteVenues: "Favoriete uitgaansplekken",
+  venuesPlaceholder: "Bijv. De Melkweg, Paradiso",
+  musicEngine: "Muziek Engine",
+  sunoDescription: "Suno (V4.5) — Hoogste kwaliteit",
+  acestepDescription: "Ace-Step — Sneller, self-hosted",
+  diffrhythmDescription: "DiffRhythm — LRC timestamps, razendsnel",
+  diffrhythmNote: "⏱️ DiffRhythm genereert LRC-timestamps zodat muziek synchroon loopt met je tijdlijn-events.",
+  upgradeInfo: "Je nieuwe soundtrack zal niet alleen de sfeer van je tijd vangen, maar ook specifieke nieuwsfeiten uit je tijdlijn en je persoonlijke herinneringen verweven tot een echt uniek lied.",
+  upgradeInfoTitle: "Upgrade naar V2:",
+  generating: "Bezig...",
+  generateV2: "Genereer V2",
+
+  // MusicVideoGenerator
+  personalVideoClip: "Persoonlijke Video Clip",
+  adjustForPersonal: "Pas je gegevens aan voor een persoonlijker resultaat.",
+  generateVideoClip: "Genereer een unieke video clip met muziek.",
+  geographicFocusLabel: "Geografische focus",
+  netherlandsLabel: "Nederland",
+  europeLabel: "Europa",
+  worldLabel: "Wereld",
+  musicStyleInfo: "Subcultuur bepaalt de stijl.",
+  musicStyleLabel: "Muziekstijl:",
+  continueButton: "Doorgaan",
+  tipPersonalDetails: "Vul je details in voor een persoonlijker lied!",
+  tipLabel: "Tip:",
+  writingLyricsStep: "Songtekst schrijven",
+  aiWritingLyrics: "AI schrijft een nostalgisch lied",
+  composingMusic: "Muziek componeren",
+  aiComposingTrack: "Suno AI maakt een unieke track",
+  readyLabel: "Klaar!",
+  listenToHit: "Beluister je persoonlijke hit",
+  browserNoAudio: "Je browser ondersteunt geen audio.",
+  durationLabel: "Duur:",
+  minutesLabel: "minuten",
+  showSunoUrl: "Toon Suno URL",
+  watchVideo: "Bekijk Video",
+  startGeneration: "Start Generatie",
+  personalMemoriesForSong: "Persoonlijke herinneringen voor een unieker lied:",
+  personalVideoClipButton: "🎬 Persoonlijke video clip",
+
+  // OccasionSelector
+  occasionBirthday: "Verjaardag",
+  occasionAnniversary: "Jubileum",
+  occasionFun: "Gewoon voor de lol",
+
+  // Error messages
+  tooManyRequests: "Te veel verzoeken. Probeer het later opnieuw.",
+  creditsExhausted: "Credits op. Voeg credits toe aan je workspace.",
+  generationInterrupted: "Generatie onderbroken",
+  musicGenerationTimeout: "Muziek generatie duurde te lang",
+  connectionLost: "De verbinding is beëindigd voordat er resultaten binnenkwamen. Probeer opnieuw.",
+  defaultSummary: "Een overzicht van belangrijke gebeurtenissen.",
+  loadingTooLong: "Het laden duurde te lang en is gestopt. Probeer opnieuw.",
+  unknownError: "Onbekende fout",
+  fetchingEvents: "Gebeurtenissen ophalen...",
+  scrollToBegin: "Scroll om te beginnen",
+  blacklistTooltip: "Foto blacklisten (globaal) en nieuwe zoeken",
+  blacklistAriaLabel: "Blacklist afbeelding",
+  regenerateEventTooltip: "Geef me iets anders",
+  regenerateEventAriaLabel: "Vervang dit event door een ander event",
+  regenerateEventNoResult: "Geen vervangend event gevonden. Probeer het nog eens.",
+  regenerateEventFailed: "Vervangen mislukt",
+  chooseImageTooltip: "Kies een andere foto",
+  chooseImageTitle: "Kies een foto",
+  useThisImage: "Gebruik deze foto",
+  currentImage: "Huidige foto",
+  imageLicenseUnknown: "Licentie onbekend",
+  imageCredits: "Beeldverantwoording",
+
+  // Timeline editor (/story edit mode)
+  editTimeline: "Tijdlijn bewerken",
+  doneEditing: "Klaar met bewerken",
+  editorTitleLabel: "Titel",
+  editorDescriptionLabel: "Beschrijving",
+  editorDateLabel: "Datum",
+  editorDateHint: "JJJJ, JJJJ-MM of JJJJ-MM-DD",
+  editorCategoryLabel: "Categorie",
+  editorImportanceLabel: "Belang",
+  importanceHigh: "Hoog",
+  importanceMedium: "Gemiddeld",
+  importanceLow: "Laag",
+  editorUploadPhoto: "Eigen foto uploaden",
+  editorMoveUp: "Omhoog",
+  editorMoveDown: "Omlaag",
+  editorDeleteEvent: "Event verwijderen",
+  editorAddPersonalEvent: "Persoonlijk moment toevoegen",
+  editorPhotoFailed: "Foto kon niet worden geladen",
+
+  // Personal photo upload (/story)
+  uploadPhotos: "Eigen foto's toevoegen",
+  uploadPhotosTitle: "Eigen foto's toevoegen",
+  uploadPhotosDescription: "We lezen de opnamedatum uit je foto's en stellen een jaar voor. Je kunt een foto als eigen kaart toevoegen of de afbeelding van een gebeurtenis vervangen.",
+  uploadPhotosChoose: "Foto's kiezen",
+  photoTakenOn: "Gemaakt op {date}",
+  photoNoCaptureDate: "Geen opnamedatum gevonden",
+  photoYearLabel: "Jaar",
+  photoPlacementLabel: "Plaatsing",
+  photoPlacementNewCard: "Als eigen kaart",
+  photoPlacementReplace: "Vervang afbeelding van: {title}",
+  photoCaptionLabel: "Onderschrift",
+  photoRemove: "Foto verwijderen",
+  uploadPhotosConfirm: "Toevoegen aan verhaal",
+  uploadPhotosUploading: "Uploaden...",
+  uploadPhotosFailed: "Uploaden mislukt",
+  uploadPhotosFailedCount: "{count, plural, one {# foto kon niet worden geüpload} other {# foto's konden niet worden geüpload}}",
+  ownPhotoBadge: "Eigen foto",
+  timelineOf: "Tijdlijn van",
+  to: "tot",
+  serverError: "Server fout",
+  pollingFailed: "Statuscontrole mislukt",
+
+  // Auth
+  authWelcome: "Welkom bij Het jaar van",
+  authSubtitle: "Maak een account aan om je content te bewaren",
+  authLogin: "Inloggen",
+  voiceElevenLabsLoginRequired: "Log in om ElevenLabs te gebruiken",
+  voiceElevenLabsLoginRequiredDesc: "ElevenLabs-stemmen zijn beschikbaar voor ingelogde gebruikers.",
+  authSignUp: "Registreren",
+  authLogout: "Uitloggen",
+  authEmail: "E-mailadres",
+  authPassword: "Wachtwoord",
+  authDisplayName: "Naam",
+  authGoogleSignIn: "Doorgaan met Google",
+  authOrEmail: "of met e-mail",
+  authForgotPassword: "Wachtwoord vergeten?",
+  authCheckEmail: "Controleer je e-mail",
+  authVerifyEmailSent: "We hebben je een verificatielink gestuurd.",
+  authResetEmailSent: "We hebben je een link gestuurd om je wachtwoord te resetten.",
+  authEnterEmail: "Vul eerst je e-mailadres in",
+  authError: "Er ging iets mis",
+  authNewPassword: "Nieuw wachtwoord instellen",
+  authUpdatePassword: "Wachtwoord bijwerken",
+  authPasswordUpdated: "Wachtwoord succesvol bijgewerkt",
+  authInvalidResetLink: "Ongeldige of verlopen resetlink",
+  authMyAccount: "Mijn account",
+  accountNoContent: "Nog geen opgeslagen content",
+  accountNoContentDesc: "Je gegenereerde tijdlijnen verschijnen hier",
+  accountSavedStories: "Opgeslagen tijdlijnen",
+  accountViewStory: "Bekijken",
+  accountShareStory: "Delen",
+  accountDeleteStory: "Verwijderen",
+  accountDeleteConfirm: "Weet je zeker dat je deze tijdlijn wilt verwijderen?",
+  accountStoryDeleted: "Tijdlijn verwijderd",
+  accountCreatedAt: "Aangemaakt op",
+  accountBilling: "Betalingen",
+  accountBillingDesc: "Beheer je abonnement en betalingsgegevens",
+  accountManageSubscription: "Abonnement beheren",
+  accountPerMonth: "maand",
+  accountEvents: "momenten",
+  saveEvent: "Gebeurtenis opslaan",
+  eventSaved: "Gebeurtenis opgeslagen",
+  eventAlreadySaved: "Al opgeslagen",
+  accountSavedEvents: "Opgeslagen gebeurtenissen",
+  accountNoSavedEvents: "Nog geen opgeslagen gebeurtenissen",
+  accountNoSavedEventsDesc: "Sla individuele gebeurtenissen op vanuit je tijdlijn",
+  eventDeleted: "Gebeurtenis verwijderd",
+  eventShared: "Gebeurtenis gekopieerd naar klembord",
+
+  // OptionalInfoForm labels
+  friendsLabel: "Top 3 vrienden van toen",
+  friendsInputPlaceholder: "Namen gescheiden door komma's (bijv. Jan, Piet, Klaas)",
+  schoolLabel: "Middelbare School",
+  schoolInputPlaceholder: "Bijv. Christelijk Lyceum Veenendaal",
+  nightlifeLabel: "Favoriete uitgaansplekken",
+  nightlifeInputPlaceholder: "Discotheken/kroegen gescheiden door komma's",
+
+  // PhaseSelector (HomeV2)
+  chooseDestination: "Kies je bestemming",
+  whichVersionToVisit: "Welke versie van jezelf wil je bezoeken?",
+  phaseBirthyearDesc: "Ontdek de wereld waarin je geboren werd",
+  phaseChildhoodTitle: "Kindertijd",
+  phaseChildhoodDesc: "Herbeleef je zorgeloze buitenspeeltijd",
+  phasePubertyDesc: "Terug naar je eerste verliefdheid",
+  phaseYoungAdultTitle: "Jong Volwassen",
+  phaseYoungAdultDesc: "De tijd van vrijheid en avontuur",
+
+  // HomeV2 specific
+  backToBirthDate: "Terug naar geboortedatum",
+  chooseOtherDestination: "Kies andere bestemming",
+  startMyTimeJourney: "Start mijn Tijdreis",
+  goingBackTo: "Je gaat terug naar",
+
+  // Timeline Story button
+  timelineStoryButton: "Timeline Story",
+
+  // ChapterIndicator
+  chapterBirthDate: "Geboortedatum",
+  chapterDestination: "Bestemming",
+  chapterIdentity: "Identiteit",
+
+  // IdentityForm
+  whoIsMainCharacter: "Wie is de hoofdrolspeler?",
+  lastDetailsForJourney: "De laatste details voor jouw persoonlijke tijdreis",
+  friendsCalledYou: "Hoe noemden je vrienden je in die tijd?",
+  namePlaceholder: "Bijv. Johnny, Marieke, DJ Piet...",
+  forStoryStyle: "Voor de juiste verhaalstijl:",
+  genderHe: "Hij",
+  genderShe: "Zij",
+
+  // RetroDateInput
+  whenDidYourStoryBegin: "Wanneer begon jouw verhaal?",
+  fillBirthDateToStart: "Vul je geboortedatum in om de tijdmachine te starten",
+  legendaryDayToStart: "Een legendarische dag om mee te beginnen.",
+  daysOfWeek: ["Zondag", "Maandag", "Dinsdag", "Woensdag", "Donderdag", "Vrijdag", "Zaterdag"] as readonly string[],
+
+  // NostalgicLoading
+  loadingArchives: "Bladeren door de archieven...",
+  loadingDustNewspapers: "Stof van oude kranten blazen...",
+  loadingMemories: "Herinneringen aan het ophalen...",
+  loadingCassette: "De cassetteband terugspoelen...",
+  loadingVHS: "VHS banden doorzoeken...",
+  loadingHitsOf: "De hits van {year} opzoeken...",
+  loadingDialUp: "Inbellen via de modem... beep boop...",
+  loadingWindows: "Windows 95 opstarten...",
+  loadingBackTo: "Terug naar {year}...",
+  loadingSearchArchives: "De archieven van {year} doorzoeken...",
+  loadingCollectMemories: "Herinneringen verzamelen...",
+  loadingPrepareJourney: "Je tijdreis voorbereiden...",
+
+  // TimeTravelCounter
+  timeTravelComplete: "Tijdreis voltooid",
+  timeTravelInProgress: "Tijdreis in uitvoering...",
+
+  // TimelineCarousel scope labels
+  scopeBirthday: "Jarige",
+  scopeOnBirthday: "Op je geboortedag",
+  scopeInBirthMonth: "In je geboortemaand",
+  scopeInBirthYear: "In je geboortejaar",
+
+  // StoryEndCarousel / SharedExperienceCarousel
+  endOfJourney: "Einde van je tijdreis",
+  takeYourStory: "Neem je verhaal mee",
+  swipeToDiscover: "Swipe om alle manieren te ontdekken waarop je jouw verhaal kunt herbeleven en delen",
+  myLifeInMusic: "Mijn Leven in Muziek",
+  allNumberOneHits: "Alle #1 hits",
+  discoverIconicHits: "Ontdek alle iconische #1 hits uit jouw tijdlijn, sla je favorieten op en deel je playlist.",
+  discoverHits: "Ontdek hits",
+  myLifeInTvFilm: "Mijn Leven in TV & Film",
+  seriesAndFilms: "Series & films",
+  reliveIconicTv: "Herleef de iconische TV-series en blockbusters uit jouw leven met trailers op YouTube.",
+  discoverTitles: "Ontdek titels",
+  fullyPersonalized: "Volledig Gepersonaliseerd",
+  fortyEvents: "40 gebeurtenissen • Jouw details",
+  makeStoryUnique: "Maak je verhaal uniek met persoonlijke details, 40 gebeurtenissen en een langere muziekvideo.",
+  personalize: "Personaliseer",
+  roastMyLife: "Roast Mijn Leven",
+  aiHumorShareable: "AI-humor • Deelbaar",
+  letAiRoast: "Laat AI je leven genadeloos (of mild) roasten op basis van jouw tijdlijn. Van liefdevol tot brutaal.",
+  roastMe: "Roast mij!",
+  spokenStory: "Gesproken Verhaal",
+  spokenStoryReady: "Jouw persoonlijke verhaal is klaar",
+  spokenStoryGenerateAudioFor: "Audio genereren voor {count, plural, one {# gebeurtenis} other {# gebeurtenissen}}{intro}",
+  spokenStoryWithIntro: " + intro",
+  spokenStoryGenerating: "Audio genereren... {pct}%",
+  spokenStoryGenerateButton: "Genereer Audio",
+  spokenStoryGeneratingShort: "Genereren...",
+  spokenStoryError: "Audio generatie mislukt",
+  aiVoiceNarration: "AI-stem • Vertelling",
+  listenToStory: "Luister naar je levensverhaal als gesproken vertelling met beelden en sfeervolle muziek.",
+  
+  myLifeInPolaroids: "Mijn Leven in Polaroids",
+  retroStyle: "Retro stijl",
+  relivePolaroids: "Herleef je mooiste momenten als een verzameling nostalgische polaroid foto's.",
+  viewPolaroids: "Bekijk polaroids",
+  myLifeAsPresentation: "Mijn Leven als Presentatie",
+  pdfAlbum: "PDF • A4 Album",
+  downloadAlbumDesc: "Download een prachtig A4 album van je levensverhaal als PDF, klaar om te printen of te delen.",
+  downloadPdf: "Download PDF",
+
+  // ShareDialog
+  shareTitle: "Mijn TimeStory",
+  shareVideoText: "Bekijk mijn persoonlijke tijdlijn video!",
+  shareWhatsapp: "Bekijk mijn TimeStory: {url}",
+  shareTelegram: "Bekijk mijn TimeStory!",
+  shareTwitter: "Bekijk mijn persoonlijke tijdlijn video!",
+  shareEmailSubject: "Bekijk mijn TimeStory",
+  shareEmailBody: "Ik heb een persoonlijke tijdlijn video gemaakt! Bekijk hem hier: {url}",
+  viewSharedVideo: "Bekijk je gedeelde video",
+
+  // RoastDialog
+  bornIn: "Geboren in",
+  discoverYourJourneyFree: "Ontdek jouw tijdreis • Gratis",
+  roastShareText: "🔥 Roast mijn leven ({intensity}) - Ontdek jouw tijdreis op {url}",
+  savedToast: "Opgeslagen!",
+  roastSavedDesc: "De roast is opgeslagen in je account.",
+  errorToast: "Fout",
+  roastSaveError: "Kon de roast niet opslaan.",
+  creatingImage: "Afbeelding maken...",
+  share: "Delen",
+  save: "Opslaan",
+  roastEmailSubject: "🔥 Roast mijn leven",
+  roastEmailBody: "Bekijk mijn roast:\n\n{text}\n\nMaak je eigen tijdreis op {url}",
+
+  // MusicOverviewPage
+  removeFromFavorites: "Verwijder uit favorieten",
+  addToFavorites: "Voeg toe aan favorieten",
+  savedToAccount: "Opgeslagen op je account",
+  saveToAccount: "Opslaan op je account",
+  loadingLocalHits: "Lokale hits laden voor {city}...",
+  tracksLoaded: "{loaded} / {total} nummers geladen...",
+  loadingTvFilms: "TV-series en films laden{city}...",
+  trailersSearched: "{loaded} / {total} trailers gezocht...",
+  yourMusicOverviewTitle: "Jouw Muziek Overzicht",
+  yourTvFilmOverviewTitle: "Jouw TV & Film Overzicht",
+  tracksFoundFavorites: "{count, plural, one {# nummer gevonden} other {# nummers gevonden}} • {fav, plural, one {# favoriet} other {# favorieten}}",
+  titlesFoundFavorites: "{count, plural, one {# titel gevonden} other {# titels gevonden}} • {fav, plural, one {# favoriet} other {# favorieten}}",
+  inclLocalHitsSuffix: " • incl. {country} hits",
+  playlistAllTracks: "Playlist alle {count} nummers",
+  playlistFavoritesCount: "Playlist {count} favorieten",
+  spotifyOpenHint: "Maakt een playlist aan in je eigen Spotify-account. Als dat niet lukt, worden de links naar je klembord gekopieerd.",
+  spotifyPlaylistDescription: "De nummer 1-hits van {start} tot {end}.",
+  spotifyPlaylistTitle: "Spotify-playlist",
+  spotifyPlaylistCreating: "Playlist wordt aangemaakt in je Spotify-account...",
+  spotifyPlaylistCreated: "Je playlist met {count, plural, one {# nummer} other {# nummers}} staat klaar in Spotify.",
+  spotifyPlaylistOpen: "Open in Spotify",
+  spotifyPlaylistFailed: "De playlist kon niet worden aangemaakt. Probeer het opnieuw.",
+  spotifyPlaylistBack: "Terug",
+  playlistExportButton: "Exporteren",
+  playlistExportAll: "Alle {count} nummers",
+  playlistExportFavorites: "{count} favorieten",
+  playlistExportM3u8: "M3U8 (mediaspelers)",
+  playlistExportXspf: "XSPF (VLC)",
+  playlistExportCsv: "CSV (spreadsheet)",
+  playlistExportHtml: "Webpagina met zoeklinks",
+  birthdayNumberOneTitle: "Nummer 1 op je geboortedag",
+  birthdayNumberOneYearTitle: "Nummer 1 in je geboortejaar",
+  birthdayNumberOneIntl: "Internationaal",
+  birthdayNumberOneListen: "Luister op Spotify",
+  birthdayNumberOneBirthdays: "De nummer 1 op je verjaardagen",
+  birthdayNumberOneYears: "De nummer 1 van elk jaar daarna",
+  birthdayNumberOneAge: "{age} jaar",
+  trailersAllPlay: "{count, plural, one {# trailer afspelen} other {Alle # trailers afspelen}}",
+  trailersFavoritesPlay: "{count, plural, one {# favoriet afspelen} other {# favorieten afspelen}}",
+  myFavoritesPlaylistLabel: "Mijn Favorieten",
+  localHitBadge: "Lokaal",
+  noTracksAvailable: "Er zijn geen nummers beschikbaar.",
+  noTrailersAvailable: "Er zijn geen trailers beschikbaar.",
+  linksCopiedTitle: "Links gekopieerd!",
+  spotifyLinksCopiedDesc: "{count, plural, one {# Spotify-link gekopieerd naar je klembord. Plak hem in een Spotify-playlist.} other {# Spotify-links gekopieerd naar je klembord. Plak ze in een Spotify-playlist.}}",
+  youtubeLinksCopiedDesc: "{count, plural, one {# YouTube-link gekopieerd naar je klembord.} other {# YouTube-links gekopieerd naar je klembord.}}",
+  myMusicVideo: "Mijn muziekvideo",
+  justReady: "Net klaar",
+  yourPersonalMusicVideo: "Jouw persoonlijke muziekvideo",
+  alsoForYou: "Ook voor jou",
+  unlock: "Ontgrendel",
+  open: "Open",
+  myTimeline: "Mijn tijdlijn",
+  backToTimeline: "Terug naar je verhaal",
+  scrollDownHint: "scroll naar beneden",
+  savedDescriptionTrack: "{name} staat nu op je accountpagina.",
+  savedDescriptionItem: "{title} staat nu op je accountpagina.",
+  errorLabel: "Fout",
+  spotifyFailedSummary: "{count} van {total} tracks konden niet geladen worden — Spotify is mogelijk tijdelijk niet bereikbaar.",
+  localHitsFetchError: "Kon lokale hits niet laden — probeer het later opnieuw.",
+  youtubeFailedSummary: "{count} van {total} films/series konden niet geladen worden — YouTube is mogelijk tijdelijk niet bereikbaar.",
+  numberOneHitDesc: "#1 hit uit {year}. Album: {album}",
+  myMusicVideoTitle: "Mijn Muziekvideo",
+  eventsAiMusic: "{count, plural, one {# gebeurtenis} other {# gebeurtenissen}} • AI-muziek",
+  preparingMusicVideo: "Je muziekvideo wordt voorbereid...",
+  errorBoundaryTitle: "Er ging iets mis",
+  errorBoundaryBody: "We konden dit deel van de app niet laden.",
+  errorBoundaryRetry: "Probeer opnieuw",
+  errorBoundaryHome: "Naar home",
+
+  // MusicVideoReadyNotifier
+  notifTitlePulse: "🎵 Wordt gemaakt...",
+  notifPersonalMusicVideo: "Persoonlijke muziekvideo",
+  notifProgressAria: "Persoonlijke muziekvideo wordt gemaakt — {pct}%",
+  notifProgressAriaCollapsed: "Persoonlijke muziekvideo wordt gemaakt — {pct}%, klik om te tonen",
+  notifTapToScroll: "Tik om naar je muziekvideo te scrollen",
+  notifTapToGo: "Tik om naar je muziekvideo te gaan",
+  notifCollapse: "Inklappen",
+  notifCollapseAria: "Melding inklappen",
+  notifProgressTitle: "Voortgang muziekvideo",
+  notifMusicVideoFailed: "Muziekvideo mislukt",
+  notifMusicVideoFailedAria: "Muziekvideo mislukt — tik om opnieuw te proberen",
+  notifTapToRetry: "Tik voor opnieuw proberen",
+  notifRetry: "Opnieuw proberen",
+  notifReadyToPlay: "Klaar om af te spelen",
+  notifYourMusicVideoFallback: "Je muziekvideo",
+  notifYourPersonalVideoReady: "Je persoonlijke muziekvideo is klaar.",
+  notifWatchNow: "Bekijk nu",
+  notifLater: "Later",
+  notifClose: "Sluiten",
+  notifOpenMusicVideo: "Open muziekvideo melding",
+
+  // ShareDialog
+  shareYourVideoTitle: "Deel je video",
+  shareGeneratingLink: "Even geduld, we maken je deelbare link...",
+  shareReadyDesc: "Je video is klaar om te delen!",
+  shareSomethingWrong: "Er ging iets mis",
+  shareUploadFailed: "Uploaden mislukt",
+  shareTryAgain: "Probeer opnieuw",
+  shareCopyLinkLabel: "Link kopiëren",
+  shareDeleteEllipsis: "Delen...",
+  shareViaLabel: "Deel via",
+  shareGenericError: "Er ging iets mis",
+
+  // Output formats — TikTok slides
+  tiktokIntroTitle: "Jouw Tijdreis",
+  tiktokOutroTitle: "Maak je eigen tijdreis!",
+  tiktokWatermark: "TimeStory",
+  tiktokUnknownError: "Onbekende fout",
+  tiktokWebShareUnavailable: "Web Share API niet beschikbaar",
+  tiktokCannotShareFiles: "Kan deze bestanden niet delen",
+
+  // Output formats — Remotion intro card
+  introReadyTitle: "🎬 Je persoonlijke muziekvideo is klaar",
+  introReadyHint: "Druk op ▶ om af te spelen",
+  introReadyTitleNarrative: "📖 Je persoonlijk verhaal is klaar om te bekijken",
+  introReadyHintNarrative: "Druk op ▶ om af te spelen",
+
+  // Output formats — PDF
+  pdfDefaultFirstName: "Jou",
+  pdfDefaultStoryName: "TimeStory",
+  pdfTitleFallback: "Het Jaar Van {name}",
+  pdfAlbumFooter: "TimeStory Album",
+  pdfAlbumFileSuffix: "Album",
+
+  // PDF categories
+  pdfCatPolitics: "Politiek",
+  pdfCatSports: "Sport",
+  pdfCatEntertainment: "Entertainment",
+  pdfCatScience: "Wetenschap",
+  pdfCatCulture: "Cultuur",
+  pdfCatWorld: "Wereld",
+  pdfCatLocal: "Lokaal",
+  pdfCatPersonal: "Persoonlijk",
+  pdfCatMusic: "Muziek",
+  pdfCatTechnology: "Technologie",
+  pdfCatCelebrity: "Beroemd",
+  pdfCatUnknown: "Onbekend",
+
+  // PDF type labels
+  pdfTypeBirthdate: "Op deze dag",
+  pdfTypeBirthmonth: "Deze maand",
+  pdfTypeBirthyear: "Dit jaar",
+  pdfTypePeriod: "Periode",
+
+  // PDF magazine labels
+  pdfPersonalJourneyFor: "De persoonlijke reis door de tijd voor",
+  pdfYourStory: "Jouw Verhaal",
+  pdfInThisIssue: "In deze uitgave",
+  pdfAlsoBornToday: "Ook Jarig op Deze Dag",
+  pdfThanksFor: "Bedankt voor",
+  pdfThanksShort: "Bedankt!",
+  pdfUnknownName: "Onbekend",
+  pdfMagazineTitle: "TIJDREIS MAGAZINE",
+  pdfRunningHeader: "TIJDREIS • {name}",
+  pdfNumberOneBirthday: "Nr. 1 op je geboortedag",
+  pdfNumberOneBirthYear: "Nr. 1 in je geboortejaar",
+  pdfEventCount: "{count, plural, one {# gebeurtenis} other {# gebeurtenissen}}",
+  pdfSpecialEdition: "{count, plural, one {# gebeurtenis} other {# gebeurtenissen}} • Speciale editie",
+  pdfMoreYears: "{count, plural, one {+ # meer jaar...} other {+ # meer jaren...}}",
+  pdfAlsoBornBadge: "Ook Jarig",
+  pdfForReading: "het lezen!",
+  pdfJourneyMadeFor: "Een tijdreis speciaal voor {name}",
+  pdfClosingStats: "{count, plural, one {# gebeurtenis} other {# gebeurtenissen}} • {years, plural, one {# jaar} other {# jaren}} • {people, plural, one {# beroemdheid} other {# beroemdheden}}",
+  pdfPolaroidClosingStats: "{count, plural, one {# gebeurtenis} other {# gebeurtenissen}} • {people, plural, one {# beroemdheid} other {# beroemdheden}}",
+  pdfGeneratedOn: "Gegenereerd op {date}",
+  pdfFileName: "tijdreis",
+  pdfPolaroidEdition: "TIJDREIS POLAROID EDITIE",
+  pdfPolaroidHeader: "TIJDREIS POLAROID",
+  pdfPolaroidEditionShort: "POLAROID EDITIE",
+  pdfImageCredits: "BEELDVERANTWOORDING",
+
+  // Toast messages — phase 3
+  imageCreationFailed: "Er ging iets mis bij het maken van de afbeelding",
+  copiedTitle: "Gekopieerd!",
+  textCopiedDesc: "Tekst gekopieerd naar klembord.",
+  oopsTitle: "Oeps",
+  roastGenerationFailed: "Kon de roast niet genereren",
+  roastImageFailed: "Kon de afbeelding niet genereren.",
+  downloadedTitle: "Gedownload!",
+  shareImageOnSocial: "Deel de afbeelding op social media!",
+  loginRequiredTitle: "Log in",
+  loginRequiredRoastDesc: "Maak een account aan om je roast op te slaan.",
+  savedTitle: "Opgeslagen!",
+  errorShortLabel: "Fout",
+  roastSaveFailed: "Kon de roast niet opslaan.",
+  trailerNotFoundTitle: "Trailer niet gevonden",
+  trailerNotFoundDesc: "Kon geen trailer vinden voor deze film.",
+  connectionErrorTitle: "Verbindingsfout",
+  connectionErrorDesc: "Kon geen verbinding maken met de server. Probeer het later opnieuw.",
+  pdfGenerationFailed: "PDF generatie mislukt",
+  imageBlacklistedTitle: "Afbeelding geblacklist",
+  imageBlacklistedDesc: "Nieuwe zoekopdracht gestart...",
+  eventsFoundDesc: "{count, plural, one {# gebeurtenis gevonden} other {# gebeurtenissen gevonden}}",
+
+  // Phase 4 — aria labels & misc UI
+  ariaPrev: "Vorige",
+  ariaNext: "Volgende",
+  ariaStopTrailer: "Stop trailer",
+  ariaCloseTrailer: "Trailer sluiten",
+  ariaPlayTrailer: "Trailer afspelen",
+  ariaBlacklistImage: "Blokkeer afbeelding",
+  blacklistImageTitle: "Foto blokkeren (globaal) en nieuwe zoeken",
+  playSongCompact: "Lied",
+  playSongLabel: "Speel lied",
+  searchingPhotoLabel: "Foto zoeken...",
+  scrollToLoadPhoto: "Scroll om foto te laden",
+
+  // Debug dialog
+  debugInfoTitle: "Debug info",
+  debugInfoFilterPlaceholder: "Filter op titel, categorie, type...",
+  debugInfoBlacklistThumb: "Blokkeer deze afbeelding",
+  debugInfoReloadAll: "Herlaad alle afbeeldingen",
+  debugInfoSearchingShort: "Zoeken...",
+  debugInfoLabelImages: "beeld",
+  debugInfoLabelSounds: "geluid",
+  debugInfoNone: "Geen",
+
+  // Prompt viewer copy button
+  promptCopyToClipboard: "Kopieer naar klembord",
+  promptCopiedShort: "Gekopieerd",
+
+  // Story page refresh buttons
+  quickRefreshTitle: "Snel vernieuwen (20 events)",
+  fullRefreshTitle: "Volledig vernieuwen (50 events)",
+
+  // RoastDialog
+  roastTitle: "Roast mijn leven",
+  roastIntensityLabel: "Intensiteit",
+  roastIntensityMild: "Mild",
+  roastIntensitySpicy: "Pittig",
+  roastIntensityMedium: "Gemiddeld",
+  roastIntensitySharp: "Scherp",
+  roastIntensityExtreme: "Extreem",
+  roastWriting: "{level} roast wordt geschreven...",
+  roastShareLabel: "Delen",
+  roastImageMaking: "Afbeelding maken...",
+  roastSaveLabel: "Opslaan",
+  roastImageAlt: "Roast afbeelding",
+  roastShareViaLabel: "Deel via",
+  roastNativeShareLabel: "Delen...",
+  roastCopyText: "Kopieer tekst",
+  roastCopiedShort: "Gekopieerd!",
+  roastDownloadImage: "Download afbeelding",
+  roastShareTextTpl: "🔥 Roast mijn leven ({level}) - Ontdek jouw tijdreis op {url}",
+  roastImageHeading: "ROAST MIJN LEVEN",
+  roastBornInLabel: "Geboren in {year}",
+  roastFooterTagline: "Ontdek jouw tijdreis • Gratis",
+  roastNoneReceived: "Geen roast ontvangen",
+
+  // Subculture editor (admin)
+  subcultureEditorTitle: "Subcultuur-dataset",
+  subcultureEditorSummary: "Versie {version} · {eras, plural, one {# tijdvak} other {# tijdvakken}} · {countries, plural, one {# land} other {# landen}}",
+  subcultureEditorImport: "Importeren",
+  subcultureEditorReset: "Reset",
+  subcultureEditorResetConfirm: "Concept weggooien en terug naar de huidige dataset?",
+  subcultureEditorImportFailed: "Import mislukt: {error}",
+  subcultureEditorImportIssues: "{count, plural, one {# fout} other {# fouten}}, bijv. {path}: {message}",
+  subcultureEditorChecks: "Controle",
+  subcultureEditorErrors: "{count, plural, one {# fout} other {# fouten}}",
+  subcultureEditorWarnings: "{count, plural, one {# waarschuwing} other {# waarschuwingen}}",
+  subcultureEditorEras: "Tijdvakken",
+  subcultureAgeGroupTeen: "Pubers",
+  subcultureAgeGroupYoungAdult: "Jong volwassen",
+  subcultureEditorNoEra: "Geen subculturen voor {period}, {ageGroup}, {country}.",
+  subcultureEditorAddEra: "Tijdvak toevoegen",
+  subcultureEditorName: "Naam",
+  subcultureEditorDescription: "Beschrijving",
+  subcultureEditorOnePerLine: "{label} (één per regel)",
+  subcultureEditorAddSubculture: "Subcultuur toevoegen",
+  subcultureEditorRemoveEra: "Tijdvak verwijderen",
+  subcultureEditorCountries: "Landen en steden",
+  subcultureEditorCode: "Code",
+  subcultureEditorCities: "Steden, één per regel (kleine letters)",
+  subcultureEditorAddCountry: "Land toevoegen",
+
+  // Image search dashboard (admin)
+  imageQualityTitle: "Kwaliteit beeldzoeker",
+  imageQualitySubtitle: "Geanonimiseerde zoeksporen van de afgelopen {days, plural, one {# dag} other {# dagen}}",
+  imageQualityPeriod: "{days, plural, one {# dag} other {# dagen}}",
+  imageQualityRefresh: "Vernieuwen",
+  imageQualityLoadFailed: "Laden mislukt: {error}",
+  imageQualitySearches: "Zoekopdrachten",
+  imageQualityWithImage: "Met beeld",
+  imageQualityAvgTimeToImage: "Gemiddelde tijd tot beeld",
+  imageQualityFound: "Gevonden",
+  imageQualityTimeToImage: "Tijd tot beeld",
+  imageQualityBySource: "Per bron",
+  imageQualitySource: "Bron",
+  imageQualityAsked: "Gevraagd",
+  imageQualityErrors: "Fouten",
+  imageQualityWon: "Gekozen",
+  imageQualityBySubject: "Per onderwerptype",
+  imageQualityType: "Type",
+  imageQualityByLanguage: "Per taal",
+  imageQualityLanguage: "Taal",
+  imageQualityMostBlacklisted: "Meest geblokkeerde bronnen",
+  imageQualityNoneBlacklisted: "Geen afbeeldingen geblokkeerd in deze periode.",
+  imageQualityNeverFound: "Zoekopdrachten zonder beeld",
+  imageQualityAllFound: "Elke zoekopdracht vond minstens één keer een beeld.",
+  imageQualityQuery: "Zoekopdracht",
+  imageQualityTimesSearched: "Keer gezocht",
+  imageQualityLastSearched: "Laatst",
+} as const;
+
+export default nl;
@@ -0,0 +1,803 @@
+import type { Messages } from "../types";
+
+const pl: Messages = {
+  siteTitle: "Rok",
+  heroTitle: "Twoja historia w czasie",
+  heroSubtitle: "Odkryj, co wydarzyło się w dniu twoich narodzin, albo podróżuj przez lata z osobistym przeglądem historycznym.",
+  startButton: "Rozpocznij podróż",
+  choiceTitle: "Co chcesz odkryć?",
+  choiceSubtitle: "Wybierz, jak chcesz podróżować w czasie",
+  option1Title: "Rok, miesiąc i dzień...",
+  option1Description: "Odkryj wszystko o konkretnej dacie urodzenia: co wydarzyło się w tym roku, w tym miesiącu i dokładnie tego dnia?",
+  option2Title: "Podróż w czasie z roku na rok",
+  option2Description: "Stwórz przegląd historyczny całego okresu, idealny na rocznice lub by na nowo przeżyć daną epokę.",
+  birthDateLabel: "Data urodzenia",
+  birthDateQuestion: "Jaka jest twoja data urodzenia?",
+  dayLabel: "Dzień",
+  monthLabel: "Miesiąc",
+  yearLabel: "Rok",
+  startYearLabel: "Rok początkowy",
+  endYearLabel: "Rok końcowy",
+  periodQuestion: "Który okres chcesz przeżyć na nowo?",
+  periodBirthyear: "Rok urodzenia",
+  periodBirthyearDesc: "Rok, w którym się urodziłeś",
+  periodChildhood: "Dzieciństwo",
+  periodChildhoodDesc: "6-12 lat",
+  periodPuberty: "Dojrzewanie",
+  periodPubertyDesc: "12-17 lat",
+  periodYoungAdult: "Młody dorosły",
+  periodYoungAdultDesc: "18-25 lat",
+  periodCustom: "Własny",
+  periodCustomDesc: "Wybierz własny okres",
+  timelineLengthQuestion: "Ile momentów chcesz zobaczyć?",
+  timelineShort: "Krótka",
+  timelineShortDesc: "20 momentów",
+  timelineLong: "Rozszerzona",
+  timelineLongDesc: "50 momentów",
+  createTimelineButton: "Utwórz oś czasu",
+  createPolaroidButton: "Utwórz oś czasu z polaroidów",
+  optionalInfoTitle: "Uczyń ją bardziej osobistą",
+  optionalInfoSubtitle: "Te informacje są opcjonalne, ale pomagają nam stworzyć bogatszą historię",
+  nameLabel: "Imię i nazwisko",
+  firstNameLabel: "Imię",
+  firstNamePlaceholder: "Np. Jan",
+  lastNameLabel: "Nazwisko",
+  lastNamePlaceholder: "Np. Kowalski",
+  cityLabel: "Miasto",
+  cityPlaceholder: "Np. Warszawa",
+  partnerLabel: "Partner",
+  childrenLabel: "Dzieci",
+  child1NameLabel: "Imię dziecka 1",
+  child1BirthLabel: "Data urodzenia dziecka 1",
+  child2NameLabel: "Imię dziecka 2",
+  child2BirthLabel: "Data urodzenia dziecka 2",
+  child3NameLabel: "Imię dziecka 3",
+  child3BirthLabel: "Data urodzenia dziecka 3",
+  partnerNameLabel: "Imię partnera",
+  partnerBirthLabel: "Data urodzenia partnera",
+  siblingsLabel: "Bracia i siostry",
+  siblingNamePlaceholder: "Imię",
+  siblingBirthLabel: "Data urodzenia",
+  addSibling: "Dodaj brata lub siostrę",
+  removeSibling: "Usuń",
+  sharedTimelineLabel: "Wspólne lata",
+  sharedTimelineHint: "Jedna oś czasu dla ciebie i partnera lub rodzeństwa, z wiekiem każdej osoby w każdym momencie.",
+  metYearLabel: "Rok, w którym się poznaliście (opcjonalnie)",
+  sharedYou: "Ty",
+  sharedPersonAge: "{name} · wiek {age}",
+  sharedPersonNotBorn: "{name} · jeszcze nieurodzony/a",
+  sharedYearWeMet: "Rok, w którym się poznaliśmy",
+  compareTitle: "Twój rok kontra mój rok",
+  compareDescription: "Porównaj dwa lata obok siebie: muzykę, TV, technologię i politykę, oraz to, co zmieniło się pomiędzy nimi.",
+  compareNameLabel: "Imię",
+  compareYearLabel: "Rok",
+  compareSideYou: "Ty",
+  compareSideFriend: "Znajomy",
+  compareStart: "Porównaj",
+  compareLoading: "Tworzenie obu lat...",
+  compareWhatChanged: "Co zmieniło się w międzyczasie",
+  compareNothingInCategory: "Nic w tej kategorii",
+  compareFailed: "Nie udało się utworzyć porównania",
+  compareCatMusic: "Muzyka",
+  compareCatTv: "TV i film",
+  compareCatTechnology: "Technologia",
+  compareCatPolitics: "Polityka i świat",
+  compareYearsTile: "Twój rok kontra rok znajomego",
+  compareYearsTileSubtitle: "Dwa lata obok siebie",
+  renderDownloadButton: "Pobierz",
+  renderDownloadTitle: "Pobierz jako plik wideo",
+  renderFormatLabel: "Format",
+  renderResolutionLabel: "Rozdzielczość",
+  renderStart: "Utwórz wideo",
+  renderSavingStory: "Zapisywanie historii...",
+  renderQueued: "Oczekiwanie w kolejce...",
+  renderProgress: "Renderowanie wideo... {pct}%",
+  renderDownload: "Pobierz {format}",
+  renderFailed: "Nie udało się utworzyć wideo",
+  captionsToggle: "Napisy",
+  captionsDownload: "Napisy:",
+  interestsLabel: "Zainteresowania",
+  interestsPlaceholder: "Np. sport, muzyka, komputery, polityka",
+  focusLabel: "Zakres geograficzny",
+  focusNetherlands: "Holandia",
+  focusEurope: "Europa",
+  focusWorld: "Świat",
+  nextButton: "Dalej",
+  backButton: "Wstecz",
+  skipButton: "Pomiń",
+  generateButton: "Stwórz moją podróż w czasie",
+  confirmButton: "Potwierdź",
+  cancelButton: "Anuluj",
+  refreshButton: "Odśwież",
+  customDialogTitle: "Dostosuj swoją podróż w czasie",
+  customDialogDescription: "Zmień lata lub dodaj dodatkowe informacje",
+  adjustButton: "Dostosuj",
+  subcultureLabel: "Subkultura",
+  subcultureNoPreference: "Bez preferencji",
+  subcultureBrands: "Marki",
+  subcultureMusic: "Muzyka",
+  subcultureClothing: "Ubrania",
+  discoverMore: "Odkryj więcej",
+  discoverMusicTitle: "Moje życie w muzyce",
+  discoverMusicDesc: "Odkryj przeboje numer 1 z twoich lat",
+  discoverTvFilmTitle: "Moje życie w TV i filmie",
+  discoverTvFilmDesc: "Kultowe filmy i seriale z twojej epoki",
+  discoverPolaroidTitle: "Moje życie w polaroidach",
+  discoverPolaroidDesc: "Twoja historia jako kolaż polaroidów",
+  discoverStoryTitle: "Moja historia w czasie",
+  discoverStoryDesc: "Pełna historia twojego życia",
+  badgeFree: "Za darmo",
+  badgePremium: "Premium",
+  customFromYear: "Od roku",
+  customToYear: "Do roku",
+  customFromPlaceholder: "np. 1985",
+  customToPlaceholder: "np. 1995",
+  backToInput: "Wróć do danych",
+  yourTimeJourney: "Twoja podróż w czasie",
+  magazinePdf: "Magazyn PDF",
+  polaroidPdf: "Polaroid PDF",
+  alsoborn: "Urodzili się też:",
+  moreCount: "więcej",
+  loadingImages: "Ładowanie zdjęć...",
+  photosCount: "zdjęć",
+  loadingTitle: "Podróż w przeszłość...",
+  loadingSubtitle: "To może chwilę potrwać",
+  eventsLoaded: "wydarzeń wczytanych...",
+  timelineLoaded: "Oś czasu wczytana!",
+  eventsFound: "znalezionych wydarzeń",
+  errorTitle: "Coś poszło nie tak",
+  tryAgain: "Spróbuj ponownie",
+  noDataFound: "Nie znaleziono danych",
+  backToStart: "Wróć na początek",
+  pdfDownloaded: "PDF pobrany!",
+  pdfMagazineReady: "Twój magazyn z podróży w czasie jest gotowy",
+  polaroidPdfDownloaded: "PDF z polaroidami pobrany!",
+  polaroidReady: "Twoja polaroidowa edycja lat 80. jest gotowa",
+  albumDownloaded: "Album pobrany!",
+  albumReady: "Twój album TimeStory jest gotowy",
+  downloadAlbum: "Pobierz album (PDF)",
+  pdfError: "Błąd podczas tworzenia PDF",
+  pdfTryAgain: "Spróbuj ponownie",
+  shareToTikTok: "Udostępnij na TikToku",
+  generatingSlides: "Tworzenie slajdów...",
+  shareSuccess: "Udostępniono!",
+  tikTokReady: "Twoje slajdy na TikToka są gotowe",
+  shareError: "Udostępnianie nie powiodło się",
+  slidesReady: "Slajdy gotowe!",
+  tapToShare: "Dotknij zielonego przycisku, aby udostępnić",
+  prepareSlides: "Przygotuj slajdy",
+  shareNow: "Udostępnij teraz",
+  createCollage: "Utwórz kolaż (6 zdjęć)",
+  selectPhotos: "Wybierz 6 zdjęć",
+  selectedCount: "Wybrano",
+  maxPhotosReached: "Maksymalnie 6 zdjęć",
+  generateCollage: "Pobierz kolaż",
+  collageDownloaded: "Kolaż pobrany!",
+  collageReady: "Twój kolaż z polaroidów jest gotowy",
+  collageError: "Błąd podczas tworzenia kolażu",
+  cancelSelection: "Anuluj",
+  loadError: "Błąd ładowania",
+  required: "To pole jest wymagane",
+  invalidDate: "Ta data nie istnieje — sprawdź dzień i miesiąc.",
+  yearRange: "Rok musi mieścić się między 1900 a bieżącym rokiem",
+  endYearAfterStart: "Rok końcowy musi być późniejszy niż rok początkowy",
+  fillBirthDate: "Podaj swoją datę urodzenia",
+  validYearRange: "Podaj prawidłowy rok urodzenia",
+  choosePeriod: "Wybierz okres",
+  fillBothYears: "Uzupełnij oba lata",
+  validYears: "Podaj prawidłowe lata",
+  months: [
+    "Styczeń", "Luty", "Marzec", "Kwiecień", "Maj", "Czerwiec",
+    "Lipiec", "Sierpień", "Wrzesień", "Październik", "Listopad", "Grudzień",
+  ] as readonly string[],
+  birthDateStepLabel: "Data urodzenia",
+  periodStepLabel: "Który okres?",
+  styleStepLabel: "Styl i subkultura",
+  cityQuestion: "Które miejsce było wtedy najważniejsze?",
+  pressEnterToContinue: "Naciśnij Enter, aby kontynuować",
+  startTimeJourney: "Rozpocznij moją podróż w czasie",
+  recentStoriesTitle: "Poprzednie historie",
+  recentStoriesSearchPlaceholder: "Szukaj po imieniu, miejscu, roku lub wydarzeniu…",
+  recentStoriesNoResults: "Nie znaleziono historii",
+  recentStoriesDelete: "Usuń historię",
+  recentStoriesEventCount: "{count, plural, one {# wydarzenie} few {# wydarzenia} many {# wydarzeń} other {# wydarzenia}}",
+  genderLabel: "Płeć",
+  genderMale: "Mężczyzna",
+  genderFemale: "Kobieta",
+  genderNone: "Bez preferencji",
+  genderNeutral: "Neutralna",
+  periodBirthyearLong: "Rok, w którym przyszedłeś na świat",
+  periodChildhoodLong: "Zabawy na podwórku, pierwsi przyjaciele, szkoła podstawowa",
+  periodPubertyLong: "Pierwsze zauroczenie, odkrywanie muzyki",
+  periodYoungAdultLong: "Wyjścia, studia, odkrywanie świata",
+  yourMusicVideo: "Twój teledysk",
+  previewVersion: "Wersja podglądowa",
+  personalizedVersion: "Wersja spersonalizowana",
+  shareButton: "Udostępnij",
+  writingLyrics: "Pisanie tekstu...",
+  startingMusic: "Uruchamianie muzyki...",
+  composingSoundtrack: "Twoja osobista ścieżka dźwiękowa jest komponowana...",
+  soundtrackStreaming: "Twoja osobista ścieżka dźwiękowa gra (jeszcze się kończy)...",
+  musicVideoReady: "Twój teledysk jest gotowy!",
+  somethingWentWrong: "Coś poszło nie tak",
+  loading: "Ładowanie...",
+  generationTime: "To może potrwać 2-4 minuty. W międzyczasie możesz dalej przewijać.",
+  retryButton: "Ponów",
+  previewPlaying: "Podgląd: twój utwór gra, a my kończymy pełną wersję",
+  aiMusicVideo: "Teledysk AI",
+  makeMorePersonal: "Uczyń go jeszcze bardziej osobistym",
+  upgradeDescription: "Dodaj przyjaciół, szkołę i ulubione miejsca, aby powstał wyjątkowy tekst z twoimi wspomnieniami i wiadomościami z twojej osi czasu.",
+  upgradeToV2: "Przejdź na V2",
+  viewLyrics: "Pokaż tekst",
+  hideLyrics: "Ukryj tekst",
+  yourYears: "Twoje lata",
+  yourStory: "Twoja historia",
+  customizeTitle: "Dostosuj",
+  customizeDescription: "Dostosuj swoje dane, aby uzyskać bardziej osobisty wynik z twoimi wspomnieniami i faktami z wiadomości.",
+  currentVersionV1: "Obecna wersja (V1):",
+  cityLabelShort: "Miasto",
+  genderForVoice: "Płeć (dla głosu)",
+  personalMemories: "✨ Osobiste wspomnienia dla bardziej wyjątkowej piosenki:",
+  top3Friends: "3 najlepszych przyjaciół z tamtych lat",
+  friendsPlaceholder: "Imiona oddzielone przecinkami",
+  highSchool: "Liceum",
+  schoolPlaceholder: "Np. IV LO im. Sienkiewicza",
+  favoriteVenues: "Ulubione miejsca",
+  venuesPlaceholder: "Np. Stodoła, Remont",
+  musicEngine: "Silnik muzyczny",
+  sunoDescription: "Suno (V4.5) — Najwyższa jakość",
+  acestepDescription: "Ace-Step — Szybszy, własny hosting",
+  diffrhythmDescription: "DiffRhythm — znaczniki czasu LRC, bardzo szybki",
+  diffrhythmNote: "⏱️ DiffRhythm tworzy znaczniki czasu LRC, dzięki czemu muzyka jest zsynchronizowana z wydarzeniami na twojej osi czasu.",
+  upgradeInfo: "Twoja nowa ścieżka dźwiękowa nie tylko odda klimat twojej epoki, ale też wplecie konkretne wiadomości z twojej osi czasu i twoje osobiste wspomnienia w naprawdę wyjątkową piosenkę.",
+  upgradeInfoTitle: "Przejdź na V2:",
+  generating: "Pracuję...",
+  generateV2: "Generuj V2",
+  personalVideoClip: "Osobisty teledysk",
+  adjustForPersonal: "Dostosuj swoje dane, aby uzyskać bardziej osobisty wynik.",
+  generateVideoClip: "Wygeneruj wyjątkowy teledysk z muzyką.",
+  geographicFocusLabel: "Zakres geograficzny",
+  netherlandsLabel: "Holandia",
+  europeLabel: "Europa",
+  worldLabel: "Świat",
+  musicStyleInfo: "Subkultura określa styl.",
+  musicStyleLabel: "Styl muzyczny:",
+  continueButton: "Kontynuuj",
+  tipPersonalDetails: "Uzupełnij swoje dane, aby piosenka była bardziej osobista!",
+  tipLabel: "Wskazówka:",
+  writingLyricsStep: "Pisanie tekstu",
+  aiWritingLyrics: "AI pisze nostalgiczną piosenkę",
+  composingMusic: "Komponowanie muzyki",
+  aiComposingTrack: "Suno AI tworzy wyjątkowy utwór",
+  readyLabel: "Gotowe!",
+  listenToHit: "Posłuchaj swojego osobistego przeboju",
+  browserNoAudio: "Twoja przeglądarka nie obsługuje audio.",
+  durationLabel: "Czas trwania:",
+  minutesLabel: "minut",
+  showSunoUrl: "Pokaż adres URL Suno",
+  watchVideo: "Obejrzyj wideo",
+  startGeneration: "Rozpocznij generowanie",
+  personalMemoriesForSong: "Osobiste wspomnienia dla bardziej wyjątkowej piosenki:",
+  personalVideoClipButton: "🎬 Osobisty teledysk",
+  occasionBirthday: "Urodziny",
+  occasionAnniversary: "Rocznica",
+  occasionFun: "Dla zabawy",
+  tooManyRequests: "Zbyt wiele żądań. Spróbuj ponownie później.",
+  creditsExhausted: "Kredyty wyczerpane. Dodaj kredyty do swojego obszaru roboczego.",
+  generationInterrupted: "Generowanie przerwane",
+  musicGenerationTimeout: "Generowanie muzyki trwało zbyt długo",
+  connectionLost: "Połączenie zostało przerwane przed otrzymaniem wyników. Spróbuj ponownie.",
+  defaultSummary: "Przegląd ważnych wydarzeń.",
+  loadingTooLong: "Ładowanie trwało zbyt długo i zostało przerwane. Spróbuj ponownie.",
+  unknownError: "Nieznany błąd",
+  fetchingEvents: "Pobieranie wydarzeń...",
+  scrollToBegin: "Przewiń, aby zacząć",
+  blacklistTooltip: "Zablokuj zdjęcie (globalnie) i wyszukaj nowe",
+  blacklistAriaLabel: "Zablokuj obraz",
+  regenerateEventTooltip: "Daj mi coś innego",
+  regenerateEventAriaLabel: "Zastąp to wydarzenie innym",
+  regenerateEventNoResult: "Nie znaleziono wydarzenia zastępczego. Spróbuj ponownie.",
+  regenerateEventFailed: "Zastąpienie nie powiodło się",
+  chooseImageTooltip: "Wybierz inne zdjęcie",
+  chooseImageTitle: "Wybierz zdjęcie",
+  useThisImage: "Użyj tego zdjęcia",
+  currentImage: "Obecne zdjęcie",
+  imageLicenseUnknown: "Licencja nieznana",
+  imageCredits: "Źródła zdjęć",
+  editTimeline: "Edytuj oś czasu",
+  doneEditing: "Zakończ edycję",
+  editorTitleLabel: "Tytuł",
+  editorDescriptionLabel: "Opis",
+  editorDateLabel: "Data",
+  editorDateHint: "RRRR, RRRR-MM lub RRRR-MM-DD",
+  editorCategoryLabel: "Kategoria",
+  editorImportanceLabel: "Ważność",
+  importanceHigh: "Wysoka",
+  importanceMedium: "Średnia",
+  importanceLow: "Niska",
+  editorUploadPhoto: "Prześlij własne zdjęcie",
+  editorMoveUp: "Przesuń w górę",
+  editorMoveDown: "Przesuń w dół",
+  editorDeleteEvent: "Usuń wydarzenie",
+  editorAddPersonalEvent: "Dodaj osobisty moment",
+  editorPhotoFailed: "Nie udało się wczytać zdjęcia",
+  uploadPhotos: "Dodaj własne zdjęcia",
+  uploadPhotosTitle: "Dodaj własne zdjęcia",
+  uploadPhotosDescription: "Odczytujemy datę wykonania twoich zdjęć i proponujemy rok. Dodaj zdjęcie jako osobną kartę albo zastąp obraz wydarzenia.",
+  uploadPhotosChoose: "Wybierz zdjęcia",
+  photoTakenOn: "Zrobione {date}",
+  photoNoCaptureDate: "Nie znaleziono daty wykonania",
+  photoYearLabel: "Rok",
+  photoPlacementLabel: "Umieszczenie",
+  photoPlacementNewCard: "Jako osobna karta",
+  photoPlacementReplace: "Zastąp obraz: {title}",
+  photoCaptionLabel: "Podpis",
+  photoRemove: "Usuń zdjęcie",
+  uploadPhotosConfirm: "Dodaj do historii",
+  uploadPhotosUploading: "Przesyłanie...",
+  uploadPhotosFailed: "Przesyłanie nie powiodło się",
+  uploadPhotosFailedCount: "{count, plural, one {Nie udało się przesłać # zdjęcia} few {Nie udało się przesłać # zdjęć} many {Nie udało się przesłać # zdjęć} other {Nie udało się przesłać # zdjęcia}}",
+  ownPhotoBadge: "Twoje własne zdjęcie",
+  timelineOf: "Oś czasu:",
+  to: "do",
+  serverError: "Błąd serwera",
+  pollingFailed: "Sprawdzanie statusu nie powiodło się",
+  authWelcome: "Witaj w Twoim Roku",
+  authSubtitle: "Załóż konto, aby zapisywać swoje treści",
+  authLogin: "Zaloguj się",
+  voiceElevenLabsLoginRequired: "Zaloguj się, aby używać ElevenLabs",
+  voiceElevenLabsLoginRequiredDesc: "Głosy ElevenLabs są dostępne dla zalogowanych użytkowników.",
+  authSignUp: "Zarejestruj się",
+  authLogout: "Wyloguj się",
+  authEmail: "Adres e-mail",
+  authPassword: "Hasło",
+  authDisplayName: "Imię",
+  authGoogleSignIn: "Kontynuuj z Google",
+  authOrEmail: "lub przez e-mail",
+  authForgotPassword: "Nie pamiętasz hasła?",
+  authCheckEmail: "Sprawdź swoją skrzynkę",
+  authVerifyEmailSent: "Wysłaliśmy ci link weryfikacyjny.",
+  authResetEmailSent: "Wysłaliśmy ci link do zresetowania hasła.",
+  authEnterEmail: "Najpierw podaj swój adres e-mail",
+  authError: "Coś poszło nie tak",
+  authNewPassword: "Ustaw nowe hasło",
+  authUpdatePassword: "Zaktualizuj hasło",
+  authPasswordUpdated: "Hasło zostało zaktualizowane",
+  authInvalidResetLink: "Nieprawidłowy lub wygasły link resetujący",
+  authMyAccount: "Moje konto",
+  accountNoContent: "Brak zapisanych treści",
+  accountNoContentDesc: "Tutaj pojawią się wygenerowane przez ciebie osie czasu",
+  accountSavedStories: "Zapisane osie czasu",
+  accountViewStory: "Zobacz",
+  accountShareStory: "Udostępnij",
+  accountDeleteStory: "Usuń",
+  accountDeleteConfirm: "Czy na pewno chcesz usunąć tę oś czasu?",
+  accountStoryDeleted: "Oś czasu usunięta",
+  accountCreatedAt: "Utworzono",
+  accountBilling: "Płatności",
+  accountBillingDesc: "Zarządzaj subskrypcją i danymi płatności",
+  accountManageSubscription: "Zarządzaj subskrypcją",
+  accountPerMonth: "mies.",
+  accountEvents: "wydarzeń",
+  saveEvent: "Zapisz wydarzenie",
+  eventSaved: "Wydarzenie zapisane",
+  eventAlreadySaved: "Już zapisane",
+  accountSavedEvents: "Zapisane wydarzenia",
+  accountNoSavedEvents: "Brak zapisanych wydarzeń",
+  accountNoSavedEventsDesc: "Zapisuj pojedyncze wydarzenia ze swojej osi czasu",
+  eventDeleted: "Wydarzenie usunięte",
+  eventShared: "Wydarzenie skopiowane do schowka",
+
+  // OptionalInfoForm labels
+  friendsLabel: "3 najlepszych przyjaciół z tamtych lat",
+  friendsInputPlaceholder: "Imiona oddzielone przecinkami (np. Jan, Piotr, Ania)",
+  schoolLabel: "Liceum",
+  schoolInputPlaceholder: "Np. XIV LO im. Staszica",
+  nightlifeLabel: "Ulubione miejsca",
+  nightlifeInputPlaceholder: "Kluby/bary oddzielone przecinkami",
+
+  // PhaseSelector (HomeV2)
+  chooseDestination: "Wybierz cel podróży",
+  whichVersionToVisit: "Którą wersję siebie chcesz odwiedzić?",
+  phaseBirthyearDesc: "Odkryj świat, w którym się urodziłeś",
+  phaseChildhoodTitle: "Dzieciństwo",
+  phaseChildhoodDesc: "Przeżyj na nowo beztroskie dni zabawy",
+  phasePubertyDesc: "Powrót do pierwszego zauroczenia",
+  phaseYoungAdultTitle: "Młody dorosły",
+  phaseYoungAdultDesc: "Czas wolności i przygody",
+
+  // HomeV2 specific
+  backToBirthDate: "Wróć do daty urodzenia",
+  chooseOtherDestination: "Wybierz inny cel",
+  startMyTimeJourney: "Rozpocznij moją podróż w czasie",
+  goingBackTo: "Wracasz do",
+
+  // Timeline Story button
+  timelineStoryButton: "Historia w czasie",
+
+  // ChapterIndicator
+  chapterBirthDate: "Data urodzenia",
+  chapterDestination: "Cel",
+  chapterIdentity: "Tożsamość",
+
+  // IdentityForm
+  whoIsMainCharacter: "Kto jest głównym bohaterem?",
+  lastDetailsForJourney: "Ostatnie szczegóły twojej osobistej podróży w czasie",
+  friendsCalledYou: "Jak wtedy nazywali cię przyjaciele?",
+  namePlaceholder: "Np. Jasiek, Marysia, DJ Piotrek...",
+  forStoryStyle: "Dla odpowiedniego stylu historii:",
+  genderHe: "On",
+  genderShe: "Ona",
+
+  // RetroDateInput
+  whenDidYourStoryBegin: "Kiedy zaczęła się twoja historia?",
+  fillBirthDateToStart: "Podaj datę urodzenia, aby uruchomić wehikuł czasu",
+  legendaryDayToStart: "Legendarny dzień na początek.",
+  daysOfWeek: ["Niedziela", "Poniedziałek", "Wtorek", "Środa", "Czwartek", "Piątek", "Sobota"],
+
+  // NostalgicLoading
+  loadingArchives: "Przeglądanie archiwów...",
+  loadingDustNewspapers: "Odkurzanie starych gazet...",
+  loadingMemories: "Przywoływanie wspomnień...",
+  loadingCassette: "Przewijanie kasety...",
+  loadingVHS: "Przeszukiwanie kaset VHS...",
+  loadingHitsOf: "Szukanie przebojów z {year}...",
+  loadingDialUp: "Łączenie przez modem... piii buuu...",
+  loadingWindows: "Uruchamianie Windows 95...",
+  loadingBackTo: "Powrót do {year}...",
+  loadingSearchArchives: "Przeszukiwanie archiwów z {year}...",
+  loadingCollectMemories: "Zbieranie wspomnień...",
+  loadingPrepareJourney: "Przygotowywanie twojej podróży w czasie...",
+
+  // TimeTravelCounter
+  timeTravelComplete: "Podróż w czasie zakończona",
+  timeTravelInProgress: "Podróż w czasie w toku...",
+
+  // TimelineCarousel scope labels
+  scopeBirthday: "Urodziny",
+  scopeOnBirthday: "W dniu twoich urodzin",
+  scopeInBirthMonth: "W miesiącu twoich urodzin",
+  scopeInBirthYear: "W roku twoich urodzin",
+
+  // StoryEndCarousel / SharedExperienceCarousel
+  endOfJourney: "Koniec twojej podróży w czasie",
+  takeYourStory: "Zabierz swoją historię ze sobą",
+  swipeToDiscover: "Przesuń, aby odkryć wszystkie sposoby na przeżycie i udostępnienie swojej historii",
+  myLifeInMusic: "Moje życie w muzyce",
+  allNumberOneHits: "Wszystkie przeboje nr 1",
+  discoverIconicHits: "Odkryj wszystkie kultowe przeboje numer 1 ze swojej osi czasu, zapisz ulubione i udostępnij swoją playlistę.",
+  discoverHits: "Odkryj przeboje",
+  myLifeInTvFilm: "Moje życie w TV i filmie",
+  seriesAndFilms: "Seriale i filmy",
+  reliveIconicTv: "Przeżyj na nowo kultowe seriale i kinowe przeboje swojego życia dzięki zwiastunom na YouTube.",
+  discoverTitles: "Odkryj tytuły",
+  fullyPersonalized: "W pełni spersonalizowane",
+  fortyEvents: "40 wydarzeń • Twoje dane",
+  makeStoryUnique: "Uczyń swoją historię wyjątkową dzięki osobistym danym, 40 wydarzeniom i dłuższemu teledyskowi.",
+  personalize: "Personalizuj",
+  roastMyLife: "Obśmiej moje życie",
+  aiHumorShareable: "Humor AI • Do udostępnienia",
+  letAiRoast: "Pozwól AI bezlitośnie (lub łagodnie) obśmiać twoje życie na podstawie twojej osi czasu. Od czułego do brutalnego.",
+  roastMe: "Obśmiej mnie!",
+  spokenStory: "Historia czytana",
+  spokenStoryReady: "Twoja osobista historia jest gotowa",
+  spokenStoryGenerateAudioFor: "Wygeneruj audio dla wydarzeń: {count}{intro}",
+  spokenStoryWithIntro: " + wstęp",
+  spokenStoryGenerating: "Generowanie audio... {pct}%",
+  spokenStoryGenerateButton: "Generuj audio",
+  spokenStoryGeneratingShort: "Generowanie...",
+  spokenStoryError: "Generowanie audio nie powiodło się",
+  aiVoiceNarration: "Głos AI • Narracja",
+  listenToStory: "Posłuchaj historii swojego życia czytanej przez lektora, z obrazami i nastrojową muzyką.",
+  myLifeInPolaroids: "Moje życie w polaroidach",
+  retroStyle: "Styl retro",
+  relivePolaroids: "Przeżyj na nowo swoje najpiękniejsze chwile jako kolekcję nostalgicznych zdjęć z polaroidu.",
+  viewPolaroids: "Zobacz polaroidy",
+  myLifeAsPresentation: "Moje życie jako prezentacja",
+  pdfAlbum: "PDF • Album A4",
+  downloadAlbumDesc: "Pobierz piękny album A4 z historią swojego życia w PDF, gotowy do druku lub udostępnienia.",
+  downloadPdf: "Pobierz PDF",
+
+  // ShareDialog
+  shareTitle: "Moja TimeStory",
+  shareVideoText: "Zobacz mój osobisty film o moim życiu w czasie!",
+  shareWhatsapp: "Zobacz moją TimeStory: {url}",
+  shareTelegram: "Zobacz moją TimeStory!",
+  shareTwitter: "Zobacz mój osobisty film o moim życiu w czasie!",
+  shareEmailSubject: "Zobacz moją TimeStory",
+  shareEmailBody: "Zrobiłem osobisty film o moim życiu w czasie! Zobacz tutaj: {url}",
+  viewSharedVideo: "Zobacz udostępniony film",
+
+  // RoastDialog
+  bornIn: "Urodzony/a w",
+  discoverYourJourneyFree: "Odkryj swoją podróż w czasie • Za darmo",
+  roastShareText: "🔥 Obśmiej moje życie ({intensity}) - Odkryj swoją podróż w czasie na {url}",
+  savedToast: "Zapisano!",
+  roastSavedDesc: "Żart został zapisany na twoim koncie.",
+  errorToast: "Błąd",
+  roastSaveError: "Nie udało się zapisać żartu.",
+  creatingImage: "Tworzenie obrazu...",
+  share: "Udostępnij",
+  save: "Zapisz",
+  roastEmailSubject: "🔥 Obśmiej moje życie",
+  roastEmailBody: "Zobacz mój żart:\n\n{text}\n\nStwórz własną podróż w czasie na {url}",
+
+  // MusicOverviewPage
+  removeFromFavorites: "Usuń z ulubionych",
+  addToFavorites: "Dodaj do ulubionych",
+  savedToAccount: "Zapisano na twoim koncie",
+  saveToAccount: "Zapisz na swoim koncie",
+  loadingLocalHits: "Ładowanie lokalnych przebojów dla: {city}...",
+  tracksLoaded: "Wczytano {loaded} / {total} utworów...",
+  loadingTvFilms: "Ładowanie seriali i filmów{city}...",
+  trailersSearched: "Wyszukano {loaded} / {total} zwiastunów...",
+  yourMusicOverviewTitle: "Twój przegląd muzyczny",
+  yourTvFilmOverviewTitle: "Twój przegląd TV i filmów",
+  tracksFoundFavorites: "Znalezione utwory: {count} • ulubione: {fav}",
+  titlesFoundFavorites: "Znalezione tytuły: {count} • ulubione: {fav}",
+  inclLocalHitsSuffix: " • w tym przeboje z kraju: {country}",
+  playlistAllTracks: "Playlista ze wszystkimi utworami ({count})",
+  playlistFavoritesCount: "Playlista z ulubionymi ({count})",
+  spotifyOpenHint: "Tworzy playlistę na twoim własnym koncie Spotify. Jeśli to się nie uda, linki zostaną skopiowane do schowka.",
+  spotifyPlaylistDescription: "Przeboje numer 1 z lat {start}–{end}.",
+  spotifyPlaylistTitle: "Playlista Spotify",
+  spotifyPlaylistCreating: "Tworzenie playlisty na twoim koncie Spotify...",
+  spotifyPlaylistCreated: "Twoja playlista z {count, plural, one {# utworem} other {# utworami}} jest gotowa w Spotify.",
+  spotifyPlaylistOpen: "Otwórz w Spotify",
+  spotifyPlaylistFailed: "Nie udało się utworzyć playlisty. Spróbuj ponownie.",
+  spotifyPlaylistBack: "Wstecz",
+  playlistExportButton: "Eksportuj",
+  playlistExportAll: "Wszystkie utwory ({count})",
+  playlistExportFavorites: "Ulubione ({count})",
+  playlistExportM3u8: "M3U8 (odtwarzacze)",
+  playlistExportXspf: "XSPF (VLC)",
+  playlistExportCsv: "CSV (arkusz kalkulacyjny)",
+  playlistExportHtml: "Strona internetowa z linkami wyszukiwania",
+  birthdayNumberOneTitle: "Numer 1 w dniu twoich urodzin",
+  birthdayNumberOneYearTitle: "Numer 1 w roku twoich urodzin",
+  birthdayNumberOneIntl: "Międzynarodowy",
+  birthdayNumberOneListen: "Słuchaj w Spotify",
+  birthdayNumberOneBirthdays: "Numer 1 w twoje urodziny",
+  birthdayNumberOneYears: "Numer 1 każdego kolejnego roku",
+  birthdayNumberOneAge: "wiek {age}",
+  trailersAllPlay: "{count, plural, one {Odtwórz # zwiastun} few {Odtwórz wszystkie # zwiastuny} many {Odtwórz wszystkie # zwiastunów} other {Odtwórz wszystkie # zwiastuna}}",
+  trailersFavoritesPlay: "Odtwórz ulubione ({count})",
+  myFavoritesPlaylistLabel: "Moje ulubione",
+  localHitBadge: "Lokalny",
+  noTracksAvailable: "Brak dostępnych utworów.",
+  noTrailersAvailable: "Brak dostępnych zwiastunów.",
+  linksCopiedTitle: "Linki skopiowane!",
+  spotifyLinksCopiedDesc: "Skopiowano do schowka linki Spotify: {count}. Wklej je do playlisty w Spotify.",
+  youtubeLinksCopiedDesc: "Skopiowano do schowka linki YouTube: {count}.",
+  myMusicVideo: "Mój teledysk",
+  justReady: "Właśnie gotowy",
+  yourPersonalMusicVideo: "Twój osobisty teledysk",
+  alsoForYou: "Również dla ciebie",
+  unlock: "Odblokuj",
+  open: "Otwórz",
+  myTimeline: "Moja oś czasu",
+  backToTimeline: "Wróć do swojej historii",
+  scrollDownHint: "przewiń w dół",
+  savedDescriptionTrack: "{name} jest teraz na stronie twojego konta.",
+  savedDescriptionItem: "{title} jest teraz na stronie twojego konta.",
+  errorLabel: "Błąd",
+  spotifyFailedSummary: "Nie udało się wczytać {count} z {total} utworów — Spotify może być chwilowo niedostępne.",
+  localHitsFetchError: "Nie udało się wczytać lokalnych przebojów — spróbuj ponownie później.",
+  youtubeFailedSummary: "Nie udało się wczytać {count} z {total} filmów/seriali — YouTube może być chwilowo niedostępny.",
+  numberOneHitDesc: "Przebój nr 1 z {year}. Album: {album}",
+  myMusicVideoTitle: "Mój teledysk",
+  eventsAiMusic: "{count, plural, one {# wydarzenie} few {# wydarzenia} many {# wydarzeń} other {# wydarzenia}} • Muzyka AI",
+  preparingMusicVideo: "Twój teledysk jest przygotowywany...",
+  errorBoundaryTitle: "Coś poszło nie tak",
+  errorBoundaryBody: "Nie udało się wczytać tej części aplikacji.",
+  errorBoundaryRetry: "Spróbuj ponownie",
+  errorBoundaryHome: "Strona główna",
+  notifTitlePulse: "🎵 Tworzenie...",
+  notifPersonalMusicVideo: "Osobisty teledysk",
+  notifProgressAria: "Tworzenie osobistego teledysku — {pct}%",
+  notifProgressAriaCollapsed: "Tworzenie osobistego teledysku — {pct}%, kliknij, aby pokazać",
+  notifTapToScroll: "Dotknij, aby przewinąć do teledysku",
+  notifTapToGo: "Dotknij, aby przejść do teledysku",
+  notifCollapse: "Zwiń",
+  notifCollapseAria: "Zwiń powiadomienie",
+  notifProgressTitle: "Postęp teledysku",
+  notifMusicVideoFailed: "Teledysk nie powiódł się",
+  notifMusicVideoFailedAria: "Teledysk nie powiódł się — dotknij, aby ponowić",
+  notifTapToRetry: "Dotknij, aby ponowić",
+  notifRetry: "Spróbuj ponownie",
+  notifReadyToPlay: "Gotowy do odtworzenia",
+  notifYourMusicVideoFallback: "Twój teledysk",
+  notifYourPersonalVideoReady: "Twój osobisty teledysk jest gotowy.",
+  notifWatchNow: "Obejrzyj teraz",
+  notifLater: "Później",
+  notifClose: "Zamknij",
+  notifOpenMusicVideo: "Otwórz powiadomienie o teledysku",
+  shareYourVideoTitle: "Udostępnij swój film",
+  shareGeneratingLink: "Chwileczkę, tworzymy link do udostępnienia...",
+  shareReadyDesc: "Twój film jest gotowy do udostępnienia!",
+  shareSomethingWrong: "Coś poszło nie tak",
+  shareUploadFailed: "Przesyłanie nie powiodło się",
+  shareTryAgain: "Spróbuj ponownie",
+  shareCopyLinkLabel: "Kopiuj link",
+  shareDeleteEllipsis: "Udostępnij...",
+  shareViaLabel: "Udostępnij przez",
+  shareGenericError: "Coś poszło nie tak",
+  tiktokIntroTitle: "Twoja podróż w czasie",
+  tiktokOutroTitle: "Stwórz własną podróż w czasie!",
+  tiktokWatermark: "TimeStory",
+  tiktokUnknownError: "Nieznany błąd",
+  tiktokWebShareUnavailable: "Web Share API niedostępne",
+  tiktokCannotShareFiles: "Nie można udostępnić tych plików",
+  introReadyTitle: "🎬 Twój osobisty teledysk jest gotowy",
+  introReadyHint: "Naciśnij ▶, aby odtworzyć",
+  introReadyTitleNarrative: "📖 Twoja osobista czytana książka jest gotowa",
+  introReadyHintNarrative: "Naciśnij ▶, aby odtworzyć",
+  pdfDefaultFirstName: "Ty",
+  pdfDefaultStoryName: "TimeStory",
+  pdfTitleFallback: "Rok: {name}",
+  pdfAlbumFooter: "Album TimeStory",
+  pdfAlbumFileSuffix: "Album",
+  pdfCatPolitics: "Polityka",
+  pdfCatSports: "Sport",
+  pdfCatEntertainment: "Rozrywka",
+  pdfCatScience: "Nauka",
+  pdfCatCulture: "Kultura",
+  pdfCatWorld: "Świat",
+  pdfCatLocal: "Lokalne",
+  pdfCatPersonal: "Osobiste",
+  pdfCatMusic: "Muzyka",
+  pdfCatTechnology: "Technologia",
+  pdfCatCelebrity: "Gwiazdy",
+  pdfCatUnknown: "Nieznane",
+  pdfTypeBirthdate: "Tego dnia",
+  pdfTypeBirthmonth: "W tym miesiącu",
+  pdfTypeBirthyear: "W tym roku",
+  pdfTypePeriod: "Okres",
+  pdfPersonalJourneyFor: "Osobista podróż w czasie:",
+  pdfYourStory: "Twoja historia",
+  pdfInThisIssue: "W tym numerze",
+  pdfAlsoBornToday: "Tego dnia urodzili się też",
+  pdfThanksFor: "Dziękujemy,",
+  pdfThanksShort: "Dziękujemy!",
+  pdfUnknownName: "Nieznany",
+  pdfMagazineTitle: "MAGAZYN PODRÓŻ W CZASIE",
+  pdfRunningHeader: "PODRÓŻ W CZASIE • {name}",
+  pdfNumberOneBirthday: "Nr 1 w dniu twoich urodzin",
+  pdfNumberOneBirthYear: "Nr 1 w roku twoich urodzin",
+  pdfEventCount: "{count, plural, one {# wydarzenie} few {# wydarzenia} many {# wydarzeń} other {# wydarzenia}}",
+  pdfSpecialEdition: "{count, plural, one {# wydarzenie} few {# wydarzenia} many {# wydarzeń} other {# wydarzenia}} • Wydanie specjalne",
+  pdfMoreYears: "{count, plural, one {+ # kolejny rok...} few {+ # kolejne lata...} many {+ # kolejnych lat...} other {+ # kolejnego roku...}}",
+  pdfAlsoBornBadge: "Urodzeni tego samego dnia",
+  pdfForReading: "że czytasz!",
+  pdfJourneyMadeFor: "Podróż w czasie specjalnie dla: {name}",
+  pdfClosingStats: "{count, plural, one {# wydarzenie} few {# wydarzenia} many {# wydarzeń} other {# wydarzenia}} • {years, plural, one {# rok} few {# lata} many {# lat} other {# roku}} • {people, plural, one {# sławna osoba} few {# sławne osoby} many {# sławnych osób} other {# sławnej osoby}}",
+  pdfPolaroidClosingStats: "{count, plural, one {# wydarzenie} few {# wydarzenia} many {# wydarzeń} other {# wydarzenia}} • {people, plural, one {# sławna osoba} few {# sławne osoby} many {# sławnych osób} other {# sławnej osoby}}",
+  pdfGeneratedOn: "Wygenerowano {date}",
+  pdfFileName: "podroz-w-czasie",
+  pdfPolaroidEdition: "PODRÓŻ W CZASIE EDYCJA POLAROID",
+  pdfPolaroidHeader: "POLAROID PODRÓŻ W CZASIE",
+  pdfPolaroidEditionShort: "EDYCJA POLAROID",
+  pdfImageCredits: "ŹRÓDŁA ZDJĘĆ",
+  imageCreationFailed: "Coś poszło nie tak podczas tworzenia obrazu",
+  copiedTitle: "Skopiowano!",
+  textCopiedDesc: "Tekst skopiowany do schowka.",
+  oopsTitle: "Ups",
+  roastGenerationFailed: "Nie udało się wygenerować żartu",
+  roastImageFailed: "Nie udało się wygenerować obrazu.",
+  downloadedTitle: "Pobrano!",
+  shareImageOnSocial: "Udostępnij obraz w mediach społecznościowych!",
+  loginRequiredTitle: "Zaloguj się",
+  loginRequiredRoastDesc: "Załóż konto, aby zapisać swój żart.",
+  savedTitle: "Zapisano!",
+  errorShortLabel: "Błąd",
+  roastSaveFailed: "Nie udało się zapisać żartu.",
+  trailerNotFoundTitle: "Nie znaleziono zwiastuna",
+  trailerNotFoundDesc: "Nie udało się znaleźć zwiastuna tego filmu.",
+  connectionErrorTitle: "Błąd połączenia",
+  connectionErrorDesc: "Nie udało się połączyć z serwerem. Spróbuj ponownie później.",
+  pdfGenerationFailed: "Tworzenie PDF nie powiodło się",
+  imageBlacklistedTitle: "Obraz zablokowany",
+  imageBlacklistedDesc: "Rozpoczęto nowe wyszukiwanie...",
+  eventsFoundDesc: "Znalezione wydarzenia: {count}",
+  ariaPrev: "Poprzedni",
+  ariaNext: "Następny",
+  ariaStopTrailer: "Zatrzymaj zwiastun",
+  ariaCloseTrailer: "Zamknij zwiastun",
+  ariaPlayTrailer: "Odtwórz zwiastun",
+  ariaBlacklistImage: "Zablokuj obraz",
+  blacklistImageTitle: "Zablokuj zdjęcie (globalnie) i wyszukaj ponownie",
+  playSongCompact: "Utwór",
+  playSongLabel: "Odtwórz utwór",
+  searchingPhotoLabel: "Szukanie zdjęcia...",
+  scrollToLoadPhoto: "Przewiń, aby wczytać zdjęcie",
+  debugInfoTitle: "Informacje diagnostyczne",
+  debugInfoFilterPlaceholder: "Filtruj po tytule, kategorii, typie...",
+  debugInfoBlacklistThumb: "Zablokuj ten obraz",
+  debugInfoReloadAll: "Wczytaj ponownie wszystkie obrazy",
+  debugInfoSearchingShort: "Szukanie...",
+  debugInfoLabelImages: "obraz",
+  debugInfoLabelSounds: "dźwięk",
+  debugInfoNone: "Brak",
+  promptCopyToClipboard: "Kopiuj do schowka",
+  promptCopiedShort: "Skopiowano",
+  quickRefreshTitle: "Szybkie odświeżenie (20 wydarzeń)",
+  fullRefreshTitle: "Pełne odświeżenie (50 wydarzeń)",
+  roastTitle: "Obśmiej moje życie",
+  roastIntensityLabel: "Intensywność",
+  roastIntensityMild: "Łagodny",
+  roastIntensitySpicy: "Pikantny",
+  roastIntensityMedium: "Średni",
+  roastIntensitySharp: "Ostry",
+  roastIntensityExtreme: "Ekstremalny",
+  roastWriting: "Piszę żart ({level})...",
+  roastShareLabel: "Udostępnij",
+  roastImageMaking: "Tworzenie obrazu...",
+  roastSaveLabel: "Zapisz",
+  roastImageAlt: "Obraz z żartem",
+  roastShareViaLabel: "Udostępnij przez",
+  roastNativeShareLabel: "Udostępnij...",
+  roastCopyText: "Kopiuj tekst",
+  roastCopiedShort: "Skopiowano!",
+  roastDownloadImage: "Pobierz obraz",
+  roastShareTextTpl: "🔥 Obśmiej moje życie ({level}) - Odkryj swoją podróż w czasie na {url}",
+  roastImageHeading: "OBŚMIEJ MOJE ŻYCIE",
+  roastBornInLabel: "{gender, select, female {Urodzona w {year}} male {Urodzony w {year}} other {Urodzony/a w {year}}}",
+  roastFooterTagline: "Odkryj swoją podróż w czasie • Za darmo",
+  roastNoneReceived: "Nie otrzymano żartu",
+
+  // Subculture editor (admin)
+  subcultureEditorTitle: "Zbiór danych subkultur",
+  subcultureEditorSummary: "Wersja {version} · {eras, plural, one {# epoka} few {# epoki} many {# epok} other {# epoki}} · {countries, plural, one {# kraj} few {# kraje} many {# krajów} other {# kraju}}",
+  subcultureEditorImport: "Importuj",
+  subcultureEditorReset: "Resetuj",
+  subcultureEditorResetConfirm: "Odrzucić szkic i wrócić do bieżącego zbioru danych?",
+  subcultureEditorImportFailed: "Import nie powiódł się: {error}",
+  subcultureEditorImportIssues: "{count, plural, one {# błąd} few {# błędy} many {# błędów} other {# błędu}}, np. {path}: {message}",
+  subcultureEditorChecks: "Kontrola",
+  subcultureEditorErrors: "{count, plural, one {# błąd} few {# błędy} many {# błędów} other {# błędu}}",
+  subcultureEditorWarnings: "{count, plural, one {# ostrzeżenie} few {# ostrzeżenia} many {# ostrzeżeń} other {# ostrzeżenia}}",
+  subcultureEditorEras: "Epoki",
+  subcultureAgeGroupTeen: "Nastolatki",
+  subcultureAgeGroupYoungAdult: "Młodzi dorośli",
+  subcultureEditorNoEra: "Brak subkultur dla {period}, {ageGroup}, {country}.",
+  subcultureEditorAddEra: "Dodaj epokę",
+  subcultureEditorName: "Nazwa",
+  subcultureEditorDescription: "Opis",
+  subcultureEditorOnePerLine: "{label} (jeden w wierszu)",
+  subcultureEditorAddSubculture: "Dodaj subkulturę",
+  subcultureEditorRemoveEra: "Usuń epokę",
+  subcultureEditorCountries: "Kraje i miasta",
+  subcultureEditorCode: "Kod",
+  subcultureEditorCities: "Miasta, jedno w wierszu (małymi literami)",
+  subcultureEditorAddCountry: "Dodaj kraj",
+
+  // Image search dashboard (admin)
+  imageQualityTitle: "Jakość wyszukiwania obrazów",
+  imageQualitySubtitle: "Zanonimizowane ślady wyszukiwań z {days, plural, one {ostatniego dnia} other {ostatnich # dni}}",
+  imageQualityPeriod: "{days, plural, one {# dzień} other {# dni}}",
+  imageQualityRefresh: "Odśwież",
+  imageQualityLoadFailed: "Nie udało się wczytać: {error}",
+  imageQualitySearches: "Wyszukiwania",
+  imageQualityWithImage: "Z obrazem",
+  imageQualityAvgTimeToImage: "Średni czas do obrazu",
+  imageQualityFound: "Znaleziono",
+  imageQualityTimeToImage: "Czas do obrazu",
+  imageQualityBySource: "Według źródła",
+  imageQualitySource: "Źródło",
+  imageQualityAsked: "Zapytano",
+  imageQualityErrors: "Błędy",
+  imageQualityWon: "Wybrano",
+  imageQualityBySubject: "Według typu tematu",
+  imageQualityType: "Typ",
+  imageQualityByLanguage: "Według języka",
+  imageQualityLanguage: "Język",
+  imageQualityMostBlacklisted: "Najczęściej blokowane źródła",
+  imageQualityNoneBlacklisted: "W tym okresie nie zablokowano żadnych obrazów.",
+  imageQualityNeverFound: "Wyszukiwania bez obrazu",
+  imageQualityAllFound: "Każde wyszukiwanie co najmniej raz znalazło obraz.",
+  imageQualityQuery: "Wyszukiwanie",
+  imageQualityTimesSearched: "Liczba wyszukiwań",
+  imageQualityLastSearched: "Ostatnio",
+};
+
+export default pl;
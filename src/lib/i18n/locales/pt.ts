@@ -0,0 +1,803 @@
+import type { Messages } from "../types";
+
+const pt: Messages = {
+  siteTitle: "O ano de",
+  heroTitle: "A tua história ao longo do tempo",
+  heroSubtitle: "Descobre o que aconteceu no dia em que nasceste ou viaja pelos anos com uma retrospetiva histórica pessoal.",
+  startButton: "Começa a tua viagem",
+  choiceTitle: "O que queres descobrir?",
+  choiceSubtitle: "Escolhe como queres viajar no tempo",
+  option1Title: "O ano, o mês e o dia de...",
+  option1Description: "Descobre tudo sobre uma data de nascimento: o que aconteceu nesse ano, nesse mês e exatamente nesse dia?",
+  option2Title: "Uma viagem no tempo de ano para ano",
+  option2Description: "Cria uma retrospetiva histórica de um período inteiro, perfeita para aniversários ou para reviver uma época.",
+  birthDateLabel: "Data de nascimento",
+  birthDateQuestion: "Qual é a tua data de nascimento?",
+  dayLabel: "Dia",
+  monthLabel: "Mês",
+  yearLabel: "Ano",
+  startYearLabel: "Ano inicial",
+  endYearLabel: "Ano final",
+  periodQuestion: "Que período queres reviver?",
+  periodBirthyear: "Ano de nascimento",
+  periodBirthyearDesc: "O ano em que nasceste",
+  periodChildhood: "Infância",
+  periodChildhoodDesc: "6-12 anos",
+  periodPuberty: "Adolescência",
+  periodPubertyDesc: "12-17 anos",
+  periodYoungAdult: "Jovem adulto",
+  periodYoungAdultDesc: "18-25 anos",
+  periodCustom: "Personalizado",
+  periodCustomDesc: "Escolhe o teu próprio período",
+  timelineLengthQuestion: "Quantos momentos queres ver?",
+  timelineShort: "Curta",
+  timelineShortDesc: "20 momentos",
+  timelineLong: "Alargada",
+  timelineLongDesc: "50 momentos",
+  createTimelineButton: "Criar cronologia",
+  createPolaroidButton: "Criar cronologia em polaroids",
+  optionalInfoTitle: "Torna-a mais pessoal",
+  optionalInfoSubtitle: "Esta informação é opcional, mas ajuda-nos a criar uma história mais rica",
+  nameLabel: "Nome",
+  firstNameLabel: "Nome próprio",
+  firstNamePlaceholder: "Ex. João",
+  lastNameLabel: "Apelido",
+  lastNamePlaceholder: "Ex. Silva",
+  cityLabel: "Cidade",
+  cityPlaceholder: "Ex. Lisboa",
+  partnerLabel: "Companheiro/a",
+  childrenLabel: "Filhos",
+  child1NameLabel: "Nome filho/a 1",
+  child1BirthLabel: "Data de nascimento filho/a 1",
+  child2NameLabel: "Nome filho/a 2",
+  child2BirthLabel: "Data de nascimento filho/a 2",
+  child3NameLabel: "Nome filho/a 3",
+  child3BirthLabel: "Data de nascimento filho/a 3",
+  partnerNameLabel: "Nome do companheiro/a",
+  partnerBirthLabel: "Data de nascimento do companheiro/a",
+  siblingsLabel: "Irmãos e irmãs",
+  siblingNamePlaceholder: "Nome",
+  siblingBirthLabel: "Data de nascimento",
+  addSibling: "Adicionar um irmão ou irmã",
+  removeSibling: "Remover",
+  sharedTimelineLabel: "Anos partilhados",
+  sharedTimelineHint: "Uma cronologia para ti e o teu companheiro/a ou irmãos, com a idade de cada um em cada momento.",
+  metYearLabel: "Ano em que se conheceram (opcional)",
+  sharedYou: "Tu",
+  sharedPersonAge: "{name} · {age} anos",
+  sharedPersonNotBorn: "{name} · ainda não tinha nascido",
+  sharedYearWeMet: "O ano em que nos conhecemos",
+  compareTitle: "O teu ano contra o meu",
+  compareDescription: "Compara dois anos lado a lado: música, TV, tecnologia e política, e o que mudou entretanto.",
+  compareNameLabel: "Nome",
+  compareYearLabel: "Ano",
+  compareSideYou: "Tu",
+  compareSideFriend: "Amigo/a",
+  compareStart: "Comparar",
+  compareLoading: "A criar os dois anos...",
+  compareWhatChanged: "O que mudou entretanto",
+  compareNothingInCategory: "Nada nesta categoria",
+  compareFailed: "Não foi possível criar a comparação",
+  compareCatMusic: "Música",
+  compareCatTv: "TV e cinema",
+  compareCatTechnology: "Tecnologia",
+  compareCatPolitics: "Política e mundo",
+  compareYearsTile: "O teu ano contra o de um amigo",
+  compareYearsTileSubtitle: "Dois anos lado a lado",
+  renderDownloadButton: "Descarregar",
+  renderDownloadTitle: "Descarregar como ficheiro de vídeo",
+  renderFormatLabel: "Formato",
+  renderResolutionLabel: "Resolução",
+  renderStart: "Criar vídeo",
+  renderSavingStory: "A guardar a história...",
+  renderQueued: "À espera na fila...",
+  renderProgress: "A renderizar o vídeo... {pct}%",
+  renderDownload: "Descarregar {format}",
+  renderFailed: "Não foi possível criar o vídeo",
+  captionsToggle: "Legendas",
+  captionsDownload: "Legendas:",
+  interestsLabel: "Interesses",
+  interestsPlaceholder: "Ex. desporto, música, computadores, política",
+  focusLabel: "Foco geográfico",
+  focusNetherlands: "Países Baixos",
+  focusEurope: "Europa",
+  focusWorld: "Mundo",
+  nextButton: "Seguinte",
+  backButton: "Voltar",
+  skipButton: "Saltar",
+  generateButton: "Criar a minha viagem no tempo",
+  confirmButton: "Confirmar",
+  cancelButton: "Cancelar",
+  refreshButton: "Atualizar",
+  customDialogTitle: "Personaliza a tua viagem no tempo",
+  customDialogDescription: "Ajusta os anos ou acrescenta informação extra",
+  adjustButton: "Ajustar",
+  subcultureLabel: "Subcultura",
+  subcultureNoPreference: "Sem preferência",
+  subcultureBrands: "Marcas",
+  subcultureMusic: "Música",
+  subcultureClothing: "Roupa",
+  discoverMore: "Descobre mais",
+  discoverMusicTitle: "A minha vida em música",
+  discoverMusicDesc: "Descobre os números 1 dos teus anos",
+  discoverTvFilmTitle: "A minha vida em TV e cinema",
+  discoverTvFilmDesc: "Filmes e séries icónicos da tua época",
+  discoverPolaroidTitle: "A minha vida em polaroids",
+  discoverPolaroidDesc: "A tua história como colagem de polaroids",
+  discoverStoryTitle: "A minha história no tempo",
+  discoverStoryDesc: "A história completa da tua vida",
+  badgeFree: "Grátis",
+  badgePremium: "Premium",
+  customFromYear: "Do ano",
+  customToYear: "Até ao ano",
+  customFromPlaceholder: "ex. 1985",
+  customToPlaceholder: "ex. 1995",
+  backToInput: "Voltar aos dados",
+  yourTimeJourney: "A tua viagem no tempo",
+  magazinePdf: "Revista PDF",
+  polaroidPdf: "Polaroid PDF",
+  alsoborn: "Também nasceram:",
+  moreCount: "mais",
+  loadingImages: "A carregar imagens...",
+  photosCount: "fotos",
+  loadingTitle: "A viajar no tempo...",
+  loadingSubtitle: "Isto pode demorar um momento",
+  eventsLoaded: "acontecimentos carregados...",
+  timelineLoaded: "Cronologia carregada!",
+  eventsFound: "acontecimentos encontrados",
+  errorTitle: "Algo correu mal",
+  tryAgain: "Tentar novamente",
+  noDataFound: "Nenhum dado encontrado",
+  backToStart: "Voltar ao início",
+  pdfDownloaded: "PDF descarregado!",
+  pdfMagazineReady: "A tua revista da viagem no tempo está pronta",
+  polaroidPdfDownloaded: "PDF de polaroids descarregado!",
+  polaroidReady: "A tua edição polaroid dos anos 80 está pronta",
+  albumDownloaded: "Álbum descarregado!",
+  albumReady: "O teu álbum TimeStory está pronto",
+  downloadAlbum: "Descarregar álbum (PDF)",
+  pdfError: "Erro ao gerar o PDF",
+  pdfTryAgain: "Tenta novamente",
+  shareToTikTok: "Partilhar no TikTok",
+  generatingSlides: "A gerar diapositivos...",
+  shareSuccess: "Partilhado!",
+  tikTokReady: "Os teus diapositivos para o TikTok estão prontos",
+  shareError: "Não foi possível partilhar",
+  slidesReady: "Diapositivos prontos!",
+  tapToShare: "Toca no botão verde para partilhar",
+  prepareSlides: "Preparar diapositivos",
+  shareNow: "Partilhar agora",
+  createCollage: "Criar colagem (6 fotos)",
+  selectPhotos: "Seleciona 6 fotos",
+  selectedCount: "Selecionadas",
+  maxPhotosReached: "Máximo de 6 fotos",
+  generateCollage: "Descarregar colagem",
+  collageDownloaded: "Colagem descarregada!",
+  collageReady: "A tua colagem de polaroids está pronta",
+  collageError: "Erro ao gerar a colagem",
+  cancelSelection: "Cancelar",
+  loadError: "Erro ao carregar",
+  required: "Este campo é obrigatório",
+  invalidDate: "Esta data não existe: verifica o dia e o mês.",
+  yearRange: "O ano tem de estar entre 1900 e o ano atual",
+  endYearAfterStart: "O ano final tem de ser posterior ao ano inicial",
+  fillBirthDate: "Preenche a tua data de nascimento",
+  validYearRange: "Introduz um ano de nascimento válido",
+  choosePeriod: "Escolhe um período",
+  fillBothYears: "Preenche os dois anos",
+  validYears: "Introduz anos válidos",
+  months: [
+    "Janeiro", "Fevereiro", "Março", "Abril", "Maio", "Junho",
+    "Julho", "Agosto", "Setembro", "Outubro", "Novembro", "Dezembro",
+  ] as readonly string[],
+  birthDateStepLabel: "Data de nascimento",
+  periodStepLabel: "Que período?",
+  styleStepLabel: "Estilo e subcultura",
+  cityQuestion: "Que lugar foi o mais importante nessa altura?",
+  pressEnterToContinue: "Carrega em Enter para continuar",
+  startTimeJourney: "Começar a minha viagem no tempo",
+  recentStoriesTitle: "Histórias anteriores",
+  recentStoriesSearchPlaceholder: "Pesquisa por nome, lugar, ano ou acontecimento…",
+  recentStoriesNoResults: "Nenhuma história encontrada",
+  recentStoriesDelete: "Eliminar história",
+  recentStoriesEventCount: "{count, plural, one {# acontecimento} other {# acontecimentos}}",
+  genderLabel: "Género",
+  genderMale: "Homem",
+  genderFemale: "Mulher",
+  genderNone: "Sem preferência",
+  genderNeutral: "Neutro",
+  periodBirthyearLong: "O ano em que vieste ao mundo",
+  periodChildhoodLong: "Brincar na rua, os primeiros amigos, a escola primária",
+  periodPubertyLong: "A primeira paixoneta, descobrir a música",
+  periodYoungAdultLong: "Sair à noite, estudar, descobrir o mundo",
+  yourMusicVideo: "O teu videoclipe",
+  previewVersion: "Versão de pré-visualização",
+  personalizedVersion: "Versão personalizada",
+  shareButton: "Partilhar",
+  writingLyrics: "A escrever a letra...",
+  startingMusic: "A iniciar a música...",
+  composingSoundtrack: "A tua banda sonora pessoal está a ser composta...",
+  soundtrackStreaming: "A tua banda sonora pessoal está a tocar (ainda a terminar)...",
+  musicVideoReady: "O teu videoclipe está pronto!",
+  somethingWentWrong: "Algo correu mal",
+  loading: "A carregar...",
+  generationTime: "Isto pode demorar 2-4 minutos. Entretanto podes continuar a percorrer.",
+  retryButton: "Tentar de novo",
+  previewPlaying: "Pré-visualização: a tua faixa está a tocar enquanto terminamos a versão completa",
+  aiMusicVideo: "Videoclipe com IA",
+  makeMorePersonal: "Torna-o ainda mais pessoal",
+  upgradeDescription: "Acrescenta amigos, escola e locais para uma letra única com as tuas memórias e as notícias da tua cronologia.",
+  upgradeToV2: "Atualizar para V2",
+  viewLyrics: "Ver letra",
+  hideLyrics: "Ocultar letra",
+  yourYears: "Os teus anos",
+  yourStory: "A tua história",
+  customizeTitle: "Personalizar",
+  customizeDescription: "Ajusta os teus dados para um resultado mais pessoal com as tuas memórias e notícias.",
+  currentVersionV1: "Versão atual (V1):",
+  cityLabelShort: "Cidade",
+  genderForVoice: "Género (para a voz)",
+  personalMemories: "✨ Memórias pessoais para uma canção mais única:",
+  top3Friends: "Os 3 melhores amigos dessa altura",
+  friendsPlaceholder: "Nomes separados por vírgulas",
+  highSchool: "Escola secundária",
+  schoolPlaceholder: "Ex. Liceu Camões",
+  favoriteVenues: "Locais favoritos",
+  venuesPlaceholder: "Ex. Frágil, Lux",
+  musicEngine: "Motor musical",
+  sunoDescription: "Suno (V4.5) — Máxima qualidade",
+  acestepDescription: "Ace-Step — Mais rápido, alojamento próprio",
+  diffrhythmDescription: "DiffRhythm — Marcas temporais LRC, ultrarrápido",
+  diffrhythmNote: "⏱️ O DiffRhythm gera marcas temporais LRC para que a música acompanhe os acontecimentos da tua cronologia.",
+  upgradeInfo: "A tua nova banda sonora não vai só captar o ambiente da tua época, vai também entrelaçar notícias concretas da tua cronologia e as tuas memórias pessoais numa canção verdadeiramente única.",
+  upgradeInfoTitle: "Atualizar para V2:",
+  generating: "A trabalhar...",
+  generateV2: "Gerar V2",
+  personalVideoClip: "Videoclipe pessoal",
+  adjustForPersonal: "Ajusta os teus dados para um resultado mais pessoal.",
+  generateVideoClip: "Gera um videoclipe único com música.",
+  geographicFocusLabel: "Foco geográfico",
+  netherlandsLabel: "Países Baixos",
+  europeLabel: "Europa",
+  worldLabel: "Mundo",
+  musicStyleInfo: "A subcultura determina o estilo.",
+  musicStyleLabel: "Estilo musical:",
+  continueButton: "Continuar",
+  tipPersonalDetails: "Preenche os teus dados para uma canção mais pessoal!",
+  tipLabel: "Dica:",
+  writingLyricsStep: "A escrever a letra",
+  aiWritingLyrics: "A IA escreve uma canção nostálgica",
+  composingMusic: "A compor a música",
+  aiComposingTrack: "O Suno AI cria uma faixa única",
+  readyLabel: "Pronto!",
+  listenToHit: "Ouve o teu êxito pessoal",
+  browserNoAudio: "O teu navegador não suporta áudio.",
+  durationLabel: "Duração:",
+  minutesLabel: "minutos",
+  showSunoUrl: "Mostrar URL do Suno",
+  watchVideo: "Ver vídeo",
+  startGeneration: "Iniciar geração",
+  personalMemoriesForSong: "Memórias pessoais para uma canção mais única:",
+  personalVideoClipButton: "🎬 Videoclipe pessoal",
+  occasionBirthday: "Aniversário",
+  occasionAnniversary: "Aniversário de casamento",
+  occasionFun: "Só por diversão",
+  tooManyRequests: "Demasiados pedidos. Tenta mais tarde.",
+  creditsExhausted: "Créditos esgotados. Acrescenta créditos ao teu espaço de trabalho.",
+  generationInterrupted: "Geração interrompida",
+  musicGenerationTimeout: "A geração da música demorou demasiado",
+  connectionLost: "A ligação perdeu-se antes de chegarem os resultados. Tenta novamente.",
+  defaultSummary: "Uma retrospetiva de acontecimentos importantes.",
+  loadingTooLong: "O carregamento demorou demasiado e foi interrompido. Tenta novamente.",
+  unknownError: "Erro desconhecido",
+  fetchingEvents: "A procurar acontecimentos...",
+  scrollToBegin: "Percorre para começar",
+  blacklistTooltip: "Bloquear foto (global) e procurar outra",
+  blacklistAriaLabel: "Bloquear imagem",
+  regenerateEventTooltip: "Dá-me outra coisa",
+  regenerateEventAriaLabel: "Substituir este acontecimento por outro",
+  regenerateEventNoResult: "Nenhum acontecimento alternativo encontrado. Tenta novamente.",
+  regenerateEventFailed: "Não foi possível substituir",
+  chooseImageTooltip: "Escolher outra foto",
+  chooseImageTitle: "Escolher uma foto",
+  useThisImage: "Usar esta foto",
+  currentImage: "Foto atual",
+  imageLicenseUnknown: "Licença desconhecida",
+  imageCredits: "Créditos das imagens",
+  editTimeline: "Editar cronologia",
+  doneEditing: "Terminar edição",
+  editorTitleLabel: "Título",
+  editorDescriptionLabel: "Descrição",
+  editorDateLabel: "Data",
+  editorDateHint: "AAAA, AAAA-MM ou AAAA-MM-DD",
+  editorCategoryLabel: "Categoria",
+  editorImportanceLabel: "Importância",
+  importanceHigh: "Alta",
+  importanceMedium: "Média",
+  importanceLow: "Baixa",
+  editorUploadPhoto: "Carregar a tua própria foto",
+  editorMoveUp: "Mover para cima",
+  editorMoveDown: "Mover para baixo",
+  editorDeleteEvent: "Eliminar acontecimento",
+  editorAddPersonalEvent: "Acrescentar um momento pessoal",
+  editorPhotoFailed: "Não foi possível carregar a foto",
+  uploadPhotos: "Acrescenta as tuas próprias fotos",
+  uploadPhotosTitle: "Acrescenta as tuas próprias fotos",
+  uploadPhotosDescription: "Lemos a data de captura das tuas fotos e sugerimos um ano. Acrescenta uma foto como cartão próprio ou substitui a imagem de um acontecimento.",
+  uploadPhotosChoose: "Escolher fotos",
+  photoTakenOn: "Tirada a {date}",
+  photoNoCaptureDate: "Nenhuma data de captura encontrada",
+  photoYearLabel: "Ano",
+  photoPlacementLabel: "Posição",
+  photoPlacementNewCard: "Como cartão próprio",
+  photoPlacementReplace: "Substituir a imagem de: {title}",
+  photoCaptionLabel: "Legenda",
+  photoRemove: "Remover foto",
+  uploadPhotosConfirm: "Acrescentar à história",
+  uploadPhotosUploading: "A carregar...",
+  uploadPhotosFailed: "Falha no carregamento",
+  uploadPhotosFailedCount: "{count, plural, one {Não foi possível carregar # foto} other {Não foi possível carregar # fotos}}",
+  ownPhotoBadge: "A tua própria foto",
+  timelineOf: "Cronologia de",
+  to: "a",
+  serverError: "Erro do servidor",
+  pollingFailed: "Falha ao verificar o estado",
+  authWelcome: "Bem-vindo ao O Teu Ano",
+  authSubtitle: "Cria uma conta para guardar o teu conteúdo",
+  authLogin: "Iniciar sessão",
+  voiceElevenLabsLoginRequired: "Inicia sessão para usar o ElevenLabs",
+  voiceElevenLabsLoginRequiredDesc: "As vozes do ElevenLabs estão disponíveis para utilizadores com sessão iniciada.",
+  authSignUp: "Registar",
+  authLogout: "Terminar sessão",
+  authEmail: "Endereço de email",
+  authPassword: "Palavra-passe",
+  authDisplayName: "Nome",
+  authGoogleSignIn: "Continuar com o Google",
+  authOrEmail: "ou com email",
+  authForgotPassword: "Esqueceste a palavra-passe?",
+  authCheckEmail: "Verifica o teu email",
+  authVerifyEmailSent: "Enviámos-te uma ligação de verificação.",
+  authResetEmailSent: "Enviámos-te uma ligação para redefinir a palavra-passe.",
+  authEnterEmail: "Introduz primeiro o teu endereço de email",
+  authError: "Algo correu mal",
+  authNewPassword: "Definir nova palavra-passe",
+  authUpdatePassword: "Atualizar palavra-passe",
+  authPasswordUpdated: "Palavra-passe atualizada com sucesso",
+  authInvalidResetLink: "Ligação de redefinição inválida ou expirada",
+  authMyAccount: "A minha conta",
+  accountNoContent: "Ainda não há conteúdo guardado",
+  accountNoContentDesc: "As cronologias que criares vão aparecer aqui",
+  accountSavedStories: "Cronologias guardadas",
+  accountViewStory: "Ver",
+  accountShareStory: "Partilhar",
+  accountDeleteStory: "Eliminar",
+  accountDeleteConfirm: "Tens a certeza de que queres eliminar esta cronologia?",
+  accountStoryDeleted: "Cronologia eliminada",
+  accountCreatedAt: "Criada a",
+  accountBilling: "Faturação",
+  accountBillingDesc: "Gere a tua subscrição e os dados de pagamento",
+  accountManageSubscription: "Gerir subscrição",
+  accountPerMonth: "mês",
+  accountEvents: "acontecimentos",
+  saveEvent: "Guardar acontecimento",
+  eventSaved: "Acontecimento guardado",
+  eventAlreadySaved: "Já guardado",
+  accountSavedEvents: "Acontecimentos guardados",
+  accountNoSavedEvents: "Ainda não há acontecimentos guardados",
+  accountNoSavedEventsDesc: "Guarda acontecimentos soltos da tua cronologia",
+  eventDeleted: "Acontecimento eliminado",
+  eventShared: "Acontecimento copiado para a área de transferência",
+
+  // OptionalInfoForm labels
+  friendsLabel: "Os 3 melhores amigos dessa altura",
+  friendsInputPlaceholder: "Nomes separados por vírgulas (ex. João, Pedro, Rita)",
+  schoolLabel: "Escola secundária",
+  schoolInputPlaceholder: "Ex. Escola Secundária D. Pedro V",
+  nightlifeLabel: "Locais favoritos",
+  nightlifeInputPlaceholder: "Discotecas/bares separados por vírgulas",
+
+  // PhaseSelector (HomeV2)
+  chooseDestination: "Escolhe o teu destino",
+  whichVersionToVisit: "Que versão de ti queres visitar?",
+  phaseBirthyearDesc: "Descobre o mundo em que nasceste",
+  phaseChildhoodTitle: "Infância",
+  phaseChildhoodDesc: "Revive os teus dias despreocupados de brincadeira",
+  phasePubertyDesc: "De volta à tua primeira paixoneta",
+  phaseYoungAdultTitle: "Jovem adulto",
+  phaseYoungAdultDesc: "O tempo da liberdade e da aventura",
+
+  // HomeV2 specific
+  backToBirthDate: "Voltar à data de nascimento",
+  chooseOtherDestination: "Escolher outro destino",
+  startMyTimeJourney: "Começar a minha viagem no tempo",
+  goingBackTo: "Vais voltar a",
+
+  // Timeline Story button
+  timelineStoryButton: "História no tempo",
+
+  // ChapterIndicator
+  chapterBirthDate: "Data de nascimento",
+  chapterDestination: "Destino",
+  chapterIdentity: "Identidade",
+
+  // IdentityForm
+  whoIsMainCharacter: "Quem é a personagem principal?",
+  lastDetailsForJourney: "Os últimos detalhes para a tua viagem pessoal no tempo",
+  friendsCalledYou: "Como é que os teus amigos te chamavam nessa altura?",
+  namePlaceholder: "Ex. Zé, Mimi, DJ Tó...",
+  forStoryStyle: "Para o estilo certo da história:",
+  genderHe: "Ele",
+  genderShe: "Ela",
+
+  // RetroDateInput
+  whenDidYourStoryBegin: "Quando começou a tua história?",
+  fillBirthDateToStart: "Preenche a tua data de nascimento para ligar a máquina do tempo",
+  legendaryDayToStart: "Um dia lendário para começar.",
+  daysOfWeek: ["Domingo", "Segunda-feira", "Terça-feira", "Quarta-feira", "Quinta-feira", "Sexta-feira", "Sábado"],
+
+  // NostalgicLoading
+  loadingArchives: "A folhear os arquivos...",
+  loadingDustNewspapers: "A tirar o pó a jornais antigos...",
+  loadingMemories: "A recuperar memórias...",
+  loadingCassette: "A rebobinar a cassete...",
+  loadingVHS: "A procurar entre cassetes VHS...",
+  loadingHitsOf: "A procurar os êxitos de {year}...",
+  loadingDialUp: "A ligar por modem... biiip buuup...",
+  loadingWindows: "A iniciar o Windows 95...",
+  loadingBackTo: "De volta a {year}...",
+  loadingSearchArchives: "A pesquisar os arquivos de {year}...",
+  loadingCollectMemories: "A reunir memórias...",
+  loadingPrepareJourney: "A preparar a tua viagem no tempo...",
+
+  // TimeTravelCounter
+  timeTravelComplete: "Viagem no tempo concluída",
+  timeTravelInProgress: "Viagem no tempo em curso...",
+
+  // TimelineCarousel scope labels
+  scopeBirthday: "Aniversário",
+  scopeOnBirthday: "No dia do teu aniversário",
+  scopeInBirthMonth: "No teu mês de nascimento",
+  scopeInBirthYear: "No teu ano de nascimento",
+
+  // StoryEndCarousel / SharedExperienceCarousel
+  endOfJourney: "Fim da tua viagem no tempo",
+  takeYourStory: "Leva a tua história contigo",
+  swipeToDiscover: "Desliza para descobrir todas as formas de reviver e partilhar a tua história",
+  myLifeInMusic: "A minha vida em música",
+  allNumberOneHits: "Todos os números 1",
+  discoverIconicHits: "Descobre todos os números 1 icónicos da tua cronologia, guarda os favoritos e partilha a tua playlist.",
+  discoverHits: "Descobrir êxitos",
+  myLifeInTvFilm: "A minha vida em TV e cinema",
+  seriesAndFilms: "Séries e filmes",
+  reliveIconicTv: "Revive as séries icónicas e os sucessos de bilheteira da tua vida com trailers no YouTube.",
+  discoverTitles: "Descobrir títulos",
+  fullyPersonalized: "Totalmente personalizado",
+  fortyEvents: "40 acontecimentos • Os teus dados",
+  makeStoryUnique: "Torna a tua história única com dados pessoais, 40 acontecimentos e um videoclipe mais longo.",
+  personalize: "Personalizar",
+  roastMyLife: "Goza com a minha vida",
+  aiHumorShareable: "Humor com IA • Para partilhar",
+  letAiRoast: "Deixa a IA gozar com a tua vida sem piedade (ou com carinho) com base na tua cronologia. De terno a brutal.",
+  roastMe: "Goza comigo!",
+  spokenStory: "História narrada",
+  spokenStoryReady: "A tua história pessoal está pronta",
+  spokenStoryGenerateAudioFor: "Gerar áudio para {count, plural, one {# acontecimento} other {# acontecimentos}}{intro}",
+  spokenStoryWithIntro: " + introdução",
+  spokenStoryGenerating: "A gerar áudio... {pct}%",
+  spokenStoryGenerateButton: "Gerar áudio",
+  spokenStoryGeneratingShort: "A gerar...",
+  spokenStoryError: "Falha ao gerar o áudio",
+  aiVoiceNarration: "Voz de IA • Narração",
+  listenToStory: "Ouve a história da tua vida narrada, com imagens e música ambiente.",
+  myLifeInPolaroids: "A minha vida em polaroids",
+  retroStyle: "Estilo retro",
+  relivePolaroids: "Revive os teus melhores momentos como uma coleção de fotos polaroid nostálgicas.",
+  viewPolaroids: "Ver polaroids",
+  myLifeAsPresentation: "A minha vida como apresentação",
+  pdfAlbum: "PDF • Álbum A4",
+  downloadAlbumDesc: "Descarrega um belo álbum A4 da história da tua vida em PDF, pronto a imprimir ou partilhar.",
+  downloadPdf: "Descarregar PDF",
+
+  // ShareDialog
+  shareTitle: "A minha TimeStory",
+  shareVideoText: "Vê o meu vídeo pessoal no tempo!",
+  shareWhatsapp: "Vê a minha TimeStory: {url}",
+  shareTelegram: "Vê a minha TimeStory!",
+  shareTwitter: "Vê o meu vídeo pessoal no tempo!",
+  shareEmailSubject: "Vê a minha TimeStory",
+  shareEmailBody: "Fiz um vídeo pessoal da minha vida no tempo! Vê-o aqui: {url}",
+  viewSharedVideo: "Ver o teu vídeo partilhado",
+
+  // RoastDialog
+  bornIn: "Nascido/a em",
+  discoverYourJourneyFree: "Descobre a tua viagem no tempo • Grátis",
+  roastShareText: "🔥 Goza com a minha vida ({intensity}) - Descobre a tua viagem no tempo em {url}",
+  savedToast: "Guardado!",
+  roastSavedDesc: "A piada foi guardada na tua conta.",
+  errorToast: "Erro",
+  roastSaveError: "Não foi possível guardar a piada.",
+  creatingImage: "A criar imagem...",
+  share: "Partilhar",
+  save: "Guardar",
+  roastEmailSubject: "🔥 Goza com a minha vida",
+  roastEmailBody: "Vê a minha piada:\n\n{text}\n\nCria a tua própria viagem no tempo em {url}",
+
+  // MusicOverviewPage
+  removeFromFavorites: "Remover dos favoritos",
+  addToFavorites: "Adicionar aos favoritos",
+  savedToAccount: "Guardado na tua conta",
+  saveToAccount: "Guardar na tua conta",
+  loadingLocalHits: "A carregar êxitos locais de {city}...",
+  tracksLoaded: "{loaded} / {total} faixas carregadas...",
+  loadingTvFilms: "A carregar séries e filmes{city}...",
+  trailersSearched: "{loaded} / {total} trailers procurados...",
+  yourMusicOverviewTitle: "A tua retrospetiva musical",
+  yourTvFilmOverviewTitle: "A tua retrospetiva de TV e cinema",
+  tracksFoundFavorites: "{count, plural, one {# faixa encontrada} other {# faixas encontradas}} • {fav, plural, one {# favorita} other {# favoritas}}",
+  titlesFoundFavorites: "{count, plural, one {# título encontrado} other {# títulos encontrados}} • {fav, plural, one {# favorito} other {# favoritos}}",
+  inclLocalHitsSuffix: " • incl. êxitos de {country}",
+  playlistAllTracks: "Playlist com as {count} faixas",
+  playlistFavoritesCount: "Playlist com {count} favoritas",
+  spotifyOpenHint: "Cria uma playlist na tua própria conta Spotify. Se falhar, as ligações são copiadas para a área de transferência.",
+  spotifyPlaylistDescription: "Os números 1 de {start} a {end}.",
+  spotifyPlaylistTitle: "Playlist do Spotify",
+  spotifyPlaylistCreating: "A criar a playlist na tua conta Spotify...",
+  spotifyPlaylistCreated: "A tua playlist com {count, plural, one {# faixa} other {# faixas}} está pronta no Spotify.",
+  spotifyPlaylistOpen: "Abrir no Spotify",
+  spotifyPlaylistFailed: "Não foi possível criar a playlist. Tenta novamente.",
+  spotifyPlaylistBack: "Voltar",
+  playlistExportButton: "Exportar",
+  playlistExportAll: "As {count} faixas",
+  playlistExportFavorites: "{count} favoritas",
+  playlistExportM3u8: "M3U8 (leitores multimédia)",
+  playlistExportXspf: "XSPF (VLC)",
+  playlistExportCsv: "CSV (folha de cálculo)",
+  playlistExportHtml: "Página web com ligações de pesquisa",
+  birthdayNumberOneTitle: "Número 1 no dia do teu aniversário",
+  birthdayNumberOneYearTitle: "Número 1 no teu ano de nascimento",
+  birthdayNumberOneIntl: "Internacional",
+  birthdayNumberOneListen: "Ouvir no Spotify",
+  birthdayNumberOneBirthdays: "O número 1 nos teus aniversários",
+  birthdayNumberOneYears: "O número 1 de cada ano desde então",
+  birthdayNumberOneAge: "{age} anos",
+  trailersAllPlay: "{count, plural, one {Reproduzir # trailer} other {Reproduzir os # trailers}}",
+  trailersFavoritesPlay: "{count, plural, one {Reproduzir # favorito} other {Reproduzir # favoritos}}",
+  myFavoritesPlaylistLabel: "Os meus favoritos",
+  localHitBadge: "Local",
+  noTracksAvailable: "Não há faixas disponíveis.",
+  noTrailersAvailable: "Não há trailers disponíveis.",
+  linksCopiedTitle: "Ligações copiadas!",
+  spotifyLinksCopiedDesc: "{count, plural, one {# ligação do Spotify copiada para a área de transferência. Cola-a numa playlist do Spotify.} other {# ligações do Spotify copiadas para a área de transferência. Cola-as numa playlist do Spotify.}}",
+  youtubeLinksCopiedDesc: "{count, plural, one {# ligação do YouTube copiada para a área de transferência.} other {# ligações do YouTube copiadas para a área de transferência.}}",
+  myMusicVideo: "O meu videoclipe",
+  justReady: "Acabado de ficar pronto",
+  yourPersonalMusicVideo: "O teu videoclipe pessoal",
+  alsoForYou: "Também para ti",
+  unlock: "Desbloquear",
+  open: "Abrir",
+  myTimeline: "A minha cronologia",
+  backToTimeline: "Voltar à tua história",
+  scrollDownHint: "desliza para baixo",
+  savedDescriptionTrack: "{name} está agora na página da tua conta.",
+  savedDescriptionItem: "{title} está agora na página da tua conta.",
+  errorLabel: "Erro",
+  spotifyFailedSummary: "Não foi possível carregar {count} de {total} faixas — o Spotify pode estar temporariamente indisponível.",
+  localHitsFetchError: "Não foi possível carregar os êxitos locais — tenta mais tarde.",
+  youtubeFailedSummary: "Não foi possível carregar {count} de {total} filmes/séries — o YouTube pode estar temporariamente indisponível.",
+  numberOneHitDesc: "Número 1 de {year}. Álbum: {album}",
+  myMusicVideoTitle: "O meu videoclipe",
+  eventsAiMusic: "{count, plural, one {# acontecimento} other {# acontecimentos}} • Música com IA",
+  preparingMusicVideo: "O teu videoclipe está a ser preparado...",
+  errorBoundaryTitle: "Algo correu mal",
+  errorBoundaryBody: "Não conseguimos carregar esta parte da aplicação.",
+  errorBoundaryRetry: "Tentar novamente",
+  errorBoundaryHome: "Ir para o início",
+  notifTitlePulse: "🎵 A ser criado...",
+  notifPersonalMusicVideo: "Videoclipe pessoal",
+  notifProgressAria: "Videoclipe pessoal a ser criado — {pct}%",
+  notifProgressAriaCollapsed: "Videoclipe pessoal a ser criado — {pct}%, clica para mostrar",
+  notifTapToScroll: "Toca para ir até ao teu videoclipe",
+  notifTapToGo: "Toca para ir para o teu videoclipe",
+  notifCollapse: "Recolher",
+  notifCollapseAria: "Recolher notificação",
+  notifProgressTitle: "Progresso do videoclipe",
+  notifMusicVideoFailed: "O videoclipe falhou",
+  notifMusicVideoFailedAria: "O videoclipe falhou — toca para tentar de novo",
+  notifTapToRetry: "Toca para tentar de novo",
+  notifRetry: "Tentar novamente",
+  notifReadyToPlay: "Pronto a reproduzir",
+  notifYourMusicVideoFallback: "O teu videoclipe",
+  notifYourPersonalVideoReady: "O teu videoclipe pessoal está pronto.",
+  notifWatchNow: "Ver agora",
+  notifLater: "Mais tarde",
+  notifClose: "Fechar",
+  notifOpenMusicVideo: "Abrir notificação do videoclipe",
+  shareYourVideoTitle: "Partilha o teu vídeo",
+  shareGeneratingLink: "Um momento, estamos a criar a tua ligação de partilha...",
+  shareReadyDesc: "O teu vídeo está pronto a partilhar!",
+  shareSomethingWrong: "Algo correu mal",
+  shareUploadFailed: "Falha no carregamento",
+  shareTryAgain: "Tentar novamente",
+  shareCopyLinkLabel: "Copiar ligação",
+  shareDeleteEllipsis: "Partilhar...",
+  shareViaLabel: "Partilhar via",
+  shareGenericError: "Algo correu mal",
+  tiktokIntroTitle: "A tua viagem no tempo",
+  tiktokOutroTitle: "Cria a tua própria viagem no tempo!",
+  tiktokWatermark: "TimeStory",
+  tiktokUnknownError: "Erro desconhecido",
+  tiktokWebShareUnavailable: "Web Share API indisponível",
+  tiktokCannotShareFiles: "Não é possível partilhar estes ficheiros",
+  introReadyTitle: "🎬 O teu videoclipe pessoal está pronto",
+  introReadyHint: "Carrega em ▶ para reproduzir",
+  introReadyTitleNarrative: "📖 O teu livro narrado pessoal está pronto",
+  introReadyHintNarrative: "Carrega em ▶ para reproduzir",
+  pdfDefaultFirstName: "Tu",
+  pdfDefaultStoryName: "TimeStory",
+  pdfTitleFallback: "O ano de {name}",
+  pdfAlbumFooter: "Álbum TimeStory",
+  pdfAlbumFileSuffix: "Album",
+  pdfCatPolitics: "Política",
+  pdfCatSports: "Desporto",
+  pdfCatEntertainment: "Entretenimento",
+  pdfCatScience: "Ciência",
+  pdfCatCulture: "Cultura",
+  pdfCatWorld: "Mundo",
+  pdfCatLocal: "Local",
+  pdfCatPersonal: "Pessoal",
+  pdfCatMusic: "Música",
+  pdfCatTechnology: "Tecnologia",
+  pdfCatCelebrity: "Celebridades",
+  pdfCatUnknown: "Desconhecido",
+  pdfTypeBirthdate: "Neste dia",
+  pdfTypeBirthmonth: "Este mês",
+  pdfTypeBirthyear: "Este ano",
+  pdfTypePeriod: "Período",
+  pdfPersonalJourneyFor: "A viagem pessoal no tempo de",
+  pdfYourStory: "A tua história",
+  pdfInThisIssue: "Nesta edição",
+  pdfAlsoBornToday: "Também nasceram neste dia",
+  pdfThanksFor: "Obrigado,",
+  pdfThanksShort: "Obrigado!",
+  pdfUnknownName: "Desconhecido",
+  pdfMagazineTitle: "REVISTA VIAGEM NO TEMPO",
+  pdfRunningHeader: "VIAGEM NO TEMPO • {name}",
+  pdfNumberOneBirthday: "N.º 1 no dia do teu nascimento",
+  pdfNumberOneBirthYear: "N.º 1 no teu ano de nascimento",
+  pdfEventCount: "{count, plural, one {# acontecimento} other {# acontecimentos}}",
+  pdfSpecialEdition: "{count, plural, one {# acontecimento} other {# acontecimentos}} • Edição especial",
+  pdfMoreYears: "{count, plural, one {+ # ano a mais...} other {+ # anos a mais...}}",
+  pdfAlsoBornBadge: "Nascidos no mesmo dia",
+  pdfForReading: "por teres lido!",
+  pdfJourneyMadeFor: "Uma viagem no tempo feita para {name}",
+  pdfClosingStats: "{count, plural, one {# acontecimento} other {# acontecimentos}} • {years, plural, one {# ano} other {# anos}} • {people, plural, one {# celebridade} other {# celebridades}}",
+  pdfPolaroidClosingStats: "{count, plural, one {# acontecimento} other {# acontecimentos}} • {people, plural, one {# celebridade} other {# celebridades}}",
+  pdfGeneratedOn: "Gerado em {date}",
+  pdfFileName: "viagem-no-tempo",
+  pdfPolaroidEdition: "VIAGEM NO TEMPO EDIÇÃO POLAROID",
+  pdfPolaroidHeader: "POLAROID VIAGEM NO TEMPO",
+  pdfPolaroidEditionShort: "EDIÇÃO POLAROID",
+  pdfImageCredits: "CRÉDITOS DAS IMAGENS",
+  imageCreationFailed: "Algo correu mal ao criar a imagem",
+  copiedTitle: "Copiado!",
+  textCopiedDesc: "Texto copiado para a área de transferência.",
+  oopsTitle: "Ups",
+  roastGenerationFailed: "Não foi possível gerar a piada",
+  roastImageFailed: "Não foi possível gerar a imagem.",
+  downloadedTitle: "Descarregado!",
+  shareImageOnSocial: "Partilha a imagem nas redes sociais!",
+  loginRequiredTitle: "Iniciar sessão",
+  loginRequiredRoastDesc: "Cria uma conta para guardar a tua piada.",
+  savedTitle: "Guardado!",
+  errorShortLabel: "Erro",
+  roastSaveFailed: "Não foi possível guardar a piada.",
+  trailerNotFoundTitle: "Trailer não encontrado",
+  trailerNotFoundDesc: "Não foi possível encontrar um trailer deste filme.",
+  connectionErrorTitle: "Erro de ligação",
+  connectionErrorDesc: "Não foi possível ligar ao servidor. Tenta mais tarde.",
+  pdfGenerationFailed: "Falha ao gerar o PDF",
+  imageBlacklistedTitle: "Imagem bloqueada",
+  imageBlacklistedDesc: "Nova pesquisa iniciada...",
+  eventsFoundDesc: "{count, plural, one {# acontecimento encontrado} other {# acontecimentos encontrados}}",
+  ariaPrev: "Anterior",
+  ariaNext: "Seguinte",
+  ariaStopTrailer: "Parar trailer",
+  ariaCloseTrailer: "Fechar trailer",
+  ariaPlayTrailer: "Reproduzir trailer",
+  ariaBlacklistImage: "Bloquear imagem",
+  blacklistImageTitle: "Bloquear foto (global) e pesquisar de novo",
+  playSongCompact: "Música",
+  playSongLabel: "Reproduzir música",
+  searchingPhotoLabel: "A procurar foto...",
+  scrollToLoadPhoto: "Desliza para carregar a foto",
+  debugInfoTitle: "Informação de depuração",
+  debugInfoFilterPlaceholder: "Filtrar por título, categoria, tipo...",
+  debugInfoBlacklistThumb: "Bloquear esta imagem",
+  debugInfoReloadAll: "Recarregar todas as imagens",
+  debugInfoSearchingShort: "A procurar...",
+  debugInfoLabelImages: "imagem",
+  debugInfoLabelSounds: "som",
+  debugInfoNone: "Nenhum",
+  promptCopyToClipboard: "Copiar para a área de transferência",
+  promptCopiedShort: "Copiado",
+  quickRefreshTitle: "Atualização rápida (20 acontecimentos)",
+  fullRefreshTitle: "Atualização completa (50 acontecimentos)",
+  roastTitle: "Goza com a minha vida",
+  roastIntensityLabel: "Intensidade",
+  roastIntensityMild: "Suave",
+  roastIntensitySpicy: "Picante",
+  roastIntensityMedium: "Média",
+  roastIntensitySharp: "Afiada",
+  roastIntensityExtreme: "Extrema",
+  roastWriting: "A escrever uma piada {level}...",
+  roastShareLabel: "Partilhar",
+  roastImageMaking: "A criar imagem...",
+  roastSaveLabel: "Guardar",
+  roastImageAlt: "Imagem da piada",
+  roastShareViaLabel: "Partilhar via",
+  roastNativeShareLabel: "Partilhar...",
+  roastCopyText: "Copiar texto",
+  roastCopiedShort: "Copiado!",
+  roastDownloadImage: "Descarregar imagem",
+  roastShareTextTpl: "🔥 Goza com a minha vida ({level}) - Descobre a tua viagem no tempo em {url}",
+  roastImageHeading: "GOZA COM A MINHA VIDA",
+  roastBornInLabel: "{gender, select, female {Nascida em {year}} male {Nascido em {year}} other {Nascido/a em {year}}}",
+  roastFooterTagline: "Descobre a tua viagem no tempo • Grátis",
+  roastNoneReceived: "Nenhuma piada recebida",
+
+  // Subculture editor (admin)
+  subcultureEditorTitle: "Conjunto de dados de subculturas",
+  subcultureEditorSummary: "Versão {version} · {eras, plural, one {# época} other {# épocas}} · {countries, plural, one {# país} other {# países}}",
+  subcultureEditorImport: "Importar",
+  subcultureEditorReset: "Repor",
+  subcultureEditorResetConfirm: "Descartar o rascunho e voltar ao conjunto de dados atual?",
+  subcultureEditorImportFailed: "Falha na importação: {error}",
+  subcultureEditorImportIssues: "{count, plural, one {# erro} other {# erros}}, p. ex. {path}: {message}",
+  subcultureEditorChecks: "Verificação",
+  subcultureEditorErrors: "{count, plural, one {# erro} other {# erros}}",
+  subcultureEditorWarnings: "{count, plural, one {# aviso} other {# avisos}}",
+  subcultureEditorEras: "Épocas",
+  subcultureAgeGroupTeen: "Adolescentes",
+  subcultureAgeGroupYoungAdult: "Jovens adultos",
+  subcultureEditorNoEra: "Sem subculturas para {period}, {ageGroup}, {country}.",
+  subcultureEditorAddEra: "Adicionar época",
+  subcultureEditorName: "Nome",
+  subcultureEditorDescription: "Descrição",
+  subcultureEditorOnePerLine: "{label} (um por linha)",
+  subcultureEditorAddSubculture: "Adicionar subcultura",
+  subcultureEditorRemoveEra: "Remover época",
+  subcultureEditorCountries: "Países e cidades",
+  subcultureEditorCode: "Código",
+  subcultureEditorCities: "Cidades, uma por linha (minúsculas)",
+  subcultureEditorAddCountry: "Adicionar país",
+
+  // Image search dashboard (admin)
+  imageQualityTitle: "Qualidade da pesquisa de imagens",
+  imageQualitySubtitle: "Registos de pesquisa anonimizados {days, plural, one {do último dia} other {dos últimos # dias}}",
+  imageQualityPeriod: "{days, plural, one {# dia} other {# dias}}",
+  imageQualityRefresh: "Atualizar",
+  imageQualityLoadFailed: "Falha ao carregar: {error}",
+  imageQualitySearches: "Pesquisas",
+  imageQualityWithImage: "Com imagem",
+  imageQualityAvgTimeToImage: "Tempo médio até à imagem",
+  imageQualityFound: "Encontrado",
+  imageQualityTimeToImage: "Tempo até à imagem",
+  imageQualityBySource: "Por fonte",
+  imageQualitySource: "Fonte",
+  imageQualityAsked: "Pedido",
+  imageQualityErrors: "Erros",
+  imageQualityWon: "Escolhido",
+  imageQualityBySubject: "Por tipo de tema",
+  imageQualityType: "Tipo",
+  imageQualityByLanguage: "Por idioma",
+  imageQualityLanguage: "Idioma",
+  imageQualityMostBlacklisted: "Fontes mais bloqueadas",
+  imageQualityNoneBlacklisted: "Nenhuma imagem bloqueada neste período.",
+  imageQualityNeverFound: "Pesquisas sem imagem",
+  imageQualityAllFound: "Cada pesquisa encontrou uma imagem pelo menos uma vez.",
+  imageQualityQuery: "Pesquisa",
+  imageQualityTimesSearched: "Vezes pesquisado",
+  imageQualityLastSearched: "Última",
+};
+
+export default pt;
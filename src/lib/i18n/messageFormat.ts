@@ -0,0 +1,213 @@
+/**
+ * ICU MessageFormat for translations: "{count, plural, one {# track} other {# tracks}}".
+ *
+ * Supported: plain `{name}`, `{n, number}` (optionally `integer` or `percent`),
+ * `{n, plural, ...}` and `{n, selectordinal, ...}` with `=N` branches and `#`,
+ * and `{key, select, ...}` (e.g. gender). Apostrophes only quote when they
+ * precede a brace or `#` ("'{'"), and "''" is a literal quote, so "foto's" and
+ * "l'audio" need no escaping.
+ *
+ * Two deliberate differences from full ICU: a plain `{name}` is inserted as-is,
+ * so years stay "1985" instead of "1.985" (use `{name, number}` for grouping),
+ * and an argument without a value stays in the output as `{name}`.
+ */
+import { LOCALE_TAGS } from "./languages";
+import type { Language } from "./languages";
+import type { MessageValues } from "./types";
+
+type Branches = Record<string, MessagePart[]>;
+
+export type MessagePart =
+  | string
+  | { type: "pound" }
+  | { type: "argument"; name: string }
+  | { type: "number"; name: string; style?: string }
+  | { type: "plural" | "selectordinal" | "select"; name: string; options: Branches };
+
+/** Parses a message into text and argument parts. Throws on malformed syntax. */
+export function parseMessage(source: string): MessagePart[] {
+  let pos = 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid message (${reason} at ${pos}): ${source}`);
+  };
+  const skipSpace = () => {
+    while (pos < source.length && /\s/.test(source[pos])) pos++;
+  };
+  const eat = (char: string) => {
+    skipSpace();
+    if (source[pos] !== char) return false;
+    pos++;
+    return true;
+  };
+  const expect = (char: string) => {
+    if (!eat(char)) fail(`expected "${char}"`);
+  };
+  const readToken = () => {
+    skipSpace();
+    const start = pos;
+    while (pos < source.length && !/[\s,{}]/.test(source[pos])) pos++;
+    return source.slice(start, pos);
+  };
+
+  // Text and arguments up to an unmatched "}" or the end of the source
+  const parseParts = (inPlural: boolean): MessagePart[] => {
+    const parts: MessagePart[] = [];
+    let text = "";
+    const flush = () => {
+      if (text) parts.push(text);
+      text = "";
+    };
+
+    while (pos < source.length && source[pos] !== "}") {
+      const char = source[pos];
+      if (char === "{") {
+        flush();
+        parts.push(parseArgument(inPlural));
+      } else if (char === "#" && inPlural) {
+        flush();
+        parts.push({ type: "pound" });
+        pos++;
+      } else if (char === "'" && source[pos + 1] === "'") {
+        text += "'";
+        pos += 2;
+      } else if (char === "'" && /[{}#]/.test(source[pos + 1] ?? "")) {
+        // Quoted literal up to the next lone apostrophe
+        pos++;
+        while (pos < source.length) {
+          if (source[pos] === "'" && source[pos + 1] === "'") {
+            text += "'";
+            pos += 2;
+          } else if (source[pos] === "'") {
+            pos++;
+            break;
+          } else {
+            text += source[pos++];
+          }
+        }
+      } else {
+        text += char;
+        pos++;
+      }
+    }
+    flush();
+    return parts;
+  };
+
+  const parseArgument = (inPlural: boolean): MessagePart => {
+    pos++; // "{"
+    const name = readToken() || fail("missing argument name");
+    if (eat("}")) return { type: "argument", name };
+    expect(",");
+
+    const type = readToken();
+    if (type === "number") {
+      const style = eat(",") ? readToken() : undefined;
+      expect("}");
+      return { type, name, style };
+    }
+    if (type !== "plural" && type !== "selectordinal" && type !== "select") {
+      return fail(`unknown argument type "${type}"`);
+    }
+
+    expect(",");
+    const options: Branches = {};
+    while (!eat("}")) {
+      const selector = readToken() || fail("missing selector");
+      expect("{");
+      // "#" belongs to the nearest plural, also inside a nested select
+      options[selector] = parseParts(type === "select" ? inPlural : true);
+      expect("}");
+    }
+    if (!options.other) fail(`"${name}" has no "other" branch`);
+    return { type, name, options };
+  };
+
+  const parts = parseParts(false);
+  if (pos < source.length) fail('unmatched "}"');
+  return parts;
+}
+
+const parsedMessages = new Map<string, MessagePart[]>();
+const pluralRules = new Map<string, Intl.PluralRules>();
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+const getPluralRules = (language: Language, type: Intl.PluralRuleType) => {
+  const cacheKey = `${language}:${type}`;
+  let rules = pluralRules.get(cacheKey);
+  if (!rules) {
+    rules = new Intl.PluralRules(LOCALE_TAGS[language], { type });
+    pluralRules.set(cacheKey, rules);
+  }
+  return rules;
+};
+
+const NUMBER_STYLES: Record<string, Intl.NumberFormatOptions> = {
+  integer: { maximumFractionDigits: 0 },
+  percent: { style: "percent" },
+};
+
+const getNumberFormat = (language: Language, style = "") => {
+  const cacheKey = `${language}:${style}`;
+  let format = numberFormats.get(cacheKey);
+  if (!format) {
+    format = new Intl.NumberFormat(LOCALE_TAGS[language], NUMBER_STYLES[style]);
+    numberFormats.set(cacheKey, format);
+  }
+  return format;
+};
+
+const branch = (options: Branches, selector: string): MessagePart[] | undefined =>
+  Object.prototype.hasOwnProperty.call(options, selector) ? options[selector] : undefined;
+
+function formatParts(parts: MessagePart[], values: MessageValues, language: Language, pound?: number): string {
+  let out = "";
+  for (const part of parts) {
+    if (typeof part === "string") {
+      out += part;
+      continue;
+    }
+    if (part.type === "pound") {
+      out += pound === undefined ? "#" : getNumberFormat(language).format(pound);
+      continue;
+    }
+
+    const value = values[part.name];
+    if (part.type === "argument") {
+      out += value == null ? `{${part.name}}` : String(value);
+    } else if (part.type === "number") {
+      out += value == null ? `{${part.name}}` : getNumberFormat(language, part.style).format(Number(value));
+    } else if (part.type === "select") {
+      const selected = (value != null && branch(part.options, String(value))) || part.options.other;
+      out += formatParts(selected, values, language, pound);
+    } else {
+      const n = value == null ? NaN : Number(value);
+      if (Number.isNaN(n)) {
+        out += formatParts(part.options.other, values, language);
+        continue;
+      }
+      const category = getPluralRules(language, part.type === "plural" ? "cardinal" : "ordinal").select(n);
+      const selected = branch(part.options, `=${n}`) ?? branch(part.options, category) ?? part.options.other;
+      out += formatParts(selected, values, language, n);
+    }
+  }
+  return out;
+}
+
+/**
+ * Formats an ICU message in the given language. A malformed message is
+ * logged and returned unformatted rather than breaking the page.
+ */
+export function formatMessage(message: string, values: MessageValues, language: Language): string {
+  let parts = parsedMessages.get(message);
+  if (!parts) {
+    try {
+      parts = parseMessage(message);
+    } catch (error) {
+      console.error(error);
+      return message;
+    }
+    parsedMessages.set(message, parts);
+  }
+  return formatParts(parts, values, language);
+}
@@ -0,0 +1,25 @@
+import type nl from "./locales/nl";
+
+export type TranslationKey = keyof typeof nl;
+export type TranslationValue = string | readonly string[];
+
+/** A locale bundle: exactly the keys of the Dutch source, so a missing or misspelled key fails to compile. */
+export type Messages = Record<TranslationKey, TranslationValue>;
+
+/** The value type of one key: string for messages, readonly string[] for lists such as month names. */
+export type TranslationValueOf<K extends TranslationKey> = K extends TranslationKey
+  ? (typeof nl)[K] extends string ? string : readonly string[]
+  : never;
+
+/** Keys whose value is a message (not a list) - the only ones that take ICU values. */
+export type MessageKey = {
+  [K in TranslationKey]: (typeof nl)[K] extends string ? K : never;
+}[TranslationKey];
+
+/** Values for ICU arguments: `{name}`, `{count, plural, ...}`, `{gender, select, ...}`. */
+export type MessageValues = Record<string, string | number | null | undefined>;
+
+export interface Translate {
+  <K extends TranslationKey>(key: K): TranslationValueOf<K>;
+  (key: MessageKey, values: MessageValues): string;
+}
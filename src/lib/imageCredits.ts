@@ -0,0 +1,56 @@
+/**
+ * Attribution of the found images in a story: the hover credit in the story
+ * view, the credits page in the PDFs, the end card of the videos, and which
+ * images may go into a public share at all.
+ */
+import type { ImageCredit, TimelineEvent } from '@/types/timeline';
+import { isUserPhoto } from '@/lib/photoUpload';
+
+export interface EventImageCredit {
+  event: TimelineEvent;
+  credit: ImageCredit;
+}
+
+/** The credit of the image an event shows; none once the image is gone or replaced by a user photo. */
+export const getImageCredit = (event: TimelineEvent): ImageCredit | undefined =>
+  event.imageUrl ? event.imageCredit : undefined;
+
+// "https://commons.wikimedia.org/wiki/File%3AApollo_11.jpg" -> "commons.wikimedia.org/wiki/File:Apollo_11.jpg"
+const readableUrl = (url: string): string => {
+  try {
+    return decodeURIComponent(url).replace(/^https?:\/\/(www\.)?/, '');
+  } catch {
+    return url.replace(/^https?:\/\/(www\.)?/, '');
+  }
+};
+
+/** "Author · CC BY-SA 4.0 · commons.wikimedia.org/wiki/File:…", leaving out what isn't known. */
+export function formatImageCredit(credit: ImageCredit, { withSource = true } = {}): string {
+  return [credit.author, credit.license, withSource && credit.sourceUrl ? readableUrl(credit.sourceUrl) : undefined]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/** Events whose image has someone or something to credit, in story order. */
+export function getImageCredits(events: TimelineEvent[]): EventImageCredit[] {
+  return events.flatMap((event) => {
+    const credit = getImageCredit(event);
+    return credit && (credit.author || credit.license) ? [{ event, credit }] : [];
+  });
+}
+
+/**
+ * Events as they may be published. Only the user's own photos and images
+ * with a license that allows republishing stay: fair use (Wikipedia) is
+ * dropped, and so is everything whose provider states no license at all
+ * (DDG, TMDB, Spotify). The picker's other candidates go too, they were
+ * never checked.
+ */
+export function prepareEventsForPublicShare<T extends TimelineEvent>(events: T[]): T[] {
+  return events.map(({ imageCandidates: _imageCandidates, ...rest }) => {
+    const event = rest as T;
+    return isUserPhoto(event) || event.imageCredit?.redistributable === true
+      ? event
+      : { ...event, imageUrl: undefined, imageStatus: 'none', source: undefined, imageCredit: undefined };
+  });
+}
@@ -0,0 +1,112 @@
+/**
+ * Perceptual image hashes, to spot the same picture under different URLs:
+ * another thumbnail size of a Commons file, a re-upload, an album cover
+ * cropped or recompressed by another site.
+ *
+ * The hash is a 64-bit difference hash (dHash) as 16 hex characters: the
+ * image is shrunk to 9×8 greys and each bit says whether a pixel is brighter
+ * than its right neighbour. Near-identical images differ in a few bits.
+ */
+
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+// Bits two hashes may differ in and still be the same picture (out of 64)
+const SAME_IMAGE_DISTANCE = 10;
+const LOAD_TIMEOUT_MS = 8000;
+
+/** dHash of a 9×8 greyscale image, row by row. */
+export function differenceHash(grey: ArrayLike<number>): string {
+  let hash = '';
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    for (let x = 0; x < HASH_WIDTH - 1; x += 4) {
+      let nibble = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        const i = y * HASH_WIDTH + x + bit;
+        nibble = (nibble << 1) | (grey[i] > grey[i + 1] ? 1 : 0);
+      }
+      hash += nibble.toString(16);
+    }
+  }
+  return hash;
+}
+
+/** Number of differing bits; hashes of unequal length never match. */
+export function hashDistance(a: string, b: string): number {
+  if (a.length !== b.length) return Infinity;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    for (; diff; diff &= diff - 1) distance++;
+  }
+  return distance;
+}
+
+export const isSameImage = (a: string, b: string) => hashDistance(a, b) <= SAME_IMAGE_DISTANCE;
+
+// Directly when the host allows CORS, otherwise through the proxy-image edge function
+async function fetchImageBlob(imageUrl: string, signal: AbortSignal): Promise<Blob | null> {
+  try {
+    const response = await fetch(imageUrl, { mode: 'cors', signal });
+    if (response.ok) return await response.blob();
+  } catch { /* fall through */ }
+
+  try {
+    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
+    const supabaseKey = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
+    const response = await fetch(`${supabaseUrl}/functions/v1/proxy-image`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'apikey': supabaseKey,
+        'Authorization': `Bearer ${supabaseKey}`,
+      },
+      body: JSON.stringify({ url: imageUrl }),
+      signal,
+    });
+    if (response.ok) return await response.blob();
+  } catch { /* fall through */ }
+
+  return null;
+}
+
+async function hashImage(imageUrl: string): Promise<string | null> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), LOAD_TIMEOUT_MS);
+  try {
+    const blob = await fetchImageBlob(imageUrl, controller.signal);
+    if (!blob) return null;
+
+    const bitmap = await createImageBitmap(blob);
+    const canvas = document.createElement('canvas');
+    canvas.width = HASH_WIDTH;
+    canvas.height = HASH_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+    bitmap.close();
+
+    const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+    const grey = new Array<number>(HASH_WIDTH * HASH_HEIGHT);
+    for (let i = 0; i < grey.length; i++) {
+      grey[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    }
+    return differenceHash(grey);
+  } catch (error) {
+    console.warn('[Image Hash] Could not hash', imageUrl.slice(0, 80), error);
+    return null;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+const hashCache = new Map<string, Promise<string | null>>();
+
+/** Perceptual hash of the image at a URL, once per URL; null when it can't be loaded. */
+export function computeImageHash(imageUrl: string): Promise<string | null> {
+  let hash = hashCache.get(imageUrl);
+  if (!hash) {
+    hash = hashImage(imageUrl);
+    hashCache.set(imageUrl, hash);
+  }
+  return hash;
+}
@@ -0,0 +1,96 @@
+import { isSameImage } from '@/lib/imageHash';
+import type { ImageSearch } from './search';
+import type { ImageCandidate, ImageResult, ImageSearchRequest } from './types';
+
+export interface DistinctImagesOptions {
+  /** Perceptual hash of an image (see src/lib/imageHash.ts); null when it can't be computed */
+  hashOf: (imageUrl: string) => Promise<string | null>;
+  /** Hashes of blacklisted images, so every URL and size of a rejected picture stays out */
+  getBlacklistedHashes?: () => Iterable<string>;
+}
+
+export interface DistinctImagePick {
+  /** The best candidate that isn't already shown elsewhere in the timeline, if any */
+  candidate: ImageCandidate | null;
+  /** The candidates without the ones rejected on the way, for the image picker */
+  candidates: ImageCandidate[];
+  /** URLs of the candidates passed over as duplicates or blacklisted */
+  rejected: string[];
+}
+
+export interface DistinctImageResult extends DistinctImagePick {
+  /** The search that produced the pick, the last one when it had to search again */
+  result: ImageResult;
+}
+
+export interface DistinctImages {
+  pick: (eventId: string, candidates: ImageCandidate[]) => Promise<DistinctImagePick>;
+  /** Frees an event's image, e.g. when it's blacklisted and searched again */
+  release: (eventId: string) => void;
+  reset: () => void;
+}
+
+/**
+ * Keeps one timeline from showing the same picture twice. Candidates are
+ * tried best first; one that looks like another event's image (or like a
+ * blacklisted one) is passed over for the next. An image that can't be
+ * hashed is taken as is, since there's no telling.
+ */
+export function createDistinctImages({ hashOf, getBlacklistedHashes = () => [] }: DistinctImagesOptions): DistinctImages {
+  // eventId -> hash of the image it got
+  const taken = new Map<string, string>();
+
+  const pick = async (eventId: string, candidates: ImageCandidate[]): Promise<DistinctImagePick> => {
+    const rejected = new Set<string>();
+
+    for (const candidate of candidates) {
+      const hash = await hashOf(candidate.imageUrl);
+      if (!hash) return { candidate, candidates: candidates.filter((c) => !rejected.has(c.imageUrl)), rejected: [...rejected] };
+
+      // Checked and claimed in one go, so parallel searches can't both take it
+      const blacklisted = [...getBlacklistedHashes()].some((other) => isSameImage(hash, other));
+      const duplicate = [...taken].some(([otherId, other]) => otherId !== eventId && isSameImage(hash, other));
+      if (blacklisted || duplicate) {
+        console.log(`[Image Dedup] ${blacklisted ? 'Blacklisted' : 'Duplicate'} image skipped for ${eventId}:`, candidate.imageUrl.slice(0, 80));
+        rejected.add(candidate.imageUrl);
+        continue;
+      }
+
+      taken.set(eventId, hash);
+      return { candidate, candidates: candidates.filter((c) => !rejected.has(c.imageUrl)), rejected: [...rejected] };
+    }
+
+    return { candidate: null, candidates: [], rejected: [...rejected] };
+  };
+
+  return {
+    pick,
+    release: (eventId) => taken.delete(eventId),
+    reset: () => taken.clear(),
+  };
+}
+
+// Searches again when every candidate was rejected, before an event goes without
+const MAX_RESEARCHES = 2;
+
+/**
+ * Searches an image for a request that the timeline doesn't show yet. When
+ * the search's candidates are all duplicates or blacklisted, it runs again
+ * without them, so the rest of the tier and the later tiers get their turn.
+ */
+export async function searchDistinctImage(
+  search: ImageSearch,
+  images: DistinctImages,
+  request: ImageSearchRequest,
+): Promise<DistinctImageResult> {
+  const exclude = [...(request.exclude ?? [])];
+
+  for (let attempt = 0; ; attempt++) {
+    const result = await search({ ...request, exclude });
+    const pick = await images.pick(request.eventId, result.candidates);
+    if (pick.candidate || pick.rejected.length === 0 || attempt === MAX_RESEARCHES) return { ...pick, result };
+
+    console.log(`[Image Dedup] All candidates rejected for ${request.eventId}, searching again without them`);
+    exclude.push(...pick.rejected);
+  }
+}
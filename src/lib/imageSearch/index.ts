@@ -0,0 +1,75 @@
+/**
+ * Image search for timeline events. Providers (Spotify, TMDB, Wikipedia,
+ * Commons, Nationaal Archief, DDG, earlier picks from the image picker) each
+ * return scored candidates; the routing table in src/data/imageRoutes.json
+ * decides which providers an event gets, and the ranker picks the winner.
+ */
+import { getBlacklistedImageHashes, getBlacklistedImages, initializeBlacklistCache } from '@/hooks/useImageBlacklist';
+import { computeImageHash } from '@/lib/imageHash';
+import type { TimelineEvent } from '@/types/timeline';
+import { IMAGE_PROVIDERS } from './providers';
+import { imageRouting } from './routing';
+import { recordImageChoice } from './providers/userChoice';
+import { createDistinctImages } from './dedup';
+import { createImageSearch, routeProviders } from './search';
+import type { ImageCandidate, ImageSearchRequest } from './types';
+
+export type {
+  ImageCandidate,
+  ImageProvider,
+  ImageResult,
+  ImageSearchRequest,
+  PreparedImageSearch,
+  ProviderResult,
+  RankedCandidate,
+  SearchTraceEntry,
+  VisualSubjectType,
+} from './types';
+export type { ImageRoute, ImageRouting } from './routing';
+export type { ImageSearch, ImageSearchOptions } from './search';
+export type { DistinctImagePick, DistinctImageResult, DistinctImages, DistinctImagesOptions } from './dedup';
+export type { AnonymizedTraceEntry, GroupQuality, ImageSearchQuality, SearchTraceRecord, SourceQuality } from './traces';
+export { createImageSearch, routeProviders } from './search';
+export { rankCandidates } from './ranker';
+export { createDistinctImages, searchDistinctImage } from './dedup';
+export { fetchImageSearchQuality, recordSearchTrace, toSearchTraceRecord } from './traces';
+export { imageRouting, imageRoutingSchema, matchRoute, prepareImageSearch } from './routing';
+export { IMAGE_PROVIDERS } from './providers';
+
+// Load the rejected images once; until then the local copy is used
+initializeBlacklistCache();
+
+export const searchImage = createImageSearch({
+  providers: IMAGE_PROVIDERS,
+  routing: imageRouting,
+  getBlacklist: getBlacklistedImages,
+});
+
+/** Keeps a timeline's images apart; each image search hook gets its own, as it searches one timeline. */
+export const createTimelineImageDedup = () =>
+  createDistinctImages({ hashOf: computeImageHash, getBlacklistedHashes: getBlacklistedImageHashes });
+
+/** The search request for an event. Movies use their movieSearchQuery, the title also looked up on YouTube. */
+export const imageSearchRequestFor = (event: TimelineEvent): ImageSearchRequest => ({
+  eventId: event.id,
+  query: event.movieSearchQuery || event.imageSearchQuery || event.title,
+  queryEn: event.movieSearchQuery || event.imageSearchQueryEn,
+  year: event.year,
+  category: event.category,
+  visualSubjectType: event.visualSubjectType,
+  isCelebrity: event.isCelebrityBirthday || event.category === 'celebrity',
+  isMovie: event.isMovie,
+  isTV: event.isTV,
+  isMusic: event.category === 'music' || !!event.spotifySearchQuery,
+  spotifySearchQuery: event.spotifySearchQuery,
+});
+
+/** Counts a user's pick for an event; picks shared by enough users boost that image in later searches. */
+export const rememberImageChoice = (event: TimelineEvent, candidate: ImageCandidate) =>
+  recordImageChoice(imageSearchRequestFor(event), candidate);
+
+/** Provider labels per tier for an event, as the debug dialog shows the routing. */
+export const describeImageRoute = (event: TimelineEvent): string[][] =>
+  routeProviders(IMAGE_PROVIDERS, imageRouting, imageSearchRequestFor(event)).map((tier) =>
+    tier.map((provider) => provider.label),
+  );
@@ -0,0 +1,46 @@
+/**
+ * DuckDuckGo image search through the search-images-tol edge function. The
+ * DDG API takes loose search terms and adds the decade itself ("Levis Jeans
+ * 80s"), so it gets the query as written rather than the cleaned-up one, and
+ * ranks its results on resolution, aspect ratio, domain trust and relevance.
+ */
+import { invokeWithRetry } from '@/lib/api/invokeWithRetry';
+import type { ImageProvider } from '../types';
+import { VISUAL_SUBJECT_TYPES } from '../routing';
+
+interface DdgSearchResponse {
+  imageUrl?: string | null;
+  searchQuery?: string;
+  score?: number | null;
+  cached?: boolean;
+  /** The best few results, imageUrl first; cache hits only have imageUrl */
+  images?: { imageUrl: string; score?: number | null; width?: number; height?: number }[];
+}
+
+// The API scores 0-100 (cache hits count as 100); without a score, assume a fair match
+const DEFAULT_SCORE = 0.6;
+const toScore = (score?: number | null) => (score && score > 0 ? Math.min(1, score > 1 ? score / 100 : score) : DEFAULT_SCORE);
+
+export const ddgProvider: ImageProvider = {
+  id: 'ddg',
+  label: '🔍 DDG/Tol',
+  subjects: VISUAL_SUBJECT_TYPES,
+  search: async (search) => {
+    const { year, category, queryEn, query: queryNl } = search.request;
+    const query = queryEn || queryNl;
+    const { data, error } = await invokeWithRetry<DdgSearchResponse>('search-images-tol', { body: { query, year, category } });
+    if (error) throw error;
+
+    const actualQuery = data?.searchQuery || query;
+    if (!data?.imageUrl) return { query: actualQuery, withYear: !!year, candidates: [] };
+    const source = data.cached ? 'DDG/Tol (cache)' : 'DDG/Tol';
+    const images: NonNullable<DdgSearchResponse['images']> = data.images?.length
+      ? data.images
+      : [{ imageUrl: data.imageUrl, score: data.score }];
+    return {
+      query: actualQuery,
+      withYear: !!year,
+      candidates: images.map(({ imageUrl, score, width, height }) => ({ imageUrl, source, score: toScore(score), width, height })),
+    };
+  },
+};
@@ -0,0 +1,20 @@
+import type { ImageProvider } from '../types';
+import { ddgProvider } from './ddg';
+import { spotifyProvider } from './spotify';
+import { tmdbMovieProvider, tmdbPersonProvider, tmdbTvProvider } from './tmdb';
+import { userChoiceProvider } from './userChoice';
+import { commonsProvider, nationaalArchiefProvider, wikipediaProvider } from './wikimedia';
+
+/** Every image source the routing table can use. New sources are added here and in src/data/imageRoutes.json. */
+export const IMAGE_PROVIDERS: readonly ImageProvider[] = [
+  userChoiceProvider,
+  spotifyProvider,
+  tmdbMovieProvider,
+  tmdbTvProvider,
+  tmdbPersonProvider,
+  nationaalArchiefProvider,
+  commonsProvider,
+  wikipediaProvider('en'),
+  wikipediaProvider('nl'),
+  ddgProvider,
+];
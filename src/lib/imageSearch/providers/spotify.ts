@@ -0,0 +1,40 @@
+/**
+ * Album artwork from Spotify, for music events: more reliable than a
+ * Wikipedia photo of the artist.
+ */
+import { invokeWithRetry } from '@/lib/api/invokeWithRetry';
+import type { ImageProvider } from '../types';
+
+interface SpotifySearchResponse {
+  albumImage?: string;
+  trackId?: string;
+  trackName?: string;
+  artistName?: string;
+  spotifyUrl?: string;
+}
+
+export const spotifyProvider: ImageProvider = {
+  id: 'spotify',
+  label: '🎵 Spotify',
+  subjects: ['person', 'artwork', 'product', 'event', 'culture', 'lifestyle'],
+  accepts: (search) => search.isMusic || !!search.request.spotifySearchQuery,
+  search: async (search) => {
+    const query = search.request.spotifySearchQuery || search.queryEn;
+    const { data, error } = await invokeWithRetry<SpotifySearchResponse>('search-spotify', { body: { query } });
+    if (error) throw error;
+
+    if (!data?.albumImage || !data.trackId) return { query, withYear: false, candidates: [] };
+    console.log(`[Spotify Art] Found album art for "${data.trackName}" by ${data.artistName}`);
+    return {
+      query,
+      withYear: false,
+      candidates: [
+        {
+          imageUrl: data.albumImage,
+          source: data.spotifyUrl || `https://open.spotify.com/track/${data.trackId}`,
+          score: 0.95,
+        },
+      ],
+    };
+  },
+};
@@ -0,0 +1,68 @@
+/**
+ * TMDB posters and portraits, through the search-images edge function
+ * (which holds the API key) narrowed to its TMDB source.
+ */
+import { invokeWithRetry } from '@/lib/api/invokeWithRetry';
+import { cleanQueryForTMDB } from '../queries';
+import type { ImageCandidate, ImageProvider, PreparedImageSearch } from '../types';
+
+type TmdbKind = 'movie' | 'tv' | 'person';
+
+async function searchTMDB(search: PreparedImageSearch, kind: TmdbKind, query: string): Promise<ImageCandidate[]> {
+  const { eventId, year, spotifySearchQuery } = search.request;
+  const { data, error } = await invokeWithRetry<{ images?: { imageUrl: string | null; source: string | null }[] }>(
+    'search-images',
+    {
+      body: {
+        queries: [
+          {
+            eventId,
+            query,
+            year: kind === 'person' ? undefined : year,
+            isCelebrity: kind === 'person',
+            isMovie: kind === 'movie',
+            isTV: kind === 'tv',
+            isMusic: search.isMusic,
+            spotifySearchQuery,
+            sources: ['tmdb'],
+          },
+        ],
+      },
+    },
+  );
+  if (error) throw error;
+
+  const image = data?.images?.[0];
+  if (!image?.imageUrl) return [];
+  // TMDB matches titles and names itself; a poster for the right year is a near-certain hit
+  return [{ imageUrl: image.imageUrl, source: image.source || 'TMDB', score: kind === 'person' ? 0.9 : 0.95 }];
+}
+
+const LABELS: Record<TmdbKind, string> = {
+  movie: '🎬 TMDB Movie',
+  tv: '📺 TMDB TV',
+  person: '👤 TMDB Person',
+};
+
+const tmdbProvider = (kind: TmdbKind): ImageProvider => ({
+  id: `tmdb-${kind}`,
+  label: LABELS[kind],
+  subjects: [kind],
+  search: async (search) => {
+    const query = cleanQueryForTMDB(search.queryEn);
+    let candidates = await searchTMDB(search, kind, query);
+
+    // Music: try the artist alone ("Artist - Title" → "Artist")
+    const artistOnly = search.request.spotifySearchQuery?.split(' - ')[0]?.trim();
+    if (candidates.length === 0 && kind === 'person' && search.isMusic && artistOnly && artistOnly !== query) {
+      candidates = await searchTMDB(search, kind, artistOnly);
+      if (candidates.length > 0) return { query: artistOnly, withYear: false, candidates };
+    }
+
+    return { query, withYear: kind !== 'person' && !!search.request.year, candidates };
+  },
+});
+
+export const tmdbMovieProvider = tmdbProvider('movie');
+export const tmdbTvProvider = tmdbProvider('tv');
+export const tmdbPersonProvider = tmdbProvider('person');
@@ -0,0 +1,48 @@
+/**
+ * Images users picked in the image picker, as a ranking signal. Picks are
+ * kept per user in image_choices (written by the record_image_choice
+ * database function); get_image_choices only returns images that enough
+ * different users picked for the same event. The provider is boostOnly: a
+ * pick raises the image when the event's own search finds it again, so it can
+ * reorder the search's candidates but never brings in an image of its own.
+ */
+import { supabase } from '@/integrations/supabase/client';
+import type { ImageCandidate, ImageProvider, ImageSearchRequest } from '../types';
+import { VISUAL_SUBJECT_TYPES } from '../routing';
+
+/** Requests with the same query and year share their picks, whichever story they come from. */
+export const imageChoiceKey = (request: ImageSearchRequest) =>
+  `${request.queryEn || request.query} ${request.year ?? ''}`.toLowerCase().trim().replace(/\s+/g, ' ');
+
+export const userChoiceProvider: ImageProvider = {
+  id: 'user-choice',
+  label: '⭐ User choice',
+  subjects: VISUAL_SUBJECT_TYPES,
+  boostOnly: true,
+  search: async (search) => {
+    const query = imageChoiceKey(search.request);
+    const withYear = !!search.request.year;
+    const { data, error } = await supabase.rpc('get_image_choices', { p_query: query });
+    if (error) throw error;
+
+    // The boost itself is the provider's weight in the routing table
+    return {
+      query,
+      withYear,
+      candidates: (data ?? []).map(({ image_url }) => ({ imageUrl: image_url, source: 'User choice', score: 1 })),
+    };
+  },
+};
+
+/** Remembers the image a user picked for a request. Only signed-in users' picks count; false when it wasn't saved. */
+export async function recordImageChoice(request: ImageSearchRequest, candidate: ImageCandidate): Promise<boolean> {
+  const { error } = await supabase.rpc('record_image_choice', {
+    p_query: imageChoiceKey(request),
+    p_image_url: candidate.imageUrl,
+  });
+  if (error) {
+    console.warn('[Image Choice] Not saved:', error.message);
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,250 @@
+/**
+ * Wikipedia, Wikimedia Commons and the Nationaal Archief collection on Commons.
+ * Products, logos and the like are searched without the year and with loose
+ * title matching (SVGs only as a last resort); everything else with the year
+ * first and then without, since many pages don't mention it.
+ */
+import type { ImageCredit } from '@/types/timeline';
+import type { ImageCandidate, ImageProvider, PreparedImageSearch, ProviderResult, VisualSubjectType } from '../types';
+import { VISUAL_SUBJECT_TYPES } from '../routing';
+
+const THUMB_WIDTH = 960;
+const MAX_CANDIDATES = 3;
+
+const OBJECT_SUBJECTS: VisualSubjectType[] = ['product', 'logo', 'artwork', 'lifestyle'];
+const LOCAL_CATEGORIES = ['local', 'politics', 'culture', 'sports'];
+
+interface SearchPhase {
+  year?: number;
+  /** All query words in the title or snippet, instead of just the first one in the title */
+  strict: boolean;
+  allowSvg: boolean;
+}
+
+function isAllowedImageUrl(maybeUrl: string, allowSvg: boolean = false): boolean {
+  try {
+    const url = new URL(maybeUrl);
+    const path = url.pathname.toLowerCase();
+    const fullUrl = maybeUrl.toLowerCase();
+
+    // Blokkeer transcoded content
+    if (path.includes("/transcoded/")) return false;
+
+    // Blokkeer audio/video/pdf bestanden - ook als ze ergens in het pad zitten
+    const blockedExtensions = /\.(mp3|ogg|wav|webm|mp4|ogv|pdf|tif|tiff|flac|aac|m4a|oga)$/;
+    if (path.match(blockedExtensions)) return false;
+
+    // Extra check: blokkeer URLs die naar PDF/audio lijken te verwijzen
+    if (fullUrl.includes("/pdf/") || (fullUrl.includes("file:") && fullUrl.includes(".pdf"))) return false;
+
+    // SVG alleen toestaan als expliciet gevraagd (voor logos/producten)
+    if (path.endsWith(".svg") && !allowSvg) return false;
+
+    return path.match(/\.(jpg|jpeg|png|webp|gif|svg)$/) !== null;
+  } catch {
+    return false;
+  }
+}
+
+const normalize = (s: string) =>
+  s
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "");
+
+/**
+ * How well a search result matches the query, 0 when not at all. All words
+ * in the title or snippet is a good match ("moon landing" finds Apollo 11
+ * photos through the snippet); one word in the title is a weak one. Loose
+ * matching (products, logos) only asks for the first significant word.
+ */
+function matchScore(title: string, snippet: string | undefined, query: string, strict: boolean): number {
+  const words = normalize(query).split(/\s+/).filter((w) => w.length > 2);
+  const t = normalize(title);
+  const s = snippet ? normalize(snippet) : "";
+
+  if (!strict) {
+    return !words[0] || t.includes(words[0]) ? 0.7 : 0;
+  }
+  if (words.every((w) => t.includes(w) || s.includes(w))) return 0.9;
+  return words.some((w) => t.includes(w)) ? 0.6 : 0;
+}
+
+type ExtMetadata = Record<string, { value?: string } | undefined>;
+
+// Plain text of an extmetadata value, which may be HTML (a link to the author's user page)
+const plainText = (html?: string): string | undefined => {
+  if (!html) return undefined;
+  const text = new DOMParser().parseFromString(html, 'text/html').body.textContent?.replace(/\s+/g, ' ').trim();
+  return text || undefined;
+};
+
+/**
+ * Author and license of image files, from their description pages. Files
+ * marked NonFree (fair use on Wikipedia) may not be republished; files with
+ * any other stated license may, with attribution.
+ */
+async function fetchCredits(origin: string, files: string[]): Promise<Map<string, ImageCredit>> {
+  const credits = new Map<string, ImageCredit>();
+  if (files.length === 0) return credits;
+
+  const url = `${origin}/w/api.php?action=query&titles=${encodeURIComponent(files.join('|'))}&prop=imageinfo&iiprop=extmetadata&iiextmetadatafilter=Artist|LicenseShortName|LicenseUrl|NonFree&format=json&origin=*`;
+  try {
+    const res = await fetch(url);
+    if (!res.ok) return credits;
+    const data = await res.json();
+    // Titles come back normalized ("File:X" is "Bestand:X" on nl.wikipedia)
+    const requested = new Map<string, string>(
+      (data.query?.normalized ?? []).map(({ from, to }: { from: string; to: string }) => [to, from]),
+    );
+    const pages: { title: string; imageinfo?: { extmetadata?: ExtMetadata }[] }[] = Object.values(data.query?.pages ?? {});
+
+    for (const page of pages) {
+      const meta = page.imageinfo?.[0]?.extmetadata;
+      if (!meta) continue;
+      const license = plainText(meta.LicenseShortName?.value);
+      credits.set(requested.get(page.title) ?? page.title, {
+        author: plainText(meta.Artist?.value),
+        license,
+        licenseUrl: meta.LicenseUrl?.value,
+        sourceUrl: `${origin}/wiki/${encodeURIComponent(page.title.replace(/ /g, '_'))}`,
+        redistributable: meta.NonFree?.value === 'true' ? false : license ? true : undefined,
+      });
+    }
+  } catch (error) {
+    console.log(`[Wiki Fetch] No credits from ${origin}:`, error);
+  }
+  return credits;
+}
+
+// Search results with a usable image, best first. Blacklisted images are left to the ranker.
+async function fetchWikiCandidates(searchUrl: string, query: string, phase: SearchPhase): Promise<ImageCandidate[]> {
+  const res = await fetch(searchUrl);
+  if (!res.ok) {
+    console.log(`[Wiki Fetch] HTTP error for query "${query}": ${res.status}`);
+    return [];
+  }
+  const data = await res.json();
+  const results: { title: string; snippet?: string }[] = data.query?.search || [];
+  const origin = new URL(searchUrl).origin;
+  const candidates: ImageCandidate[] = [];
+  // The image file behind each candidate, for its credit
+  const files: string[] = [];
+
+  for (const result of results) {
+    if (candidates.length >= MAX_CANDIDATES) break;
+
+    // Dit zorgt dat PDF's en video's direct worden genegeerd op basis van hun titel
+    if (result.title.match(/\.(pdf|djvu|stl|ogg|ogv|oga|mp3|wav|flac|webm|mp4|avi|mov|mkv|svg|tif|tiff)$/i)) continue;
+
+    const match = matchScore(result.title, result.snippet, query, phase.strict);
+    if (match === 0) continue;
+
+    // Page image of the article or file, from the wiki that found it
+    const infoUrl = `${origin}/w/api.php?action=query&titles=${encodeURIComponent(result.title)}&prop=pageimages|imageinfo&piprop=thumbnail|original|name&iiprop=url|size&iiurlwidth=${THUMB_WIDTH}&pithumbsize=${THUMB_WIDTH}&format=json&origin=*`;
+    const imgRes = await fetch(infoUrl);
+    if (!imgRes.ok) continue;
+    const imgData = await imgRes.json();
+    const pageId = Object.keys(imgData.query?.pages || {})[0];
+    if (!pageId || pageId === "-1") continue;
+
+    const page = imgData.query.pages[pageId];
+    const info = page.imageinfo?.[0];
+    const thumb: string | undefined = page.thumbnail?.source || info?.thumburl || info?.url;
+    if (!thumb || !isAllowedImageUrl(thumb, phase.allowSvg)) continue;
+
+    // Later results and SVG fallbacks are less likely to be what we want
+    const svgPenalty = thumb.toLowerCase().endsWith('.svg') ? 0.8 : 1;
+    candidates.push({
+      imageUrl: thumb,
+      source: `${origin}/wiki/${encodeURIComponent(result.title)}`,
+      score: Math.max(0, (match - candidates.length * 0.05) * svgPenalty),
+      width: page.original?.width ?? info?.width,
+      height: page.original?.height ?? info?.height,
+    });
+    // Articles show one of their files; search results on Commons are files themselves
+    files.push(page.pageimage ? `File:${page.pageimage}` : result.title);
+  }
+
+  if (candidates.length === 0) return candidates;
+  console.log(`[Wiki Fetch] ✓ ${candidates.length} image(s) for "${query}" from ${origin}`);
+
+  const credits = await fetchCredits(origin, files);
+  return candidates.map((candidate, i) => ({ ...candidate, credit: credits.get(files[i]) }));
+}
+
+function searchPhases(search: PreparedImageSearch): SearchPhase[] {
+  const { year } = search.request;
+  if (OBJECT_SUBJECTS.includes(search.subject)) {
+    // GEEN JAARTAL voor games/logos/producten - eerst echte foto's, dan SVG
+    return [
+      { strict: false, allowSvg: false },
+      { strict: false, allowSvg: true },
+    ];
+  }
+  // Royalty, politicians and other people: their page doesn't need the year
+  if (search.subject === 'person' || !year) return [{ strict: true, allowSvg: false }];
+  return [
+    { year, strict: true, allowSvg: false },
+    { strict: true, allowSvg: false },
+  ];
+}
+
+/** Tries each phase with each query until one finds images. */
+async function searchWiki(
+  search: PreparedImageSearch,
+  queries: string[],
+  buildUrl: (query: string, year?: number) => string,
+): Promise<ProviderResult> {
+  const phases = searchPhases(search);
+  const uniqueQueries = [...new Set(queries)];
+
+  for (const phase of phases) {
+    for (const query of uniqueQueries) {
+      const candidates = await fetchWikiCandidates(buildUrl(query, phase.year), query, phase);
+      if (candidates.length > 0) return { query, withYear: !!phase.year, candidates };
+    }
+  }
+  return { query: uniqueQueries[0], withYear: !!phases[0].year, candidates: [] };
+}
+
+const withYear = (query: string, year?: number) => encodeURIComponent(year ? `${query} ${year}` : query);
+
+export const wikipediaProvider = (lang: 'en' | 'nl'): ImageProvider => ({
+  id: `wikipedia-${lang}`,
+  label: `📖 Wikipedia ${lang.toUpperCase()}`,
+  subjects: VISUAL_SUBJECT_TYPES,
+  search: (search) =>
+    searchWiki(search, [lang === 'nl' ? search.queryNl : search.queryEn], (query, year) =>
+      `https://${lang}.wikipedia.org/w/api.php?action=query&list=search&srsearch=${withYear(query, year)}&format=json&origin=*`,
+    ),
+});
+
+export const commonsProvider: ImageProvider = {
+  id: 'commons',
+  label: '🖼️ Commons',
+  subjects: VISUAL_SUBJECT_TYPES,
+  search: (search) => {
+    // Lokale/culturele events eerst met de Nederlandse query, anders vindt
+    // "Bijlmer disaster memorial, Jerusalem" het i.p.v. de Bijlmerramp
+    const isLocal =
+      LOCAL_CATEGORIES.includes(search.request.category ?? '') || search.subject === 'culture' || search.subject === 'location';
+    const queries = isLocal ? [search.queryNl, search.queryEn] : [search.queryEn, search.queryNl];
+    return searchWiki(search, queries, (query, year) =>
+      `https://commons.wikimedia.org/w/api.php?action=query&list=search&srsearch=${withYear(query, year)}&srnamespace=6&format=json&origin=*`,
+    );
+  },
+};
+
+export const nationaalArchiefProvider: ImageProvider = {
+  id: 'nationaal-archief',
+  label: '🏛️ Nationaal Archief',
+  subjects: ['event', 'location', 'culture', 'person'],
+  search: async (search) => {
+    const query = search.queryNl;
+    const { year } = search.request;
+    const searchUrl = `https://commons.wikimedia.org/w/api.php?action=query&list=search&srsearch=${encodeURIComponent(`${query} ${year || ""} Nationaal Archief`)}&srnamespace=6&format=json&origin=*`;
+    const candidates = await fetchWikiCandidates(searchUrl, query, { strict: true, allowSvg: false });
+    return { query, withYear: !!year, candidates };
+  },
+};
@@ -0,0 +1,37 @@
+import type { ImageCandidate, RankedCandidate } from './types';
+
+/**
+ * Orders candidates from all providers asked so far, best first: each
+ * provider's score is multiplied by the weight the routing table gives that
+ * provider. Blacklisted images are dropped and an image found by several
+ * providers counts once, at its best score. Boosts (candidates of boostOnly
+ * providers) are added to that score, and dropped when no other provider
+ * found their image. Ties keep their original order, so earlier tiers and
+ * earlier providers in a tier win.
+ */
+export function rankCandidates(
+  candidates: (ImageCandidate & { providerId: string; boost?: boolean })[],
+  weights: Record<string, number>,
+  blacklist: ReadonlySet<string> = new Set(),
+): RankedCandidate[] {
+  const best = new Map<string, RankedCandidate>();
+  const boosts = new Map<string, number>();
+
+  for (const { boost, ...candidate } of candidates) {
+    if (blacklist.has(candidate.imageUrl)) continue;
+    const weightedScore = candidate.score * (weights[candidate.providerId] ?? 1);
+    if (boost) {
+      boosts.set(candidate.imageUrl, Math.max(boosts.get(candidate.imageUrl) ?? 0, weightedScore));
+      continue;
+    }
+    const current = best.get(candidate.imageUrl);
+    if (!current || weightedScore > current.weightedScore) {
+      best.set(candidate.imageUrl, { ...candidate, weightedScore });
+    }
+  }
+
+  return Array.from(best.values(), (candidate) => ({
+    ...candidate,
+    weightedScore: candidate.weightedScore + (boosts.get(candidate.imageUrl) ?? 0),
+  })).sort((a, b) => b.weightedScore - a.weightedScore);
+}
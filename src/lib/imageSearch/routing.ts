@@ -0,0 +1,101 @@
+/**
+ * Routing table for image search, loaded from src/data/imageRoutes.json: per
+ * kind of event, which providers to ask and in which tiers. Providers within
+ * a tier are asked together and the ranker picks the best image among them;
+ * the next tier is only tried when nothing scores `minScore` or better.
+ * Routes are matched top to bottom, so the last one should match everything.
+ */
+import { z } from 'zod';
+import imageRoutesJson from '@/data/imageRoutes.json?raw';
+import { normalizeSearchQuery, simplifyWeatherQuery } from './queries';
+import type { ImageSearchRequest, PreparedImageSearch, VisualSubjectType } from './types';
+
+export const VISUAL_SUBJECT_TYPES = [
+  'person',
+  'movie',
+  'tv',
+  'product',
+  'logo',
+  'event',
+  'location',
+  'artwork',
+  'lifestyle',
+  'culture',
+] as const satisfies readonly VisualSubjectType[];
+
+export const imageRouteSchema = z.object({
+  name: z.string().min(1),
+  /** Every condition given must hold; an empty object matches any event */
+  when: z.object({
+    music: z.boolean().optional(),
+    subjects: z.array(z.enum(VISUAL_SUBJECT_TYPES)).min(1).optional(),
+    categories: z.array(z.string()).min(1).optional(),
+  }),
+  /** Provider ids, grouped into tiers that are tried in order */
+  tiers: z.array(z.array(z.string().min(1)).min(1)).min(1),
+});
+
+export const imageRoutingSchema = z
+  .object({
+    version: z.number().int().positive(),
+    /** Weighted score at which a tier's best image is good enough to stop */
+    minScore: z.number().min(0).max(1),
+    /** Trust per provider id, multiplied with its own score; 1 when left out */
+    weights: z.record(z.string(), z.number().min(0)),
+    routes: z.array(imageRouteSchema).min(1),
+  })
+  .superRefine((routing, ctx) => {
+    const last = routing.routes[routing.routes.length - 1];
+    if (Object.keys(last.when).length > 0) {
+      ctx.addIssue({ code: 'custom', path: ['routes', routing.routes.length - 1, 'when'], message: 'the last route must match every event' });
+    }
+  });
+
+export type ImageRoute = z.infer<typeof imageRouteSchema>;
+export type ImageRouting = z.infer<typeof imageRoutingSchema>;
+
+export const imageRouting: ImageRouting = imageRoutingSchema.parse(JSON.parse(imageRoutesJson));
+
+const isVisualSubjectType = (value?: string): value is VisualSubjectType =>
+  (VISUAL_SUBJECT_TYPES as readonly string[]).includes(value ?? '');
+
+const OBJECT_CATEGORIES = ['technology', 'science', 'entertainment'];
+
+/**
+ * The subject to search for. Explicit TV and movie flags win; events from
+ * before visualSubjectType existed (old caches) get one from their category -
+ * entertainment is not "movie", since games are entertainment too.
+ */
+export function resolveSubject(request: ImageSearchRequest): VisualSubjectType {
+  if (request.isTV) return 'tv';
+  if (request.isMovie) return 'movie';
+  if (isVisualSubjectType(request.visualSubjectType)) return request.visualSubjectType;
+  if (request.isCelebrity || request.isMusic || request.category === 'music' || request.category === 'celebrity') return 'person';
+  if (OBJECT_CATEGORIES.includes(request.category ?? '')) return 'product';
+  return 'event';
+}
+
+/** Cleans up the queries and works out the subject, once for all providers. */
+export function prepareImageSearch(request: ImageSearchRequest): PreparedImageSearch {
+  // "Sneeuwpret in Hilversum" -> "Sneeuwpret", then Sinterklaas, decades, colours etc.
+  const queryNl = normalizeSearchQuery(simplifyWeatherQuery(request.query), 'nl');
+  const queryEn = normalizeSearchQuery(simplifyWeatherQuery(request.queryEn || request.query), 'en');
+
+  return {
+    request,
+    subject: resolveSubject(request),
+    isMusic: !!request.isMusic || request.category === 'music',
+    queryNl,
+    queryEn,
+  };
+}
+
+export function matchRoute(routing: ImageRouting, search: PreparedImageSearch): ImageRoute {
+  const matches = ({ when }: ImageRoute) =>
+    (when.music === undefined || when.music === search.isMusic) &&
+    (!when.subjects || when.subjects.includes(search.subject)) &&
+    (!when.categories || when.categories.includes(search.request.category ?? ''));
+
+  // The schema guarantees a catch-all last route
+  return routing.routes.find(matches) ?? routing.routes[routing.routes.length - 1];
+}
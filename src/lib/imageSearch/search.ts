@@ -0,0 +1,105 @@
+import { rankCandidates } from './ranker';
+import { ImageRouting, matchRoute, prepareImageSearch } from './routing';
+import type {
+  ImageCandidate,
+  ImageProvider,
+  ImageResult,
+  ImageSearchRequest,
+  PreparedImageSearch,
+  RankedCandidate,
+  SearchTraceEntry,
+} from './types';
+
+export interface ImageSearchOptions {
+  providers: readonly ImageProvider[];
+  routing: ImageRouting;
+  /** Image URLs never to return, e.g. images users rejected */
+  getBlacklist?: () => Iterable<string>;
+}
+
+export type ImageSearch = (request: ImageSearchRequest) => Promise<ImageResult>;
+
+// How many images the picker gets to offer
+const MAX_CANDIDATES = 6;
+
+const canRun = (provider: ImageProvider, search: PreparedImageSearch) =>
+  provider.subjects.includes(search.subject) && (provider.accepts?.(search) ?? true);
+
+const tiersFor = (providers: readonly ImageProvider[], routing: ImageRouting, search: PreparedImageSearch) => {
+  const registry = new Map(providers.map((provider) => [provider.id, provider]));
+  return matchRoute(routing, search)
+    .tiers.map((tier) => tier.flatMap((id) => registry.get(id) ?? []).filter((provider) => canRun(provider, search)))
+    .filter((tier) => tier.length > 0);
+};
+
+/** The providers a request's route will ask, tier by tier, without those that don't handle its subject. */
+export const routeProviders = (providers: readonly ImageProvider[], routing: ImageRouting, request: ImageSearchRequest) =>
+  tiersFor(providers, routing, prepareImageSearch(request));
+
+/**
+ * Builds an image search over the given providers. The app uses the default
+ * providers (searchImage in ./index); tests pass fakes to stay offline.
+ */
+export function createImageSearch({ providers, routing, getBlacklist = () => [] }: ImageSearchOptions): ImageSearch {
+  const knownIds = new Set(providers.map((provider) => provider.id));
+  routing.routes.forEach((route) =>
+    route.tiers.flat().forEach((id) => {
+      if (!knownIds.has(id)) console.warn(`[Image Search] Route "${route.name}" uses unknown provider "${id}"`);
+    }),
+  );
+
+  return async (request) => {
+    const search = prepareImageSearch(request);
+    const blacklist = new Set([...getBlacklist(), ...(request.exclude ?? [])]);
+    const searchTrace: SearchTraceEntry[] = [];
+    const startTime = Date.now();
+    const found: (ImageCandidate & { providerId: string; boost?: boolean })[] = [];
+    let ranked: RankedCandidate[] = [];
+
+    const ask = async (provider: ImageProvider) => {
+      try {
+        const { query, withYear, candidates } = await provider.search(search);
+        const usable = candidates.filter((candidate) => !blacklist.has(candidate.imageUrl));
+        searchTrace.push({
+          source: provider.label,
+          query,
+          withYear,
+          result: usable.length > 0 ? 'found' : 'not_found',
+          timestamp: Date.now() - startTime,
+          imageUrl: usable[0]?.imageUrl,
+          score: usable[0]?.score,
+        });
+        return usable.map((candidate) => ({ ...candidate, providerId: provider.id, boost: provider.boostOnly }));
+      } catch (error) {
+        console.error(`[Image Search] ${provider.id} failed:`, error);
+        searchTrace.push({
+          source: provider.label,
+          query: search.queryEn,
+          withYear: false,
+          result: 'error',
+          timestamp: Date.now() - startTime,
+        });
+        return [];
+      }
+    };
+
+    for (const tier of tiersFor(providers, routing, search)) {
+      // Promise.all keeps the tier's order, which breaks ties in the ranking
+      (await Promise.all(tier.map(ask))).forEach((candidates) => found.push(...candidates));
+      ranked = rankCandidates(found, routing.weights, blacklist);
+      if (ranked[0] && ranked[0].weightedScore >= routing.minScore) break;
+    }
+
+    // Below minScore everywhere: the best weak match still beats no image
+    const winner = ranked[0];
+    return {
+      eventId: request.eventId,
+      imageUrl: winner?.imageUrl ?? null,
+      source: winner?.source ?? null,
+      searchTrace,
+      candidates: ranked
+        .slice(0, MAX_CANDIDATES)
+        .map(({ providerId: _providerId, weightedScore, ...candidate }) => ({ ...candidate, score: weightedScore })),
+    };
+  };
+}
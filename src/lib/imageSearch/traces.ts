@@ -0,0 +1,90 @@
+/**
+ * Search traces kept server-side (image_search_traces, through the
+ * record_image_search_trace database function), for the search quality
+ * dashboard at /admin/image-search. Traces are anonymized before they leave
+ * the browser: no event title or user, the query only for non-personal
+ * events, and the trace entries without the queries providers sent.
+ */
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { TimelineEvent } from '@/types/timeline';
+import type { ImageCandidate, ImageResult, SearchTraceEntry } from './types';
+
+export type AnonymizedTraceEntry = Pick<SearchTraceEntry, 'source' | 'result' | 'timestamp' | 'withYear' | 'score'>;
+
+export interface SearchTraceRecord {
+  p_language: string;
+  p_duration_ms: number;
+  p_entries: AnonymizedTraceEntry[];
+  p_visual_subject_type?: string;
+  p_category?: string;
+  p_query?: string;
+  p_image_url?: string;
+  p_winner?: string;
+}
+
+/** What gets stored for one search. The winner is the provider whose image the event got, if the dedup kept it. */
+export function toSearchTraceRecord(
+  event: TimelineEvent,
+  result: ImageResult,
+  chosen: ImageCandidate | null,
+  { language, durationMs }: { language: string; durationMs: number },
+): SearchTraceRecord {
+  const entries = result.searchTrace ?? [];
+  const winner = chosen ? entries.find((entry) => entry.imageUrl === chosen.imageUrl)?.source : undefined;
+  // Personal events are about the user's own life; their queries stay in the browser
+  const query = event.category === 'personal' ? undefined : event.imageSearchQueryEn || event.imageSearchQuery;
+
+  return {
+    p_language: language,
+    p_duration_ms: Math.max(0, Math.round(durationMs)),
+    p_entries: entries.map(({ source, result, timestamp, withYear, score }) => ({ source, result, timestamp, withYear, score })),
+    p_visual_subject_type: event.visualSubjectType,
+    p_category: event.category,
+    p_query: query,
+    p_image_url: chosen?.imageUrl,
+    p_winner: winner,
+  };
+}
+
+/** Stores a search's trace. Fire and forget: a trace that isn't saved only thins out the dashboard. */
+export async function recordSearchTrace(record: SearchTraceRecord): Promise<void> {
+  const { error } = await supabase.rpc('record_image_search_trace', { ...record, p_entries: record.p_entries as unknown as Json });
+  if (error) console.warn('[Image Trace] Not saved:', error.message);
+}
+
+export interface SourceQuality {
+  source: string;
+  /** Searches that asked this provider */
+  asked: number;
+  found: number;
+  errors: number;
+  /** Searches whose image came from this provider */
+  won: number;
+}
+
+export interface GroupQuality {
+  key: string;
+  searches: number;
+  found: number;
+  avgTimeToImageMs: number | null;
+}
+
+export interface ImageSearchQuality {
+  days: number;
+  searches: number;
+  found: number;
+  avgTimeToImageMs: number | null;
+  bySource: SourceQuality[];
+  bySubject: GroupQuality[];
+  byLanguage: GroupQuality[];
+  blacklistedBySource: { source: string; blacklisted: number }[];
+  neverFound: { query: string; visualSubjectType: string | null; searches: number; lastSearchedAt: string }[];
+}
+
+/** Hit rates, timings, blacklisted sources and queries without images over the last `days` days. */
+export async function fetchImageSearchQuality(days: number): Promise<ImageSearchQuality> {
+  const { data, error } = await supabase.rpc('get_image_search_quality', { p_days: days });
+  if (error) throw error;
+  return data as unknown as ImageSearchQuality;
+}
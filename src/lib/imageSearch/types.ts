@@ -0,0 +1,75 @@
+import type { ImageCandidate, SearchTraceEntry, TimelineEvent } from '@/types/timeline';
+
+export type { ImageCandidate, SearchTraceEntry } from '@/types/timeline';
+
+export type VisualSubjectType = TimelineEvent['visualSubjectType'];
+
+export interface ImageResult {
+  eventId: string;
+  imageUrl: string | null;
+  source: string | null;
+  searchTrace?: SearchTraceEntry[];
+  /** The best images across the providers asked, the winner first */
+  candidates: ImageCandidate[];
+}
+
+/** What to find an image for; imageSearchRequestFor() builds one from an event. */
+export interface ImageSearchRequest {
+  eventId: string;
+  query: string;
+  queryEn?: string;
+  year?: number;
+  category?: string;
+  visualSubjectType?: string;
+  isCelebrity?: boolean;
+  isMovie?: boolean;
+  isTV?: boolean;
+  isMusic?: boolean;
+  spotifySearchQuery?: string;
+  /** Image URLs to leave out of this search only, e.g. ones the timeline already shows */
+  exclude?: string[];
+}
+
+/** A request after query clean-up and subject detection, as providers get it. */
+export interface PreparedImageSearch {
+  request: ImageSearchRequest;
+  subject: VisualSubjectType;
+  isMusic: boolean;
+  queryNl: string;
+  queryEn: string;
+}
+
+export interface ProviderResult {
+  /** The query the provider sent, for the search trace */
+  query: string;
+  withYear: boolean;
+  /** Best first, each scored by the provider's own confidence in the match */
+  candidates: ImageCandidate[];
+}
+
+/**
+ * An image source. Which providers run for an event, and in what order, is
+ * decided by the routing table (src/data/imageRoutes.json); a provider only
+ * says which subjects it can find images for.
+ */
+export interface ImageProvider {
+  /** Referenced from the routing table, e.g. "commons" */
+  id: string;
+  /** Shown in the search trace, e.g. "🖼️ Commons" */
+  label: string;
+  subjects: readonly VisualSubjectType[];
+  /** Extra precondition, e.g. Spotify only for music events */
+  accepts?: (search: PreparedImageSearch) => boolean;
+  /**
+   * Only raises the score of images other providers find in the same search
+   * and never brings in images of its own, e.g. earlier picks from the picker
+   */
+  boostOnly?: boolean;
+  search: (search: PreparedImageSearch) => Promise<ProviderResult>;
+}
+
+export interface RankedCandidate extends ImageCandidate {
+  providerId: string;
+  /** score × the provider's weight from the routing table */
+  weightedScore: number;
+}
@@ -1,14 +1,10 @@
 /**
- * Session cache for /muziek and /tv-film overview pages.
+ * Cache for /muziek and /tv-film overview pages.
  * Avoids re-fetching local hits / TV-film lists + Spotify/YouTube lookups
- * when navigating between the two pages.
+ * when navigating between the two pages. Stored in the persistent timeline
+ * library (IndexedDB), which evicts by size instead of a fixed TTL.
  */
-const TTL_MS = 1000 * 60 * 60 * 24; // 24h
-
-interface Entry<T> {
-  cachedAt: number;
-  data: T;
-}
+import { readOverview, writeOverview } from '@/lib/timelineLibrary';
 
 const buildKey = (
   prefix: string,
@@ -24,16 +20,8 @@ export function readOverviewCache<T>(
   endYear: number,
   city: string,
   language: string
-): T | null {
-  try {
-    const raw = sessionStorage.getItem(buildKey(prefix, startYear, endYear, city, language));
-    if (!raw) return null;
-    const entry: Entry<T> = JSON.parse(raw);
-    if (Date.now() - entry.cachedAt > TTL_MS) return null;
-    return entry.data;
-  } catch {
-    return null;
-  }
+): Promise<T | null> {
+  return readOverview<T>(buildKey(prefix, startYear, endYear, city, language));
 }
 
 export function writeOverviewCache<T>(
@@ -43,14 +31,6 @@ export function writeOverviewCache<T>(
   city: string,
   language: string,
   data: T
-): void {
-  try {
-    const entry: Entry<T> = { cachedAt: Date.now(), data };
-    sessionStorage.setItem(
-      buildKey(prefix, startYear, endYear, city, language),
-      JSON.stringify(entry)
-    );
-  } catch {
-    // sessionStorage full / unavailable — ignore
-  }
+): Promise<void> {
+  return writeOverview(buildKey(prefix, startYear, endYear, city, language), data);
 }
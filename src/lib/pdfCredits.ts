@@ -0,0 +1,57 @@
+/**
+ * The image credits page the timeline and StoryBook PDFs end with: one line
+ * per credited image, continuing on a new page when the list runs over.
+ */
+import jsPDF from 'jspdf';
+import { formatImageCredit, getImageCredits } from '@/lib/imageCredits';
+import type { PdfFontFamily } from '@/lib/pdfFonts';
+import { TimelineEvent } from '@/types/timeline';
+
+type Rgb = [number, number, number];
+
+interface PdfCreditsStyle {
+  font: PdfFontFamily;
+  background: Rgb;
+  titleColor: Rgb;
+  textColor: Rgb;
+}
+
+const MARGIN = 15;
+const LINE_HEIGHT = 4;
+
+/** "1969 · Moon landing: Buzz Aldrin · Public domain · commons.wikimedia.org/wiki/File:…" per credited image. */
+export const getPdfCreditLines = (events: TimelineEvent[]): string[] =>
+  getImageCredits(events).map(({ event, credit }) => `${event.year} · ${event.title}: ${formatImageCredit(credit)}`);
+
+/** Adds the credits page(s); adds nothing when no image needs crediting. */
+export function addPdfCreditsPages(pdf: jsPDF, lines: string[], title: string, style: PdfCreditsStyle): void {
+  if (lines.length === 0) return;
+
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  let y = 0;
+
+  const startPage = () => {
+    pdf.addPage();
+    pdf.setFillColor(...style.background);
+    pdf.rect(0, 0, pageWidth, pageHeight, 'F');
+
+    pdf.setFont(style.font, 'bold');
+    pdf.setFontSize(16);
+    pdf.setTextColor(...style.titleColor);
+    pdf.text(title, MARGIN, MARGIN + 8);
+
+    pdf.setFont(style.font, 'normal');
+    pdf.setFontSize(8);
+    pdf.setTextColor(...style.textColor);
+    y = MARGIN + 20;
+  };
+
+  startPage();
+  for (const line of lines) {
+    const wrapped: string[] = pdf.splitTextToSize(line, pageWidth - MARGIN * 2);
+    if (y + wrapped.length * LINE_HEIGHT > pageHeight - MARGIN) startPage();
+    pdf.text(wrapped, MARGIN, y);
+    y += wrapped.length * LINE_HEIGHT + 1.5;
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Fonts for the PDF generators. jsPDF's built-in Helvetica and Times only
+ * encode Windows-1252, so Polish - or a "Łódź" in any album - comes out
+ * garbled. When an album needs more, DejaVu Sans and Serif are fetched once
+ * and registered under the built-in names, so the generators keep calling
+ * setFont('helvetica' | 'times', style) unchanged. The fonts ship with the
+ * app (the dejavu-fonts-ttf package, emitted by Vite as assets), so they're
+ * only downloaded when an album needs them and never from a third party.
+ */
+import jsPDF from 'jspdf';
+import dejaVuSans from 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url';
+import dejaVuSansBold from 'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url';
+import dejaVuSansOblique from 'dejavu-fonts-ttf/ttf/DejaVuSans-Oblique.ttf?url';
+import dejaVuSansBoldOblique from 'dejavu-fonts-ttf/ttf/DejaVuSans-BoldOblique.ttf?url';
+import dejaVuSerif from 'dejavu-fonts-ttf/ttf/DejaVuSerif.ttf?url';
+import dejaVuSerifBold from 'dejavu-fonts-ttf/ttf/DejaVuSerif-Bold.ttf?url';
+import dejaVuSerifItalic from 'dejavu-fonts-ttf/ttf/DejaVuSerif-Italic.ttf?url';
+import dejaVuSerifBoldItalic from 'dejavu-fonts-ttf/ttf/DejaVuSerif-BoldItalic.ttf?url';
+import type { Language } from '@/lib/i18n';
+
+export type PdfFontFamily = 'helvetica' | 'times';
+export type PdfFontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic';
+
+const FONT_URLS: Record<PdfFontFamily, Record<PdfFontStyle, string>> = {
+  helvetica: {
+    normal: dejaVuSans,
+    bold: dejaVuSansBold,
+    italic: dejaVuSansOblique,
+    bolditalic: dejaVuSansBoldOblique,
+  },
+  times: {
+    normal: dejaVuSerif,
+    bold: dejaVuSerifBold,
+    italic: dejaVuSerifItalic,
+    bolditalic: dejaVuSerifBoldItalic,
+  },
+};
+
+// Languages whose own alphabet goes beyond Windows-1252
+const EXTENDED_LATIN_LANGUAGES: Language[] = ['pl'];
+
+// Windows-1252 characters outside Latin-1 (0x80-0x9F)
+const WIN_ANSI_EXTRAS = '€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ';
+
+// Letters that don't decompose into a base letter plus accent
+const WIN_ANSI_FALLBACKS: Record<string, string> = { ł: 'l', Ł: 'L', đ: 'd', Đ: 'D', ı: 'i', ħ: 'h', '★': '*', '☆': '*' };
+
+const isWinAnsi = (char: string): boolean => {
+  const code = char.charCodeAt(0);
+  return code < 0x80 || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.includes(char);
+};
+
+/** Replaces what the built-in fonts can't draw: "Łódź" becomes "Lodz", "★" becomes "*". */
+export const toWinAnsi = (text: string): string =>
+  Array.from(text, (char) => {
+    if (isWinAnsi(char)) return char;
+    if (WIN_ANSI_FALLBACKS[char]) return WIN_ANSI_FALLBACKS[char];
+    const base = char.normalize('NFD').replace(/\p{M}/gu, '');
+    return Array.from(base).every(isWinAnsi) ? base : '';
+  }).join('');
+
+/** Whether the album's language or any of its texts has letters the built-in fonts lack. */
+export const needsEmbeddedFonts = (language: Language, texts: string[]): boolean =>
+  EXTENDED_LATIN_LANGUAGES.includes(language) ||
+  texts.some((text) => Array.from(text).some((char) => !isWinAnsi(char) && /\p{L}/u.test(char)));
+
+const fontFiles = new Map<string, Promise<string>>();
+
+// jsPDF's virtual file system takes fonts as binary strings
+const fetchFontFile = (url: string): Promise<string> => {
+  let request = fontFiles.get(url);
+  if (!request) {
+    request = fetch(url)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Font ${url}: HTTP ${response.status}`);
+        return response.arrayBuffer();
+      })
+      .then((buffer) => {
+        const bytes = new Uint8Array(buffer);
+        let binary = '';
+        for (let i = 0; i < bytes.length; i += 0x8000) {
+          binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+        }
+        return binary;
+      });
+    request.catch(() => fontFiles.delete(url));
+    fontFiles.set(url, request);
+  }
+  return request;
+};
+
+// Keeps built-in fonts readable: every string drawn or measured is made Windows-1252-safe first
+const keepBuiltInFonts = (pdf: jsPDF) => {
+  const safe = (value: unknown): unknown =>
+    typeof value === 'string' ? toWinAnsi(value) : Array.isArray(value) ? value.map(safe) : value;
+  for (const method of ['text', 'splitTextToSize', 'getTextWidth'] as const) {
+    const original = pdf[method] as (...args: unknown[]) => unknown;
+    (pdf as unknown as Record<string, unknown>)[method] = (value: unknown, ...rest: unknown[]) =>
+      original.call(pdf, safe(value), ...rest);
+  }
+};
+
+/**
+ * Sets up fonts for an album: embeds DejaVu for the families and styles the
+ * generator uses when its texts need it, otherwise (or when the fonts can't be
+ * fetched) keeps the built-in fonts. Only the listed styles are embedded,
+ * since each one adds its whole TTF to the PDF.
+ */
+export async function preparePdfFonts(
+  pdf: jsPDF,
+  language: Language,
+  texts: string[],
+  styles: Partial<Record<PdfFontFamily, PdfFontStyle[]>>
+): Promise<void> {
+  if (!needsEmbeddedFonts(language, texts)) {
+    keepBuiltInFonts(pdf);
+    return;
+  }
+
+  const fonts = (Object.entries(styles) as [PdfFontFamily, PdfFontStyle[]][])
+    .flatMap(([family, familyStyles]) => familyStyles.map((style) => ({ family, style, url: FONT_URLS[family][style] })));
+
+  try {
+    const files = await Promise.all(fonts.map(({ url }) => fetchFontFile(url)));
+    fonts.forEach(({ family, style }, i) => {
+      const file = `${family}-${style}.ttf`;
+      pdf.addFileToVFS(file, files[i]);
+      pdf.addFont(file, family, style);
+    });
+  } catch (error) {
+    console.warn('Could not load PDF fonts, falling back to built-in fonts:', error);
+    keepBuiltInFonts(pdf);
+  }
+}
@@ -1,12 +1,28 @@
 import jsPDF from 'jspdf';
 import { TimelineEvent, FamousBirthday } from '@/types/timeline';
 import { FormData } from '@/types/form';
+import { getBirthDayNumberOne } from '@/lib/birthdayHits';
+import { formatDate as formatLocaleDate } from '@/lib/i18n';
+import type { Language } from '@/lib/i18n';
+import { preparePdfFonts } from '@/lib/pdfFonts';
+import { addPdfCreditsPages, getPdfCreditLines } from '@/lib/pdfCredits';
+import {
+  formatPdfDate,
+  formatPdfMonthYear,
+  getPdfCategoryLabel,
+  getPdfMonthNames,
+  getPdfMonthNamesShort,
+  loadPdfText,
+  PdfText,
+} from '@/lib/pdfLocale';
 
 interface PdfGeneratorOptions {
   events: TimelineEvent[];
   famousBirthdays: FamousBirthday[];
   formData: FormData;
   summary: string;
+  /** Language for labels, month names and dates; Dutch when left out */
+  language?: Language;
 }
 
 interface ImageData {
@@ -80,12 +96,12 @@ const fitImageInBox = (
 };
 
 // Get the full name from form data
-const getFullName = (formData: FormData): string => {
+const getFullName = (formData: FormData, t: PdfText): string => {
   const { firstName, lastName } = formData.optionalData;
   if (firstName || lastName) {
     return [firstName, lastName].filter(Boolean).join(' ');
   }
-  return 'Onbekend';
+  return t('pdfUnknownName');
 };
 
 // Get important events for cover (high importance + birthdate scope)
@@ -96,12 +112,10 @@ const getCoverEvents = (events: TimelineEvent[]): TimelineEvent[] => {
 };
 
 // Format date for display
-const formatDate = (formData: FormData): string => {
+const formatDate = (formData: FormData, language: Language): string => {
   if (formData.type === 'birthdate' && formData.birthDate) {
     const { day, month, year } = formData.birthDate;
-    const months = ['januari', 'februari', 'maart', 'april', 'mei', 'juni',
-      'juli', 'augustus', 'september', 'oktober', 'november', 'december'];
-    return `${day} ${months[month - 1]} ${year}`;
+    return formatPdfDate(day, month, year, language);
   }
   if (formData.yearRange) {
     return `${formData.yearRange.startYear} - ${formData.yearRange.endYear}`;
@@ -109,37 +123,8 @@ const formatDate = (formData: FormData): string => {
   return '';
 };
 
-// Category translations
-const categoryLabels: Record<string, string> = {
-  politics: 'Politiek',
-  sports: 'Sport',
-  entertainment: 'Entertainment',
-  science: 'Wetenschap',
-  culture: 'Cultuur',
-  world: 'Wereld',
-  local: 'Lokaal',
-  personal: 'Persoonlijk',
-  music: 'Muziek',
-  technology: 'Technologie',
-  celebrity: 'Beroemd'
-};
-
-// Event scope labels
-const scopeLabels: Record<string, string> = {
-  birthdate: 'Op deze dag',
-  birthmonth: 'Deze maand',
-  birthyear: 'Dit jaar',
-  period: 'Periode'
-};
-
-// Month names in Dutch
-const monthNames = ['januari', 'februari', 'maart', 'april', 'mei', 'juni', 
-                    'juli', 'augustus', 'september', 'oktober', 'november', 'december'];
-
-const monthNamesShort = ['JAN', 'FEB', 'MRT', 'APR', 'MEI', 'JUN', 'JUL', 'AUG', 'SEP', 'OKT', 'NOV', 'DEC'];
-
 // Try to infer the month from the event title, description, or date string
-const inferMonthFromEvent = (event: TimelineEvent): number | null => {
+const inferMonthFromEvent = (event: TimelineEvent, language: Language): number | null => {
   // First, if month is already set, use it
   if (event.month) return event.month;
   
@@ -149,7 +134,8 @@ const inferMonthFromEvent = (event: TimelineEvent): number | null => {
   const descStr = event.description?.toLowerCase() || '';
   const combinedText = `${dateStr} ${titleStr} ${descStr}`;
   
-  // Check for Dutch month names
+  // Check for month names in the album's language
+  const monthNames = getPdfMonthNames(language);
   for (let i = 0; i < monthNames.length; i++) {
     if (combinedText.includes(monthNames[i])) {
       return i + 1;
@@ -235,11 +221,13 @@ const getCollageLayouts = (pageWidth: number, pageHeight: number, ribbonWidth: n
   ];
 };
 
-export const generateTimelinePdf = async (
+/** Builds the magazine PDF without saving it; generateTimelinePdf() downloads it. */
+export const createTimelinePdf = async (
   options: PdfGeneratorOptions,
   onProgress?: (progress: number) => void
-): Promise<void> => {
-  const { events, famousBirthdays, formData, summary } = options;
+): Promise<{ pdf: jsPDF; fileName: string }> => {
+  const { events, famousBirthdays, formData, summary, language = 'nl' } = options;
+  const t = await loadPdfText(language);
   
   // Filter out celebrity birthday events - they go in a special chapter
   const regularEvents = events.filter(e => !e.isCelebrityBirthday);
@@ -264,9 +252,24 @@ export const generateTimelinePdf = async (
   const lightBg: [number, number, number] = [250, 245, 235]; // Cream
   const darkBg: [number, number, number] = [45, 35, 25]; // Dark brown
 
-  const fullName = getFullName(formData);
-  const dateString = formatDate(formData);
+  const fullName = getFullName(formData, t);
+  const dateString = formatDate(formData, language);
   const coverEvents = getCoverEvents(events);
+  const birthDayNumberOne = await getBirthDayNumberOne(formData).catch(() => null);
+  const creditLines = getPdfCreditLines(events);
+
+  await preparePdfFonts(
+    pdf,
+    language,
+    [
+      fullName,
+      summary,
+      ...events.flatMap(e => [e.title, e.description]),
+      ...famousBirthdays.flatMap(fb => [fb.name, fb.profession]),
+      ...creditLines,
+    ],
+    { helvetica: ['normal', 'bold'], times: ['normal', 'bold', 'italic', 'bolditalic'] }
+  );
 
   onProgress?.(5);
 
@@ -346,7 +349,20 @@ export const generateTimelinePdf = async (
   pdf.setFontSize(10);
   pdf.setTextColor(...accentColor);
   pdf.setFont('times', 'bold');
-  pdf.text('TIJDREIS MAGAZINE', margin, titleY);
+  pdf.text(t('pdfMagazineTitle'), margin, titleY);
+
+  // The #1 single on the day they were born
+  if (birthDayNumberOne) {
+    const label = t(birthDayNumberOne.precision === 'week' ? 'pdfNumberOneBirthday' : 'pdfNumberOneBirthYear');
+    pdf.setFontSize(9);
+    pdf.setFont('times', 'italic');
+    pdf.text(
+      `${label}: "${birthDayNumberOne.title}" - ${birthDayNumberOne.artist}`,
+      pageWidth - margin,
+      titleY,
+      { align: 'right', maxWidth: contentWidth - 50 }
+    );
+  }
 
   // Decorative line
   pdf.setDrawColor(...accentColor);
@@ -357,7 +373,7 @@ export const generateTimelinePdf = async (
   pdf.setFontSize(11);
   pdf.setTextColor(255, 255, 255);
   pdf.setFont('times', 'italic');
-  pdf.text('De persoonlijke reis door de tijd voor', margin, titleY + 12);
+  pdf.text(t('pdfPersonalJourneyFor'), margin, titleY + 12);
 
   pdf.setFontSize(32);
   pdf.setFont('times', 'bold');
@@ -372,7 +388,7 @@ export const generateTimelinePdf = async (
   pdf.setFontSize(9);
   pdf.setTextColor(180, 180, 180);
   pdf.setFont('times', 'normal');
-  pdf.text(`${events.length} gebeurtenissen • Speciale editie`, pageWidth - margin, titleY + 38, { align: 'right' });
+  pdf.text(t('pdfSpecialEdition', { count: events.length }), pageWidth - margin, titleY + 38, { align: 'right' });
 
   onProgress?.(35);
 
@@ -390,7 +406,7 @@ export const generateTimelinePdf = async (
   pdf.setFontSize(28);
   pdf.setTextColor(...primaryColor);
   pdf.setFont('times', 'bold');
-  pdf.text('Jouw Verhaal', margin, 35);
+  pdf.text(t('pdfYourStory'), margin, 35);
 
   pdf.setDrawColor(...accentColor);
   pdf.setLineWidth(1);
@@ -410,7 +426,7 @@ export const generateTimelinePdf = async (
   pdf.setFontSize(16);
   pdf.setTextColor(...primaryColor);
   pdf.setFont('times', 'bold');
-  pdf.text('In deze uitgave', margin, tocY);
+  pdf.text(t('pdfInThisIssue'), margin, tocY);
   tocY += 14;
 
   // Group events by year for TOC
@@ -438,7 +454,7 @@ export const generateTimelinePdf = async (
     pdf.setFontSize(10);
     pdf.setTextColor(...textColor);
     pdf.setFont('helvetica', 'normal');
-    pdf.text(`${count} ${count === 1 ? 'gebeurtenis' : 'gebeurtenissen'}`, margin + 58, tocY + 10);
+    pdf.text(t('pdfEventCount', { count }), margin + 58, tocY + 10);
     
     tocY += 20;
   }
@@ -446,7 +462,7 @@ export const generateTimelinePdf = async (
   if (years.length > 8) {
     pdf.setFontSize(10);
     pdf.setTextColor(...accentColor);
-    pdf.text(`+ ${years.length - 8} meer jaren...`, margin, tocY + 5);
+    pdf.text(t('pdfMoreYears', { count: years.length - 8 }), margin, tocY + 5);
   }
 
   // Page number
@@ -483,14 +499,14 @@ export const generateTimelinePdf = async (
     ]);
 
     // Draw golden timeline ribbon on left edge
-    drawCollageRibbon(pdf, event1, event2, pageHeight, accentColor, primaryColor);
+    drawCollageRibbon(pdf, event1, event2, pageHeight, accentColor, primaryColor, language);
 
     // Render first event
-    renderCollageItem(pdf, event1, imgData1, pageLayout[0], primaryColor, accentColor, textColor);
+    renderCollageItem(pdf, event1, imgData1, pageLayout[0], primaryColor, accentColor, textColor, language, t);
 
     // Render second event if exists
     if (event2) {
-      renderCollageItem(pdf, event2, imgData2, pageLayout[1], primaryColor, accentColor, textColor);
+      renderCollageItem(pdf, event2, imgData2, pageLayout[1], primaryColor, accentColor, textColor, language, t);
     }
 
     // Page header
@@ -499,7 +515,7 @@ export const generateTimelinePdf = async (
     pdf.setFontSize(9);
     pdf.setTextColor(255, 255, 255);
     pdf.setFont('times', 'bolditalic');
-    pdf.text(`TIJDREIS • ${fullName}`, ribbonWidth + 6, 14);
+    pdf.text(t('pdfRunningHeader', { name: fullName }), ribbonWidth + 6, 14);
 
     // Show year range in header
     const yearRange = event2 && event2.year !== event1.year 
@@ -547,7 +563,7 @@ export const generateTimelinePdf = async (
     pdf.setFontSize(26);
     pdf.setTextColor(255, 255, 255);
     pdf.setFont('times', 'bolditalic');
-    pdf.text('Ook Jarig op Deze Dag', pageWidth / 2, 42, { align: 'center' });
+    pdf.text(t('pdfAlsoBornToday'), pageWidth / 2, 42, { align: 'center' });
 
     // Single column layout for celebrities - better readability
     let cardY = 70;
@@ -571,7 +587,7 @@ export const generateTimelinePdf = async (
         pdf.setFontSize(12);
         pdf.setTextColor(255, 255, 255);
         pdf.setFont('times', 'bold');
-        pdf.text('★ Ook Jarig ★', pageWidth / 2, 16, { align: 'center' });
+        pdf.text(`★ ${t('pdfAlsoBornBadge')} ★`, pageWidth / 2, 16, { align: 'center' });
         
         cardY = 40;
       }
@@ -667,7 +683,7 @@ export const generateTimelinePdf = async (
         pdf.setFontSize(12);
         pdf.setTextColor(255, 255, 255);
         pdf.setFont('times', 'bold');
-        pdf.text('★ Ook Jarig ★', pageWidth / 2, 16, { align: 'center' });
+        pdf.text(`★ ${t('pdfAlsoBornBadge')} ★`, pageWidth / 2, 16, { align: 'center' });
         
         cardY = 40;
       }
@@ -739,6 +755,14 @@ export const generateTimelinePdf = async (
 
   onProgress?.(95);
 
+  // ===== IMAGE CREDITS =====
+  addPdfCreditsPages(pdf, creditLines, t('pdfImageCredits'), {
+    font: 'times',
+    background: lightBg,
+    titleColor: primaryColor,
+    textColor,
+  });
+
   // ===== BACK COVER =====
   pdf.addPage();
   
@@ -756,7 +780,7 @@ export const generateTimelinePdf = async (
   pdf.setFontSize(10);
   pdf.setTextColor(...accentColor);
   pdf.setFont('times', 'bold');
-  pdf.text('TIJDREIS MAGAZINE', pageWidth / 2, pageHeight / 2 - 50, { align: 'center' });
+  pdf.text(t('pdfMagazineTitle'), pageWidth / 2, pageHeight / 2 - 50, { align: 'center' });
 
   pdf.setDrawColor(...accentColor);
   pdf.setLineWidth(0.5);
@@ -765,29 +789,40 @@ export const generateTimelinePdf = async (
   pdf.setFontSize(32);
   pdf.setTextColor(255, 255, 255);
   pdf.setFont('times', 'bolditalic');
-  pdf.text('Bedankt voor', pageWidth / 2, pageHeight / 2 - 15, { align: 'center' });
-  pdf.text('het lezen!', pageWidth / 2, pageHeight / 2 + 15, { align: 'center' });
+  pdf.text(t('pdfThanksFor'), pageWidth / 2, pageHeight / 2 - 15, { align: 'center' });
+  pdf.text(t('pdfForReading'), pageWidth / 2, pageHeight / 2 + 15, { align: 'center' });
 
   pdf.setFontSize(14);
   pdf.setFont('times', 'italic');
-  pdf.text(`Een tijdreis speciaal voor ${fullName}`, pageWidth / 2, pageHeight / 2 + 45, { align: 'center' });
+  pdf.text(t('pdfJourneyMadeFor', { name: fullName }), pageWidth / 2, pageHeight / 2 + 45, { align: 'center' });
 
   // Stats
   pdf.setFontSize(10);
   pdf.setTextColor(...accentColor);
   pdf.setFont('times', 'normal');
-  pdf.text(`${events.length} gebeurtenissen • ${years.length} jaren • ${famousBirthdays.length} beroemdheden`, pageWidth / 2, pageHeight / 2 + 65, { align: 'center' });
+  pdf.text(
+    t('pdfClosingStats', { count: events.length, years: years.length, people: famousBirthdays.length }),
+    pageWidth / 2,
+    pageHeight / 2 + 65,
+    { align: 'center' }
+  );
 
   // Generated date
   pdf.setFontSize(8);
   pdf.setTextColor(150, 150, 150);
-  const now = new Date();
-  pdf.text(`Gegenereerd op ${now.toLocaleDateString('nl-NL')}`, pageWidth / 2, pageHeight - 20, { align: 'center' });
+  pdf.text(t('pdfGeneratedOn', { date: formatLocaleDate(new Date(), language) }), pageWidth / 2, pageHeight - 20, { align: 'center' });
 
   onProgress?.(100);
 
-  // Save the PDF
-  const fileName = `tijdreis-${fullName.replace(/\s+/g, '-').toLowerCase()}-${Date.now()}.pdf`;
+  const fileName = `${t('pdfFileName')}-${fullName.replace(/\s+/g, '-').toLowerCase()}-${Date.now()}.pdf`;
+  return { pdf, fileName };
+};
+
+export const generateTimelinePdf = async (
+  options: PdfGeneratorOptions,
+  onProgress?: (progress: number) => void
+): Promise<void> => {
+  const { pdf, fileName } = await createTimelinePdf(options, onProgress);
   pdf.save(fileName);
 };
 
@@ -799,8 +834,10 @@ function drawCollageRibbon(
   event2: TimelineEvent | undefined,
   pageHeight: number,
   accentColor: [number, number, number],
-  primaryColor: [number, number, number]
+  primaryColor: [number, number, number],
+  language: Language
 ) {
+  const monthNamesShort = getPdfMonthNamesShort(language);
   const ribbonWidth = 28;
   const ribbonX = 0;
   
@@ -827,7 +864,7 @@ function drawCollageRibbon(
   }
   
   // Month
-  const month1 = inferMonthFromEvent(event1);
+  const month1 = inferMonthFromEvent(event1, language);
   if (month1) {
     pdf.setFontSize(10);
     const letters = monthNamesShort[month1 - 1].split('');
@@ -859,7 +896,7 @@ function drawCollageRibbon(
       pdf.text(event2.day.toString(), ribbonX + ribbonWidth / 2, marker2Y + 14, { align: 'center' });
     }
     
-    const month2 = inferMonthFromEvent(event2);
+    const month2 = inferMonthFromEvent(event2, language);
     if (month2) {
       pdf.setFontSize(10);
       const letters = monthNamesShort[month2 - 1].split('');
@@ -891,7 +928,9 @@ function renderCollageItem(
   slot: CollageSlot,
   primaryColor: [number, number, number],
   accentColor: [number, number, number],
-  textColor: [number, number, number]
+  textColor: [number, number, number],
+  language: Language,
+  t: PdfText
 ) {
   // Draw image with creative frame effect
   if (imgData) {
@@ -941,7 +980,7 @@ function renderCollageItem(
   let textY = slot.textY;
   
   // Category badge
-  const categoryLabel = categoryLabels[event.category] || event.category;
+  const categoryLabel = getPdfCategoryLabel(t, event.category);
   pdf.setFillColor(...primaryColor);
   const badgeWidth = Math.min(pdf.getTextWidth(categoryLabel.toUpperCase()) + 12, slot.textW);
   pdf.roundedRect(slot.textX, textY, badgeWidth, 12, 2, 2, 'F');
@@ -963,11 +1002,11 @@ function renderCollageItem(
   textY += maxTitleLines * 5.5 + 6;
   
   // Date
-  const inferredMonth = inferMonthFromEvent(event);
+  const inferredMonth = inferMonthFromEvent(event, language);
   const dateStr = event.day && inferredMonth 
-    ? `${event.day} ${monthNames[inferredMonth - 1]} ${event.year}`
+    ? formatPdfDate(event.day, inferredMonth, event.year, language)
     : inferredMonth 
-      ? `${monthNames[inferredMonth - 1]} ${event.year}`
+      ? formatPdfMonthYear(inferredMonth, event.year, language)
       : event.year.toString();
   
   pdf.setFontSize(9);
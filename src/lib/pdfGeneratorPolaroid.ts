@@ -1,12 +1,25 @@
 import jsPDF from 'jspdf';
 import { TimelineEvent, FamousBirthday } from '@/types/timeline';
 import { FormData } from '@/types/form';
+import { formatDate as formatLocaleDate } from '@/lib/i18n';
+import type { Language } from '@/lib/i18n';
+import { preparePdfFonts } from '@/lib/pdfFonts';
+import {
+  formatPdfDate,
+  formatPdfMonthYear,
+  getPdfCategoryLabel,
+  getPdfMonthNames,
+  loadPdfText,
+  PdfText,
+} from '@/lib/pdfLocale';
 
 interface PdfGeneratorOptions {
   events: TimelineEvent[];
   famousBirthdays: FamousBirthday[];
   formData: FormData;
   summary: string;
+  /** Language for labels, month names and dates; Dutch when left out */
+  language?: Language;
 }
 
 interface ImageData {
@@ -76,20 +89,18 @@ const fitImageInBox = (
   };
 };
 
-const getFullName = (formData: FormData): string => {
+const getFullName = (formData: FormData, t: PdfText): string => {
   const { firstName, lastName } = formData.optionalData;
   if (firstName || lastName) {
     return [firstName, lastName].filter(Boolean).join(' ');
   }
-  return 'Onbekend';
+  return t('pdfUnknownName');
 };
 
-const formatDate = (formData: FormData): string => {
+const formatDate = (formData: FormData, language: Language): string => {
   if (formData.type === 'birthdate' && formData.birthDate) {
     const { day, month, year } = formData.birthDate;
-    const months = ['januari', 'februari', 'maart', 'april', 'mei', 'juni',
-      'juli', 'augustus', 'september', 'oktober', 'november', 'december'];
-    return `${day} ${months[month - 1]} ${year}`;
+    return formatPdfDate(day, month, year, language);
   }
   if (formData.yearRange) {
     return `${formData.yearRange.startYear} - ${formData.yearRange.endYear}`;
@@ -97,25 +108,6 @@ const formatDate = (formData: FormData): string => {
   return '';
 };
 
-const categoryLabels: Record<string, string> = {
-  politics: 'Politiek',
-  sports: 'Sport',
-  entertainment: 'Entertainment',
-  science: 'Wetenschap',
-  culture: 'Cultuur',
-  world: 'Wereld',
-  local: 'Lokaal',
-  personal: 'Persoonlijk',
-  music: 'Muziek',
-  technology: 'Technologie',
-  celebrity: 'Beroemd'
-};
-
-const monthNames = ['januari', 'februari', 'maart', 'april', 'mei', 'juni', 
-                    'juli', 'augustus', 'september', 'oktober', 'november', 'december'];
-
-const monthNamesShort = ['JAN', 'FEB', 'MRT', 'APR', 'MEI', 'JUN', 'JUL', 'AUG', 'SEP', 'OKT', 'NOV', 'DEC'];
-
 // 80s color palette - neon and vibrant
 const eightysPalette = {
   hotPink: [255, 20, 147] as [number, number, number],
@@ -148,7 +140,7 @@ const getRandomAccentColor = (index: number): [number, number, number] => {
   return colors[index % colors.length];
 };
 
-const inferMonthFromEvent = (event: TimelineEvent): number | null => {
+const inferMonthFromEvent = (event: TimelineEvent, language: Language): number | null => {
   if (event.month) return event.month;
   
   const dateStr = event.date?.toLowerCase() || '';
@@ -156,6 +148,7 @@ const inferMonthFromEvent = (event: TimelineEvent): number | null => {
   const descStr = event.description?.toLowerCase() || '';
   const combinedText = `${dateStr} ${titleStr} ${descStr}`;
   
+  const monthNames = getPdfMonthNames(language);
   for (let i = 0; i < monthNames.length; i++) {
     if (combinedText.includes(monthNames[i])) {
       return i + 1;
@@ -292,11 +285,13 @@ const drawPolaroidFrame = (
   pdf.text(shortCaption, imgX + 4, captionY + 10, { maxWidth: maxCaptionWidth });
 };
 
-export const generatePolaroidPdf = async (
+/** Builds the Polaroid PDF without saving it; generatePolaroidPdf() downloads it. */
+export const createPolaroidPdf = async (
   options: PdfGeneratorOptions,
   onProgress?: (progress: number) => void
-): Promise<void> => {
-  const { events, famousBirthdays, formData, summary } = options;
+): Promise<{ pdf: jsPDF; fileName: string }> => {
+  const { events, famousBirthdays, formData, summary, language = 'nl' } = options;
+  const t = await loadPdfText(language);
   
   const regularEvents = events.filter(e => !e.isCelebrityBirthday);
   
@@ -310,8 +305,15 @@ export const generatePolaroidPdf = async (
   const pageHeight = 297;
   const margin = 15;
 
-  const fullName = getFullName(formData);
-  const dateString = formatDate(formData);
+  const fullName = getFullName(formData, t);
+  const dateString = formatDate(formData, language);
+
+  await preparePdfFonts(
+    pdf,
+    language,
+    [fullName, summary, ...events.flatMap(e => [e.title, e.description]), ...famousBirthdays.flatMap(fb => [fb.name, fb.profession])],
+    { helvetica: ['normal', 'bold', 'italic'] }
+  );
 
   onProgress?.(5);
 
@@ -395,13 +397,13 @@ export const generatePolaroidPdf = async (
   pdf.setFontSize(12);
   pdf.setTextColor(...eightysPalette.neonYellow);
   pdf.setFont('helvetica', 'bold');
-  pdf.text('★ TIJDREIS POLAROID EDITIE ★', margin, pageHeight - 42);
+  pdf.text(`★ ${t('pdfPolaroidEdition')} ★`, margin, pageHeight - 42);
 
   // Main title
   pdf.setFontSize(10);
   pdf.setTextColor(...eightysPalette.electricBlue);
   pdf.setFont('helvetica', 'normal');
-  pdf.text('De persoonlijke reis door de tijd voor', margin, pageHeight - 32);
+  pdf.text(t('pdfPersonalJourneyFor'), margin, pageHeight - 32);
 
   pdf.setFontSize(28);
   pdf.setTextColor(...eightysPalette.white);
@@ -449,7 +451,7 @@ export const generatePolaroidPdf = async (
     pdf.setFontSize(10);
     pdf.setTextColor(...eightysPalette.electricBlue);
     pdf.setFont('helvetica', 'bold');
-    pdf.text('TIJDREIS POLAROID', margin, 16);
+    pdf.text(t('pdfPolaroidHeader'), margin, 16);
     
     pdf.setTextColor(...eightysPalette.neonYellow);
     pdf.text(fullName, pageWidth - margin, 16, { align: 'right' });
@@ -509,7 +511,7 @@ export const generatePolaroidPdf = async (
       let textY = layout.textY;
       
       // Category badge
-      const categoryLabel = categoryLabels[event.category] || event.category;
+      const categoryLabel = getPdfCategoryLabel(t, event.category);
       pdf.setFillColor(...accentColor);
       pdf.roundedRect(textX, textY, 55, 14, 3, 3, 'F');
       pdf.setFontSize(8);
@@ -529,11 +531,11 @@ export const generatePolaroidPdf = async (
       textY += titleLines.slice(0, 3).length * 6 + 8;
 
       // Date
-      const inferredMonth = inferMonthFromEvent(event);
+      const inferredMonth = inferMonthFromEvent(event, language);
       const dateStr = event.day && inferredMonth 
-        ? `${event.day} ${monthNames[inferredMonth - 1]} ${event.year}`
+        ? formatPdfDate(event.day, inferredMonth, event.year, language)
         : inferredMonth 
-          ? `${monthNames[inferredMonth - 1]} ${event.year}`
+          ? formatPdfMonthYear(inferredMonth, event.year, language)
           : event.year.toString();
       
       pdf.setFontSize(10);
@@ -582,7 +584,7 @@ export const generatePolaroidPdf = async (
     pdf.setFontSize(22);
     pdf.setTextColor(...eightysPalette.white);
     pdf.setFont('helvetica', 'bold');
-    pdf.text('OOK JARIG!', pageWidth / 2, 40, { align: 'center' });
+    pdf.text(`${t('pdfAlsoBornBadge').toUpperCase()}!`, pageWidth / 2, 40, { align: 'center' });
 
     let cardY = 65;
     const cardHeight = 35;
@@ -659,32 +661,43 @@ export const generatePolaroidPdf = async (
   pdf.setFontSize(12);
   pdf.setTextColor(...eightysPalette.hotPink);
   pdf.setFont('helvetica', 'bold');
-  pdf.text('★ POLAROID EDITIE ★', pageWidth / 2, pageHeight / 2 - 40, { align: 'center' });
+  pdf.text(`★ ${t('pdfPolaroidEditionShort')} ★`, pageWidth / 2, pageHeight / 2 - 40, { align: 'center' });
 
   pdf.setFontSize(32);
   pdf.setTextColor(...eightysPalette.white);
   pdf.setFont('helvetica', 'bold');
-  pdf.text('Bedankt!', pageWidth / 2, pageHeight / 2, { align: 'center' });
+  pdf.text(t('pdfThanksShort'), pageWidth / 2, pageHeight / 2, { align: 'center' });
 
   pdf.setFontSize(14);
   pdf.setTextColor(...eightysPalette.electricBlue);
   pdf.setFont('helvetica', 'italic');
-  pdf.text(`Een tijdreis speciaal voor ${fullName}`, pageWidth / 2, pageHeight / 2 + 25, { align: 'center' });
+  pdf.text(t('pdfJourneyMadeFor', { name: fullName }), pageWidth / 2, pageHeight / 2 + 25, { align: 'center' });
 
   // Stats
   pdf.setFontSize(10);
   pdf.setTextColor(...eightysPalette.neonYellow);
-  pdf.text(`${events.length} gebeurtenissen • ${famousBirthdays.length} beroemdheden`, pageWidth / 2, pageHeight / 2 + 45, { align: 'center' });
+  pdf.text(
+    t('pdfPolaroidClosingStats', { count: events.length, people: famousBirthdays.length }),
+    pageWidth / 2,
+    pageHeight / 2 + 45,
+    { align: 'center' }
+  );
 
   // Generated date
   pdf.setFontSize(8);
   pdf.setTextColor(100, 100, 120);
-  const now = new Date();
-  pdf.text(`Gegenereerd op ${now.toLocaleDateString('nl-NL')}`, pageWidth / 2, pageHeight - 20, { align: 'center' });
+  pdf.text(t('pdfGeneratedOn', { date: formatLocaleDate(new Date(), language) }), pageWidth / 2, pageHeight - 20, { align: 'center' });
 
   onProgress?.(100);
 
-  // Save the PDF
-  const fileName = `tijdreis-polaroid-${fullName.replace(/\s+/g, '-').toLowerCase()}-${Date.now()}.pdf`;
+  const fileName = `${t('pdfFileName')}-polaroid-${fullName.replace(/\s+/g, '-').toLowerCase()}-${Date.now()}.pdf`;
+  return { pdf, fileName };
+};
+
+export const generatePolaroidPdf = async (
+  options: PdfGeneratorOptions,
+  onProgress?: (progress: number) => void
+): Promise<void> => {
+  const { pdf, fileName } = await createPolaroidPdf(options, onProgress);
   pdf.save(fileName);
 };
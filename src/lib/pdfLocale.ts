@@ -0,0 +1,50 @@
+/**
+ * Labels, month names and dates for the PDF generators, in the album's language.
+ * Uses Intl so each language gets its own date order and grammar
+ * ("15 januari 1969", "January 15, 1969", "15 stycznia 1969").
+ */
+import { formatDate, getMonthNames, getTranslationString, loadLocale } from '@/lib/i18n';
+import type { Language, MessageKey, MessageValues } from '@/lib/i18n';
+import type { TimelineEvent } from '@/types/timeline';
+
+export type PdfText = (key: MessageKey, values?: MessageValues) => string;
+
+/** Loads the album's translations and returns its label lookup. */
+export const loadPdfText = async (language: Language): Promise<PdfText> => {
+  await loadLocale(language).catch((error) => console.warn(`PDF labels fall back to Dutch (${language}):`, error));
+  return (key, values) => getTranslationString(key, language, values);
+};
+
+const CATEGORY_KEYS: Record<TimelineEvent['category'], MessageKey> = {
+  politics: 'pdfCatPolitics',
+  sports: 'pdfCatSports',
+  entertainment: 'pdfCatEntertainment',
+  science: 'pdfCatScience',
+  culture: 'pdfCatCulture',
+  world: 'pdfCatWorld',
+  local: 'pdfCatLocal',
+  personal: 'pdfCatPersonal',
+  music: 'pdfCatMusic',
+  technology: 'pdfCatTechnology',
+  celebrity: 'pdfCatCelebrity',
+};
+
+/** Category badge text; categories outside the known set are shown as they come. */
+export const getPdfCategoryLabel = (t: PdfText, category: string): string => {
+  const key = CATEGORY_KEYS[category as TimelineEvent['category']];
+  return key ? t(key) : category;
+};
+
+/** Lowercase long month names, January first - for matching in event text. */
+export const getPdfMonthNames = (language: Language): string[] =>
+  getMonthNames(language).map((name) => name.toLowerCase());
+
+/** Short uppercase month names for the ribbon ("JAN", "MRT"), without trailing dots. */
+export const getPdfMonthNamesShort = (language: Language): string[] =>
+  getMonthNames(language, 'short').map((name) => name.replace('.', '').toUpperCase());
+
+export const formatPdfDate = (day: number, month: number, year: number, language: Language): string =>
+  formatDate(new Date(year, month - 1, day), language);
+
+export const formatPdfMonthYear = (month: number, year: number, language: Language): string =>
+  formatDate(new Date(year, month - 1, 1), language, { month: 'long', year: 'numeric' });
@@ -7,6 +7,11 @@ import { FormData } from '@/types/form';
 import { EventCard } from '@/remotion/components/EventCard';
 import { VideoEvent } from '@/remotion/types';
 import { getEventImageUrl } from '@/remotion/utils/placeholders';
+import { isUserPhoto } from '@/lib/photoUpload';
+import type { Language } from '@/lib/i18n';
+import { preparePdfFonts } from '@/lib/pdfFonts';
+import { addPdfCreditsPages, getPdfCreditLines } from '@/lib/pdfCredits';
+import { getPdfCategoryLabel, loadPdfText, PdfText } from '@/lib/pdfLocale';
 
 // A4 landscape dimensions in mm
 const A4_WIDTH_MM = 297;
@@ -20,14 +25,6 @@ const CARD_HEIGHT = 720;
 const CARD_PDF_WIDTH_MM = 270; // Leave margins
 const CARD_PDF_HEIGHT_MM = (CARD_PDF_WIDTH_MM * 9) / 16; // Maintain 16:9
 
-interface StoryBookPdfLabels {
-  defaultFirstName?: string;
-  defaultStoryName?: string;
-  titleFallback?: string; // contains {name}
-  albumFooter?: string;
-  albumFileSuffix?: string;
-}
-
 interface StoryBookPdfOptions {
   events: TimelineEvent[];
   famousBirthdays?: FamousBirthday[];
@@ -35,7 +32,8 @@ interface StoryBookPdfOptions {
   summary: string;
   storyTitle?: string;
   storyIntroduction?: string;
-  labels?: StoryBookPdfLabels;
+  /** Language for the cover, category labels and file name; Dutch when left out */
+  language?: Language;
 }
 
 /**
@@ -44,7 +42,8 @@ interface StoryBookPdfOptions {
 async function renderEventCardToCanvas(
   event: TimelineEvent,
   eventIndex: number,
-  periodLabel: string
+  periodLabel: string,
+  categoryLabel: string
 ): Promise<HTMLCanvasElement> {
   // Create container for rendering
   const container = document.createElement('div');
@@ -87,6 +86,7 @@ async function renderEventCardToCanvas(
         imageUrl,
         eventIndex,
         periodLabel,
+        categoryLabel,
       })
     );
     
@@ -121,7 +121,8 @@ const StaticEventCard: React.FC<{
   imageUrl: string;
   eventIndex: number;
   periodLabel: string;
-}> = ({ event, imageUrl, eventIndex, periodLabel }) => {
+  categoryLabel: string;
+}> = ({ event, imageUrl, eventIndex, periodLabel, categoryLabel }) => {
   const layoutPattern = eventIndex % 3;
 
   const fontSerif = 'Georgia, "Times New Roman", serif';
@@ -144,6 +145,55 @@ const StaticEventCard: React.FC<{
       },
     }, periodLabel || `${event.year}`);
 
+  // Layout "THE SNAPSHOT": the family's own photos, shown whole in a white
+  // polaroid frame instead of cropped into one of the editorial layouts
+  if (isUserPhoto(event)) {
+    return React.createElement('div', {
+      style: {
+        position: 'relative',
+        width: CARD_WIDTH,
+        height: CARD_HEIGHT,
+        backgroundColor: '#f8f8f5',
+        overflow: 'hidden',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+      },
+    },
+      React.createElement(PeriodBadge),
+      React.createElement('div', {
+        style: {
+          backgroundColor: '#ffffff',
+          padding: '24px 24px 0 24px',
+          boxShadow: '0 35px 70px -15px rgba(0, 0, 0, 0.3)',
+          transform: `rotate(${eventIndex % 2 === 0 ? -2 : 2}deg)`,
+        },
+      },
+        React.createElement('img', {
+          src: imageUrl,
+          crossOrigin: 'anonymous',
+          referrerPolicy: 'no-referrer',
+          style: {
+            display: 'block',
+            maxWidth: 880,
+            maxHeight: 520,
+            objectFit: 'contain',
+          },
+        }),
+        React.createElement('div', {
+          style: {
+            fontFamily: fontSerif,
+            fontStyle: 'italic',
+            fontSize: 28,
+            color: '#1a1a1a',
+            textAlign: 'center',
+            padding: '18px 0 22px 0',
+          },
+        }, [event.title, event.date].filter(Boolean).join(' · '))
+      )
+    );
+  }
+
   // Layout 0: "THE SHOUT"
   if (layoutPattern === 0) {
     return React.createElement('div', {
@@ -350,7 +400,7 @@ const StaticEventCard: React.FC<{
               color: '#999',
               marginBottom: 20,
             },
-          }, event.category),
+          }, categoryLabel),
           // Title
           React.createElement('h1', {
             style: {
@@ -482,12 +532,13 @@ const StaticEventCard: React.FC<{
  */
 async function createCoverPage(
   pdf: jsPDF,
-  options: StoryBookPdfOptions
+  options: StoryBookPdfOptions,
+  t: PdfText
 ): Promise<void> {
-  const { events, formData, storyTitle, storyIntroduction, labels } = options;
+  const { events, formData, storyTitle, storyIntroduction } = options;
   
   // Extract name and year from formData
-  const firstName = formData.optionalData?.firstName || labels?.defaultFirstName || 'Jou';
+  const firstName = formData.optionalData?.firstName || t('pdfDefaultFirstName');
   const birthYear = formData.birthDate?.year || formData.yearRange?.startYear;
   
   // Dark cinematic background
@@ -495,8 +546,7 @@ async function createCoverPage(
   pdf.rect(0, 0, A4_WIDTH_MM, A4_HEIGHT_MM, 'F');
 
   // Title
-  const titleTemplate = labels?.titleFallback || 'Het Jaar Van {name}';
-  const title = storyTitle || titleTemplate.replace('{name}', firstName);
+  const title = storyTitle || t('pdfTitleFallback', { name: firstName });
   pdf.setTextColor(255, 255, 255);
   pdf.setFont('helvetica', 'bold');
   pdf.setFontSize(48);
@@ -542,7 +592,7 @@ async function createCoverPage(
   // Footer
   pdf.setFontSize(10);
   pdf.setTextColor(100, 100, 100);
-  pdf.text(labels?.albumFooter || 'TimeStory Album', A4_WIDTH_MM / 2, A4_HEIGHT_MM - 15, { align: 'center' });
+  pdf.text(t('pdfAlbumFooter'), A4_WIDTH_MM / 2, A4_HEIGHT_MM - 15, { align: 'center' });
 }
 
 /**
@@ -577,13 +627,14 @@ async function loadImageAsDataUrl(url: string): Promise<string | null> {
 }
 
 /**
- * Generates a StoryBook-style PDF using EventCard designs
+ * Builds a StoryBook-style PDF using EventCard designs, without saving it
  */
-export async function generateStoryBookPdf(
+export async function createStoryBookPdf(
   options: StoryBookPdfOptions,
   onProgress?: (progress: number) => void
-): Promise<void> {
-  const { events, formData } = options;
+): Promise<{ pdf: jsPDF; fileName: string }> {
+  const { events, formData, storyTitle, storyIntroduction, language = 'nl' } = options;
+  const t = await loadPdfText(language);
 
   // Create PDF in landscape orientation
   const pdf = new jsPDF({
@@ -592,6 +643,16 @@ export async function generateStoryBookPdf(
     format: 'a4',
   });
 
+  const creditLines = getPdfCreditLines(events);
+
+  // Only the cover and credits are drawn as PDF text; the cards are rendered by the browser
+  await preparePdfFonts(
+    pdf,
+    language,
+    [formData.optionalData?.firstName || '', storyTitle || '', storyIntroduction || '', ...creditLines],
+    { helvetica: ['normal', 'bold'] }
+  );
+
   const totalSteps = events.length + 1; // +1 for cover
   let currentStep = 0;
 
@@ -602,7 +663,7 @@ export async function generateStoryBookPdf(
   const periodLabel = `${startYear}–${endYear}`;
 
   // Create cover page
-  await createCoverPage(pdf, options);
+  await createCoverPage(pdf, options, t);
   currentStep++;
   onProgress?.(Math.round((currentStep / totalSteps) * 100));
 
@@ -612,7 +673,7 @@ export async function generateStoryBookPdf(
     
     try {
       // Render card to canvas
-      const canvas = await renderEventCardToCanvas(event, i, periodLabel);
+      const canvas = await renderEventCardToCanvas(event, i, periodLabel, getPdfCategoryLabel(t, event.category));
       const imgData = canvas.toDataURL('image/jpeg', 0.95);
 
       // Add new page
@@ -638,8 +699,25 @@ export async function generateStoryBookPdf(
     onProgress?.(Math.round((currentStep / totalSteps) * 100));
   }
 
-  // Save the PDF
-  const firstName = formData.optionalData?.firstName || options.labels?.defaultStoryName || 'TimeStory';
-  const fileName = `${firstName}-${options.labels?.albumFileSuffix || 'Album'}.pdf`;
+  addPdfCreditsPages(pdf, creditLines, t('pdfImageCredits'), {
+    font: 'helvetica',
+    background: [26, 26, 26],
+    titleColor: [255, 255, 255],
+    textColor: [180, 180, 180],
+  });
+
+  const firstName = formData.optionalData?.firstName || t('pdfDefaultStoryName');
+  const fileName = `${firstName}-${t('pdfAlbumFileSuffix')}.pdf`;
+  return { pdf, fileName };
+}
+
+/**
+ * Generates a StoryBook-style PDF using EventCard designs
+ */
+export async function generateStoryBookPdf(
+  options: StoryBookPdfOptions,
+  onProgress?: (progress: number) => void
+): Promise<void> {
+  const { pdf, fileName } = await createStoryBookPdf(options, onProgress);
   pdf.save(fileName);
 }
@@ -0,0 +1,224 @@
+/**
+ * User photos in the story.
+ *
+ * Two ways in:
+ *  - The timeline editor swaps a single event's image for a downscaled JPEG
+ *    data URL (readPhotoAsDataUrl). useSaveStory uploads those when a story
+ *    is shared.
+ *  - The photo upload flow stores originals in the story-assets bucket under
+ *    the owner's prefix, reads their EXIF capture date and proposes a year /
+ *    event for each (proposePhotoPlacement). Placed photos become their own
+ *    personal events (or replace an event's image) with `userPhoto` set.
+ *    The bucket is public, so the location is taken out of every photo
+ *    before it's uploaded.
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { TimelineEvent, UserPhoto } from '@/types/timeline';
+import { ExifCaptureDate, stripJpegLocation } from '@/lib/exif';
+
+/** `event.source` marker for photos the user uploaded themselves. */
+export const USER_PHOTO_SOURCE = 'upload';
+
+const MAX_PHOTO_DIMENSION = 1600;
+const PHOTO_JPEG_QUALITY = 0.85;
+
+const PHOTO_BUCKET = 'story-assets';
+const ANONYMOUS_OWNER_KEY = 'photoUploadOwnerId';
+
+export const isUserPhoto = (event: { source?: string; userPhoto?: UserPhoto }) =>
+  event.source === USER_PHOTO_SOURCE || !!event.userPhoto;
+
+const loadImageFile = (file: File): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(img);
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read image ${file.name}`));
+    };
+    img.src = url;
+  });
+
+/**
+ * Reads an image file and returns a JPEG data URL whose longest side is at
+ * most `maxDimension` pixels.
+ */
+export async function readPhotoAsDataUrl(file: File, maxDimension = MAX_PHOTO_DIMENSION): Promise<string> {
+  if (!file.type.startsWith('image/')) {
+    throw new Error(`Not an image: ${file.name}`);
+  }
+
+  const img = await loadImageFile(file);
+  const scale = Math.min(1, maxDimension / Math.max(img.naturalWidth, img.naturalHeight));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(img.naturalWidth * scale);
+  canvas.height = Math.round(img.naturalHeight * scale);
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+
+  return canvas.toDataURL('image/jpeg', PHOTO_JPEG_QUALITY);
+}
+
+/**
+ * Storage prefix for a user's photos. Signed-out visitors get an id of their
+ * own for the browser session, so their photos aren't pooled under one prefix.
+ */
+export function getPhotoOwnerId(userId?: string | null): string {
+  if (userId) return userId;
+  let ownerId = sessionStorage.getItem(ANONYMOUS_OWNER_KEY);
+  if (!ownerId) {
+    ownerId = `anonymous-${crypto.randomUUID()}`;
+    sessionStorage.setItem(ANONYMOUS_OWNER_KEY, ownerId);
+  }
+  return ownerId;
+}
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode image'))), type, PHOTO_JPEG_QUALITY);
+  });
+
+/**
+ * The photo without where it was taken. JPEGs keep their bytes and EXIF,
+ * minus GPS and XMP; other formats are redrawn, which drops all metadata.
+ */
+export async function removePhotoLocation(file: File): Promise<Blob> {
+  if (file.type === 'image/jpeg') {
+    return new Blob([stripJpegLocation(await file.arrayBuffer())], { type: file.type });
+  }
+
+  const img = await loadImageFile(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas not supported');
+  ctx.drawImage(img, 0, 0);
+  return canvasToBlob(canvas, file.type || 'image/png');
+}
+
+/**
+ * Uploads an original photo, without its location, to story-assets under
+ * `<ownerId>/photos/`.
+ */
+export async function uploadPhotoOriginal(file: File, ownerId: string): Promise<{ url: string; path: string }> {
+  const extension = (file.name.split('.').pop() || 'jpg').toLowerCase();
+  const random = Math.random().toString(36).substring(2, 8);
+  const path = `${ownerId}/photos/${Date.now()}_${random}.${extension}`;
+
+  const photo = await removePhotoLocation(file);
+  const { data, error } = await supabase.storage
+    .from(PHOTO_BUCKET)
+    .upload(path, photo, {
+      contentType: photo.type || 'image/jpeg',
+      cacheControl: '31536000', // 1 year cache
+    });
+
+  if (error) {
+    throw new Error(`Upload mislukt: ${error.message}`);
+  }
+
+  const { data: urlData } = supabase.storage.from(PHOTO_BUCKET).getPublicUrl(data.path);
+  return { url: urlData.publicUrl, path: data.path };
+}
+
+/** Where a photo goes: its own card in `year`, or onto an existing event's image. */
+export interface PhotoPlacement {
+  year: number;
+  month?: number;
+  day?: number;
+  /** Replace this event's image instead of adding a new card. */
+  attachToEventId?: string;
+}
+
+const sortKey = (e: { year: number; month?: number; day?: number }) =>
+  e.year * 10000 + (e.month || 0) * 100 + (e.day || 0);
+
+/**
+ * Proposes a placement from the EXIF capture date. Photos without a date (or
+ * dated outside the timeline) go to the nearest year the timeline covers.
+ * A new card is the default; attaching is left to the user.
+ */
+export function proposePhotoPlacement(capture: ExifCaptureDate | null, events: TimelineEvent[]): PhotoPlacement {
+  const years = events.map((e) => e.year);
+  const minYear = years.length ? Math.min(...years) : new Date().getFullYear();
+  const maxYear = years.length ? Math.max(...years) : minYear;
+
+  if (!capture) return { year: minYear };
+  if (capture.year < minYear) return { year: minYear };
+  if (capture.year > maxYear) return { year: maxYear };
+  return { year: capture.year, month: capture.month, day: capture.day };
+}
+
+/** Events of the placement's year, closest in time first: candidates to attach to. */
+export function eventsNearPlacement(placement: PhotoPlacement, events: TimelineEvent[]): TimelineEvent[] {
+  const target = sortKey({ year: placement.year, month: placement.month ?? 6, day: placement.day ?? 15 });
+  return events
+    .filter((e) => e.year === placement.year && !isUserPhoto(e))
+    .sort((a, b) => Math.abs(sortKey(a) - target) - Math.abs(sortKey(b) - target));
+}
+
+const formatDate = ({ year, month, day }: { year: number; month?: number; day?: number }) =>
+  [String(year), month ? String(month).padStart(2, '0') : null, month && day ? String(day).padStart(2, '0') : null]
+    .filter(Boolean)
+    .join('-');
+
+/**
+ * Applies a placed photo to the event list: either swaps the image of the
+ * target event or inserts a personal photo card at its chronological spot.
+ */
+export function placeUserPhoto(
+  events: TimelineEvent[],
+  photo: UserPhoto,
+  placement: PhotoPlacement,
+  caption: string
+): TimelineEvent[] {
+  if (placement.attachToEventId) {
+    return events.map((e) =>
+      e.id === placement.attachToEventId
+        ? {
+            ...e,
+            imageUrl: photo.originalUrl,
+            source: USER_PHOTO_SOURCE,
+            imageStatus: 'found' as const,
+            searchTrace: undefined,
+            imageCandidates: undefined,
+            imageCredit: undefined,
+            userPhoto: photo,
+          }
+        : e
+    );
+  }
+
+  const card: TimelineEvent = {
+    id: `photo_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 6)}`,
+    date: formatDate(placement),
+    year: placement.year,
+    month: placement.month,
+    day: placement.day,
+    title: caption,
+    description: '',
+    category: 'personal',
+    visualSubjectType: 'lifestyle',
+    importance: 'medium',
+    eventScope: 'period',
+    imageUrl: photo.originalUrl,
+    imageStatus: 'found',
+    source: USER_PHOTO_SOURCE,
+    userPhoto: photo,
+  };
+
+  // After the last event that isn't later than the photo
+  const key = sortKey(card);
+  let insertAt = 0;
+  events.forEach((e, i) => {
+    if (sortKey(e) <= key) insertAt = i + 1;
+  });
+  return [...events.slice(0, insertAt), card, ...events.slice(insertAt)];
+}
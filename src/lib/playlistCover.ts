@@ -0,0 +1,52 @@
+/**
+ * Playlist cover art drawn from the era theme of the year range - the same
+ * colours the homepage uses for those years. Spotify wants a square,
+ * base64-encoded JPEG of at most 256 KB.
+ */
+import { getEraTheme } from '@/lib/eraThemes';
+
+const COVER_SIZE = 640;
+const MAX_COVER_BYTES = 256 * 1024;
+
+export function generatePlaylistCover(title: string, startYear: number, endYear: number): string | null {
+  const canvas = document.createElement('canvas');
+  canvas.width = COVER_SIZE;
+  canvas.height = COVER_SIZE;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  const startTheme = getEraTheme(startYear);
+  const endTheme = getEraTheme(endYear);
+
+  // Diagonal sweep from the first era's colour to the last one's
+  const gradient = ctx.createLinearGradient(0, 0, COVER_SIZE, COVER_SIZE);
+  gradient.addColorStop(0, startTheme.primary);
+  gradient.addColorStop(1, endTheme.secondary);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, COVER_SIZE, COVER_SIZE);
+
+  // Vinyl grooves
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.12)';
+  ctx.lineWidth = 2;
+  for (let r = 60; r < COVER_SIZE * 0.7; r += 18) {
+    ctx.beginPath();
+    ctx.arc(COVER_SIZE * 0.78, COVER_SIZE * 0.22, r, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+
+  ctx.fillStyle = startTheme.accent;
+  ctx.fillRect(48, COVER_SIZE - 230, 90, 8);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.textBaseline = 'alphabetic';
+  ctx.font = `bold 44px ${startTheme.fontFamily}`;
+  ctx.fillText(title, 48, COVER_SIZE - 160, COVER_SIZE - 96);
+  ctx.font = `bold 96px ${startTheme.fontFamily}`;
+  ctx.fillText(startYear === endYear ? `${startYear}` : `${startYear}–${endYear}`, 48, COVER_SIZE - 60, COVER_SIZE - 96);
+
+  for (let quality = 0.9; quality >= 0.5; quality -= 0.1) {
+    const base64 = canvas.toDataURL('image/jpeg', quality).split(',')[1];
+    if (base64.length <= MAX_COVER_BYTES) return base64;
+  }
+  return null;
+}
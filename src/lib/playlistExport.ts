@@ -0,0 +1,200 @@
+/**
+ * Playlist export in open formats, for families that don't use Spotify.
+ *
+ * - M3U8: plays in most media players; entries point at Spotify or a
+ *   YouTube Music search when there's no Spotify match
+ * - XSPF: the XML playlist format VLC and friends understand
+ * - CSV: for spreadsheets
+ * - HTML: a standalone page grouped by year with YouTube Music, Apple Music
+ *   and Spotify links per track - easy to mail or put on a USB stick
+ *
+ * Works on plain artist/title/year tracks so the music overview and the
+ * story page's music column can both feed it.
+ */
+
+export interface ExportTrack {
+  year: number;
+  artist: string;
+  title: string;
+  album?: string;
+  spotifyUrl?: string | null;
+  /** Country-specific hit (from generate-local-hits) rather than a global #1 */
+  isLocal?: boolean;
+  isFavorite?: boolean;
+}
+
+export type PlaylistExportFormat = 'm3u8' | 'xspf' | 'csv' | 'html';
+
+export const PLAYLIST_EXPORT_FORMATS: PlaylistExportFormat[] = ['m3u8', 'xspf', 'csv', 'html'];
+
+interface PlaylistExportOptions {
+  title: string;
+  /** Shown under the title on the HTML page, e.g. "1978–1992" */
+  subtitle?: string;
+  /** Page language of the HTML export */
+  language?: string;
+}
+
+const MIME_TYPES: Record<PlaylistExportFormat, string> = {
+  m3u8: 'audio/x-mpegurl;charset=utf-8',
+  xspf: 'application/xspf+xml;charset=utf-8',
+  csv: 'text/csv;charset=utf-8',
+  html: 'text/html;charset=utf-8',
+};
+
+const searchQuery = (track: ExportTrack) => encodeURIComponent(`${track.artist} ${track.title}`);
+
+export const getYouTubeMusicSearchUrl = (track: ExportTrack) =>
+  `https://music.youtube.com/search?q=${searchQuery(track)}`;
+
+export const getAppleMusicSearchUrl = (track: ExportTrack) =>
+  `https://music.apple.com/search?term=${searchQuery(track)}`;
+
+const getPlayableUrl = (track: ExportTrack) => track.spotifyUrl || getYouTubeMusicSearchUrl(track);
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+
+const escapeCsv = (value: string) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const byYear = (tracks: ExportTrack[]) => [...tracks].sort((a, b) => a.year - b.year);
+
+export function toM3U8(tracks: ExportTrack[], { title }: PlaylistExportOptions): string {
+  const lines = ['#EXTM3U', `#PLAYLIST:${title}`];
+  for (const track of byYear(tracks)) {
+    lines.push(`#EXTINF:-1,${track.artist} - ${track.title} (${track.year})`, getPlayableUrl(track));
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function toXSPF(tracks: ExportTrack[], { title }: PlaylistExportOptions): string {
+  const trackXml = byYear(tracks).map((track) => [
+    '    <track>',
+    `      <location>${escapeXml(getPlayableUrl(track))}</location>`,
+    `      <title>${escapeXml(track.title)}</title>`,
+    `      <creator>${escapeXml(track.artist)}</creator>`,
+    track.album ? `      <album>${escapeXml(track.album)}</album>` : null,
+    `      <annotation>${track.year}${track.isFavorite ? ' ★' : ''}</annotation>`,
+    '    </track>',
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+    `  <title>${escapeXml(title)}</title>`,
+    '  <trackList>',
+    ...trackXml,
+    '  </trackList>',
+    '</playlist>',
+    '',
+  ].join('\n');
+}
+
+export function toCSV(tracks: ExportTrack[]): string {
+  const header = ['Year', 'Artist', 'Title', 'Album', 'Local', 'Favorite', 'Spotify', 'YouTube Music', 'Apple Music'];
+  const rows = byYear(tracks).map((track) => [
+    String(track.year),
+    track.artist,
+    track.title,
+    track.album || '',
+    track.isLocal ? 'yes' : '',
+    track.isFavorite ? 'yes' : '',
+    track.spotifyUrl || '',
+    getYouTubeMusicSearchUrl(track),
+    getAppleMusicSearchUrl(track),
+  ]);
+  // BOM so Excel opens the file as UTF-8
+  return '\uFEFF' + [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+export function toHTML(tracks: ExportTrack[], { title, subtitle, language = 'nl' }: PlaylistExportOptions): string {
+  const years = new Map<number, ExportTrack[]>();
+  for (const track of byYear(tracks)) {
+    if (!years.has(track.year)) years.set(track.year, []);
+    years.get(track.year)!.push(track);
+  }
+
+  const link = (href: string, label: string) =>
+    `<a href="${escapeXml(href)}" target="_blank" rel="noopener noreferrer">${label}</a>`;
+
+  const sections = Array.from(years.entries()).map(([year, yearTracks]) => `
+    <section>
+      <h2>${year}</h2>
+      <ul>
+${yearTracks.map((track) => `        <li>
+          <span class="track">${track.isFavorite ? '★ ' : ''}<strong>${escapeXml(track.title)}</strong> – ${escapeXml(track.artist)}${track.isLocal ? ' <span class="local">●</span>' : ''}</span>
+          <span class="links">${[
+            link(getYouTubeMusicSearchUrl(track), 'YouTube Music'),
+            link(getAppleMusicSearchUrl(track), 'Apple Music'),
+            track.spotifyUrl ? link(track.spotifyUrl, 'Spotify') : null,
+          ].filter(Boolean).join(' · ')}</span>
+        </li>`).join('\n')}
+      </ul>
+    </section>`).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="${escapeXml(language)}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${escapeXml(title)}</title>
+  <style>
+    body { font-family: Georgia, 'Times New Roman', serif; max-width: 720px; margin: 2rem auto; padding: 0 1rem; color: #222; background: #fdfaf4; }
+    h1 { margin-bottom: 0.25rem; }
+    .subtitle { color: #777; font-family: monospace; margin-top: 0; }
+    h2 { font-family: monospace; color: #bbb; border-bottom: 1px solid #e5e0d5; margin-top: 2rem; }
+    ul { list-style: none; padding: 0; }
+    li { display: flex; flex-wrap: wrap; justify-content: space-between; gap: 0.25rem 1rem; padding: 0.4rem 0; border-bottom: 1px dotted #e5e0d5; }
+    .links { font-family: sans-serif; font-size: 0.85rem; }
+    .local { color: #c77d00; }
+    a { color: #0b6bcb; }
+  </style>
+</head>
+<body>
+  <h1>${escapeXml(title)}</h1>
+  ${subtitle ? `<p class="subtitle">${escapeXml(subtitle)}</p>` : ''}
+${sections}
+</body>
+</html>
+`;
+}
+
+export function exportPlaylist(format: PlaylistExportFormat, tracks: ExportTrack[], options: PlaylistExportOptions): string {
+  switch (format) {
+    case 'm3u8':
+      return toM3U8(tracks, options);
+    case 'xspf':
+      return toXSPF(tracks, options);
+    case 'csv':
+      return toCSV(tracks);
+    case 'html':
+      return toHTML(tracks, options);
+  }
+}
+
+/** Builds the export and hands it to the browser as a file download. */
+export function downloadPlaylist(format: PlaylistExportFormat, tracks: ExportTrack[], options: PlaylistExportOptions): void {
+  const blob = new Blob([exportPlaylist(format, tracks, options)], { type: MIME_TYPES[format] });
+  const url = URL.createObjectURL(blob);
+  const slug = [options.title, options.subtitle]
+    .filter(Boolean)
+    .join(' ')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .toLowerCase();
+
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${slug || 'playlist'}.${format}`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
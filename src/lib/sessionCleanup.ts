@@ -1,12 +1,12 @@
 /**
- * Clears app-level sessionStorage entries that contain user data.
+ * Clears app-level sessionStorage entries that contain user data, and
+ * wipes the persistent timeline library (IndexedDB).
  *
  * Called from AuthContext.signOut so a logout in a shared browser does
- * not leak the previous user's form data, generated timeline cache, or
+ * not leak the previous user's form data, generated timelines, or
  * overview lookups to whoever signs in next.
  *
  * Keys NOT cleared:
- *  - `imageSearchMode` (a UI preference, no PII).
  *  - MusicVideoReadyNotifier `seen` / `dismissed` markers (transient,
  *    keyed on audioUrl, not on user identity).
  *
@@ -14,6 +14,7 @@
  * a specific user (form fields, AI-generated content, location, etc.),
  * either add the exact key to KNOWN_KEYS or use one of the PREFIXES.
  */
+import { clearLibrary } from "@/lib/timelineLibrary";
 
 const KNOWN_KEYS = [
   "homepageFormState",        // HomeV3 — full form state (name, partner, kids, friends, …)
@@ -22,15 +23,20 @@ const KNOWN_KEYS = [
   "soundtrack_generation_state", // useSoundtrackGeneration — generated audio URLs
 ];
 
+// Caches that lived in sessionStorage before the timeline library; a tab
+// opened before the upgrade can still hold them.
 const PREFIXES = [
-  "timeline_cache_",   // src/lib/timelineCache.ts — cached AI-generated events
-  "tvfilm-overview::", // src/lib/overviewCache.ts — TV/film lookups + city
-  "music-overview::",  // src/lib/overviewCache.ts — music lookups + city
+  "timeline_cache_",   // cached AI-generated events
+  "tvfilm-overview::", // TV/film lookups + city
+  "music-overview::",  // music lookups + city
 ];
 
 export function clearAppSessionData(): void {
   if (typeof window === "undefined" || !window.sessionStorage) return;
 
+  // Fire-and-forget: clearLibrary never rejects
+  void clearLibrary();
+
   for (const key of KNOWN_KEYS) {
     try {
       sessionStorage.removeItem(key);
@@ -0,0 +1,87 @@
+/**
+ * "Shared years" mode: one timeline for two or more people (the user plus a
+ * partner and/or siblings).
+ *
+ * generate-timeline tags every event with the ids of the people it belongs
+ * to (`event.people`). The ids are derived from the form in the same order on
+ * both sides: "self", "partner", "sibling_1", "sibling_2", ... — keep
+ * getTimelinePeople in sync with buildPrompt in
+ * supabase/functions/generate-timeline/index.ts.
+ */
+import { FormData } from '@/types/form';
+import { TimelineEvent } from '@/types/timeline';
+
+export const SELF_PERSON_ID = 'self';
+export const PARTNER_PERSON_ID = 'partner';
+
+export interface TimelinePerson {
+  id: string;
+  /** Empty for "self" when no first name was given; the UI shows "you" instead. */
+  name: string;
+  birthYear?: number;
+  role: 'self' | 'partner' | 'sibling';
+}
+
+/** Everyone on the timeline, the user first. */
+export function getTimelinePeople(formData: FormData): TimelinePerson[] {
+  const { optionalData } = formData;
+  const people: TimelinePerson[] = [
+    {
+      id: SELF_PERSON_ID,
+      name: optionalData.firstName?.trim() || '',
+      birthYear: formData.birthDate?.year || undefined,
+      role: 'self',
+    },
+  ];
+
+  if (optionalData.partnerName?.trim()) {
+    people.push({
+      id: PARTNER_PERSON_ID,
+      name: optionalData.partnerName.trim(),
+      birthYear: optionalData.partnerBirthDate?.year || undefined,
+      role: 'partner',
+    });
+  }
+
+  (optionalData.siblings ?? [])
+    .filter((s) => s.name.trim())
+    .forEach((s, i) => {
+      people.push({
+        id: `sibling_${i + 1}`,
+        name: s.name.trim(),
+        birthYear: s.birthDate?.year || undefined,
+        role: 'sibling',
+      });
+    });
+
+  return people;
+}
+
+/** True when the shared mode is on and there is someone to share it with. */
+export function isSharedTimeline(formData: FormData | null | undefined): boolean {
+  return !!formData?.optionalData?.sharedTimeline && getTimelinePeople(formData).length > 1;
+}
+
+/** Age of a person during `year`, or undefined when unknown / not born yet. */
+export function ageInYear(person: TimelinePerson, year: number): number | undefined {
+  if (!person.birthYear || year < person.birthYear) return undefined;
+  return year - person.birthYear;
+}
+
+/**
+ * The people an event belongs to. Events without (valid) tags are shared
+ * world events and belong to everyone.
+ */
+export function getEventPeople(event: TimelineEvent, people: TimelinePerson[]): TimelinePerson[] {
+  const tagged = people.filter((p) => event.people?.includes(p.id));
+  return tagged.length > 0 ? tagged : people;
+}
+
+/**
+ * Index of the event before which the "year we met" anchor goes: the first
+ * event in or after `metYear`. -1 when there is no such event.
+ */
+export function findMetYearIndex(events: TimelineEvent[], metYear: number | undefined): number {
+  if (!metYear) return -1;
+  return events.findIndex((e) => e.year >= metYear);
+}
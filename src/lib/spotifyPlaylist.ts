@@ -0,0 +1,99 @@
+/**
+ * Spotify playlist export via the user's own account.
+ *
+ * OAuth authorization code flow with PKCE: the browser creates the verifier,
+ * the spotify-playlist edge function builds the consent URL and, after the
+ * redirect back to /spotify-callback, swaps the code for a token and creates
+ * the playlist. What to create is kept in sessionStorage across the redirect.
+ */
+import { supabase } from '@/integrations/supabase/client';
+import { generatePlaylistCover } from '@/lib/playlistCover';
+
+const PENDING_KEY = 'spotify-playlist-pending';
+
+export const SPOTIFY_CALLBACK_PATH = '/spotify-callback';
+
+export interface PlaylistRequest {
+  /** e.g. "Mijn Leven in Muziek" - the year range is appended */
+  label: string;
+  description: string;
+  trackIds: string[];
+  startYear: number;
+  endYear: number;
+  /** Where to send the user back to after the playlist is created */
+  returnTo: string;
+}
+
+interface PendingPlaylist extends PlaylistRequest {
+  state: string;
+  codeVerifier: string;
+}
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const randomString = (byteLength: number) => base64Url(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+const createCodeChallenge = async (verifier: string) =>
+  base64Url(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))));
+
+const getRedirectUri = () => `${window.location.origin}${SPOTIFY_CALLBACK_PATH}`;
+
+export const getPlaylistName = ({ label, startYear, endYear }: PlaylistRequest) =>
+  startYear === endYear ? `${label} ${startYear}` : `${label} ${startYear}–${endYear}`;
+
+/** Remembers the playlist and sends the user to the Spotify consent screen. */
+export async function startSpotifyPlaylistAuth(request: PlaylistRequest): Promise<void> {
+  const codeVerifier = randomString(64);
+  const state = randomString(16);
+
+  const { data, error } = await supabase.functions.invoke('spotify-playlist', {
+    body: {
+      action: 'authorize',
+      redirectUri: getRedirectUri(),
+      codeChallenge: await createCodeChallenge(codeVerifier),
+      state,
+    },
+  });
+  if (error || !data?.url) throw new Error(error?.message || 'Could not start Spotify login');
+
+  const pending: PendingPlaylist = { ...request, state, codeVerifier };
+  sessionStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+  window.location.assign(data.url);
+}
+
+export function getPendingPlaylist(): PlaylistRequest | null {
+  const raw = sessionStorage.getItem(PENDING_KEY);
+  return raw ? (JSON.parse(raw) as PendingPlaylist) : null;
+}
+
+/**
+ * Finishes the flow on the callback page. Returns the Spotify URL of the new
+ * playlist; throws when the user declined or the state doesn't match.
+ */
+export async function completeSpotifyPlaylist(params: URLSearchParams): Promise<string> {
+  const raw = sessionStorage.getItem(PENDING_KEY);
+  if (!raw) throw new Error('No playlist request found');
+  const pending = JSON.parse(raw) as PendingPlaylist;
+  sessionStorage.removeItem(PENDING_KEY);
+
+  const denied = params.get('error');
+  if (denied) throw new Error(denied);
+  const code = params.get('code');
+  if (!code || params.get('state') !== pending.state) throw new Error('Invalid Spotify callback');
+
+  const { data, error } = await supabase.functions.invoke('spotify-playlist', {
+    body: {
+      action: 'create',
+      code,
+      codeVerifier: pending.codeVerifier,
+      redirectUri: getRedirectUri(),
+      name: getPlaylistName(pending),
+      description: pending.description,
+      trackIds: pending.trackIds,
+      coverImage: generatePlaylistCover(pending.label, pending.startYear, pending.endYear),
+    },
+  });
+  if (error || !data?.playlistUrl) throw new Error(data?.error || error?.message || 'Playlist creation failed');
+  return data.playlistUrl;
+}
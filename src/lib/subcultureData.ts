@@ -1,38 +1,24 @@
-import subculturesCsv from '@/data/subcultures.csv?raw';
+import subculturesJson from '@/data/subcultures.json?raw';
+import { getHistoricalPolity } from '@/lib/historicalBorders';
+import type { PlaceLocation } from '@/lib/historicalBorders';
+import { subcultureDatasetSchema } from '@/lib/subcultureSchema';
+import type { SubcultureAgeGroup, SubcultureOption } from '@/lib/subcultureSchema';
 
-export interface SubcultureEntry {
-  period: string;
-  targetGroup: string;
-  country: string;
-  subcultures: string[];
-}
+export type { SubcultureOption } from '@/lib/subcultureSchema';
 
-// Parse the CSV data
-const parseSubcultures = (): SubcultureEntry[] => {
-  const lines = subculturesCsv.trim().split('\n');
-  // Skip header row
-  const dataLines = lines.slice(1);
-  
-  return dataLines.map(line => {
-    // Handle CSV parsing with potential commas in values
-    const parts = line.split(',');
-    return {
-      period: parts[0].trim(),
-      targetGroup: parts[1].trim(),
-      country: parts[2].trim(),
-      subcultures: parts.slice(3, 8).map(s => s.trim()).filter(Boolean)
-    };
-  });
-};
-
-const subcultureData = parseSubcultures();
+/**
+ * The subculture dataset, validated on load. Edit it through the admin page
+ * (/admin/subcultures) rather than by hand - the page checks every change
+ * against the schema and exports the file.
+ */
+export const subcultureDataset = subcultureDatasetSchema.parse(JSON.parse(subculturesJson));
 
-// Map period types to target groups
-const periodToTargetGroup: Record<string, string> = {
-  'puberty': 'Pubers',
-  'childhood': 'Pubers', // Use pubers for childhood too
-  'young-adult': 'Jong volwassen',
-  'birthyear': 'Pubers' // Default to pubers for birth year
+// Map period types to age groups
+const periodToAgeGroup: Record<string, SubcultureAgeGroup> = {
+  'puberty': 'teen',
+  'childhood': 'teen', // Use teens for childhood too
+  'young-adult': 'young-adult',
+  'birthyear': 'teen' // Default to teens for birth year
 };
 
 // Get decade string from year (e.g., 1985 -> "1980s")
@@ -41,167 +27,132 @@ const getDecadeString = (year: number): string => {
   return `${decade}s`;
 };
 
-// City-to-country mapping for subculture detection
-const cityToCountry: Record<string, string> = {
-  // Nederland
-  amsterdam: 'Nederland', rotterdam: 'Nederland', utrecht: 'Nederland', denhaag: 'Nederland',
-  'den haag': 'Nederland', eindhoven: 'Nederland', groningen: 'Nederland', tilburg: 'Nederland',
-  almere: 'Nederland', breda: 'Nederland', nijmegen: 'Nederland', arnhem: 'Nederland',
-  haarlem: 'Nederland', enschede: 'Nederland', apeldoorn: 'Nederland', amersfoort: 'Nederland',
-  maastricht: 'Nederland', leiden: 'Nederland', dordrecht: 'Nederland', zoetermeer: 'Nederland',
-  zwolle: 'Nederland', deventer: 'Nederland', delft: 'Nederland', leeuwarden: 'Nederland',
-  // Duitsland
-  berlin: 'Duitsland', münchen: 'Duitsland', munich: 'Duitsland', hamburg: 'Duitsland',
-  köln: 'Duitsland', cologne: 'Duitsland', frankfurt: 'Duitsland', stuttgart: 'Duitsland',
-  düsseldorf: 'Duitsland', dortmund: 'Duitsland', essen: 'Duitsland', leipzig: 'Duitsland',
-  bremen: 'Duitsland', dresden: 'Duitsland', hannover: 'Duitsland', nürnberg: 'Duitsland',
-  // USA
-  'new york': 'USA', 'los angeles': 'USA', chicago: 'USA', houston: 'USA', phoenix: 'USA',
-  philadelphia: 'USA', 'san antonio': 'USA', 'san diego': 'USA', dallas: 'USA', austin: 'USA',
-  seattle: 'USA', denver: 'USA', boston: 'USA', nashville: 'USA', portland: 'USA',
-  'san francisco': 'USA', miami: 'USA', atlanta: 'USA', detroit: 'USA', minneapolis: 'USA',
-  // UK
-  london: 'UK', manchester: 'UK', birmingham: 'UK', leeds: 'UK', glasgow: 'UK',
-  liverpool: 'UK', edinburgh: 'UK', bristol: 'UK', sheffield: 'UK', cardiff: 'UK',
-  newcastle: 'UK', nottingham: 'UK', brighton: 'UK', oxford: 'UK', cambridge: 'UK',
-  // Frankrijk
-  paris: 'Frankrijk', marseille: 'Frankrijk', lyon: 'Frankrijk', toulouse: 'Frankrijk',
-  nice: 'Frankrijk', nantes: 'Frankrijk', strasbourg: 'Frankrijk', montpellier: 'Frankrijk',
-  bordeaux: 'Frankrijk', lille: 'Frankrijk', rennes: 'Frankrijk',
-  // Italië
-  rome: 'Italië', roma: 'Italië', milan: 'Italië', milano: 'Italië', napoli: 'Italië',
-  naples: 'Italië', turin: 'Italië', torino: 'Italië', florence: 'Italië', firenze: 'Italië',
-  venice: 'Italië', venezia: 'Italië', bologna: 'Italië', genova: 'Italië',
-  // Japan
-  tokyo: 'Japan', osaka: 'Japan', kyoto: 'Japan', yokohama: 'Japan', nagoya: 'Japan',
-  // Zuid-Korea
-  seoul: 'Zuid-Korea', busan: 'Zuid-Korea', incheon: 'Zuid-Korea',
-  // Brazilië
-  'são paulo': 'Brazilië', 'sao paulo': 'Brazilië', rio: 'Brazilië',
-  'rio de janeiro': 'Brazilië', brasilia: 'Brazilië', salvador: 'Brazilië',
-  // Australië
-  sydney: 'Australië', melbourne: 'Australië', brisbane: 'Australië', perth: 'Australië',
-  adelaide: 'Australië',
-  // Zweden
-  stockholm: 'Zweden', göteborg: 'Zweden', gothenburg: 'Zweden', malmö: 'Zweden',
-  // Rusland
-  moscow: 'Rusland', moskou: 'Rusland', 'st petersburg': 'Rusland',
-  'sint petersburg': 'Rusland',
-  // China
-  beijing: 'China', shanghai: 'China', guangzhou: 'China', shenzhen: 'China',
-  // Nigeria
-  lagos: 'Nigeria', abuja: 'Nigeria',
+// City-to-country lookup, built from the dataset's gazetteer
+const cityToCountryCode = new Map(
+  subcultureDataset.countries.flatMap(country => country.cities.map(city => [city.toLowerCase(), country.code] as const))
+);
+const countryNames = new Map(subcultureDataset.countries.map(country => [country.code, country.name]));
+
+/**
+ * Detect the country code (e.g. "NL") from a city name. Accepts "City" as
+ * well as "City, Country".
+ */
+export const detectCountryCodeFromCity = (city: string): string | null => {
+  if (!city) return null;
+  const normalized = city.split(',')[0].toLowerCase().trim();
+  return cityToCountryCode.get(normalized) || null;
 };
 
 /**
- * Detect country from city name
+ * Detect country from city name (Dutch display name, e.g. "Nederland")
  */
 export const detectCountryFromCity = (city: string): string | null => {
-  if (!city) return null;
-  const normalized = city.toLowerCase().trim();
-  return cityToCountry[normalized] || null;
+  const code = detectCountryCodeFromCity(city);
+  return code ? countryNames.get(code) || null : null;
+};
+
+// ISO codes the dataset spells differently
+const DATASET_COUNTRY_CODES: Record<string, string> = { GB: 'UK' };
+
+const datasetCountryCodes = new Set(subcultureDataset.countries.map(country => country.code));
+
+// The dataset country for a gazetteer place in a given year: the state it
+// was in then when the dataset covers it (Leipzig 1975 -> DD), else today's
+const getDatasetCountryForPlace = (place: PlaceLocation, year: number): string => {
+  const polity = getHistoricalPolity(place, year);
+  if (polity && datasetCountryCodes.has(polity.id)) return polity.id;
+  return DATASET_COUNTRY_CODES[place.countryCode] ?? place.countryCode;
 };
 
 // Get the geographic region based on focus and optional city
-const getCountryForFocus = (focus: string, city?: string): string[] => {
-  // If city is provided, try to detect country and prioritize it
-  const detectedCountry = city ? detectCountryFromCity(city) : null;
-  
+const getCountriesForFocus = (focus: string, city?: string, detectedCode?: string): string[] => {
+  // A gazetteer country wins; otherwise try to detect the country from the
+  // city. Either way it goes first.
+  const detectedCountry = detectedCode ?? (city ? detectCountryCodeFromCity(city) : null);
+
   const baseCountries = (() => {
     switch (focus) {
       case 'netherlands':
-        return ['Nederland'];
+        return ['NL'];
       case 'europe':
-        return ['Nederland', 'Duitsland', 'UK', 'Frankrijk', 'Italië', 'Zweden', 'Australië'];
+        return ['NL', 'DE', 'UK', 'FR', 'IT', 'ES', 'PT', 'PL', 'SE', 'AU'];
       case 'world':
       default:
-        return ['Nederland', 'USA', 'UK', 'Global', 'Japan', 'Zuid-Korea', 'Brazilië', 'Duitsland', 'Frankrijk'];
+        return ['NL', 'US', 'UK', 'GLOBAL', 'JP', 'KR', 'BR', 'DE', 'FR'];
     }
   })();
-  
+
   if (detectedCountry) {
     // Put detected country first, then add remaining countries
     const rest = baseCountries.filter(c => c !== detectedCountry);
     return [detectedCountry, ...rest];
   }
-  
+
   return baseCountries;
 };
 
 export interface SubcultureResult {
+  /** Option names, most recognisable first */
   subcultures: string[];
+  /** The full entries, with description, brands, music and clothing */
+  options: SubcultureOption[];
   period: string;
-  targetGroup: string;
+  ageGroup: SubcultureAgeGroup;
+  /** Dutch display name, e.g. "Nederland" */
   country: string;
+  countryCode: string;
 }
 
 /**
- * Get relevant subcultures based on user's selected period and birth year
+ * Get relevant subcultures based on user's selected period and birth year.
+ * `place` (from the gazetteer) takes precedence over the city, and counts in
+ * the state it was in at the time (see historicalBorders.ts).
  */
 export const getSubculturesForPeriod = (
   startYear: number,
   endYear: number,
   periodType: string,
   focus: string = 'netherlands',
-  city?: string
+  city?: string,
+  place?: PlaceLocation
 ): SubcultureResult | null => {
   // Calculate the middle year of the period to determine the decade
   const middleYear = Math.round((startYear + endYear) / 2);
   const decade = getDecadeString(middleYear);
-  
-  // Get target group based on period type
-  const targetGroup = periodToTargetGroup[periodType] || 'Pubers';
-  
-  // Get countries to search for based on geographic focus
-  const countries = getCountryForFocus(focus, city);
-  
-  // Find matching entries - prioritize detected country first
-  for (const country of countries) {
-    const match = subcultureData.find(entry => 
-      entry.period === decade && 
-      entry.targetGroup === targetGroup &&
-      entry.country === country
-    );
-    
-
-    if (match && match.subcultures.length > 0) {
-      return {
-        subcultures: match.subcultures,
-        period: match.period,
-        targetGroup: match.targetGroup,
-        country: match.country
-      };
-    }
-  }
-  
-  // Fallback: try to find any entry for this decade and target group
-  const fallback = subcultureData.find(entry => 
-    entry.period === decade && 
-    entry.targetGroup === targetGroup
-  );
-  
-  if (fallback) {
-    return {
-      subcultures: fallback.subcultures,
-      period: fallback.period,
-      targetGroup: fallback.targetGroup,
-      country: fallback.country
-    };
-  }
-  
-  return null;
+
+  // Get age group based on period type
+  const ageGroup = periodToAgeGroup[periodType] || 'teen';
+
+  const eras = subcultureDataset.eras.filter(era => era.period === decade && era.ageGroup === ageGroup);
+
+  // Find matching entries - prioritize detected country first, then fall
+  // back to any entry for this decade and age group
+  const match =
+    getCountriesForFocus(focus, city, place && getDatasetCountryForPlace(place, middleYear))
+      .map(code => eras.find(era => era.country === code))
+      .find(era => era && era.options.length > 0) ?? eras[0];
+
+  if (!match) return null;
+
+  return {
+    subcultures: match.options.map(option => option.name),
+    options: match.options,
+    period: match.period,
+    ageGroup: match.ageGroup,
+    country: countryNames.get(match.country) || match.country,
+    countryCode: match.country
+  };
 };
 
 /**
  * Get all subcultures for a decade (for reference)
  */
 export const getAllSubculturesForDecade = (decade: string): string[] => {
-  const entries = subcultureData.filter(entry => entry.period === decade);
   const allSubcultures = new Set<string>();
-  
-  entries.forEach(entry => {
-    entry.subcultures.forEach(sub => allSubcultures.add(sub));
-  });
-  
+
+  subcultureDataset.eras
+    .filter(era => era.period === decade)
+    .forEach(era => era.options.forEach(option => allSubcultures.add(option.name)));
+
   return Array.from(allSubcultures);
 };
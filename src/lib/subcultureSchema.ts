@@ -0,0 +1,146 @@
+/**
+ * Schema for the subculture dataset in src/data/subcultures.json: per era
+ * (decade), age group and country, the subcultures a user could have belonged
+ * to, each with a short description and the brands, music and clothing that
+ * marked it. The country list doubles as the city → country gazetteer.
+ *
+ * subcultureData.ts loads the dataset through this schema and the admin editor
+ * (SubcultureEditorPage) validates every edit with it before exporting. The
+ * content is written in Dutch, like the prompts it feeds.
+ */
+import { z } from 'zod';
+
+export const SUBCULTURE_AGE_GROUPS = ['teen', 'young-adult'] as const;
+
+const text = z.string().trim().min(1, 'mag niet leeg zijn');
+
+export const subcultureOptionSchema = z.object({
+  name: text,
+  description: text,
+  brands: z.array(text),
+  music: z.array(text),
+  clothing: z.array(text),
+});
+
+export const subcultureCountrySchema = z.object({
+  /** ISO-style code, e.g. "NL" - matches ChartCountry where charts exist */
+  code: z.string().regex(/^[A-Z]{2,6}$/, 'gebruik hoofdletters, bijv. "NL"'),
+  /** Dutch display name, e.g. "Nederland" */
+  name: text,
+  /** Lowercase city names (and common spellings) that map to this country */
+  cities: z.array(text),
+});
+
+export const subcultureEraSchema = z.object({
+  /** Decade, e.g. "1980s" */
+  period: z.string().regex(/^\d{3}0s$/, 'gebruik een decennium, bijv. "1980s"'),
+  ageGroup: z.enum(SUBCULTURE_AGE_GROUPS),
+  /** Country code from `countries` */
+  country: z.string(),
+  /** Most recognisable first - there is no fixed number */
+  options: z.array(subcultureOptionSchema).min(1, 'voeg minstens één subcultuur toe'),
+});
+
+export const subcultureDatasetSchema = z
+  .object({
+    /** Bumped by the editor on every export */
+    version: z.number().int().positive(),
+    countries: z.array(subcultureCountrySchema).min(1),
+    eras: z.array(subcultureEraSchema),
+  })
+  .superRefine((dataset, ctx) => {
+    const countryCodes = new Set<string>();
+    const cityOwners = new Map<string, string>();
+    dataset.countries.forEach((country, i) => {
+      if (countryCodes.has(country.code)) {
+        ctx.addIssue({ code: 'custom', path: ['countries', i, 'code'], message: `land ${country.code} staat er dubbel in` });
+      }
+      countryCodes.add(country.code);
+      country.cities.forEach((city, j) => {
+        const key = city.toLowerCase();
+        const owner = cityOwners.get(key);
+        if (owner) {
+          ctx.addIssue({ code: 'custom', path: ['countries', i, 'cities', j], message: `"${city}" hoort al bij ${owner}` });
+        }
+        cityOwners.set(key, country.code);
+      });
+    });
+
+    const slots = new Set<string>();
+    dataset.eras.forEach((era, i) => {
+      if (!countryCodes.has(era.country)) {
+        ctx.addIssue({ code: 'custom', path: ['eras', i, 'country'], message: `onbekend land "${era.country}"` });
+      }
+      const slot = `${era.period}|${era.ageGroup}|${era.country}`;
+      if (slots.has(slot)) {
+        ctx.addIssue({ code: 'custom', path: ['eras', i], message: `${era.period} ${era.ageGroup} ${era.country} staat er dubbel in` });
+      }
+      slots.add(slot);
+
+      const names = new Set<string>();
+      era.options.forEach((option, j) => {
+        const key = option.name.trim().toLowerCase();
+        if (names.has(key)) {
+          ctx.addIssue({ code: 'custom', path: ['eras', i, 'options', j, 'name'], message: `"${option.name}" staat er dubbel in` });
+        }
+        names.add(key);
+      });
+    });
+  });
+
+export type SubcultureAgeGroup = (typeof SUBCULTURE_AGE_GROUPS)[number];
+export type SubcultureOption = z.infer<typeof subcultureOptionSchema>;
+export type SubcultureCountry = z.infer<typeof subcultureCountrySchema>;
+export type SubcultureEra = z.infer<typeof subcultureEraSchema>;
+export type SubcultureDataset = z.infer<typeof subcultureDatasetSchema>;
+
+export interface SubcultureIssue {
+  /** Dotted path into the dataset, e.g. "eras.12.options.3.description" */
+  path: string;
+  message: string;
+  /** Errors block export; warnings point at thin entries */
+  severity: 'error' | 'warning';
+}
+
+const DETAIL_LABELS: Record<'brands' | 'music' | 'clothing', string> = {
+  brands: 'merken',
+  music: 'muziek',
+  clothing: 'kleding',
+};
+
+/**
+ * Validates a dataset (e.g. an editor draft or an imported file). Schema
+ * violations are errors; options without brands, music or clothing are
+ * warnings, since the prompt is much weaker without them.
+ */
+export function validateSubcultureDataset(data: unknown): {
+  dataset: SubcultureDataset | null;
+  issues: SubcultureIssue[];
+} {
+  const result = subcultureDatasetSchema.safeParse(data);
+  if (!result.success) {
+    return {
+      dataset: null,
+      issues: result.error.issues.map((issue) => ({
+        path: issue.path.join('.'),
+        message: issue.message,
+        severity: 'error' as const,
+      })),
+    };
+  }
+
+  const issues: SubcultureIssue[] = [];
+  result.data.eras.forEach((era, i) => {
+    era.options.forEach((option, j) => {
+      for (const [field, label] of Object.entries(DETAIL_LABELS)) {
+        if (option[field as keyof typeof DETAIL_LABELS].length === 0) {
+          issues.push({ path: `eras.${i}.options.${j}.${field}`, message: `${option.name}: geen ${label}`, severity: 'warning' });
+        }
+      }
+    });
+  });
+  return { dataset: result.data, issues };
+}
+
+/** The file format of src/data/subcultures.json. */
+export const formatSubcultureDataset = (dataset: SubcultureDataset) => JSON.stringify(dataset, null, 2) + '\n';
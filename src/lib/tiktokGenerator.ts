@@ -1,5 +1,7 @@
 import html2canvas from 'html2canvas';
 import { TimelineEvent, FamousBirthday } from '@/types/timeline';
+import { selectHighlightEvents } from '@/lib/highlights';
+import { prepareEventsForPublicShare } from '@/lib/imageCredits';
 
 interface TikTokSlide {
   type: 'event' | 'celebrity' | 'intro' | 'outro';
@@ -43,14 +45,8 @@ function selectHighlights(
   });
 
   // Get top events by importance (prioritize high, then medium)
-  const sortedEvents = [...events]
-    .filter(e => e.importance === 'high' || e.importance === 'medium')
-    .sort((a, b) => {
-      if (a.importance === 'high' && b.importance !== 'high') return -1;
-      if (b.importance === 'high' && a.importance !== 'high') return 1;
-      return a.year - b.year;
-    })
-    .slice(0, 6);
+  // Slides are posted publicly: only own photos and images licensed for republishing
+  const sortedEvents = selectHighlightEvents(prepareEventsForPublicShare(events));
 
   // Add event slides
   sortedEvents.forEach(event => {
@@ -1,17 +1,23 @@
+/**
+ * Timeline cache keyed on the generation inputs (form data + language).
+ * Thin facade over the persistent IndexedDB library in timelineLibrary.ts,
+ * so generated timelines survive closing the tab.
+ */
 import { FormData } from '@/types/form';
 import { TimelineEvent, FamousBirthday } from '@/types/timeline';
+import {
+  LibraryTimeline,
+  LibrarySoundtrack,
+  getTimeline,
+  putTimeline,
+  updateTimeline,
+  deleteTimeline,
+} from '@/lib/timelineLibrary';
+import { getTimelinePeople, isSharedTimeline } from '@/lib/sharedTimeline';
 
-interface CachedTimeline {
-  events: TimelineEvent[];
-  summary: string;
-  famousBirthdays: FamousBirthday[];
-  storyTitle?: string;
-  storyIntroduction?: string;
-  cachedAt: number;
-}
+export type CachedTimeline = LibraryTimeline;
 
 const CACHE_KEY_PREFIX = 'timeline_cache_';
-const CACHE_TTL_MS = 1000 * 60 * 60 * 24; // 24 hours
 
 /**
  * Generate a stable cache key from form data.
@@ -37,82 +43,75 @@ export function getCacheKey(formData: FormData, language: string): string {
     parts.push(formData.optionalData.focus || 'world');
     parts.push(formData.optionalData.city || '');
     parts.push(formData.optionalData.interests || '');
+    if (isSharedTimeline(formData)) {
+      parts.push(
+        'shared',
+        getTimelinePeople(formData).map((p) => `${p.id}:${p.birthYear ?? ''}`).join(','),
+        String(formData.optionalData.metYear ?? '')
+      );
+    }
   }
 
   return CACHE_KEY_PREFIX + btoa(parts.join('|')).replace(/=/g, '');
 }
 
 /**
- * Store timeline data in sessionStorage.
+ * Store timeline data in the library.
  */
-export function cacheTimeline(
+export async function cacheTimeline(
   formData: FormData,
   language: string,
   events: TimelineEvent[],
   summary: string,
   famousBirthdays: FamousBirthday[],
   meta?: { storyTitle?: string; storyIntroduction?: string }
-): void {
-  try {
-    const key = getCacheKey(formData, language);
-    const payload: CachedTimeline = {
-      events,
-      summary,
-      famousBirthdays,
-      storyTitle: meta?.storyTitle,
-      storyIntroduction: meta?.storyIntroduction,
-      cachedAt: Date.now(),
-    };
-    sessionStorage.setItem(key, JSON.stringify(payload));
-  } catch (e) {
-    console.warn('Failed to cache timeline:', e);
-  }
+): Promise<void> {
+  await putTimeline({
+    key: getCacheKey(formData, language),
+    formData,
+    language,
+    events,
+    summary,
+    famousBirthdays,
+    storyTitle: meta?.storyTitle,
+    storyIntroduction: meta?.storyIntroduction,
+  });
 }
 
 /**
- * Retrieve cached timeline if it exists and is not expired.
+ * Retrieve a cached timeline (and mark it as recently used).
  */
-export function getCachedTimeline(
+export async function getCachedTimeline(
   formData: FormData,
   language: string
-): CachedTimeline | null {
-  try {
-    const key = getCacheKey(formData, language);
-    const raw = sessionStorage.getItem(key);
-    if (!raw) return null;
-
-    const cached: CachedTimeline = JSON.parse(raw);
-
-    // Check TTL
-    if (Date.now() - cached.cachedAt > CACHE_TTL_MS) {
-      sessionStorage.removeItem(key);
-      return null;
-    }
-
-    return cached;
-  } catch (e) {
-    console.warn('Failed to read timeline cache:', e);
-    return null;
-  }
+): Promise<CachedTimeline | null> {
+  return getTimeline(getCacheKey(formData, language));
 }
 
 /**
  * Update cached events (e.g., after images are loaded).
  */
-export function updateCachedEvents(
+export async function updateCachedEvents(
   formData: FormData,
   language: string,
   updater: (events: TimelineEvent[]) => TimelineEvent[]
-): void {
-  try {
-    const key = getCacheKey(formData, language);
-    const raw = sessionStorage.getItem(key);
-    if (!raw) return;
+): Promise<void> {
+  await updateTimeline(getCacheKey(formData, language), (entry) => ({
+    ...entry,
+    events: updater(entry.events),
+  }));
+}
 
-    const cached: CachedTimeline = JSON.parse(raw);
-    cached.events = updater(cached.events);
-    sessionStorage.setItem(key, JSON.stringify(cached));
-  } catch (e) {
-    console.warn('Failed to update timeline cache:', e);
-  }
+/**
+ * Attach a finished soundtrack to the timeline it was generated for.
+ */
+export async function updateCachedSoundtrack(key: string, soundtrack: LibrarySoundtrack): Promise<void> {
+  await updateTimeline(key, (entry) => ({ ...entry, soundtrack }));
+}
+
+/**
+ * Drop a cached timeline so the next visit regenerates it.
+ */
+export async function removeCachedTimeline(formData: FormData, language: string): Promise<void> {
+  await deleteTimeline(getCacheKey(formData, language));
 }
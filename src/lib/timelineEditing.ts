@@ -0,0 +1,100 @@
+/**
+ * Helpers for the manual timeline editor on /story.
+ *
+ * Edited events stay plain TimelineEvents, so every downstream consumer
+ * (PDFs, Remotion, polaroids, saved stories) picks up the changes without
+ * knowing an edit happened.
+ */
+import { TimelineEvent } from '@/types/timeline';
+import { USER_PHOTO_SOURCE } from '@/lib/photoUpload';
+
+export const EVENT_CATEGORIES: TimelineEvent['category'][] = [
+  'personal',
+  'politics',
+  'sports',
+  'entertainment',
+  'science',
+  'culture',
+  'world',
+  'local',
+  'music',
+  'technology',
+  'celebrity',
+];
+
+export const EVENT_IMPORTANCE: TimelineEvent['importance'][] = ['high', 'medium', 'low'];
+
+export type EventEdit = Partial<Pick<TimelineEvent, 'title' | 'description' | 'date' | 'category' | 'importance'>>;
+
+/**
+ * Parses "YYYY", "YYYY-MM" or "YYYY-MM-DD" into year/month/day.
+ * Returns null for anything else.
+ */
+export function parseEventDate(date: string): { year: number; month?: number; day?: number } | null {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(date.trim());
+  if (!match) return null;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) : undefined;
+  const day = match[3] ? Number(match[3]) : undefined;
+  if (month !== undefined && (month < 1 || month > 12)) return null;
+  if (day !== undefined && (day < 1 || day > 31)) return null;
+
+  return { year, month, day };
+}
+
+/**
+ * Applies an edit to an event. A date change also updates year/month/day;
+ * an unparseable date is kept as typed but leaves the numeric fields alone.
+ */
+export function applyEventEdit(event: TimelineEvent, edit: EventEdit): TimelineEvent {
+  const updated = { ...event, ...edit };
+  if (edit.date !== undefined) {
+    const parsed = parseEventDate(edit.date);
+    if (parsed) {
+      updated.year = parsed.year;
+      updated.month = parsed.month;
+      updated.day = parsed.day;
+    }
+  }
+  return updated;
+}
+
+/** Replaces the searched image with a photo the user uploaded. */
+export function applyUserPhoto(event: TimelineEvent, dataUrl: string): TimelineEvent {
+  return {
+    ...event,
+    imageUrl: dataUrl,
+    source: USER_PHOTO_SOURCE,
+    imageStatus: 'found',
+    searchTrace: undefined,
+    imageCandidates: undefined,
+    imageCredit: undefined,
+    userPhoto: undefined,
+  };
+}
+
+/** A blank personal event for the given year, ready to be filled in. */
+export function createPersonalEvent(year: number): TimelineEvent {
+  return {
+    id: `personal_${Date.now().toString(36)}`,
+    date: String(year),
+    year,
+    title: '',
+    description: '',
+    category: 'personal',
+    visualSubjectType: 'lifestyle',
+    importance: 'medium',
+    eventScope: 'period',
+    imageStatus: 'idle',
+  };
+}
+
+/** Moves the event at `index` one step up (-1) or down (+1). */
+export function moveEvent(events: TimelineEvent[], index: number, direction: -1 | 1): TimelineEvent[] {
+  const target = index + direction;
+  if (index < 0 || index >= events.length || target < 0 || target >= events.length) return events;
+  const next = [...events];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
@@ -0,0 +1,312 @@
+/**
+ * Persistent library of generated timelines, backed by IndexedDB.
+ *
+ * Keeps every generated timeline (events with their resolved images and
+ * search traces, story texts, soundtrack metadata) plus the /muziek and
+ * /tv-film overview lookups across browser sessions. There is no fixed TTL:
+ * the library is capped by size, and once the total passes
+ * LIBRARY_QUOTA_BYTES the least recently opened entries are evicted first.
+ *
+ * All functions resolve to null / no-op when IndexedDB is unavailable
+ * (private mode, very old browsers), so callers can treat the library as a
+ * best-effort cache.
+ */
+import { FormData } from '@/types/form';
+import { TimelineEvent, FamousBirthday } from '@/types/timeline';
+
+const DB_NAME = 'timestory-library';
+const DB_VERSION = 1;
+const TIMELINES = 'timelines';
+const OVERVIEWS = 'overviews';
+
+export const LIBRARY_QUOTA_BYTES = 25 * 1024 * 1024; // 25 MB
+
+export interface LibrarySoundtrack {
+  title: string | null;
+  style: string | null;
+  lyrics: string | null;
+  audioUrl: string;
+  duration: number | null;
+  completedAt: number | null;
+}
+
+export interface LibraryTimeline {
+  key: string;
+  formData: FormData;
+  language: string;
+  events: TimelineEvent[];
+  summary: string;
+  famousBirthdays: FamousBirthday[];
+  storyTitle?: string;
+  storyIntroduction?: string;
+  soundtrack?: LibrarySoundtrack;
+  createdAt: number;
+  lastAccessedAt: number;
+  sizeBytes: number;
+}
+
+interface OverviewRecord {
+  key: string;
+  data: unknown;
+  lastAccessedAt: number;
+  sizeBytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openLibrary = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB unavailable'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of [TIMELINES, OVERVIEWS]) {
+        if (!db.objectStoreNames.contains(name)) {
+          const store = db.createObjectStore(name, { keyPath: 'key' });
+          store.createIndex('lastAccessedAt', 'lastAccessedAt');
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a retry on the next call instead of caching the failure forever
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+// IndexedDB stores strings as UTF-16; two bytes per char is close enough for a quota.
+const estimateSize = (value: unknown): number => JSON.stringify(value).length * 2;
+
+const withSize = <T extends { sizeBytes: number }>(record: T): T => {
+  const sized = { ...record, sizeBytes: 0 };
+  sized.sizeBytes = estimateSize(sized);
+  return sized;
+};
+
+/**
+ * Evicts least-recently-accessed timelines and overviews until the library
+ * fits in `quotaBytes`. The entry that was just written is never evicted.
+ */
+export async function enforceQuota(quotaBytes = LIBRARY_QUOTA_BYTES, keepKey?: string): Promise<void> {
+  try {
+    const db = await openLibrary();
+    const tx = db.transaction([TIMELINES, OVERVIEWS], 'readwrite');
+    const [timelines, overviews] = await Promise.all([
+      requestToPromise(tx.objectStore(TIMELINES).getAll() as IDBRequest<LibraryTimeline[]>),
+      requestToPromise(tx.objectStore(OVERVIEWS).getAll() as IDBRequest<OverviewRecord[]>),
+    ]);
+
+    const entries = [
+      ...timelines.map((t) => ({ store: TIMELINES, key: t.key, lastAccessedAt: t.lastAccessedAt, sizeBytes: t.sizeBytes })),
+      ...overviews.map((o) => ({ store: OVERVIEWS, key: o.key, lastAccessedAt: o.lastAccessedAt, sizeBytes: o.sizeBytes })),
+    ].sort((a, b) => a.lastAccessedAt - b.lastAccessedAt);
+
+    let total = entries.reduce((sum, e) => sum + (e.sizeBytes || 0), 0);
+    for (const entry of entries) {
+      if (total <= quotaBytes) break;
+      if (entry.key === keepKey) continue;
+      tx.objectStore(entry.store).delete(entry.key);
+      total -= entry.sizeBytes || 0;
+      console.log(`[TimelineLibrary] Evicted ${entry.store}/${entry.key} (${Math.round((entry.sizeBytes || 0) / 1024)} KB)`);
+    }
+
+    await transactionDone(tx);
+  } catch (e) {
+    console.warn('[TimelineLibrary] Failed to enforce quota:', e);
+  }
+}
+
+/**
+ * Read a timeline and mark it as recently used.
+ */
+export async function getTimeline(key: string): Promise<LibraryTimeline | null> {
+  try {
+    const db = await openLibrary();
+    const tx = db.transaction(TIMELINES, 'readwrite');
+    const store = tx.objectStore(TIMELINES);
+    const entry = (await requestToPromise(store.get(key))) as LibraryTimeline | undefined;
+    if (!entry) return null;
+
+    const touched = { ...entry, lastAccessedAt: Date.now() };
+    store.put(touched);
+    await transactionDone(tx);
+    return touched;
+  } catch (e) {
+    console.warn('[TimelineLibrary] Failed to read timeline:', e);
+    return null;
+  }
+}
+
+/**
+ * Store a timeline. `createdAt` and `soundtrack` survive when an existing
+ * entry with the same key is overwritten (e.g. a regenerated timeline keeps
+ * its place in history but gets fresh events).
+ */
+export async function putTimeline(
+  entry: Omit<LibraryTimeline, 'createdAt' | 'lastAccessedAt' | 'sizeBytes'> & Partial<Pick<LibraryTimeline, 'createdAt'>>
+): Promise<void> {
+  try {
+    const db = await openLibrary();
+    const tx = db.transaction(TIMELINES, 'readwrite');
+    const store = tx.objectStore(TIMELINES);
+    const existing = (await requestToPromise(store.get(entry.key))) as LibraryTimeline | undefined;
+    const now = Date.now();
+
+    store.put(withSize<LibraryTimeline>({
+      ...entry,
+      soundtrack: entry.soundtrack ?? existing?.soundtrack,
+      createdAt: entry.createdAt ?? existing?.createdAt ?? now,
+      lastAccessedAt: now,
+      sizeBytes: 0,
+    }));
+    await transactionDone(tx);
+  } catch (e) {
+    console.warn('[TimelineLibrary] Failed to store timeline:', e);
+    return;
+  }
+
+  await enforceQuota(LIBRARY_QUOTA_BYTES, entry.key);
+}
+
+/**
+ * Read-modify-write a stored timeline in a single transaction.
+ * No-op when the key is not in the library.
+ */
+export async function updateTimeline(
+  key: string,
+  updater: (entry: LibraryTimeline) => LibraryTimeline
+): Promise<void> {
+  try {
+    const db = await openLibrary();
+    const tx = db.transaction(TIMELINES, 'readwrite');
+    const store = tx.objectStore(TIMELINES);
+    const existing = (await requestToPromise(store.get(key))) as LibraryTimeline | undefined;
+    if (!existing) return;
+
+    store.put(withSize(updater(existing)));
+    await transactionDone(tx);
+  } catch (e) {
+    console.warn('[TimelineLibrary] Failed to update timeline:', e);
+  }
+}
+
+export async function deleteTimeline(key: string): Promise<void> {
+  try {
+    const db = await openLibrary();
+    const tx = db.transaction(TIMELINES, 'readwrite');
+    tx.objectStore(TIMELINES).delete(key);
+    await transactionDone(tx);
+  } catch (e) {
+    console.warn('[TimelineLibrary] Failed to delete timeline:', e);
+  }
+}
+
+const matchesQuery = (entry: LibraryTimeline, query: string): boolean => {
+  const { formData } = entry;
+  const haystack = [
+    entry.storyTitle,
+    entry.summary,
+    formData.optionalData?.firstName,
+    formData.optionalData?.lastName,
+    formData.optionalData?.city,
+    formData.birthDate?.year,
+    formData.yearRange?.startYear,
+    formData.yearRange?.endYear,
+    ...entry.events.map((e) => e.title),
+  ]
+    .filter((part) => part !== undefined && part !== null)
+    .join(' ')
+    .toLowerCase();
+
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => haystack.includes(term));
+};
+
+/**
+ * All stored timelines, most recently opened first. `query` matches on
+ * story title, name, city, years and event titles (all terms must match).
+ */
+export async function listTimelines(query?: string): Promise<LibraryTimeline[]> {
+  try {
+    const db = await openLibrary();
+    const tx = db.transaction(TIMELINES, 'readonly');
+    const entries = (await requestToPromise(tx.objectStore(TIMELINES).getAll())) as LibraryTimeline[];
+    return entries
+      .filter((entry) => !query?.trim() || matchesQuery(entry, query))
+      .sort((a, b) => b.lastAccessedAt - a.lastAccessedAt);
+  } catch (e) {
+    console.warn('[TimelineLibrary] Failed to list timelines:', e);
+    return [];
+  }
+}
+
+export async function readOverview<T>(key: string): Promise<T | null> {
+  try {
+    const db = await openLibrary();
+    const tx = db.transaction(OVERVIEWS, 'readwrite');
+    const store = tx.objectStore(OVERVIEWS);
+    const record = (await requestToPromise(store.get(key))) as OverviewRecord | undefined;
+    if (!record) return null;
+
+    store.put({ ...record, lastAccessedAt: Date.now() });
+    await transactionDone(tx);
+    return record.data as T;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeOverview<T>(key: string, data: T): Promise<void> {
+  try {
+    const db = await openLibrary();
+    const tx = db.transaction(OVERVIEWS, 'readwrite');
+    tx.objectStore(OVERVIEWS).put(withSize<OverviewRecord>({ key, data, lastAccessedAt: Date.now(), sizeBytes: 0 }));
+    await transactionDone(tx);
+  } catch {
+    // IndexedDB full / unavailable — ignore
+    return;
+  }
+
+  await enforceQuota(LIBRARY_QUOTA_BYTES, key);
+}
+
+/**
+ * Wipe the whole library (timelines and overviews). Used on sign-out so a
+ * shared browser doesn't hand the previous user's stories to the next one.
+ */
+export async function clearLibrary(): Promise<void> {
+  try {
+    const db = await openLibrary();
+    const tx = db.transaction([TIMELINES, OVERVIEWS], 'readwrite');
+    tx.objectStore(TIMELINES).clear();
+    tx.objectStore(OVERVIEWS).clear();
+    await transactionDone(tx);
+  } catch (e) {
+    console.warn('[TimelineLibrary] Failed to clear library:', e);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * Year-over-year comparison ("your 1985 vs. my 1992").
+ *
+ * Each side is a normal single-year timeline generation; this module only
+ * builds the two FormData inputs and buckets the resulting events into the
+ * categories the comparison page lays side by side.
+ */
+import { FormData, OptionalData } from '@/types/form';
+import { TimelineEvent } from '@/types/timeline';
+
+export type CompareCategory = 'music' | 'tv' | 'technology' | 'politics';
+
+export const COMPARE_CATEGORIES: CompareCategory[] = ['music', 'tv', 'technology', 'politics'];
+
+/** Short timelines keep two parallel generations fast. */
+export const COMPARE_MAX_EVENTS = 20;
+
+export interface CompareSideInput {
+  name: string;
+  year: number;
+}
+
+/**
+ * FormData for one side: a single-year range, carrying over the lens settings
+ * (focus, gender, city) from the user's own form when there is one.
+ */
+export function buildCompareFormData(side: CompareSideInput, base?: OptionalData): FormData {
+  return {
+    type: 'range',
+    yearRange: { startYear: side.year, endYear: side.year },
+    optionalData: {
+      firstName: side.name.trim() || undefined,
+      city: base?.city,
+      gender: base?.gender ?? 'none',
+      attitude: base?.attitude ?? 'neutral',
+      children: [],
+      focus: base?.focus ?? 'netherlands',
+      periodType: 'custom',
+    },
+  };
+}
+
+/** Which comparison bucket an event falls into, or null when it fits none. */
+export function getCompareCategory(event: TimelineEvent): CompareCategory | null {
+  if (event.category === 'music' || event.spotifySearchQuery) return 'music';
+  if (event.isTV || event.isMovie || event.category === 'entertainment') return 'tv';
+  if (event.category === 'technology' || event.category === 'science') return 'technology';
+  if (event.category === 'politics' || event.category === 'world') return 'politics';
+  return null;
+}
+
+export function groupByCompareCategory(events: TimelineEvent[]): Record<CompareCategory, TimelineEvent[]> {
+  const groups: Record<CompareCategory, TimelineEvent[]> = { music: [], tv: [], technology: [], politics: [] };
+  for (const event of events) {
+    const category = getCompareCategory(event);
+    if (category) groups[category].push(event);
+  }
+  return groups;
+}
@@ -2,13 +2,20 @@ import { createRoot } from "react-dom/client";
 import { ErrorBoundary } from "react-error-boundary";
 import App from "./App.tsx";
 import { ErrorFallback } from "./components/ErrorFallback";
+import { getInitialLanguage, loadLocale } from "./lib/i18n";
 import { initSentry } from "./lib/sentry";
 import "./index.css";
 
 initSentry();
 
-createRoot(document.getElementById("root")!).render(
-  <ErrorBoundary FallbackComponent={ErrorFallback} onReset={() => { /* user-initiated reload */ }}>
-    <App />
-  </ErrorBoundary>
-);
+// Fetch the visitor's translations before the first render so the page doesn't flash Dutch;
+// if that fails the provider falls back to Dutch and retries.
+loadLocale(getInitialLanguage())
+  .catch((error) => console.error("Failed to preload translations:", error))
+  .finally(() => {
+    createRoot(document.getElementById("root")!).render(
+      <ErrorBoundary FallbackComponent={ErrorFallback} onReset={() => { /* user-initiated reload */ }}>
+        <App />
+      </ErrorBoundary>
+    );
+  });
@@ -36,7 +36,7 @@ interface SavedEvent {
 
 const AccountPage = () => {
   const { user, loading: authLoading, signOut } = useAuth();
-  const { t, language } = useLanguage();
+  const { t, formatDate, formatNumber } = useLanguage();
   const navigate = useNavigate();
   const { toast } = useToast();
   const [stories, setStories] = useState<SavedStory[]>([]);
@@ -184,13 +184,6 @@ const AccountPage = () => {
   const avatarUrl = user.user_metadata?.avatar_url;
   const initials = displayName.slice(0, 2).toUpperCase();
 
-  const formatDate = (dateStr: string) => {
-    return new Date(dateStr).toLocaleDateString(
-      language === 'nl' ? 'nl-NL' : language === 'de' ? 'de-DE' : language === 'fr' ? 'fr-FR' : 'en-US',
-      { year: 'numeric', month: 'long', day: 'numeric' }
-    );
-  };
-
   return (
     <div className="min-h-screen bg-background">
       <Header />
@@ -242,7 +235,7 @@ const AccountPage = () => {
             ) : (
               <Button onClick={handleCheckout} disabled={billingLoading} className="w-full">
                 {billingLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                Premium — €9,99/{language === 'en' ? 'month' : language === 'de' ? 'Monat' : language === 'fr' ? 'mois' : 'maand'}
+                Premium — {formatNumber(9.99, { style: 'currency', currency: 'EUR' })}/{String(t('accountPerMonth'))}
               </Button>
             )}
           </CardContent>
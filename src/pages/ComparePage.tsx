@@ -0,0 +1,357 @@
+/**
+ * ComparePage - "Jouw 1985 vs. mijn 1992"
+ * Generates two single-year timelines in parallel and lays them side by side
+ * per category, each in its own era styling, with an AI-written
+ * "what changed in between" text built from both summaries.
+ */
+import { useCallback, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, ArrowLeftRight, Loader2, AlertCircle, Music, Tv, Cpu, Landmark } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AccountLink } from '@/components/AccountLink';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { FormData } from '@/types/form';
+import { TimelineEvent } from '@/types/timeline';
+import { generateTimelineStreaming, generateYearComparison } from '@/lib/api/timeline';
+import { getCachedTimeline, cacheTimeline } from '@/lib/timelineCache';
+import { EraTheme, getEraTheme } from '@/lib/eraThemes';
+import { TranslationKey } from '@/lib/i18n';
+import {
+  COMPARE_CATEGORIES,
+  COMPARE_MAX_EVENTS,
+  CompareCategory,
+  CompareSideInput,
+  buildCompareFormData,
+  groupByCompareCategory,
+} from '@/lib/yearComparison';
+
+interface CompareSideState {
+  formData: FormData | null;
+  events: TimelineEvent[];
+  summary: string;
+  storyTitle: string;
+  status: 'idle' | 'loading' | 'done' | 'error';
+  error?: string;
+}
+
+const emptySide: CompareSideState = { formData: null, events: [], summary: '', storyTitle: '', status: 'idle' };
+
+const CATEGORY_ICONS: Record<CompareCategory, typeof Music> = {
+  music: Music,
+  tv: Tv,
+  technology: Cpu,
+  politics: Landmark,
+};
+
+const categoryLabelKey = (category: CompareCategory) =>
+  `compareCat${category.charAt(0).toUpperCase()}${category.slice(1)}` as TranslationKey;
+
+// Prefill "your" side from the form the user filled in on the homepage
+const readOwnSide = (): CompareSideInput => {
+  try {
+    const stored = sessionStorage.getItem('timelineFormData');
+    if (stored) {
+      const formData = JSON.parse(stored) as FormData;
+      return {
+        name: formData.optionalData?.firstName || '',
+        year: formData.birthDate?.year || formData.yearRange?.startYear || 0,
+      };
+    }
+  } catch {
+    // Corrupt session data, start empty
+  }
+  return { name: '', year: 0 };
+};
+
+const readBaseOptionalData = () => {
+  try {
+    const stored = sessionStorage.getItem('timelineFormData');
+    return stored ? (JSON.parse(stored) as FormData).optionalData : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+interface EraHeaderProps {
+  side: CompareSideState;
+  input: CompareSideInput;
+  theme: EraTheme;
+  fallbackName: string;
+}
+
+const EraHeader = ({ side, input, theme, fallbackName }: EraHeaderProps) => (
+  <div
+    className="rounded-xl p-4 sm:p-6 shadow-md border"
+    style={{ backgroundColor: theme.background, borderColor: theme.accent }}
+  >
+    <p className="text-xs uppercase tracking-[0.25em] font-mono" style={{ color: theme.secondary }}>
+      {input.name || fallbackName}
+    </p>
+    <p className="text-5xl sm:text-7xl font-black leading-none mt-1" style={{ color: theme.primary, fontFamily: theme.fontFamily }}>
+      {input.year}
+    </p>
+    {side.storyTitle && (
+      <p className="mt-3 text-sm sm:text-base italic" style={{ color: theme.primary }}>
+        {side.storyTitle}
+      </p>
+    )}
+    {side.status === 'loading' && (
+      <Loader2 className="mt-3 h-4 w-4 animate-spin" style={{ color: theme.accent }} />
+    )}
+    {side.status === 'error' && (
+      <p className="mt-3 flex items-center gap-1 text-xs text-destructive">
+        <AlertCircle className="h-3 w-3" />
+        {side.error}
+      </p>
+    )}
+  </div>
+);
+
+const EraEventList = ({ events, theme }: { events: TimelineEvent[]; theme: EraTheme }) => {
+  const { t } = useLanguage();
+
+  if (events.length === 0) {
+    return <p className="text-xs text-muted-foreground italic py-2">{t('compareNothingInCategory') as string}</p>;
+  }
+
+  return (
+    <ul className="space-y-2">
+      {events.map((event) => (
+        <motion.li
+          key={event.id}
+          initial={{ opacity: 0, y: 8 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="rounded-lg border-l-4 bg-card p-3 shadow-sm"
+          style={{ borderLeftColor: theme.accent }}
+        >
+          <p className="text-sm font-semibold leading-snug" style={{ fontFamily: theme.fontFamily }}>
+            {event.title}
+          </p>
+          <p className="mt-1 text-xs text-muted-foreground line-clamp-3">{event.description}</p>
+        </motion.li>
+      ))}
+    </ul>
+  );
+};
+
+const ComparePage = () => {
+  const navigate = useNavigate();
+  const { language, t } = useLanguage();
+  const currentYear = new Date().getFullYear();
+
+  const [inputs, setInputs] = useState<[CompareSideInput, CompareSideInput]>(() => [readOwnSide(), { name: '', year: 0 }]);
+  const [sides, setSides] = useState<[CompareSideState, CompareSideState]>([emptySide, emptySide]);
+  const [comparison, setComparison] = useState('');
+  const [isComparing, setIsComparing] = useState(false);
+  const [comparisonError, setComparisonError] = useState<string | null>(null);
+
+  const themes = useMemo(
+    () => inputs.map((input) => getEraTheme(input.year || currentYear)) as [EraTheme, EraTheme],
+    [inputs, currentYear]
+  );
+  const groups = useMemo(() => sides.map((side) => groupByCompareCategory(side.events)), [sides]);
+
+  const isValidYear = (year: number) => year >= 1900 && year <= currentYear;
+  const canCompare = inputs.every((input) => isValidYear(input.year)) && !isComparing;
+
+  const updateInput = (index: 0 | 1, patch: Partial<CompareSideInput>) => {
+    setInputs((prev) => {
+      const next = [...prev] as [CompareSideInput, CompareSideInput];
+      next[index] = { ...next[index], ...patch };
+      return next;
+    });
+  };
+
+  const updateSide = useCallback((index: 0 | 1, updater: (side: CompareSideState) => CompareSideState) => {
+    setSides((prev) => {
+      const next = [...prev] as [CompareSideState, CompareSideState];
+      next[index] = updater(next[index]);
+      return next;
+    });
+  }, []);
+
+  // One side: cached timeline if we have it, otherwise a fresh (short) stream.
+  // Resolves with the finished side, or null when generation failed.
+  const runSide = useCallback(async (index: 0 | 1, formData: FormData): Promise<CompareSideState | null> => {
+    const cached = await getCachedTimeline(formData, language);
+    if (cached && cached.events.length > 0) {
+      const done: CompareSideState = {
+        formData,
+        events: cached.events,
+        summary: cached.summary,
+        storyTitle: cached.storyTitle || '',
+        status: 'done',
+      };
+      updateSide(index, () => done);
+      return done;
+    }
+
+    updateSide(index, () => ({ ...emptySide, formData, status: 'loading' }));
+
+    return new Promise((resolve) => {
+      generateTimelineStreaming(formData, language, {
+        onEvent: (event) => updateSide(index, (side) => ({ ...side, events: [...side.events, event] })),
+        onSummary: (summary) => updateSide(index, (side) => ({ ...side, summary })),
+        onFamousBirthdays: () => {},
+        onStoryTitle: (storyTitle) => updateSide(index, (side) => ({ ...side, storyTitle })),
+        onComplete: (data) => {
+          const done: CompareSideState = {
+            formData,
+            events: data.events,
+            summary: data.summary,
+            storyTitle: data.storyTitle || '',
+            status: 'done',
+          };
+          updateSide(index, () => done);
+          cacheTimeline(formData, language, data.events, data.summary, data.famousBirthdays, {
+            storyTitle: data.storyTitle,
+            storyIntroduction: data.storyIntroduction,
+          });
+          resolve(done);
+        },
+        onError: (error) => {
+          updateSide(index, (side) => ({ ...side, status: 'error', error }));
+          resolve(null);
+        },
+      }, { maxEvents: COMPARE_MAX_EVENTS });
+    });
+  }, [language, updateSide]);
+
+  const handleCompare = async () => {
+    if (!canCompare) return;
+    setIsComparing(true);
+    setComparison('');
+    setComparisonError(null);
+
+    const base = readBaseOptionalData();
+    const [left, right] = await Promise.all([
+      runSide(0, buildCompareFormData(inputs[0], base)),
+      runSide(1, buildCompareFormData(inputs[1], base)),
+    ]);
+
+    if (left && right) {
+      const result = await generateYearComparison(
+        { name: inputs[0].name, year: inputs[0].year, summary: left.summary, titles: left.events.map((e) => e.title) },
+        { name: inputs[1].name, year: inputs[1].year, summary: right.summary, titles: right.events.map((e) => e.title) },
+        language
+      );
+      if (result.success && result.comparison) {
+        setComparison(result.comparison);
+      } else {
+        setComparisonError(result.error || (t('compareFailed') as string));
+      }
+    }
+
+    setIsComparing(false);
+  };
+
+  const hasResults = sides.some((side) => side.status !== 'idle');
+  const fallbackNames = [t('compareSideYou') as string, t('compareSideFriend') as string];
+
+  return (
+    <div className="min-h-screen bg-background text-foreground overflow-x-hidden">
+      {/* Sticky header */}
+      <header className="sticky top-0 z-50 backdrop-blur-xl bg-background/80 border-b border-border/50">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 py-3 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)} className="rounded-full">
+              <ArrowLeft className="h-5 w-5" />
+            </Button>
+            <h1 className="font-serif text-lg font-bold flex items-center gap-2">
+              <ArrowLeftRight className="h-5 w-5 text-primary" />
+              {t('compareTitle') as string}
+            </h1>
+          </div>
+          <AccountLink />
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 py-6 space-y-8">
+        {/* Inputs */}
+        <section className="space-y-4">
+          <p className="text-sm text-muted-foreground">{t('compareDescription') as string}</p>
+          <div className="grid grid-cols-2 gap-3 sm:gap-6">
+            {([0, 1] as const).map((index) => (
+              <div key={index} className="space-y-2 rounded-xl border border-border bg-card p-3 sm:p-4">
+                <div className="space-y-1">
+                  <Label className="text-xs">{t('compareNameLabel') as string}</Label>
+                  <Input
+                    value={inputs[index].name}
+                    placeholder={fallbackNames[index]}
+                    onChange={(e) => updateInput(index, { name: e.target.value })}
+                    className="h-9"
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-xs">{t('compareYearLabel') as string}</Label>
+                  <Input
+                    type="number"
+                    value={inputs[index].year || ''}
+                    min={1900}
+                    max={currentYear}
+                    onChange={(e) => updateInput(index, { year: parseInt(e.target.value) || 0 })}
+                    className="h-9"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+          <Button onClick={handleCompare} disabled={!canCompare} className="w-full btn-vintage">
+            {isComparing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            {(isComparing ? t('compareLoading') : t('compareStart')) as string}
+          </Button>
+        </section>
+
+        {hasResults && (
+          <>
+            {/* Era headers */}
+            <section className="grid grid-cols-2 gap-3 sm:gap-6">
+              {([0, 1] as const).map((index) => (
+                <EraHeader
+                  key={index}
+                  side={sides[index]}
+                  input={inputs[index]}
+                  theme={themes[index]}
+                  fallbackName={fallbackNames[index]}
+                />
+              ))}
+            </section>
+
+            {/* What changed in between */}
+            {(comparison || comparisonError || (isComparing && sides.every((s) => s.status === 'done'))) && (
+              <section className="rounded-xl border border-border bg-muted/40 p-4 sm:p-6">
+                <h2 className="font-serif text-xl font-bold mb-2">{t('compareWhatChanged') as string}</h2>
+                {comparison && <p className="text-sm sm:text-base leading-relaxed whitespace-pre-line">{comparison}</p>}
+                {comparisonError && <p className="text-sm text-destructive">{comparisonError}</p>}
+                {!comparison && !comparisonError && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+              </section>
+            )}
+
+            {/* Side by side per category */}
+            {COMPARE_CATEGORIES.map((category) => {
+              const Icon = CATEGORY_ICONS[category];
+              return (
+                <section key={category} className="space-y-3">
+                  <h2 className="font-serif text-lg font-bold flex items-center gap-2">
+                    <Icon className="h-5 w-5 text-primary" />
+                    {t(categoryLabelKey(category)) as string}
+                  </h2>
+                  <div className="grid grid-cols-2 gap-3 sm:gap-6">
+                    {([0, 1] as const).map((index) => (
+                      <EraEventList key={index} events={groups[index][category]} theme={themes[index]} />
+                    ))}
+                  </div>
+                </section>
+              );
+            })}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ComparePage;
@@ -7,6 +7,8 @@ import { Header } from "@/components/Header";
 import { DateInput } from "@/components/DateInput";
 import { OptionalInfoForm } from "@/components/OptionalInfoForm";
 import { SubcultureSelector } from "@/components/SubcultureSelector";
+import { CityAutocomplete } from "@/components/CityAutocomplete";
+import { RecentStoriesPanel } from "@/components/RecentStoriesPanel";
 import { motion, AnimatePresence } from "framer-motion";
 import { MapPin, Users, ChevronDown, ChevronUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -14,6 +16,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
 import { FormData, BirthDateData, OptionalData, PeriodType, Gender, SubcultureData } from "@/types/form";
+import { placeForCity } from "@/lib/gazetteer";
 
 import {
   ArrowRight,
@@ -629,17 +632,15 @@ const HomeV3 = () => {
                               <MapPin className="h-4 w-4 text-accent" />
                               {t('cityQuestion') as string}
                             </Label>
-                            <Input
+                            <CityAutocomplete
                               ref={cityInputRef}
                               placeholder={t("cityPlaceholder") as string}
                               value={optionalData.city || ""}
-                              onChange={(e) => setOptionalData({ ...optionalData, city: e.target.value })}
-                              onKeyDown={(e) => {
-                                if (e.key === 'Enter') {
-                                  e.preventDefault();
-                                  setStep2HasAdvanced(true);
-                                  setCurrentStep(3);
-                                }
+                              place={optionalData.place}
+                              onChange={(city, place) => setOptionalData(prev => ({ ...prev, city, place }))}
+                              onSubmit={() => {
+                                setStep2HasAdvanced(true);
+                                setCurrentStep(3);
                               }}
                               className="bg-card h-10"
                             />
@@ -750,6 +751,7 @@ const HomeV3 = () => {
                             periodType={selectedPeriod}
                             focus={optionalData.focus}
                             city={optionalData.city}
+                            place={placeForCity(optionalData.city, optionalData.place)}
                             value={optionalData.subculture}
                             onChange={(subculture: SubcultureData) => setOptionalData({ ...optionalData, subculture })}
                           />
@@ -779,6 +781,8 @@ const HomeV3 = () => {
               </motion.div>
             )}
 
+            <RecentStoriesPanel />
+
           </div>
         </div>
       </section>
@@ -0,0 +1,249 @@
+/**
+ * ImageSearchQualityPage - admin dashboard for the image search.
+ *
+ * Built from the anonymized search traces the client stores after every
+ * image search (see src/lib/imageSearch/traces.ts): hit rates per provider,
+ * subject type and language, the time until an event has its image, the
+ * providers whose images get blacklisted most, and the queries that never
+ * found anything — candidates for a routing or query fix.
+ *
+ * Admin-only: App.tsx mounts it behind <AdminRoute>, and
+ * get_image_search_quality refuses anyone else.
+ */
+import { useEffect, useState } from 'react';
+import { AlertCircle, Loader2, RefreshCw } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { fetchImageSearchQuality, type GroupQuality, type ImageSearchQuality } from '@/lib/imageSearch';
+
+const PERIODS = [7, 30, 90];
+
+const useFormats = () => {
+  const { formatNumber } = useLanguage();
+  return {
+    percentage: (part: number, whole: number) => (whole > 0 ? formatNumber(part / whole, { style: 'percent' }) : '–'),
+    seconds: (ms: number | null) =>
+      ms == null ? '–' : formatNumber(ms / 1000, { style: 'unit', unit: 'second', unitDisplay: 'narrow', maximumFractionDigits: 1, minimumFractionDigits: 1 }),
+  };
+};
+
+const GroupTable = ({ title, label, rows }: { title: string; label: string; rows: GroupQuality[] }) => {
+  const { t } = useLanguage();
+  const { percentage, seconds } = useFormats();
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{label}</TableHead>
+              <TableHead className="text-right">{t('imageQualitySearches') as string}</TableHead>
+              <TableHead className="text-right">{t('imageQualityFound') as string}</TableHead>
+              <TableHead className="text-right">{t('imageQualityTimeToImage') as string}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell>{row.key}</TableCell>
+                <TableCell className="text-right">{row.searches}</TableCell>
+                <TableCell className="text-right">{percentage(row.found, row.searches)}</TableCell>
+                <TableCell className="text-right">{seconds(row.avgTimeToImageMs)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+const ImageSearchQualityPage = () => {
+  const { t, formatDate } = useLanguage();
+  const { percentage, seconds } = useFormats();
+  const [days, setDays] = useState(30);
+  const [quality, setQuality] = useState<ImageSearchQuality | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchImageSearchQuality(days)
+      .then((data) => {
+        if (!cancelled) setQuality(data);
+      })
+      .catch((err) => {
+        console.error('[ImageSearchQuality] Could not load:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : String(err));
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [days, reloadKey]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-4 pt-24 pb-12 space-y-6 max-w-5xl">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="font-serif text-2xl">{t('imageQualityTitle') as string}</h1>
+            <p className="text-sm text-muted-foreground">{t('imageQualitySubtitle', { days }) as string}</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PERIODS.map((period) => (
+                  <SelectItem key={period} value={String(period)}>
+                    {t('imageQualityPeriod', { days: period }) as string}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => setReloadKey((k) => k + 1)} disabled={loading}>
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              {t('imageQualityRefresh') as string}
+            </Button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="flex items-center gap-2 px-3 py-2 bg-destructive/10 text-destructive rounded-md text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{t('imageQualityLoadFailed', { error }) as string}</span>
+          </div>
+        )}
+
+        {quality && (
+          <>
+            <div className="grid gap-4 sm:grid-cols-3">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-normal text-muted-foreground">{t('imageQualitySearches') as string}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-2xl font-semibold">{quality.searches}</CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-normal text-muted-foreground">{t('imageQualityWithImage') as string}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-2xl font-semibold">{percentage(quality.found, quality.searches)}</CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-normal text-muted-foreground">{t('imageQualityAvgTimeToImage') as string}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-2xl font-semibold">{seconds(quality.avgTimeToImageMs)}</CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">{t('imageQualityBySource') as string}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('imageQualitySource') as string}</TableHead>
+                      <TableHead className="text-right">{t('imageQualityAsked') as string}</TableHead>
+                      <TableHead className="text-right">{t('imageQualityFound') as string}</TableHead>
+                      <TableHead className="text-right">{t('imageQualityErrors') as string}</TableHead>
+                      <TableHead className="text-right">{t('imageQualityWon') as string}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {quality.bySource.map((row) => (
+                      <TableRow key={row.source}>
+                        <TableCell>{row.source}</TableCell>
+                        <TableCell className="text-right">{row.asked}</TableCell>
+                        <TableCell className="text-right">{percentage(row.found, row.asked)}</TableCell>
+                        <TableCell className="text-right">{percentage(row.errors, row.asked)}</TableCell>
+                        <TableCell className="text-right">{row.won}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+
+            <div className="grid gap-6 md:grid-cols-2">
+              <GroupTable title={t('imageQualityBySubject') as string} label={t('imageQualityType') as string} rows={quality.bySubject} />
+              <GroupTable title={t('imageQualityByLanguage') as string} label={t('imageQualityLanguage') as string} rows={quality.byLanguage} />
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">{t('imageQualityMostBlacklisted') as string}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {quality.blacklistedBySource.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t('imageQualityNoneBlacklisted') as string}</p>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    {quality.blacklistedBySource.map((row) => (
+                      <Badge key={row.source} variant="secondary">
+                        {row.source} · {row.blacklisted}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">{t('imageQualityNeverFound') as string}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {quality.neverFound.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t('imageQualityAllFound') as string}</p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t('imageQualityQuery') as string}</TableHead>
+                        <TableHead>{t('imageQualityType') as string}</TableHead>
+                        <TableHead className="text-right">{t('imageQualityTimesSearched') as string}</TableHead>
+                        <TableHead className="text-right">{t('imageQualityLastSearched') as string}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {quality.neverFound.map((row) => (
+                        <TableRow key={row.query}>
+                          <TableCell>{row.query}</TableCell>
+                          <TableCell>{row.visualSubjectType ?? '–'}</TableCell>
+                          <TableCell className="text-right">{row.searches}</TableCell>
+                          <TableCell className="text-right">{formatDate(row.lastSearchedAt)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageSearchQualityPage;
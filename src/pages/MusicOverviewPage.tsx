@@ -5,7 +5,7 @@
  * Includes country-specific local hits based on user's city.
  */
 import { useEffect, useState, useMemo, useCallback } from 'react';
-import { useNavigate, useSearchParams } from 'react-router-dom';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { ArrowLeft, Heart, Loader2, Music, Play, Pause, X, ListMusic, Bookmark, BookmarkCheck, Globe, MapPin } from 'lucide-react';
 import { StoryEndDiscover } from '@/components/story/StoryEndDiscover';
@@ -13,12 +13,15 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { invokeWithRetry } from '@/lib/api/invokeWithRetry';
-import { numberOneHits, NumberOneHit } from '@/data/numberOneHits';
+import { getHitsFor, resolveChartCountry, FALLBACK_CHART_COUNTRY, NumberOneHit } from '@/lib/chartData';
 import { AccountLink } from '@/components/AccountLink';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { readOverviewCache, writeOverviewCache } from '@/lib/overviewCache';
+import { startSpotifyPlaylistAuth } from '@/lib/spotifyPlaylist';
+import { ExportTrack } from '@/lib/playlistExport';
+import { PlaylistExportMenu } from '@/components/PlaylistExportMenu';
 
 interface SpotifyTrackResult {
   trackId: string;
@@ -38,64 +41,94 @@ interface ResolvedHit {
   isLocal?: boolean; // true = country-specific hit
 }
 
+const HITS_PER_YEAR = 5;
+
 const MusicOverviewPage = () => {
   const navigate = useNavigate();
+  const location = useLocation();
   const [searchParams] = useSearchParams();
   const { toast } = useToast();
   const { user } = useAuth();
   const { t, language } = useLanguage();
-  const tStr = (k: Parameters<typeof t>[0], vars?: Record<string, string | number>) => {
-    let s = t(k) as string;
-    if (vars) for (const [key, val] of Object.entries(vars)) s = s.replace(`{${key}}`, String(val));
-    return s;
-  };
 
   const startYear = parseInt(searchParams.get('start') || '1980', 10);
   const endYear = parseInt(searchParams.get('end') || String(new Date().getFullYear()), 10);
   const city = searchParams.get('city') || '';
+  // Set when the user picked the city from the gazetteer (ISO code + admin1 code)
+  const countryCode = searchParams.get('country') || undefined;
+  const regionCode = searchParams.get('region') || undefined;
+  const lat = searchParams.get('lat') ? Number(searchParams.get('lat')) : undefined;
+  const lng = searchParams.get('lng') ? Number(searchParams.get('lng')) : undefined;
 
-  // Try to hydrate from cache on first render
-  const cached = useMemo(
-    () => readOverviewCache<{ hits: ResolvedHit[]; country: string | null }>(
-      'music-overview', startYear, endYear, city, language
-    ),
-    [startYear, endYear, city, language]
-  );
-
-  const [resolvedHits, setResolvedHits] = useState<ResolvedHit[]>(cached?.hits || []);
+  const [resolvedHits, setResolvedHits] = useState<ResolvedHit[]>([]);
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
   const [savedTracks, setSavedTracks] = useState<Set<string>>(new Set());
   const [activeTrackId, setActiveTrackId] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(!cached);
-  const [loadedCount, setLoadedCount] = useState(cached ? cached.hits.length : 0);
-  const [localHitsCountry, setLocalHitsCountry] = useState<string | null>(cached?.country || null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadedCount, setLoadedCount] = useState(0);
+  const [localHitsCountry, setLocalHitsCountry] = useState<string | null>(null);
   const [localHitsLoading, setLocalHitsLoading] = useState(false);
-  const hasCache = !!cached;
-
-  // Build the list of global hits for the year range
-  const globalHits = useMemo(() => {
-    const currentYear = new Date().getFullYear();
-    const end = Math.min(endYear, currentYear);
-    const result: { year: number; hit: NumberOneHit; isLocal: boolean }[] = [];
-    for (let yr = startYear; yr <= end; yr++) {
-      const hits = numberOneHits[yr];
-      if (hits) {
-        hits.forEach(hit => result.push({ year: yr, hit, isLocal: false }));
+  const [isConnectingSpotify, setIsConnectingSpotify] = useState(false);
+  // The library lookup is async: fetching only starts once it reported a miss
+  const [cacheStatus, setCacheStatus] = useState<'checking' | 'hit' | 'miss'>('checking');
+
+  // Try to hydrate from the timeline library before fetching anything
+  useEffect(() => {
+    let cancelled = false;
+    setCacheStatus('checking');
+
+    readOverviewCache<{ hits: ResolvedHit[]; country: string | null }>(
+      'music-overview', startYear, endYear, city, language
+    ).then((cached) => {
+      if (cancelled) return;
+      if (cached) {
+        setResolvedHits(cached.hits);
+        setLoadedCount(cached.hits.length);
+        setLocalHitsCountry(cached.country || null);
+        setIsLoading(false);
+        setCacheStatus('hit');
+      } else {
+        setCacheStatus('miss');
       }
-    }
-    return result;
-  }, [startYear, endYear]);
+    });
+
+    return () => { cancelled = true; };
+  }, [startYear, endYear, city, language]);
+
+  // Chart hits for the year range: the city's national chart where we have
+  // one, otherwise the international list. null while the dataset loads.
+  const [globalHits, setGlobalHits] = useState<{ year: number; hit: NumberOneHit; isLocal: boolean }[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const country = resolveChartCountry(city, countryCode);
+    const end = Math.min(endYear, new Date().getFullYear());
+    const years = Array.from({ length: Math.max(0, end - startYear + 1) }, (_, i) => startYear + i);
+
+    Promise.all(years.map(yr => getHitsFor(country, yr))).then((perYear) => {
+      if (cancelled) return;
+      setGlobalHits(perYear.flatMap((hits, i) =>
+        hits.slice(0, HITS_PER_YEAR).map(({ artist, title, country: source }) => ({
+          year: years[i],
+          hit: { artist, title },
+          isLocal: source !== FALLBACK_CHART_COUNTRY,
+        }))
+      ));
+    });
+
+    return () => { cancelled = true; };
+  }, [startYear, endYear, city, countryCode]);
 
   // Fetch local hits from AI based on city
   useEffect(() => {
-    if (!city || hasCache) return;
+    if (!city || cacheStatus !== 'miss') return;
     let cancelled = false;
 
     const fetchLocalHits = async () => {
       setLocalHitsLoading(true);
       try {
         const { data, error } = await supabase.functions.invoke('generate-local-hits', {
-          body: { startYear, endYear, city, language }
+          body: { startYear, endYear, city, countryCode, regionCode, lat, lng, language }
         });
 
         if (cancelled || error || !data?.hits) return;
@@ -138,7 +171,7 @@ const MusicOverviewPage = () => {
                 toast({
                   variant: 'destructive',
                   title: t('errorLabel') as string,
-                  description: tStr('spotifyFailedSummary', { count: errorCount, total: newLocalHits.length }),
+                  description: t('spotifyFailedSummary', { count: errorCount, total: newLocalHits.length }),
                 });
               }
             })
@@ -162,7 +195,7 @@ const MusicOverviewPage = () => {
 
     fetchLocalHits();
     return () => { cancelled = true; };
-  }, [city, startYear, endYear]);
+  }, [city, countryCode, regionCode, lat, lng, startYear, endYear, cacheStatus]);
 
   // Fetch Spotify data for a batch of hits and update state at given offset.
   // Batches run with a concurrency cap so independent network round-trips
@@ -257,10 +290,7 @@ const MusicOverviewPage = () => {
 
   // Fetch Spotify data for global hits in batches
   useEffect(() => {
-    if (hasCache) {
-      setIsLoading(false);
-      return;
-    }
+    if (cacheStatus !== 'miss' || !globalHits) return;
     let cancelled = false;
 
     const fetchAll = async () => {
@@ -347,7 +377,7 @@ const MusicOverviewPage = () => {
           toast({
             variant: 'destructive',
             title: t('errorLabel') as string,
-            description: tStr('spotifyFailedSummary', { count: errorCount, total: globalHits.length }),
+            description: t('spotifyFailedSummary', { count: errorCount, total: globalHits.length }),
           });
         }
       }
@@ -355,11 +385,11 @@ const MusicOverviewPage = () => {
 
     fetchAll();
     return () => { cancelled = true; };
-  }, [globalHits, hasCache]);
+  }, [globalHits, cacheStatus]);
 
   // Persist to cache once everything is fully loaded
   useEffect(() => {
-    if (hasCache) return;
+    if (cacheStatus !== 'miss') return;
     if (isLoading || localHitsLoading) return;
     if (resolvedHits.length === 0) return;
     if (resolvedHits.some(rh => rh.loading)) return;
@@ -367,7 +397,7 @@ const MusicOverviewPage = () => {
       hits: resolvedHits,
       country: localHitsCountry,
     });
-  }, [hasCache, isLoading, localHitsLoading, resolvedHits, startYear, endYear, city, language, localHitsCountry]);
+  }, [cacheStatus, isLoading, localHitsLoading, resolvedHits, startYear, endYear, city, language, localHitsCountry]);
 
   const toggleFavorite = useCallback((trackId: string) => {
     setFavorites(prev => {
@@ -388,17 +418,17 @@ const MusicOverviewPage = () => {
         user_id: user.id,
         event_title: `${rh.spotify.trackName} – ${rh.spotify.artistName}`,
         event_year: rh.year,
-        event_description: tStr('numberOneHitDesc', { year: rh.year, album: rh.spotify.albumName }),
+        event_description: t('numberOneHitDesc', { year: rh.year, album: rh.spotify.albumName }),
         event_category: 'music',
         image_url: rh.spotify.albumImage,
       });
       if (error) throw error;
       setSavedTracks(prev => new Set(prev).add(key));
-      toast({ title: t('savedToast') as string, description: tStr('savedDescriptionTrack', { name: rh.spotify!.trackName }) });
+      toast({ title: t('savedToast') as string, description: t('savedDescriptionTrack', { name: rh.spotify!.trackName }) });
     } catch (err: any) {
       toast({ title: t('errorLabel') as string, description: err.message, variant: 'destructive' });
     }
-  }, [user, savedTracks, toast, t, tStr]);
+  }, [user, savedTracks, toast, t]);
 
   const favoriteTrackIds = useMemo(() => {
     return resolvedHits
@@ -406,28 +436,55 @@ const MusicOverviewPage = () => {
       .map(rh => rh.spotify!.trackId);
   }, [resolvedHits, favorites]);
 
+  // Open-format exports include hits without a Spotify match - they still get search links
+  const exportTracks = useMemo((): ExportTrack[] => {
+    return resolvedHits.map(rh => ({
+      year: rh.year,
+      artist: rh.spotify?.artistName || rh.hit.artist,
+      title: rh.spotify?.trackName || rh.hit.title,
+      album: rh.spotify?.albumName,
+      spotifyUrl: rh.spotify?.spotifyUrl,
+      isLocal: rh.isLocal,
+      isFavorite: !!rh.spotify && favorites.has(rh.spotify.trackId),
+    }));
+  }, [resolvedHits, favorites]);
+
   const allTrackIds = useMemo(() => {
     return resolvedHits
       .filter(rh => rh.spotify)
       .map(rh => rh.spotify!.trackId);
   }, [resolvedHits]);
 
-  const handleOpenSpotifyPlaylist = useCallback((trackIds: string[], label: string) => {
+  // Creates a real playlist in the user's Spotify account (OAuth redirect,
+  // finished on /spotify-callback). If Spotify can't be reached the track
+  // links go to the clipboard instead.
+  const handleCreateSpotifyPlaylist = useCallback(async (trackIds: string[], label: string) => {
     if (trackIds.length === 0) {
       toast({ title: t('noTracksAvailable') as string });
       return;
     }
-    const spotifyDeepLink = `spotify:trackset:${encodeURIComponent(label)}:${trackIds.join(',')}`;
-    const opened = window.open(spotifyDeepLink, '_blank');
-    if (!opened) {
+    const lastYear = Math.min(endYear, new Date().getFullYear());
+    setIsConnectingSpotify(true);
+    try {
+      await startSpotifyPlaylistAuth({
+        label,
+        description: t('spotifyPlaylistDescription', { start: startYear, end: lastYear }),
+        trackIds,
+        startYear,
+        endYear: lastYear,
+        returnTo: `${location.pathname}${location.search}`,
+      });
+    } catch (err) {
+      console.error('[MusicOverview] Spotify login failed:', err);
+      setIsConnectingSpotify(false);
       const urls = trackIds.map(id => `https://open.spotify.com/track/${id}`).join('\n');
       navigator.clipboard.writeText(urls);
       toast({
         title: t('linksCopiedTitle') as string,
-        description: tStr('spotifyLinksCopiedDesc', { count: trackIds.length })
+        description: t('spotifyLinksCopiedDesc', { count: trackIds.length })
       });
     }
-  }, [toast, t, tStr]);
+  }, [toast, t, startYear, endYear, location.pathname, location.search]);
 
   return (
     <div className="min-h-screen bg-background text-foreground overflow-x-hidden">
@@ -474,15 +531,15 @@ const MusicOverviewPage = () => {
             <Loader2 className="h-4 w-4 animate-spin" />
             <span className="font-mono text-xs">
               {localHitsLoading 
-                ? tStr('loadingLocalHits', { city }) 
-                : tStr('tracksLoaded', { loaded: loadedCount, total: globalHits.length })
+                ? t('loadingLocalHits', { city }) 
+                : t('tracksLoaded', { loaded: loadedCount, total: globalHits?.length ?? 0 })
               }
             </span>
           </div>
           <div className="mt-2 h-1 bg-muted rounded-full overflow-hidden">
             <div 
               className="h-full bg-[#1DB954] transition-all duration-300 rounded-full"
-              style={{ width: `${localHitsLoading ? 50 : (loadedCount / globalHits.length) * 100}%` }}
+              style={{ width: `${localHitsLoading ? 50 : (loadedCount / (globalHits?.length || 1)) * 100}%` }}
             />
           </div>
         </div>
@@ -541,32 +598,42 @@ const MusicOverviewPage = () => {
             <div className="text-center mb-6">
               <h2 className="font-serif text-2xl font-bold mb-2">{t('yourMusicOverviewTitle') as string}</h2>
               <p className="text-sm text-muted-foreground">
-                {tStr('tracksFoundFavorites', { count: allTrackIds.length, fav: favorites.size })}
-                {localHitsCountry && tStr('inclLocalHitsSuffix', { country: localHitsCountry })}
+                {t('tracksFoundFavorites', { count: allTrackIds.length, fav: favorites.size })}
+                {localHitsCountry && t('inclLocalHitsSuffix', { country: localHitsCountry })}
               </p>
             </div>
 
             <div className="flex flex-col sm:flex-row gap-3 justify-center">
               {/* Playlist: all tracks */}
               <Button
-                onClick={() => handleOpenSpotifyPlaylist(allTrackIds, t('myLifeInMusic') as string)}
+                onClick={() => handleCreateSpotifyPlaylist(allTrackIds, t('myLifeInMusic') as string)}
+                disabled={isConnectingSpotify}
                 className="gap-2 bg-[#1DB954] hover:bg-[#1ed760] text-white"
               >
-                <ListMusic className="h-4 w-4" />
-                {tStr('playlistAllTracks', { count: allTrackIds.length })}
+                {isConnectingSpotify ? <Loader2 className="h-4 w-4 animate-spin" /> : <ListMusic className="h-4 w-4" />}
+                {t('playlistAllTracks', { count: allTrackIds.length })}
               </Button>
 
               {/* Playlist: favorites only */}
               {favorites.size > 0 && (
                 <Button
-                  onClick={() => handleOpenSpotifyPlaylist(favoriteTrackIds, t('myFavoritesPlaylistLabel') as string)}
+                  onClick={() => handleCreateSpotifyPlaylist(favoriteTrackIds, t('myFavoritesPlaylistLabel') as string)}
+                  disabled={isConnectingSpotify}
                   variant="outline"
                   className="gap-2 border-[#1DB954]/30 text-[#1DB954] hover:bg-[#1DB954]/10"
                 >
                   <Heart className="h-4 w-4 fill-current" />
-                  {tStr('playlistFavoritesCount', { count: favorites.size })}
+                  {t('playlistFavoritesCount', { count: favorites.size })}
                 </Button>
               )}
+
+              {/* Open formats for people without Spotify */}
+              <PlaylistExportMenu
+                tracks={exportTracks}
+                title={t('myLifeInMusic') as string}
+                subtitle={`${startYear}–${Math.min(endYear, new Date().getFullYear())}`}
+                className="gap-2"
+              />
             </div>
 
             <p className="text-xs text-muted-foreground text-center mt-4">
@@ -44,23 +44,25 @@ const MusicVideoPage = () => {
   const [isVideoDialogOpen, setIsVideoDialogOpen] = useState(false);
   const [enableVhsEffect, setEnableVhsEffect] = useState(false);
 
-  // Load timeline data from sessionStorage cache
+  // Load timeline data from the timeline library
   useEffect(() => {
     const stored = sessionStorage.getItem('timelineFormData');
     if (!stored) return;
+    let cancelled = false;
     try {
       const data = JSON.parse(stored) as FormData;
       setFormData(data);
-      const cached = getCachedTimeline(data, language);
-      if (cached) {
+      getCachedTimeline(data, language).then((cached) => {
+        if (cancelled || !cached) return;
         setEvents(cached.events);
         setStoryTitle(cached.storyTitle || '');
         setStoryIntroduction(cached.storyIntroduction || '');
         // VHS effect is opt-in only (default off)
-      }
+      });
     } catch (e) {
       console.error('[MusicVideoPage] Failed to load timeline data', e);
     }
+    return () => { cancelled = true; };
   }, [language]);
 
   const videoEvents: VideoEvent[] = useMemo(
@@ -185,7 +187,7 @@ const MusicVideoPage = () => {
                     {displayTitle}
                   </h2>
                   <p className="text-xs text-muted-foreground font-mono">
-                    {(t('eventsAiMusic') as string).replace('{count}', String(events.length))}
+                    {t('eventsAiMusic', { count: events.length })}
                   </p>
                 </div>
               </div>
@@ -280,6 +282,7 @@ const MusicVideoPage = () => {
                         externalAudioDuration: soundtrack.duration,
                         introReadyTitle: t('introReadyTitle') as string,
                         introReadyHint: t('introReadyHint') as string,
+                        creditsTitle: t('imageCredits') as string,
                       }}
                       durationInFrames={totalDuration}
                       compositionWidth={1920}
@@ -347,6 +350,7 @@ const MusicVideoPage = () => {
                   externalAudioDuration: soundtrack.duration,
                   introReadyTitle: t('introReadyTitle') as string,
                   introReadyHint: t('introReadyHint') as string,
+                  creditsTitle: t('imageCredits') as string,
                 }}
                 durationInFrames={totalDuration}
                 compositionWidth={1920}
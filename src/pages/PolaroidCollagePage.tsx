@@ -4,10 +4,11 @@ import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { useLanguage } from '@/contexts/LanguageContext';
 import { FormData } from '@/types/form';
-import { TimelineEvent, FamousBirthday } from '@/types/timeline';
+import { TimelineEvent, FamousBirthday, SearchTraceEntry, ImageCandidate } from '@/types/timeline';
 import { generateTimelineStreaming } from '@/lib/api/timeline';
 import { useClientImageSearch } from '@/hooks/useClientImageSearch';
-import { getCachedTimeline, cacheTimeline, updateCachedEvents, getCacheKey } from '@/lib/timelineCache';
+import { rememberImageChoice } from '@/lib/imageSearch';
+import { getCachedTimeline, cacheTimeline, updateCachedEvents, removeCachedTimeline } from '@/lib/timelineCache';
 import { ArrowLeft, Clock, Loader2, RefreshCw, Share2, Check, Image, X, Download } from 'lucide-react';
 import { AccountLink } from '@/components/AccountLink';
 import { generateTikTokSlides, shareGeneratedFiles, canShareToTikTok } from '@/lib/tiktokGenerator';
@@ -22,6 +23,7 @@ import { VideoDialog } from '@/components/video/VideoDialog';
 import { PersonalizeSoundtrackDialog } from '@/components/story/PersonalizeSoundtrackDialog';
 
 // Era-themed background images (same as ResultPage)
+import { placeForCity } from '@/lib/gazetteer';
 import heroBg from '@/assets/hero-bg-new.png';
 import heroBg70s from '@/assets/hero-bg-70s.png';
 import heroBg80s from '@/assets/hero-bg-80s.png';
@@ -74,7 +76,7 @@ const PolaroidCollagePage = () => {
   const receivedEventsRef = useRef<TimelineEvent[]>([]);
 
   // Client-side image search with concurrency control
-  const handleImageFound = useCallback((eventId: string, imageUrl: string, source: string | null) => {
+  const handleImageFound = useCallback((eventId: string, imageUrl: string, source: string | null, _searchTrace?: SearchTraceEntry[], candidates?: ImageCandidate[]) => {
     // Keep the stream buffer in sync, otherwise subsequent onEvent renders can overwrite images.
     receivedEventsRef.current = receivedEventsRef.current.map(event => {
       if (event.id !== eventId) return event;
@@ -83,6 +85,8 @@ const PolaroidCollagePage = () => {
         imageUrl,
         source: source || undefined,
         imageStatus: 'found' as const,
+        imageCandidates: candidates,
+        imageCredit: candidates?.find(candidate => candidate.imageUrl === imageUrl)?.credit,
       };
     });
 
@@ -94,6 +98,8 @@ const PolaroidCollagePage = () => {
           imageUrl,
           source: source || undefined,
           imageStatus: 'found' as const,
+          imageCandidates: candidates,
+          imageCredit: candidates?.find(candidate => candidate.imageUrl === imageUrl)?.credit,
         };
       });
 
@@ -131,6 +137,22 @@ const PolaroidCollagePage = () => {
     }
   }, [events, forceResearch]);
 
+  // Image picker: show another image the search found, and let later searches start from it
+  const handleChooseImage = useCallback((eventId: string, candidate: ImageCandidate) => {
+    const event = events.find(e => e.id === eventId);
+    if (!event) return;
+
+    const chooseIn = (list: TimelineEvent[]) => list.map(e =>
+      e.id === eventId ? { ...e, imageUrl: candidate.imageUrl, source: candidate.source, imageCredit: candidate.credit, imageStatus: 'found' as const } : e
+    );
+    receivedEventsRef.current = chooseIn(receivedEventsRef.current);
+    setEvents(prev => chooseIn(prev));
+    if (formDataRef.current) {
+      updateCachedEvents(formDataRef.current, language, chooseIn);
+    }
+    rememberImageChoice(event, candidate);
+  }, [events, language]);
+
   // Mark events without images as 'none' only AFTER a search cycle actually ran.
   // (Otherwise, on first mount `isLoadingImages` is false and we'd incorrectly mark
   // everything as 'none' before the queue starts.)
@@ -242,7 +264,7 @@ const PolaroidCollagePage = () => {
           
           toast({
             title: t('timelineLoaded') as string,
-            description: (t('eventsFoundDesc') as string).replace('{count}', String(completeData.events.length)),
+            description: t('eventsFoundDesc', { count: completeData.events.length }),
           });
         },
         onError: (errorMsg) => {
@@ -279,49 +301,49 @@ const PolaroidCollagePage = () => {
       setFormData(data);
       formDataRef.current = data;
 
-      const cached = getCachedTimeline(data, language);
-      if (cached) {
-        // Ensure queue state is clean before (re)starting searches for cached events
-        resetImageSearch();
-
-        // Cache compatibility: older cached timelines may not include imageSearchQuery fields,
-        // which means we can't auto-fetch images. In that case, treat cache as stale and
-        // regenerate (equivalent to the user pressing "Opnieuw").
-        const hasAnyImageQuery = cached.events.some(e => !!e.imageSearchQuery);
-        if (!hasAnyImageQuery) {
-          const key = getCacheKey(data, language);
-          sessionStorage.removeItem(key);
-        } else {
-
-        const normalizedCachedEvents = cached.events.map((e) => {
-          if (e.imageSearchQuery && (e.imageStatus === 'none' || e.imageStatus === 'error' || !e.imageUrl)) {
-            return { ...e, imageStatus: 'loading' as const, imageUrl: undefined };
-          }
-          if (!e.imageSearchQuery && (e.imageStatus === 'none' || e.imageStatus === 'error')) {
-            return { ...e, imageStatus: 'idle' as const };
-          }
-          return e;
-        });
+      getCachedTimeline(data, language).then(async (cached) => {
+        if (cached) {
+          // Ensure queue state is clean before (re)starting searches for cached events
+          resetImageSearch();
+
+          // Cache compatibility: older cached timelines may not include imageSearchQuery fields,
+          // which means we can't auto-fetch images. In that case, treat cache as stale and
+          // regenerate (equivalent to the user pressing "Opnieuw").
+          const hasAnyImageQuery = cached.events.some(e => !!e.imageSearchQuery);
+          if (!hasAnyImageQuery) {
+            await removeCachedTimeline(data, language).catch((err) => console.warn('Failed to clear cached timeline:', err));
+          } else {
+
+          const normalizedCachedEvents = cached.events.map((e) => {
+            if (e.imageSearchQuery && (e.imageStatus === 'none' || e.imageStatus === 'error' || !e.imageUrl)) {
+              return { ...e, imageStatus: 'loading' as const, imageUrl: undefined };
+            }
+            if (!e.imageSearchQuery && (e.imageStatus === 'none' || e.imageStatus === 'error')) {
+              return { ...e, imageStatus: 'idle' as const };
+            }
+            return e;
+          });
 
-        setEvents(normalizedCachedEvents);
-        setSummary(cached.summary);
-        setStoryTitle(cached.storyTitle || '');
-        setStoryIntroduction(cached.storyIntroduction || '');
-        setFamousBirthdays(cached.famousBirthdays);
-        setIsLoading(false);
+          setEvents(normalizedCachedEvents);
+          setSummary(cached.summary);
+          setStoryTitle(cached.storyTitle || '');
+          setStoryIntroduction(cached.storyIntroduction || '');
+          setFamousBirthdays(cached.famousBirthdays);
+          setIsLoading(false);
 
-        const needImages = normalizedCachedEvents.filter(e => 
-          e.imageSearchQuery && (!e.imageUrl || e.imageStatus === 'loading')
-        );
-        if (needImages.length > 0) {
-          loadImagesForEvents(needImages);
-        }
-        return;
+          const needImages = normalizedCachedEvents.filter(e => 
+            e.imageSearchQuery && (!e.imageUrl || e.imageStatus === 'loading')
+          );
+          if (needImages.length > 0) {
+            loadImagesForEvents(needImages);
+          }
+          return;
+          }
         }
-      }
 
-      const maxEvents = storedLength === 'short' ? 20 : undefined;
-      loadTimelineStreaming(data, maxEvents);
+        const maxEvents = storedLength === 'short' ? 20 : undefined;
+        loadTimelineStreaming(data, maxEvents);
+      });
     } else {
       setError('Geen gegevens gevonden');
       setIsLoading(false);
@@ -329,10 +351,8 @@ const PolaroidCollagePage = () => {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  const handleClearCache = () => {
+  const handleClearCache = async () => {
     if (formData) {
-      const key = getCacheKey(formData, language);
-      sessionStorage.removeItem(key);
       const storedLength = sessionStorage.getItem('timelineLength') || 'short';
       const maxEvents = storedLength === 'short' ? 20 : undefined;
       resetImageSearch();
@@ -340,6 +360,8 @@ const PolaroidCollagePage = () => {
       setSummary('');
       setFamousBirthdays([]);
       setIsLoading(true);
+      // The old entry must be gone before the new timeline is cached under the same key
+      await removeCachedTimeline(formData, language).catch((err) => console.warn('Failed to clear cached timeline:', err));
       loadTimelineStreaming(formData, maxEvents);
     }
   };
@@ -687,6 +709,7 @@ const PolaroidCollagePage = () => {
                   isSelected={selectedForCollage.includes(event.id)}
                   onToggleSelection={() => handleToggleCollageSelection(event.id)}
                   onBlacklistImage={handleBlacklistImage}
+                  onChooseImage={handleChooseImage}
                 />
               ))}
             </div>
@@ -704,10 +727,18 @@ const PolaroidCollagePage = () => {
         const city = storedData
           ? (JSON.parse(storedData)?.optionalData?.city || JSON.parse(storedData)?.city || '')
           : '';
+        const cityPlace = storedData ? placeForCity(city, JSON.parse(storedData)?.optionalData?.place) : undefined;
         const discoverParams = new URLSearchParams();
         discoverParams.set('start', String(start));
         discoverParams.set('end', String(end));
         if (city) discoverParams.set('city', String(city));
+        if (cityPlace) {
+          discoverParams.set('country', cityPlace.countryCode);
+          if (cityPlace.regionCode) discoverParams.set('region', cityPlace.regionCode);
+          // Coordinates place Berlin on the right side of the Wall
+          discoverParams.set('lat', String(cityPlace.lat));
+          discoverParams.set('lng', String(cityPlace.lng));
+        }
         return (
           <div className="relative z-10">
             <StoryEndDiscover
@@ -726,13 +757,7 @@ const PolaroidCollagePage = () => {
                       summary: storyIntroduction || summary || '',
                       storyTitle,
                       storyIntroduction,
-                      labels: {
-                        defaultFirstName: t('pdfDefaultFirstName') as string,
-                        defaultStoryName: t('pdfDefaultStoryName') as string,
-                        titleFallback: t('pdfTitleFallback') as string,
-                        albumFooter: t('pdfAlbumFooter') as string,
-                        albumFileSuffix: t('pdfAlbumFileSuffix') as string,
-                      },
+                      language,
                     });
                   } catch (err) {
                     toast({ title: t('pdfGenerationFailed') as string, variant: 'destructive' });
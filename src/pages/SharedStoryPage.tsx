@@ -3,21 +3,20 @@ import { useParams, Link } from 'react-router-dom';
 import { Player } from '@remotion/player';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
-import { Loader2, Home, AlertCircle, Tv } from 'lucide-react';
+import { Loader2, Home, AlertCircle, Tv, Captions } from 'lucide-react';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
-import { 
-  TimelineVideoComponent, 
-  ScrapbookVideoComponent,
-  calculateTotalDuration,
-  calculateScrapbookDuration,
-  VideoEvent 
-} from '@/remotion';
+import { VideoEvent } from '@/remotion';
+import {
+  SAVED_STORY_FPS as FPS,
+  buildSavedStoryVideoProps,
+  calculateSavedStoryDuration,
+  getSavedStoryComponent,
+  getSavedStoryDimensions,
+} from '@/remotion/savedStory';
 import { StoryContent, StorySettings } from '@/hooks/useSaveStory';
 import { useWakeLock } from '@/hooks/useWakeLock';
 
-const FPS = 30;
-
 interface SavedStory {
   id: string;
   content: StoryContent;
@@ -33,6 +32,7 @@ export default function SharedStoryPage() {
   const [error, setError] = useState<string | null>(null);
   const [vhsOverride, setVhsOverride] = useState<boolean | null>(null);
   const [autoVhsApplied, setAutoVhsApplied] = useState(false);
+  const [captionsOverride, setCaptionsOverride] = useState<boolean | null>(null);
 
   // Keep screen awake while viewing the shared story
   useWakeLock(!!story && !isLoading);
@@ -97,36 +97,6 @@ export default function SharedStoryPage() {
     fetchStory();
   }, [id]);
 
-  // Calculate video duration based on settings
-  const calculateDuration = (): number => {
-    if (!story) return 300;
-
-    const { content, settings } = story;
-    const events = content.events as VideoEvent[];
-
-    // Music video mode
-    if (settings.isMusicVideo && settings.backgroundMusicDuration) {
-      return Math.round(settings.backgroundMusicDuration * FPS);
-    }
-
-    // Scrapbook variant
-    if (settings.variant === 'scrapbook') {
-      return calculateScrapbookDuration(
-        events,
-        settings.introDurationFrames || 150,
-        FPS
-      );
-    }
-
-    // Default slideshow
-    return calculateTotalDuration(
-      events,
-      settings.introDurationFrames || 150,
-      FPS
-    );
-  };
-
-
   // Loading state
   if (isLoading) {
     return (
@@ -156,37 +126,46 @@ export default function SharedStoryPage() {
 
   const { content, settings } = story;
   const events = content.events as VideoEvent[];
-  const totalDuration = calculateDuration();
+  const totalDuration = calculateSavedStoryDuration(content, settings);
 
   // VHS toggle: use override if set, otherwise use saved setting
   const effectiveVhs = vhsOverride !== null ? vhsOverride : !!settings.enableVhsEffect;
 
+  // Captions toggle: only narrated videos have captions; the vertical short always burns them in
+  const canToggleCaptions = !settings.isMusicVideo && settings.variant !== 'vertical';
+  const effectiveCaptions = captionsOverride !== null ? captionsOverride : !!settings.showCaptions;
+
   // Prepare video props
-  const videoProps = {
-    events: events,
-    storyTitle: content.storyTitle,
-    storyIntroduction: content.storyIntroduction,
-    introAudioUrl: settings.isMusicVideo ? undefined : settings.introAudioUrl,
-    introDurationFrames: settings.isMusicVideo ? 0 : (settings.introDurationFrames || 150),
-    fps: FPS,
+  const videoProps = buildSavedStoryVideoProps(content, settings, {
     enableRetroEffect: effectiveVhs,
-    retroIntensity: settings.retroIntensity || 0.85,
-    externalAudioUrl: settings.isMusicVideo ? settings.backgroundMusicUrl : undefined,
-    externalAudioDuration: settings.isMusicVideo ? settings.backgroundMusicDuration : undefined,
-  };
+    showCaptions: effectiveCaptions,
+  });
 
-  const VideoComponent = settings.variant === 'scrapbook' 
-    ? ScrapbookVideoComponent 
-    : TimelineVideoComponent;
+  const VideoComponent = getSavedStoryComponent(settings);
+  const { width, height } = getSavedStoryDimensions(settings);
+  const isVertical = settings.variant === 'vertical';
 
   return (
     <div className="min-h-screen bg-black flex flex-col">
       {/* Video Player - Full width, maintains aspect ratio */}
       <div className="flex-1 flex items-center justify-center p-0 sm:p-4">
         <div className="w-full max-w-6xl">
-          {/* VHS Toggle */}
+          {/* VHS + captions toggles */}
           <div className="flex items-center justify-end gap-2 mb-2 px-1">
-            <Tv className="h-4 w-4 text-muted-foreground" />
+            {canToggleCaptions && (
+              <>
+                <Captions className="h-4 w-4 text-muted-foreground" />
+                <Label htmlFor="captions-shared" className="text-sm text-muted-foreground cursor-pointer">
+                  Ondertiteling
+                </Label>
+                <Switch
+                  id="captions-shared"
+                  checked={effectiveCaptions}
+                  onCheckedChange={(v) => setCaptionsOverride(v)}
+                />
+              </>
+            )}
+            <Tv className="h-4 w-4 text-muted-foreground ml-2" />
             <Label htmlFor="vhs-shared" className="text-sm text-muted-foreground cursor-pointer">
               VHS effect
             </Label>
@@ -196,14 +175,14 @@ export default function SharedStoryPage() {
               onCheckedChange={(v) => setVhsOverride(v)}
             />
           </div>
-          <div className="aspect-video bg-black rounded-none sm:rounded-lg overflow-hidden shadow-2xl">
+          <div className={`${isVertical ? 'aspect-[9/16] max-h-[80vh] mx-auto' : 'aspect-video'} bg-black rounded-none sm:rounded-lg overflow-hidden shadow-2xl`}>
           <Player
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             component={VideoComponent as any}
-            inputProps={videoProps}
+            inputProps={{ ...videoProps }}
             durationInFrames={totalDuration}
-            compositionWidth={1920}
-            compositionHeight={1080}
+            compositionWidth={width}
+            compositionHeight={height}
             fps={FPS}
             style={{ width: '100%', height: '100%' }}
             controls
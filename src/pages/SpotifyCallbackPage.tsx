@@ -0,0 +1,88 @@
+/**
+ * SpotifyCallbackPage - landing page for the Spotify OAuth redirect.
+ * Finishes the playlist export started on the music overview and links to
+ * the new playlist.
+ */
+import { useEffect, useRef, useState } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { AlertCircle, ArrowLeft, ExternalLink, ListMusic, Loader2 } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { completeSpotifyPlaylist, getPendingPlaylist, getPlaylistName } from '@/lib/spotifyPlaylist';
+
+const SpotifyCallbackPage = () => {
+  const { t } = useLanguage();
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [pending] = useState(getPendingPlaylist);
+  const [playlistUrl, setPlaylistUrl] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // The code can only be exchanged once - guard against the StrictMode double effect
+  const startedRef = useRef(false);
+
+  useEffect(() => {
+    if (startedRef.current) return;
+    startedRef.current = true;
+
+    completeSpotifyPlaylist(searchParams)
+      .then(setPlaylistUrl)
+      .catch((err) => {
+        console.error('[SpotifyCallback] Playlist creation failed:', err);
+        setError(err instanceof Error ? err.message : String(err));
+      });
+  }, [searchParams]);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-4 pt-24 pb-12 flex items-center justify-center">
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle className="font-serif text-xl flex items-center gap-2">
+              <ListMusic className="h-5 w-5 text-[#1DB954]" />
+              {pending ? getPlaylistName(pending) : String(t('spotifyPlaylistTitle'))}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!playlistUrl && !error && (
+              <div className="flex items-center gap-3 text-sm text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {String(t('spotifyPlaylistCreating'))}
+              </div>
+            )}
+
+            {playlistUrl && (
+              <>
+                <p className="text-sm text-muted-foreground">
+                  {t('spotifyPlaylistCreated', { count: pending?.trackIds.length ?? 0 })}
+                </p>
+                <Button asChild className="w-full gap-2 bg-[#1DB954] hover:bg-[#1ed760] text-white">
+                  <a href={playlistUrl} target="_blank" rel="noopener noreferrer">
+                    <ExternalLink className="h-4 w-4" />
+                    {String(t('spotifyPlaylistOpen'))}
+                  </a>
+                </Button>
+              </>
+            )}
+
+            {error && (
+              <div className="flex items-center gap-2 px-3 py-2 bg-destructive/10 text-destructive rounded-md text-sm">
+                <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                <span>{String(t('spotifyPlaylistFailed'))}</span>
+              </div>
+            )}
+
+            <Button variant="outline" className="w-full gap-2" onClick={() => navigate(pending?.returnTo || '/')}>
+              <ArrowLeft className="h-4 w-4" />
+              {String(t('spotifyPlaylistBack'))}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default SpotifyCallbackPage;
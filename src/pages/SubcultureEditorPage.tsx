@@ -0,0 +1,383 @@
+/**
+ * SubcultureEditorPage - admin editor for src/data/subcultures.json.
+ *
+ * Edits a draft (kept in localStorage, so work survives a reload) of the
+ * subculture dataset: per era, age group and country the subcultures with
+ * their description, brands, music and clothing, plus the city gazetteer.
+ * Every change is validated against the schema; the download is the new
+ * subcultures.json to commit, with the version bumped.
+ *
+ * Admin-only: App.tsx mounts it behind <AdminRoute>.
+ */
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { AlertCircle, AlertTriangle, ArrowDown, ArrowUp, Download, Plus, RotateCcw, Trash2, Upload } from 'lucide-react';
+import { Header } from '@/components/Header';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import type { MessageKey } from '@/lib/i18n';
+import { subcultureDataset } from '@/lib/subcultureData';
+import {
+  SUBCULTURE_AGE_GROUPS,
+  formatSubcultureDataset,
+  validateSubcultureDataset,
+  type SubcultureAgeGroup,
+  type SubcultureDataset,
+  type SubcultureEra,
+  type SubcultureOption,
+} from '@/lib/subcultureSchema';
+
+const DRAFT_KEY = 'subcultureEditorDraft';
+
+const AGE_GROUP_LABELS: Record<SubcultureAgeGroup, MessageKey> = {
+  teen: 'subcultureAgeGroupTeen',
+  'young-adult': 'subcultureAgeGroupYoungAdult',
+};
+
+const LIST_FIELDS = [
+  ['brands', 'subcultureBrands'],
+  ['music', 'subcultureMusic'],
+  ['clothing', 'subcultureClothing'],
+] as const;
+
+const loadDraft = (): SubcultureDataset => {
+  try {
+    const stored = localStorage.getItem(DRAFT_KEY);
+    if (stored) return JSON.parse(stored);
+  } catch (err) {
+    console.warn('[SubcultureEditor] Ignoring unreadable draft:', err);
+  }
+  return subcultureDataset;
+};
+
+// One entry per line in the textareas. Lines are kept as typed while
+// editing and tidied up when the field loses focus.
+const toLines = (items: string[]) => items.join('\n');
+const fromLines = (value: string) => value.split('\n');
+const tidyLines = (items: string[]) => items.map((line) => line.trim()).filter(Boolean);
+
+const emptyOption = (): SubcultureOption => ({ name: '', description: '', brands: [], music: [], clothing: [] });
+
+const SubcultureEditorPage = () => {
+  const { t } = useLanguage();
+  const [draft, setDraft] = useState<SubcultureDataset>(loadDraft);
+  const [period, setPeriod] = useState(() => draft.eras[0]?.period ?? '1980s');
+  const [ageGroup, setAgeGroup] = useState<SubcultureAgeGroup>('teen');
+  const [country, setCountry] = useState(() => draft.countries[0]?.code ?? 'NL');
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    localStorage.setItem(DRAFT_KEY, JSON.stringify(draft));
+  }, [draft]);
+
+  const { dataset: validDataset, issues } = useMemo(() => validateSubcultureDataset(draft), [draft]);
+  const errors = issues.filter((issue) => issue.severity === 'error');
+  const warnings = issues.filter((issue) => issue.severity === 'warning');
+
+  const periods = useMemo(() => [...new Set(draft.eras.map((era) => era.period))].sort(), [draft.eras]);
+  const eraIndex = draft.eras.findIndex(
+    (era) => era.period === period && era.ageGroup === ageGroup && era.country === country,
+  );
+  const era = eraIndex >= 0 ? draft.eras[eraIndex] : null;
+
+  const updateEra = (update: (era: SubcultureEra) => SubcultureEra) =>
+    setDraft((current) => ({
+      ...current,
+      eras: current.eras.map((e, i) => (i === eraIndex ? update(e) : e)),
+    }));
+
+  const updateOption = (index: number, patch: Partial<SubcultureOption>) =>
+    updateEra((e) => ({ ...e, options: e.options.map((o, i) => (i === index ? { ...o, ...patch } : o)) }));
+
+  const moveOption = (index: number, delta: number) =>
+    updateEra((e) => {
+      const options = [...e.options];
+      const [moved] = options.splice(index, 1);
+      options.splice(index + delta, 0, moved);
+      return { ...e, options };
+    });
+
+  const addEra = () =>
+    setDraft((current) => ({
+      ...current,
+      eras: [...current.eras, { period, ageGroup, country, options: [emptyOption()] }],
+    }));
+
+  const removeEra = () =>
+    setDraft((current) => ({ ...current, eras: current.eras.filter((_, i) => i !== eraIndex) }));
+
+  const updateCountry = (index: number, patch: Partial<SubcultureDataset['countries'][number]>) =>
+    setDraft((current) => ({
+      ...current,
+      countries: current.countries.map((c, i) => (i === index ? { ...c, ...patch } : c)),
+    }));
+
+  const addCountry = () =>
+    setDraft((current) => ({ ...current, countries: [...current.countries, { code: '', name: '', cities: [] }] }));
+
+  const handleImport = async (file: File) => {
+    setImportError(null);
+    try {
+      const { dataset, issues: importIssues } = validateSubcultureDataset(JSON.parse(await file.text()));
+      if (!dataset) {
+        const [first] = importIssues;
+        setImportError(t('subcultureEditorImportIssues', { count: importIssues.length, path: first.path, message: first.message }));
+        return;
+      }
+      setDraft(dataset);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleReset = () => {
+    if (!window.confirm(t('subcultureEditorResetConfirm'))) return;
+    localStorage.removeItem(DRAFT_KEY);
+    setDraft(subcultureDataset);
+  };
+
+  const handleDownload = () => {
+    if (!validDataset) return;
+    const next = { ...validDataset, version: validDataset.version + 1 };
+    setDraft(next);
+    const url = URL.createObjectURL(new Blob([formatSubcultureDataset(next)], { type: 'application/json' }));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'subcultures.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+      <div className="container mx-auto px-4 pt-24 pb-12 space-y-6 max-w-5xl">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <h1 className="font-serif text-2xl">{t('subcultureEditorTitle')}</h1>
+            <p className="text-sm text-muted-foreground">
+              {t('subcultureEditorSummary', {
+                version: draft.version,
+                eras: draft.eras.length,
+                countries: draft.countries.length,
+              })}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4" />
+              {t('subcultureEditorImport')}
+            </Button>
+            <Button variant="outline" size="sm" className="gap-2" onClick={handleReset}>
+              <RotateCcw className="h-4 w-4" />
+              {t('subcultureEditorReset')}
+            </Button>
+            <Button size="sm" className="gap-2" onClick={handleDownload} disabled={!validDataset || errors.length > 0}>
+              <Download className="h-4 w-4" />
+              subcultures.json
+            </Button>
+          </div>
+        </div>
+
+        {importError && (
+          <div className="flex items-center gap-2 px-3 py-2 bg-destructive/10 text-destructive rounded-md text-sm">
+            <AlertCircle className="h-4 w-4 flex-shrink-0" />
+            <span>{t('subcultureEditorImportFailed', { error: importError })}</span>
+          </div>
+        )}
+
+        {issues.length > 0 && (
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                {t('subcultureEditorChecks')}
+                {errors.length > 0 && (
+                  <Badge variant="destructive">{t('subcultureEditorErrors', { count: errors.length })}</Badge>
+                )}
+                {warnings.length > 0 && (
+                  <Badge variant="secondary">{t('subcultureEditorWarnings', { count: warnings.length })}</Badge>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="max-h-48 overflow-y-auto space-y-1 text-xs">
+              {[...errors, ...warnings].map((issue, i) => (
+                <div key={`${issue.path}-${i}`} className="flex items-start gap-2">
+                  {issue.severity === 'error' ? (
+                    <AlertCircle className="h-3.5 w-3.5 text-destructive flex-shrink-0 mt-0.5" />
+                  ) : (
+                    <AlertTriangle className="h-3.5 w-3.5 text-amber-500 flex-shrink-0 mt-0.5" />
+                  )}
+                  <span className="font-mono text-muted-foreground">{issue.path}</span>
+                  <span>{issue.message}</span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">{t('subcultureEditorEras')}</CardTitle>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 pt-2">
+              <Select value={period} onValueChange={setPeriod}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {periods.map((p) => <SelectItem key={p} value={p}>{p}</SelectItem>)}
+                </SelectContent>
+              </Select>
+              <Select value={ageGroup} onValueChange={(value) => setAgeGroup(value as SubcultureAgeGroup)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {SUBCULTURE_AGE_GROUPS.map((group) => (
+                    <SelectItem key={group} value={group}>{t(AGE_GROUP_LABELS[group])}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={country} onValueChange={setCountry}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {draft.countries.filter((c) => c.code).map((c) => (
+                    <SelectItem key={c.code} value={c.code}>{c.name || c.code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {!era && (
+              <div className="flex items-center justify-between gap-3 text-sm text-muted-foreground">
+                <span>{t('subcultureEditorNoEra', { period, ageGroup: t(AGE_GROUP_LABELS[ageGroup]), country })}</span>
+                <Button variant="outline" size="sm" className="gap-2" onClick={addEra}>
+                  <Plus className="h-4 w-4" />
+                  {t('subcultureEditorAddEra')}
+                </Button>
+              </div>
+            )}
+
+            {era?.options.map((option, index) => (
+              <div key={index} className="rounded-md border border-border p-3 space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-muted-foreground w-5">{index + 1}.</span>
+                  <Input
+                    value={option.name}
+                    placeholder={t('subcultureEditorName')}
+                    onChange={(e) => updateOption(index, { name: e.target.value })}
+                  />
+                  <Button variant="ghost" size="icon" disabled={index === 0} onClick={() => moveOption(index, -1)}>
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={index === era.options.length - 1}
+                    onClick={() => moveOption(index, 1)}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => updateEra((e) => ({ ...e, options: e.options.filter((_, i) => i !== index) }))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Textarea
+                  value={option.description}
+                  placeholder={t('subcultureEditorDescription')}
+                  rows={2}
+                  onChange={(e) => updateOption(index, { description: e.target.value })}
+                />
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                  {LIST_FIELDS.map(([field, label]) => (
+                    <div key={field} className="space-y-1">
+                      <Label className="text-xs">{t('subcultureEditorOnePerLine', { label: t(label) })}</Label>
+                      <Textarea
+                        value={toLines(option[field])}
+                        rows={4}
+                        onChange={(e) => updateOption(index, { [field]: fromLines(e.target.value) })}
+                        onBlur={() => updateOption(index, { [field]: tidyLines(option[field]) })}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {era && (
+              <div className="flex justify-between gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => updateEra((e) => ({ ...e, options: [...e.options, emptyOption()] }))}
+                >
+                  <Plus className="h-4 w-4" />
+                  {t('subcultureEditorAddSubculture')}
+                </Button>
+                <Button variant="ghost" size="sm" className="gap-2 text-destructive" onClick={removeEra}>
+                  <Trash2 className="h-4 w-4" />
+                  {t('subcultureEditorRemoveEra')}
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-3">
+            <CardTitle className="text-base">{t('subcultureEditorCountries')}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {draft.countries.map((c, index) => (
+              <div key={index} className="grid grid-cols-1 sm:grid-cols-[6rem_10rem_1fr] gap-2">
+                <Input
+                  value={c.code}
+                  placeholder={t('subcultureEditorCode')}
+                  onChange={(e) => updateCountry(index, { code: e.target.value.toUpperCase() })}
+                />
+                <Input
+                  value={c.name}
+                  placeholder={t('subcultureEditorName')}
+                  onChange={(e) => updateCountry(index, { name: e.target.value })}
+                />
+                <Textarea
+                  value={toLines(c.cities)}
+                  placeholder={t('subcultureEditorCities')}
+                  rows={2}
+                  onChange={(e) => updateCountry(index, { cities: fromLines(e.target.value.toLowerCase()) })}
+                  onBlur={() => updateCountry(index, { cities: tidyLines(c.cities) })}
+                />
+              </div>
+            ))}
+            <Button variant="outline" size="sm" className="gap-2" onClick={addCountry}>
+              <Plus className="h-4 w-4" />
+              {t('subcultureEditorAddCountry')}
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default SubcultureEditorPage;
@@ -1,13 +1,13 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, useScroll, useTransform, useInView, AnimatePresence } from 'framer-motion';
 import { FormData, OptionalData } from '@/types/form';
-import { TimelineEvent, FamousBirthday, SearchTraceEntry } from '@/types/timeline';
-import { generateTimelineStreaming } from '@/lib/api/timeline';
+import { TimelineEvent, FamousBirthday, SearchTraceEntry, ImageCandidate } from '@/types/timeline';
+import { generateTimelineStreaming, regenerateTimelineEvent } from '@/lib/api/timeline';
 import { useClientImageSearch } from '@/hooks/useClientImageSearch';
-import { getCachedTimeline, cacheTimeline, updateCachedEvents } from '@/lib/timelineCache';
+import { getCachedTimeline, cacheTimeline, updateCachedEvents, removeCachedTimeline } from '@/lib/timelineCache';
 import { useLanguage } from '@/contexts/LanguageContext';
-import { ArrowLeft, ChevronDown, Loader2, AlertCircle, RefreshCw, Clock, Ban, Video, Music } from 'lucide-react';
+import { ArrowLeft, ChevronDown, Loader2, AlertCircle, RefreshCw, Clock, Ban, Video, Music, Shuffle, Pencil, Check, ImagePlus } from 'lucide-react';
 import { StoryEndDiscover } from '@/components/story/StoryEndDiscover';
 import { RoastDialog } from '@/components/story/RoastDialog';
 import { generateStoryBookPdf } from '@/lib/pdfStoryBookGenerator';
@@ -15,17 +15,26 @@ import { AccountLink } from '@/components/AccountLink';
 import { TimeTravelCounter } from '@/components/TimeTravelCounter';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
-import { getCacheKey } from '@/lib/timelineCache';
 import { DebugInfoDialog } from '@/components/DebugInfoDialog';
 import { PromptViewerDialog } from '@/components/PromptViewerDialog';
 import { MediaButtons } from '@/components/story/MediaButtons';
 import { addToBlacklist } from '@/hooks/useImageBlacklist';
+import { rememberImageChoice } from '@/lib/imageSearch';
+import { ImageCandidatePicker } from '@/components/ImageCandidatePicker';
+import { ImageAttribution } from '@/components/story/ImageAttribution';
 import { VideoDialog } from '@/components/video/VideoDialog';
 
 import { SoundtrackSection } from '@/components/story/SoundtrackSection';
 import { PersonalizeSoundtrackDialog } from '@/components/story/PersonalizeSoundtrackDialog';
-import { startQuickSoundtrackGeneration, clearSoundtrackState } from '@/hooks/useSoundtrackGeneration';
+import { startQuickSoundtrackGeneration, clearSoundtrackState, restoreSoundtrackState } from '@/hooks/useSoundtrackGeneration';
 import { ParallaxMusicColumn } from '@/components/story/ParallaxMusicColumn';
+import { placeForCity } from '@/lib/gazetteer';
+import { TimelineEditor } from '@/components/story/TimelineEditor';
+import { PhotoUploadDialog } from '@/components/story/PhotoUploadDialog';
+import { isUserPhoto } from '@/lib/photoUpload';
+import { SharedYearsTrack, MetYearAnchor } from '@/components/story/SharedYearsTrack';
+import { BirthdayNumberOneCard } from '@/components/story/BirthdayNumberOneCard';
+import { getTimelinePeople, isSharedTimeline, findMetYearIndex } from '@/lib/sharedTimeline';
 
 // Placeholder images by category
 import birthdayPlaceholder from '@/assets/placeholders/birthday.jpg';
@@ -273,6 +282,7 @@ interface LayoutPatternProps {
   theme: EditorialTheme;
   imageUrl: string;
   onBlacklistImage?: (eventId: string) => void;
+  onChooseImage?: (eventId: string, candidate: ImageCandidate) => void;
 }
 
 // =============================================
@@ -284,9 +294,10 @@ interface ImageWithBlacklistProps {
   className?: string;
   event: TimelineEvent;
   onBlacklistImage?: (eventId: string) => void;
+  onChooseImage?: (eventId: string, candidate: ImageCandidate) => void;
 }
 
-const ImageWithBlacklist = ({ src, alt, className = '', event, onBlacklistImage }: ImageWithBlacklistProps) => {
+const ImageWithBlacklist = ({ src, alt, className = '', event, onBlacklistImage, onChooseImage }: ImageWithBlacklistProps) => {
   const { t } = useLanguage();
   // Check if this is a placeholder (not a real searched image)
   const isPlaceholder = !event.imageUrl || event.imageStatus !== 'found';
@@ -333,7 +344,7 @@ const ImageWithBlacklist = ({ src, alt, className = '', event, onBlacklistImage
         className={`${className} bg-muted ${fitMode === 'contain' ? 'object-contain' : 'object-cover'}`}
       />
       {/* Blacklist button - only for real images */}
-      {!isPlaceholder && event.imageUrl && onBlacklistImage && (
+      {!isPlaceholder && event.imageUrl && !isUserPhoto(event) && onBlacklistImage && (
         <button
           onClick={async (e) => {
             e.stopPropagation();
@@ -349,6 +360,11 @@ const ImageWithBlacklist = ({ src, alt, className = '', event, onBlacklistImage
           <Ban className="h-3.5 w-3.5" />
         </button>
       )}
+      {/* Other images the search found */}
+      {!isPlaceholder && !isUserPhoto(event) && onChooseImage && (
+        <ImageCandidatePicker event={event} onChoose={onChooseImage} className="top-2 left-11 w-7 h-7" />
+      )}
+      {!isPlaceholder && <ImageAttribution event={event} />}
     </div>
   );
 };
@@ -358,7 +374,7 @@ const ImageWithBlacklist = ({ src, alt, className = '', event, onBlacklistImage
 // =============================================
 
 // Pattern: "THE SHOUT" - Giant year, bold statement, minimal
-const LayoutShout = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPatternProps) => {
+const LayoutShout = ({ event, theme, imageUrl, onBlacklistImage, onChooseImage }: LayoutPatternProps) => {
   const ref = useRef(null);
   const isInView = useInView(ref, { once: true, margin: '-100px' });
   
@@ -441,6 +457,7 @@ const LayoutShout = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPattern
           className="w-full h-full object-cover rounded-lg shadow-2xl"
           event={event}
           onBlacklistImage={onBlacklistImage}
+          onChooseImage={onChooseImage}
         />
       </motion.div>
     </div>
@@ -448,7 +465,7 @@ const LayoutShout = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPattern
 };
 
 // Pattern: "THE WHISPER" - Minimal, lots of whitespace, text in corner
-const LayoutWhisper = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPatternProps) => {
+const LayoutWhisper = ({ event, theme, imageUrl, onBlacklistImage, onChooseImage }: LayoutPatternProps) => {
   const ref = useRef(null);
   const isInView = useInView(ref, { once: true, margin: '-100px' });
   
@@ -467,6 +484,7 @@ const LayoutWhisper = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPatte
           className="w-full h-full object-cover object-top rounded-xl sm:rounded-2xl max-h-[60vh] sm:max-h-[50vh]"
           event={event}
           onBlacklistImage={onBlacklistImage}
+          onChooseImage={onChooseImage}
         />
       </motion.div>
       
@@ -502,7 +520,7 @@ const LayoutWhisper = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPatte
 };
 
 // Pattern: "THE MAGAZINE" - Drop cap, editorial columns, rotated date
-const LayoutMagazine = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPatternProps) => {
+const LayoutMagazine = ({ event, theme, imageUrl, onBlacklistImage, onChooseImage }: LayoutPatternProps) => {
   const ref = useRef(null);
   const isInView = useInView(ref, { once: true, margin: '-100px' });
   
@@ -542,6 +560,7 @@ const LayoutMagazine = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPatt
                 className="w-full h-full object-cover object-top"
                 event={event}
                 onBlacklistImage={onBlacklistImage}
+                onChooseImage={onChooseImage}
               />
             </div>
             {/* Media buttons below image */}
@@ -589,7 +608,7 @@ const LayoutMagazine = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPatt
 };
 
 // Pattern: "THE OVERLAP" - Text bleeding over image (but NOT on mobile)
-const LayoutOverlap = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPatternProps) => {
+const LayoutOverlap = ({ event, theme, imageUrl, onBlacklistImage, onChooseImage }: LayoutPatternProps) => {
   const ref = useRef(null);
   const isInView = useInView(ref, { once: true, margin: '-100px' });
   
@@ -604,6 +623,7 @@ const LayoutOverlap = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPatte
             className="w-full h-48 object-cover object-top rounded-lg"
             event={event}
             onBlacklistImage={onBlacklistImage}
+            onChooseImage={onChooseImage}
           />
           <div className="space-y-3">
             <span className={`${theme.fontMono} text-xs uppercase tracking-[0.2em] text-muted-foreground block`}>
@@ -644,6 +664,7 @@ const LayoutOverlap = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPatte
               className="w-full h-full max-h-[50vh] object-cover object-top rounded-lg"
               event={event}
               onBlacklistImage={onBlacklistImage}
+              onChooseImage={onChooseImage}
             />
           </motion.div>
 
@@ -690,7 +711,7 @@ const LayoutOverlap = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPatte
 };
 
 // Pattern: "THE SPLIT" - Dramatic half-and-half with huge type
-const LayoutSplit = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPatternProps) => {
+const LayoutSplit = ({ event, theme, imageUrl, onBlacklistImage, onChooseImage }: LayoutPatternProps) => {
   const { t } = useLanguage();
   const ref = useRef(null);
   const isInView = useInView(ref, { once: true, margin: '-100px' });
@@ -712,7 +733,7 @@ const LayoutSplit = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPattern
         />
         
         {/* Blacklist button - only for real images */}
-        {event.imageUrl && event.imageStatus === 'found' && onBlacklistImage && (
+        {event.imageUrl && event.imageStatus === 'found' && !isUserPhoto(event) && onBlacklistImage && (
           <button
             onClick={async (e) => {
               e.stopPropagation();
@@ -728,6 +749,10 @@ const LayoutSplit = ({ event, theme, imageUrl, onBlacklistImage }: LayoutPattern
             <Ban className="h-3.5 w-3.5" />
           </button>
         )}
+        {event.imageStatus === 'found' && !isUserPhoto(event) && onChooseImage && (
+          <ImageCandidatePicker event={event} onChoose={onChooseImage} className="top-2 left-11 w-7 h-7" />
+        )}
+        {event.imageStatus === 'found' && <ImageAttribution event={event} />}
         
         {/* Year bleeding across */}
         <div className="absolute bottom-4 right-0 translate-x-1/2 z-10 mix-blend-overlay">
@@ -954,8 +979,18 @@ const TimelineStoryPage = () => {
   const receivedEventsRef = useRef<TimelineEvent[]>([]);
   const eventRefs = useRef<Map<string, HTMLDivElement>>(new Map());
 
+  // Shared "years together" timelines get a track per person above each event
+  const sharedPeople = useMemo(
+    () => (formData && isSharedTimeline(formData) ? getTimelinePeople(formData) : []),
+    [formData]
+  );
+  const metYear = sharedPeople.length > 0 ? formData?.optionalData.metYear : undefined;
+  const metYearIndex = findMetYearIndex(events, metYear);
+  // Canonical place from the city autocomplete, while it still matches the city
+  const cityPlace = placeForCity(formData?.optionalData.city, formData?.optionalData.place);
+
   // Client-side image search
-  const handleImageFound = useCallback((eventId: string, imageUrl: string, source: string | null, searchTrace?: SearchTraceEntry[]) => {
+  const handleImageFound = useCallback((eventId: string, imageUrl: string, source: string | null, searchTrace?: SearchTraceEntry[], candidates?: ImageCandidate[]) => {
     receivedEventsRef.current = receivedEventsRef.current.map(event => {
       if (event.id !== eventId) return event;
       return {
@@ -964,6 +999,8 @@ const TimelineStoryPage = () => {
         source: source || undefined,
         imageStatus: imageUrl ? 'found' as const : 'none' as const,
         searchTrace,
+        imageCandidates: candidates,
+        imageCredit: candidates?.find(candidate => candidate.imageUrl === imageUrl)?.credit,
       };
     });
 
@@ -976,6 +1013,8 @@ const TimelineStoryPage = () => {
           source: source || undefined,
           imageStatus: imageUrl ? 'found' as const : 'none' as const,
           searchTrace,
+          imageCandidates: candidates,
+          imageCredit: candidates?.find(candidate => candidate.imageUrl === imageUrl)?.credit,
         };
       });
 
@@ -1012,6 +1051,100 @@ const TimelineStoryPage = () => {
     }
   }, [events, forceResearch]);
 
+  // Image picker: show another image the search found, and let later searches start from it
+  const handleChooseImage = useCallback((eventId: string, candidate: ImageCandidate) => {
+    const event = events.find(e => e.id === eventId);
+    if (!event) return;
+
+    const chooseIn = (list: TimelineEvent[]) => list.map(e =>
+      e.id === eventId ? { ...e, imageUrl: candidate.imageUrl, source: candidate.source, imageCredit: candidate.credit, imageStatus: 'found' as const } : e
+    );
+    receivedEventsRef.current = chooseIn(receivedEventsRef.current);
+    setEvents(prev => chooseIn(prev));
+    if (formData) {
+      updateCachedEvents(formData, language, chooseIn);
+    }
+    rememberImageChoice(event, candidate);
+  }, [events, formData, language]);
+
+  // "Give me something else": swap one event for a fresh one from the same
+  // year/category, then search an image for just that event.
+  const [regeneratingIds, setRegeneratingIds] = useState<Set<string>>(new Set());
+
+  const handleRegenerateEvent = useCallback(async (eventId: string) => {
+    const target = events.find(e => e.id === eventId);
+    if (!target || !formData || regeneratingIds.has(eventId)) return;
+
+    setRegeneratingIds(prev => new Set(prev).add(eventId));
+    const result = await regenerateTimelineEvent(formData, language, target, events.map(e => e.title));
+    setRegeneratingIds(prev => {
+      const next = new Set(prev);
+      next.delete(eventId);
+      return next;
+    });
+
+    if (!result.success || !result.event) {
+      toast({
+        variant: 'destructive',
+        title: t('regenerateEventFailed') as string,
+        description: result.error,
+      });
+      return;
+    }
+
+    // Fresh id so a late image result for the old event can't land on the new one
+    const replacement: TimelineEvent = {
+      ...result.event,
+      id: `${target.id}_r${Date.now().toString(36)}`,
+      imageUrl: undefined,
+      source: undefined,
+      searchTrace: undefined,
+      imageCandidates: undefined,
+      imageCredit: undefined,
+      imageStatus: result.event.imageSearchQuery ? 'loading' : 'idle',
+    };
+
+    const replaceIn = (list: TimelineEvent[]) => list.map(e => (e.id === eventId ? replacement : e));
+    receivedEventsRef.current = replaceIn(receivedEventsRef.current);
+    setEvents(prev => replaceIn(prev));
+    updateCachedEvents(formData, language, replaceIn);
+
+    if (replacement.imageSearchQuery) {
+      forceResearch(replacement);
+    }
+  }, [events, formData, language, regeneratingIds, forceResearch, toast, t]);
+
+  // Manual edit mode. Edits replace the event list wholesale; the library
+  // write is debounced because every keystroke produces a new list.
+  const [isEditing, setIsEditing] = useState(false);
+  const [isPhotoUploadOpen, setIsPhotoUploadOpen] = useState(false);
+  const editPersistTimerRef = useRef<number | undefined>(undefined);
+  const pendingEditRef = useRef<TimelineEvent[] | null>(null);
+
+  const flushEditedEvents = useCallback(() => {
+    window.clearTimeout(editPersistTimerRef.current);
+    const pending = pendingEditRef.current;
+    pendingEditRef.current = null;
+    if (pending && formDataRef.current) {
+      updateCachedEvents(formDataRef.current, language, () => pending);
+    }
+  }, [language]);
+
+  const handleEditEvents = useCallback((next: TimelineEvent[]) => {
+    receivedEventsRef.current = next;
+    setEvents(next);
+    pendingEditRef.current = next;
+    window.clearTimeout(editPersistTimerRef.current);
+    editPersistTimerRef.current = window.setTimeout(flushEditedEvents, 500);
+  }, [flushEditedEvents]);
+
+  const toggleEditing = useCallback(() => {
+    if (isEditing) flushEditedEvents();
+    setIsEditing(!isEditing);
+  }, [isEditing, flushEditedEvents]);
+
+  useEffect(() => flushEditedEvents, [flushEditedEvents]);
+
   const loadImagesForEvents = useCallback((newEvents: TimelineEvent[]) => {
     const eventsNeedingImages = newEvents.filter(
       e => e.imageSearchQuery && e.imageStatus !== 'found' && e.imageStatus !== 'none'
@@ -1071,50 +1204,56 @@ const TimelineStoryPage = () => {
       setFormData(data);
       formDataRef.current = data;
 
-      // Check cache first
-      const cached = getCachedTimeline(data, language);
-      if (cached) {
-        resetImageSearch();
-        receivedEventsRef.current = [];
+      // Check the timeline library first
+      getCachedTimeline(data, language).then((cached) => {
+        if (cached) {
+          resetImageSearch();
+          receivedEventsRef.current = [];
 
-        const normalizedCachedEvents = cached.events.map((e) => {
-          if (e.imageSearchQuery && (e.imageStatus === 'none' || e.imageStatus === 'error' || !e.imageUrl)) {
-            return { ...e, imageStatus: 'loading' as const, imageUrl: undefined };
-          }
-          return e;
-        });
+          const normalizedCachedEvents = cached.events.map((e) => {
+            if (e.imageSearchQuery && (e.imageStatus === 'none' || e.imageStatus === 'error' || !e.imageUrl)) {
+              return { ...e, imageStatus: 'loading' as const, imageUrl: undefined };
+            }
+            return e;
+          });
 
-        receivedEventsRef.current = normalizedCachedEvents;
-        setEvents(normalizedCachedEvents);
+          receivedEventsRef.current = normalizedCachedEvents;
+          setEvents(normalizedCachedEvents);
 
-        // Set story fields if available (cached by other pages)
-        setStoryTitle(cached.storyTitle || '');
-        setStoryIntroduction(cached.storyIntroduction || '');
+          // Set story fields if available (cached by other pages)
+          setStoryTitle(cached.storyTitle || '');
+          setStoryIntroduction(cached.storyIntroduction || '');
         
-        setIsLoading(false);
+          setIsLoading(false);
 
-        // Start soundtrack generation with cached events if no soundtrack is ready yet
-        const soundtrackState = sessionStorage.getItem('soundtrack_generation_state');
-        const parsed = soundtrackState ? JSON.parse(soundtrackState) : null;
-        if (!parsed || parsed.status === 'idle' || parsed.status === 'error') {
-          clearSoundtrackState();
-          startQuickSoundtrackGeneration(data, normalizedCachedEvents, language).catch(err => {
-            console.error('[TimelineStoryPage] Soundtrack generation from cache failed:', err);
-          });
-        }
+          // Reuse the soundtrack stored with this timeline; only generate one
+          // with the cached events if there is none and none is ready yet
+          const soundtrackState = sessionStorage.getItem('soundtrack_generation_state');
+          const parsed = soundtrackState ? JSON.parse(soundtrackState) : null;
+          if (!parsed || parsed.status === 'idle' || parsed.status === 'error') {
+            if (cached.soundtrack) {
+              restoreSoundtrackState(cached.soundtrack, cached.key);
+            } else {
+              clearSoundtrackState();
+              startQuickSoundtrackGeneration(data, normalizedCachedEvents, language).catch(err => {
+                console.error('[TimelineStoryPage] Soundtrack generation from cache failed:', err);
+              });
+            }
+          }
 
-        const needImages = normalizedCachedEvents.filter(e => 
-          e.imageSearchQuery && (!e.imageUrl || e.imageStatus === 'loading')
-        );
-        if (needImages.length > 0) {
-          addImagesToQueue(needImages);
+          const needImages = normalizedCachedEvents.filter(e => 
+            e.imageSearchQuery && (!e.imageUrl || e.imageStatus === 'loading')
+          );
+          if (needImages.length > 0) {
+            addImagesToQueue(needImages);
+          }
+          return;
         }
-        return;
-      }
 
-      const maxEvents = storedLength === 'short' ? 20 : 20; // Always default to 20 events
-      setCurrentMaxEvents(maxEvents);
-      loadTimelineStreaming(data, maxEvents);
+        const maxEvents = storedLength === 'short' ? 20 : 20; // Always default to 20 events
+        setCurrentMaxEvents(maxEvents);
+        loadTimelineStreaming(data, maxEvents);
+      });
     } else {
       // Store the i18n key as a sentinel so the displayed message follows
       // the user's current language at render time (the [] effect runs once
@@ -1235,10 +1374,8 @@ const TimelineStoryPage = () => {
     }
   };
 
-  const handleClearCache = (forceMaxEvents?: number) => {
+  const handleClearCache = async (forceMaxEvents?: number) => {
     if (formData) {
-      const key = getCacheKey(formData, language);
-      sessionStorage.removeItem(key);
       // Use forced count or fall back to stored preference
       const maxEvents = forceMaxEvents !== undefined
         ? forceMaxEvents
@@ -1253,7 +1390,9 @@ const TimelineStoryPage = () => {
       
       // Soundtrack will be regenerated in onComplete when new events arrive
       clearSoundtrackState();
-      
+
+      // The old entry must be gone before the new timeline is cached under the same key
+      await removeCachedTimeline(formData, language).catch((err) => console.warn('Failed to clear cached timeline:', err));
       loadTimelineStreaming(formData, maxEvents);
     }
   };
@@ -1331,6 +1470,26 @@ const TimelineStoryPage = () => {
               <h1 className="font-serif text-sm sm:text-xl lg:text-2xl font-bold text-foreground truncate">
                 {getTitle()}
               </h1>
+
+              {events.length > 0 && !isLoading && (
+                <button
+                  onClick={toggleEditing}
+                  className={`p-1.5 transition-colors rounded-md hover:bg-muted/50 ${isEditing ? 'text-primary' : 'text-muted-foreground hover:text-foreground'}`}
+                  title={(isEditing ? t('doneEditing') : t('editTimeline')) as string}
+                  aria-pressed={isEditing}
+                >
+                  {isEditing ? <Check className="h-3.5 w-3.5" /> : <Pencil className="h-3.5 w-3.5" />}
+                </button>
+              )}
+              {events.length > 0 && !isLoading && (
+                <button
+                  onClick={() => setIsPhotoUploadOpen(true)}
+                  className="p-1.5 text-muted-foreground hover:text-foreground transition-colors rounded-md hover:bg-muted/50"
+                  title={t('uploadPhotos') as string}
+                >
+                  <ImagePlus className="h-3.5 w-3.5" />
+                </button>
+              )}
               
               {/* Debug dialogs - currently visible to all users.
                   TODO: gate behind useIsAdmin() once admin-role infrastructure
@@ -1403,7 +1562,23 @@ const TimelineStoryPage = () => {
         <div className="container mx-auto px-4 sm:px-6 lg:px-8">
           {/* Timeline events - leave right margin for sidebar on desktop */}
           <div className="lg:mr-[22%] overflow-hidden bg-transparent">
-            {events.map((event, index) => {
+            {isEditing && (
+              <TimelineEditor
+                events={events}
+                defaultYear={events[0]?.year ?? formData?.birthDate?.year ?? formData?.yearRange?.startYear ?? new Date().getFullYear()}
+                onChange={handleEditEvents}
+              />
+            )}
+
+            {!isEditing && !isLoading && formData?.type === 'birthdate' && formData.birthDate && events.length > 0 && (
+              <BirthdayNumberOneCard
+                birthDate={formData.birthDate}
+                city={formData.optionalData?.city}
+                countryCode={cityPlace?.countryCode}
+              />
+            )}
+
+            {!isEditing && events.map((event, index) => {
               const LayoutPattern = getLayoutPattern(index);
               const imageUrl = getEventImageUrl(event);
 
@@ -1413,9 +1588,26 @@ const TimelineStoryPage = () => {
                   ref={(el) => {
                     if (el) eventRefs.current.set(event.id, el);
                   }}
-                  className="last:border-0 mb-8 lg:mb-16"
+                  className="relative group/event last:border-0 mb-8 lg:mb-16"
                 >
-                  <LayoutPattern event={event} theme={theme} imageUrl={imageUrl} onBlacklistImage={handleBlacklistImage} />
+                  {metYear && index === metYearIndex && <MetYearAnchor year={metYear} people={sharedPeople} />}
+                  {sharedPeople.length > 0 && <SharedYearsTrack event={event} people={sharedPeople} />}
+                  <div className={regeneratingIds.has(event.id) ? 'opacity-40 pointer-events-none transition-opacity' : 'transition-opacity'}>
+                    <LayoutPattern event={event} theme={theme} imageUrl={imageUrl} onBlacklistImage={handleBlacklistImage} onChooseImage={handleChooseImage} />
+                  </div>
+                  {!isLoading && (
+                    <button
+                      onClick={() => handleRegenerateEvent(event.id)}
+                      disabled={regeneratingIds.has(event.id)}
+                      className="absolute top-2 right-2 z-20 w-8 h-8 rounded-full bg-background/80 hover:bg-background text-muted-foreground hover:text-foreground border border-border flex items-center justify-center transition-all duration-200 opacity-0 group-hover/event:opacity-100 focus:opacity-100 backdrop-blur-sm disabled:opacity-100"
+                      title={t('regenerateEventTooltip') as string}
+                      aria-label={t('regenerateEventAriaLabel') as string}
+                    >
+                      {regeneratingIds.has(event.id)
+                        ? <Loader2 className="h-4 w-4 animate-spin" />
+                        : <Shuffle className="h-4 w-4" />}
+                    </button>
+                  )}
                 </div>
               );
             })}
@@ -1448,6 +1640,8 @@ const TimelineStoryPage = () => {
                   formData.yearRange?.endYear
                     || (events.length > 0 ? Math.max(...events.map(e => e.year)) : new Date().getFullYear())
                 }
+                city={formData.optionalData?.city}
+                countryCode={cityPlace?.countryCode}
               />
             </div>
           </div>
@@ -1471,6 +1665,13 @@ const TimelineStoryPage = () => {
         discoverParams.set('start', String(start));
         discoverParams.set('end', String(end));
         if (city) discoverParams.set('city', String(city));
+        if (cityPlace) {
+          discoverParams.set('country', cityPlace.countryCode);
+          if (cityPlace.regionCode) discoverParams.set('region', cityPlace.regionCode);
+          // Coordinates place Berlin on the right side of the Wall
+          discoverParams.set('lat', String(cityPlace.lat));
+          discoverParams.set('lng', String(cityPlace.lng));
+        }
         return (
           <div className="container mx-auto px-4 sm:px-6 lg:px-8">
             <StoryEndDiscover
@@ -1490,13 +1691,7 @@ const TimelineStoryPage = () => {
                       summary: storyIntroduction || '',
                       storyTitle,
                       storyIntroduction,
-                      labels: {
-                        defaultFirstName: t('pdfDefaultFirstName') as string,
-                        defaultStoryName: t('pdfDefaultStoryName') as string,
-                        titleFallback: t('pdfTitleFallback') as string,
-                        albumFooter: t('pdfAlbumFooter') as string,
-                        albumFileSuffix: t('pdfAlbumFileSuffix') as string,
-                      },
+                      language,
                     });
                   } catch (err) {
                     toast({ title: t('pdfGenerationFailed') as string, variant: 'destructive' });
@@ -1539,6 +1734,13 @@ const TimelineStoryPage = () => {
       </AnimatePresence>
 
       {/* Video Dialog */}
+      <PhotoUploadDialog
+        open={isPhotoUploadOpen}
+        onOpenChange={setIsPhotoUploadOpen}
+        events={events}
+        onApply={handleEditEvents}
+      />
+
       <VideoDialog
         open={isVideoDialogOpen}
         onOpenChange={setIsVideoDialogOpen}
@@ -42,42 +42,59 @@ const TvFilmOverviewPage = () => {
   const { toast } = useToast();
   const { user } = useAuth();
   const { t, language } = useLanguage();
-  const tStr = (k: Parameters<typeof t>[0], vars?: Record<string, string | number>) => {
-    let s = t(k) as string;
-    if (vars) for (const [key, val] of Object.entries(vars)) s = s.replace(`{${key}}`, String(val));
-    return s;
-  };
 
   const startYear = parseInt(searchParams.get('start') || '1980', 10);
   const endYear = parseInt(searchParams.get('end') || String(new Date().getFullYear()), 10);
   const city = searchParams.get('city') || '';
+  // Set when the user picked the city from the gazetteer (ISO code + admin1 code)
+  const countryCode = searchParams.get('country') || undefined;
+  const regionCode = searchParams.get('region') || undefined;
+  const lat = searchParams.get('lat') ? Number(searchParams.get('lat')) : undefined;
+  const lng = searchParams.get('lng') ? Number(searchParams.get('lng')) : undefined;
 
-  const cached = useMemo(
-    () => readOverviewCache<{ items: ResolvedItem[]; country: string | null }>(
-      'tvfilm-overview', startYear, endYear, city, language
-    ),
-    [startYear, endYear, city, language]
-  );
-
-  const [resolvedItems, setResolvedItems] = useState<ResolvedItem[]>(cached?.items || []);
+  const [resolvedItems, setResolvedItems] = useState<ResolvedItem[]>([]);
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
   const [savedItems, setSavedItems] = useState<Set<string>>(new Set());
   const [activeVideoId, setActiveVideoId] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(!cached);
-  const [loadedCount, setLoadedCount] = useState(cached ? cached.items.length : 0);
-  const [country, setCountry] = useState<string | null>(cached?.country || null);
-  const hasCache = !!cached;
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadedCount, setLoadedCount] = useState(0);
+  const [country, setCountry] = useState<string | null>(null);
+  // The library lookup is async: fetching only starts once it reported a miss
+  const [cacheStatus, setCacheStatus] = useState<'checking' | 'hit' | 'miss'>('checking');
+
+  // Try to hydrate from the timeline library before fetching anything
+  useEffect(() => {
+    let cancelled = false;
+    setCacheStatus('checking');
+
+    readOverviewCache<{ items: ResolvedItem[]; country: string | null }>(
+      'tvfilm-overview', startYear, endYear, city, language
+    ).then((cached) => {
+      if (cancelled) return;
+      if (cached) {
+        setResolvedItems(cached.items);
+        setLoadedCount(cached.items.length);
+        setCountry(cached.country || null);
+        setIsLoading(false);
+        setCacheStatus('hit');
+      } else {
+        setCacheStatus('miss');
+      }
+    });
+
+    return () => { cancelled = true; };
+  }, [startYear, endYear, city, language]);
 
   // Fetch TV/films from AI
   useEffect(() => {
-    if (hasCache) return;
+    if (cacheStatus !== 'miss') return;
     let cancelled = false;
 
     const fetchItems = async () => {
       setIsLoading(true);
       try {
         const { data, error } = await supabase.functions.invoke('generate-tv-films', {
-          body: { startYear, endYear, city, language }
+          body: { startYear, endYear, city, countryCode, regionCode, lat, lng, language }
         });
 
         if (cancelled || error || !data?.items) {
@@ -170,9 +187,7 @@ const TvFilmOverviewPage = () => {
         );
 
         if (!cancelled && errorCount > 0) {
-          const description = (t('youtubeFailedSummary') as string)
-            .replace('{count}', String(errorCount))
-            .replace('{total}', String(allItems.length));
+          const description = t('youtubeFailedSummary', { count: errorCount, total: allItems.length });
           toast({
             variant: 'destructive',
             title: t('errorLabel') as string,
@@ -195,11 +210,11 @@ const TvFilmOverviewPage = () => {
 
     fetchItems();
     return () => { cancelled = true; };
-  }, [startYear, endYear, city, hasCache]);
+  }, [startYear, endYear, city, countryCode, regionCode, lat, lng, cacheStatus]);
 
   // Persist to cache once fully loaded
   useEffect(() => {
-    if (hasCache) return;
+    if (cacheStatus !== 'miss') return;
     if (isLoading) return;
     if (resolvedItems.length === 0) return;
     if (resolvedItems.some(ri => ri.loading)) return;
@@ -207,7 +222,7 @@ const TvFilmOverviewPage = () => {
       items: resolvedItems,
       country,
     });
-  }, [hasCache, isLoading, resolvedItems, startYear, endYear, city, language, country]);
+  }, [cacheStatus, isLoading, resolvedItems, startYear, endYear, city, language, country]);
 
   // Group by year
   const itemsByYear = useMemo(() => {
@@ -244,11 +259,11 @@ const TvFilmOverviewPage = () => {
       });
       if (error) throw error;
       setSavedItems(prev => new Set(prev).add(key));
-      toast({ title: t('savedToast') as string, description: tStr('savedDescriptionItem', { title: ri.item.title }) });
+      toast({ title: t('savedToast') as string, description: t('savedDescriptionItem', { title: ri.item.title }) });
     } catch (err: any) {
       toast({ title: t('errorLabel') as string, description: err.message, variant: 'destructive' });
     }
-  }, [user, savedItems, toast, t, tStr]);
+  }, [user, savedItems, toast, t]);
 
   const totalItems = resolvedItems.length;
 
@@ -278,10 +293,10 @@ const TvFilmOverviewPage = () => {
       navigator.clipboard.writeText(links);
       toast({
         title: t('linksCopiedTitle') as string,
-        description: tStr('youtubeLinksCopiedDesc', { count: videoIds.length })
+        description: t('youtubeLinksCopiedDesc', { count: videoIds.length })
       });
     }
-  }, [toast, t, tStr]);
+  }, [toast, t]);
 
   return (
     <div className="min-h-screen bg-background text-foreground overflow-x-hidden">
@@ -328,8 +343,8 @@ const TvFilmOverviewPage = () => {
             <Loader2 className="h-4 w-4 animate-spin" />
             <span className="font-mono text-xs">
               {loadedCount === 0
-                ? tStr('loadingTvFilms', { city: city ? ` ${city}` : '' })
-                : tStr('trailersSearched', { loaded: loadedCount, total: totalItems })
+                ? t('loadingTvFilms', { city: city ? ` ${city}` : '' })
+                : t('trailersSearched', { loaded: loadedCount, total: totalItems })
               }
             </span>
           </div>
@@ -519,7 +534,7 @@ const TvFilmOverviewPage = () => {
           >
             <h2 className="font-serif text-2xl font-bold mb-2">{t('yourTvFilmOverviewTitle') as string}</h2>
             <p className="text-sm text-muted-foreground">
-              {tStr('titlesFoundFavorites', { count: resolvedItems.length, fav: favorites.size })}
+              {t('titlesFoundFavorites', { count: resolvedItems.length, fav: favorites.size })}
               {country && ` • ${country}`}
             </p>
 
@@ -530,7 +545,7 @@ const TvFilmOverviewPage = () => {
                 disabled={allVideoIds.length === 0}
               >
                 <ListVideo className="h-4 w-4" />
-                {tStr('trailersAllPlay', { count: allVideoIds.length })}
+                {t('trailersAllPlay', { count: allVideoIds.length })}
               </Button>
 
               {favorites.size > 0 && (
@@ -541,7 +556,7 @@ const TvFilmOverviewPage = () => {
                   disabled={favoriteVideoIds.length === 0}
                 >
                   <Heart className="h-4 w-4 fill-current" />
-                  {tStr('trailersFavoritesPlay', { count: favoriteVideoIds.length })}
+                  {t('trailersFavoritesPlay', { count: favoriteVideoIds.length })}
                 </Button>
               )}
             </div>
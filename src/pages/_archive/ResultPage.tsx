@@ -13,7 +13,7 @@ import { useClientImageSearch } from '@/hooks/useClientImageSearch';
 import { generateTimelinePdf } from '@/lib/pdfGenerator';
 import { generatePolaroidPdf } from '@/lib/pdfGeneratorPolaroid';
 import { generateStoryBookPdf } from '@/lib/pdfStoryBookGenerator';
-import { getCachedTimeline, cacheTimeline, updateCachedEvents, getCacheKey } from '@/lib/timelineCache';
+import { getCachedTimeline, cacheTimeline, updateCachedEvents, removeCachedTimeline } from '@/lib/timelineCache';
 import { generateTikTokSlides, shareGeneratedFiles, canShareToTikTok } from '@/lib/tiktokGenerator';
 import { downloadPolaroidCollage } from '@/lib/collageGenerator';
 import { ArrowLeft, Clock, Loader2, AlertCircle, RefreshCw, Cake, Star, Download, Camera, Share2, Check, Image, X, Bug, BookOpen } from 'lucide-react';
@@ -223,45 +223,46 @@ const ResultPage = () => {
       formDataRef.current = data;
 
       // Check cache first
-      const cached = getCachedTimeline(data, language);
-      if (cached) {
-        console.log('Using cached timeline');
-        // Ensure ref state is clean before (re)starting searches for cached events
-        resetImageSearch();
-        receivedEventsRef.current = [];
+      getCachedTimeline(data, language).then((cached) => {
+        if (cached) {
+          console.log('Using cached timeline');
+          // Ensure ref state is clean before (re)starting searches for cached events
+          resetImageSearch();
+          receivedEventsRef.current = [];
         
-        const normalizedCachedEvents = cached.events.map((e) => {
-          if (e.imageSearchQuery && (e.imageStatus === 'none' || e.imageStatus === 'error' || !e.imageUrl)) {
-            return { ...e, imageStatus: 'loading' as const, imageUrl: undefined };
-          }
-          if (!e.imageSearchQuery && (e.imageStatus === 'none' || e.imageStatus === 'error')) {
-            return { ...e, imageStatus: 'idle' as const };
-          }
-          return e;
-        });
+          const normalizedCachedEvents = cached.events.map((e) => {
+            if (e.imageSearchQuery && (e.imageStatus === 'none' || e.imageStatus === 'error' || !e.imageUrl)) {
+              return { ...e, imageStatus: 'loading' as const, imageUrl: undefined };
+            }
+            if (!e.imageSearchQuery && (e.imageStatus === 'none' || e.imageStatus === 'error')) {
+              return { ...e, imageStatus: 'idle' as const };
+            }
+            return e;
+          });
 
-        // Initialize the ref with normalized events so handleImageFound can update them
-        receivedEventsRef.current = normalizedCachedEvents;
+          // Initialize the ref with normalized events so handleImageFound can update them
+          receivedEventsRef.current = normalizedCachedEvents;
         
-        setEvents(normalizedCachedEvents);
-        setSummary(cached.summary);
-        setFamousBirthdays(cached.famousBirthdays);
-        setIsLoading(false);
-
-        // Reload images using client-side search
-        const needImages = normalizedCachedEvents.filter(e => 
-          e.imageSearchQuery && (!e.imageUrl || e.imageStatus === 'loading')
-        );
-        if (needImages.length > 0) {
-          console.log('Refetching images client-side for', needImages.length, 'events');
-          addImagesToQueue(needImages);
+          setEvents(normalizedCachedEvents);
+          setSummary(cached.summary);
+          setFamousBirthdays(cached.famousBirthdays);
+          setIsLoading(false);
+
+          // Reload images using client-side search
+          const needImages = normalizedCachedEvents.filter(e => 
+            e.imageSearchQuery && (!e.imageUrl || e.imageStatus === 'loading')
+          );
+          if (needImages.length > 0) {
+            console.log('Refetching images client-side for', needImages.length, 'events');
+            addImagesToQueue(needImages);
+          }
+          return;
         }
-        return;
-      }
 
-      const maxEvents = storedLength === 'short' ? 20 : undefined;
-      setCurrentMaxEvents(maxEvents);
-      loadTimelineStreaming(data, maxEvents);
+        const maxEvents = storedLength === 'short' ? 20 : undefined;
+        setCurrentMaxEvents(maxEvents);
+        loadTimelineStreaming(data, maxEvents);
+      });
     } else {
       setError(t('noDataFound') as string);
       setIsLoading(false);
@@ -395,7 +396,8 @@ const ResultPage = () => {
         events,
         famousBirthdays,
         formData,
-        summary
+        summary,
+        language
       }, (progress) => {
         setPdfProgress(progress);
       });
@@ -428,7 +430,8 @@ const ResultPage = () => {
         events,
         famousBirthdays,
         formData,
-        summary
+        summary,
+        language
       }, (progress) => {
         setPolaroidPdfProgress(progress);
       });
@@ -458,7 +461,7 @@ const ResultPage = () => {
     setStoryBookPdfProgress(0);
     
     // Get story metadata from cache
-    const cached = getCachedTimeline(formData, language);
+    const cached = await getCachedTimeline(formData, language);
     
     try {
       await generateStoryBookPdf({
@@ -468,6 +471,7 @@ const ResultPage = () => {
         summary,
         storyTitle: cached?.storyTitle,
         storyIntroduction: cached?.storyIntroduction,
+        language,
       }, (progress) => {
         setStoryBookPdfProgress(progress);
       });
@@ -638,8 +642,7 @@ const ResultPage = () => {
   
   const handleClearCache = () => {
     if (formData) {
-      const key = getCacheKey(formData, language);
-      sessionStorage.removeItem(key);
+      removeCachedTimeline(formData, language);
       // Reset all state
       const storedLength = sessionStorage.getItem('timelineLength') || 'short';
       const maxEvents = storedLength === 'short' ? 20 : undefined;
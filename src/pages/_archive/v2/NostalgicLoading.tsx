@@ -22,18 +22,18 @@ export const NostalgicLoading = ({ year }: NostalgicLoadingProps) => {
       return [
         t('loadingCassette') as string,
         t('loadingVHS') as string,
-        (t('loadingHitsOf') as string).replace('{year}', String(year)),
+        t('loadingHitsOf', { year }),
       ];
     }
     if (year < 2000) {
       return [
         t('loadingDialUp') as string,
         t('loadingWindows') as string,
-        (t('loadingBackTo') as string).replace('{year}', String(year)),
+        t('loadingBackTo', { year }),
       ];
     }
     return [
-      (t('loadingSearchArchives') as string).replace('{year}', String(year)),
+      t('loadingSearchArchives', { year }),
       t('loadingCollectMemories') as string,
       t('loadingPrepareJourney') as string,
     ];
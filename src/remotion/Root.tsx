@@ -0,0 +1,80 @@
+/**
+ * Remotion entry point for server-side rendering (see render-service/).
+ *
+ * The browser never loads this file — it plays the compositions through
+ * @remotion/player. The render worker bundles it and renders the "SavedStory"
+ * composition with a saved_stories row as input props.
+ */
+import React from 'react';
+import { Composition, continueRender, delayRender, registerRoot } from 'remotion';
+import type { StoryContent, StorySettings } from '@/hooks/useSaveStory';
+import {
+  SAVED_STORY_COMPOSITION_ID,
+  SAVED_STORY_FPS,
+  buildSavedStoryVideoProps,
+  calculateSavedStoryDuration,
+  getSavedStoryComponent,
+  getSavedStoryDimensions,
+} from './savedStory';
+
+// The app loads these through index.css; the render bundle has no Tailwind/PostCSS
+// step, so link the same Google Fonts directly and hold the first frame until they load.
+const FONT_STYLESHEETS = [
+  'https://fonts.googleapis.com/css2?family=Playfair+Display:ital,wght@0,400;0,500;0,600;0,700;1,400;1,500&family=Source+Sans+3:ital,wght@0,300;0,400;0,500;0,600;1,400&family=Caveat:wght@400;500;600;700&display=swap',
+  'https://fonts.googleapis.com/css2?family=Anton&family=Abril+Fatface&family=VT323&family=Courier+Prime:wght@400;700&family=Permanent+Marker&family=Orbitron:wght@400;500;600;700;800;900&display=swap',
+];
+
+const fontHandle = delayRender('Loading fonts');
+Promise.all(
+  FONT_STYLESHEETS.map(
+    (href) =>
+      new Promise<void>((resolve) => {
+        const link = document.createElement('link');
+        link.rel = 'stylesheet';
+        link.href = href;
+        link.onload = () => resolve();
+        link.onerror = () => resolve();
+        document.head.appendChild(link);
+      })
+  )
+)
+  .then(() => document.fonts.ready)
+  .finally(() => continueRender(fontHandle));
+
+type SavedStoryVideoProps = {
+  content: StoryContent;
+  settings: StorySettings;
+};
+
+const SavedStoryVideo: React.FC<SavedStoryVideoProps> = ({ content, settings }) => {
+  const VideoComponent = getSavedStoryComponent(settings);
+  return <VideoComponent {...buildSavedStoryVideoProps(content, settings)} />;
+};
+
+export const RemotionRoot: React.FC = () => (
+  <Composition
+    id={SAVED_STORY_COMPOSITION_ID}
+    component={SavedStoryVideo}
+    width={1920}
+    height={1080}
+    fps={SAVED_STORY_FPS}
+    durationInFrames={300}
+    defaultProps={{
+      content: { events: [] },
+      settings: {
+        variant: 'slideshow',
+        fps: SAVED_STORY_FPS,
+        enableVhsEffect: false,
+        retroIntensity: 0.85,
+        voiceProvider: 'google',
+        isMusicVideo: false,
+      },
+    }}
+    calculateMetadata={({ props }) => ({
+      durationInFrames: calculateSavedStoryDuration(props.content, props.settings),
+      ...getSavedStoryDimensions(props.settings),
+    })}
+  />
+);
+
+registerRoot(RemotionRoot);
@@ -5,9 +5,11 @@ import { ScrapbookLayout, calculateCardPositions } from './components/ScrapbookL
 import { CameraPan } from './components/CameraPan';
 import { IntroCard } from './components/IntroCard';
 import { RetroWrapper } from './components/RetroWrapper';
+import { CaptionOverlay } from './components/CaptionOverlay';
+import { CreditsCard } from './components/CreditsCard';
+import { J_CUT_FRAMES, getCreditsFrames } from './lib/timing';
+import { getCaptionCues } from './lib/captions';
 
-// J-cut offset: audio starts before visual transition (frames)
-const J_CUT_FRAMES = 15; // 0.5 seconds at 30fps
 const SOUND_EFFECT_DELAY_FRAMES = 45; // 1.5 seconds delay for sound effects
 
 /**
@@ -48,8 +50,10 @@ export const ScrapbookVideoComponent: React.FC<TimelineVideoProps> = ({
   retroIntensity = 0.85,
   externalAudioUrl,
   externalAudioDuration,
+  showCaptions = false,
   introReadyTitle,
   introReadyHint,
+  creditsTitle,
 }) => {
   const { durationInFrames } = useVideoConfig();
 
@@ -89,6 +93,10 @@ export const ScrapbookVideoComponent: React.FC<TimelineVideoProps> = ({
   const isMusicVideoMode = !!externalAudioUrl && !!externalAudioDuration;
   const totalMusicFrames = isMusicVideoMode ? Math.round(externalAudioDuration * fps) : 0;
 
+  // The credits end card follows the pan; in music video mode it covers the song's last seconds
+  const creditsFrames = getCreditsFrames(events);
+  const panFrames = durationInFrames - introDurationFrames - (isMusicVideoMode ? 0 : creditsFrames);
+
   // Build audio sequences with J-cut timing
   const audioSequences: React.ReactNode[] = [];
   let audioFrame = isMusicVideoMode ? 0 : introDurationFrames;
@@ -162,7 +170,7 @@ export const ScrapbookVideoComponent: React.FC<TimelineVideoProps> = ({
       )}
 
       {/* Scrapbook camera pan - starts after intro */}
-      <Sequence from={introDurationFrames} durationInFrames={durationInFrames - introDurationFrames}>
+      <Sequence from={introDurationFrames} durationInFrames={panFrames}>
         <CameraPan
           events={events}
           cardPositions={cardPositions}
@@ -177,13 +185,26 @@ export const ScrapbookVideoComponent: React.FC<TimelineVideoProps> = ({
           />
         </CameraPan>
       </Sequence>
+
+      {creditsFrames > 0 && (
+        <Sequence from={durationInFrames - creditsFrames} durationInFrames={creditsFrames}>
+          <CreditsCard events={events} title={creditsTitle} />
+        </Sequence>
+      )}
     </AbsoluteFill>
   );
 
+  const captionCues = showCaptions
+    ? getCaptionCues('scrapbook', {
+        events, storyTitle, storyIntroduction, introAudioUrl, introDurationFrames, fps, externalAudioUrl, externalAudioDuration,
+      })
+    : [];
+
   return (
     <>
       {wrapContent(mainContent, events[0]?.date)}
       {audioSequences}
+      {showCaptions && <CaptionOverlay cues={captionCues} />}
     </>
   );
 };
@@ -202,7 +223,7 @@ export const calculateScrapbookDuration = (
     total += event.audioDurationFrames || Math.round(5 * fps);
   });
 
-  return total;
+  return total + getCreditsFrames(events);
 };
 
 export { ScrapbookVideoComponent as ScrapbookVideo };
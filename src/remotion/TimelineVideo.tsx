@@ -7,14 +7,15 @@ import { IntroCard } from './components/IntroCard';
 import { RetroWrapper } from './components/RetroWrapper';
 import { TimeTunnel } from './components/TimeTunnel';
 import { AudioVisualizer } from './components/AudioVisualizer';
+import { CaptionOverlay } from './components/CaptionOverlay';
+import { CreditsCard } from './components/CreditsCard';
 import { getEventImageUrl } from './utils/placeholders';
 import { getThemeForYear } from './themes';
+import { CREDITS_FRAMES, OVERLAP_FRAMES, getCreditsFrames } from './lib/timing';
+import { getCaptionCues } from './lib/captions';
 
 const SOUND_EFFECT_DELAY_FRAMES = 60; // 2 seconds delay at 30fps
 
-// Overlap: fixed 40 frames (~1.3s at 30fps) for fly-through tunnel effect
-const OVERLAP_FRAMES = 40;
-
 /**
  * Fly-Through Timeline Video.
  * 
@@ -34,8 +35,10 @@ export const TimelineVideoComponent: React.FC<TimelineVideoProps> = ({
   retroIntensity = 1,
   externalAudioUrl,
   externalAudioDuration,
+  showCaptions = false,
   introReadyTitle,
   introReadyHint,
+  creditsTitle,
 }) => {
   const sequences: React.ReactNode[] = [];
 
@@ -91,6 +94,9 @@ export const TimelineVideoComponent: React.FC<TimelineVideoProps> = ({
     }
   });
 
+  const creditsFrames = getCreditsFrames(events);
+  totalFrames += creditsFrames;
+
   // Fallback for music mode total
   const videoDuration = isMusicVideoMode ? totalMusicFrames : totalFrames;
 
@@ -185,6 +191,27 @@ export const TimelineVideoComponent: React.FC<TimelineVideoProps> = ({
     currentFrame += eventDuration;
   });
 
+  // === IMAGE CREDITS (end card; over the song's last seconds in music video mode) ===
+  if (creditsFrames > 0) {
+    sequences.push(
+      <Sequence
+        key="credits"
+        from={isMusicVideoMode ? Math.max(0, totalMusicFrames - CREDITS_FRAMES) : currentFrame}
+        durationInFrames={creditsFrames}
+      >
+        {wrapContent(<CreditsCard events={events} title={creditsTitle} theme={introTheme} />)}
+      </Sequence>
+    );
+  }
+
+  // === CAPTIONS (on top of everything, outside the retro wrapper) ===
+  if (showCaptions) {
+    const cues = getCaptionCues('slideshow', {
+      events, storyTitle, storyIntroduction, introAudioUrl, introDurationFrames, fps, externalAudioUrl, externalAudioDuration,
+    });
+    sequences.push(<CaptionOverlay key="captions" cues={cues} />);
+  }
+
   return <>{sequences}</>;
 };
 
@@ -213,7 +240,7 @@ export const calculateTotalDuration = (
     }
   });
 
-  return total;
+  return total + getCreditsFrames(events);
 };
 
 export { TimelineVideoComponent as TimelineVideo };
@@ -0,0 +1,121 @@
+import React from 'react';
+import { Sequence, Audio } from 'remotion';
+import { TimelineVideoProps, VideoEvent } from './types';
+import { IntroCard } from './components/IntroCard';
+import { RetroWrapper } from './components/RetroWrapper';
+import { VerticalHighlightCard } from './components/VerticalHighlightCard';
+import { AudioVisualizer } from './components/AudioVisualizer';
+import { CreditsCard } from './components/CreditsCard';
+import { getEventImageUrl } from './utils/placeholders';
+import { getThemeForYear } from './themes';
+import { getNarrationText, splitIntoPhrases } from './lib/captions';
+import { CREDITS_FRAMES, getCreditsFrames, getVerticalHighlights } from './lib/timing';
+import { getVerticalCuts, getVerticalIntroFrames } from './lib/vertical';
+
+/**
+ * Vertical 9:16 short for Reels/TikTok.
+ *
+ * Only the highlights (see selectHighlightEvents) make it in, one full-screen
+ * card each with a big year counter and captions burned in from the same text
+ * the narration speaks.
+ */
+export const VerticalVideoComponent: React.FC<TimelineVideoProps> = ({
+  events,
+  storyTitle,
+  storyIntroduction,
+  introAudioUrl,
+  introDurationFrames,
+  fps,
+  enableRetroEffect = false,
+  retroIntensity = 1,
+  externalAudioUrl,
+  externalAudioDuration,
+  externalAudioBpm,
+  introReadyTitle,
+  introReadyHint,
+  creditsTitle,
+}) => {
+  const sequences: React.ReactNode[] = [];
+
+  const wrapContent = (content: React.ReactNode, date?: string) => {
+    if (enableRetroEffect) {
+      return (
+        <RetroWrapper intensity={retroIntensity} enableGlitches={true} date={date} showCamcorderOverlay={!!date}>
+          {content}
+        </RetroWrapper>
+      );
+    }
+    return content;
+  };
+
+  const isMusicVideoMode = !!externalAudioUrl && !!externalAudioDuration;
+  const totalMusicFrames = isMusicVideoMode ? Math.round(externalAudioDuration * fps) : 0;
+  const introFrames = storyTitle ? getVerticalIntroFrames(introDurationFrames, fps, externalAudioBpm, isMusicVideoMode) : 0;
+
+  const highlights = getVerticalHighlights(events);
+  const cuts = getVerticalCuts(highlights, introFrames, fps, totalMusicFrames, externalAudioBpm);
+  const introTheme = highlights.length > 0 ? getThemeForYear(highlights[0].year) : undefined;
+
+  // === INTRO (hook) ===
+  if (introFrames > 0) {
+    sequences.push(
+      <Sequence key="intro" from={0} durationInFrames={introFrames}>
+        {wrapContent(<IntroCard storyTitle={storyTitle} storyIntroduction={storyIntroduction} theme={introTheme} readyTitle={introReadyTitle} readyHint={introReadyHint} />)}
+        {!isMusicVideoMode && introAudioUrl && <Audio src={introAudioUrl} />}
+      </Sequence>
+    );
+  }
+
+  // === EXTERNAL AUDIO + VISUALIZER (music video mode) ===
+  if (isMusicVideoMode && externalAudioUrl) {
+    sequences.push(
+      <Sequence key="external-audio" from={0} durationInFrames={totalMusicFrames}>
+        <Audio src={externalAudioUrl} />
+      </Sequence>
+    );
+    sequences.push(
+      <Sequence key="audio-visualizer" from={0} durationInFrames={totalMusicFrames}>
+        <AudioVisualizer theme={introTheme} maxHeight={120} />
+      </Sequence>
+    );
+  }
+
+  // === HIGHLIGHT CUTS ===
+  cuts.forEach(({ event, from, duration }, index) => {
+    sequences.push(
+      <Sequence key={`highlight-${event.id}`} from={from} durationInFrames={duration}>
+        {wrapContent(
+          <VerticalHighlightCard
+            event={event}
+            imageUrl={getEventImageUrl(event)}
+            eventIndex={index}
+            fromYear={index > 0 ? cuts[index - 1].event.year : event.year}
+            captions={splitIntoPhrases(getNarrationText(event), 5)}
+            theme={getThemeForYear(event.year)}
+          />,
+          event.date
+        )}
+        {!isMusicVideoMode && event.audioUrl && <Audio src={event.audioUrl} />}
+      </Sequence>
+    );
+  });
+
+  // === IMAGE CREDITS (end card; over the song's last seconds in music video mode) ===
+  const creditsFrames = getCreditsFrames(highlights);
+  if (creditsFrames > 0) {
+    const lastCut = cuts[cuts.length - 1];
+    sequences.push(
+      <Sequence
+        key="credits"
+        from={isMusicVideoMode ? Math.max(0, totalMusicFrames - CREDITS_FRAMES) : lastCut.from + lastCut.duration}
+        durationInFrames={creditsFrames}
+      >
+        {wrapContent(<CreditsCard events={highlights} title={creditsTitle} theme={introTheme} />)}
+      </Sequence>
+    );
+  }
+
+  return <>{sequences}</>;
+};
+
+export { VerticalVideoComponent as VerticalVideo };
@@ -0,0 +1,45 @@
+import React from 'react';
+import { AbsoluteFill, useCurrentFrame, useVideoConfig } from 'remotion';
+import { CaptionCue } from '../lib/captions';
+
+interface CaptionOverlayProps {
+  /** Cues in absolute composition frames - render this outside any Sequence */
+  cues: CaptionCue[];
+}
+
+/**
+ * Burned-in subtitles: the active narration phrase, bottom-centre, in plain
+ * high-contrast type so it stays legible over every era theme and VHS effect.
+ */
+export const CaptionOverlay: React.FC<CaptionOverlayProps> = ({ cues }) => {
+  const frame = useCurrentFrame();
+  const { width } = useVideoConfig();
+
+  const cue = cues.find((c) => frame >= c.startFrame && frame < c.endFrame);
+  if (!cue) return null;
+
+  // 54px on a 1920-wide frame; scales with the composition
+  const fontSize = Math.round(width * 0.028);
+
+  return (
+    <AbsoluteFill style={{ pointerEvents: 'none', zIndex: 100, justifyContent: 'flex-end', alignItems: 'center' }}>
+      <div
+        style={{
+          marginBottom: Math.round(fontSize * 2),
+          maxWidth: '80%',
+          padding: `${Math.round(fontSize * 0.25)}px ${Math.round(fontSize * 0.5)}px`,
+          backgroundColor: 'rgba(0, 0, 0, 0.75)',
+          borderRadius: Math.round(fontSize * 0.2),
+          color: '#ffffff',
+          fontFamily: "'Source Sans 3', 'Helvetica Neue', Arial, sans-serif",
+          fontSize,
+          fontWeight: 600,
+          lineHeight: 1.3,
+          textAlign: 'center',
+        }}
+      >
+        {cue.text}
+      </div>
+    </AbsoluteFill>
+  );
+};
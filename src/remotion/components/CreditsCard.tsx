@@ -0,0 +1,69 @@
+import React from 'react';
+import { AbsoluteFill, interpolate, useCurrentFrame, useVideoConfig } from 'remotion';
+import { EraTheme, TIMELINE_THEMES } from '../themes';
+import { VideoEvent } from '../types';
+import { formatImageCredit, getImageCredits } from '../../lib/imageCredits';
+
+interface CreditsCardProps {
+  events: VideoEvent[];
+  title?: string;
+  theme?: EraTheme;
+}
+
+/**
+ * End card crediting the found images: author and license per event, in the
+ * order they appeared. Long lists go into two columns.
+ */
+export const CreditsCard: React.FC<CreditsCardProps> = ({ events, title, theme }) => {
+  const frame = useCurrentFrame();
+  const { width, durationInFrames } = useVideoConfig();
+  const t = theme || TIMELINE_THEMES['default'];
+
+  const credits = getImageCredits(events);
+  const opacity = interpolate(frame, [0, 15, durationInFrames - 15, durationInFrames], [0, 1, 1, 0], {
+    extrapolateLeft: 'clamp',
+    extrapolateRight: 'clamp',
+  });
+
+  // 26px on a 1920-wide frame, smaller for long lists; scales with the composition
+  const fontSize = Math.round(width * (credits.length > 10 ? 0.011 : 0.0135));
+
+  return (
+    <AbsoluteFill style={{
+      backgroundColor: t.colors.background,
+      display: 'flex',
+      flexDirection: 'column',
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: Math.round(width * 0.05),
+      opacity,
+    }}>
+      <div style={{
+        fontFamily: t.fonts.heading,
+        fontSize: fontSize * 2,
+        fontWeight: 700,
+        color: t.colors.text,
+        marginBottom: fontSize * 1.5,
+      }}>
+        {title || 'Beeldverantwoording'}
+      </div>
+      <div style={{
+        fontFamily: t.fonts.body,
+        fontSize,
+        lineHeight: 1.5,
+        color: `${t.colors.text}cc`,
+        columnCount: credits.length > 10 ? 2 : 1,
+        columnGap: fontSize * 3,
+        maxWidth: '100%',
+      }}>
+        {credits.map(({ event, credit }) => (
+          <div key={event.id} style={{ breakInside: 'avoid', marginBottom: fontSize * 0.4 }}>
+            <span style={{ fontWeight: 700 }}>{event.year} · {event.title}</span>
+            {': '}
+            {formatImageCredit(credit)}
+          </div>
+        ))}
+      </div>
+    </AbsoluteFill>
+  );
+};
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Img } from 'remotion';
 import { VideoEvent } from '../types';
+import { isUserPhoto } from '@/lib/photoUpload';
 
 interface ScrapbookCardProps {
   event: VideoEvent;
@@ -43,8 +44,9 @@ export const ScrapbookCard: React.FC<ScrapbookCardProps> = ({
     return dateStr;
   };
 
-  // Alternate between card styles
-  const layoutStyle = eventIndex % 2;
+  // Alternate between card styles; the family's own photos are always polaroids
+  const ownPhoto = isUserPhoto(event);
+  const layoutStyle = ownPhoto ? 0 : eventIndex % 2;
 
   if (layoutStyle === 0) {
     // Polaroid style
@@ -124,7 +126,7 @@ export const ScrapbookCard: React.FC<ScrapbookCardProps> = ({
             textTransform: 'uppercase',
           }}
         >
-          {event.category}
+          {ownPhoto ? event.year : event.category}
         </div>
       </div>
     );
@@ -0,0 +1,163 @@
+import React from 'react';
+import { AbsoluteFill, Img, interpolate, useCurrentFrame, useVideoConfig, spring } from 'remotion';
+import { VideoEvent } from '../types';
+import { EraTheme, TIMELINE_THEMES } from '../themes';
+import { KenBurns } from './KenBurns';
+
+interface VerticalHighlightCardProps {
+  event: VideoEvent;
+  imageUrl: string;
+  eventIndex: number;
+  /** Year the counter rolls up from (the previous highlight, or the same year for the first) */
+  fromYear: number;
+  /** Caption lines, shown one after another over the card's duration */
+  captions: string[];
+  theme?: EraTheme;
+}
+
+// Keep captions clear of the app UI that Reels/TikTok overlay at the bottom
+const CAPTION_BOTTOM_OFFSET = 380;
+
+/**
+ * Full-screen 9:16 highlight: photo with Ken Burns, a huge rolling year
+ * counter, the title, and burned-in captions from the narration.
+ *
+ * Each card starts on a cut (see VerticalVideo), so the counter and a short
+ * flash land on the beat.
+ */
+export const VerticalHighlightCard: React.FC<VerticalHighlightCardProps> = ({
+  event,
+  imageUrl,
+  eventIndex,
+  fromYear,
+  captions,
+  theme,
+}) => {
+  const frame = useCurrentFrame();
+  const { fps, durationInFrames } = useVideoConfig();
+  const t: EraTheme = theme || TIMELINE_THEMES['default'];
+
+  // === YEAR COUNTER === (rolls from the previous highlight's year in ~0.6s)
+  const counterFrames = Math.round(fps * 0.6);
+  const year = Math.round(
+    interpolate(frame, [0, counterFrames], [fromYear, event.year], { extrapolateRight: 'clamp' })
+  );
+  const yearSpring = spring({ frame, fps, config: { damping: 10, stiffness: 140 } });
+  const yearScale = interpolate(yearSpring, [0, 1], [1.4, 1]);
+
+  // === CUT FLASH ===
+  const flashOpacity = interpolate(frame, [0, 4], [0.6, 0], { extrapolateRight: 'clamp' });
+
+  // === TITLE ===
+  const titleSpring = spring({ frame, fps, config: { damping: 14, stiffness: 120 }, delay: counterFrames });
+  const titleY = interpolate(titleSpring, [0, 1], [60, 0]);
+  const titleOpacity = interpolate(titleSpring, [0, 1], [0, 1]);
+
+  // === CAPTIONS === (evenly spread over the card, after the counter has landed)
+  const captionStart = counterFrames;
+  const framesPerCaption = Math.max(1, (durationInFrames - captionStart) / Math.max(captions.length, 1));
+  const captionIndex = Math.min(
+    captions.length - 1,
+    Math.max(0, Math.floor((frame - captionStart) / framesPerCaption))
+  );
+  const captionLocalFrame = frame - captionStart - captionIndex * framesPerCaption;
+  const captionScale = interpolate(captionLocalFrame, [0, 5], [0.9, 1], { extrapolateLeft: 'clamp', extrapolateRight: 'clamp' });
+
+  const fadeOut = interpolate(frame, [durationInFrames - 6, durationInFrames], [1, 0], { extrapolateLeft: 'clamp' });
+
+  return (
+    <AbsoluteFill style={{ backgroundColor: t.colors.background, opacity: fadeOut }}>
+      {/* Photo */}
+      <AbsoluteFill>
+        <KenBurns step={eventIndex} intensity={1.2}>
+          <Img
+            src={imageUrl}
+            style={{ width: '100%', height: '100%', objectFit: 'cover', filter: t.filters.image }}
+          />
+        </KenBurns>
+      </AbsoluteFill>
+
+      {/* Legibility gradient: dark at the top (year) and bottom (captions) */}
+      <AbsoluteFill
+        style={{
+          background: 'linear-gradient(to bottom, rgba(0,0,0,0.75) 0%, rgba(0,0,0,0.1) 35%, rgba(0,0,0,0.1) 55%, rgba(0,0,0,0.85) 100%)',
+        }}
+      />
+
+      {/* Year counter + title */}
+      <div
+        style={{
+          position: 'absolute',
+          top: 180,
+          left: 60,
+          right: 60,
+          textAlign: 'center',
+        }}
+      >
+        <div
+          style={{
+            fontFamily: t.fonts.heading,
+            fontSize: 300,
+            fontWeight: 900,
+            lineHeight: 1,
+            color: t.colors.accent,
+            textShadow: `0 0 40px ${t.colors.accent}88, 0 8px 24px rgba(0,0,0,0.6)`,
+            transform: `scale(${yearScale})`,
+            fontVariantNumeric: 'tabular-nums',
+          }}
+        >
+          {year}
+        </div>
+        <div
+          style={{
+            marginTop: 32,
+            fontFamily: t.fonts.heading,
+            fontSize: 72,
+            fontWeight: 700,
+            lineHeight: 1.1,
+            color: '#ffffff',
+            textShadow: '0 4px 16px rgba(0,0,0,0.8)',
+            opacity: titleOpacity,
+            transform: `translateY(${titleY}px)`,
+          }}
+        >
+          {event.title}
+        </div>
+      </div>
+
+      {/* Burned-in captions */}
+      {captions.length > 0 && frame >= captionStart && (
+        <div
+          style={{
+            position: 'absolute',
+            bottom: CAPTION_BOTTOM_OFFSET,
+            left: 60,
+            right: 60,
+            display: 'flex',
+            justifyContent: 'center',
+          }}
+        >
+          <div
+            style={{
+              fontFamily: t.fonts.body,
+              fontSize: 64,
+              fontWeight: 800,
+              lineHeight: 1.2,
+              textAlign: 'center',
+              color: '#ffffff',
+              backgroundColor: 'rgba(0,0,0,0.65)',
+              borderRadius: 16,
+              padding: '16px 28px',
+              transform: `scale(${captionScale})`,
+            }}
+          >
+            {captions[captionIndex]}
+          </div>
+        </div>
+      )}
+
+      {/* Flash on the cut */}
+      <AbsoluteFill style={{ backgroundColor: '#ffffff', opacity: flashOpacity, pointerEvents: 'none' }} />
+    </AbsoluteFill>
+  );
+};
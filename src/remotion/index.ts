@@ -1,9 +1,12 @@
 // Remotion exports
 export { TimelineVideo, TimelineVideoComponent, calculateTotalDuration } from './TimelineVideo';
 export { ScrapbookVideo, ScrapbookVideoComponent, calculateScrapbookDuration } from './ScrapbookVideo';
+export { VerticalVideo, VerticalVideoComponent } from './VerticalVideo';
+export { calculateVerticalDuration, VERTICAL_WIDTH, VERTICAL_HEIGHT } from './lib/vertical';
 export { EventCard } from './components/EventCard';
 export { RetroCard } from './components/RetroCard';
 export { ScrapbookCard } from './components/ScrapbookCard';
+export { VerticalHighlightCard } from './components/VerticalHighlightCard';
 export { ScrapbookLayout } from './components/ScrapbookLayout';
 export { CameraPan } from './components/CameraPan';
 export { IntroCard } from './components/IntroCard';
@@ -13,5 +16,8 @@ export { KenBurns } from './components/KenBurns';
 export { CamcorderOverlay } from './components/CamcorderOverlay';
 export { AudioVisualizer } from './components/AudioVisualizer';
 export { TimeTunnel } from './components/TimeTunnel';
+export { CaptionOverlay } from './components/CaptionOverlay';
+export { getCaptionCues, cuesToWebVTT, cuesToSRT } from './lib/captions';
+export type { CaptionCue } from './lib/captions';
 export { getEventImageUrl, getCategoryPlaceholder } from './utils/placeholders';
 export type { TimelineVideoProps, VideoEvent, EventCardProps, AudioSegment } from './types';
@@ -24,3 +24,70 @@ export async function measureAudioDuration(base64Audio: string): Promise<number>
     return 0;
   }
 }
+
+// Tempo range a pop song's beat is looked for in; outside it the half or double tempo wins
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+// Onset envelope resolution (~11.6 ms frames) and how much of the song to analyse
+const ENVELOPE_RATE = 86;
+const ANALYSIS_SECONDS = 60;
+
+/**
+ * Estimates the tempo of mono samples: an onset envelope (rises in loudness
+ * per ~12 ms frame) is autocorrelated, and the strongest lag between
+ * MIN_BPM and MAX_BPM is the beat. Returns null when nothing repeats, e.g. in
+ * silence.
+ */
+export function estimateBpm(samples: Float32Array, sampleRate: number): number | null {
+  const hop = Math.max(1, Math.round(sampleRate / ENVELOPE_RATE));
+  const frameRate = sampleRate / hop;
+  const frames = Math.floor(samples.length / hop);
+  if (frames < 2) return null;
+
+  const energy = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (let i = f * hop; i < (f + 1) * hop; i++) sum += samples[i] * samples[i];
+    energy[f] = Math.sqrt(sum / hop);
+  }
+  const onsets = new Float32Array(frames);
+  for (let f = 1; f < frames; f++) onsets[f] = Math.max(0, energy[f] - energy[f - 1]);
+
+  const minLag = Math.floor((frameRate * 60) / MAX_BPM);
+  const maxLag = Math.ceil((frameRate * 60) / MIN_BPM);
+  let bestLag = 0;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag && lag < frames; lag++) {
+    let score = 0;
+    for (let f = lag; f < frames; f++) score += onsets[f] * onsets[f - lag];
+    score /= frames - lag;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+  if (!bestLag) return null;
+
+  return Math.round(((frameRate * 60) / bestLag) * 10) / 10;
+}
+
+/**
+ * Measures the tempo of a song (URL or data URI) in the browser, so the
+ * vertical short can cut on its beats. Null when it can't be loaded or has
+ * no clear beat; the video then falls back to DEFAULT_BPM.
+ */
+export async function measureAudioBpm(audioUrl: string): Promise<number | null> {
+  try {
+    const response = await fetch(audioUrl);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    const audioContext = new AudioContext();
+    const audioBuffer = await audioContext.decodeAudioData(await response.arrayBuffer());
+    await audioContext.close();
+
+    const samples = audioBuffer.getChannelData(0).subarray(0, ANALYSIS_SECONDS * audioBuffer.sampleRate);
+    return estimateBpm(samples, audioBuffer.sampleRate);
+  } catch (error) {
+    console.error('Failed to measure audio tempo:', error);
+    return null;
+  }
+}
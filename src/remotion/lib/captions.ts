@@ -0,0 +1,162 @@
+/**
+ * Captions for spoken-story videos.
+ *
+ * Timing comes from what the compositions already know: where each narration
+ * starts (see lib/timing) and how long it lasts (`audioDurationFrames`, the
+ * measured speech length plus a pause). Within one narration the text is cut
+ * into short phrases that get screen time in proportion to their length — a
+ * good approximation of speech without word-level timestamps from TTS.
+ *
+ * The same cues drive the burned-in overlay (CaptionOverlay) and the WebVTT/SRT
+ * sidecar files, in the browser and in the render service.
+ */
+import type { TimelineVideoProps, VideoEvent } from '../types';
+import type { StorySettings } from '@/hooks/useSaveStory';
+import { buildNarrationText } from './narration';
+import {
+  INTER_EVENT_PAUSE_FRAMES,
+  J_CUT_FRAMES,
+  OVERLAP_FRAMES,
+  getEventDurationFrames,
+  getVerticalHighlights,
+} from './timing';
+
+export interface CaptionCue {
+  startFrame: number;
+  endFrame: number;
+  text: string;
+}
+
+interface NarrationSegment {
+  text: string;
+  from: number;
+  durationInFrames: number;
+}
+
+const MAX_PHRASE_WORDS = 7;
+
+/** The text that was actually spoken for an event. */
+export const getNarrationText = (event: VideoEvent): string =>
+  event.narrationText || buildNarrationText(event);
+
+/** Frames of actual speech, without the pause VideoDialog appends after each narration. */
+const getSpeechFrames = (event: VideoEvent, fps: number): number => {
+  const duration = getEventDurationFrames(event, fps);
+  return duration > INTER_EVENT_PAUSE_FRAMES * 2 ? duration - INTER_EVENT_PAUSE_FRAMES : duration;
+};
+
+/**
+ * Where each narration plays in the given variant. Mirrors the audio placement
+ * in TimelineVideo, ScrapbookVideo and VerticalVideo; music videos have no
+ * narration and therefore no captions.
+ */
+const getNarrationSegments = (
+  variant: StorySettings['variant'],
+  { events, storyTitle, storyIntroduction, introAudioUrl, introDurationFrames, fps, externalAudioUrl, externalAudioDuration }: TimelineVideoProps,
+): NarrationSegment[] => {
+  if (externalAudioUrl && externalAudioDuration) return [];
+
+  const segments: NarrationSegment[] = [];
+  const introPlays = variant === 'scrapbook' || !!storyTitle;
+  if (introPlays && introAudioUrl && storyIntroduction) {
+    segments.push({ text: storyIntroduction, from: 0, durationInFrames: introDurationFrames });
+  }
+
+  const pushEvent = (event: VideoEvent, from: number) => {
+    if (event.audioUrl) {
+      segments.push({ text: getNarrationText(event), from, durationInFrames: getSpeechFrames(event, fps) });
+    }
+  };
+
+  if (variant === 'scrapbook') {
+    let audioFrame = introDurationFrames;
+    events.forEach((event, index) => {
+      pushEvent(event, index === 0 ? audioFrame : Math.max(0, audioFrame - J_CUT_FRAMES));
+      audioFrame += getEventDurationFrames(event, fps);
+    });
+  } else if (variant === 'vertical') {
+    let from = storyTitle ? introDurationFrames : 0;
+    getVerticalHighlights(events).forEach((event) => {
+      pushEvent(event, from);
+      from += getEventDurationFrames(event, fps);
+    });
+  } else {
+    let currentFrame = storyTitle ? introDurationFrames : 0;
+    events.forEach((event, index) => {
+      if (index > 0) currentFrame -= OVERLAP_FRAMES;
+      pushEvent(event, currentFrame);
+      currentFrame += getEventDurationFrames(event, fps);
+    });
+  }
+
+  return segments;
+};
+
+/**
+ * Split narration into phrases of at most `maxWords`: at sentence/clause
+ * boundaries, long clauses cut into even chunks, and very short pieces merged
+ * with their neighbour so no caption just flashes by.
+ */
+export const splitIntoPhrases = (text: string, maxWords = MAX_PHRASE_WORDS): string[] => {
+  const clauses = text.match(/[^.!?;:,]+[.!?;:,]*/g) ?? [text];
+  const phrases: string[][] = [];
+  for (const clause of clauses) {
+    const words = clause.trim().split(/\s+/).filter(Boolean);
+    if (words.length === 0) continue;
+    const size = Math.ceil(words.length / Math.ceil(words.length / maxWords));
+    for (let i = 0; i < words.length; i += size) {
+      const chunk = words.slice(i, i + size);
+      const previous = phrases[phrases.length - 1];
+      if (previous && (previous.length < 3 || chunk.length < 3) && previous.length + chunk.length <= maxWords) {
+        previous.push(...chunk);
+      } else {
+        phrases.push(chunk);
+      }
+    }
+  }
+  return phrases.map((words) => words.join(' '));
+};
+
+const buildCaptionCues = (segments: NarrationSegment[]): CaptionCue[] => {
+  const cues: CaptionCue[] = [];
+  for (const segment of segments) {
+    const phrases = splitIntoPhrases(segment.text);
+    const totalChars = phrases.reduce((sum, p) => sum + p.length, 0) || 1;
+    let frame = segment.from;
+    phrases.forEach((text, i) => {
+      const isLast = i === phrases.length - 1;
+      const length = Math.max(1, Math.round((text.length / totalChars) * segment.durationInFrames));
+      const endFrame = isLast ? segment.from + segment.durationInFrames : frame + length;
+      cues.push({ startFrame: frame, endFrame, text });
+      frame = endFrame;
+    });
+  }
+  return cues;
+};
+
+/** Phrase-timed caption cues for a video, in composition frames. */
+export const getCaptionCues = (variant: StorySettings['variant'], props: TimelineVideoProps): CaptionCue[] =>
+  buildCaptionCues(getNarrationSegments(variant, props));
+
+// ─── Sidecar files ───────────────────────────────────────────────────────────
+
+const formatTimestamp = (frame: number, fps: number, separator: '.' | ','): string => {
+  const totalMs = Math.max(0, Math.round((frame / fps) * 1000));
+  const hours = Math.floor(totalMs / 3600000);
+  const minutes = Math.floor((totalMs % 3600000) / 60000);
+  const seconds = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(ms, 3)}`;
+};
+
+export const cuesToWebVTT = (cues: CaptionCue[], fps: number): string =>
+  'WEBVTT\n\n' +
+  cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.startFrame, fps, '.')} --> ${formatTimestamp(cue.endFrame, fps, '.')}\n${cue.text}\n`)
+    .join('\n');
+
+export const cuesToSRT = (cues: CaptionCue[], fps: number): string =>
+  cues
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.startFrame, fps, ',')} --> ${formatTimestamp(cue.endFrame, fps, ',')}\n${cue.text}\n`)
+    .join('\n');
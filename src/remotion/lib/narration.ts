@@ -0,0 +1,21 @@
+import type { TimelineEvent } from '@/types/timeline';
+
+// Condense a description to ~20-30 words for spoken narration, ending at a sentence boundary.
+export const condenseForSpeech = (text: string, targetWords = 25): string => {
+  if (!text) return '';
+  const sentences = text.match(/[^.!?]+[.!?]+/g) ?? [text];
+  const out: string[] = [];
+  let count = 0;
+  for (const s of sentences) {
+    const w = s.trim().split(/\s+/).length;
+    if (out.length > 0 && count + w > targetWords + 8) break;
+    out.push(s.trim());
+    count += w;
+    if (count >= targetWords) break;
+  }
+  return out.join(' ').trim() || text;
+};
+
+/** The text that is spoken for an event — also used for burned-in captions. */
+export const buildNarrationText = (event: Pick<TimelineEvent, 'title' | 'description'>): string =>
+  `${event.title}. ${condenseForSpeech(event.description)}`;
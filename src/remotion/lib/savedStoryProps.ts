@@ -0,0 +1,37 @@
+/**
+ * saved_stories `content` + `settings` → TimelineVideoProps.
+ *
+ * Split out of savedStory.ts (which also pulls in the compositions) so the
+ * render service can build the same props in plain Node, e.g. for subtitles.
+ */
+import type { StoryContent, StorySettings } from '@/hooks/useSaveStory';
+import type { TimelineVideoProps } from '../types';
+
+/** The composition Root.tsx registers and the render service renders. */
+export const SAVED_STORY_COMPOSITION_ID = 'SavedStory';
+
+export const SAVED_STORY_FPS = 30;
+
+export const DEFAULT_INTRO_FRAMES = 150;
+
+export function buildSavedStoryVideoProps(
+  content: StoryContent,
+  settings: StorySettings,
+  overrides: Partial<TimelineVideoProps> = {}
+): TimelineVideoProps {
+  return {
+    events: content.events,
+    storyTitle: content.storyTitle,
+    storyIntroduction: content.storyIntroduction,
+    introAudioUrl: settings.isMusicVideo ? undefined : settings.introAudioUrl,
+    introDurationFrames: settings.isMusicVideo ? 0 : (settings.introDurationFrames || DEFAULT_INTRO_FRAMES),
+    fps: SAVED_STORY_FPS,
+    enableRetroEffect: !!settings.enableVhsEffect,
+    showCaptions: !!settings.showCaptions,
+    retroIntensity: settings.retroIntensity || 0.85,
+    externalAudioUrl: settings.isMusicVideo ? settings.backgroundMusicUrl : undefined,
+    externalAudioDuration: settings.isMusicVideo ? settings.backgroundMusicDuration : undefined,
+    externalAudioBpm: settings.isMusicVideo ? settings.backgroundMusicBpm : undefined,
+    ...overrides,
+  };
+}
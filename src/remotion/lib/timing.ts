@@ -0,0 +1,40 @@
+/**
+ * Frame timing shared by the compositions and the caption builder.
+ *
+ * Kept free of React, asset and `@/` value imports so the render service can
+ * load it in plain Node to write subtitle files next to the video.
+ */
+import type { VideoEvent } from '../types';
+import { selectHighlightEvents, MAX_HIGHLIGHT_EVENTS } from '../../lib/highlights';
+import { getImageCredits } from '../../lib/imageCredits';
+
+// Fly-through overlap between consecutive events in TimelineVideo (~1.3s at 30fps)
+export const OVERLAP_FRAMES = 40;
+
+// Scrapbook J-cut: audio starts before the visual transition (0.5s at 30fps)
+export const J_CUT_FRAMES = 15;
+
+// Extra silence appended after each event narration (~2s at 30fps)
+export const INTER_EVENT_PAUSE_FRAMES = 60;
+
+// Image credits end card (5s at 30fps)
+export const CREDITS_FRAMES = 150;
+
+/** Length of the credits end card: none when no image in the video needs crediting. */
+export const getCreditsFrames = (events: VideoEvent[]): number =>
+  getImageCredits(events).length > 0 ? CREDITS_FRAMES : 0;
+
+/** How long an event stays on screen when it has no (measured) narration. */
+export const getEventDurationFrames = (event: VideoEvent, fps: number): number =>
+  event.audioDurationFrames || Math.round(5 * fps);
+
+/**
+ * Highlights in the order they appear in the vertical short: chronological, so
+ * the year counter only rolls forward. Falls back to the first events when
+ * none are marked important.
+ */
+export const getVerticalHighlights = (events: VideoEvent[]): VideoEvent[] => {
+  const highlights = selectHighlightEvents(events);
+  return (highlights.length > 0 ? highlights : events.slice(0, MAX_HIGHLIGHT_EVENTS))
+    .sort((a, b) => a.year - b.year);
+};
@@ -0,0 +1,83 @@
+/**
+ * Size, cuts and length of the vertical 9:16 short (VerticalVideo.tsx).
+ *
+ * Kept out of the component file so the player, the saved-story renderer
+ * and tests can use them without pulling in the composition.
+ */
+import type { VideoEvent } from '../types';
+import { getCreditsFrames, getEventDurationFrames, getVerticalHighlights } from './timing';
+
+export const VERTICAL_WIDTH = 1080;
+export const VERTICAL_HEIGHT = 1920;
+
+// Most generated tracks are prompted as "fast tempo"; used when the song's BPM couldn't be measured
+export const DEFAULT_BPM = 120;
+// Opening hook before the first cut in music video mode
+const MUSIC_INTRO_BEATS = 8;
+
+export interface VerticalCut {
+  event: VideoEvent;
+  from: number;
+  duration: number;
+}
+
+/** Length of the opening hook: eight beats of the song in music video mode. */
+export const getVerticalIntroFrames = (introDurationFrames: number, fps: number, bpm?: number, isMusicVideo = false): number =>
+  isMusicVideo ? Math.round((MUSIC_INTRO_BEATS * fps * 60) / (bpm || DEFAULT_BPM)) : introDurationFrames;
+
+/**
+ * Where each highlight starts and how long it stays on screen.
+ *
+ * Music video mode: cuts land on the song's beat grid (its measured BPM, see
+ * measureAudioBpm), spread evenly over the track after a short hook.
+ * Narrated mode: each highlight lasts as long as its narration.
+ */
+export const getVerticalCuts = (
+  highlights: VideoEvent[],
+  introFrames: number,
+  fps: number,
+  totalMusicFrames: number,
+  bpm?: number,
+): VerticalCut[] => {
+  if (totalMusicFrames > 0) {
+    const framesPerBeat = (fps * 60) / (bpm || DEFAULT_BPM);
+    const snapToBeat = (frame: number) => Math.round(Math.round(frame / framesPerBeat) * framesPerBeat);
+    const span = (totalMusicFrames - introFrames) / Math.max(highlights.length, 1);
+    const boundaries = highlights.map((_, i) => snapToBeat(introFrames + i * span));
+    boundaries.push(totalMusicFrames);
+    return highlights.map((event, i) => ({
+      event,
+      from: boundaries[i],
+      duration: Math.max(1, boundaries[i + 1] - boundaries[i]),
+    }));
+  }
+
+  let from = introFrames;
+  return highlights.map((event) => {
+    const duration = getEventDurationFrames(event, fps);
+    const cut = { event, from, duration };
+    from += duration;
+    return cut;
+  });
+};
+
+/**
+ * Total duration of the vertical short: the song in music video mode,
+ * otherwise the intro, the narration of each highlight and the credits card.
+ */
+export const calculateVerticalDuration = (
+  events: VideoEvent[],
+  introDurationFrames: number,
+  fps: number,
+  externalAudioDuration?: number
+): number => {
+  if (externalAudioDuration) {
+    return Math.round(externalAudioDuration * fps);
+  }
+
+  const highlights = getVerticalHighlights(events);
+  return highlights.reduce(
+    (total, event) => total + getEventDurationFrames(event, fps),
+    introDurationFrames + getCreditsFrames(highlights)
+  );
+};
@@ -0,0 +1,53 @@
+/**
+ * Saved story → Remotion props.
+ *
+ * A row in saved_stories stores the story as `content` + `settings`; this is
+ * the one place that turns those into a composition, its TimelineVideoProps,
+ * size and duration, so the shared-story player and the server-side renderer
+ * (render-service/) produce the same video.
+ */
+import type React from 'react';
+import type { StoryContent, StorySettings } from '@/hooks/useSaveStory';
+import { TimelineVideoComponent, calculateTotalDuration } from './TimelineVideo';
+import { ScrapbookVideoComponent, calculateScrapbookDuration } from './ScrapbookVideo';
+import { VerticalVideoComponent } from './VerticalVideo';
+import { calculateVerticalDuration, VERTICAL_WIDTH, VERTICAL_HEIGHT } from './lib/vertical';
+import { TimelineVideoProps } from './types';
+import { DEFAULT_INTRO_FRAMES, SAVED_STORY_FPS } from './lib/savedStoryProps';
+
+export { SAVED_STORY_COMPOSITION_ID, SAVED_STORY_FPS, buildSavedStoryVideoProps } from './lib/savedStoryProps';
+
+export function calculateSavedStoryDuration(content: StoryContent, settings: StorySettings): number {
+  // Music video mode: the song sets the length
+  if (settings.isMusicVideo && settings.backgroundMusicDuration) {
+    return Math.round(settings.backgroundMusicDuration * SAVED_STORY_FPS);
+  }
+
+  const introFrames = settings.introDurationFrames || DEFAULT_INTRO_FRAMES;
+  switch (settings.variant) {
+    case 'scrapbook':
+      return calculateScrapbookDuration(content.events, introFrames, SAVED_STORY_FPS);
+    case 'vertical':
+      return calculateVerticalDuration(content.events, introFrames, SAVED_STORY_FPS);
+    default:
+      return calculateTotalDuration(content.events, introFrames, SAVED_STORY_FPS);
+  }
+}
+
+export function getSavedStoryComponent(settings: StorySettings): React.FC<TimelineVideoProps> {
+  switch (settings.variant) {
+    case 'scrapbook':
+      return ScrapbookVideoComponent;
+    case 'vertical':
+      return VerticalVideoComponent;
+    default:
+      return TimelineVideoComponent;
+  }
+}
+
+/** The vertical short is 9:16; every other variant is landscape 16:9. */
+export function getSavedStoryDimensions(settings: StorySettings): { width: number; height: number } {
+  return settings.variant === 'vertical'
+    ? { width: VERTICAL_WIDTH, height: VERTICAL_HEIGHT }
+    : { width: 1920, height: 1080 };
+}
@@ -5,6 +5,8 @@ export interface VideoEvent extends TimelineEvent {
   audioDurationFrames: number;
   // Sound effect for background audio
   soundEffectAudioUrl?: string;
+  /** Exact text sent to TTS for this event - used for captions */
+  narrationText?: string;
 }
 
 export interface TimelineVideoProps {
@@ -22,9 +24,15 @@ export interface TimelineVideoProps {
   externalAudioUrl?: string;
   /** Duration of external audio in seconds - when set, events are distributed over this duration */
   externalAudioDuration?: number;
+  /** Measured tempo of the external audio (see measureAudioBpm) - the vertical short cuts on its beats (defaults to 120) */
+  externalAudioBpm?: number;
+  /** Burn phrase-timed captions of the narration into the video */
+  showCaptions?: boolean;
   /** Localized "ready" overlay shown at frame 0 of the intro */
   introReadyTitle?: string;
   introReadyHint?: string;
+  /** Localized title of the image credits end card */
+  creditsTitle?: string;
 }
 
 export interface EventCardProps {
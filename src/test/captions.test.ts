@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import { cuesToSRT, cuesToWebVTT, getCaptionCues, splitIntoPhrases } from "@/remotion/lib/captions";
+import { INTER_EVENT_PAUSE_FRAMES, OVERLAP_FRAMES } from "@/remotion/lib/timing";
+import type { TimelineVideoProps, VideoEvent } from "@/remotion/types";
+
+const FPS = 30;
+
+const spoken = (id: string, narrationText: string, seconds: number) =>
+  ({ id, year: 1969, narrationText, audioUrl: `blob:${id}`, audioDurationFrames: seconds * FPS }) as VideoEvent;
+
+const video = (events: VideoEvent[], extra: Partial<TimelineVideoProps> = {}): TimelineVideoProps => ({
+  events,
+  introDurationFrames: 150,
+  fps: FPS,
+  ...extra,
+});
+
+describe("captions", () => {
+  it("writes WebVTT and SRT timestamps, hours included", () => {
+    const cues = [
+      { startFrame: 0, endFrame: 45, text: "De maan" },
+      { startFrame: 3723 * FPS + 15, endFrame: 3725 * FPS, text: "Een uur later" },
+    ];
+
+    expect(cuesToWebVTT(cues, FPS)).toBe(
+      "WEBVTT\n\n1\n00:00:00.000 --> 00:00:01.500\nDe maan\n\n2\n01:02:03.500 --> 01:02:05.000\nEen uur later\n",
+    );
+    expect(cuesToSRT(cues, FPS)).toBe(
+      "1\n00:00:00,000 --> 00:00:01,500\nDe maan\n\n2\n01:02:03,500 --> 01:02:05,000\nEen uur later\n",
+    );
+  });
+
+  it("cuts narration into even phrases at clause boundaries", () => {
+    expect(splitIntoPhrases("Neil Armstrong zet als eerste mens voet op de maan, en de wereld kijkt mee.")).toEqual([
+      "Neil Armstrong zet als eerste",
+      "mens voet op de maan,",
+      "en de wereld kijkt mee.",
+    ]);
+    // Fragments of one or two words are merged, not flashed
+    expect(splitIntoPhrases("Ja. Nee. Misschien wel morgen.")).toEqual(["Ja. Nee. Misschien wel morgen."]);
+  });
+
+  it("times cues to each narration, without the pause after it", () => {
+    const events = [spoken("a", "Eerste zin. Tweede zin hier.", 6), spoken("b", "Derde.", 4)];
+    const cues = getCaptionCues("slideshow", video(events));
+
+    expect(cues.map((cue) => cue.text)).toEqual(["Eerste zin. Tweede zin hier.", "Derde."]);
+    expect(cues[0]).toMatchObject({ startFrame: 0, endFrame: 6 * FPS - INTER_EVENT_PAUSE_FRAMES });
+    // Slideshow events overlap by the fly-through
+    expect(cues[1].startFrame).toBe(6 * FPS - OVERLAP_FRAMES);
+
+    // Music videos have no narration
+    expect(getCaptionCues("slideshow", video(events, { externalAudioUrl: "song.mp3", externalAudioDuration: 90 }))).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { buildCountryDataset, parseChartSource, type ChartSource } from "@/lib/chartImport";
+
+const weekly: ChartSource = { id: "nl-top40", country: "NL", chart: "Nederlandse Top 40", file: "sources/nl-top40.csv" };
+
+describe("chart import", () => {
+  it("reads weeks from year and week columns or from the chart date", () => {
+    const csv = [
+      "Jaar;Week;Positie;Artiest;Titel",
+      "1985;3;1;Foreigner;I Want to Know What Love Is",
+      '1985;3;2;"Lionel Richie";"Say You; Say Me"',
+    ].join("\n");
+    expect(parseChartSource(weekly, csv, "csv").rows).toEqual([
+      { year: 1985, week: 3, position: 1, artist: "Foreigner", title: "I Want to Know What Love Is" },
+      { year: 1985, week: 3, position: 2, artist: "Lionel Richie", title: "Say You; Say Me" },
+    ]);
+
+    // 29 December 1984 falls in ISO week 52 of 1984, 5 January 1985 in week 1
+    const json = JSON.stringify([
+      { chart_date: "1984-12-29", rank: 1, performer: "Madonna", song: "Like a Virgin" },
+      { chart_date: "1985-01-05", rank: 1, performer: "Madonna", song: "Like a Virgin" },
+    ]);
+    expect(parseChartSource(weekly, json, "json").rows.map(({ year, week }) => [year, week])).toEqual([[1984, 52], [1985, 1]]);
+  });
+
+  it("flags malformed rows and skips them", () => {
+    const csv = [
+      "year,week,position,artist,title",
+      "1985,3,1,,Untitled",
+      "1785,3,1,Mozart,Rondo",
+      "1985,54,1,a-ha,Take On Me",
+      "1985,3,first,a-ha,Take On Me",
+      "1985,3,11,a-ha,Take On Me",
+      "1985,3,1,a-ha,Take On Me",
+    ].join("\n");
+    const { rows, issues } = parseChartSource(weekly, csv, "csv");
+
+    expect(rows).toHaveLength(1);
+    expect(issues.map(({ line, kind, message }) => [line, kind, message])).toEqual([
+      [2, "malformed", "missing artist or title"],
+      [3, "malformed", 'invalid year "1785"'],
+      [4, "malformed", 'invalid week "54"'],
+      [5, "malformed", 'invalid position "first"'],
+    ]);
+  });
+
+  it("flags duplicates and keeps the first", () => {
+    const csv = [
+      "year,week,position,artist,title",
+      "1985,3,1,Foreigner,I Want to Know What Love Is",
+      "1985,3,1,Wham!,Careless Whisper",
+      "1985,3,2,foreigner,I want to know what love is",
+      "1985,4,1,Foreigner,I Want to Know What Love Is",
+    ].join("\n");
+    const { rows, issues } = parseChartSource(weekly, csv, "csv");
+
+    expect(rows.map((row) => `${row.week}:${row.position}`)).toEqual(["3:1", "4:1"]);
+    expect(issues).toEqual([
+      { source: "nl-top40", line: 3, kind: "duplicate", message: "position 1 of 1985 week 3 appears more than once" },
+      { source: "nl-top40", line: 4, kind: "duplicate", message: '"foreigner - I want to know what love is" appears twice in 1985 week 3' },
+    ]);
+  });
+
+  it("bumps the dataset version only when the entries change", () => {
+    const parse = (csv: string) => [{ source: weekly, rows: parseChartSource(weekly, csv, "csv").rows }];
+    const first = parse("year,week,position,artist,title\n1985,3,1,Foreigner,I Want to Know What Love Is");
+    const changed = parse("year,week,position,artist,title\n1985,3,1,Wham!,Careless Whisper");
+
+    const v1 = buildCountryDataset("NL", first);
+    expect(v1).toMatchObject({ version: 1, sources: [{ id: "nl-top40", period: "week", rows: 1 }] });
+    expect(buildCountryDataset("NL", first, v1)).toEqual(v1);
+    expect(buildCountryDataset("NL", changed, v1).version).toBe(2);
+  });
+});
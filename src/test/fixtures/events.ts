@@ -0,0 +1,15 @@
+import type { TimelineEvent } from "@/types/timeline";
+
+/** A plain timeline event; tests pass only the fields they're about. */
+export const timelineEvent = (id: string, extra: Partial<TimelineEvent> = {}): TimelineEvent => ({
+  id,
+  date: "1969-07-20",
+  year: 1969,
+  title: id,
+  description: "",
+  category: "world",
+  visualSubjectType: "event",
+  importance: "medium",
+  eventScope: "period",
+  ...extra,
+});
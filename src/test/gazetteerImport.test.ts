@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from "vitest";
+import { parseAdmin1Codes, parseGeoNamesCities, toGazetteerKey } from "@/lib/gazetteerImport";
+import { searchPlaces } from "@/lib/gazetteer";
+
+const rpc = vi.hoisted(() => vi.fn());
+vi.mock("@/integrations/supabase/client", () => ({ supabase: { rpc } }));
+
+// The 19 tab-separated columns of a GeoNames cities dump row
+const geoname = (cols: Partial<Record<"id" | "name" | "ascii" | "alternates" | "country" | "admin1" | "population", string>>) =>
+  [
+    cols.id ?? "2886242",
+    cols.name ?? "Köln",
+    cols.ascii ?? "Koeln",
+    cols.alternates ?? "",
+    "50.93333",
+    "6.95",
+    "P",
+    "PPLA2",
+    cols.country ?? "DE",
+    "",
+    cols.admin1 ?? "07",
+    "05",
+    "05315",
+    "05315000",
+    cols.population ?? "963395",
+    "",
+    "60",
+    "Europe/Berlin",
+    "2023-01-01",
+  ].join("\t");
+
+const regions = parseAdmin1Codes("DE.07\tNorth Rhine-Westphalia\tNorth Rhine-Westphalia\t2861876\nNL.07\tNorth Holland\tNorth Holland\t2749879\n");
+
+describe("gazetteer import", () => {
+  it("reads a place with its region and Latin-script names", () => {
+    const { places, names, issues } = parseGeoNamesCities(
+      geoname({ alternates: "Cologne,Keulen,Kolin,Colonia,Кёльн,CGN,Köln" }),
+      regions,
+    );
+
+    expect(issues).toEqual([]);
+    expect(places).toEqual([
+      {
+        geoname_id: 2886242,
+        name: "Köln",
+        admin1_code: "07",
+        admin1_name: "North Rhine-Westphalia",
+        country_code: "DE",
+        latitude: 50.93333,
+        longitude: 6.95,
+        population: 963395,
+      },
+    ]);
+    // Cyrillic and the airport code are left out, duplicates collapse
+    expect(names.map((row) => row.name_key)).toEqual(["koln", "koeln", "cologne", "keulen", "kolin", "colonia"]);
+    expect(names.every((row) => row.geoname_id === 2886242)).toBe(true);
+  });
+
+  it("flags unreadable rows and skips blank lines", () => {
+    const text = [
+      geoname({ id: "2759794", name: "Amsterdam", ascii: "Amsterdam", country: "NL", admin1: "07", population: "741636" }),
+      "",
+      geoname({ id: "not-a-number" }),
+      "2747891\tRotterdam\tRotterdam",
+      geoname({ id: "2755003", name: "Haarlem", ascii: "Haarlem", country: "NL", admin1: "", population: "" }),
+    ].join("\n");
+    const { places, issues } = parseGeoNamesCities(text, regions);
+
+    expect(places.map((place) => [place.name, place.admin1_name, place.population])).toEqual([
+      ["Amsterdam", "North Holland", 741636],
+      ["Haarlem", null, 0],
+    ]);
+    expect(issues).toEqual([
+      { line: 3, message: "unreadable row (19 columns)" },
+      { line: 4, message: "unreadable row (3 columns)" },
+    ]);
+  });
+
+  it("normalizes names to search keys", () => {
+    expect(toGazetteerKey("Den Haag")).toBe("den haag");
+    expect(toGazetteerKey("  den-haag ")).toBe("den haag");
+    expect(toGazetteerKey("'s-Hertogenbosch")).toBe("s hertogenbosch");
+    expect(toGazetteerKey("São Paulo")).toBe("sao paulo");
+    expect(toGazetteerKey("Zürich")).toBe("zurich");
+  });
+
+  it("strips LIKE wildcards before the prefix search", async () => {
+    expect(toGazetteerKey("a%b_c")).toBe("a b c");
+    expect(toGazetteerKey("%_%")).toBe("");
+
+    rpc.mockResolvedValue({ data: [], error: null });
+    await expect(searchPlaces("%%")).resolves.toEqual([]);
+    expect(rpc).not.toHaveBeenCalled();
+
+    await searchPlaces("Ams%");
+    expect(rpc).toHaveBeenCalledWith("search_gazetteer", { p_key: "ams", p_limit: 8 });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import { getHistoricalPolity, getPolityTimeline, PlaceLocation } from "@/lib/historicalBorders";
+import { describePlaceCountries } from "@/lib/placeNames";
+import { HISTORICAL_POLITY_ADDITION } from "@/lib/promptConstants";
+import { getSubculturesForPeriod } from "@/lib/subcultureData";
+
+// GeoNames admin1 codes: 13 = Saxony, 02 = Bavaria, 16 = Berlin
+const leipzig: PlaceLocation = { countryCode: "DE", regionCode: "13", lat: 51.3397, lng: 12.3731 };
+const munich: PlaceLocation = { countryCode: "DE", regionCode: "02", lat: 48.1374, lng: 11.5755 };
+const berlin = (lat: number, lng: number): PlaceLocation => ({ countryCode: "DE", regionCode: "16", lat, lng });
+
+const polityId = (place: PlaceLocation, year: number) => getHistoricalPolity(place, year)?.id ?? null;
+
+describe("getHistoricalPolity", () => {
+  it("places Leipzig in the GDR until reunification", () => {
+    expect(polityId(leipzig, 1948)).toBeNull();
+    expect(polityId(leipzig, 1949)).toBe("DD");
+    expect(polityId(leipzig, 1975)).toBe("DD");
+    expect(polityId(leipzig, 1990)).toBe("DD");
+    expect(polityId(leipzig, 1991)).toBeNull();
+  });
+
+  it("places the rest of Germany in the FRG", () => {
+    expect(polityId(munich, 1980)).toBe("DE-W");
+    expect(polityId(munich, 1948)).toBeNull();
+    expect(polityId(munich, 2000)).toBeNull();
+  });
+
+  it("tells East from West Berlin by coordinates", () => {
+    expect(polityId(berlin(52.4976, 13.4113), 1980)).toBe("DE-W"); // Kreuzberg
+    expect(polityId(berlin(52.4811, 13.435), 1980)).toBe("DE-W"); // Neukölln
+    expect(polityId(berlin(52.5351, 13.1975), 1980)).toBe("DE-W"); // Spandau
+    expect(polityId(berlin(52.5244, 13.4105), 1980)).toBe("DD"); // Mitte
+    expect(polityId(berlin(52.5156, 13.4541), 1980)).toBe("DD"); // Friedrichshain
+    expect(polityId(berlin(52.5692, 13.4014), 1980)).toBe("DD"); // Pankow
+  });
+
+  it("falls back to divided Berlin without coordinates", () => {
+    expect(polityId({ countryCode: "DE", regionCode: "16" }, 1980)).toBe("BERLIN");
+  });
+
+  it("follows the Baltic states into and out of the Soviet Union", () => {
+    const tallinn: PlaceLocation = { countryCode: "EE" };
+    expect(polityId(tallinn, 1939)).toBeNull();
+    expect(polityId(tallinn, 1950)).toBe("SU");
+    expect(polityId(tallinn, 1992)).toBeNull();
+    expect(polityId({ countryCode: "UA" }, 1985)).toBe("SU");
+  });
+
+  it("follows the break-up of Yugoslavia", () => {
+    const ljubljana: PlaceLocation = { countryCode: "SI" };
+    expect(polityId(ljubljana, 1991)).toBe("YU");
+    expect(polityId(ljubljana, 1992)).toBeNull();
+
+    const belgrade: PlaceLocation = { countryCode: "RS" };
+    expect(polityId(belgrade, 1985)).toBe("YU");
+    expect(polityId(belgrade, 1995)).toBe("YU-FR");
+    expect(polityId(belgrade, 2004)).toBe("CS-SM");
+    expect(polityId(belgrade, 2007)).toBeNull();
+  });
+
+  it("splits Czechoslovakia in 1993", () => {
+    const bratislava: PlaceLocation = { countryCode: "SK" };
+    expect(polityId(bratislava, 1992)).toBe("CS");
+    expect(polityId(bratislava, 1993)).toBeNull();
+  });
+
+  it("knows the Dutch colonies", () => {
+    expect(polityId({ countryCode: "ID" }, 1940)).toBe("NL-IN");
+    expect(polityId({ countryCode: "ID" }, 1950)).toBeNull();
+    expect(polityId({ countryCode: "SR" }, 1970)).toBe("NL-SR");
+    expect(polityId({ countryCode: "SR" }, 1976)).toBeNull();
+    expect(polityId({ countryCode: "AW" }, 1980)).toBe("AN");
+    expect(polityId({ countryCode: "AW" }, 1986)).toBeNull();
+    expect(polityId({ countryCode: "CW" }, 2010)).toBe("AN");
+  });
+
+  it("splits Vietnam at the 17th parallel", () => {
+    expect(polityId({ countryCode: "VN", lat: 10.8231, lng: 106.6297 }, 1970)).toBe("VN-S"); // Saigon
+    expect(polityId({ countryCode: "VN", lat: 21.0285, lng: 105.8542 }, 1970)).toBe("VD"); // Hanoi
+    expect(polityId({ countryCode: "VN", lat: 21.0285, lng: 105.8542 }, 1980)).toBeNull();
+  });
+
+  it("renames Congo through its history", () => {
+    const kinshasa: PlaceLocation = { countryCode: "CD" };
+    expect(polityId(kinshasa, 1955)).toBe("BE-CD");
+    expect(polityId(kinshasa, 1965)).toBeNull();
+    expect(polityId(kinshasa, 1980)).toBe("ZR");
+    expect(polityId(kinshasa, 1998)).toBeNull();
+  });
+});
+
+describe("getPolityTimeline", () => {
+  it("groups consecutive years", () => {
+    const spans = getPolityTimeline(leipzig, 1985, 1995).map(({ polity, from, to }) => [polity?.id ?? null, from, to]);
+    expect(spans).toEqual([
+      ["DD", 1985, 1990],
+      [null, 1991, 1995],
+    ]);
+  });
+});
+
+describe("describePlaceCountries", () => {
+  it("names each state with its years", () => {
+    expect(describePlaceCountries(leipzig, 1975, 1995)).toBe("Oost-Duitsland (DDR) (1975-1990), Duitsland (1991-1995)");
+    expect(describePlaceCountries({ countryCode: "SK" }, 1990, 1994, "en")).toBe("Czechoslovakia (1990-1992), Slovakia (1993-1994)");
+  });
+
+  it("gives a single name when nothing changed", () => {
+    expect(describePlaceCountries(munich, 1995, 2005)).toBe("Duitsland");
+  });
+});
+
+describe("HISTORICAL_POLITY_ADDITION", () => {
+  it("only speaks up when the place was in another state", () => {
+    expect(HISTORICAL_POLITY_ADDITION({ name: "Leipzig", ...leipzig }, { startYear: 1975, endYear: 1985 })).toContain(
+      "Oost-Duitsland (DDR)",
+    );
+    expect(HISTORICAL_POLITY_ADDITION({ name: "München", ...munich }, { startYear: 1995, endYear: 2005 })).toBe("");
+  });
+});
+
+describe("getSubculturesForPeriod", () => {
+  it("uses the GDR subcultures for Leipzig in the eighties", () => {
+    expect(getSubculturesForPeriod(1983, 1987, "puberty", "europe", "Leipzig", leipzig)?.countryCode).toBe("DD");
+    expect(getSubculturesForPeriod(1993, 1997, "puberty", "europe", "Leipzig", leipzig)?.countryCode).toBe("DE");
+    expect(getSubculturesForPeriod(1983, 1987, "puberty", "europe", "München", munich)?.countryCode).toBe("DE");
+  });
+});
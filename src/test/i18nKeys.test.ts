@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeAll } from "vitest";
+import { loadLocale, Messages, SUPPORTED_LANGUAGES, TranslationKey, TranslationValue } from "@/lib/i18n";
+import { MessagePart, parseMessage } from "@/lib/i18n/messageFormat";
+import nl from "@/lib/i18n/locales/nl";
+
+// Dutch is the source locale: TranslationKey is derived from it
+const sourceKeys = Object.keys(nl) as TranslationKey[];
+
+// Names of the values a message needs. A select (e.g. gender) is left out:
+// a language may switch on it where Dutch has a single form.
+const valueArguments = (parts: MessagePart[], names = new Set<string>()): Set<string> => {
+  for (const part of parts) {
+    if (typeof part === "string" || part.type === "pound") continue;
+    if (part.type !== "select") names.add(part.name);
+    if ("options" in part) Object.values(part.options).forEach((branch) => valueArguments(branch, names));
+  }
+  return names;
+};
+
+const argumentsOf = (value: TranslationValue): string =>
+  typeof value === "string" ? [...valueArguments(parseMessage(value))].sort().join() : "";
+
+describe("translations", () => {
+  const bundles = {} as Record<string, Messages>;
+
+  beforeAll(async () => {
+    for (const language of SUPPORTED_LANGUAGES) bundles[language] = await loadLocale(language);
+  });
+
+  it("loads Dutch as the source bundle", () => {
+    expect(bundles.nl).toBe(nl);
+  });
+
+  describe.each(SUPPORTED_LANGUAGES)("%s", (language) => {
+    const block = () => bundles[language] as Partial<Record<string, TranslationValue>>;
+
+    it("has every TranslationKey", () => {
+      const missing = sourceKeys.filter((key) => block()[key] === undefined || block()[key] === "");
+      expect(missing).toEqual([]);
+    });
+
+    it("has no keys the Dutch source lacks", () => {
+      const extra = Object.keys(block()).filter((key) => !(key in nl));
+      expect(extra).toEqual([]);
+    });
+
+    it("has valid ICU syntax in every message", () => {
+      const invalid = sourceKeys.filter((key) => {
+        const value = block()[key];
+        if (typeof value !== "string") return false;
+        try {
+          parseMessage(value);
+          return false;
+        } catch {
+          return true;
+        }
+      });
+      expect(invalid).toEqual([]);
+    });
+
+    it("takes the same values as the Dutch text", () => {
+      const mismatched = sourceKeys.filter(
+        (key) => block()[key] !== undefined && argumentsOf(block()[key]!) !== argumentsOf(nl[key]),
+      );
+      expect(mismatched).toEqual([]);
+    });
+
+    it("keeps the length of list values", () => {
+      const mismatched = sourceKeys.filter((key) => {
+        const source: TranslationValue = nl[key];
+        const value = block()[key];
+        return Array.isArray(source) && (!Array.isArray(value) || value.length !== source.length);
+      });
+      expect(mismatched).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import { formatImageCredit, getImageCredits, prepareEventsForPublicShare } from "@/lib/imageCredits";
+import { TimelineEvent } from "@/types/timeline";
+import { timelineEvent } from "./fixtures/events";
+
+const event = (id: string, extra: Partial<TimelineEvent> = {}): TimelineEvent =>
+  timelineEvent(id, {
+    imageUrl: `https://upload.test/${id}.jpg`,
+    imageStatus: "found",
+    source: "https://commons.wikimedia.org/wiki/File:Apollo_11.jpg",
+    ...extra,
+  });
+
+describe("image credits", () => {
+  it("formats what is known about an image", () => {
+    expect(
+      formatImageCredit({
+        author: "NASA",
+        license: "Public domain",
+        sourceUrl: "https://commons.wikimedia.org/wiki/File%3AAldrin_Apollo_11.jpg",
+      }),
+    ).toBe("NASA · Public domain · commons.wikimedia.org/wiki/File:Aldrin_Apollo_11.jpg");
+    expect(formatImageCredit({ license: "CC BY 4.0", sourceUrl: "https://example.test" }, { withSource: false })).toBe("CC BY 4.0");
+  });
+
+  it("only credits images that are still shown", () => {
+    const events = [
+      event("found", { imageCredit: { author: "NASA" } }),
+      event("gone", { imageUrl: undefined, imageCredit: { author: "NASA" } }),
+      event("unknown", { imageCredit: { sourceUrl: "https://example.test" } }),
+    ];
+
+    expect(getImageCredits(events).map(({ event }) => event.id)).toEqual(["found"]);
+  });
+
+  it("only shares own photos and images licensed for republishing", () => {
+    const shared = prepareEventsForPublicShare([
+      event("free", {
+        imageCredit: { license: "CC BY-SA 4.0", redistributable: true },
+        imageCandidates: [{ imageUrl: "https://upload.test/free.jpg", source: "commons", score: 0.9 }],
+      }),
+      event("fair-use", { imageCredit: { license: "Fair use", redistributable: false } }),
+      event("unstated", { source: "DDG/Tol" }),
+      event("own", { source: "upload" }),
+    ]);
+
+    expect(shared.map((e) => e.imageUrl)).toEqual(["https://upload.test/free.jpg", undefined, undefined, "https://upload.test/own.jpg"]);
+    expect(shared[1]).toMatchObject({ imageStatus: "none", source: undefined, imageCredit: undefined });
+    expect(shared[2]).toMatchObject({ imageStatus: "none", source: undefined });
+    expect(shared.every((e) => !("imageCandidates" in e))).toBe(true);
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { differenceHash, hashDistance, isSameImage } from "@/lib/imageHash";
+import { createDistinctImages, searchDistinctImage } from "@/lib/imageSearch/dedup";
+import { createImageSearch } from "@/lib/imageSearch/search";
+import type { ImageCandidate, ImageProvider } from "@/lib/imageSearch/types";
+
+// 9×8 greys: a left-to-right gradient, and the same one a bit brighter and noisier
+const gradient = Array.from({ length: 72 }, (_, i) => (i % 9) * 20);
+const brighter = gradient.map((grey, i) => grey + 30 + (i % 3));
+const mirrored = gradient.map((_, i) => gradient[i - (i % 9) + 8 - (i % 9)]);
+
+const image = (name: string): ImageCandidate => ({ imageUrl: `https://img.test/${name}.jpg`, source: name, score: 0.9 });
+
+describe("image dedup", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("hashes near-identical images alike", () => {
+    expect(differenceHash(gradient)).toBe("0000000000000000");
+    expect(differenceHash(mirrored)).toBe("ffffffffffffffff");
+    expect(hashDistance(differenceHash(gradient), differenceHash(mirrored))).toBe(64);
+    expect(isSameImage(differenceHash(gradient), differenceHash(brighter))).toBe(true);
+    expect(isSameImage(differenceHash(gradient), differenceHash(mirrored))).toBe(false);
+  });
+
+  it("falls back to the next candidate when another event shows the image", async () => {
+    const hashes: Record<string, string> = {
+      "https://img.test/moon.jpg": "0000000000000000",
+      "https://img.test/moon-small.jpg": "0000000000000003",
+      "https://img.test/rocket.jpg": "ffffffffffffffff",
+    };
+    const dedup = createDistinctImages({ hashOf: async (url) => hashes[url] ?? null });
+
+    await dedup.pick("e1", [image("moon")]);
+    const { candidate, candidates } = await dedup.pick("e2", [image("moon-small"), image("rocket"), image("other")]);
+
+    expect(candidate?.imageUrl).toBe("https://img.test/rocket.jpg");
+    expect(candidates.map((c) => c.source)).toEqual(["rocket", "other"]);
+    // The event's own image doesn't count against it when it's searched again
+    expect((await dedup.pick("e1", [image("moon")])).candidate?.source).toBe("moon");
+  });
+
+  it("blocks blacklisted images under any URL", async () => {
+    const dedup = createDistinctImages({
+      hashOf: async (url) => (url.includes("moon") ? "0000000000000000" : null),
+      getBlacklistedHashes: () => ["0000000000000001"],
+    });
+
+    expect(await dedup.pick("e1", [image("moon-large")])).toEqual({
+      candidate: null,
+      candidates: [],
+      rejected: ["https://img.test/moon-large.jpg"],
+    });
+    // No hash, no telling: taken as is
+    expect((await dedup.pick("e2", [image("unknown")])).candidate?.source).toBe("unknown");
+  });
+
+  it("lets a released image be used again", async () => {
+    const dedup = createDistinctImages({ hashOf: async () => "0000000000000000" });
+
+    await dedup.pick("e1", [image("a")]);
+    expect((await dedup.pick("e2", [image("a")])).candidate).toBeNull();
+
+    dedup.release("e1");
+    expect((await dedup.pick("e2", [image("a")])).candidate?.source).toBe("a");
+  });
+
+  it("searches again without the rejected images before an event goes without", async () => {
+    const provider = (id: string, names: string[]): ImageProvider => ({
+      id,
+      label: id,
+      subjects: ["event"],
+      search: vi.fn(async () => ({ query: "Moon landing", withYear: false, candidates: names.map(image) })),
+    });
+    const nasa = provider("nasa", ["moon", "moon-small"]);
+    const archive = provider("archive", ["rocket"]);
+    const search = createImageSearch({
+      providers: [nasa, archive],
+      routing: { version: 1, minScore: 0.5, weights: {}, routes: [{ name: "default", when: {}, tiers: [["nasa"], ["archive"]] }] },
+    });
+    const dedup = createDistinctImages({ hashOf: async (url) => (url.includes("moon") ? "0000000000000000" : "ffffffffffffffff") });
+    const request = { eventId: "e2", query: "Maanlanding", queryEn: "Moon landing", visualSubjectType: "event" };
+
+    await dedup.pick("e1", [image("moon")]);
+    const { candidate, candidates, result } = await searchDistinctImage(search, dedup, request);
+
+    // The first search stops at the first tier, whose images e1 already shows
+    expect(nasa.search).toHaveBeenCalledTimes(2);
+    expect(archive.search).toHaveBeenCalledTimes(1);
+    expect(candidate?.source).toBe("rocket");
+    expect(candidates.map((c) => c.source)).toEqual(["rocket"]);
+    expect(result.imageUrl).toBe("https://img.test/rocket.jpg");
+
+    // Every image is taken: the event goes without once a search finds nothing new
+    const { candidate: none, result: last } = await searchDistinctImage(search, dedup, { ...request, eventId: "e3" });
+    expect(none).toBeNull();
+    expect(last.candidates).toEqual([]);
+  });
+});
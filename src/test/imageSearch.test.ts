@@ -0,0 +1,283 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createImageSearch, routeProviders } from "@/lib/imageSearch/search";
+import { rankCandidates } from "@/lib/imageSearch/ranker";
+import { imageRouting, imageRoutingSchema, resolveSubject, type ImageRouting } from "@/lib/imageSearch/routing";
+import { IMAGE_PROVIDERS } from "@/lib/imageSearch/providers";
+import { commonsProvider } from "@/lib/imageSearch/providers/wikimedia";
+import { toSearchTraceRecord } from "@/lib/imageSearch/traces";
+import type { ImageCandidate, ImageProvider, PreparedImageSearch } from "@/lib/imageSearch/types";
+import { timelineEvent } from "./fixtures/events";
+
+const ALL_SUBJECTS = ["person", "movie", "tv", "product", "logo", "event", "location", "artwork", "lifestyle", "culture"] as const;
+
+const fake = (id: string, candidates: ImageCandidate[] | Error, extra: Partial<ImageProvider> = {}) => {
+  const provider: ImageProvider = {
+    id,
+    label: id,
+    subjects: ALL_SUBJECTS,
+    search: vi.fn(async (search: PreparedImageSearch) => {
+      if (candidates instanceof Error) throw candidates;
+      return { query: search.queryEn, withYear: false, candidates };
+    }),
+    ...extra,
+  };
+  return provider;
+};
+
+const image = (name: string, score: number): ImageCandidate => ({
+  imageUrl: `https://img.test/${name}.jpg`,
+  source: name,
+  score,
+});
+
+const routing = (overrides: Partial<ImageRouting> = {}): ImageRouting => ({
+  version: 1,
+  minScore: 0.5,
+  weights: {},
+  routes: [{ name: "default", when: {}, tiers: [["a", "b"], ["c"]] }],
+  ...overrides,
+});
+
+const request = { eventId: "e1", query: "Maanlanding", queryEn: "Moon landing", year: 1969 };
+
+describe("image search", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("picks the best weighted image within a tier", async () => {
+    const search = createImageSearch({
+      providers: [fake("a", [image("a", 0.9)]), fake("b", [image("b", 0.8)]), fake("c", [image("c", 1)])],
+      routing: routing({ weights: { a: 0.5 } }),
+    });
+
+    const result = await search(request);
+
+    expect(result.imageUrl).toBe("https://img.test/b.jpg");
+    expect(result.searchTrace?.map((entry) => [entry.source, entry.result, entry.score])).toEqual([
+      ["a", "found", 0.9],
+      ["b", "found", 0.8],
+    ]);
+  });
+
+  it("offers the best images for the picker, the winner first", async () => {
+    const search = createImageSearch({
+      providers: [
+        fake("a", [image("a1", 0.9), { ...image("a2", 0.6), credit: { license: "CC BY 4.0" }, width: 1200, height: 800 }]),
+        fake("b", [image("b", 0.8)]),
+        fake("c", []),
+      ],
+      routing: routing({ weights: { a: 0.5 } }),
+    });
+
+    const { imageUrl, candidates } = await search(request);
+
+    expect(candidates[0].imageUrl).toBe(imageUrl);
+    expect(candidates.map((candidate) => [candidate.source, candidate.score])).toEqual([
+      ["b", 0.8],
+      ["a1", 0.45],
+      ["a2", 0.3],
+    ]);
+    expect(candidates[2]).toMatchObject({ credit: { license: "CC BY 4.0" }, width: 1200, height: 800 });
+  });
+
+  it("falls through to the next tier below minScore and keeps the best weak match", async () => {
+    const c = fake("c", [image("c", 0.3)]);
+    const search = createImageSearch({
+      providers: [fake("a", [image("a", 0.4)]), fake("b", []), c],
+      routing: routing(),
+    });
+
+    const result = await search(request);
+
+    expect(c.search).toHaveBeenCalled();
+    expect(result.imageUrl).toBe("https://img.test/a.jpg");
+  });
+
+  it("skips blacklisted images and records failing providers", async () => {
+    const search = createImageSearch({
+      providers: [fake("a", [image("a", 0.9), image("a2", 0.7)]), fake("b", new Error("offline")), fake("c", [])],
+      routing: routing(),
+      getBlacklist: () => ["https://img.test/a.jpg"],
+    });
+
+    const result = await search(request);
+
+    expect(result.imageUrl).toBe("https://img.test/a2.jpg");
+    expect(result.searchTrace?.find((entry) => entry.source === "b")?.result).toBe("error");
+  });
+
+  it("returns no image when nothing is found", async () => {
+    const search = createImageSearch({ providers: [fake("a", []), fake("b", []), fake("c", [])], routing: routing() });
+
+    expect(await search(request)).toMatchObject({ eventId: "e1", imageUrl: null, source: null });
+  });
+
+  it("only asks providers that handle the subject", () => {
+    const providers = [
+      fake("a", [], { subjects: ["person"] }),
+      fake("b", [], { accepts: (search) => search.isMusic }),
+      fake("c", []),
+    ];
+
+    const tiers = routeProviders(providers, routing(), { ...request, visualSubjectType: "event" });
+
+    expect(tiers.map((tier) => tier.map((provider) => provider.id))).toEqual([["c"]]);
+  });
+
+  it("resolves the subject from flags, visualSubjectType and category", () => {
+    expect(resolveSubject({ ...request, isTV: true, visualSubjectType: "person" })).toBe("tv");
+    expect(resolveSubject({ ...request, visualSubjectType: "logo" })).toBe("logo");
+    expect(resolveSubject({ ...request, category: "music" })).toBe("person");
+    expect(resolveSubject({ ...request, category: "technology" })).toBe("product");
+    expect(resolveSubject(request)).toBe("event");
+  });
+
+  it("routes events with the bundled table", () => {
+    const ids = (extra: object) =>
+      routeProviders(IMAGE_PROVIDERS, imageRouting, { ...request, ...extra }).map((tier) => tier.map((provider) => provider.id));
+
+    expect(ids({ isMovie: true })).toEqual([["user-choice", "tmdb-movie"], ["ddg"]]);
+    expect(ids({ category: "music", spotifySearchQuery: "Queen Bohemian Rhapsody" })[0]).toEqual(["user-choice", "spotify"]);
+    expect(ids({ category: "politics", visualSubjectType: "event" })[0][1]).toBe("nationaal-archief");
+  });
+
+  it("only routes to registered providers", () => {
+    const ids = new Set(IMAGE_PROVIDERS.map((provider) => provider.id));
+    const used = imageRouting.routes.flatMap((route) => route.tiers.flat());
+
+    expect(used.filter((id) => !ids.has(id))).toEqual([]);
+    expect(ids.size).toBe(IMAGE_PROVIDERS.length);
+  });
+
+  it("requires a catch-all last route", () => {
+    const table = routing({ routes: [{ name: "movies", when: { subjects: ["movie"] }, tiers: [["a"]] }] });
+
+    expect(imageRoutingSchema.safeParse(table).success).toBe(false);
+  });
+
+  it("ranks duplicates once, at their best score", () => {
+    const ranked = rankCandidates(
+      [
+        { ...image("x", 0.6), providerId: "a" },
+        { ...image("y", 0.7), providerId: "b" },
+        { ...image("x", 0.9), providerId: "c" },
+      ],
+      { c: 0.5 },
+    );
+
+    // c's copy of x weighs in at 0.45, so a's 0.6 stands
+    expect(ranked.map((candidate) => [candidate.providerId, candidate.weightedScore])).toEqual([
+      ["b", 0.7],
+      ["a", 0.6],
+    ]);
+  });
+
+  it("lets picks boost images the search finds, never bring in their own", async () => {
+    const picks = fake("picks", [image("b", 1), image("elsewhere", 1)], { boostOnly: true });
+    const search = createImageSearch({
+      providers: [picks, fake("a", [image("a", 0.8)]), fake("b", [image("b", 0.7)])],
+      routing: routing({ weights: { picks: 0.2 }, routes: [{ name: "default", when: {}, tiers: [["picks", "a", "b"]] }] }),
+    });
+
+    const result = await search(request);
+
+    // b's 0.7 plus the pick's 0.2 beats a's 0.8; the image only picks found isn't offered
+    expect(result.imageUrl).toBe("https://img.test/b.jpg");
+    expect(result.candidates.map((candidate) => [candidate.source, candidate.score])).toEqual([
+      ["b", expect.closeTo(0.9)],
+      ["a", 0.8],
+    ]);
+  });
+
+  it("scores Commons results by how well their title matches", async () => {
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        const body = url.includes("list=search")
+          ? { query: { search: [{ title: "File:Apollo 11 moon landing.jpg" }, { title: "File:Moon crater.jpg" }] } }
+          : url.includes("iiprop=extmetadata")
+            ? {
+                query: {
+                  pages: {
+                    "1": {
+                      title: "File:Apollo 11 moon landing.jpg",
+                      imageinfo: [
+                        {
+                          extmetadata: {
+                            Artist: { value: '<a href="//commons.wikimedia.org/wiki/User:Buzz">Buzz Aldrin</a>' },
+                            LicenseShortName: { value: "Public domain" },
+                          },
+                        },
+                      ],
+                    },
+                    "2": { title: "File:Moon crater.jpg", imageinfo: [{ extmetadata: { NonFree: { value: "true" } } }] },
+                  },
+                },
+              }
+            : url.includes("crater")
+              ? { query: { pages: { "1": { imageinfo: [{ thumburl: "https://upload.test/crater.jpg" }] } } } }
+              : { query: { pages: { "1": { imageinfo: [{ thumburl: "https://upload.test/apollo.jpg", width: 3000, height: 2000 }] } } } };
+        return { ok: true, json: async () => body } as Response;
+      }),
+    );
+
+    const { candidates } = await commonsProvider.search({
+      request: { ...request, year: undefined },
+      subject: "event",
+      isMusic: false,
+      queryNl: "Maanlanding",
+      queryEn: "Moon landing",
+    });
+
+    // All words for Apollo 11, one for the crater, which is also the second hit
+    expect(candidates.map((candidate) => candidate.imageUrl)).toEqual(["https://upload.test/apollo.jpg", "https://upload.test/crater.jpg"]);
+    expect(candidates[0].score).toBeCloseTo(0.9);
+    expect(candidates[1].score).toBeCloseTo(0.55);
+    expect(candidates[0]).toMatchObject({ width: 3000, height: 2000 });
+    expect(candidates[0].credit).toEqual({
+      author: "Buzz Aldrin",
+      license: "Public domain",
+      licenseUrl: undefined,
+      sourceUrl: "https://commons.wikimedia.org/wiki/File%3AApollo_11_moon_landing.jpg",
+      redistributable: true,
+    });
+    expect(candidates[1].credit?.redistributable).toBe(false);
+  });
+
+  it("keeps search traces anonymous", () => {
+    const event = timelineEvent("e1", {
+      title: "Opa zag de maanlanding",
+      category: "science",
+      imageSearchQuery: "Maanlanding",
+      imageSearchQueryEn: "Moon landing",
+    });
+    const result = {
+      eventId: "e1",
+      imageUrl: "https://img.test/moon.jpg",
+      source: "moon",
+      candidates: [image("moon", 0.9)],
+      searchTrace: [
+        { source: "Wiki EN", query: "Moon landing 1969", withYear: true, result: "not_found" as const, timestamp: 120 },
+        { source: "Commons", query: "Moon landing", withYear: false, result: "found" as const, timestamp: 480, imageUrl: "https://img.test/moon.jpg", score: 0.9 },
+      ],
+    };
+
+    const record = toSearchTraceRecord(event, result, image("moon", 0.9), { language: "nl", durationMs: 512.4 });
+    expect(record).toMatchObject({ p_language: "nl", p_duration_ms: 512, p_query: "Moon landing", p_winner: "Commons" });
+    expect(record.p_entries).toEqual([
+      { source: "Wiki EN", result: "not_found", timestamp: 120, withYear: true, score: undefined },
+      { source: "Commons", result: "found", timestamp: 480, withYear: false, score: 0.9 },
+    ]);
+    expect(JSON.stringify(record)).not.toContain("Opa");
+
+    const personal = toSearchTraceRecord({ ...event, category: "personal" }, result, null, { language: "nl", durationMs: 900 });
+    expect(personal).toMatchObject({ p_query: undefined, p_image_url: undefined, p_winner: undefined });
+  });
+});
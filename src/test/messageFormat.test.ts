@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from "vitest";
+import { formatDate, formatMessage, formatNumber, getTranslationString, loadLocale } from "@/lib/i18n";
+import { parseMessage } from "@/lib/i18n/messageFormat";
+
+const tracks = "{count, plural, =0 {No tracks} one {# track} other {# tracks}}";
+
+describe("formatMessage", () => {
+  it("fills in plain arguments as-is", () => {
+    expect(formatMessage("Born in {year}", { year: 1985 }, "nl")).toBe("Born in 1985");
+  });
+
+  it("leaves arguments without a value in place", () => {
+    expect(formatMessage("{name} · {age}", { name: "Anna" }, "en")).toBe("Anna · {age}");
+  });
+
+  it("picks plural branches by exact value and category", () => {
+    expect(formatMessage(tracks, { count: 0 }, "en")).toBe("No tracks");
+    expect(formatMessage(tracks, { count: 1 }, "en")).toBe("1 track");
+    expect(formatMessage(tracks, { count: 12 }, "en")).toBe("12 tracks");
+  });
+
+  it("uses the language's plural rules", () => {
+    const events = "{count, plural, one {# wydarzenie} few {# wydarzenia} many {# wydarzeń} other {# wydarzenia}}";
+    expect([1, 3, 5, 22, 25].map((count) => formatMessage(events, { count }, "pl"))).toEqual([
+      "1 wydarzenie",
+      "3 wydarzenia",
+      "5 wydarzeń",
+      "22 wydarzenia",
+      "25 wydarzeń",
+    ]);
+    // French counts 0 as singular
+    expect(formatMessage("{count, plural, one {# titre} other {# titres}}", { count: 0 }, "fr")).toBe("0 titre");
+  });
+
+  it("formats # and {n, number} with the language's grouping", () => {
+    expect(formatMessage(tracks, { count: 1234 }, "nl")).toBe("1.234 tracks");
+    expect(formatMessage("{n, number}", { n: 1234.5 }, "en")).toBe("1,234.5");
+    expect(formatMessage("{n, number, percent}", { n: 0.25 }, "fr")).toBe(formatNumber(0.25, "fr", { style: "percent" }));
+  });
+
+  it("selects gendered forms with an other fallback", () => {
+    const born = "{gender, select, female {Née en {year}} male {Né en {year}} other {Né(e) en {year}}}";
+    expect(formatMessage(born, { gender: "female", year: 1969 }, "fr")).toBe("Née en 1969");
+    expect(formatMessage(born, { gender: "male", year: 1969 }, "fr")).toBe("Né en 1969");
+    expect(formatMessage(born, { gender: "none", year: 1969 }, "fr")).toBe("Né(e) en 1969");
+    expect(formatMessage(born, { year: 1969 }, "fr")).toBe("Né(e) en 1969");
+  });
+
+  it("supports ordinals", () => {
+    const place = "{n, selectordinal, one {#st} two {#nd} few {#rd} other {#th}}";
+    expect([1, 2, 3, 4, 11, 21].map((n) => formatMessage(place, { n }, "en"))).toEqual(["1st", "2nd", "3rd", "4th", "11th", "21st"]);
+  });
+
+  it("treats lone apostrophes as text and quotes braces", () => {
+    expect(formatMessage("{count, plural, one {# foto} other {# foto's}}", { count: 2 }, "nl")).toBe("2 foto's");
+    expect(formatMessage("Générer l'audio pour {count}", { count: 3 }, "fr")).toBe("Générer l'audio pour 3");
+    expect(formatMessage("Use '{name}' literally, it''s fine", { name: "x" }, "en")).toBe("Use {name} literally, it's fine");
+  });
+
+  it("returns malformed messages unformatted", () => {
+    expect(() => parseMessage("{count, plural, one {# track}}")).toThrow(/other/);
+    expect(() => parseMessage("{count, plural, one {# track} other {# tracks}")).toThrow();
+    const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+    expect(formatMessage("{count, plural, one {# track}", { count: 1 }, "en")).toBe("{count, plural, one {# track}");
+    expect(consoleError).toHaveBeenCalledOnce();
+    consoleError.mockRestore();
+  });
+});
+
+describe("getTranslationString", () => {
+  it("formats ICU values in a loaded locale and falls back to Dutch before that", async () => {
+    expect(getTranslationString("spotifyPlaylistCreated", "nl", { count: 1 })).toBe("Je playlist met 1 nummer staat klaar in Spotify.");
+    await loadLocale("en");
+    expect(getTranslationString("spotifyPlaylistCreated", "en", { count: 12 })).toBe("Your playlist with 12 tracks is ready in Spotify.");
+  });
+});
+
+describe("formatDate", () => {
+  it("writes dates in the language's own order", () => {
+    const date = new Date(1969, 0, 15);
+    expect(formatDate(date, "nl")).toBe("15 januari 1969");
+    expect(formatDate(date, "en")).toBe("January 15, 1969");
+    expect(formatDate(date, "pl")).toBe("15 stycznia 1969");
+  });
+});
@@ -0,0 +1,192 @@
+import { readFile } from "node:fs/promises";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import type jsPDF from "jspdf";
+import { createTimelinePdf } from "@/lib/pdfGenerator";
+import { createPolaroidPdf } from "@/lib/pdfGeneratorPolaroid";
+import { createStoryBookPdf } from "@/lib/pdfStoryBookGenerator";
+import { SUPPORTED_LANGUAGES } from "@/lib/i18n";
+import { FormData } from "@/types/form";
+import { FamousBirthday, TimelineEvent } from "@/types/timeline";
+import { timelineEvent } from "./fixtures/events";
+
+// The StoryBook cards are HTML rendered to an image: record their text instead
+const renderedCards = vi.hoisted(() => [] as string[]);
+vi.mock("html2canvas", () => ({
+  default: vi.fn(async (element: HTMLElement) => {
+    renderedCards.push(element.textContent ?? "");
+    return {
+      toDataURL: () =>
+        "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==",
+    };
+  }),
+}));
+
+vi.mock("@/lib/birthdayHits", () => ({
+  getBirthDayNumberOne: vi.fn(async () => ({
+    artist: "Middle of the Road",
+    title: "Chirpy Chirpy Cheep Cheep",
+    precision: "week",
+  })),
+}));
+
+const formData: FormData = {
+  type: "birthdate",
+  birthDate: { day: 15, month: 3, year: 1971 },
+  optionalData: { firstName: "Anna", lastName: "de Vries", gender: "female", attitude: "neutral", children: [], focus: "netherlands" },
+};
+
+const event = (id: string, year: number, month: number, title: string, category: TimelineEvent["category"]): TimelineEvent =>
+  timelineEvent(id, {
+    date: `${year}-${String(month).padStart(2, "0")}-01`,
+    year,
+    month,
+    title,
+    description: `${title} - ${year}`,
+    category,
+    importance: "high",
+  });
+
+const events: TimelineEvent[] = [
+  event("e1", 1971, 3, "Decimal Day", "politics"),
+  event("e2", 1974, 7, "World Cup final", "sports"),
+  event("e3", 1980, 4, "Queen's coronation", "culture"),
+];
+
+const famousBirthdays: FamousBirthday[] = [
+  { name: "Sam Example", profession: "Singer", birthYear: 1971, imageSearchQuery: "Sam Example" },
+];
+
+// Windows-1252 bytes 0x80-0x9F, which the built-in fonts use for "€", "•", "–" and friends
+const WIN_ANSI_HIGH = "€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ";
+
+// Embedded fonts draw glyph ids; each font's ToUnicode CMap maps them back to characters
+const glyphMaps = (output: string): Map<string, Map<string, string>> => {
+  const object = (id: string) => output.match(new RegExp(`\\n${id} 0 obj\\n([\\s\\S]*?)\\nendobj`))?.[1] ?? "";
+  const maps = new Map<string, Map<string, string>>();
+  for (const [, name, id] of output.matchAll(/\/(F\d+) (\d+) 0 R/g)) {
+    const toUnicode = object(id).match(/\/ToUnicode (\d+) 0 R/)?.[1];
+    if (!toUnicode) continue;
+    const cmap = object(toUnicode);
+    const chars = cmap.slice(cmap.indexOf("beginbfchar")).matchAll(/<([0-9a-f]{4})><([0-9a-f]{4})>/g);
+    maps.set(name, new Map(Array.from(chars, ([, glyph, code]) => [glyph, String.fromCharCode(parseInt(code, 16))])));
+  }
+  return maps;
+};
+
+// Text drawn, in page order: "(...) Tj" with the built-in fonts, "<...> Tj" with embedded ones
+const drawnText = (pdf: jsPDF): string[] => {
+  const output = pdf.output();
+  const glyphs = glyphMaps(output);
+  let font = "";
+  return Array.from(output.matchAll(/\/(F\d+) [\d.]+ Tf|\(((?:\\.|[^\\)])*)\) Tj|<([0-9a-f]*)> Tj/g)).flatMap(([, name, text, hex]) => {
+    if (name) {
+      font = name;
+      return [];
+    }
+    if (hex !== undefined) return [Array.from(hex.match(/.{4}/g) ?? [], (glyph) => glyphs.get(font)?.get(glyph) ?? "?").join("")];
+    return [text.replace(/\\(.)/g, "$1").replace(/[\x80-\x9f]/g, (char) => WIN_ANSI_HIGH[char.charCodeAt(0) - 0x80])];
+  });
+};
+
+const embedsFonts = (pdf: jsPDF) => pdf.output().includes("/FontFile2");
+
+// No network: images are skipped; the bundled fonts (see pdfFonts.ts) are read from node_modules
+const offlineFetch = async (url: RequestInfo | URL) => {
+  if (String(url).endsWith(".ttf")) return new Response(await readFile(`.${url}`));
+  throw new Error("offline");
+};
+
+describe("PDF generators", () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-05-04T10:00:00Z"));
+    vi.stubGlobal("fetch", vi.fn(offlineFetch));
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    renderedCards.length = 0;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it.each(SUPPORTED_LANGUAGES)("renders every album in %s", async (language) => {
+    const options = { events, famousBirthdays, formData, summary: "A year to remember.", language };
+    const timeline = await createTimelinePdf(options);
+    const polaroid = await createPolaroidPdf(options);
+    const storyBook = await createStoryBookPdf({ ...options, events: events.slice(0, 2) });
+
+    expect({
+      timeline: { fileName: timeline.fileName, text: drawnText(timeline.pdf) },
+      polaroid: { fileName: polaroid.fileName, text: drawnText(polaroid.pdf) },
+      storyBook: { fileName: storyBook.fileName, text: drawnText(storyBook.pdf), cards: renderedCards },
+    }).toMatchSnapshot();
+  }, 15000);
+
+  it("credits found images on a page of their own", async () => {
+    const credited: TimelineEvent[] = [
+      {
+        ...events[0],
+        imageUrl: "https://upload.test/decimal.jpg",
+        imageCredit: {
+          author: "Jan Jansen",
+          license: "CC BY-SA 4.0",
+          sourceUrl: "https://commons.wikimedia.org/wiki/File%3ADecimal_Day.jpg",
+        },
+      },
+      // No image left to credit
+      { ...events[1], imageCredit: { author: "Piet Pietersen", license: "CC0" } },
+    ];
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    // jsdom never loads images, so the StoryBook cover would wait forever
+    vi.stubGlobal(
+      "Image",
+      class {
+        onerror: (() => void) | null = null;
+        set src(_url: string) {
+          setTimeout(() => this.onerror?.());
+        }
+      },
+    );
+    const line = "1971 · Decimal Day: Jan Jansen · CC BY-SA 4.0 · commons.wikimedia.org/wiki/File:Decimal_Day.jpg";
+
+    const timeline = drawnText((await createTimelinePdf({ events: credited, famousBirthdays, formData, summary: "", language: "en" })).pdf);
+    const storyBook = drawnText((await createStoryBookPdf({ events: credited, formData, summary: "", language: "en" })).pdf);
+
+    expect(timeline.slice(timeline.indexOf("IMAGE CREDITS"))).toContain(line);
+    expect(storyBook.slice(-2)).toEqual(["IMAGE CREDITS", line]);
+    expect([...timeline, ...storyBook].join(" ")).not.toContain("Piet Pietersen");
+  });
+
+  it("only embeds fonts when the built-in ones can't draw the album", async () => {
+    const dutch = await createPolaroidPdf({ events, famousBirthdays, formData, summary: "", language: "nl" });
+    expect(embedsFonts(dutch.pdf)).toBe(false);
+
+    const polish = await createPolaroidPdf({ events, famousBirthdays, formData, summary: "", language: "pl" });
+    expect(embedsFonts(polish.pdf)).toBe(true);
+    expect(drawnText(polish.pdf).join(" ")).toMatch(/[ąćęłńóśźż]/i);
+  });
+
+  it("embeds the bundled fonts for names outside Windows-1252 in any language", async () => {
+    const polishName = { ...formData, optionalData: { ...formData.optionalData, lastName: "Łukasiewicz" } };
+    const { pdf } = await createPolaroidPdf({ events, famousBirthdays, formData: polishName, summary: "", language: "en" });
+
+    expect(embedsFonts(pdf)).toBe(true);
+    expect(drawnText(pdf)).toContain("Anna Łukasiewicz");
+  });
+
+  it("transliterates when the fonts can't be loaded", async () => {
+    // A fresh module, so no font is cached from the other tests
+    vi.resetModules();
+    const { createPolaroidPdf: createOfflinePolaroidPdf } = await import("@/lib/pdfGeneratorPolaroid");
+    vi.stubGlobal("fetch", vi.fn(async () => Promise.reject(new Error("offline"))));
+    const polishName = { ...formData, optionalData: { ...formData.optionalData, lastName: "Łukasiewicz" } };
+    const { pdf } = await createOfflinePolaroidPdf({ events, famousBirthdays, formData: polishName, summary: "", language: "en" });
+
+    expect(embedsFonts(pdf)).toBe(false);
+    // The name is transliterated rather than garbled
+    expect(drawnText(pdf)).toContain("Anna Lukasiewicz");
+    expect(console.warn).toHaveBeenCalledWith("Could not load PDF fonts, falling back to built-in fonts:", expect.any(Error));
+  });
+});
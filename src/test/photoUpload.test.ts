@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { parseExifCaptureDate, stripJpegLocation } from "@/lib/exif";
+import { eventsNearPlacement, placeUserPhoto, proposePhotoPlacement, USER_PHOTO_SOURCE } from "@/lib/photoUpload";
+import type { TimelineEvent } from "@/types/timeline";
+import { timelineEvent } from "./fixtures/events";
+
+interface Field {
+  tag: number;
+  type: number;
+  count: number;
+  bytes?: number[];
+  /** Index of the IFD this LONG field points at */
+  pointsTo?: number;
+}
+
+const ascii = (tag: number, value: string): Field => ({ tag, type: 2, count: value.length + 1, bytes: [...value].map((c) => c.charCodeAt(0)).concat(0) });
+
+// A TIFF block with IFD0 first and the sub-IFDs after it, values longer than 4 bytes at the end
+const tiff = (ifds: Field[][], little: boolean): number[] => {
+  const ifdOffsets: number[] = [];
+  let offset = 8;
+  for (const fields of ifds) {
+    ifdOffsets.push(offset);
+    offset += 2 + fields.length * 12 + 4;
+  }
+
+  const view = new DataView(new ArrayBuffer(1024));
+  view.setUint16(0, little ? 0x4949 : 0x4d4d);
+  view.setUint16(2, 42, little);
+  view.setUint32(4, 8, little);
+  ifds.forEach((fields, i) => {
+    let entry = ifdOffsets[i];
+    view.setUint16(entry, fields.length, little);
+    entry += 2;
+    for (const field of fields) {
+      view.setUint16(entry, field.tag, little);
+      view.setUint16(entry + 2, field.type, little);
+      view.setUint32(entry + 4, field.count, little);
+      if (field.pointsTo !== undefined) {
+        view.setUint32(entry + 8, ifdOffsets[field.pointsTo], little);
+      } else if (field.bytes!.length > 4) {
+        view.setUint32(entry + 8, offset, little);
+        field.bytes!.forEach((byte, j) => view.setUint8(offset + j, byte));
+        offset += field.bytes!.length;
+      } else {
+        field.bytes!.forEach((byte, j) => view.setUint8(entry + 8 + j, byte));
+      }
+      entry += 12;
+    }
+  });
+  return [...new Uint8Array(view.buffer, 0, offset)];
+};
+
+const segment = (marker: number, payload: number[]) => [0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 0xff, ...payload];
+const exifSegment = (ifds: Field[][], little = true) => segment(0xe1, [0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff(ifds, little)]);
+const xmpSegment = (xml: string) => segment(0xe1, [..."http://ns.adobe.com/xap/1.0/\0" + xml].map((c) => c.charCodeAt(0)));
+const SCAN = [0xff, 0xda, 0, 2, 0x12, 0x34, 0x56, 0xff, 0xd9];
+const jpeg = (...segments: number[][]) => new Uint8Array([0xff, 0xd8, ...segments.flat(), ...SCAN]).buffer;
+
+// 52° 22' 12" as three rationals
+const LATITUDE = [52, 1, 22, 1, 12, 1].flatMap((n) => [n, 0, 0, 0]);
+
+const event = (id: string, year: number, extra: Partial<TimelineEvent> = {}): TimelineEvent =>
+  timelineEvent(id, { date: String(year), year, ...extra });
+
+describe("photo upload", () => {
+  it("reads the capture date, preferring DateTimeOriginal", () => {
+    const photo = jpeg(
+      exifSegment([
+        [ascii(0x0132, "2001:01:01 00:00:00"), { tag: 0x8769, type: 4, count: 1, pointsTo: 1 }],
+        [ascii(0x9003, "1985:06:14 10:00:00")],
+      ]),
+    );
+    expect(parseExifCaptureDate(photo)).toEqual({ year: 1985, month: 6, day: 14 });
+  });
+
+  it("falls back to DateTime in either byte order and skips unset dates", () => {
+    expect(parseExifCaptureDate(jpeg(exifSegment([[ascii(0x0132, "1992:12:31 23:59:59")]], false)))).toEqual({ year: 1992, month: 12, day: 31 });
+    expect(parseExifCaptureDate(jpeg(exifSegment([[ascii(0x0132, "0000:00:00 00:00:00")]])))).toBeNull();
+    expect(parseExifCaptureDate(jpeg())).toBeNull();
+    expect(parseExifCaptureDate(new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer)).toBeNull();
+  });
+
+  it("takes the location out before upload and keeps the rest", () => {
+    const photo = jpeg(
+      exifSegment([
+        [ascii(0x0132, "1985:06:14 10:00:00"), { tag: 0x8825, type: 4, count: 1, pointsTo: 1 }],
+        [ascii(0x0001, "N"), { tag: 0x0002, type: 5, count: 3, bytes: LATITUDE }],
+      ]),
+      xmpSegment('<exif:GPSLatitude>52,22.2N</exif:GPSLatitude>'),
+    );
+
+    const stripped = new Uint8Array(stripJpegLocation(photo));
+    const text = String.fromCharCode(...stripped);
+    expect(text).not.toContain("GPSLatitude");
+    expect(text).not.toContain(String.fromCharCode(...LATITUDE.slice(0, 8)));
+    expect(parseExifCaptureDate(stripped.buffer)).toEqual({ year: 1985, month: 6, day: 14 });
+    expect([...stripped.slice(-SCAN.length)]).toEqual(SCAN);
+  });
+
+  it("proposes the capture year, clamped to the timeline", () => {
+    const events = [event("a", 1980), event("b", 1990)];
+    expect(proposePhotoPlacement({ year: 1985, month: 6, day: 14 }, events)).toEqual({ year: 1985, month: 6, day: 14 });
+    expect(proposePhotoPlacement({ year: 1975, month: 1, day: 1 }, events)).toEqual({ year: 1980 });
+    expect(proposePhotoPlacement({ year: 2001, month: 1, day: 1 }, events)).toEqual({ year: 1990 });
+    expect(proposePhotoPlacement(null, events)).toEqual({ year: 1980 });
+  });
+
+  it("offers the events closest to the photo to attach to", () => {
+    const events = [
+      event("january", 1985, { month: 1 }),
+      event("july", 1985, { month: 7 }),
+      event("other-year", 1986, { month: 6 }),
+      event("own-photo", 1985, { month: 6, source: USER_PHOTO_SOURCE }),
+    ];
+    expect(eventsNearPlacement({ year: 1985, month: 6 }, events).map((e) => e.id)).toEqual(["july", "january"]);
+  });
+
+  it("adds a photo card in date order, or puts the photo on an event", () => {
+    const events = [event("a", 1980), event("b", 1985, { month: 3 }), event("c", 1990)];
+    const photo = { originalUrl: "https://storage.test/photo.jpg", storagePath: "owner/photos/photo.jpg", fileName: "photo.jpg" };
+
+    const added = placeUserPhoto(events, photo, { year: 1985, month: 6 }, "Zomer");
+    expect(added.map((e) => e.title)).toEqual(["a", "b", "Zomer", "c"]);
+    expect(added[2]).toMatchObject({ date: "1985-06", category: "personal", imageUrl: photo.originalUrl, userPhoto: photo });
+
+    const attached = placeUserPhoto(events, photo, { year: 1985, attachToEventId: "b" }, "Zomer");
+    expect(attached).toHaveLength(3);
+    expect(attached[1]).toMatchObject({ id: "b", imageUrl: photo.originalUrl, source: USER_PHOTO_SOURCE });
+  });
+});
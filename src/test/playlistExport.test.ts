@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { exportPlaylist, toCSV, toHTML, toM3U8, toXSPF, type ExportTrack } from "@/lib/playlistExport";
+
+const tracks: ExportTrack[] = [
+  { year: 1985, artist: "Dire Straits", title: "Money for Nothing", spotifyUrl: "https://open.spotify.com/track/abc" },
+  { year: 1982, artist: "Simon & Garfunkel", title: "<Live> at \"Central Park\"", album: "Concert", isFavorite: true },
+  { year: 1985, artist: "Doe Maar", title: "Pa, wat 'n dag", isLocal: true },
+];
+
+const options = { title: "Mijn muziek", subtitle: "1982–1985" };
+
+describe("playlist export", () => {
+  it("writes M3U8 entries in year order, falling back to a YouTube Music search", () => {
+    expect(toM3U8(tracks, options).split("\n")).toEqual([
+      "#EXTM3U",
+      "#PLAYLIST:Mijn muziek",
+      '#EXTINF:-1,Simon & Garfunkel - <Live> at "Central Park" (1982)',
+      "https://music.youtube.com/search?q=Simon%20%26%20Garfunkel%20%3CLive%3E%20at%20%22Central%20Park%22",
+      "#EXTINF:-1,Dire Straits - Money for Nothing (1985)",
+      "https://open.spotify.com/track/abc",
+      "#EXTINF:-1,Doe Maar - Pa, wat 'n dag (1985)",
+      "https://music.youtube.com/search?q=Doe%20Maar%20Pa%2C%20wat%20'n%20dag",
+      "",
+    ]);
+  });
+
+  it("escapes artist and title in XSPF", () => {
+    const xml = toXSPF(tracks, { title: "Tom & Jerry's hits" });
+
+    expect(xml).toContain("<title>Tom &amp; Jerry&apos;s hits</title>");
+    expect(xml).toContain("<title>&lt;Live&gt; at &quot;Central Park&quot;</title>");
+    expect(xml).toContain("<creator>Simon &amp; Garfunkel</creator>");
+    expect(xml).toContain("<album>Concert</album>");
+    expect(xml).toContain("<annotation>1982 ★</annotation>");
+    expect(xml).not.toContain("<Live>");
+  });
+
+  it("quotes CSV fields with commas and quotes", () => {
+    const [header, ...rows] = toCSV(tracks).replace(/^\uFEFF/, "").trimEnd().split("\r\n");
+
+    expect(header).toBe("Year,Artist,Title,Album,Local,Favorite,Spotify,YouTube Music,Apple Music");
+    expect(rows[0].startsWith('1982,Simon & Garfunkel,"<Live> at ""Central Park""",Concert,,yes,,')).toBe(true);
+    expect(rows[2].startsWith('1985,Doe Maar,"Pa, wat \'n dag",,yes,,,')).toBe(true);
+    // Opens as UTF-8 in Excel
+    expect(toCSV(tracks).startsWith("\uFEFF")).toBe(true);
+  });
+
+  it("groups the HTML page by year and escapes what users typed", () => {
+    const html = toHTML(tracks, { ...options, title: "<script>alert(1)</script>", language: "en" });
+    const years = [...html.matchAll(/<h2>(\d+)<\/h2>/g)].map(([, year]) => Number(year));
+    const section1985 = html.slice(html.indexOf("<h2>1985</h2>"));
+
+    expect(years).toEqual([1982, 1985]);
+    expect(section1985).toContain("Money for Nothing");
+    expect(section1985).toContain("Pa, wat &apos;n dag");
+    expect(html).toContain('<html lang="en">');
+    expect(html).toContain("<title>&lt;script&gt;alert(1)&lt;/script&gt;</title>");
+    expect(html).not.toContain("<script>");
+    expect(html).toContain("<strong>&lt;Live&gt; at &quot;Central Park&quot;</strong> – Simon &amp; Garfunkel");
+    // Spotify only where there's a match
+    expect(html.match(/>Spotify</g)).toHaveLength(1);
+  });
+
+  it("builds every format from the same tracks", () => {
+    expect(exportPlaylist("m3u8", tracks, options)).toBe(toM3U8(tracks, options));
+    expect(exportPlaylist("csv", tracks, options)).toBe(toCSV(tracks));
+  });
+});
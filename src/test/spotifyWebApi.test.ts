@@ -0,0 +1,125 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import {
+  SpotifyApiError,
+  createPlaylistWithTracks,
+  createSpotifyWebApi,
+} from "../../supabase/functions/_shared/spotifyWebApi.ts";
+
+// The edge functions run on Deno; only its env lookup is used here
+declare global {
+  const Deno: { env: { get(key: string): string | undefined } };
+}
+
+interface StubRequest {
+  method: string;
+  path: string;
+  auth?: string;
+  body: string;
+}
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+  });
+
+// A local Spotify: records every request and answers like the real API
+let server: Server;
+let requests: StubRequest[] = [];
+let failCover = false;
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const request = { method: req.method!, path: req.url!, auth: req.headers.authorization, body: await readBody(req) };
+    requests.push(request);
+    const json = (status: number, data: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify(data));
+    };
+
+    if (request.auth !== "Bearer user-token") return json(401, { error: { status: 401, message: "Invalid access token" } });
+    if (request.method === "GET" && request.path === "/v1/me") return json(200, { id: "opa jan" });
+    if (request.method === "POST" && request.path === "/v1/users/opa%20jan/playlists") {
+      return json(201, { id: "pl1", external_urls: { spotify: "https://open.spotify.test/playlist/pl1" } });
+    }
+    if (request.method === "POST" && request.path === "/v1/playlists/pl1/tracks") return json(201, { snapshot_id: "s1" });
+    if (request.method === "PUT" && request.path === "/v1/playlists/pl1/images") {
+      res.writeHead(failCover ? 413 : 202);
+      return res.end();
+    }
+    json(404, { error: { status: 404, message: "Not found" } });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  vi.stubGlobal("Deno", { env: { get: (key: string) => (key === "SPOTIFY_API_BASE_URL" ? `http://127.0.0.1:${port}/v1` : undefined) } });
+});
+
+afterAll(async () => {
+  vi.unstubAllGlobals();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe("Spotify Web API", () => {
+  beforeEach(() => {
+    requests = [];
+    failCover = false;
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("creates a private playlist and adds the tracks in batches of 100", async () => {
+    const trackIds = Array.from({ length: 150 }, (_, i) => `t${i}`);
+    const playlist = await createPlaylistWithTracks(createSpotifyWebApi("user-token"), {
+      name: "1969",
+      description: "Hits uit je geboortejaar",
+      trackIds: [...trackIds, "t0"],
+      coverImage: "/9j/4AAQ",
+    });
+
+    expect(playlist).toEqual({ id: "pl1", url: "https://open.spotify.test/playlist/pl1" });
+    expect(requests.map((r) => `${r.method} ${r.path}`)).toEqual([
+      "GET /v1/me",
+      "POST /v1/users/opa%20jan/playlists",
+      "POST /v1/playlists/pl1/tracks",
+      "POST /v1/playlists/pl1/tracks",
+      "PUT /v1/playlists/pl1/images",
+    ]);
+    expect(JSON.parse(requests[1].body)).toEqual({ name: "1969", description: "Hits uit je geboortejaar", public: false });
+    const added = requests.slice(2, 4).map((r) => JSON.parse(r.body).uris);
+    expect(added.map((uris) => uris.length)).toEqual([100, 50]);
+    expect(added[0][0]).toBe("spotify:track:t0");
+    expect(requests[4].body).toBe("/9j/4AAQ");
+  });
+
+  it("keeps the playlist when only the cover fails", async () => {
+    failCover = true;
+    const playlist = await createPlaylistWithTracks(createSpotifyWebApi("user-token"), {
+      name: "1969",
+      description: "",
+      trackIds: ["t1"],
+      coverImage: "/9j/4AAQ",
+    });
+
+    expect(playlist.id).toBe("pl1");
+    expect(console.warn).toHaveBeenCalledWith("[Spotify Playlist] Cover upload failed:", expect.any(SpotifyApiError));
+  });
+
+  it("fails with the status and Spotify's message", async () => {
+    const error = await createPlaylistWithTracks(createSpotifyWebApi("expired-token"), {
+      name: "1969",
+      description: "",
+      trackIds: ["t1"],
+    }).catch((e) => e);
+
+    expect(error).toBeInstanceOf(SpotifyApiError);
+    expect(error).toMatchObject({ status: 401, message: expect.stringContaining("GET /me failed: ") });
+    expect(error.message).toContain("Invalid access token");
+    expect(requests).toHaveLength(1);
+  });
+});
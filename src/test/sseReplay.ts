@@ -0,0 +1,110 @@
+/**
+ * Test harness that replays a recorded generate-timeline SSE stream through a
+ * mocked fetch, with optional disconnects injected per connection.
+ *
+ * Resume requests (body.resumeFrom) are answered the way the edge function
+ * does: no story header, and only events after the checkpoint's sequence number.
+ */
+
+export type DisconnectMode = 'error' | 'close' | 'stall';
+
+export interface ReplayConnection {
+  /** Cut the connection after this many frames have been sent. */
+  disconnectAfter?: number;
+  /** How the cut looks to the client (default: network error). */
+  mode?: DisconnectMode;
+}
+
+interface ResumeBody {
+  resumeFrom?: { afterSeq: number; deliveredTitles: string[] };
+}
+
+/** Splits a recorded SSE stream into its `data: ...` frames. */
+export function parseRecording(raw: string): string[] {
+  return raw.split('\n\n').filter((frame) => frame.startsWith('data: '));
+}
+
+const frameData = (frame: string) => {
+  const data = frame.slice(6).trim();
+  if (data === '[DONE]') return null;
+  return JSON.parse(data);
+};
+
+const framesForRequest = (frames: string[], body: ResumeBody): string[] => {
+  if (!body.resumeFrom) return frames;
+  const { afterSeq } = body.resumeFrom;
+  return frames.filter((frame) => {
+    const data = frameData(frame);
+    if (!data) return true;
+    if (data.type === 'storyTitle' || data.type === 'storyIntroduction') return false;
+    if (data.type === 'event') return data.seq > afterSeq;
+    return true;
+  });
+};
+
+/**
+ * Builds a fetch replacement. Connection N uses `connections[N]`; connections
+ * past the end of the list replay the (remaining) recording without faults.
+ */
+export function createReplayFetch(recording: string, connections: ReplayConnection[] = []) {
+  const frames = parseRecording(recording);
+  const requests: ResumeBody[] = [];
+  const encoder = new TextEncoder();
+
+  const fetchMock = async (_input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const body: ResumeBody = JSON.parse(String(init?.body ?? '{}'));
+    const connection = connections[requests.length] ?? {};
+    requests.push(body);
+
+    const toSend = framesForRequest(frames, body);
+    const cutAt = connection.disconnectAfter ?? Infinity;
+    const signal = init?.signal;
+
+    // Split every frame in two chunks to exercise the client's line buffering.
+    const chunks = toSend.slice(0, cutAt).flatMap((frame) => {
+      const text = `${frame}\n\n`;
+      const mid = Math.floor(text.length / 2);
+      return [text.slice(0, mid), text.slice(mid)];
+    });
+
+    // Pull-based so queued chunks reach the reader before an injected error.
+    const stream = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        const chunk = chunks.shift();
+        if (chunk !== undefined) {
+          controller.enqueue(encoder.encode(chunk));
+          return;
+        }
+
+        if (cutAt >= toSend.length) {
+          controller.close();
+          return;
+        }
+
+        switch (connection.mode ?? 'error') {
+          case 'close':
+            controller.close();
+            return;
+          case 'stall':
+            // Never send anything again; only the client's abort ends it.
+            return new Promise<void>((resolve) => {
+              signal?.addEventListener('abort', () => {
+                controller.error(new DOMException('The operation was aborted.', 'AbortError'));
+                resolve();
+              });
+            });
+          case 'error':
+            controller.error(new TypeError('network error'));
+            return;
+        }
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: { 'Content-Type': 'text/event-stream' },
+    });
+  };
+
+  return { fetch: fetchMock, requests };
+}
@@ -0,0 +1,85 @@
+import "fake-indexeddb/auto";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { clearLibrary, enforceQuota, getTimeline, listTimelines, putTimeline, readOverview, writeOverview } from "@/lib/timelineLibrary";
+import { cacheTimeline, getCachedTimeline, removeCachedTimeline, updateCachedEvents } from "@/lib/timelineCache";
+import type { FormData } from "@/types/form";
+
+const formData = (year: number): FormData => ({
+  type: "birthdate",
+  birthDate: { day: 20, month: 7, year },
+  optionalData: { gender: "none", focus: "netherlands", children: [] },
+} as unknown as FormData);
+
+const timeline = (key: string) => ({
+  key,
+  formData: formData(1969),
+  language: "nl",
+  events: [],
+  summary: key.repeat(200),
+  famousBirthdays: [],
+});
+
+// Every write stamps lastAccessedAt with the clock, so each step gets its own minute
+const at = (minute: number) => vi.setSystemTime(new Date(2026, 0, 1, 12, minute));
+
+const keys = async () => (await listTimelines()).map((entry) => entry.key).sort();
+
+describe("timeline library", () => {
+  beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    await clearLibrary();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it("evicts the least recently opened entries first", async () => {
+    at(1);
+    await putTimeline(timeline("a"));
+    at(2);
+    await putTimeline(timeline("b"));
+    at(3);
+    await writeOverview("music", { hits: ["x".repeat(200)] });
+    at(4);
+    await putTimeline(timeline("c"));
+    at(5);
+    await getTimeline("a");
+
+    // Room for three of the four: b was opened longest ago
+    const entries = await listTimelines();
+    const quota = entries.reduce((sum, entry) => sum + entry.sizeBytes, 0);
+    await enforceQuota(quota);
+
+    expect(await keys()).toEqual(["a", "c"]);
+    expect(await readOverview("music")).not.toBeNull();
+  });
+
+  it("keeps the library under the quota but never drops the entry just written", async () => {
+    at(1);
+    await putTimeline(timeline("a"));
+    at(2);
+    await putTimeline(timeline("b"));
+    const [b] = await listTimelines();
+
+    await enforceQuota(b.sizeBytes, "a");
+    expect(await keys()).toEqual(["a"]);
+
+    await enforceQuota(0, "a");
+    expect(await keys()).toEqual(["a"]);
+  });
+
+  it("caches timelines per form data and language", async () => {
+    await cacheTimeline(formData(1969), "nl", [], "Summary", [], { storyTitle: "1969" });
+    await updateCachedEvents(formData(1969), "nl", (events) => [...events, { id: "e1" } as never]);
+
+    expect(await getCachedTimeline(formData(1969), "en")).toBeNull();
+    expect(await getCachedTimeline(formData(1970), "nl")).toBeNull();
+    expect(await getCachedTimeline(formData(1969), "nl")).toMatchObject({ storyTitle: "1969", events: [{ id: "e1" }] });
+
+    await removeCachedTimeline(formData(1969), "nl");
+    expect(await getCachedTimeline(formData(1969), "nl")).toBeNull();
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { generateTimelineStreaming, StreamCallbacks } from "@/lib/api/timeline";
+import { FormData } from "@/types/form";
+import { TimelineEvent } from "@/types/timeline";
+import recording from "./fixtures/generate-timeline-stream.sse?raw";
+import { createReplayFetch, ReplayConnection } from "./sseReplay";
+
+const formData: FormData = {
+  type: "range",
+  yearRange: { startYear: 1984, endYear: 1986 },
+  optionalData: { gender: "none", attitude: "neutral", children: [], focus: "netherlands" },
+};
+
+const run = async (connections: ReplayConnection[], maxResumeAttempts?: number, stallTimeoutMs?: number) => {
+  const replay = createReplayFetch(recording, connections);
+  vi.stubGlobal("fetch", vi.fn(replay.fetch));
+
+  const streamed: TimelineEvent[] = [];
+  const callbacks: StreamCallbacks = {
+    onEvent: vi.fn((event) => streamed.push(event)),
+    onSummary: vi.fn(),
+    onFamousBirthdays: vi.fn(),
+    onStoryTitle: vi.fn(),
+    onStoryIntroduction: vi.fn(),
+    onComplete: vi.fn(),
+    onError: vi.fn(),
+  };
+
+  await generateTimelineStreaming(formData, "nl", callbacks, {
+    maxEvents: 20,
+    maxResumeAttempts,
+    resumeBaseDelayMs: 0,
+    stallTimeoutMs,
+  });
+
+  return { callbacks, streamed, requests: replay.requests };
+};
+
+describe("generateTimelineStreaming resume", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it("completes an uninterrupted stream on one connection", async () => {
+    const { callbacks, streamed, requests } = await run([]);
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].resumeFrom).toBeUndefined();
+    expect(streamed.map((e) => e.id)).toEqual(["evt_1", "evt_2", "evt_3", "evt_4", "evt_5"]);
+    expect(callbacks.onComplete).toHaveBeenCalledTimes(1);
+    expect(callbacks.onError).not.toHaveBeenCalled();
+  });
+
+  it("resumes after a network error with the delivered titles as checkpoint", async () => {
+    // storyTitle + storyIntroduction + 2 events, then the connection dies
+    const { callbacks, streamed, requests } = await run([{ disconnectAfter: 4, mode: "error" }]);
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].resumeFrom?.afterSeq).toBe(2);
+    expect(requests[1].resumeFrom?.deliveredTitles).toEqual([
+      "Het hele land keek naar de Elfstedentocht-beelden",
+      "Thriller draaide grijs op je cassettedeck",
+    ]);
+
+    expect(streamed).toHaveLength(5);
+    expect(callbacks.onStoryTitle).toHaveBeenCalledTimes(1);
+
+    const complete = vi.mocked(callbacks.onComplete).mock.calls[0][0];
+    expect(complete.events).toHaveLength(5);
+    expect(complete.storyTitle).toBe("Van cassettebandje tot homecomputer");
+    expect(callbacks.onError).not.toHaveBeenCalled();
+  });
+
+  it("resumes when the stream ends without a complete message", async () => {
+    const { callbacks, requests } = await run([{ disconnectAfter: 5, mode: "close" }]);
+
+    expect(requests).toHaveLength(2);
+    expect(requests[1].resumeFrom?.afterSeq).toBe(3);
+    expect(vi.mocked(callbacks.onComplete).mock.calls[0][0].events).toHaveLength(5);
+  });
+
+  it("survives several disconnects in a row", async () => {
+    const { callbacks, streamed, requests } = await run([
+      { disconnectAfter: 3, mode: "error" },
+      { disconnectAfter: 1, mode: "close" },
+      { disconnectAfter: 2, mode: "error" },
+    ]);
+
+    expect(requests.map((r) => r.resumeFrom?.afterSeq)).toEqual([undefined, 1, 2, 4]);
+    expect(new Set(streamed.map((e) => e.title)).size).toBe(5);
+    expect(callbacks.onComplete).toHaveBeenCalledTimes(1);
+  });
+
+  it("resumes after the stall timeout instead of giving up", async () => {
+    const { callbacks, requests } = await run([{ disconnectAfter: 4, mode: "stall" }], undefined, 50);
+
+    expect(requests).toHaveLength(2);
+    expect(vi.mocked(callbacks.onComplete).mock.calls[0][0].events).toHaveLength(5);
+  });
+
+  it("falls back to the collected events once resume attempts are exhausted", async () => {
+    const { callbacks, requests } = await run(
+      [
+        { disconnectAfter: 4, mode: "error" },
+        { disconnectAfter: 0, mode: "error" },
+        { disconnectAfter: 0, mode: "error" },
+      ],
+      2,
+    );
+
+    expect(requests).toHaveLength(3);
+    const complete = vi.mocked(callbacks.onComplete).mock.calls[0][0];
+    expect(complete.events).toHaveLength(2);
+    expect(callbacks.onError).not.toHaveBeenCalled();
+  });
+
+  it("reports an error when nothing arrived before the drop", async () => {
+    const { callbacks, requests } = await run([{ disconnectAfter: 2, mode: "close" }]);
+
+    expect(requests).toHaveLength(1);
+    expect(callbacks.onComplete).not.toHaveBeenCalled();
+    expect(callbacks.onError).toHaveBeenCalledTimes(1);
+  });
+});
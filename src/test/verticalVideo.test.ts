@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { estimateBpm } from "@/remotion/lib/audioUtils";
+import { getVerticalCuts, getVerticalIntroFrames } from "@/remotion/lib/vertical";
+import type { VideoEvent } from "@/remotion/types";
+
+const SAMPLE_RATE = 8000;
+
+// Short noise bursts on every beat, as a stand-in for a drum track
+const clickTrack = (bpm: number, seconds: number) => {
+  const samples = new Float32Array(SAMPLE_RATE * seconds);
+  const beat = (SAMPLE_RATE * 60) / bpm;
+  for (let start = 0; start < samples.length; start += beat) {
+    for (let i = 0; i < 200 && start + i < samples.length; i++) {
+      samples[Math.floor(start) + i] = Math.sin(i * 1.7) * (1 - i / 200);
+    }
+  }
+  return samples;
+};
+
+const highlight = (year: number) => ({ id: String(year), year }) as VideoEvent;
+
+describe("vertical video", () => {
+  it("measures the tempo of a song", () => {
+    expect(estimateBpm(clickTrack(100, 20), SAMPLE_RATE)).toBeCloseTo(100, -0.5);
+    expect(estimateBpm(clickTrack(128, 20), SAMPLE_RATE)).toBeCloseTo(128, -0.5);
+    expect(estimateBpm(new Float32Array(SAMPLE_RATE * 5), SAMPLE_RATE)).toBeNull();
+  });
+
+  it("cuts on the beats of the measured tempo", () => {
+    const fps = 30;
+    // 100 BPM: a beat every 18 frames, an eight-beat hook
+    const intro = getVerticalIntroFrames(150, fps, 100, true);
+    expect(intro).toBe(144);
+
+    const cuts = getVerticalCuts([highlight(1980), highlight(1990), highlight(2000)], intro, fps, 900, 100);
+    expect(cuts.map((cut) => cut.from)).toEqual([144, 396, 648]);
+    expect(cuts.every((cut) => cut.from % 18 === 0)).toBe(true);
+    expect(cuts[2].from + cuts[2].duration).toBe(900);
+  });
+});
@@ -24,22 +24,48 @@ export type ChildData = {
   birthDate?: BirthDateData;
 };
 
+// What marked the selected subculture, from the subculture dataset
+export type SubcultureProfile = {
+  description: string;
+  brands: string[];
+  music: string[];
+  clothing: string[];
+};
+
 // Subculture selection data
 export type SubcultureData = {
   myGroup: string | null;           // Selected subculture (or null for neutral)
   otherGroupsFromEra: string;       // All other available options as comma-separated string
-  availableOptions: string[];       // The 5 subcultures available for this era
+  availableOptions: string[];       // The subcultures available for this era
+  profile?: SubcultureProfile;      // Details of myGroup, for the prompt
+};
+
+// Canonical place from the gazetteer (see src/lib/gazetteer.ts), set when the
+// user picks a city suggestion. Only valid while `city` still equals `name`.
+export type CityPlace = {
+  geonameId: number;
+  name: string;                     // Canonical city name, e.g. "Leipzig"
+  region?: string;                  // First-level region, e.g. "Sachsen"
+  regionCode?: string;              // GeoNames admin1 code, e.g. "13"
+  countryCode: string;              // ISO 3166-1 alpha-2, e.g. "DE"
+  lat: number;
+  lng: number;
 };
 
 export type OptionalData = {
   firstName?: string;
   lastName?: string;
   city?: string;
+  place?: CityPlace;                // Set by the city autocomplete
   gender: Gender;
   attitude: Attitude;
   children: ChildData[];
   partnerName?: string;
   partnerBirthDate?: BirthDateData;
+  siblings?: ChildData[];
+  // Shared "years together" timeline for the user + partner/siblings (see src/lib/sharedTimeline.ts)
+  sharedTimeline?: boolean;
+  metYear?: number;                 // "The year we met" anchor in a shared timeline
   interests?: string;
   focus: GeographicFocus;
   periodType?: PeriodType;
@@ -6,6 +6,26 @@ export interface SearchTraceEntry {
   result: 'found' | 'not_found' | 'error';
   timestamp: number;        // ms since start
   imageUrl?: string;        // The found image URL (when result is 'found')
+  score?: number;           // Provider confidence (0-1) of that image
+}
+
+// Who made an image and on which terms it may be used (see src/lib/imageCredits.ts)
+export interface ImageCredit {
+  author?: string;
+  license?: string;         // e.g. "CC BY-SA 4.0", "Public domain"
+  licenseUrl?: string;
+  sourceUrl?: string;       // Description page of the image, linked from the attribution
+  redistributable?: boolean; // false: may not be republished (e.g. fair use); unset: not stated
+}
+
+// An image the search found for an event, offered in the image picker
+export interface ImageCandidate {
+  imageUrl: string;
+  source: string;           // Page the image was found on, or a label like "DDG/Tol"
+  score: number;            // Confidence (0-1) in the match
+  credit?: ImageCredit;     // When the source states author or license
+  width?: number;           // Size of the original image, when known
+  height?: number;
 }
 
 export interface TimelineEvent {
@@ -41,6 +61,24 @@ export interface TimelineEvent {
   
   // NEW: Detailed search trace for debugging
   searchTrace?: SearchTraceEntry[];
+
+  // Best images the search found, imageUrl among them; the image picker offers these
+  imageCandidates?: ImageCandidate[];
+  // Attribution of imageUrl, when it is a found image
+  imageCredit?: ImageCredit;
+
+  // Shared timelines: ids of the people this event belongs to (see src/lib/sharedTimeline.ts)
+  people?: string[];
+
+  // Set when imageUrl is a photo the user uploaded (see src/lib/photoUpload.ts)
+  userPhoto?: UserPhoto;
+}
+
+export interface UserPhoto {
+  originalUrl: string;     // Public URL of the original in the story-assets bucket
+  storagePath?: string;    // <owner>/photos/<file> within story-assets
+  fileName: string;
+  capturedAt?: string;     // EXIF capture date, YYYY-MM-DD
 }
 
 // ... (rest van het bestand blijft hetzelfde)
@@ -0,0 +1,204 @@
+/**
+ * Historical borders: the state a place belonged to in a given year, when
+ * that differs from today's country. Someone born in Leipzig in 1975 grew up
+ * in the GDR, someone from Ljubljana in Yugoslavia, someone from Paramaribo
+ * in a Dutch colony.
+ *
+ * Places are matched on today's ISO country code, the GeoNames admin1 code
+ * (German Länder) and, where a border ran through a city or country (Berlin,
+ * Vietnam), on coordinates. Years are whole calendar years: a state counts
+ * for every year it existed in, so 1990 is still a GDR year.
+ *
+ * Mirror of src/lib/historicalBorders.ts - keep both in sync.
+ */
+import type { Language } from "./languages.ts";
+
+export interface PlaceLocation {
+  /** Today's ISO 3166-1 alpha-2 code */
+  countryCode: string;
+  /** GeoNames admin1 code */
+  regionCode?: string;
+  lat?: number;
+  lng?: number;
+}
+
+export interface Polity {
+  /**
+   * Stable id; the former ISO code where one existed (DD, SU, YU, CS), so
+   * datasets can key on it (see the DD entries in subcultures.json).
+   */
+  id: string;
+  names: Record<Language, string>;
+}
+
+interface BorderRule {
+  polity: Polity;
+  countries: string[];
+  /** Only these admin1 codes of the countries */
+  regions?: string[];
+  /** Inclusive; open-ended when left out */
+  from?: number;
+  to: number;
+  /** Narrows the rule by coordinates; places without coordinates never match */
+  area?: (lat: number, lng: number) => boolean;
+}
+
+const polity = (
+  id: string,
+  nl: string,
+  en: string,
+  de: string,
+  fr: string,
+  es: string,
+  it: string,
+  pt: string,
+  pl: string,
+): Polity => ({
+  id,
+  names: { nl, en, de, fr, es, it, pt, pl },
+});
+
+const GDR = polity("DD", "Oost-Duitsland (DDR)", "East Germany (GDR)", "DDR", "Allemagne de l'Est (RDA)", "Alemania Oriental (RDA)", "Germania Est (DDR)", "Alemanha Oriental (RDA)", "NRD (Niemcy Wschodnie)");
+const FRG = polity("DE-W", "West-Duitsland (BRD)", "West Germany (FRG)", "BRD", "Allemagne de l'Ouest (RFA)", "Alemania Occidental (RFA)", "Germania Ovest (RFT)", "Alemanha Ocidental (RFA)", "RFN (Niemcy Zachodnie)");
+const DIVIDED_BERLIN = polity("BERLIN", "gedeeld Berlijn (Oost/West)", "divided Berlin (East/West)", "geteiltes Berlin (Ost/West)", "Berlin divisé (Est/Ouest)", "Berlín dividido (Este/Oeste)", "Berlino divisa (Est/Ovest)", "Berlim dividida (Leste/Oeste)", "podzielony Berlin (Wschód/Zachód)");
+const USSR = polity("SU", "Sovjet-Unie", "Soviet Union", "Sowjetunion", "Union soviétique", "Unión Soviética", "Unione Sovietica", "União Soviética", "Związek Radziecki");
+const YUGOSLAVIA = polity("YU", "Joegoslavië", "Yugoslavia", "Jugoslawien", "Yougoslavie", "Yugoslavia", "Jugoslavia", "Jugoslávia", "Jugosławia");
+const FR_YUGOSLAVIA = polity("YU-FR", "Federale Republiek Joegoslavië", "Federal Republic of Yugoslavia", "Bundesrepublik Jugoslawien", "République fédérale de Yougoslavie", "República Federal de Yugoslavia", "Repubblica Federale di Jugoslavia", "República Federal da Jugoslávia", "Federalna Republika Jugosławii");
+const SERBIA_MONTENEGRO = polity("CS-SM", "Servië en Montenegro", "Serbia and Montenegro", "Serbien und Montenegro", "Serbie-et-Monténégro", "Serbia y Montenegro", "Serbia e Montenegro", "Sérvia e Montenegro", "Serbia i Czarnogóra");
+const CZECHOSLOVAKIA = polity("CS", "Tsjechoslowakije", "Czechoslovakia", "Tschechoslowakei", "Tchécoslovaquie", "Checoslovaquia", "Cecoslovacchia", "Checoslováquia", "Czechosłowacja");
+const DUTCH_EAST_INDIES = polity("NL-IN", "Nederlands-Indië", "Dutch East Indies", "Niederländisch-Indien", "Indes orientales néerlandaises", "Indias Orientales Neerlandesas", "Indie orientali olandesi", "Índias Orientais Neerlandesas", "Holenderskie Indie Wschodnie");
+const DUTCH_SURINAME = polity("NL-SR", "Suriname (Nederlandse kolonie)", "Suriname (Dutch colony)", "Suriname (niederländische Kolonie)", "Suriname (colonie néerlandaise)", "Surinam (colonia neerlandesa)", "Suriname (colonia olandese)", "Suriname (colónia neerlandesa)", "Surinam (kolonia holenderska)");
+const NETHERLANDS_ANTILLES = polity("AN", "Nederlandse Antillen", "Netherlands Antilles", "Niederländische Antillen", "Antilles néerlandaises", "Antillas Neerlandesas", "Antille olandesi", "Antilhas Neerlandesas", "Antyle Holenderskie");
+const BRITISH_INDIA = polity("GB-IN", "Brits-Indië", "British India", "Britisch-Indien", "Inde britannique", "India británica", "India britannica", "Índia Britânica", "Indie Brytyjskie");
+const EAST_PAKISTAN = polity("PK-E", "Oost-Pakistan", "East Pakistan", "Ostpakistan", "Pakistan oriental", "Pakistán Oriental", "Pakistan orientale", "Paquistão Oriental", "Pakistan Wschodni");
+const FRENCH_ALGERIA = polity("FR-DZ", "Frans-Algerije", "French Algeria", "Französisch-Algerien", "Algérie française", "Argelia francesa", "Algeria francese", "Argélia Francesa", "Algieria Francuska");
+const BELGIAN_CONGO = polity("BE-CD", "Belgisch-Congo", "Belgian Congo", "Belgisch-Kongo", "Congo belge", "Congo Belga", "Congo belga", "Congo Belga", "Kongo Belgijskie");
+const ZAIRE = polity("ZR", "Zaïre", "Zaire", "Zaire", "Zaïre", "Zaire", "Zaire", "Zaire", "Zair");
+const BRITISH_HONG_KONG = polity("GB-HK", "Brits Hongkong", "British Hong Kong", "Britisch-Hongkong", "Hong Kong britannique", "Hong Kong británico", "Hong Kong britannica", "Hong Kong britânico", "Brytyjski Hongkong");
+const PORTUGUESE_MACAU = polity("PT-MO", "Portugees Macau", "Portuguese Macau", "Portugiesisch-Macau", "Macao portugais", "Macao portugués", "Macao portoghese", "Macau português", "Portugalskie Makau");
+const PORTUGUESE_AFRICA = polity("PT-AF", "Portugees Afrika (kolonie)", "Portuguese Africa (colony)", "Portugiesisch-Afrika (Kolonie)", "Afrique portugaise (colonie)", "África portuguesa (colonia)", "Africa portoghese (colonia)", "África Portuguesa (colónia)", "Afryka Portugalska (kolonia)");
+const RHODESIA = polity("RH", "Rhodesië", "Rhodesia", "Rhodesien", "Rhodésie", "Rodesia", "Rhodesia", "Rodésia", "Rodezja");
+const FRENCH_INDOCHINA = polity("FR-IC", "Frans-Indochina", "French Indochina", "Französisch-Indochina", "Indochine française", "Indochina francesa", "Indocina francese", "Indochina Francesa", "Indochiny Francuskie");
+const NORTH_VIETNAM = polity("VD", "Noord-Vietnam", "North Vietnam", "Nordvietnam", "Nord-Viêt Nam", "Vietnam del Norte", "Vietnam del Nord", "Vietname do Norte", "Wietnam Północny");
+const SOUTH_VIETNAM = polity("VN-S", "Zuid-Vietnam", "South Vietnam", "Südvietnam", "Sud-Viêt Nam", "Vietnam del Sur", "Vietnam del Sud", "Vietname do Sul", "Wietnam Południowy");
+const JAPANESE_KOREA = polity("JP-KR", "Korea (onder Japans bestuur)", "Korea (under Japanese rule)", "Korea (unter japanischer Herrschaft)", "Corée (sous domination japonaise)", "Corea (bajo dominio japonés)", "Corea (sotto il dominio giapponese)", "Coreia (sob domínio japonês)", "Korea (pod panowaniem japońskim)");
+const CEYLON = polity("LK-C", "Ceylon", "Ceylon", "Ceylon", "Ceylan", "Ceilán", "Ceylon", "Ceilão", "Cejlon");
+const BURMA = polity("BU", "Birma", "Burma", "Birma", "Birmanie", "Birmania", "Birmania", "Birmânia", "Birma");
+const UPPER_VOLTA = polity("HV", "Opper-Volta", "Upper Volta", "Obervolta", "Haute-Volta", "Alto Volta", "Alto Volta", "Alto Volta", "Górna Wolta");
+const DAHOMEY = polity("DY", "Dahomey", "Dahomey", "Dahomey", "Dahomey", "Dahomey", "Dahomey", "Daomé", "Dahomej");
+
+// GeoNames admin1 codes of the Länder that formed the GDR, and of Berlin
+const GDR_REGIONS = ["11", "12", "13", "14", "15"];
+const BERLIN_REGION = "16";
+
+// West Berlin, roughly along the Wall (lat, lng). Good enough to place a
+// district (Spandau, Kreuzberg) on the right side; not for street level.
+const WEST_BERLIN: [number, number][] = [
+  [52.5163, 13.3777], [52.5096, 13.376], [52.5075, 13.3904], [52.5065, 13.415],
+  [52.5015, 13.4457], [52.488, 13.459], [52.46, 13.47], [52.41, 13.52],
+  [52.388, 13.4], [52.4, 13.35], [52.405, 13.25], [52.415, 13.11],
+  [52.47, 13.115], [52.53, 13.115], [52.62, 13.2], [52.655, 13.3],
+  [52.59, 13.36], [52.555, 13.398], [52.535, 13.39], [52.529, 13.377],
+  [52.52, 13.376],
+];
+
+// Ray casting; fine for a small polygon away from the poles and date line
+const inPolygon = (lat: number, lng: number, polygon: [number, number][]) => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [latI, lngI] = polygon[i];
+    const [latJ, lngJ] = polygon[j];
+    if (lngI > lng !== lngJ > lng && lat < ((latJ - latI) * (lng - lngI)) / (lngJ - lngI) + latI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const inWestBerlin = (lat: number, lng: number) => inPolygon(lat, lng, WEST_BERLIN);
+
+// First match wins, so narrower rules (by region or area) come before the
+// country-wide ones.
+const RULES: BorderRule[] = [
+  // Germany, 7 October 1949 - 3 October 1990
+  { polity: GDR, countries: ["DE"], regions: GDR_REGIONS, from: 1949, to: 1990 },
+  { polity: FRG, countries: ["DE"], regions: [BERLIN_REGION], from: 1949, to: 1990, area: inWestBerlin },
+  { polity: GDR, countries: ["DE"], regions: [BERLIN_REGION], from: 1949, to: 1990, area: (lat, lng) => !inWestBerlin(lat, lng) },
+  { polity: DIVIDED_BERLIN, countries: ["DE"], regions: [BERLIN_REGION], from: 1949, to: 1990 },
+  { polity: FRG, countries: ["DE"], from: 1949, to: 1990 },
+
+  // Soviet Union, 1922 - 1991; the Baltic states and Moldova from 1940
+  { polity: USSR, countries: ["RU", "UA", "BY", "AM", "AZ", "GE", "KZ", "KG", "TJ", "TM", "UZ"], from: 1922, to: 1991 },
+  { polity: USSR, countries: ["EE", "LV", "LT", "MD"], from: 1940, to: 1991 },
+
+  // Yugoslavia: Slovenia, Croatia and North Macedonia left in 1991, Bosnia in
+  // 1992; Serbia and Montenegro (with Kosovo) carried on under two names
+  { polity: YUGOSLAVIA, countries: ["SI", "HR", "MK"], from: 1918, to: 1991 },
+  { polity: YUGOSLAVIA, countries: ["BA", "RS", "ME", "XK"], from: 1918, to: 1992 },
+  { polity: FR_YUGOSLAVIA, countries: ["RS", "ME", "XK"], from: 1993, to: 2002 },
+  { polity: SERBIA_MONTENEGRO, countries: ["RS", "ME", "XK"], from: 2003, to: 2005 },
+
+  // Czechoslovakia, 1918 - 1992
+  { polity: CZECHOSLOVAKIA, countries: ["CZ", "SK"], from: 1918, to: 1992 },
+
+  // Dutch colonies and the Netherlands Antilles
+  { polity: DUTCH_EAST_INDIES, countries: ["ID"], to: 1949 },
+  { polity: DUTCH_SURINAME, countries: ["SR"], to: 1975 },
+  { polity: NETHERLANDS_ANTILLES, countries: ["CW", "SX", "BQ"], from: 1954, to: 2010 },
+  { polity: NETHERLANDS_ANTILLES, countries: ["AW"], from: 1954, to: 1985 },
+
+  // Other colonies and renamed states
+  { polity: BRITISH_INDIA, countries: ["IN", "PK", "BD"], to: 1947 },
+  { polity: EAST_PAKISTAN, countries: ["BD"], from: 1948, to: 1971 },
+  { polity: FRENCH_ALGERIA, countries: ["DZ"], to: 1962 },
+  { polity: BELGIAN_CONGO, countries: ["CD"], from: 1908, to: 1960 },
+  { polity: ZAIRE, countries: ["CD"], from: 1971, to: 1997 },
+  { polity: BRITISH_HONG_KONG, countries: ["HK"], to: 1997 },
+  { polity: PORTUGUESE_MACAU, countries: ["MO"], to: 1999 },
+  { polity: PORTUGUESE_AFRICA, countries: ["AO", "MZ", "CV", "ST"], to: 1975 },
+  { polity: PORTUGUESE_AFRICA, countries: ["GW"], to: 1974 },
+  { polity: RHODESIA, countries: ["ZW"], from: 1965, to: 1979 },
+  { polity: FRENCH_INDOCHINA, countries: ["VN", "LA", "KH"], to: 1954 },
+  // Divided at the 17th parallel until reunification in 1976
+  { polity: NORTH_VIETNAM, countries: ["VN"], from: 1955, to: 1976, area: (lat) => lat >= 17 },
+  { polity: SOUTH_VIETNAM, countries: ["VN"], from: 1955, to: 1975, area: (lat) => lat < 17 },
+  { polity: JAPANESE_KOREA, countries: ["KR", "KP"], from: 1910, to: 1945 },
+  { polity: CEYLON, countries: ["LK"], to: 1972 },
+  { polity: BURMA, countries: ["MM"], to: 1989 },
+  { polity: UPPER_VOLTA, countries: ["BF"], to: 1984 },
+  { polity: DAHOMEY, countries: ["BJ"], to: 1975 },
+];
+
+const matches = (rule: BorderRule, place: PlaceLocation, year: number) => {
+  if (!rule.countries.includes(place.countryCode)) return false;
+  if (year > rule.to || (rule.from !== undefined && year < rule.from)) return false;
+  if (rule.regions && !rule.regions.includes(place.regionCode ?? "")) return false;
+  if (rule.area) {
+    if (place.lat === undefined || place.lng === undefined) return false;
+    return rule.area(place.lat, place.lng);
+  }
+  return true;
+};
+
+/** The state the place belonged to in `year`, or null when that is today's country. */
+export const getHistoricalPolity = (place: PlaceLocation, year: number): Polity | null =>
+  RULES.find((rule) => matches(rule, place, year))?.polity ?? null;
+
+/**
+ * The states a place belonged to over a year range, as consecutive spans.
+ * `polity` is null for the years it was in today's country.
+ */
+export const getPolityTimeline = (
+  place: PlaceLocation,
+  startYear: number,
+  endYear: number,
+): { polity: Polity | null; from: number; to: number }[] => {
+  const spans: { polity: Polity | null; from: number; to: number }[] = [];
+  for (let year = startYear; year <= endYear; year++) {
+    const current = getHistoricalPolity(place, year);
+    const last = spans[spans.length - 1];
+    if (last && last.polity?.id === current?.id) last.to = year;
+    else spans.push({ polity: current, from: year, to: year });
+  }
+  return spans;
+};
@@ -0,0 +1,59 @@
+// Supported app languages for edge functions.
+// Mirrors Language / SUPPORTED_LANGUAGES / LOCALE_TAGS in src/lib/i18n/languages.ts.
+
+export type Language = "nl" | "en" | "de" | "fr" | "es" | "it" | "pt" | "pl";
+
+export const SUPPORTED_LANGUAGES: readonly Language[] = ["nl", "en", "de", "fr", "es", "it", "pt", "pl"];
+
+/** English language names, for instructions inside English-language prompts. */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  nl: "Dutch",
+  en: "English",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+  it: "Italian",
+  pt: "Portuguese",
+  pl: "Polish",
+};
+
+/** Language names in the language itself, for prompts that say "write in <language>". */
+export const NATIVE_LANGUAGE_NAMES: Record<Language, string> = {
+  nl: "Nederlands",
+  en: "English",
+  de: "Deutsch",
+  fr: "Français",
+  es: "Español",
+  it: "Italiano",
+  pt: "Português",
+  pl: "Polski",
+};
+
+/** BCP 47 tags, used for Google TTS voices and og:locale. */
+export const LOCALE_TAGS: Record<Language, string> = {
+  nl: "nl-NL",
+  en: "en-US",
+  de: "de-DE",
+  fr: "fr-FR",
+  es: "es-ES",
+  it: "it-IT",
+  pt: "pt-PT",
+  pl: "pl-PL",
+};
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && (SUPPORTED_LANGUAGES as readonly string[]).includes(value);
+}
+
+/** Falls back to Dutch, the app's default, for missing or unknown codes. */
+export function normalizeLanguage(value: unknown): Language {
+  return isLanguage(value) ? value : "nl";
+}
+
+/**
+ * Whether a free-text music style already names a language ("Dutch vocals").
+ * Whole words only, so "polished" does not count as Polish.
+ */
+export function mentionsLanguage(text: string): boolean {
+  return Object.values(LANGUAGE_NAMES).some((name) => new RegExp(`\\b${name}\\b`, "i").test(text));
+}
@@ -0,0 +1,48 @@
+/**
+ * Country names for gazetteer places, by year. A city's country today is not
+ * always the country the user grew up in: Leipzig in 1975 was in the GDR
+ * (see historicalBorders.ts).
+ *
+ * Mirror of src/lib/placeNames.ts - keep both in sync.
+ */
+import { getHistoricalPolity } from "./historicalBorders.ts";
+import type { PlaceLocation } from "./historicalBorders.ts";
+import type { Language } from "./languages.ts";
+
+/** The place fields the edge functions receive from the form (OptionalData.place) */
+export type PlaceCountry = PlaceLocation;
+
+/** Today's name of an ISO country code, in the given language. */
+export const getCountryName = (countryCode: string, language: Language = "nl"): string => {
+  try {
+    return new Intl.DisplayNames([language], { type: "region" }).of(countryCode) ?? countryCode;
+  } catch {
+    return countryCode;
+  }
+};
+
+/** The name of the country a place belonged to in `year`. */
+export const getCountryNameForYear = (place: PlaceCountry, year: number, language: Language = "nl"): string =>
+  getHistoricalPolity(place, year)?.names[language] ?? getCountryName(place.countryCode, language);
+
+/**
+ * The country names of a place over a year range, e.g.
+ * "Oost-Duitsland (DDR) (1975-1990), Duitsland (1991-1995)". A single name
+ * when nothing changed.
+ */
+export const describePlaceCountries = (
+  place: PlaceCountry,
+  startYear: number,
+  endYear: number,
+  language: Language = "nl",
+): string => {
+  const spans: { name: string; from: number; to: number }[] = [];
+  for (let year = startYear; year <= endYear; year++) {
+    const name = getCountryNameForYear(place, year, language);
+    const last = spans[spans.length - 1];
+    if (last?.name === name) last.to = year;
+    else spans.push({ name, from: year, to: year });
+  }
+  if (spans.length <= 1) return spans[0]?.name ?? getCountryName(place.countryCode, language);
+  return spans.map(({ name, from, to }) => `${name} (${from === to ? from : `${from}-${to}`})`).join(", ");
+};
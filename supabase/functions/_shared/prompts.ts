@@ -3,6 +3,8 @@
  * AI PROMPTS CONFIGURATIE
  * =============================================================================
  */
+import { getPolityTimeline } from "./historicalBorders.ts";
+import { describePlaceCountries, getCountryName } from "./placeNames.ts";
 
 // =============================================================================
 // TAAL INSTRUCTIES
@@ -12,6 +14,10 @@ export const LANGUAGE_INSTRUCTIONS: Record<string, string> = {
   en: "Write all text in English.",
   de: "Schreibe alle Texte auf Deutsch.",
   fr: "Écrivez tout le texte en français.",
+  es: "Escribe todo el texto en español.",
+  it: "Scrivi tutto il testo in italiano.",
+  pt: "Escreve todo o texto em português europeu.",
+  pl: "Pisz cały tekst po polsku.",
 };
 
 // =============================================================================
@@ -604,11 +610,40 @@ export const GEOGRAPHIC_FOCUS: Record<string, string> = {
   world: "\nFocus: Wereld.",
 };
 
+// De staat waarin de plaats in die jaren lag, als die anders was dan nu
+// (Leipzig 1975 -> DDR, Ljubljana 1985 -> Joegoslavië). Leeg als er niets
+// veranderde. Hoort bij de geografische focus: die geldt dan vanuit dat land.
+export const HISTORICAL_POLITY_ADDITION = (
+  place: { name: string; countryCode: string; regionCode?: string; lat?: number; lng?: number },
+  years: { startYear: number; endYear: number },
+) => {
+  if (!getPolityTimeline(place, years.startYear, years.endYear).some((span) => span.polity)) return "";
+  return `\nHistorisch land: ${place.name} lag in deze jaren in ${describePlaceCountries(
+    place,
+    years.startYear,
+    years.endYear,
+  )}, niet in het huidige ${getCountryName(place.countryCode)}. Kies nieuws, media, muziek, producten en het dagelijks leven zoals ze daar toen waren (bijv. staatsmedia, wat wel en niet verkrijgbaar was) en gebruik de toenmalige namen.`;
+};
+
 export const INTERESTS_ADDITION = (interests: string) => `\nInteresses: ${interests}.`;
 
-export const CITY_ADDITION = (city: string) => `
+// Canonieke plaats uit de gazetteer (stad-autocomplete): regio en het land
+// zoals het in die jaren heette (bijv. Leipzig 1975 -> Oost-Duitsland).
+export const CITY_ADDITION = (
+  city: string,
+  place?: { name: string; region?: string; countryCode: string; regionCode?: string; lat?: number; lng?: number },
+  years?: { startYear: number; endYear: number },
+) => {
+  const placeLine = place
+    ? `\nExacte plaats: ${[place.name, place.region].filter(Boolean).join(", ")} - land: ${
+        years ? describePlaceCountries(place, years.startYear, years.endYear) : getCountryName(place.countryCode)
+      }. Gebruik dit land, ook als de plaatsnaam elders ook voorkomt.`
+    : "";
+
+  return `
 CRUCIAAL - LOKALE LENS (${city}):
-De gebruiker groeide op in **${city}**. Behandel dit als de exacte stad/plaats die opgegeven is — verwar het NIET met een andere plaats met een vergelijkbare naam, en vermeng het NOOIT met namen van andere steden of dorpen. Als de stad in een ander land ligt dan Nederland, gebruik dan archetypen, plekken, eet- en drinkgewoonten en straatcultuur die typisch zijn voor DAT land/stad — geen Nederlandse referenties zoals 'snackbar', 'kelderdiscotheek' of 'frietkot' tenzij ${city} daadwerkelijk in Nederland of België ligt.
+De gebruiker groeide op in **${city}**.${placeLine}
+Behandel dit als de exacte stad/plaats die opgegeven is — verwar het NIET met een andere plaats met een vergelijkbare naam, en vermeng het NOOIT met namen van andere steden of dorpen. Als de stad in een ander land ligt dan Nederland, gebruik dan archetypen, plekken, eet- en drinkgewoonten en straatcultuur die typisch zijn voor DAT land/stad — geen Nederlandse referenties zoals 'snackbar', 'kelderdiscotheek' of 'frietkot' tenzij ${city} daadwerkelijk in Nederland of België ligt.
 
 Gebruik **archetypische, cultureel passende beschrijvingen** voor ${city}:
 1. **De Hotspots:** De typische lokale uitgaansplek, de eet-/drinkgelegenheid op de hoek, de vaste hangplek (plein, park, fontein, plaza, square — kies wat past bij ${city}).
@@ -616,6 +651,7 @@ Gebruik **archetypische, cultureel passende beschrijvingen** voor ${city}:
 3. **Lokale Sfeer:** Het specifieke gevoel van wonen in ${city} (provinciaal vs. metropolitaans, kustplaats, bergstadje, hoofdstad), en de verhouding tot omliggende plaatsen of regio's.
 
 Gebruik altijd correct gespelde plaatsnamen; zet nooit de naam van een andere stad achter ${city}.`;
+};
 
 export const CHILDREN_ADDITION = (childrenInfo: string[]) => `\nKinderen: ${childrenInfo.join(", ")}`;
 
@@ -680,18 +716,44 @@ Bekijk de events vanuit het perspectief van een meisje/vrouw die opgroeit in dez
   return "";
 };
 
-export const SUBCULTURE_ADDITION = (myGroup: string, otherGroupsFromEra: string[], geoFocus: string) => {
+export const SUBCULTURE_ADDITION = (
+  myGroup: string,
+  otherGroupsFromEra: string[],
+  geoFocus: string,
+  profile?: { description: string; brands: string[]; music: string[]; clothing: string[] },
+) => {
   const othersList = otherGroupsFromEra.filter((g) => g.toLowerCase() !== myGroup.toLowerCase()).join(", ");
 
   // Bepaal context voor merken
   const locationContext = geoFocus === "netherlands" ? "in Nederland" : "in deze regio";
 
+  // Profiel uit de subcultuur-dataset: beschrijving en iconische merken/muziek/kleding
+  const profileDetails = profile
+    ? (
+        [
+          ["Merken", profile.brands],
+          ["Muziek", profile.music],
+          ["Kleding", profile.clothing],
+        ] as const
+      )
+        .filter(([, items]) => items.length > 0)
+        .map(([label, items]) => `   - ${label}: ${items.join(", ")}`)
+        .join("\n")
+    : "";
+  const profileBlock = profile
+    ? `
+Wie waren **${myGroup}**? ${profile.description}
+Iconisch voor deze groep:
+${profileDetails}
+`
+    : "";
+
   return `
 SUBCULTUUR & IDENTITEIT (WIJ vs DE REST):
 De gebruiker hoorde bij: **"${myGroup}"**.
-
+${profileBlock}
 1. **De 'In-Group' (Wij):**
-   - Focus op de muziek, kleding en **MERKEN** die statussymbolen waren voor **${myGroup}** ${locationContext}.
+   - Focus op de muziek, kleding en **MERKEN** die statussymbolen waren voor **${myGroup}** ${locationContext}.${profile ? "\n   - Gebruik het profiel hierboven als vertrekpunt, niet als volledige lijst." : ""}
    - *Check:* Zijn deze merken logisch voor ${locationContext}? (Bijv. in NL: Australian trainingspakken voor Gabbers, kistjes voor Alto's).
    
 2. **De 'Out-Group' (Zij - ${othersList}):**
@@ -728,3 +790,55 @@ STYLGIDS VOOR REACTIES (Kies per event de best passende):
 
 BELANGRIJK: Schrijf alsof je met een oude vriend in de kroeg herinneringen ophaalt. Zoek bij elk event naar het "Gênante Detail".
 `;
+
+// =============================================================================
+// HERVATTEN (RESUME) NA VERBROKEN STREAM
+// =============================================================================
+export const RESUME_ADDITION = (deliveredTitles: string[], remaining?: number) => `
+HERVATTEN - DIT VERHAAL IS AL GEDEELTELIJK VERSTUURD:
+De gebruiker heeft de volgende ${deliveredTitles.length} events al ontvangen:
+${deliveredTitles.map((title) => `- ${title}`).join("\n")}
+
+1. Stuur GEEN storyTitle en GEEN storyIntroduction - die heeft de gebruiker al.
+2. Herhaal NIET één van bovenstaande events, ook niet met een andere titel.
+3. Ga verder met ${remaining ? `de resterende ${remaining} events` : "de resterende events"} zodat het één doorlopend verhaal blijft, daarna summary en famousBirthdays.
+`;
+
+// Gedeelde tijdlijn: één verhaal voor meerdere personen (partner, broers/zussen).
+// Elk event krijgt de ids mee van de personen voor wie het speelt.
+export const SHARED_TIMELINE_ADDITION = (
+  people: { id: string; name: string; birthYear?: number }[],
+  metYear?: number,
+) => `
+GEDEELDE TIJDLIJN - ${people.length} PERSONEN:
+Dit is één gezamenlijke tijdlijn voor:
+${people.map((p) => `- id "${p.id}": ${p.name}${p.birthYear ? `, geboren in ${p.birthYear}` : ""}`).join("\n")}
+
+1. Kies events die herkenbaar zijn voor deze personen, verdeeld over ALLE personen - niet alleen vanuit de hoofdpersoon.
+2. Voeg aan ELK event het veld "people" toe: een array met de ids van de personen voor wie dit event speelde, bv. "people":["self","partner"]. Een event dat iedereen raakte krijgt alle ids.
+3. Houd rekening met hun leeftijd in dat jaar: een 12-jarige beleefde iets anders dan een 9-jarige. Noem in de description wie hoe oud was als dat het verhaal sterker maakt (bv. "jij was 12, ${people[1]?.name ?? "je partner"} was 9").
+4. Schrijf de storyIntroduction in de "jullie"-vorm.${
+  metYear
+    ? `
+5. In ${metYear} ontmoetten ze elkaar: neem een event uit ${metYear} op dat de sfeer van dat jaar vangt, met alle ids in "people".`
+    : ""
+}
+`;
+
+// Eén event vervangen: de gebruiker vond een event niet passend en wil iets anders
+// uit hetzelfde jaar en dezelfde categorie, zonder dubbelingen met de rest van de tijdlijn.
+export const REPLACE_EVENT_ADDITION = (
+  year: number,
+  category: string,
+  replacedTitle: string,
+  excludeTitles: string[],
+  month?: number,
+) => `
+VERVANG ÉÉN EVENT - GEEN NIEUWE TIJDLIJN:
+De gebruiker wil het event "${replacedTitle}" vervangen door iets anders.
+1. Genereer PRECIES 1 event uit het jaar ${year}${month ? ` (bij voorkeur maand ${month})` : ""} in de categorie "${category}".
+2. Het moet over een ANDER onderwerp gaan dan deze events die al op de tijdlijn staan:
+${excludeTitles.map((title) => `- ${title}`).join("\n")}
+3. Stuur GEEN storyTitle, GEEN storyIntroduction, GEEN summary en GEEN famousBirthdays - alleen de ene event-regel.
+4. Houd dezelfde toon, het perspectief en de lengte aan als de rest van het verhaal, en vul imageSearchQuery en imageSearchQueryEn in.
+`;
@@ -0,0 +1,164 @@
+/**
+ * Spotify Web API - the small slice needed to create a playlist in a user's
+ * account. Everything goes through the SpotifyWebApi interface so the
+ * playlist flow can run against a local stub: point SPOTIFY_API_BASE_URL and
+ * SPOTIFY_ACCOUNTS_BASE_URL at it, or pass your own implementation to
+ * createPlaylistWithTracks.
+ */
+
+export const SPOTIFY_PLAYLIST_SCOPES = [
+  "playlist-modify-private",
+  "playlist-modify-public",
+  "ugc-image-upload",
+];
+
+const DEFAULT_API_BASE_URL = "https://api.spotify.com/v1";
+const DEFAULT_ACCOUNTS_BASE_URL = "https://accounts.spotify.com";
+
+// Spotify accepts at most 100 URIs per "add items" call
+const MAX_TRACKS_PER_REQUEST = 100;
+
+export interface SpotifyPlaylist {
+  id: string;
+  url: string;
+}
+
+export interface SpotifyWebApi {
+  getCurrentUserId(): Promise<string>;
+  createPlaylist(userId: string, name: string, description: string): Promise<SpotifyPlaylist>;
+  addTracks(playlistId: string, trackUris: string[]): Promise<void>;
+  /** Base64-encoded JPEG without data: prefix, max 256 KB */
+  uploadCoverImage(playlistId: string, jpegBase64: string): Promise<void>;
+}
+
+export class SpotifyApiError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "SpotifyApiError";
+  }
+}
+
+export const getApiBaseUrl = () => Deno.env.get("SPOTIFY_API_BASE_URL") || DEFAULT_API_BASE_URL;
+export const getAccountsBaseUrl = () => Deno.env.get("SPOTIFY_ACCOUNTS_BASE_URL") || DEFAULT_ACCOUNTS_BASE_URL;
+
+export function buildAuthorizeUrl(params: {
+  clientId: string;
+  redirectUri: string;
+  codeChallenge: string;
+  state: string;
+}): string {
+  const query = new URLSearchParams({
+    client_id: params.clientId,
+    response_type: "code",
+    redirect_uri: params.redirectUri,
+    code_challenge_method: "S256",
+    code_challenge: params.codeChallenge,
+    state: params.state,
+    scope: SPOTIFY_PLAYLIST_SCOPES.join(" "),
+  });
+  return `${getAccountsBaseUrl()}/authorize?${query}`;
+}
+
+/** Authorization code + PKCE verifier → user access token */
+export async function exchangeAuthorizationCode(params: {
+  clientId: string;
+  code: string;
+  codeVerifier: string;
+  redirectUri: string;
+}): Promise<string> {
+  const response = await fetch(`${getAccountsBaseUrl()}/api/token`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code: params.code,
+      redirect_uri: params.redirectUri,
+      client_id: params.clientId,
+      code_verifier: params.codeVerifier,
+    }),
+  });
+
+  if (!response.ok) {
+    throw new SpotifyApiError(`Token exchange failed: ${await response.text()}`, response.status);
+  }
+  const data = await response.json();
+  return data.access_token as string;
+}
+
+export function createSpotifyWebApi(accessToken: string, baseUrl = getApiBaseUrl()): SpotifyWebApi {
+  const request = async (path: string, init: RequestInit = {}) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${accessToken}`, ...init.headers },
+    });
+    if (!response.ok) {
+      throw new SpotifyApiError(`${init.method || "GET"} ${path} failed: ${await response.text()}`, response.status);
+    }
+    return response;
+  };
+
+  return {
+    async getCurrentUserId() {
+      const me = await (await request("/me")).json();
+      return me.id;
+    },
+
+    async createPlaylist(userId, name, description) {
+      const response = await request(`/users/${encodeURIComponent(userId)}/playlists`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, description, public: false }),
+      });
+      const playlist = await response.json();
+      return { id: playlist.id, url: playlist.external_urls?.spotify };
+    },
+
+    async addTracks(playlistId, trackUris) {
+      await request(`/playlists/${playlistId}/tracks`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ uris: trackUris }),
+      });
+    },
+
+    async uploadCoverImage(playlistId, jpegBase64) {
+      await request(`/playlists/${playlistId}/images`, {
+        method: "PUT",
+        headers: { "Content-Type": "image/jpeg" },
+        body: jpegBase64,
+      });
+    },
+  };
+}
+
+/**
+ * Creates the playlist, fills it in order and sets the cover. A failed cover
+ * upload is logged but doesn't fail the playlist - the tracks are what matter.
+ */
+export async function createPlaylistWithTracks(
+  api: SpotifyWebApi,
+  { name, description, trackIds, coverImage }: {
+    name: string;
+    description: string;
+    trackIds: string[];
+    coverImage?: string;
+  },
+): Promise<SpotifyPlaylist> {
+  const userId = await api.getCurrentUserId();
+  const playlist = await api.createPlaylist(userId, name, description);
+
+  const uris = [...new Set(trackIds)].map((id) => `spotify:track:${id}`);
+  for (let i = 0; i < uris.length; i += MAX_TRACKS_PER_REQUEST) {
+    await api.addTracks(playlist.id, uris.slice(i, i + MAX_TRACKS_PER_REQUEST));
+  }
+
+  if (coverImage) {
+    try {
+      await api.uploadCoverImage(playlist.id, coverImage);
+    } catch (error) {
+      console.warn("[Spotify Playlist] Cover upload failed:", error);
+    }
+  }
+
+  return playlist;
+}
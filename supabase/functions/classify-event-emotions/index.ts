@@ -9,7 +9,7 @@
  *
  * Input:
  *   {
- *     language: 'nl' | 'en' | 'de' | 'fr',
+ *     language: 'nl' | 'en' | 'de' | 'fr' | 'es' | 'it' | 'pt' | 'pl',
  *     intro?: string,
  *     events: { id: string, title: string, description: string, year?: number }[]
  *   }
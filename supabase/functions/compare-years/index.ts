@@ -0,0 +1,101 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { NATIVE_LANGUAGE_NAMES, normalizeLanguage } from "../_shared/languages.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+interface CompareSide {
+  name?: string;
+  year: number;
+  summary: string;
+  titles?: string[];
+}
+
+const describeSide = (side: CompareSide, fallbackName: string) =>
+  `${side.name || fallbackName} - ${side.year}
+Samenvatting: ${side.summary}
+${(side.titles || []).slice(0, 15).map((title) => `- ${title}`).join("\n")}`;
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const { left, right, language } = (await req.json()) as { left: CompareSide; right: CompareSide; language?: string };
+    if (!left?.summary || !right?.summary) throw new Error("Both summaries are required");
+
+    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
+    if (!LOVABLE_API_KEY) throw new Error("LOVABLE_API_KEY is not configured");
+
+    const lang = NATIVE_LANGUAGE_NAMES[normalizeLanguage(language)];
+    const [earlier, later] = left.year <= right.year ? [left, right] : [right, left];
+
+    const systemPrompt = `Je bent een verhalenverteller die twee jaren met elkaar vergelijkt voor twee vrienden.
+
+REGELS:
+- Schrijf 90-130 woorden, als doorlopende tekst, geen opsommingen.
+- Schrijf in het ${lang}.
+- Beschrijf WAT ER VERANDERDE tussen ${earlier.year} en ${later.year}: muziek, tv, technologie, politiek en het dagelijks leven.
+- Gebruik concrete tegenstellingen uit beide samenvattingen (bv. "van cassettebandje naar discman").
+- Als de jaren gelijk zijn: beschrijf hoe hetzelfde jaar anders voelde voor beide personen.
+- Geen internet-afkortingen, geen emoji's, maximaal 1 uitroepteken.`;
+
+    const userPrompt = `Vergelijk deze twee jaren:
+
+${describeSide(earlier, "Persoon 1")}
+
+${describeSide(later, "Persoon 2")}
+
+Schrijf nu "wat er veranderde daartussen".`;
+
+    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${LOVABLE_API_KEY}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model: "google/gemini-3-flash-preview",
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userPrompt },
+        ],
+      }),
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        return new Response(JSON.stringify({ error: "Te veel verzoeken. Probeer het later opnieuw." }), {
+          status: 429,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      if (response.status === 402) {
+        return new Response(JSON.stringify({ error: "Credits op. Voeg credits toe aan je workspace." }), {
+          status: 402,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      const t = await response.text();
+      console.error("AI gateway error:", response.status, t);
+      return new Response(JSON.stringify({ error: "AI gateway error" }), {
+        status: 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const data = await response.json();
+    const comparison = data.choices?.[0]?.message?.content || "";
+
+    return new Response(JSON.stringify({ success: true, comparison: comparison.trim() }), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (e) {
+    console.error("compare-years error:", e);
+    return new Response(JSON.stringify({ error: e instanceof Error ? e.message : "Unknown error" }), {
+      status: 500,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  }
+});
@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { LANGUAGE_NAMES, mentionsLanguage, normalizeLanguage } from "../_shared/languages.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -11,7 +12,7 @@ interface RequestBody {
   lyrics: string;
   style: string;
   title: string;
-  language?: string; // 'nl' | 'en' (defaults to 'nl' for backwards compat)
+  language?: string; // see SUPPORTED_LANGUAGES in _shared/languages.ts (defaults to 'nl' for backwards compat)
 }
 
 interface AceStepResponse {
@@ -49,16 +50,9 @@ serve(async (req) => {
     }
 
     // Inject explicit language tag so vocals are pronounced in the right language
-    const langTag = language === 'en'
-      ? 'English language, English vocals'
-      : language === 'de'
-      ? 'German language, German vocals'
-      : language === 'fr'
-      ? 'French language, French vocals'
-      : 'Dutch language, Dutch vocals';
-    const styleLower = style.toLowerCase();
-    const alreadyHasLang = ['english', 'dutch', 'german', 'french'].some(l => styleLower.includes(l));
-    const finalStyle = alreadyHasLang ? style : `${langTag}, ${style}`;
+    const langName = LANGUAGE_NAMES[normalizeLanguage(language)];
+    const langTag = `${langName} language, ${langName} vocals`;
+    const finalStyle = mentionsLanguage(style) ? style : `${langTag}, ${style}`;
 
     console.log(`[AceStep] Starting generation: "${title}" | language: "${language || 'nl'}" | style: "${finalStyle}"`);
     console.log(`[AceStep] Lyrics length: ${lyrics.length} chars`);
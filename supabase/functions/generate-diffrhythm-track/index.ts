@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { LANGUAGE_NAMES, mentionsLanguage, normalizeLanguage } from "../_shared/languages.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,7 +13,7 @@ interface RequestBody {
   lyrics: string;
   style: string;
   title: string;
-  language?: string; // 'nl' | 'en' | 'de' | 'fr'
+  language?: string; // see SUPPORTED_LANGUAGES in _shared/languages.ts
   // For polling mode
   action?: 'submit' | 'poll';
   requestId?: string;
@@ -131,13 +132,8 @@ serve(async (req) => {
         .trim() || 'pop';
 
       // Resolve target language tag (default Dutch for backwards compat)
-      const langLabel = language === 'en' ? 'English'
-        : language === 'de' ? 'German'
-        : language === 'fr' ? 'French'
-        : 'Dutch';
-      const cleanLower = cleanStyle.toLowerCase();
-      const alreadyHasLang = ['english', 'dutch', 'german', 'french'].some(l => cleanLower.includes(l));
-      const finalStyle = alreadyHasLang ? cleanStyle : `${cleanStyle}, ${langLabel} language`;
+      const langLabel = LANGUAGE_NAMES[normalizeLanguage(language)];
+      const finalStyle = mentionsLanguage(cleanStyle) ? cleanStyle : `${cleanStyle}, ${langLabel} language`;
 
       console.log(`[DiffRhythm] Original style: ${style}`);
       console.log(`[DiffRhythm] Final style for API: ${finalStyle}`);
@@ -1,4 +1,6 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { LANGUAGE_NAMES, normalizeLanguage } from "../_shared/languages.ts";
+import { describePlaceCountries } from "../_shared/placeNames.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,20 +8,14 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
-const LANG_NAME: Record<string, string> = {
-  nl: "Dutch",
-  en: "English",
-  de: "German",
-  fr: "French",
-};
-
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { startYear, endYear, city, language } = await req.json();
+    // countryCode/regionCode/lat/lng are set when the city was picked from the gazetteer
+    const { startYear, endYear, city, countryCode, regionCode, lat, lng, language } = await req.json();
 
     if (!startYear || !endYear || !city) {
       return new Response(
@@ -31,12 +27,16 @@ Deno.serve(async (req) => {
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     if (!LOVABLE_API_KEY) throw new Error("LOVABLE_API_KEY is not configured");
 
-    const lang = (language as string) || "nl";
-    const langName = LANG_NAME[lang] || "Dutch";
+    const langName = LANGUAGE_NAMES[normalizeLanguage(language)];
+
+    const countryContext = countryCode ? describePlaceCountries({ countryCode, regionCode, lat, lng }, startYear, endYear, "en") : null;
+    const countryStep = countryContext
+      ? `The city is in ${countryContext} - do not guess another country. When the country changed over these years, use the charts of the country it was in that year.`
+      : "First determine the country based on the city.";
 
     const prompt = `You are a music expert. For the city "${city}", provide the most popular hits per year from ${startYear} to ${endYear}.
 
-First determine the country based on the city. Then for each year provide EXACTLY 5 hits that were popular IN THAT COUNTRY (not only international hits, but especially local artists from that country).
+${countryStep} Then for each year provide EXACTLY 5 hits that were popular IN THAT COUNTRY (not only international hits, but especially local artists from that country).
 
 Examples:
 - Dutch cities: André Hazes, Marco Borsato, Doe Maar, Golden Earring, Volumia!, etc.
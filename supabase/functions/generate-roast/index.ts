@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { NATIVE_LANGUAGE_NAMES, normalizeLanguage } from "../_shared/languages.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -35,7 +36,7 @@ serve(async (req) => {
     const intensityLevel = Math.min(5, Math.max(1, intensity || 3));
     const intensityDesc = intensityLabels[intensityLevel];
 
-    const lang = language === "nl" ? "Nederlands" : language === "en" ? "English" : language === "de" ? "Deutsch" : "Nederlands";
+    const lang = NATIVE_LANGUAGE_NAMES[normalizeLanguage(language)];
 
     const systemPrompt = `Je bent een briljante roast-comedian. Je schrijft een roast van iemands leven op basis van de tijdlijn-gebeurtenissen uit hun leven/periode. 
 
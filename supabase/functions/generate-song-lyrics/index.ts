@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { LANGUAGE_NAMES, normalizeLanguage } from "../_shared/languages.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -53,13 +54,17 @@ function getNuancedStyleTags(gender: Gender, birthYear?: number): { mood: string
   return { mood, texture };
 }
 
-// Language-specific prompt templates
+// Language-specific prompt templates. Dutch has its own prompts; every other
+// language gets the English prompts with the target language swapped in.
 function getLanguageConfig(language: string) {
-  if (language === 'en') {
+  const langCode = normalizeLanguage(language);
+  if (langCode !== 'nl') {
+    const langName = LANGUAGE_NAMES[langCode];
     return {
-      langName: 'English',
-      langCode: 'en',
-      writeInstructions: 'Write all lyrics in English.',
+      langName,
+      langCode,
+      promptLanguage: 'en' as const,
+      writeInstructions: `Write all lyrics in ${langName}.`,
       periodDescriptions: {
         childhood: 'childhood (about 6-12 years old)',
         puberty: 'teenage years (about 12-18 years old)',
@@ -78,14 +83,15 @@ function getLanguageConfig(language: string) {
       personalMilestonesLabel: 'PERSONAL MILESTONES',
       periodSummaryLabel: 'PERIOD SUMMARY',
       noSummary: 'No summary available',
-      generateNow: 'Now generate the lyrics in English.',
+      generateNow: `Now generate the lyrics in ${langName}.`,
       songTitleFallback: (start: number, end: number) => `My ${start}-${end}`,
     };
   }
   // Default: Dutch
   return {
     langName: 'Nederlands',
-    langCode: 'nl',
+    langCode,
+    promptLanguage: 'nl' as const,
     writeInstructions: 'Schrijf alle teksten in het Nederlands.',
     periodDescriptions: {
       childhood: 'jeugd (ongeveer 6-12 jaar)',
@@ -128,7 +134,9 @@ interface RequestBody {
   endYear: number;
   mode?: 'quick' | 'full';
   provider?: 'suno' | 'acestep' | 'diffrhythm';
-  language?: string; // 'nl' | 'en'
+  language?: string; // see SUPPORTED_LANGUAGES in _shared/languages.ts
+  // Suggested style seed: the #1 single on the user's birth date
+  styleSeed?: { artist: string; title: string; year: number; precision?: 'week' | 'year' };
 }
 
 serve(async (req) => {
@@ -143,7 +151,7 @@ serve(async (req) => {
     }
 
     const body: RequestBody = await req.json();
-    const { events, summary, personalData, subculture, gender, startYear, endYear, formData, mode, provider, language } = body;
+    const { events, summary, personalData, subculture, gender, startYear, endYear, formData, mode, provider, language, styleSeed } = body;
 
     // Get language config (default to Dutch)
     const lang = getLanguageConfig(language || 'nl');
@@ -156,6 +164,9 @@ serve(async (req) => {
     console.log(`Years: ${startYear}-${endYear}`);
     console.log(`Personal data: friends=${personalData?.friends}, school=${personalData?.school}, nightlife=${personalData?.nightlife}`);
     console.log(`Subculture: ${subculture?.myGroup || 'none'}, Gender: ${gender || 'none'}`);
+    if (styleSeed) {
+      console.log(`Style seed: "${styleSeed.title}" by ${styleSeed.artist} (${styleSeed.year}, ${styleSeed.precision ?? 'year'})`);
+    }
     if (formData) {
       console.log(`FormData: birthYear=${formData.birthYear}, city=${formData.city}, period=${formData.periodType}`);
     }
@@ -366,7 +377,7 @@ serve(async (req) => {
       console.log(`ERA-FIRST style approach: Base="${eraBaseGenre}", Subculture influence="${subcultureInfluence}"`);
       console.log(`Complete style tags: ${completeStyleTags}`);
 
-      if (lang.langCode === 'en') {
+      if (lang.promptLanguage === 'en') {
         systemPrompt = `You are a talented songwriter who writes ULTRA-SHORT nostalgic songs.
 Your specialty is MICRO-SONGS of maximum 1 minute 30 seconds that instantly evoke emotion.
 
@@ -381,7 +392,7 @@ The music style should be recognizable for a BROAD AUDIENCE, with a subtle nod t
 
 STYLE: ${completeStyleTags}
 PERIOD: ${startYear}-${endYear}
-LANGUAGE: English
+LANGUAGE: ${lang.langName}
 
 === MUSIC STYLE (ERA-FIRST) ===
 Style tag always starts with accessible, melodic genre from the era.
@@ -535,12 +546,12 @@ Format je output als JSON:
       if (textureTags) styleTagsPartsB.push(textureTags);
       const completeStyleTagsB = styleTagsPartsB.join(', ');
 
-      if (lang.langCode === 'en') {
+      if (lang.promptLanguage === 'en') {
         systemPrompt = `You are a talented songwriter who writes nostalgic songs.
 Your specialty is weaving personal memories with historical events into an emotional and recognizable song.
 
 STYLE: ${completeStyleTagsB} (period: ${startYear}-${endYear})
-LANGUAGE: English
+LANGUAGE: ${lang.langName}
 
 === MUSIC STYLE INSTRUCTIONS ===
 The final "style" tag should contain these elements:
@@ -594,7 +605,7 @@ ${personalEvents ? `PERSONAL MILESTONES:\n${personalEvents}` : ''}
 PERIOD SUMMARY:
 ${summary || 'No summary available'}
 
-Now generate the lyrics in English.
+${lang.generateNow}
 
 Format your output as JSON:
 {
@@ -673,6 +684,15 @@ Format je output als JSON:
       }
     }
 
+    // The birth-day #1 as a nod in the production, never in the lyrics.
+    // Only weekly charts pin it to the birthday itself; a year chart gives that year's #1.
+    if (styleSeed?.artist && styleSeed?.title) {
+      const byWeek = styleSeed.precision === 'week';
+      userPrompt += lang.promptLanguage === 'en'
+        ? `\n\nSTYLE REFERENCE: "${styleSeed.title}" by ${styleSeed.artist} was ${byWeek ? 'number one in the week this person was born' : 'a number one of the year this person was born'} (${styleSeed.year}). Let the production and mood subtly nod to that song in the "style" tag. Do not quote its lyrics.`
+        : `\n\nSTIJLREFERENTIE: "${styleSeed.title}" van ${styleSeed.artist} ${byWeek ? 'stond op nummer 1 in de week dat deze persoon geboren werd' : 'was een nummer 1-hit in het geboortejaar van deze persoon'} (${styleSeed.year}). Laat de productie en sfeer daar in de "style" tag subtiel naar knipogen. Citeer de songtekst niet.`;
+    }
+
     // === STAP 2: DiffRhythm LRC timestamp mode ===
     const isDiffRhythm = provider === 'diffrhythm';
     if (isDiffRhythm) {
@@ -717,8 +737,8 @@ Format je output als JSON:
         const structurePrompt = skeletonLines.join('\n');
         console.log('[DiffRhythm] Event skeleton:\n' + structurePrompt);
 
-        const lrcLangInstruction = lang.langCode === 'en' 
-          ? 'Write in English.' 
+        const lrcLangInstruction = lang.promptLanguage === 'en' 
+          ? `Write in ${lang.langName}.`
           : 'Schrijf in het Nederlands.';
 
         systemPrompt = `You are a lyricist writing music for a video clip. Below is a timeline of events with hard timestamps in LRC format. Your task: Write exactly one short, singable line for each timestamp that matches that specific event.
@@ -734,7 +754,7 @@ Rules:
 
 MUSIC STYLE: ${suggestedStyle}${moodTags ? `, ${moodTags}` : ''}${textureTags ? `, ${textureTags}` : ''}`;
 
-        const writeVerb = lang.langCode === 'en' ? 'Write' : 'Schrijf';
+        const writeVerb = lang.promptLanguage === 'en' ? 'Write' : 'Schrijf';
         userPrompt = `${writeVerb} for EACH timestamp exactly one short singable line. Keep [verse]/[chorus] markers and timestamps exact:
 
 ${structurePrompt}
@@ -765,7 +785,7 @@ Format your output as JSON:
         const templatePrompt = templateLines.join('\n');
         console.log(`[DiffRhythm] V1 quick template (${totalLines} lines):\n` + templatePrompt);
 
-        const eraEventExamples: Record<string, string[]> = lang.langCode === 'en' ? {
+        const eraEventExamples: Record<string, string[]> = lang.promptLanguage === 'en' ? {
           '50': ['Rock around the Clock', 'Elvis on the radio', 'First TV at home', 'Korean War ends'],
           '60': ['The Beatles on TV', 'Moon landing', 'Woodstock', 'Pirate radio', 'Flower Power'],
           '70': ['Disco on Saturday night', 'Oil crisis', 'ABBA wins Eurovision', 'Punk at the pub', 'Star Wars in cinema'],
@@ -789,11 +809,11 @@ Format your output as JSON:
         const relevantEvents = eraEventExamples[decadeKey] || eraEventExamples['90'];
         const eventExamplesStr = relevantEvents.map((e, i) => `  - ${e}`).join('\n');
 
-        const lrcLangInstruction = lang.langCode === 'en'
-          ? 'LANGUAGE: English — all text MUST be in English'
+        const lrcLangInstruction = lang.promptLanguage === 'en'
+          ? `LANGUAGE: ${lang.langName} — all text MUST be in ${lang.langName}`
           : 'TAAL: Nederlands — alle tekst MOET in het Nederlands zijn';
 
-        systemPrompt = lang.langCode === 'en'
+        systemPrompt = lang.promptLanguage === 'en'
           ? `You are a talented songwriter who writes nostalgic songs in LRC format for DiffRhythm music generation.
 
 You write a complete song of ~90 seconds in LRC format with [verse] and [chorus] sections.
@@ -837,9 +857,9 @@ ${subcultureName ? `SUBCULTUUR: ${subcultureName}` : ''}
 ${lrcLangInstruction}
 MUZIEKSTIJL: ${suggestedStyle}${moodTags ? `, ${moodTags}` : ''}${textureTags ? `, ${textureTags}` : ''}`;
 
-        const writeVerb = lang.langCode === 'en' ? 'Write a nostalgic English song' : 'Schrijf een nostalgisch Nederlands lied';
-        const inCity = lang.langCode === 'en' ? 'in' : 'in';
-        const growingUp = lang.langCode === 'en' ? 'about growing up in the' : 'over opgroeien in de';
+        const writeVerb = lang.promptLanguage === 'en' ? `Write a nostalgic ${lang.langName} song` : 'Schrijf een nostalgisch Nederlands lied';
+        const inCity = lang.promptLanguage === 'en' ? 'in' : 'in';
+        const growingUp = lang.promptLanguage === 'en' ? 'about growing up in the' : 'over opgroeien in de';
         
         userPrompt = `${writeVerb} in LRC format ${growingUp} ${eraLabel}${city ? ` ${inCity} ${city}` : ''}.
 
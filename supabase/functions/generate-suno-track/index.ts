@@ -1,4 +1,5 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { LANGUAGE_NAMES, mentionsLanguage, normalizeLanguage } from "../_shared/languages.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -12,7 +13,7 @@ interface RequestBody {
   lyrics: string;
   style: string;
   title: string;
-  language?: string; // 'nl' | 'en' | 'de' | 'fr'
+  language?: string; // see SUPPORTED_LANGUAGES in _shared/languages.ts
 }
 
 interface SunoGenerateResponse {
@@ -58,16 +59,8 @@ serve(async (req) => {
       : lyrics;
 
     // Inject explicit language tag so vocals are pronounced in the right language
-    const langTag = language === 'en'
-      ? 'English vocals'
-      : language === 'de'
-      ? 'German vocals'
-      : language === 'fr'
-      ? 'French vocals'
-      : 'Dutch vocals';
-    const styleLowerForLang = style.toLowerCase();
-    const alreadyHasLang = ['english', 'dutch', 'german', 'french'].some(l => styleLowerForLang.includes(l));
-    const styleWithLang = alreadyHasLang ? style : `${langTag}, ${style}`;
+    const langTag = `${LANGUAGE_NAMES[normalizeLanguage(language)]} vocals`;
+    const styleWithLang = mentionsLanguage(style) ? style : `${langTag}, ${style}`;
 
     // Truncate style if too long (max 1000 chars for V4_5ALL)
     // Also ensure "short song" and "fast tempo" are included for length control
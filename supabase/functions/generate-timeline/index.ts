@@ -11,6 +11,7 @@ import {
   BIRTHYEAR_IN_RANGE_ADDITION,
   PERSONAL_NAME_ADDITION,
   GEOGRAPHIC_FOCUS,
+  HISTORICAL_POLITY_ADDITION,
   INTERESTS_ADDITION,
   CITY_ADDITION,
   CHILDREN_ADDITION,
@@ -20,6 +21,9 @@ import {
   getGenerationPerspective,
   GET_MUSIC_INSTRUCTIONS,
   EMOTIONAL_VIBE_ADDITION,
+  RESUME_ADDITION,
+  REPLACE_EVENT_ADDITION,
+  SHARED_TIMELINE_ADDITION,
 } from "../_shared/prompts.ts";
 
 const corsHeaders = {
@@ -35,12 +39,23 @@ interface TimelineRequest {
     firstName?: string;
     lastName?: string;
     city?: string;
+    // Canonical place from the city autocomplete (gazetteer)
+    place?: { name: string; region?: string; regionCode?: string; countryCode: string; lat: number; lng: number };
     gender?: "male" | "female" | "none";
     attitude?: "conservative" | "neutral" | "progressive";
-    subculture?: { myGroup: string | null; otherGroupsFromEra: string; availableOptions: string[] };
+    subculture?: {
+      myGroup: string | null;
+      otherGroupsFromEra: string;
+      availableOptions: string[];
+      profile?: { description: string; brands: string[]; music: string[]; clothing: string[] };
+    };
     children: { name: string; birthDate?: { day: number; month: number; year: number } }[];
     partnerName?: string;
     partnerBirthDate?: { day: number; month: number; year: number };
+    siblings?: { name: string; birthDate?: { day: number; month: number; year: number } }[];
+    // Shared "years together" timeline: tag each event with the people it belongs to
+    sharedTimeline?: boolean;
+    metYear?: number;
     interests?: string;
     focus: "netherlands" | "europe" | "world";
     periodType?: "birthyear" | "childhood" | "puberty" | "young-adult" | "custom";
@@ -52,8 +67,16 @@ interface TimelineRequest {
   language: string;
   stream?: boolean;
   maxEvents?: number;
+  // Set by the client when it reconnects after a dropped stream: continue the
+  // same story after event `afterSeq`, without repeating already-delivered titles.
+  resumeFrom?: { afterSeq: number; deliveredTitles: string[] };
+  // Set by the story view's "give me something else": generate one replacement
+  // event for the same year/category instead of a whole timeline.
+  replaceEvent?: { title: string; year: number; month?: number; category: string; excludeTitles: string[] };
 }
 
+const normalizeTitle = (title: string) => title.toLowerCase().replace(/\s+/g, " ").trim();
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -150,11 +173,20 @@ async function handleNDJSONStreaming(requestData: TimelineRequest, prompt: strin
   let buffer = "";
   let contentBuffer = "";
   let isStreamClosed = false;
-  let eventCount = 0;
-  let sentSummary = false;
-  let sentFamousBirthdays = false;
-  let sentStoryTitle = false;
-  let sentStoryIntroduction = false;
+  // Sequence numbers continue where the previous connection left off so the
+  // client can checkpoint on them across reconnects.
+  const resumeFrom = requestData.resumeFrom;
+  let eventCount = resumeFrom?.afterSeq ?? 0;
+  const replaceEvent = requestData.replaceEvent;
+  const deliveredTitles = new Set(
+    [...(resumeFrom?.deliveredTitles ?? []), ...(replaceEvent?.excludeTitles ?? [])].map(normalizeTitle),
+  );
+  // On resume the client already has the story header, don't send it twice.
+  // A replacement only needs the one event.
+  let sentSummary = !!replaceEvent;
+  let sentFamousBirthdays = !!replaceEvent;
+  let sentStoryTitle = !!resumeFrom || !!replaceEvent;
+  let sentStoryIntroduction = !!resumeFrom || !!replaceEvent;
   const allEvents: any[] = [];
   let summary = "";
   let famousBirthdays: any[] = [];
@@ -171,6 +203,57 @@ async function handleNDJSONStreaming(requestData: TimelineRequest, prompt: strin
     }
   };
 
+  const handleNDJSONLine = (controller: ReadableStreamDefaultController, line: string) => {
+    const trimmed = line.trim();
+    if (!trimmed) return;
+
+    let obj;
+    try {
+      obj = JSON.parse(trimmed);
+    } catch {
+      // Not valid JSON line yet, ignore
+      return;
+    }
+
+    if (obj.type === "event" && obj.data) {
+      if (replaceEvent && eventCount > 0) return;
+      const titleKey = normalizeTitle(String(obj.data.title ?? ""));
+      if (titleKey && deliveredTitles.has(titleKey)) {
+        console.log(`Skipped duplicate event on resume: ${obj.data.title?.substring(0, 40)}`);
+        return;
+      }
+      if (titleKey) deliveredTitles.add(titleKey);
+      eventCount++;
+      allEvents.push(obj.data);
+      safeEnqueue(controller, `data: ${JSON.stringify({ type: "event", seq: eventCount, event: obj.data })}\n\n`);
+      console.log(`Streamed event ${eventCount}: ${obj.data.title?.substring(0, 40)}`);
+    } else if (obj.type === "storyTitle" && obj.data && !sentStoryTitle) {
+      storyTitle = obj.data;
+      safeEnqueue(controller, `data: ${JSON.stringify({ type: "storyTitle", storyTitle: obj.data })}\n\n`);
+      sentStoryTitle = true;
+      console.log(`Streamed storyTitle: ${obj.data.substring(0, 50)}`);
+    } else if (obj.type === "storyIntroduction" && obj.data && !sentStoryIntroduction) {
+      storyIntroduction = obj.data;
+      safeEnqueue(
+        controller,
+        `data: ${JSON.stringify({ type: "storyIntroduction", storyIntroduction: obj.data })}\n\n`,
+      );
+      sentStoryIntroduction = true;
+      console.log(`Streamed storyIntroduction: ${obj.data.substring(0, 50)}...`);
+    } else if (obj.type === "summary" && obj.data && !sentSummary) {
+      summary = obj.data;
+      safeEnqueue(controller, `data: ${JSON.stringify({ type: "summary", summary: obj.data })}\n\n`);
+      sentSummary = true;
+    } else if (obj.type === "famousBirthdays" && obj.data && !sentFamousBirthdays) {
+      famousBirthdays = obj.data;
+      safeEnqueue(
+        controller,
+        `data: ${JSON.stringify({ type: "famousBirthdays", famousBirthdays: obj.data })}\n\n`,
+      );
+      sentFamousBirthdays = true;
+    }
+  };
+
   const readable = new ReadableStream({
     async start(controller) {
       const reader = response.body!.getReader();
@@ -205,48 +288,7 @@ async function handleNDJSONStreaming(requestData: TimelineRequest, prompt: strin
                 contentBuffer = ndjsonLines.pop() || "";
 
                 for (const ndjsonLine of ndjsonLines) {
-                  const trimmed = ndjsonLine.trim();
-                  if (!trimmed) continue;
-
-                  try {
-                    const obj = JSON.parse(trimmed);
-
-                    if (obj.type === "event" && obj.data) {
-                      eventCount++;
-                      allEvents.push(obj.data);
-                      safeEnqueue(controller, `data: ${JSON.stringify({ type: "event", event: obj.data })}\n\n`);
-                      console.log(`Streamed event ${eventCount}: ${obj.data.title?.substring(0, 40)}`);
-                    } else if (obj.type === "storyTitle" && obj.data && !sentStoryTitle) {
-                      storyTitle = obj.data;
-                      safeEnqueue(
-                        controller,
-                        `data: ${JSON.stringify({ type: "storyTitle", storyTitle: obj.data })}\n\n`,
-                      );
-                      sentStoryTitle = true;
-                      console.log(`Streamed storyTitle: ${obj.data.substring(0, 50)}`);
-                    } else if (obj.type === "storyIntroduction" && obj.data && !sentStoryIntroduction) {
-                      storyIntroduction = obj.data;
-                      safeEnqueue(
-                        controller,
-                        `data: ${JSON.stringify({ type: "storyIntroduction", storyIntroduction: obj.data })}\n\n`,
-                      );
-                      sentStoryIntroduction = true;
-                      console.log(`Streamed storyIntroduction: ${obj.data.substring(0, 50)}...`);
-                    } else if (obj.type === "summary" && obj.data && !sentSummary) {
-                      summary = obj.data;
-                      safeEnqueue(controller, `data: ${JSON.stringify({ type: "summary", summary: obj.data })}\n\n`);
-                      sentSummary = true;
-                    } else if (obj.type === "famousBirthdays" && obj.data && !sentFamousBirthdays) {
-                      famousBirthdays = obj.data;
-                      safeEnqueue(
-                        controller,
-                        `data: ${JSON.stringify({ type: "famousBirthdays", famousBirthdays: obj.data })}\n\n`,
-                      );
-                      sentFamousBirthdays = true;
-                    }
-                  } catch {
-                    // Not valid JSON line yet, ignore
-                  }
+                  handleNDJSONLine(controller, ndjsonLine);
                 }
               }
             } catch {
@@ -257,55 +299,20 @@ async function handleNDJSONStreaming(requestData: TimelineRequest, prompt: strin
 
         // Process any remaining content in buffer
         if (contentBuffer.trim()) {
-          const remainingLines = contentBuffer.split("\n");
-          for (const ndjsonLine of remainingLines) {
-            const trimmed = ndjsonLine.trim();
-            if (!trimmed) continue;
-
-            try {
-              const obj = JSON.parse(trimmed);
-
-              if (obj.type === "event" && obj.data) {
-                eventCount++;
-                allEvents.push(obj.data);
-                safeEnqueue(controller, `data: ${JSON.stringify({ type: "event", event: obj.data })}\n\n`);
-              } else if (obj.type === "storyTitle" && obj.data && !sentStoryTitle) {
-                storyTitle = obj.data;
-                safeEnqueue(controller, `data: ${JSON.stringify({ type: "storyTitle", storyTitle: obj.data })}\n\n`);
-                sentStoryTitle = true;
-              } else if (obj.type === "storyIntroduction" && obj.data && !sentStoryIntroduction) {
-                storyIntroduction = obj.data;
-                safeEnqueue(
-                  controller,
-                  `data: ${JSON.stringify({ type: "storyIntroduction", storyIntroduction: obj.data })}\n\n`,
-                );
-                sentStoryIntroduction = true;
-              } else if (obj.type === "summary" && obj.data && !sentSummary) {
-                summary = obj.data;
-                safeEnqueue(controller, `data: ${JSON.stringify({ type: "summary", summary: obj.data })}\n\n`);
-                sentSummary = true;
-              } else if (obj.type === "famousBirthdays" && obj.data && !sentFamousBirthdays) {
-                famousBirthdays = obj.data;
-                safeEnqueue(
-                  controller,
-                  `data: ${JSON.stringify({ type: "famousBirthdays", famousBirthdays: obj.data })}\n\n`,
-                );
-                sentFamousBirthdays = true;
-              }
-            } catch {
-              // Ignore
-            }
+          for (const ndjsonLine of contentBuffer.split("\n")) {
+            handleNDJSONLine(controller, ndjsonLine);
           }
         }
 
         // Send complete message with all collected data
         console.log(
-          `Stream complete: ${eventCount} events, summary: ${!!summary}, title: ${!!storyTitle}, intro: ${!!storyIntroduction}, birthdays: ${famousBirthdays.length}`,
+          `Stream complete: ${allEvents.length} events (last seq ${eventCount}), summary: ${!!summary}, title: ${!!storyTitle}, intro: ${!!storyIntroduction}, birthdays: ${famousBirthdays.length}`,
         );
         safeEnqueue(
           controller,
           `data: ${JSON.stringify({
             type: "complete",
+            lastSeq: eventCount,
             data: {
               events: allEvents,
               summary: summary || "Een overzicht van belangrijke gebeurtenissen uit deze periode.",
@@ -546,8 +553,13 @@ function buildPrompt(data: TimelineRequest): string {
   if (data.birthDate && data.birthDate.year) {
     promptParts.push(getGenerationPerspective(data.birthDate.year));
   }
+  // The place only counts while the city field still holds its name
+  const place =
+    optionalData.city && optionalData.place?.name === optionalData.city.trim() ? optionalData.place : undefined;
+  const placeYears =
+    data.yearRange ?? (data.birthDate ? { startYear: data.birthDate.year, endYear: data.birthDate.year } : undefined);
   if (optionalData.city) {
-    promptParts.push(CITY_ADDITION(optionalData.city));
+    promptParts.push(CITY_ADDITION(optionalData.city, place, placeYears));
   }
 
   promptParts.push(EMOTIONAL_VIBE_ADDITION());
@@ -571,7 +583,12 @@ function buildPrompt(data: TimelineRequest): string {
       ? optionalData.subculture.otherGroupsFromEra.split(", ").filter(Boolean)
       : [];
     promptParts.push(
-      SUBCULTURE_ADDITION(optionalData.subculture.myGroup, otherGroups, optionalData.focus || "netherlands"),
+      SUBCULTURE_ADDITION(
+        optionalData.subculture.myGroup,
+        otherGroups,
+        optionalData.focus || "netherlands",
+        optionalData.subculture.profile,
+      ),
     );
   }
 
@@ -579,6 +596,11 @@ function buildPrompt(data: TimelineRequest): string {
   if (optionalData.focus) {
     promptParts.push(GEOGRAPHIC_FOCUS[optionalData.focus]);
   }
+  // Grew up in a state that no longer exists (GDR, Yugoslavia, a colony)
+  if (place && placeYears) {
+    const historical = HISTORICAL_POLITY_ADDITION(place, placeYears);
+    if (historical) promptParts.push(historical);
+  }
 
   // ---------------------------------------------------------------------------
   // 4. BLOK C: PERSOONLIJKE CONTEXT (SECUNDAIR)
@@ -626,6 +648,29 @@ function buildPrompt(data: TimelineRequest): string {
     promptParts.push(`Partner: ${optionalData.partnerName}`);
   }
 
+  // C4. Gedeelde tijdlijn (partner / broers en zussen)
+  // Ids en volgorde moeten gelijk zijn aan getTimelinePeople in src/lib/sharedTimeline.ts,
+  // de client koppelt event.people daarop terug aan de personen.
+  if (optionalData.sharedTimeline) {
+    const people: { id: string; name: string; birthYear?: number }[] = [
+      { id: "self", name: optionalData.firstName?.trim() || "de hoofdpersoon", birthYear: data.birthDate?.year },
+    ];
+    if (optionalData.partnerName?.trim()) {
+      people.push({
+        id: "partner",
+        name: optionalData.partnerName.trim(),
+        birthYear: optionalData.partnerBirthDate?.year,
+      });
+    }
+    (optionalData.siblings ?? [])
+      .filter((s) => s.name.trim())
+      .forEach((s, i) => people.push({ id: `sibling_${i + 1}`, name: s.name.trim(), birthYear: s.birthDate?.year }));
+
+    if (people.length > 1) {
+      promptParts.push(SHARED_TIMELINE_ADDITION(people, optionalData.metYear));
+    }
+  }
+
   // ---------------------------------------------------------------------------
   // 5. BLOK D: EXTRA TAKEN (LOSSTAAND)
   // ---------------------------------------------------------------------------
@@ -640,6 +685,26 @@ function buildPrompt(data: TimelineRequest): string {
     promptParts.push(FAMOUS_BIRTHDAYS_ADDITION(day, monthName, startYear, endYear));
   }
 
+  // ---------------------------------------------------------------------------
+  // 6. BLOK E: HERVATTEN NA VERBROKEN VERBINDING
+  // ---------------------------------------------------------------------------
+  // De client heeft al een deel van de events ontvangen; laat de AI hetzelfde
+  // verhaal afmaken zonder die titels te herhalen.
+  if (data.resumeFrom && data.resumeFrom.deliveredTitles.length > 0) {
+    const remaining = data.maxEvents ? Math.max(1, data.maxEvents - data.resumeFrom.deliveredTitles.length) : undefined;
+    promptParts.push(RESUME_ADDITION(data.resumeFrom.deliveredTitles, remaining));
+  }
+
+  // ---------------------------------------------------------------------------
+  // 7. BLOK F: ÉÉN EVENT VERVANGEN
+  // ---------------------------------------------------------------------------
+  // Blok A-C geven de context (periode, lens, persoon); deze opdracht staat
+  // als laatste zodat de AI maar één vervangend event teruggeeft.
+  if (data.replaceEvent) {
+    const { title, year, month, category, excludeTitles } = data.replaceEvent;
+    promptParts.push(REPLACE_EVENT_ADDITION(year, category, title, excludeTitles, month));
+  }
+
   // Voeg alles samen met dubbele witregels voor leesbaarheid voor de AI
   return promptParts.join("\n\n");
 }
@@ -1,5 +1,9 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { getPolityTimeline } from "../_shared/historicalBorders.ts";
+import { LANGUAGE_NAMES, normalizeLanguage } from "../_shared/languages.ts";
+import { describePlaceCountries } from "../_shared/placeNames.ts";
+import type { PlaceCountry } from "../_shared/placeNames.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,13 +11,6 @@ const corsHeaders = {
     "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
-const LANG_NAME: Record<string, string> = {
-  nl: "Dutch",
-  en: "English",
-  de: "German",
-  fr: "French",
-};
-
 const TTL_MS = 1000 * 60 * 60 * 24 * 30; // 30 days
 
 function buildCacheKey(
@@ -21,10 +18,19 @@ function buildCacheKey(
   endYear: number,
   city: string,
   language: string,
+  place?: PlaceCountry,
 ): string {
   const normCity = (city || "").toLowerCase().trim().replace(/\s+/g, " ");
   const normLang = (language || "nl").toLowerCase().trim();
-  return `${startYear}-${endYear}::${normCity}::${normLang}`;
+  // A gazetteer place tells same-named cities apart (Paris FR vs Paris US),
+  // the states it was in tell East from West Berlin
+  const polities = place
+    ? getPolityTimeline(place, startYear, endYear).flatMap((span) => (span.polity ? [span.polity.id] : []))
+    : [];
+  const placeKey = place
+    ? `@${[place.countryCode, place.regionCode].filter(Boolean).join("-")}${polities.length ? `~${polities.join("+")}` : ""}`
+    : "";
+  return `${startYear}-${endYear}::${normCity}${placeKey}::${normLang}`;
 }
 
 Deno.serve(async (req) => {
@@ -33,7 +39,9 @@ Deno.serve(async (req) => {
   }
 
   try {
-    const { startYear, endYear, city, language } = await req.json();
+    // countryCode/regionCode/lat/lng are set when the city was picked from the gazetteer
+    const { startYear, endYear, city, countryCode, regionCode, lat, lng, language } = await req.json();
+    const place: PlaceCountry | undefined = countryCode ? { countryCode, regionCode, lat, lng } : undefined;
 
     if (!startYear || !endYear) {
       return new Response(
@@ -42,8 +50,8 @@ Deno.serve(async (req) => {
       );
     }
 
-    const lang = (language as string) || "nl";
-    const langName = LANG_NAME[lang] || "Dutch";
+    const lang = normalizeLanguage(language);
+    const langName = LANGUAGE_NAMES[lang];
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL");
     const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
@@ -52,7 +60,7 @@ Deno.serve(async (req) => {
         ? createClient(supabaseUrl, supabaseServiceKey)
         : null;
 
-    const cacheKey = buildCacheKey(startYear, endYear, city || "", lang);
+    const cacheKey = buildCacheKey(startYear, endYear, city || "", lang, place);
 
     // ───── 1. Cache lookup ─────────────────────────────────────────
     if (supabase) {
@@ -92,7 +100,11 @@ Deno.serve(async (req) => {
     const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
     if (!LOVABLE_API_KEY) throw new Error("LOVABLE_API_KEY is not configured");
 
-    const cityContext = city
+    const countryContext = place ? describePlaceCountries(place, startYear, endYear, "en") : null;
+
+    const cityContext = city && countryContext
+      ? `The user lives in "${city}", in ${countryContext}. Use that country (its name in ${langName} in the "country" field) and provide a mix of international blockbusters AND local/national productions popular there in those years.`
+      : city
       ? `The user lives in "${city}". Determine the country (use the ${langName} name of the country in the "country" field) and provide a mix of international blockbusters AND local/national productions popular in that country.`
       : `Provide the most iconic international TV series and films per year.`;
 
@@ -11,7 +11,7 @@ const REQUEST_TIMEOUT_MS = 45_000; // Long timeout for very slow upstream
 const RETRIES = 3; // More retries for flaky connections
 
 // Bump this when deploying to verify the latest code is running
-const VERSION = 'search-images-tol@2026-02-04.4';
+const VERSION = 'search-images-tol@2026-10-19.1';
 const DEPLOYED_AT = new Date().toISOString();
 
 // ============== CACHE HELPERS ==============
@@ -209,13 +209,24 @@ function firstArrayCandidate(obj: AnyRecord): unknown[] | null {
   return null;
 }
 
+interface FoundImage {
+  imageUrl: string;
+  score: number;
+  width?: number;
+  height?: number;
+}
+
+// How many images to return for the image picker
+const MAX_IMAGES = 6;
+
 /**
- * Extract the best non-blacklisted image from the API response
- * Iterates through all results to find the first one not in the blacklist
+ * Extract the best non-blacklisted images from the API response, in the API's order
+ * Iterates through all results and skips blacklisted ones
  */
-function extractBestImage(payload: unknown, blacklist: Set<string>): { imageUrl: string | null; score: number; skippedCount: number } {
+function extractImages(payload: unknown, blacklist: Set<string>): { images: FoundImage[]; skippedCount: number } {
   let skippedCount = 0;
-  
+  const images: FoundImage[] = [];
+
   // Common flat shapes
   if (isRecord(payload)) {
     const flatUrl =
@@ -233,14 +244,15 @@ function extractBestImage(payload: unknown, blacklist: Set<string>): { imageUrl:
         console.log(`[Tol Search] Skipping blacklisted image: ${flatUrl.slice(0, 80)}...`);
         skippedCount++;
       } else {
-        return { imageUrl: flatUrl, score: flatScore, skippedCount };
+        images.push({ imageUrl: flatUrl, score: flatScore });
       }
     }
 
-    // Check array results - iterate through all to find first non-blacklisted
+    // Check array results - iterate through all, skipping blacklisted ones
     const arr = firstArrayCandidate(payload);
     if (arr && arr.length > 0) {
       for (const item of arr) {
+        if (images.length >= MAX_IMAGES) break;
         if (!isRecord(item)) continue;
         
         const url =
@@ -252,7 +264,7 @@ function extractBestImage(payload: unknown, blacklist: Set<string>): { imageUrl:
           (typeof item.link === 'string' && item.link) ||
           null;
         
-        if (!url) continue;
+        if (!url || images.some((image) => image.imageUrl === url)) continue;
         
         // Check against blacklist
         if (blacklist.has(url)) {
@@ -268,17 +280,24 @@ function extractBestImage(payload: unknown, blacklist: Set<string>): { imageUrl:
           flatScore ||
           0;
         
-        return { imageUrl: url, score, skippedCount };
+        images.push({
+          imageUrl: url,
+          score,
+          width: typeof item.width === 'number' ? item.width : undefined,
+          height: typeof item.height === 'number' ? item.height : undefined,
+        });
       }
     }
 
-    // Nothing found; log shape keys for troubleshooting.
-    console.log(
-      `[Tol Search] Could not extract image URL. Top-level keys: ${Object.keys(payload).slice(0, 20).join(', ')}`
-    );
+    if (images.length === 0) {
+      // Nothing found; log shape keys for troubleshooting.
+      console.log(
+        `[Tol Search] Could not extract image URL. Top-level keys: ${Object.keys(payload).slice(0, 20).join(', ')}`
+      );
+    }
   }
 
-  return { imageUrl: null, score: 0, skippedCount };
+  return { images, skippedCount };
 }
 
 serve(async (req) => {
@@ -408,7 +427,9 @@ serve(async (req) => {
     
     // Fetch blacklist to filter results
     const blacklist = supabase ? await getBlacklistedUrls(supabase) : new Set<string>();
-    const { imageUrl, score, skippedCount } = extractBestImage(data, blacklist);
+    const { images, skippedCount } = extractImages(data, blacklist);
+    const imageUrl = images[0]?.imageUrl ?? null;
+    const score = images[0]?.score ?? 0;
     
     if (skippedCount > 0) {
       console.log(`[Tol Search] Skipped ${skippedCount} blacklisted images`);
@@ -427,6 +448,7 @@ serve(async (req) => {
         imageUrl,
         source: 'DDG/Tol',
         score,
+        images, // The best first, for the image picker
         searchQuery, // Include the actual query used for debugging
         _version: VERSION,
       }),
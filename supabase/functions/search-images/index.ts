@@ -16,10 +16,14 @@ interface ImageSearchRequest {
     isTV?: boolean; // NEW: Explicit TV show flag
     isMusic?: boolean;
     spotifySearchQuery?: string;
+    /** Only search these sources, e.g. ["tmdb"] for the client's TMDB provider */
+    sources?: SourceId[];
   }[];
   mode?: "fast" | "full";
 }
 
+type SourceId = "tmdb" | "nationaal-archief" | "wikipedia-nl" | "wikipedia-en" | "wikipedia-de" | "commons" | "firecrawl";
+
 interface ImageResult {
   eventId: string;
   imageUrl: string | null;
@@ -1027,6 +1031,19 @@ function addMovieDisambiguation(query: string): string {
   return query;
 }
 
+type SourceSearch = (query: string, year: number | undefined, firecrawlKey: string | undefined) => Promise<{ imageUrl: string; source: string } | null>;
+
+// Searched in parallel after TMDB; on ties the earlier source wins (Dutch sources first)
+const FALLBACK_SOURCES: [SourceId, SourceSearch][] = [
+  ["nationaal-archief", (q, y) => trySourceWithFallback(searchNationaalArchief, q, y)],
+  ["wikipedia-nl", (q, y) => trySourceWithFallback((q, y, opts) => searchWikipediaWithImages(q, y, "nl", opts), q, y)],
+  ["wikipedia-en", (q, y) => trySourceWithFallback((q, y, opts) => searchWikipediaWithImages(q, y, "en", opts), q, y)],
+  ["wikipedia-de", (q, y) => trySourceWithFallback((q, y, opts) => searchWikipediaWithImages(q, y, "de", opts), q, y)],
+  ["commons", (q, y) => trySourceWithFallback(searchWikimediaCommons, q, y)],
+  // Wikipedia-only search via Firecrawl, when configured (has its own fallback)
+  ["firecrawl", (q, y, key) => (key ? searchFirecrawlWikipediaOnly(q, y, key) : Promise.resolve(null))],
+];
+
 // ============== MAIN SEARCH FUNCTION ==============
 async function searchAllSources(
   eventId: string,
@@ -1038,7 +1055,10 @@ async function searchAllSources(
   isTV: boolean = false, // NEW: Explicit TV show flag
   isMusic: boolean = false,
   spotifySearchQuery?: string,
+  sources?: SourceId[],
 ): Promise<ImageResult> {
+  const isSourceEnabled = (id: SourceId) => !sources || sources.includes(id);
+
   console.log(
     `Searching for: "${query}" (${year || "no year"})${isCelebrity ? " [celebrity]" : ""}${isMovie ? " [movie]" : ""}${isTV ? " [tv]" : ""}${isMusic ? " [music]" : ""}`,
   );
@@ -1050,7 +1070,7 @@ async function searchAllSources(
   }
 
   // For celebrities, try TMDB first as it's optimized for person portraits
-  if (isCelebrity) {
+  if (isCelebrity && isSourceEnabled("tmdb")) {
     const tmdbResult = await searchTMDBPerson(searchQuery);
     if (tmdbResult) {
       console.log(`Found celebrity image via TMDB for "${searchQuery}"`);
@@ -1059,7 +1079,7 @@ async function searchAllSources(
   }
 
   // For TV shows, try TMDB TV API ONLY (no fallback to movies)
-  if (isTV) {
+  if (isTV && isSourceEnabled("tmdb")) {
     const tmdbResult = await searchTMDBMovie(searchQuery, year, false, true); // isMovie=false, isTV=true
     if (tmdbResult) {
       console.log(`Found TV show image via TMDB for "${searchQuery}"`);
@@ -1068,7 +1088,7 @@ async function searchAllSources(
   }
 
   // For movies, try TMDB Movie API ONLY (no fallback to TV)
-  if (isMovie) {
+  if (isMovie && isSourceEnabled("tmdb")) {
     const tmdbResult = await searchTMDBMovie(searchQuery, year, true, false); // isMovie=true, isTV=false
     if (tmdbResult) {
       console.log(`Found movie image via TMDB for "${searchQuery}"`);
@@ -1079,21 +1099,10 @@ async function searchAllSources(
   // For movie fallbacks, add disambiguation (e.g., "Titanic film") to help Wikipedia/Commons
   const fallbackQuery = isMovie ? addMovieDisambiguation(searchQuery) : searchQuery;
 
-  // Search all sources in parallel with fallback strategy
-  const allSources = [
-    // Dutch sources first (likely most relevant for Dutch app)
-    trySourceWithFallback(searchNationaalArchief, fallbackQuery, year),
-    trySourceWithFallback((q, y, opts) => searchWikipediaWithImages(q, y, "nl", opts), fallbackQuery, year),
-    // International sources
-    trySourceWithFallback((q, y, opts) => searchWikipediaWithImages(q, y, "en", opts), fallbackQuery, year),
-    trySourceWithFallback((q, y, opts) => searchWikipediaWithImages(q, y, "de", opts), fallbackQuery, year),
-    trySourceWithFallback(searchWikimediaCommons, fallbackQuery, year),
-  ];
-
-  // Add Firecrawl Wikipedia-only search if available (already has its own fallback)
-  if (firecrawlKey) {
-    allSources.push(searchFirecrawlWikipediaOnly(searchQuery, year, firecrawlKey));
-  }
+  // Search all sources in parallel with fallback strategy (Firecrawl gets the plain query)
+  const allSources = FALLBACK_SOURCES.filter(([id]) => isSourceEnabled(id)).map(([id, search]) =>
+    search(id === "firecrawl" ? searchQuery : fallbackQuery, year, firecrawlKey),
+  );
 
   // Use Promise.allSettled to get all results, then pick the first successful one
   const results = await Promise.allSettled(allSources);
@@ -1106,7 +1115,7 @@ async function searchAllSources(
   }
 
   // MUSIC FALLBACK: If no image found for music, try TMDB with Spotify query (artist name)
-  if (isMusic && spotifySearchQuery) {
+  if (isMusic && spotifySearchQuery && isSourceEnabled("tmdb")) {
     // Extract artist name from Spotify query (format: "Artist - Title" or just "Artist")
     const artistName = spotifySearchQuery.includes(" - ")
       ? spotifySearchQuery.split(" - ")[0].trim()
@@ -1155,10 +1164,13 @@ serve(async (req) => {
 
     // Process all queries with cache-first strategy
     const results = await Promise.all(
-      limitedQueries.map(async ({ eventId, query, year, isCelebrity, isMovie, isTV, isMusic, spotifySearchQuery }) => {
+      limitedQueries.map(async ({ eventId, query, year, isCelebrity, isMovie, isTV, isMusic, spotifySearchQuery, sources }) => {
+        // A narrowed search has its own cache entry, so a Wikipedia hit isn't served as a TMDB one
+        const cacheQuery = sources?.length ? `${query} [${[...sources].sort().join(",")}]` : query;
+
         // STEP 1: Check cache first
         if (supabase) {
-          const cached = await checkCache(supabase, query);
+          const cached = await checkCache(supabase, cacheQuery);
           if (cached) {
             cacheHits++;
             return { eventId, imageUrl: cached.imageUrl, source: cached.source };
@@ -1176,18 +1188,20 @@ serve(async (req) => {
           isMovie, 
           isTV || false, 
           isMusic, 
-          spotifySearchQuery
+          spotifySearchQuery,
+          sources?.length ? sources : undefined,
         );
         
         // STEP 3: Save successful result to cache
         if (supabase && result.imageUrl) {
           // Fire-and-forget: don't wait for cache save
-          saveToCache(supabase, query, result.imageUrl, result.source, {
+          saveToCache(supabase, cacheQuery, result.imageUrl, result.source, {
             year,
             isCelebrity,
             isMovie,
             isTV,
             isMusic,
+            sources,
           }).catch(() => {});
         }
         
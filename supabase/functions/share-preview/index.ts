@@ -26,6 +26,8 @@
 
 import { serve } from "https://deno.land/std@0.177.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { LOCALE_TAGS, SUPPORTED_LANGUAGES } from "../_shared/languages.ts";
+import type { Language } from "../_shared/languages.ts";
 
 const PUBLIC_DOMAIN = "https://hetjaarvan.nl";
 
@@ -78,9 +80,7 @@ function pickYearRange(events: StoryEvent[] | undefined): { start: number; end:
   return { start: Math.min(...years), end: Math.max(...years) };
 }
 
-type Lang = "nl" | "en" | "de" | "fr";
-
-function pickLanguage(stored: string | undefined, acceptLang: string | null): Lang {
+function pickLanguage(stored: string | undefined, acceptLang: string | null): Language {
   const candidates: string[] = [];
   if (stored) candidates.push(stored.toLowerCase());
   if (acceptLang) {
@@ -90,15 +90,13 @@ function pickLanguage(stored: string | undefined, acceptLang: string | null): La
     }
   }
   for (const c of candidates) {
-    if (c.startsWith("nl")) return "nl";
-    if (c.startsWith("en")) return "en";
-    if (c.startsWith("de")) return "de";
-    if (c.startsWith("fr")) return "fr";
+    const match = SUPPORTED_LANGUAGES.find((l) => c.startsWith(l));
+    if (match) return match;
   }
   return "nl";
 }
 
-function decadeLabel(year: number, lang: Lang): string {
+function decadeLabel(year: number, lang: Language): string {
   // floor to start of decade — 1985 → 80, 2003 → 00, 2017 → 10
   const dec = Math.floor((year % 100) / 10) * 10;
   const decStr = dec.toString().padStart(2, "0");
@@ -109,17 +107,25 @@ function decadeLabel(year: number, lang: Lang): string {
       return `${decStr}er Jahren`;
     case "fr":
       return year >= 2000 ? `années ${Math.floor(year / 10) * 10}` : `années ${decStr}`;
+    case "es":
+      return year >= 2000 ? `años ${Math.floor(year / 10) * 10}` : `años ${decStr}`;
+    case "it":
+      return year >= 2000 ? `anni ${Math.floor(year / 10) * 10}` : `anni '${decStr}`;
+    case "pt":
+      return year >= 2000 ? `anos ${Math.floor(year / 10) * 10}` : `anos ${decStr}`;
+    case "pl":
+      return year >= 2000 ? `lata ${Math.floor(year / 10) * 10}.` : `lata ${decStr}.`;
     case "nl":
     default:
       return year >= 2000 ? `jaren ${Math.floor(year / 10) * 10}` : `jaren ${decStr}`;
   }
 }
 
-function buildTitle(range: { start: number; end: number } | null, lang: Lang, brand: string): {
+function buildTitle(range: { start: number; end: number } | null, lang: Language, brand: string): {
   title: string;
   description: string;
 } {
-  const T: Record<Lang, { single: (y: number) => string; decade: (label: string) => string; range: (s: number, e: number) => string; descLong: string; descShort: string; brandSuffix: string }> = {
+  const T: Record<Language, { single: (y: number) => string; decade: (label: string) => string; range: (s: number, e: number) => string; descLong: string; descShort: string; brandSuffix: string }> = {
     nl: {
       single: (y) => `Mijn jaar ${y}`,
       decade: (label) => `Mijn ${label}`,
@@ -152,6 +158,38 @@ function buildTitle(range: { start: number; end: number } | null, lang: Lang, br
       descShort: "Une chronologie personnelle.",
       brandSuffix: "Het jaar van",
     },
+    es: {
+      single: (y) => `Mi año ${y}`,
+      decade: (label) => `Mis ${label}`,
+      range: (s, e) => `Mis años ${s}–${e}`,
+      descLong: "Una cronología personal con acontecimientos, música y recuerdos de este periodo.",
+      descShort: "Una cronología personal.",
+      brandSuffix: "Het jaar van",
+    },
+    it: {
+      single: (y) => `Il mio ${y}`,
+      decade: (label) => `I miei ${label}`,
+      range: (s, e) => `I miei anni ${s}–${e}`,
+      descLong: "Una linea del tempo personale con eventi, musica e ricordi di questo periodo.",
+      descShort: "Una linea del tempo personale.",
+      brandSuffix: "Het jaar van",
+    },
+    pt: {
+      single: (y) => `O meu ano ${y}`,
+      decade: (label) => `Os meus ${label}`,
+      range: (s, e) => `Os meus anos ${s}–${e}`,
+      descLong: "Uma cronologia pessoal com acontecimentos, música e memórias deste período.",
+      descShort: "Uma cronologia pessoal.",
+      brandSuffix: "Het jaar van",
+    },
+    pl: {
+      single: (y) => `Mój rok ${y}`,
+      decade: (label) => `Moje ${label}`,
+      range: (s, e) => `Moje lata ${s}–${e}`,
+      descLong: "Osobista oś czasu z wydarzeniami, muzyką i wspomnieniami z tego okresu.",
+      descShort: "Osobista oś czasu.",
+      brandSuffix: "Het jaar van",
+    },
   };
 
   const tpl = T[lang];
@@ -188,21 +226,15 @@ function escapeHtml(s: string): string {
     .replace(/'/g, "&#39;");
 }
 
-function htmlOgLocale(lang: Lang): string {
-  switch (lang) {
-    case "en": return "en_US";
-    case "de": return "de_DE";
-    case "fr": return "fr_FR";
-    case "nl":
-    default: return "nl_NL";
-  }
+function htmlOgLocale(lang: Language): string {
+  return LOCALE_TAGS[lang].replace("-", "_");
 }
 
 function renderHtml(
   storyId: string,
   title: string,
   description: string,
-  lang: Lang,
+  lang: Language,
 ): string {
   const canonical = `${PUBLIC_DOMAIN}/s/${storyId}`;
   const ogImage = `${PUBLIC_DOMAIN}/og-image.png`;
@@ -0,0 +1,71 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import {
+  SpotifyApiError,
+  buildAuthorizeUrl,
+  createPlaylistWithTracks,
+  createSpotifyWebApi,
+  exchangeAuthorizationCode,
+} from "../_shared/spotifyWebApi.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+/**
+ * Spotify playlist creation with the user's own account (OAuth code flow + PKCE).
+ *
+ * - action "authorize": returns the Spotify consent URL for a PKCE challenge
+ * - action "create": swaps the code for a token and creates the playlist
+ *
+ * The user token never leaves this function; the browser only holds the
+ * PKCE verifier between the redirect and the callback.
+ */
+serve(async (req) => {
+  if (req.method === "OPTIONS") return new Response(null, { headers: corsHeaders });
+
+  try {
+    const body = await req.json();
+
+    const SPOTIFY_CLIENT_ID = Deno.env.get("SPOTIFY_CLIENT_ID");
+    if (!SPOTIFY_CLIENT_ID) throw new Error("SPOTIFY_CLIENT_ID is not configured");
+
+    if (body.action === "authorize") {
+      const { redirectUri, codeChallenge, state } = body;
+      if (!redirectUri || !codeChallenge || !state) {
+        return json({ error: "redirectUri, codeChallenge and state are required" }, 400);
+      }
+      return json({ url: buildAuthorizeUrl({ clientId: SPOTIFY_CLIENT_ID, redirectUri, codeChallenge, state }) });
+    }
+
+    if (body.action === "create") {
+      const { code, codeVerifier, redirectUri, name, description, trackIds, coverImage } = body;
+      if (!code || !codeVerifier || !redirectUri || !name) {
+        return json({ error: "code, codeVerifier, redirectUri and name are required" }, 400);
+      }
+      if (!Array.isArray(trackIds) || trackIds.length === 0) {
+        return json({ error: "trackIds must be a non-empty array" }, 400);
+      }
+
+      const accessToken = await exchangeAuthorizationCode({ clientId: SPOTIFY_CLIENT_ID, code, codeVerifier, redirectUri });
+      const playlist = await createPlaylistWithTracks(createSpotifyWebApi(accessToken), {
+        name,
+        description: description || "",
+        trackIds,
+        coverImage,
+      });
+
+      console.log(`[Spotify Playlist] Created "${name}" with ${trackIds.length} tracks`);
+      return json({ playlistId: playlist.id, playlistUrl: playlist.url });
+    }
+
+    return json({ error: `Unknown action: ${body.action}` }, 400);
+  } catch (error) {
+    console.error("[Spotify Playlist] Error:", error);
+    const status = error instanceof SpotifyApiError && error.status < 500 ? error.status : 500;
+    return json({ error: error instanceof Error ? error.message : "Unknown error" }, status);
+  }
+});
@@ -0,0 +1,8 @@
+-- Shared stories can contain photos the user uploaded in the timeline editor;
+-- useSaveStory uploads them to story-assets next to the audio files.
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+  'audio/mpeg', 'audio/mp3', 'audio/wav', 'audio/webm', 'audio/ogg',
+  'image/jpeg', 'image/png', 'image/webp'
+]
+WHERE id = 'story-assets';
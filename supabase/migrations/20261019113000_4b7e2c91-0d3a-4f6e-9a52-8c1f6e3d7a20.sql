@@ -0,0 +1,71 @@
+-- Server-side video renders of saved stories.
+-- The browser queues a job; the render worker (render-service/) claims it,
+-- renders the Remotion composition with Chromium and uploads the file to
+-- the story-renders bucket.
+CREATE TABLE public.video_renders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  story_id UUID NOT NULL REFERENCES public.saved_stories(id) ON DELETE CASCADE,
+  format TEXT NOT NULL CHECK (format IN ('mp4', 'webm')),
+  resolution TEXT NOT NULL CHECK (resolution IN ('540p', '720p', '1080p')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'rendering', 'done', 'error')),
+  -- 0..1, written by the worker while rendering
+  progress REAL NOT NULL DEFAULT 0,
+  output_path TEXT,
+  output_url TEXT,
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.video_renders ENABLE ROW LEVEL SECURITY;
+
+-- Same access model as saved_stories: anyone with the story can queue a
+-- render and poll it by id. Only the worker (service_role) updates jobs.
+CREATE POLICY "Anyone can view renders"
+  ON public.video_renders FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can queue a render"
+  ON public.video_renders FOR INSERT
+  WITH CHECK (status = 'queued' AND progress = 0 AND output_path IS NULL AND output_url IS NULL);
+
+CREATE INDEX idx_video_renders_queued ON public.video_renders(created_at) WHERE status = 'queued';
+
+-- Atomically hands the oldest queued job to a worker
+CREATE OR REPLACE FUNCTION public.claim_video_render()
+RETURNS SETOF public.video_renders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.video_renders
+  SET status = 'rendering', updated_at = now()
+  WHERE id = (
+    SELECT id FROM public.video_renders
+    WHERE status = 'queued'
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_video_render() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_video_render() TO service_role;
+
+-- Public bucket for rendered files (download links)
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'story-renders',
+  'story-renders',
+  true,
+  524288000, -- 500MB limit
+  ARRAY['video/mp4', 'video/webm']
+);
+
+CREATE POLICY "Anyone can view story renders"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'story-renders');
@@ -0,0 +1,18 @@
+-- Subtitle sidecars (WebVTT + SRT) uploaded next to each rendered video.
+ALTER TABLE public.video_renders
+  ADD COLUMN subtitles_vtt_url TEXT,
+  ADD COLUMN subtitles_srt_url TEXT;
+
+DROP POLICY "Anyone can queue a render" ON public.video_renders;
+
+CREATE POLICY "Anyone can queue a render"
+  ON public.video_renders FOR INSERT
+  WITH CHECK (
+    status = 'queued' AND progress = 0
+    AND output_path IS NULL AND output_url IS NULL
+    AND subtitles_vtt_url IS NULL AND subtitles_srt_url IS NULL
+  );
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['video/mp4', 'video/webm', 'text/vtt', 'application/x-subrip']
+WHERE id = 'story-renders';
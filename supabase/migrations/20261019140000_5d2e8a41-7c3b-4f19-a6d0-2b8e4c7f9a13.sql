@@ -0,0 +1,62 @@
+-- Offline gazetteer for the city field: GeoNames cities (cities15000 dump),
+-- loaded by scripts/import-gazetteer.ts. The home page autocompletes against
+-- it and stores the canonical place (city, region, country code) with the
+-- form, so country-specific content no longer guesses from free text.
+CREATE TABLE public.gazetteer_places (
+  geoname_id INTEGER PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- First-level region (province, state, Land) and its GeoNames admin1 code
+  admin1_code TEXT,
+  admin1_name TEXT,
+  -- ISO 3166-1 alpha-2
+  country_code CHAR(2) NOT NULL,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  population INTEGER NOT NULL DEFAULT 0
+);
+
+-- Search keys: the name, ASCII name and Latin-script alternate names
+-- ("Keulen", "Cologne" for Köln), lowercased and without accents - see
+-- toGazetteerKey in src/lib/gazetteerImport.ts.
+CREATE TABLE public.gazetteer_names (
+  name_key TEXT NOT NULL,
+  geoname_id INTEGER NOT NULL REFERENCES public.gazetteer_places(geoname_id) ON DELETE CASCADE,
+  PRIMARY KEY (name_key, geoname_id)
+);
+
+CREATE INDEX idx_gazetteer_names_prefix ON public.gazetteer_names(name_key text_pattern_ops);
+
+ALTER TABLE public.gazetteer_places ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gazetteer_names ENABLE ROW LEVEL SECURITY;
+
+-- Reference data: readable by everyone, written only by the importer (service_role)
+CREATE POLICY "Anyone can view gazetteer places"
+  ON public.gazetteer_places FOR SELECT
+  USING (true);
+
+CREATE POLICY "Anyone can view gazetteer names"
+  ON public.gazetteer_names FOR SELECT
+  USING (true);
+
+-- Autocomplete: places with a name starting with the (already normalised)
+-- key, exact matches first, then the biggest cities.
+CREATE OR REPLACE FUNCTION public.search_gazetteer(p_key text, p_limit integer DEFAULT 8)
+RETURNS SETOF public.gazetteer_places
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT p.*
+  FROM public.gazetteer_places p
+  JOIN (
+    SELECT geoname_id, bool_or(name_key = p_key) AS exact
+    FROM public.gazetteer_names
+    WHERE name_key LIKE p_key || '%'
+    GROUP BY geoname_id
+  ) m ON m.geoname_id = p.geoname_id
+  ORDER BY m.exact DESC, p.population DESC
+  LIMIT LEAST(GREATEST(p_limit, 1), 20);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_gazetteer(text, integer)
+  TO anon, authenticated;
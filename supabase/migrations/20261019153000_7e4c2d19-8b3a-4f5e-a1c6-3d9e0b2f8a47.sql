@@ -0,0 +1,44 @@
+-- Images users picked in the image picker. image_search_cache is only
+-- writable by the edge functions, so picks go through this function, which
+-- stores them under a "choice:" key (never clashing with the edge functions'
+-- own keys). The user-choice image provider reads them back, so the next
+-- search for the same event starts from the picked image; blacklisting the
+-- image purges the row like any other cache entry.
+CREATE OR REPLACE FUNCTION public.record_image_choice(p_query text, p_image_url text, p_source text DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF char_length(p_query) = 0 OR char_length(p_query) > 500
+    OR char_length(p_image_url) > 2048 OR p_image_url !~ '^https://'
+    OR char_length(COALESCE(p_source, '')) > 2048 THEN
+    RAISE EXCEPTION 'invalid image choice';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.image_blacklist WHERE image_url = p_image_url) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.image_search_cache (query, image_url, source, metadata)
+  VALUES ('choice:' || p_query, p_image_url, p_source, jsonb_build_object('chosen', true, 'choices', 1))
+  ON CONFLICT (query) DO UPDATE
+  SET image_url = EXCLUDED.image_url,
+      source = EXCLUDED.source,
+      -- How often this image was picked for the query; a different pick starts over
+      metadata = jsonb_build_object(
+        'chosen', true,
+        'choices', CASE
+          WHEN image_search_cache.image_url = EXCLUDED.image_url
+            THEN COALESCE((image_search_cache.metadata->>'choices')::int, 0) + 1
+          ELSE 1
+        END
+      ),
+      last_accessed = now();
+END;
+$$;
+
+-- Same trust level as adding to the blacklist
+REVOKE EXECUTE ON FUNCTION public.record_image_choice(text, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_image_choice(text, text, text) TO authenticated;
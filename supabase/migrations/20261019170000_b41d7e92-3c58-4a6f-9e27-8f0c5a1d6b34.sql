@@ -0,0 +1,51 @@
+-- Picks keep the image's credit (author, license, source page), so an image
+-- the user-choice provider brings back is attributed like the original find.
+DROP FUNCTION IF EXISTS public.record_image_choice(text, text, text);
+
+CREATE OR REPLACE FUNCTION public.record_image_choice(
+  p_query text,
+  p_image_url text,
+  p_source text DEFAULT NULL,
+  p_credit jsonb DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF char_length(p_query) = 0 OR char_length(p_query) > 500
+    OR char_length(p_image_url) > 2048 OR p_image_url !~ '^https://'
+    OR char_length(COALESCE(p_source, '')) > 2048
+    OR (p_credit IS NOT NULL AND (jsonb_typeof(p_credit) <> 'object' OR octet_length(p_credit::text) > 4096)) THEN
+    RAISE EXCEPTION 'invalid image choice';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.image_blacklist WHERE image_url = p_image_url) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.image_search_cache (query, image_url, source, metadata)
+  VALUES (
+    'choice:' || p_query, p_image_url, p_source,
+    jsonb_strip_nulls(jsonb_build_object('chosen', true, 'choices', 1, 'credit', p_credit))
+  )
+  ON CONFLICT (query) DO UPDATE
+  SET image_url = EXCLUDED.image_url,
+      source = EXCLUDED.source,
+      -- How often this image was picked for the query; a different pick starts over
+      metadata = jsonb_strip_nulls(jsonb_build_object(
+        'chosen', true,
+        'choices', CASE
+          WHEN image_search_cache.image_url = EXCLUDED.image_url
+            THEN COALESCE((image_search_cache.metadata->>'choices')::int, 0) + 1
+          ELSE 1
+        END,
+        'credit', p_credit
+      )),
+      last_accessed = now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_image_choice(text, text, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_image_choice(text, text, text, jsonb) TO authenticated;
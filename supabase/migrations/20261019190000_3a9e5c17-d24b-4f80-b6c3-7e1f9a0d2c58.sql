@@ -0,0 +1,23 @@
+-- Perceptual hash (64-bit dHash as 16 hex characters, see src/lib/imageHash.ts)
+-- of each blacklisted image, so the client can block the same picture under
+-- any other URL or thumbnail size. Older rows and images that couldn't be
+-- loaded have none and are only blocked by URL.
+ALTER TABLE public.image_blacklist ADD COLUMN IF NOT EXISTS image_hash text;
+
+CREATE INDEX IF NOT EXISTS idx_image_blacklist_hash
+  ON public.image_blacklist(image_hash)
+  WHERE image_hash IS NOT NULL;
+
+DROP POLICY IF EXISTS "Authenticated users can add to blacklist" ON public.image_blacklist;
+
+CREATE POLICY "Authenticated users can add to blacklist"
+  ON public.image_blacklist
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    auth.uid() IS NOT NULL
+    AND char_length(image_url) <= 2048
+    AND char_length(COALESCE(event_title, '')) <= 200
+    AND char_length(COALESCE(search_query, '')) <= 500
+    AND (image_hash IS NULL OR image_hash ~ '^[0-9a-f]{16}$')
+  );
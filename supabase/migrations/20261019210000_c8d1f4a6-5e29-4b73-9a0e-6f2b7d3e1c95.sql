@@ -0,0 +1,161 @@
+-- Image search traces, for the search quality dashboard (/admin/image-search).
+-- One row per image search the client ran. Anonymized: no user or session,
+-- no event title; the query only for non-personal events, and the trace
+-- entries without their queries.
+CREATE TABLE public.image_search_traces (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  language TEXT,
+  visual_subject_type TEXT,
+  category TEXT,
+  query TEXT,
+  -- The image the event got (after dedup), null when none
+  image_url TEXT,
+  -- Label of the provider that found it, e.g. "🖼️ Commons"
+  winner TEXT,
+  duration_ms INTEGER,
+  -- [{ source, result, timestamp, withYear, score }] in the order providers answered
+  entries JSONB NOT NULL DEFAULT '[]'::jsonb
+);
+
+-- No policies: written and read only through the functions below
+ALTER TABLE public.image_search_traces ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_image_search_traces_created_at ON public.image_search_traces(created_at);
+CREATE INDEX idx_image_search_traces_image_url ON public.image_search_traces(image_url) WHERE image_url IS NOT NULL;
+
+-- Searches run for anonymous visitors too, so anyone may add a trace
+CREATE OR REPLACE FUNCTION public.record_image_search_trace(
+  p_language text,
+  p_duration_ms integer,
+  p_entries jsonb,
+  p_visual_subject_type text DEFAULT NULL,
+  p_category text DEFAULT NULL,
+  p_query text DEFAULT NULL,
+  p_image_url text DEFAULT NULL,
+  p_winner text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF char_length(COALESCE(p_language, '')) > 10
+    OR char_length(COALESCE(p_visual_subject_type, '')) > 50
+    OR char_length(COALESCE(p_category, '')) > 50
+    OR char_length(COALESCE(p_query, '')) > 500
+    OR char_length(COALESCE(p_image_url, '')) > 2048
+    OR char_length(COALESCE(p_winner, '')) > 100
+    OR p_duration_ms < 0 OR p_duration_ms > 600000
+    OR jsonb_typeof(p_entries) <> 'array'
+    OR jsonb_array_length(p_entries) > 50
+    OR octet_length(p_entries::text) > 16384 THEN
+    RAISE EXCEPTION 'invalid image search trace';
+  END IF;
+
+  INSERT INTO public.image_search_traces
+    (language, visual_subject_type, category, query, image_url, winner, duration_ms, entries)
+  VALUES
+    (p_language, p_visual_subject_type, p_category, NULLIF(lower(trim(p_query)), ''), p_image_url, p_winner, p_duration_ms, p_entries);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_image_search_trace(text, integer, jsonb, text, text, text, text, text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_image_search_trace(text, integer, jsonb, text, text, text, text, text) TO anon, authenticated;
+
+-- Everything the dashboard shows, over the last p_days days.
+-- TODO: restrict to admins once profiles.is_admin exists (see ADMIN_ROLE_PLAN.md).
+CREATE OR REPLACE FUNCTION public.get_image_search_quality(p_days integer DEFAULT 30)
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH recent AS (
+    SELECT * FROM public.image_search_traces
+    WHERE created_at >= now() - make_interval(days => LEAST(GREATEST(p_days, 1), 365))
+  ),
+  entries AS (
+    SELECT r.winner, e->>'source' AS source, e->>'result' AS result
+    FROM recent r, jsonb_array_elements(r.entries) e
+  )
+  SELECT jsonb_build_object(
+    'days', LEAST(GREATEST(p_days, 1), 365),
+    'searches', (SELECT count(*) FROM recent),
+    'found', (SELECT count(*) FROM recent WHERE image_url IS NOT NULL),
+    'avgTimeToImageMs', (SELECT round(avg(duration_ms)) FROM recent WHERE image_url IS NOT NULL),
+    'bySource', COALESCE((
+      SELECT jsonb_agg(s ORDER BY s.asked DESC)
+      FROM (
+        SELECT source,
+          count(*) AS asked,
+          count(*) FILTER (WHERE result = 'found') AS found,
+          count(*) FILTER (WHERE result = 'error') AS errors,
+          count(*) FILTER (WHERE winner = source) AS won
+        FROM entries
+        GROUP BY source
+      ) s
+    ), '[]'::jsonb),
+    'bySubject', COALESCE((
+      SELECT jsonb_agg(s ORDER BY s.searches DESC)
+      FROM (
+        SELECT COALESCE(visual_subject_type, 'unknown') AS key,
+          count(*) AS searches,
+          count(image_url) AS found,
+          round(avg(duration_ms) FILTER (WHERE image_url IS NOT NULL)) AS "avgTimeToImageMs"
+        FROM recent
+        GROUP BY 1
+      ) s
+    ), '[]'::jsonb),
+    'byLanguage', COALESCE((
+      SELECT jsonb_agg(s ORDER BY s.searches DESC)
+      FROM (
+        SELECT COALESCE(language, 'unknown') AS key,
+          count(*) AS searches,
+          count(image_url) AS found,
+          round(avg(duration_ms) FILTER (WHERE image_url IS NOT NULL)) AS "avgTimeToImageMs"
+        FROM recent
+        GROUP BY 1
+      ) s
+    ), '[]'::jsonb),
+    -- Blacklisted images by the provider that last served them; by host when no trace has them
+    'blacklistedBySource', COALESCE((
+      SELECT jsonb_agg(s ORDER BY s.blacklisted DESC)
+      FROM (
+        SELECT COALESCE(t.winner, substring(b.image_url from '^https?://([^/]+)'), 'unknown') AS source,
+          count(*) AS blacklisted
+        FROM public.image_blacklist b
+        LEFT JOIN LATERAL (
+          SELECT winner FROM public.image_search_traces
+          WHERE image_url = b.image_url
+          ORDER BY created_at DESC
+          LIMIT 1
+        ) t ON true
+        WHERE b.created_at >= now() - make_interval(days => LEAST(GREATEST(p_days, 1), 365))
+        GROUP BY 1
+        ORDER BY 2 DESC
+        LIMIT 15
+      ) s
+    ), '[]'::jsonb),
+    'neverFound', COALESCE((
+      SELECT jsonb_agg(s ORDER BY s.searches DESC)
+      FROM (
+        SELECT query,
+          max(visual_subject_type) AS "visualSubjectType",
+          count(*) AS searches,
+          max(created_at) AS "lastSearchedAt"
+        FROM recent
+        WHERE query IS NOT NULL
+        GROUP BY query
+        HAVING count(image_url) = 0
+        ORDER BY 3 DESC, 4 DESC
+        LIMIT 50
+      ) s
+    ), '[]'::jsonb)
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_image_search_quality(integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_image_search_quality(integer) TO authenticated;
@@ -0,0 +1,25 @@
+-- Admin role (see ADMIN_ROLE_PLAN.md): gates the /admin pages.
+-- The first admin is made by hand in the SQL editor:
+--   UPDATE public.profiles SET is_admin = true
+--   WHERE id = (SELECT id FROM auth.users WHERE email = '...');
+ALTER TABLE public.profiles ADD COLUMN is_admin BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Users keep editing their own profile, but never is_admin: column-level
+-- grants, so update({ is_admin: true }) fails with "permission denied".
+REVOKE INSERT, UPDATE ON public.profiles FROM authenticated;
+GRANT INSERT (id, display_name, avatar_url) ON public.profiles TO authenticated;
+GRANT UPDATE (avatar_url, display_name, updated_at) ON public.profiles TO authenticated;
+
+-- For RPCs and policies that are admin-only
+CREATE OR REPLACE FUNCTION public.is_admin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE((SELECT is_admin FROM public.profiles WHERE id = auth.uid()), false);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_admin() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.is_admin() TO anon, authenticated;
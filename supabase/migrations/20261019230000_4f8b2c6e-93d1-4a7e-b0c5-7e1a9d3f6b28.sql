@@ -0,0 +1,71 @@
+-- Image picks become a ranking signal instead of a global override. Until
+-- now one signed-in user's pick replaced the image for everyone (a "choice:"
+-- row in image_search_cache). Now every user has one pick per event query,
+-- get_image_choices only returns images enough different users picked, and
+-- the user-choice provider only boosts images the event's own search finds
+-- (see src/lib/imageSearch/providers/userChoice.ts).
+CREATE TABLE public.image_choices (
+  query TEXT NOT NULL,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  image_url TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (query, user_id)
+);
+
+-- No policies: written and read only through the functions below
+ALTER TABLE public.image_choices ENABLE ROW LEVEL SECURITY;
+
+-- The old single-pick overrides
+DELETE FROM public.image_search_cache WHERE query LIKE 'choice:%';
+
+DROP FUNCTION IF EXISTS public.record_image_choice(text, text, text, jsonb);
+
+-- A new pick for the same query replaces the user's earlier one
+CREATE OR REPLACE FUNCTION public.record_image_choice(p_query text, p_image_url text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'not signed in';
+  END IF;
+
+  IF char_length(p_query) = 0 OR char_length(p_query) > 500
+    OR char_length(p_image_url) > 2048 OR p_image_url !~ '^https://' THEN
+    RAISE EXCEPTION 'invalid image choice';
+  END IF;
+
+  INSERT INTO public.image_choices (query, user_id, image_url)
+  VALUES (p_query, auth.uid(), p_image_url)
+  ON CONFLICT (query, user_id) DO UPDATE
+  SET image_url = EXCLUDED.image_url,
+      created_at = now();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_image_choice(text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_image_choice(text, text) TO authenticated;
+
+-- Images picked for a query by at least 3 different users, most picked first.
+-- Blacklisted images are left out.
+CREATE OR REPLACE FUNCTION public.get_image_choices(p_query text)
+RETURNS TABLE(image_url text, pickers integer)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.image_url, count(*)::integer AS pickers
+  FROM public.image_choices c
+  WHERE c.query = p_query
+    AND NOT EXISTS (SELECT 1 FROM public.image_blacklist b WHERE b.image_url = c.image_url)
+  GROUP BY c.image_url
+  HAVING count(*) >= 3
+  ORDER BY 2 DESC;
+$$;
+
+-- Searches run for anonymous visitors too
+REVOKE EXECUTE ON FUNCTION public.get_image_choices(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_image_choices(text) TO anon, authenticated;
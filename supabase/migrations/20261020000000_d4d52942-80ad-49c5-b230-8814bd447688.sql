@@ -0,0 +1,29 @@
+-- The image search dashboard is for admins only: its numbers and the
+-- queries that never found an image aren't for every signed-in user.
+-- get_image_search_quality becomes a wrapper that checks public.is_admin()
+-- (20261019220000) before it runs the queries, which move as they were to
+-- image_search_quality, callable by no client role.
+-- This settles the TODO left in 20261019210000.
+ALTER FUNCTION public.get_image_search_quality(integer) RENAME TO image_search_quality;
+
+REVOKE EXECUTE ON FUNCTION public.image_search_quality(integer) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_image_search_quality(p_days integer DEFAULT 30)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.is_admin() THEN
+    RAISE EXCEPTION 'Only admins can see the image search quality'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN public.image_search_quality(p_days);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_image_search_quality(integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_image_search_quality(integer) TO authenticated;
@@ -0,0 +1,48 @@
+-- Renders follow the access model of the story they render. Until now any
+-- visitor could list every render and queue one for any story id, and the
+-- worker published private stories to the public story-renders bucket.
+-- Now renders are only visible and queueable for stories the caller can read
+-- (public ones, or their own), and the worker refuses stories that aren't
+-- public, since its output is public.
+DROP POLICY "Anyone can view renders" ON public.video_renders;
+
+CREATE POLICY "Renders of readable stories are visible"
+  ON public.video_renders FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.saved_stories s
+      WHERE s.id = video_renders.story_id AND (s.is_public OR s.user_id = auth.uid())
+    )
+  );
+
+DROP POLICY "Anyone can queue a render" ON public.video_renders;
+
+CREATE POLICY "Renders can be queued for readable stories"
+  ON public.video_renders FOR INSERT
+  WITH CHECK (
+    status = 'queued' AND progress = 0
+    AND output_path IS NULL AND output_url IS NULL
+    AND subtitles_vtt_url IS NULL AND subtitles_srt_url IS NULL
+    AND EXISTS (
+      SELECT 1 FROM public.saved_stories s
+      WHERE s.id = video_renders.story_id AND (s.is_public OR s.user_id = auth.uid())
+    )
+  );
+
+-- One render per story, format and resolution: saved stories don't change,
+-- so a queued, running or finished render is reused instead of rendered
+-- again. Only failed renders can be queued anew. Existing duplicates keep
+-- their oldest copy.
+UPDATE public.video_renders r
+SET status = 'error', error = 'Superseded by an identical render', updated_at = now()
+WHERE r.status <> 'error'
+  AND EXISTS (
+    SELECT 1 FROM public.video_renders o
+    WHERE o.story_id = r.story_id AND o.format = r.format AND o.resolution = r.resolution
+      AND o.status <> 'error'
+      AND (o.created_at, o.id) < (r.created_at, r.id)
+  );
+
+CREATE UNIQUE INDEX idx_video_renders_one_per_format
+  ON public.video_renders(story_id, format, resolution)
+  WHERE status <> 'error';
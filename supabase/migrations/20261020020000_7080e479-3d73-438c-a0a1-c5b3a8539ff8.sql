@@ -0,0 +1,36 @@
+-- Jobs of a worker that crashed or was stopped stayed in 'rendering' for
+-- good. The worker writes progress every few seconds, so a running job that
+-- hasn't been updated for 10 minutes has lost its worker: claiming now puts
+-- it back in the queue first. A job that keeps losing its worker (one that
+-- takes the worker down with it) gives up once it's an hour old.
+CREATE OR REPLACE FUNCTION public.claim_video_render()
+RETURNS SETOF public.video_renders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.video_renders
+  SET status = CASE WHEN created_at < now() - interval '1 hour' THEN 'error' ELSE 'queued' END,
+      error = CASE WHEN created_at < now() - interval '1 hour' THEN 'The render worker stopped responding' END,
+      progress = 0,
+      updated_at = now()
+  WHERE status = 'rendering'
+    AND updated_at < now() - interval '10 minutes';
+
+  RETURN QUERY
+  UPDATE public.video_renders
+  SET status = 'rendering', updated_at = now()
+  WHERE id = (
+    SELECT id FROM public.video_renders
+    WHERE status = 'queued'
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_video_render() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_video_render() TO service_role;